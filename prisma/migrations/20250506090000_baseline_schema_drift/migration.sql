@@ -0,0 +1,37 @@
+-- The baseline schema has Receipt.updatedAt and MedicineReminder, but no
+-- earlier migration creates them (databases set up with `prisma db push`
+-- already have them). Later migrations build on both, so create them where
+-- they are missing.
+
+-- AlterTable
+ALTER TABLE "Receipt" ADD COLUMN IF NOT EXISTS "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+ALTER TABLE "Receipt" ALTER COLUMN "updatedAt" DROP DEFAULT;
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "MedicineReminder" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "dosage" TEXT NOT NULL,
+    "frequency" TEXT NOT NULL,
+    "time" TEXT NOT NULL,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "aiGenerated" BOOLEAN NOT NULL DEFAULT false,
+
+    CONSTRAINT "MedicineReminder_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "MedicineReminder_userId_idx" ON "MedicineReminder"("userId");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "MedicineReminder_isActive_idx" ON "MedicineReminder"("isActive");
+
+-- AddForeignKey
+DO $$ BEGIN
+    ALTER TABLE "MedicineReminder" ADD CONSTRAINT "MedicineReminder_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN NULL;
+END $$;
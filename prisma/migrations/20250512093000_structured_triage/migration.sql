@@ -0,0 +1,15 @@
+-- CreateEnum
+CREATE TYPE "TriagePriority" AS ENUM ('LOW', 'MEDIUM', 'HIGH', 'URGENT');
+
+-- AlterTable
+ALTER TABLE "Receipt" ADD COLUMN     "priority" "TriagePriority",
+ADD COLUMN     "specialty" TEXT,
+ADD COLUMN     "redFlags" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "recommendedActions" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- AlterTable
+ALTER TABLE "Appointment" ADD COLUMN     "condition" TEXT,
+ADD COLUMN     "priority" "TriagePriority",
+ADD COLUMN     "specialty" TEXT,
+ADD COLUMN     "redFlags" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "recommendedActions" TEXT[] DEFAULT ARRAY[]::TEXT[];
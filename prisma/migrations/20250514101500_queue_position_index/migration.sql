@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "Receipt_hospitalId_status_queuePosition_idx" ON "Receipt"("hospitalId", "status", "queuePosition");
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Receipt" ADD COLUMN     "completedAt" TIMESTAMP(3);
+
+-- Backfill: the last update of an already completed receipt is its completion
+UPDATE "Receipt" SET "completedAt" = "updatedAt" WHERE "status" = 'COMPLETED';
+
+-- CreateIndex
+CREATE INDEX "Receipt_hospitalId_status_completedAt_idx" ON "Receipt"("hospitalId", "status", "completedAt");
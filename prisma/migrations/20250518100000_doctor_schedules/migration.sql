@@ -0,0 +1,51 @@
+-- AlterTable
+ALTER TABLE "Doctor" ADD COLUMN     "slotCapacity" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "slotMinutes" INTEGER NOT NULL DEFAULT 15;
+
+-- AlterTable
+ALTER TABLE "Appointment" ADD COLUMN     "slotEnd" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "DoctorShift" (
+    "id" TEXT NOT NULL,
+    "doctorId" TEXT NOT NULL,
+    "dayOfWeek" INTEGER NOT NULL,
+    "startMinute" INTEGER NOT NULL,
+    "endMinute" INTEGER NOT NULL,
+
+    CONSTRAINT "DoctorShift_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "DoctorLeave" (
+    "id" TEXT NOT NULL,
+    "doctorId" TEXT NOT NULL,
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "endsAt" TIMESTAMP(3) NOT NULL,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DoctorLeave_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DoctorShift_doctorId_dayOfWeek_idx" ON "DoctorShift"("doctorId", "dayOfWeek");
+
+-- CreateIndex
+CREATE INDEX "DoctorLeave_doctorId_startsAt_idx" ON "DoctorLeave"("doctorId", "startsAt");
+
+-- CreateIndex
+CREATE INDEX "Appointment_doctorId_scheduledDate_idx" ON "Appointment"("doctorId", "scheduledDate");
+
+-- AddForeignKey
+ALTER TABLE "DoctorShift" ADD CONSTRAINT "DoctorShift_doctorId_fkey" FOREIGN KEY ("doctorId") REFERENCES "Doctor"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DoctorLeave" ADD CONSTRAINT "DoctorLeave_doctorId_fkey" FOREIGN KEY ("doctorId") REFERENCES "Doctor"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Give existing doctors default working hours (Monday to Friday, 09:00-17:00)
+-- so booking has slots to offer straight away
+INSERT INTO "DoctorShift" ("id", "doctorId", "dayOfWeek", "startMinute", "endMinute")
+SELECT gen_random_uuid()::text, d."id", day, 540, 1020
+FROM "Doctor" d
+CROSS JOIN generate_series(1, 5) AS day;
@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "DoseStatus" AS ENUM ('TAKEN', 'LATE', 'SKIPPED');
+
+-- AlterTable
+ALTER TABLE "MedicineReminder" ADD COLUMN     "endDate" DATE,
+ADD COLUMN     "startDate" DATE NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- Backfill: existing reminders have been due since they were created
+UPDATE "MedicineReminder" SET "startDate" = "createdAt"::date;
+
+-- CreateTable
+CREATE TABLE "MedicineDose" (
+    "id" TEXT NOT NULL,
+    "reminderId" TEXT NOT NULL,
+    "scheduledFor" TIMESTAMP(3) NOT NULL,
+    "status" "DoseStatus" NOT NULL,
+    "takenAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MedicineDose_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MedicineDose_reminderId_scheduledFor_key" ON "MedicineDose"("reminderId", "scheduledFor");
+
+-- AddForeignKey
+ALTER TABLE "MedicineDose" ADD CONSTRAINT "MedicineDose_reminderId_fkey" FOREIGN KEY ("reminderId") REFERENCES "MedicineReminder"("id") ON DELETE CASCADE ON UPDATE CASCADE;
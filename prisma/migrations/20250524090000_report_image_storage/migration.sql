@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Receipt" ALTER COLUMN "imageUrl" DROP NOT NULL,
+ADD COLUMN     "imageKey" TEXT,
+ADD COLUMN     "thumbnailKey" TEXT,
+ADD COLUMN     "imageType" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Receipt_imageKey_idx" ON "Receipt"("imageKey");
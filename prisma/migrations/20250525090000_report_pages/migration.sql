@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "ReceiptPage" (
+    "id" TEXT NOT NULL,
+    "receiptId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "imageKey" TEXT NOT NULL,
+    "thumbnailKey" TEXT,
+    "imageType" TEXT NOT NULL,
+
+    CONSTRAINT "ReceiptPage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ReceiptPage_imageKey_idx" ON "ReceiptPage"("imageKey");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReceiptPage_receiptId_position_key" ON "ReceiptPage"("receiptId", "position");
+
+-- AddForeignKey
+ALTER TABLE "ReceiptPage" ADD CONSTRAINT "ReceiptPage_receiptId_fkey" FOREIGN KEY ("receiptId") REFERENCES "Receipt"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Reports stored before pages existed become single-page reports
+INSERT INTO "ReceiptPage" ("id", "receiptId", "position", "imageKey", "thumbnailKey", "imageType")
+SELECT 'page_' || "id", "id", 0, "imageKey", "thumbnailKey", COALESCE("imageType", 'image/jpeg')
+FROM "Receipt"
+WHERE "imageKey" IS NOT NULL;
@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "AlertEscalationMode" AS ENUM ('REROUTE', 'BROADCAST');
+
+-- AlterTable
+ALTER TABLE "EmergencyAlert" ADD COLUMN     "escalationLevel" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "nextEscalationAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "EmergencyAlertRecipient" (
+    "id" TEXT NOT NULL,
+    "alertId" TEXT NOT NULL,
+    "hospitalId" TEXT NOT NULL,
+    "level" INTEGER NOT NULL,
+    "mode" "AlertEscalationMode",
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "closedAt" TIMESTAMP(3),
+
+    CONSTRAINT "EmergencyAlertRecipient_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EmergencyAlertRecipient_alertId_hospitalId_key" ON "EmergencyAlertRecipient"("alertId", "hospitalId");
+
+-- CreateIndex
+CREATE INDEX "EmergencyAlertRecipient_hospitalId_closedAt_idx" ON "EmergencyAlertRecipient"("hospitalId", "closedAt");
+
+-- AddForeignKey
+ALTER TABLE "EmergencyAlertRecipient" ADD CONSTRAINT "EmergencyAlertRecipient_alertId_fkey" FOREIGN KEY ("alertId") REFERENCES "EmergencyAlert"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EmergencyAlertRecipient" ADD CONSTRAINT "EmergencyAlertRecipient_hospitalId_fkey" FOREIGN KEY ("hospitalId") REFERENCES "Hospital"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Existing alerts were sent to their hospital only
+INSERT INTO "EmergencyAlertRecipient" ("id", "alertId", "hospitalId", "level", "createdAt")
+SELECT 'r_' || "id", "id", "hospitalId", 0, "createdAt" FROM "EmergencyAlert";
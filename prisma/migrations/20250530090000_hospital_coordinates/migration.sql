@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Hospital" ADD COLUMN     "latitude" DOUBLE PRECISION,
+ADD COLUMN     "longitude" DOUBLE PRECISION,
+ADD COLUMN     "pincode" TEXT;
+
+-- Hospitals registered so far have their PIN code at the end of the address
+UPDATE "Hospital" SET "pincode" = substring("address" from '(\d{6})\s*$') WHERE "address" ~ '\d{6}\s*$';
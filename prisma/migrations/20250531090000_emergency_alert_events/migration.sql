@@ -0,0 +1,38 @@
+-- AlterEnum
+ALTER TYPE "EmergencyAlertStatus" ADD VALUE 'CANCELLED';
+ALTER TYPE "EmergencyAlertStatus" ADD VALUE 'FALSE_ALARM';
+
+-- CreateTable
+CREATE TABLE "EmergencyAlertEvent" (
+    "id" TEXT NOT NULL,
+    "alertId" TEXT NOT NULL,
+    "fromStatus" "EmergencyAlertStatus",
+    "toStatus" "EmergencyAlertStatus" NOT NULL,
+    "actorId" TEXT,
+    "actorRole" "UserRole",
+    "hospitalId" TEXT,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EmergencyAlertEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "EmergencyAlertEvent_alertId_createdAt_idx" ON "EmergencyAlertEvent"("alertId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "EmergencyAlertEvent" ADD CONSTRAINT "EmergencyAlertEvent_alertId_fkey" FOREIGN KEY ("alertId") REFERENCES "EmergencyAlert"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EmergencyAlertEvent" ADD CONSTRAINT "EmergencyAlertEvent_hospitalId_fkey" FOREIGN KEY ("hospitalId") REFERENCES "Hospital"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Existing alerts start their timeline when they were raised
+INSERT INTO "EmergencyAlertEvent" ("id", "alertId", "fromStatus", "toStatus", "actorId", "actorRole", "createdAt")
+SELECT 'e_' || "id", "id", NULL, 'PENDING', "userId", 'USER', "createdAt"
+FROM "EmergencyAlert";
+
+-- Alerts already past PENDING get one event for their current status, with no actor
+INSERT INTO "EmergencyAlertEvent" ("id", "alertId", "fromStatus", "toStatus", "createdAt")
+SELECT 'es_' || "id", "id", 'PENDING', "status", COALESCE("respondedAt", "createdAt")
+FROM "EmergencyAlert"
+WHERE "status" <> 'PENDING';
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "RedFlagEvent" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT,
+    "sessionId" TEXT,
+    "message" TEXT NOT NULL,
+    "flags" TEXT[],
+    "alertId" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "reviewedById" TEXT,
+    "reviewNote" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RedFlagEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RedFlagEvent_reviewedAt_createdAt_idx" ON "RedFlagEvent"("reviewedAt", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "RedFlagEvent_createdAt_idx" ON "RedFlagEvent"("createdAt");
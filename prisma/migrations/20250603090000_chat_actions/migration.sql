@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "ChatActionStatus" AS ENUM ('PROPOSED', 'CONFIRMED', 'DONE', 'FAILED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "ChatAction" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "messageId" TEXT,
+    "name" TEXT NOT NULL,
+    "args" JSONB NOT NULL,
+    "status" "ChatActionStatus" NOT NULL DEFAULT 'PROPOSED',
+    "result" JSONB,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "resolvedAt" TIMESTAMP(3),
+
+    CONSTRAINT "ChatAction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ChatAction_messageId_key" ON "ChatAction"("messageId");
+
+-- CreateIndex
+CREATE INDEX "ChatAction_userId_createdAt_idx" ON "ChatAction"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "ChatAction" ADD CONSTRAINT "ChatAction_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ChatAction" ADD CONSTRAINT "ChatAction_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "ChatMessage"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "language" TEXT NOT NULL DEFAULT 'en';
+
+-- AlterTable
+ALTER TABLE "Receipt" ADD COLUMN     "patientAnalysis" TEXT;
+
+-- AlterTable
+ALTER TABLE "Appointment" ADD COLUMN     "patientAnalysis" TEXT;
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "ImportedResource" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "resourceType" TEXT NOT NULL,
+    "sourceId" TEXT NOT NULL,
+    "recordId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ImportedResource_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ImportedResource_userId_resourceType_sourceId_key" ON "ImportedResource"("userId", "resourceType", "sourceId");
+
+-- AddForeignKey
+ALTER TABLE "ImportedResource" ADD CONSTRAINT "ImportedResource_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
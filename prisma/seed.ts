@@ -2,6 +2,13 @@ const { PrismaClient } = require('../src/generated/prisma');
 
 const prisma = new PrismaClient();
 
+// Default working hours for seeded doctors: Monday to Friday, 09:00-17:00
+const DEFAULT_SHIFTS = [1, 2, 3, 4, 5].map(dayOfWeek => ({
+  dayOfWeek,
+  startMinute: 9 * 60,
+  endMinute: 17 * 60
+}));
+
 async function seedDoctors() {
   console.log('Seeding doctors...');
   
@@ -41,7 +48,8 @@ async function seedDoctors() {
               name: doctorName,
               specialty: specialtyData.specialty,
               hospitalId: hospital.id,
-              available: true
+              available: true,
+              shifts: { create: DEFAULT_SHIFTS }
             }
           });
           console.log(`Added ${doctorName} (${specialtyData.specialty}) to ${hospital.name}`);
@@ -0,0 +1,58 @@
+// Service worker for medicine dose push reminders.
+// Shows pushed reminders and answers their "Taken" and "Snooze" actions.
+
+self.addEventListener("push", (event) => {
+  if (!event.data) return;
+
+  let message;
+  try {
+    message = event.data.json();
+  } catch {
+    message = { title: "Medical Queue AI", body: event.data.text() };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(message.title, {
+      body: message.body,
+      tag: message.tag,
+      actions: message.actions || [],
+      requireInteraction: Boolean(message.actions && message.actions.length),
+      data: { ...(message.data || {}), url: message.url || "/" }
+    })
+  );
+});
+
+async function respond(action, token) {
+  const response = await fetch("/api/user/medicine-reminder/push-response", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ action, token })
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    await self.registration.showNotification("Could not record your answer", {
+      body: data.error || "Open the app to log this dose."
+    });
+  }
+}
+
+async function openPage(url) {
+  const windows = await self.clients.matchAll({ type: "window", includeUncontrolled: true });
+  const existing = windows.find((client) => new URL(client.url).pathname === url);
+
+  if (existing) return existing.focus();
+  return self.clients.openWindow(url);
+}
+
+self.addEventListener("notificationclick", (event) => {
+  const { token, url } = event.notification.data || {};
+  event.notification.close();
+
+  if ((event.action === "taken" || event.action === "snooze") && token) {
+    event.waitUntil(respond(event.action, token));
+    return;
+  }
+
+  event.waitUntil(openPage(url || "/"));
+});
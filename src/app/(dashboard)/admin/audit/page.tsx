@@ -0,0 +1,327 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useSession } from "next-auth/react";
+import { useRouter } from "next/navigation";
+
+type AuditEntry = {
+  id: string;
+  actorId: string;
+  actorName: string;
+  actorRole: string;
+  actorHospital: string | null;
+  patientId: string;
+  patientName: string;
+  resource: string;
+  resourceId: string | null;
+  action: string;
+  ip: string | null;
+  userAgent: string | null;
+  createdAt: string;
+};
+
+type Pagination = {
+  total: number;
+  page: number;
+  limit: number;
+  pages: number;
+};
+
+const EMPTY_FILTERS = {
+  actorId: "",
+  patientId: "",
+  resource: "",
+  action: "",
+  from: "",
+  to: ""
+};
+
+const RESOURCE_LABELS: Record<string, string> = {
+  appointment: "Appointment",
+  receipt: "Receipt / report",
+  emergencyAlert: "Emergency alert",
+  medicineReminder: "Medicine reminder",
+  profile: "Profile"
+};
+
+const ACTION_STYLES: Record<string, string> = {
+  READ: "bg-gray-100 text-gray-800",
+  CREATE: "bg-green-100 text-green-800",
+  UPDATE: "bg-blue-100 text-blue-800",
+  DELETE: "bg-red-100 text-red-800"
+};
+
+export default function AdminAuditLog() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [filters, setFilters] = useState(EMPTY_FILTERS);
+  const [appliedFilters, setAppliedFilters] = useState(EMPTY_FILTERS);
+  const [page, setPage] = useState(1);
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchEntries = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const query = new URLSearchParams({ page: String(page) });
+      Object.entries(appliedFilters).forEach(([key, value]) => {
+        if (value) query.set(key, value.trim());
+      });
+
+      const response = await fetch(`/api/admin/audit?${query}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to fetch audit log");
+      }
+
+      setEntries(data.entries);
+      setPagination(data.pagination);
+    } catch (error) {
+      console.error("Error fetching audit log:", error);
+      setError(error instanceof Error ? error.message : "Failed to load the audit log");
+    } finally {
+      setLoading(false);
+    }
+  }, [appliedFilters, page]);
+
+  useEffect(() => {
+    if (status === "authenticated") {
+      if (session.user.role !== "ADMIN") {
+        router.push("/");
+        return;
+      }
+
+      fetchEntries();
+    }
+  }, [session, status, router, fetchEntries]);
+
+  function handleChange(e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) {
+    setFilters({ ...filters, [e.target.name]: e.target.value });
+  }
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setPage(1);
+    setAppliedFilters(filters);
+  }
+
+  function handleReset() {
+    setFilters(EMPTY_FILTERS);
+    setPage(1);
+    setAppliedFilters(EMPTY_FILTERS);
+  }
+
+  // Clicking a name narrows the log to that person
+  function filterBy(field: "actorId" | "patientId", value: string) {
+    const next = { ...filters, [field]: value };
+    setFilters(next);
+    setPage(1);
+    setAppliedFilters(next);
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Audit Log</h1>
+        <p className="mt-1 text-sm text-gray-500">
+          Every read and change of patients&apos; appointments, receipts, reports, emergency alerts and profiles by
+          someone other than the patient.
+        </p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="rounded-lg bg-white p-6 shadow">
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
+          <div>
+            <label htmlFor="actorId" className="block text-sm font-medium text-gray-700">Actor ID</label>
+            <input
+              id="actorId"
+              name="actorId"
+              type="text"
+              value={filters.actorId}
+              onChange={handleChange}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            />
+          </div>
+          <div>
+            <label htmlFor="patientId" className="block text-sm font-medium text-gray-700">Patient ID</label>
+            <input
+              id="patientId"
+              name="patientId"
+              type="text"
+              value={filters.patientId}
+              onChange={handleChange}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            />
+          </div>
+          <div>
+            <label htmlFor="resource" className="block text-sm font-medium text-gray-700">Record type</label>
+            <select
+              id="resource"
+              name="resource"
+              value={filters.resource}
+              onChange={handleChange}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            >
+              <option value="">All</option>
+              {Object.entries(RESOURCE_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="action" className="block text-sm font-medium text-gray-700">Action</label>
+            <select
+              id="action"
+              name="action"
+              value={filters.action}
+              onChange={handleChange}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            >
+              <option value="">All</option>
+              {Object.keys(ACTION_STYLES).map(action => (
+                <option key={action} value={action}>{action}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="from" className="block text-sm font-medium text-gray-700">From</label>
+            <input
+              id="from"
+              name="from"
+              type="date"
+              value={filters.from}
+              onChange={handleChange}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            />
+          </div>
+          <div>
+            <label htmlFor="to" className="block text-sm font-medium text-gray-700">To</label>
+            <input
+              id="to"
+              name="to"
+              type="date"
+              value={filters.to}
+              onChange={handleChange}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            />
+          </div>
+        </div>
+        <div className="mt-4 flex justify-end space-x-3">
+          <button
+            type="button"
+            onClick={handleReset}
+            className="rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+          >
+            Clear
+          </button>
+          <button
+            type="submit"
+            className="rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500"
+          >
+            Apply filters
+          </button>
+        </div>
+      </form>
+
+      {error && (
+        <div className="rounded-md bg-red-50 p-4 text-sm text-red-700">{error}</div>
+      )}
+
+      <div className="overflow-hidden rounded-lg bg-white shadow">
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="h-12 w-12 animate-spin rounded-full border-4 border-indigo-600 border-t-transparent"></div>
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="p-6 text-center text-sm text-gray-500">No audit entries match these filters.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Time</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actor</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Action</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Record</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Patient</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">IP address</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {entries.map(entry => (
+                  <tr key={entry.id}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {new Date(entry.createdAt).toLocaleString()}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <button
+                        type="button"
+                        onClick={() => filterBy("actorId", entry.actorId)}
+                        className="font-medium text-indigo-600 hover:text-indigo-500"
+                      >
+                        {entry.actorName}
+                      </button>
+                      <p className="text-xs text-gray-500">
+                        {entry.actorRole}{entry.actorHospital ? ` · ${entry.actorHospital}` : ""}
+                      </p>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <span className={`inline-flex rounded-full px-2 text-xs font-semibold leading-5 ${ACTION_STYLES[entry.action] || ""}`}>
+                        {entry.action}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {RESOURCE_LABELS[entry.resource] || entry.resource}
+                      {entry.resourceId && <p className="text-xs text-gray-500">{entry.resourceId}</p>}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <button
+                        type="button"
+                        onClick={() => filterBy("patientId", entry.patientId)}
+                        className="font-medium text-indigo-600 hover:text-indigo-500"
+                      >
+                        {entry.patientName}
+                      </button>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500" title={entry.userAgent || undefined}>
+                      {entry.ip || "Unknown"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {pagination && pagination.pages > 1 && (
+          <div className="flex items-center justify-between border-t border-gray-200 px-6 py-3">
+            <p className="text-sm text-gray-700">
+              Page {pagination.page} of {pagination.pages} ({pagination.total} entries)
+            </p>
+            <div className="space-x-3">
+              <button
+                type="button"
+                onClick={() => setPage(page - 1)}
+                disabled={page <= 1}
+                className="rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50 disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <button
+                type="button"
+                onClick={() => setPage(page + 1)}
+                disabled={page >= pagination.pages}
+                className="rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50 disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
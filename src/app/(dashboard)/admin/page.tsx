@@ -158,6 +158,44 @@ export default function AdminDashboard() {
             </div>
           </div>
         </div>
+
+        <div className="overflow-hidden rounded-lg bg-white shadow">
+          <div className="p-6">
+            <h3 className="text-lg font-medium leading-6 text-gray-900">
+              Audit Log
+            </h3>
+            <div className="mt-2 max-w-xl text-sm text-gray-500">
+              <p>See who viewed or changed patients&apos; medical records.</p>
+            </div>
+            <div className="mt-5">
+              <Link
+                href="/admin/audit"
+                className="inline-flex items-center rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-indigo-600"
+              >
+                View Audit Log
+              </Link>
+            </div>
+          </div>
+        </div>
+
+        <div className="overflow-hidden rounded-lg bg-white shadow">
+          <div className="p-6">
+            <h3 className="text-lg font-medium leading-6 text-gray-900">
+              Red Flags
+            </h3>
+            <div className="mt-2 max-w-xl text-sm text-gray-500">
+              <p>Review chat messages in which the AI assistant recognised a possible emergency.</p>
+            </div>
+            <div className="mt-5">
+              <Link
+                href="/admin/red-flags"
+                className="inline-flex items-center rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-indigo-600"
+              >
+                Review Red Flags
+              </Link>
+            </div>
+          </div>
+        </div>
       </div>
     </div>
   );
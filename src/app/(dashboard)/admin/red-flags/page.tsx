@@ -0,0 +1,232 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useSession } from "next-auth/react";
+import { useRouter } from "next/navigation";
+
+type RedFlagCase = {
+  id: string;
+  userId: string | null;
+  userName: string | null;
+  message: string;
+  labels: string[];
+  alert: { id: string; status: string; hospitalName: string } | null;
+  reviewedAt: string | null;
+  reviewedByName: string | null;
+  reviewNote: string | null;
+  createdAt: string;
+};
+
+type Pagination = {
+  total: number;
+  page: number;
+  limit: number;
+  pages: number;
+};
+
+type CaseStatus = "open" | "reviewed" | "all";
+
+const STATUS_LABELS: Record<CaseStatus, string> = {
+  open: "Waiting for review",
+  reviewed: "Reviewed",
+  all: "All"
+};
+
+export default function AdminRedFlags() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [caseStatus, setCaseStatus] = useState<CaseStatus>("open");
+  const [page, setPage] = useState(1);
+  const [cases, setCases] = useState<RedFlagCase[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchCases = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const query = new URLSearchParams({ status: caseStatus, page: String(page) });
+      const response = await fetch(`/api/admin/red-flags?${query}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to fetch red-flag cases");
+      }
+
+      setCases(data.events);
+      setPagination(data.pagination);
+    } catch (error) {
+      console.error("Error fetching red-flag cases:", error);
+      setError(error instanceof Error ? error.message : "Failed to load red-flag cases");
+    } finally {
+      setLoading(false);
+    }
+  }, [caseStatus, page]);
+
+  useEffect(() => {
+    if (status === "authenticated") {
+      if (session.user.role !== "ADMIN") {
+        router.push("/");
+        return;
+      }
+
+      fetchCases();
+    }
+  }, [session, status, router, fetchCases]);
+
+  async function markReviewed(redFlagCase: RedFlagCase) {
+    const note = prompt("Review note (optional)");
+    if (note === null) return;
+
+    setReviewingId(redFlagCase.id);
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/red-flags/${redFlagCase.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ note: note.trim() || undefined })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to review the case");
+      }
+      await fetchCases();
+    } catch (error) {
+      console.error("Error reviewing red-flag case:", error);
+      setError(error instanceof Error ? error.message : "Failed to review the case");
+    } finally {
+      setReviewingId(null);
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-end justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Red Flags</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Chat messages in which the AI assistant recognised a possible emergency. The patient was shown an
+            emergency card instead of a reply.
+          </p>
+        </div>
+        <select
+          value={caseStatus}
+          onChange={e => {
+            setCaseStatus(e.target.value as CaseStatus);
+            setPage(1);
+          }}
+          className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+        >
+          {Object.entries(STATUS_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-red-50 p-4 text-sm text-red-700">{error}</div>
+      )}
+
+      <div className="overflow-hidden rounded-lg bg-white shadow">
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="h-12 w-12 animate-spin rounded-full border-4 border-indigo-600 border-t-transparent"></div>
+          </div>
+        ) : cases.length === 0 ? (
+          <p className="p-6 text-center text-sm text-gray-500">No red-flag cases here.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Time</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Patient</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Red flags</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Message</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Emergency alert</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Review</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {cases.map(redFlagCase => (
+                  <tr key={redFlagCase.id}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {new Date(redFlagCase.createdAt).toLocaleString()}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {redFlagCase.userName || "Not signed in"}
+                    </td>
+                    <td className="px-6 py-4 text-sm">
+                      {redFlagCase.labels.map(label => (
+                        <span key={label} className="mr-1 mb-1 inline-flex rounded-full bg-red-100 px-2 text-xs font-semibold leading-5 text-red-800">
+                          {label}
+                        </span>
+                      ))}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-700 max-w-md">{redFlagCase.message}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {redFlagCase.alert ? (
+                        <>
+                          {redFlagCase.alert.hospitalName}
+                          <p className="text-xs text-gray-500">{redFlagCase.alert.status}</p>
+                        </>
+                      ) : (
+                        <span className="text-gray-500">None sent</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-sm">
+                      {redFlagCase.reviewedAt ? (
+                        <>
+                          <p className="text-gray-900">
+                            {redFlagCase.reviewedByName} · {new Date(redFlagCase.reviewedAt).toLocaleDateString()}
+                          </p>
+                          {redFlagCase.reviewNote && <p className="text-xs text-gray-500">{redFlagCase.reviewNote}</p>}
+                        </>
+                      ) : (
+                        <button
+                          type="button"
+                          onClick={() => markReviewed(redFlagCase)}
+                          disabled={reviewingId === redFlagCase.id}
+                          className="font-medium text-indigo-600 hover:text-indigo-500 disabled:opacity-50"
+                        >
+                          {reviewingId === redFlagCase.id ? "Saving..." : "Mark reviewed"}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {pagination && pagination.pages > 1 && (
+          <div className="flex items-center justify-between border-t border-gray-200 px-6 py-3">
+            <p className="text-sm text-gray-700">
+              Page {pagination.page} of {pagination.pages} ({pagination.total} cases)
+            </p>
+            <div className="space-x-3">
+              <button
+                type="button"
+                onClick={() => setPage(page - 1)}
+                disabled={page <= 1}
+                className="rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50 disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <button
+                type="button"
+                onClick={() => setPage(page + 1)}
+                disabled={page >= pagination.pages}
+                className="rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50 disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
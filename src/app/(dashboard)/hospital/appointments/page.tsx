@@ -1,10 +1,11 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
 import { useRouter } from "next/navigation";
 import { useSession } from "next-auth/react";
 import Link from "next/link";
 import useSWR from 'swr';
+import ScheduleBoard from "@/components/appointment/ScheduleBoard";
 
 type Appointment = {
   id: string;
@@ -99,6 +100,7 @@ export default function HospitalAppointments() {
   
   // Create the dynamic query key based on the active tab
   const queryKey = `/api/appointments${activeTab !== "all" ? `?status=${activeTab.toUpperCase()}` : ""}`;
+  const showBoard = activeTab === "schedule";
   
   // Use SWR for data fetching with caching
   const { 
@@ -107,7 +109,7 @@ export default function HospitalAppointments() {
     isLoading, 
     mutate: refreshAppointments 
   } = useSWR(
-    status === "authenticated" && session?.user?.role === "HOSPITAL" ? queryKey : null,
+    status === "authenticated" && session?.user?.role === "HOSPITAL" && !showBoard ? queryKey : null,
     fetcher,
     {
       revalidateOnFocus: false,
@@ -129,7 +131,7 @@ export default function HospitalAppointments() {
   );
   
   // Extract appointments and pagination from the API response
-  const appointments = data?.appointments || [];
+  const appointments = useMemo(() => data?.appointments || [], [data]);
   const pagination = data?.pagination;
   
   // Add debug logging to inspect appointment data
@@ -228,22 +230,23 @@ export default function HospitalAppointments() {
         headers: {
           "Content-Type": "application/json",
         },
+        // The server books the doctor's first open slot from the preferred date
         body: JSON.stringify({
           status: "CONFIRMED",
           doctorId,
-          scheduledDate: new Date().toISOString(),
         }),
       });
       
       if (!response.ok) {
-        throw new Error("Failed to confirm appointment");
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to confirm appointment");
       }
       
       // Refresh data using SWR's mutate
       refreshAppointments();
     } catch (error) {
       console.error("Error confirming appointment:", error);
-      alert("Failed to confirm the appointment. Please try again.");
+      alert(error instanceof Error ? error.message : "Failed to confirm the appointment. Please try again.");
     }
   };
 
@@ -286,6 +289,18 @@ export default function HospitalAppointments() {
     });
   };
 
+  // Format date and time of a booked slot
+  const formatDateTime = (dateString: string) => {
+    const date = new Date(dateString);
+    return date.toLocaleString("en-US", {
+      weekday: "short",
+      month: "short",
+      day: "numeric",
+      hour: "numeric",
+      minute: "2-digit",
+    });
+  };
+
   // Get status badge
   const getStatusBadge = (status: string) => {
     switch (status) {
@@ -430,6 +445,16 @@ export default function HospitalAppointments() {
           >
             Cancelled
           </button>
+          <button
+            onClick={() => handleTabChange("schedule")}
+            className={`whitespace-nowrap border-b-2 py-4 px-1 text-sm font-medium ${
+              activeTab === "schedule"
+                ? "border-indigo-500 text-indigo-600"
+                : "border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700"
+            }`}
+          >
+            Schedule
+          </button>
         </nav>
       </div>
 
@@ -453,7 +478,9 @@ export default function HospitalAppointments() {
       )}
 
       {/* Appointments list */}
-      {isLoading ? (
+      {showBoard ? (
+        <ScheduleBoard />
+      ) : isLoading ? (
         <div className="text-center py-12">
           <svg className="animate-spin h-8 w-8 text-indigo-500 mx-auto mb-3" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
             <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
@@ -508,7 +535,7 @@ export default function HospitalAppointments() {
                       <div className="mr-4 text-sm text-gray-700">
                         <p><span className="font-medium">Preferred:</span> {formatDate(appointment.preferredDate)}</p>
                         {appointment.scheduledDate && (
-                          <p><span className="font-medium">Scheduled:</span> {formatDate(appointment.scheduledDate)}</p>
+                          <p><span className="font-medium">Scheduled:</span> {formatDateTime(appointment.scheduledDate)}</p>
                         )}
                         {appointment.doctor && (
                           <p><span className="font-medium">Doctor:</span> {appointment.doctor.name}</p>
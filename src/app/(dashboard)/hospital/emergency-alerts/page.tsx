@@ -1,14 +1,29 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { useSession } from "next-auth/react";
 import { format } from "date-fns";
 import Link from "next/link";
+import { useLiveEvents } from "@/hooks/useLiveEvents";
+import type { LiveEvent } from "@/lib/events";
+import { isRole } from "@/lib/permissions";
+import { ALERT_STATUS_LABELS, allowedTransitions, formatDuration } from "@/lib/alertLifecycle";
+import type { AlertStatus, ResponseMetrics } from "@/lib/alertLifecycle";
+
+type AlertEvent = {
+  id: string;
+  fromStatus: AlertStatus | null;
+  toStatus: AlertStatus;
+  actorRole: "USER" | "HOSPITAL" | "ADMIN" | null;
+  note: string | null;
+  createdAt: string;
+  hospital: { id: string; name: string } | null;
+};
 
 type EmergencyAlert = {
   id: string;
   createdAt: string;
-  status: "PENDING" | "ACKNOWLEDGED" | "RESPONDED" | "CLOSED";
+  status: AlertStatus;
   patientInfo: {
     name: string;
     contact: string;
@@ -17,8 +32,15 @@ type EmergencyAlert = {
     address?: string;
     city?: string;
     state?: string;
+    // Where the patient was when they raised the alert, if they shared it
+    location?: { latitude: number; longitude: number } | null;
   };
   medicalHistory: any;
+  escalationLevel: number;
+  // Hospitals still being asked; more than one while a broadcast is unclaimed
+  _count: { recipients: number };
+  events: AlertEvent[];
+  metrics: ResponseMetrics;
   user: {
     id: string;
     name: string;
@@ -27,20 +49,46 @@ type EmergencyAlert = {
   };
 };
 
+type ResponseTimes = {
+  alerts: number;
+  acknowledged: number;
+  medianAcknowledgeSeconds: number | null;
+  medianRespondSeconds: number | null;
+};
+
+// What the button for each move says
+const TRANSITION_LABELS: Partial<Record<AlertStatus, string>> = {
+  ACKNOWLEDGED: "Acknowledge Alert",
+  RESPONDED: "Mark as Responded",
+  CLOSED: "Close Alert",
+  FALSE_ALARM: "Mark as False Alarm",
+  CANCELLED: "Cancel Alert"
+};
+
+function describeEvent(event: AlertEvent) {
+  if (!event.fromStatus) return "Alert raised by the patient";
+  const by = event.actorRole === "USER"
+    ? " by the patient"
+    : event.hospital ? ` by ${event.hospital.name}` : event.actorRole === "ADMIN" ? " by an administrator" : "";
+  return `${ALERT_STATUS_LABELS[event.toStatus]}${by}`;
+}
+
 export default function EmergencyAlertsPage() {
   const { data: session } = useSession();
   const [alerts, setAlerts] = useState<EmergencyAlert[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [selectedAlert, setSelectedAlert] = useState<EmergencyAlert | null>(null);
+  const [responseTimes, setResponseTimes] = useState<ResponseTimes | null>(null);
+  const [selectedAlertId, setSelectedAlertId] = useState<string | null>(null);
+  const [note, setNote] = useState("");
   const [updateStatus, setUpdateStatus] = useState<"idle" | "loading" | "success" | "error">("idle");
+  const [updateError, setUpdateError] = useState<string | null>(null);
 
-  useEffect(() => {
-    fetchAlerts();
-  }, []);
+  const selectedAlert = alerts.find(alert => alert.id === selectedAlertId) || null;
+  const role = isRole(session?.user?.role) ? session.user.role : "HOSPITAL";
 
-  const fetchAlerts = async () => {
-    setLoading(true);
+  const loadAlerts = useCallback(async (showLoading: boolean) => {
+    if (showLoading) setLoading(true);
     setError(null);
 
     try {
@@ -52,16 +100,46 @@ export default function EmergencyAlertsPage() {
       }
 
       setAlerts(data.emergencyAlerts);
+      setResponseTimes(data.responseTimes);
     } catch (error) {
       console.error("Error fetching emergency alerts:", error);
       setError(error instanceof Error ? error.message : "An error occurred");
     } finally {
       setLoading(false);
     }
+  }, []);
+
+  const fetchAlerts = () => loadAlerts(true);
+
+  useEffect(() => {
+    loadAlerts(true);
+  }, [loadAlerts]);
+
+  // New alerts and status changes need the full record with its timeline
+  const handleLiveEvent = useCallback((event: LiveEvent) => {
+    if (event.type === "emergency.created" || event.type === "emergency.updated") {
+      loadAlerts(false);
+    } else if (event.type === "emergency.withdrawn") {
+      // Re-routed to another hospital, claimed by one it was broadcast to, or ended
+      setAlerts(current => current.filter(alert => alert.id !== event.alertId));
+    }
+  }, [loadAlerts]);
+
+  const refreshQuietly = useCallback(() => loadAlerts(false), [loadAlerts]);
+
+  useLiveEvents("/api/hospital/events", handleLiveEvent, {
+    onPoll: refreshQuietly,
+    enabled: !!session
+  });
+
+  const selectAlert = (alertId: string | null) => {
+    setSelectedAlertId(alertId);
+    setNote("");
   };
 
-  const updateAlertStatus = async (alertId: string, status: "ACKNOWLEDGED" | "RESPONDED" | "CLOSED") => {
+  const updateAlertStatus = async (alertId: string, status: AlertStatus) => {
     setUpdateStatus("loading");
+    setUpdateError(null);
 
     try {
       const response = await fetch("/api/hospital/emergency-alerts", {
@@ -69,7 +147,7 @@ export default function EmergencyAlertsPage() {
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ alertId, status }),
+        body: JSON.stringify({ alertId, status, ...(note.trim() && { note: note.trim() }) }),
       });
 
       const data = await response.json();
@@ -78,15 +156,10 @@ export default function EmergencyAlertsPage() {
         throw new Error(data.error || "Failed to update alert status");
       }
 
-      // Update local state
-      setAlerts(alerts.map(alert => 
-        alert.id === alertId ? { ...alert, status } : alert
-      ));
-      
-      if (selectedAlert && selectedAlert.id === alertId) {
-        setSelectedAlert({ ...selectedAlert, status });
-      }
-      
+      // Reload for the new timeline entry and response times
+      setNote("");
+      await loadAlerts(false);
+
       setUpdateStatus("success");
 
       // Reset success status after a delay
@@ -94,6 +167,9 @@ export default function EmergencyAlertsPage() {
     } catch (error) {
       console.error("Error updating alert status:", error);
       setUpdateStatus("error");
+      setUpdateError(error instanceof Error ? error.message : null);
+      // Another hospital may have claimed the alert, or someone else moved it, first
+      loadAlerts(false);
       
       // Reset error status after a delay
       setTimeout(() => setUpdateStatus("idle"), 3000);
@@ -110,6 +186,8 @@ export default function EmergencyAlertsPage() {
         return "bg-blue-100 text-blue-800";
       case "CLOSED":
         return "bg-green-100 text-green-800";
+      case "FALSE_ALARM":
+        return "bg-orange-100 text-orange-800";
       default:
         return "bg-gray-100 text-gray-800";
     }
@@ -162,7 +240,28 @@ export default function EmergencyAlertsPage() {
 
         {updateStatus === "error" && (
           <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-md">
-            <p className="text-sm text-red-700">Failed to update alert status. Please try again.</p>
+            <p className="text-sm text-red-700">{updateError || "Failed to update alert status. Please try again."}</p>
+          </div>
+        )}
+
+        {responseTimes && responseTimes.acknowledged > 0 && (
+          <div className="mb-4 grid grid-cols-1 gap-4 sm:grid-cols-3">
+            <div className="bg-white shadow rounded-md p-4">
+              <p className="text-sm text-gray-500">Alerts acknowledged</p>
+              <p className="mt-1 text-xl font-semibold text-gray-900">{responseTimes.acknowledged} of {responseTimes.alerts}</p>
+            </div>
+            <div className="bg-white shadow rounded-md p-4">
+              <p className="text-sm text-gray-500">Median time to acknowledge</p>
+              <p className="mt-1 text-xl font-semibold text-gray-900">
+                {responseTimes.medianAcknowledgeSeconds !== null ? formatDuration(responseTimes.medianAcknowledgeSeconds) : "-"}
+              </p>
+            </div>
+            <div className="bg-white shadow rounded-md p-4">
+              <p className="text-sm text-gray-500">Median time to respond</p>
+              <p className="mt-1 text-xl font-semibold text-gray-900">
+                {responseTimes.medianRespondSeconds !== null ? formatDuration(responseTimes.medianRespondSeconds) : "-"}
+              </p>
+            </div>
           </div>
         )}
 
@@ -175,7 +274,7 @@ export default function EmergencyAlertsPage() {
             <ul className="divide-y divide-gray-200">
               {alerts.map((alert) => (
                 <li key={alert.id}>
-                  <div className="px-4 py-4 sm:px-6 hover:bg-gray-50 cursor-pointer" onClick={() => setSelectedAlert(alert)}>
+                  <div className="px-4 py-4 sm:px-6 hover:bg-gray-50 cursor-pointer" onClick={() => selectAlert(alert.id)}>
                     <div className="flex items-center justify-between">
                       <div className="flex items-center">
                         <div className="ml-3">
@@ -188,8 +287,18 @@ export default function EmergencyAlertsPage() {
                         </div>
                       </div>
                       <div className="flex items-center space-x-3">
+                        {alert.status === "PENDING" && alert._count.recipients > 1 && (
+                          <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-orange-100 text-orange-800">
+                            Sent to {alert._count.recipients} hospitals - first to acknowledge claims it
+                          </span>
+                        )}
+                        {alert.escalationLevel > 0 && (
+                          <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-purple-100 text-purple-800">
+                            Escalated
+                          </span>
+                        )}
                         <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${getStatusBadgeColor(alert.status)}`}>
-                          {alert.status}
+                          {ALERT_STATUS_LABELS[alert.status]}
                         </span>
                         <span className="text-sm text-gray-500">
                           {format(new Date(alert.createdAt), "MMM d, yyyy h:mm a")}
@@ -208,7 +317,7 @@ export default function EmergencyAlertsPage() {
       {selectedAlert && (
         <div className="fixed inset-0 z-10 overflow-y-auto" aria-labelledby="modal-title" role="dialog" aria-modal="true">
           <div className="flex min-h-screen items-end justify-center px-4 pt-4 pb-20 text-center sm:block sm:p-0">
-            <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" aria-hidden="true" onClick={() => setSelectedAlert(null)}></div>
+            <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" aria-hidden="true" onClick={() => selectAlert(null)}></div>
 
             <span className="hidden sm:inline-block sm:h-screen sm:align-middle" aria-hidden="true">&#8203;</span>
 
@@ -221,7 +330,7 @@ export default function EmergencyAlertsPage() {
                         Emergency Alert Details
                       </h3>
                       <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${getStatusBadgeColor(selectedAlert.status)}`}>
-                        {selectedAlert.status}
+                        {ALERT_STATUS_LABELS[selectedAlert.status]}
                       </span>
                     </div>
                     
@@ -260,6 +369,21 @@ export default function EmergencyAlertsPage() {
                             </dd>
                           </div>
                         )}
+                        {selectedAlert.patientInfo.location && (
+                          <div className="sm:col-span-2">
+                            <dt className="text-sm font-medium text-gray-500">Location when alert was raised</dt>
+                            <dd className="mt-1 text-sm">
+                              <a
+                                href={`https://www.google.com/maps?q=${selectedAlert.patientInfo.location.latitude},${selectedAlert.patientInfo.location.longitude}`}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="text-indigo-600 hover:text-indigo-800"
+                              >
+                                Open in maps
+                              </a>
+                            </dd>
+                          </div>
+                        )}
                       </div>
                     </div>
 
@@ -290,40 +414,63 @@ export default function EmergencyAlertsPage() {
                         )}
                       </div>
                     </div>
+
+                    <div className="mt-6">
+                      <h4 className="text-sm font-medium text-gray-500">Timeline</h4>
+                      <ol className="mt-2 space-y-2 border-l-2 border-gray-200 pl-3">
+                        {selectedAlert.events.map(event => (
+                          <li key={event.id} className="text-sm">
+                            <p className="text-xs text-gray-500">{format(new Date(event.createdAt), "MMM d, h:mm:ss a")}</p>
+                            <p className="text-gray-700">{describeEvent(event)}</p>
+                            {event.note && <p className="text-xs text-gray-500 whitespace-pre-line">{event.note}</p>}
+                          </li>
+                        ))}
+                      </ol>
+                      {(selectedAlert.metrics.acknowledgeSeconds !== null || selectedAlert.metrics.respondSeconds !== null) && (
+                        <p className="mt-2 text-xs text-gray-500">
+                          {[
+                            selectedAlert.metrics.acknowledgeSeconds !== null && `Acknowledged after ${formatDuration(selectedAlert.metrics.acknowledgeSeconds)}`,
+                            selectedAlert.metrics.respondSeconds !== null && `responded after ${formatDuration(selectedAlert.metrics.respondSeconds)}`
+                          ].filter(Boolean).join(", ")}
+                        </p>
+                      )}
+                    </div>
+
+                    {allowedTransitions(selectedAlert.status, role).length > 0 && (
+                      <div className="mt-6">
+                        <label htmlFor="alert-note" className="text-sm font-medium text-gray-500">Note (optional)</label>
+                        <textarea
+                          id="alert-note"
+                          rows={2}
+                          maxLength={1000}
+                          value={note}
+                          onChange={(e) => setNote(e.target.value)}
+                          placeholder="e.g. Ambulance dispatched, ETA 10 minutes"
+                          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                        />
+                      </div>
+                    )}
                   </div>
                 </div>
               </div>
               <div className="bg-gray-50 px-4 py-3 sm:flex sm:flex-row-reverse sm:px-6">
-                {selectedAlert.status === "PENDING" && (
-                  <button
-                    type="button"
-                    onClick={() => updateAlertStatus(selectedAlert.id, "ACKNOWLEDGED")}
-                    className="inline-flex w-full justify-center rounded-md border border-transparent bg-indigo-600 px-4 py-2 text-base font-medium text-white shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 sm:ml-3 sm:w-auto sm:text-sm"
-                    disabled={updateStatus === "loading"}
-                  >
-                    Acknowledge Alert
-                  </button>
-                )}
-                {selectedAlert.status === "ACKNOWLEDGED" && (
-                  <button
-                    type="button"
-                    onClick={() => updateAlertStatus(selectedAlert.id, "RESPONDED")}
-                    className="inline-flex w-full justify-center rounded-md border border-transparent bg-indigo-600 px-4 py-2 text-base font-medium text-white shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 sm:ml-3 sm:w-auto sm:text-sm"
-                    disabled={updateStatus === "loading"}
-                  >
-                    Mark as Responded
-                  </button>
-                )}
-                {(selectedAlert.status === "ACKNOWLEDGED" || selectedAlert.status === "RESPONDED") && (
+                {allowedTransitions(selectedAlert.status, role).map(status => (
                   <button
+                    key={status}
                     type="button"
-                    onClick={() => updateAlertStatus(selectedAlert.id, "CLOSED")}
-                    className="inline-flex w-full justify-center rounded-md border border-transparent bg-green-600 px-4 py-2 text-base font-medium text-white shadow-sm hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 sm:ml-3 sm:w-auto sm:text-sm"
+                    onClick={() => updateAlertStatus(selectedAlert.id, status)}
+                    className={`inline-flex w-full justify-center rounded-md border px-4 py-2 text-base font-medium shadow-sm focus:outline-none focus:ring-2 focus:ring-offset-2 sm:ml-3 sm:w-auto sm:text-sm mt-3 sm:mt-0 ${
+                      status === "FALSE_ALARM" || status === "CANCELLED"
+                        ? "border-gray-300 bg-white text-gray-700 hover:bg-gray-50 focus:ring-indigo-500"
+                        : status === "CLOSED"
+                          ? "border-transparent bg-green-600 text-white hover:bg-green-700 focus:ring-green-500"
+                          : "border-transparent bg-indigo-600 text-white hover:bg-indigo-700 focus:ring-indigo-500"
+                    }`}
                     disabled={updateStatus === "loading"}
                   >
-                    Close Alert
+                    {TRANSITION_LABELS[status] || ALERT_STATUS_LABELS[status]}
                   </button>
-                )}
+                ))}
                 <Link href={`/user-profile/${selectedAlert.user.id}`} passHref>
                   <button
                     type="button"
@@ -334,7 +481,7 @@ export default function EmergencyAlertsPage() {
                 </Link>
                 <button
                   type="button"
-                  onClick={() => setSelectedAlert(null)}
+                  onClick={() => selectAlert(null)}
                   className="mt-3 inline-flex w-full justify-center rounded-md border border-gray-300 bg-white px-4 py-2 text-base font-medium text-gray-700 shadow-sm hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 sm:mt-0 sm:ml-3 sm:w-auto sm:text-sm"
                 >
                   Close
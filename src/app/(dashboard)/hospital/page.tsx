@@ -4,6 +4,12 @@ import { useState, useEffect, useCallback } from "react";
 import { useSession } from "next-auth/react";
 import { useRouter } from "next/navigation";
 import Image from "next/image";
+import { useLiveEvents } from "@/hooks/useLiveEvents";
+import type { LiveEvent } from "@/lib/events";
+import { formatMinutes } from "@/lib/utils";
+import type { WaitTimeEstimate } from "@/services/waitTime";
+import DoctorScheduleModal from "@/components/modals/DoctorScheduleModal";
+import FailedAnalyses from "@/components/report/FailedAnalyses";
 
 type QueueItem = {
   id: string;
@@ -24,6 +30,7 @@ type QueueItem = {
     name: string;
     specialty: string;
   } | null;
+  waitTime?: WaitTimeEstimate | null;
 };
 
 type Doctor = {
@@ -46,6 +53,8 @@ export default function HospitalDashboard() {
   const [activeTab, setActiveTab] = useState<'queue' | 'doctors'>('queue');
   const [lastFetched, setLastFetched] = useState(0);
   const [processingReport, setProcessingReport] = useState<string | null>(null);
+  const [scheduleDoctorId, setScheduleDoctorId] = useState<string | null>(null);
+  const [failedAnalysesKey, setFailedAnalysesKey] = useState(0);
   
   // Fetch queue with timeout protection
   const fetchQueue = useCallback(async () => {
@@ -170,6 +179,26 @@ export default function HospitalDashboard() {
     return () => clearInterval(intervalId);
   }, [status, session, router, fetchQueue, fetchDoctors]);
 
+  const refreshAll = useCallback(() => {
+    fetchQueue();
+    fetchDoctors();
+    setFailedAnalysesKey(key => key + 1);
+  }, [fetchQueue, fetchDoctors]);
+
+  // Refetch as soon as the server reports a queue change or a failed analysis
+  const handleLiveEvent = useCallback((event: LiveEvent) => {
+    if (event.type === "queue.updated" || event.type === "receipt.completed") {
+      refreshAll();
+    } else if (event.type === "receipt.analysis" && event.status === "FAILED") {
+      setFailedAnalysesKey(key => key + 1);
+    }
+  }, [refreshAll]);
+
+  const { connected } = useLiveEvents("/api/hospital/events", handleLiveEvent, {
+    onPoll: refreshAll,
+    enabled: status === "authenticated" && session?.user?.role === "HOSPITAL"
+  });
+
   // Format time since last update
   const formatLastUpdated = () => {
     if (lastFetched === 0) return "Never";
@@ -236,6 +265,10 @@ export default function HospitalDashboard() {
                 </svg>
             Last updated: {formatLastUpdated()}
               </span>
+              <span className="ml-2 flex items-center">
+                <span className={`h-2 w-2 rounded-full mr-1 ${connected ? "bg-green-300" : "bg-yellow-300"}`}></span>
+                {connected ? "Live" : "Polling"}
+              </span>
               {(loadingQueue || loadingDoctors) && (
                 <span className="ml-2 flex items-center">
                   <svg className="animate-spin h-3 w-3 mr-1 text-indigo-100" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
@@ -353,6 +386,8 @@ export default function HospitalDashboard() {
         </div>
       </div>
 
+      <FailedAnalyses refreshKey={failedAnalysesKey} />
+
       {/* Improved Tab Navigation with colorful indicator */}
       <div className="bg-white rounded-lg shadow-sm overflow-hidden border border-gray-200">
         <div className="bg-gradient-to-r from-gray-50 to-white border-b border-gray-200 px-6">
@@ -463,6 +498,12 @@ export default function HospitalDashboard() {
                                     Assigned: {item.doctor.name} ({item.doctor.specialty})
                                 </p>
                               )}
+                              {item.waitTime && (
+                                  <p className="text-xs text-gray-500 mt-1">
+                                    Est. wait: {item.waitTime.patientsAhead === 0 ? "next" : `~${formatMinutes(item.waitTime.estimatedMinutes)} (${formatMinutes(item.waitTime.lowMinutes)}–${formatMinutes(item.waitTime.highMinutes)})`}
+                                    {item.waitTime.confidence === "low" && " · rough"}
+                                </p>
+                              )}
                           </div>
                         </div>
                       </div>
@@ -603,6 +644,13 @@ export default function HospitalDashboard() {
                               {doctor.available ? 'Available' : 'Busy'}
                             </span>
                           </div>
+
+                            <button
+                              onClick={() => setScheduleDoctorId(doctor.id)}
+                              className="mt-3 self-start text-sm font-medium text-indigo-600 hover:text-indigo-800"
+                            >
+                              Manage schedule
+                            </button>
                         </div>
                         </div>
                       ))}
@@ -614,6 +662,13 @@ export default function HospitalDashboard() {
       )}
         </div>
       </div>
+
+      {scheduleDoctorId && (
+        <DoctorScheduleModal
+          doctorId={scheduleDoctorId}
+          onClose={() => setScheduleDoctorId(null)}
+        />
+      )}
     </div>
   );
 } 
\ No newline at end of file
@@ -5,6 +5,7 @@ import { useSession } from "next-auth/react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import Image from "next/image";
+import ReportThumbnail from "@/components/report/ReportThumbnail";
 import { use } from "react";
 
 type PatientHistoryProps = {
@@ -22,6 +23,9 @@ type HistoryItem = {
   // Report-specific fields
   condition?: string;
   severity?: number;
+  imageKey?: string | null;
+  thumbnailKey?: string | null;
+  _count?: { pages: number };
   // Appointment-specific fields
   scheduledDate?: string;
   preferredDate?: string;
@@ -381,6 +385,18 @@ export default function PatientHistory({ params }: PatientHistoryProps) {
               {history.map((item, index) => (
                 <li key={item.id} className="px-4 py-5 sm:px-6">
                   <div className="flex justify-between items-start">
+                    {item.type === 'REPORT' && (
+                      <div className="mr-4">
+                        <ReportThumbnail
+                          reportId={item.id}
+                          hasImage={Boolean(item.imageKey)}
+                          hasPreview={Boolean(item.thumbnailKey)}
+                        />
+                        {item._count && item._count.pages > 1 && (
+                          <p className="mt-1 text-center text-xs text-gray-500">{item._count.pages} pages</p>
+                        )}
+                      </div>
+                    )}
                     <div className="flex-1">
                       <div className="flex items-center space-x-2 mb-2">
                         {getTypeBadge(item.type)}
@@ -5,16 +5,21 @@ import { useSession } from "next-auth/react";
 import { redirect } from "next/navigation";
 import { useEffect, useState } from "react";
 import EmergencyButton from "@/components/EmergencyButton";
+import { useTranslation } from "@/hooks/useTranslation";
 
 // Enhanced loading spinner component
-const LoadingSpinner = () => (
-  <div className="flex min-h-screen items-center justify-center bg-white">
-    <div className="text-center">
-      <div className="h-12 w-12 mx-auto animate-spin rounded-full border-4 border-indigo-600 border-t-transparent"></div>
-      <p className="mt-3 text-sm text-gray-600">Loading your dashboard...</p>
+const LoadingSpinner = () => {
+  const { t } = useTranslation();
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-white">
+      <div className="text-center">
+        <div className="h-12 w-12 mx-auto animate-spin rounded-full border-4 border-indigo-600 border-t-transparent"></div>
+        <p className="mt-3 text-sm text-gray-600">{t("dashboard.loading")}</p>
+      </div>
     </div>
-  </div>
-);
+  );
+};
 
 export default function DashboardLayout({
   children,
@@ -0,0 +1,146 @@
+"use client";
+
+import { useState, useEffect } from "react";
+
+type AccessEntry = {
+  id: string;
+  actorName: string;
+  actorRole: string;
+  actorHospital: string | null;
+  resource: string;
+  action: string;
+  createdAt: string;
+};
+
+type Pagination = {
+  total: number;
+  page: number;
+  limit: number;
+  pages: number;
+};
+
+const RESOURCE_LABELS: Record<string, string> = {
+  appointment: "an appointment",
+  receipt: "a receipt or report",
+  emergencyAlert: "an emergency alert",
+  medicineReminder: "a medicine reminder",
+  profile: "your profile"
+};
+
+const ACTION_LABELS: Record<string, string> = {
+  READ: "Viewed",
+  CREATE: "Created",
+  UPDATE: "Updated",
+  DELETE: "Deleted"
+};
+
+const ROLE_LABELS: Record<string, string> = {
+  HOSPITAL: "Hospital staff",
+  ADMIN: "Administrator",
+  USER: "User"
+};
+
+export default function AccessLog() {
+  const [entries, setEntries] = useState<AccessEntry[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchEntries() {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await fetch(`/api/user/access-log?page=${page}`);
+        if (!response.ok) {
+          throw new Error("Failed to fetch access history");
+        }
+        const data = await response.json();
+        setEntries(data.entries);
+        setPagination(data.pagination);
+      } catch (error) {
+        console.error("Error fetching access history:", error);
+        setError("Failed to load who accessed your records");
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchEntries();
+  }, [page]);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Who Accessed My Records</h1>
+        <p className="mt-1 text-sm text-gray-500">
+          Every time hospital staff or an administrator views or changes your appointments, receipts, reports,
+          emergency alerts or profile, it is listed here. Your own activity is not listed.
+        </p>
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-red-50 p-4 text-sm text-red-700">{error}</div>
+      )}
+
+      <div className="overflow-hidden rounded-lg bg-white shadow">
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="h-12 w-12 animate-spin rounded-full border-4 border-indigo-600 border-t-transparent"></div>
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="p-6 text-center text-sm text-gray-500">Nobody else has accessed your records yet.</p>
+        ) : (
+          <ul role="list" className="divide-y divide-gray-200">
+            {entries.map(entry => (
+              <li key={entry.id} className="flex items-center justify-between px-6 py-4">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">
+                    {entry.actorName}
+                    <span className="ml-2 text-xs font-normal text-gray-500">
+                      {ROLE_LABELS[entry.actorRole] || entry.actorRole}
+                      {entry.actorHospital ? ` at ${entry.actorHospital}` : ""}
+                    </span>
+                  </p>
+                  <p className="text-sm text-gray-500">
+                    {ACTION_LABELS[entry.action] || entry.action} {RESOURCE_LABELS[entry.resource] || entry.resource}
+                  </p>
+                </div>
+                <p className="whitespace-nowrap text-sm text-gray-500">
+                  {new Date(entry.createdAt).toLocaleString()}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {pagination && pagination.pages > 1 && (
+          <div className="flex items-center justify-between border-t border-gray-200 px-6 py-3">
+            <p className="text-sm text-gray-700">
+              Page {pagination.page} of {pagination.pages}
+            </p>
+            <div className="space-x-3">
+              <button
+                type="button"
+                onClick={() => setPage(page - 1)}
+                disabled={page <= 1}
+                className="rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50 disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <button
+                type="button"
+                onClick={() => setPage(page + 1)}
+                disabled={page >= pagination.pages}
+                className="rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50 disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
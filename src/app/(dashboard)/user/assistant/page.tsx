@@ -84,7 +84,6 @@ export default function AssistantPage() {
                 <AIChatbot
                   isOpen={true}
                   onClose={() => window.history.back()}
-                  patientId="demo-user"
                 />
               </div>
             </div>
@@ -4,6 +4,8 @@ import { useState, useRef } from "react";
 import { useRouter } from "next/navigation";
 import { ChevronLeft, Upload, FileText, Check, Clock, AlertCircle, Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import InteractionWarnings from "@/components/medicine/InteractionWarnings";
+import { useInteractionCheck } from "@/hooks/useInteractionCheck";
 
 interface MedicationSuggestion {
   id: string;
@@ -27,6 +29,9 @@ export default function AISetupPage() {
   const [success, setSuccess] = useState<string | null>(null);
   const [suggestions, setSuggestions] = useState<MedicationSuggestion[]>([]);
   const [isConfirming, setIsConfirming] = useState(false);
+  const { conflicts, checking } = useInteractionCheck(
+    suggestions.filter(suggestion => suggestion.includeInReminders).map(suggestion => suggestion.name)
+  );
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0] || null;
@@ -131,6 +136,12 @@ export default function AISetupPage() {
       return;
     }
 
+    // Make the patient acknowledge serious interactions before saving
+    if (conflicts.some(conflict => conflict.severity === "major") &&
+        !confirm("Some of these medicines have serious interactions or contain the same ingredient. Save the reminders anyway?")) {
+      return;
+    }
+
     setIsConfirming(true);
     setError(null);
     
@@ -393,6 +404,10 @@ export default function AISetupPage() {
                     </li>
                   ))}
                 </ul>
+
+                <div className="mt-6">
+                  <InteractionWarnings conflicts={conflicts} checking={checking} />
+                </div>
                 
                 <div className="mt-6">
                   <Button
@@ -5,6 +5,8 @@ import { useRouter } from "next/navigation";
 import { Clock, Plus, X, ChevronLeft, Calendar, Clock12 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import Link from "next/link";
+import InteractionWarnings from "@/components/medicine/InteractionWarnings";
+import { useInteractionCheck } from "@/hooks/useInteractionCheck";
 
 interface Medication {
   id: string;
@@ -13,8 +15,13 @@ interface Medication {
   frequency: string;
   time: string;
   notes: string;
+  startDate: string;
+  endDate: string;
 }
 
+// Today's date as YYYY-MM-DD
+const today = () => new Date().toLocaleDateString("en-CA");
+
 export default function ManualSetupPage() {
   const router = useRouter();
   const [medications, setMedications] = useState<Medication[]>([]);
@@ -24,11 +31,18 @@ export default function ManualSetupPage() {
     dosage: "",
     frequency: "daily",
     time: "08:00",
-    notes: ""
+    notes: "",
+    startDate: today(),
+    endDate: ""
   });
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Include the medication being typed so warnings appear before it is added
+  const { conflicts, checking } = useInteractionCheck([
+    ...medications.map(med => med.name),
+    ...(isFormOpen ? [currentMed.name] : [])
+  ]);
 
   const handleAddMedication = () => {
     if (!currentMed.name || !currentMed.dosage) {
@@ -36,6 +50,11 @@ export default function ManualSetupPage() {
       return;
     }
 
+    if (currentMed.endDate && currentMed.endDate < currentMed.startDate) {
+      setError("The end date cannot be before the start date");
+      return;
+    }
+
     setMedications([...medications, { ...currentMed, id: Date.now().toString() }]);
     setCurrentMed({
       id: "",
@@ -43,7 +62,9 @@ export default function ManualSetupPage() {
       dosage: "",
       frequency: "daily",
       time: "08:00",
-      notes: ""
+      notes: "",
+      startDate: today(),
+      endDate: ""
     });
     setIsFormOpen(false);
     setError(null);
@@ -67,6 +88,12 @@ export default function ManualSetupPage() {
       return;
     }
 
+    // Make the patient acknowledge serious interactions before saving
+    if (conflicts.some(conflict => conflict.severity === "major") &&
+        !confirm("Some of these medicines have serious interactions or contain the same ingredient. Save the reminders anyway?")) {
+      return;
+    }
+
     setIsSubmitting(true);
     setError(null);
     
@@ -78,7 +105,9 @@ export default function ManualSetupPage() {
         frequency: med.frequency,
         time: med.time,
         notes: med.notes.trim() === "" ? null : med.notes,
-        aiGenerated: false
+        aiGenerated: false,
+        startDate: med.startDate,
+        endDate: med.endDate || null
       }));
       
       console.log("Sending reminder data:", JSON.stringify(reminderData));
@@ -194,6 +223,9 @@ export default function ManualSetupPage() {
                           <div className="text-sm text-gray-500">
                             {med.dosage} • {frequencyOptions.find(opt => opt.value === med.frequency)?.label} • {med.time}
                           </div>
+                          <div className="text-sm text-gray-500">
+                            From {med.startDate}{med.endDate ? ` until ${med.endDate}` : ", ongoing"}
+                          </div>
                           {med.notes && <div className="text-sm text-gray-500 mt-1">{med.notes}</div>}
                         </div>
                         <button
@@ -205,6 +237,11 @@ export default function ManualSetupPage() {
                       </li>
                     ))}
                   </ul>
+                  {!isFormOpen && (
+                    <div className="mt-4">
+                      <InteractionWarnings conflicts={conflicts} checking={checking} />
+                    </div>
+                  )}
                   {!isFormOpen && (
                     <div className="mt-4">
                       <Button 
@@ -303,6 +340,45 @@ export default function ManualSetupPage() {
                         </div>
                       </div>
                     </div>
+                    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                      <div>
+                        <label htmlFor="startDate" className="block text-sm font-medium text-gray-700">
+                          Start Date
+                        </label>
+                        <div className="mt-1 relative rounded-md shadow-sm">
+                          <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                            <Calendar className="h-5 w-5 text-gray-400" />
+                          </div>
+                          <input
+                            type="date"
+                            name="startDate"
+                            id="startDate"
+                            value={currentMed.startDate}
+                            onChange={handleFormChange}
+                            className="block w-full pl-10 rounded-md border-gray-300 focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                          />
+                        </div>
+                      </div>
+                      <div>
+                        <label htmlFor="endDate" className="block text-sm font-medium text-gray-700">
+                          End Date (optional)
+                        </label>
+                        <div className="mt-1 relative rounded-md shadow-sm">
+                          <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                            <Calendar className="h-5 w-5 text-gray-400" />
+                          </div>
+                          <input
+                            type="date"
+                            name="endDate"
+                            id="endDate"
+                            value={currentMed.endDate}
+                            min={currentMed.startDate}
+                            onChange={handleFormChange}
+                            className="block w-full pl-10 rounded-md border-gray-300 focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                          />
+                        </div>
+                      </div>
+                    </div>
                     <div>
                       <label htmlFor="notes" className="block text-sm font-medium text-gray-700">
                         Notes (optional)
@@ -317,6 +393,7 @@ export default function ManualSetupPage() {
                         placeholder="E.g., Take with food"
                       ></textarea>
                     </div>
+                    <InteractionWarnings conflicts={conflicts} checking={checking} />
                     <div className="flex justify-end">
                       <Button
                         type="button"
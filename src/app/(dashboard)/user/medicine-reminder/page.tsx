@@ -4,8 +4,10 @@ import { useState, useEffect, useCallback } from "react";
 import { useSession } from "next-auth/react";
 import { useRouter, useSearchParams } from "next/navigation";
 import Link from "next/link";
-import { Clock, Upload, PlusCircle, FileText, AlertCircle, Trash2 } from "lucide-react";
+import { Clock, Upload, PlusCircle, FileText, AlertCircle, Trash2, Check, Flame } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import PushReminderToggle from "@/components/medicine/PushReminderToggle";
+import type { AdherenceStats, DoseEvent, LoggedDoseStatus } from "@/services/doseSchedule";
 
 interface MedicineReminder {
   id: string;
@@ -17,8 +19,21 @@ interface MedicineReminder {
   createdAt: string;
   isActive: boolean;
   aiGenerated: boolean;
+  startDate: string;
+  endDate: string | null;
 }
 
+interface DoseOverview {
+  doses: DoseEvent[];
+  adherence: {
+    overall: AdherenceStats;
+    byReminder: Record<string, AdherenceStats>;
+  };
+}
+
+// Number of days adherence is calculated over
+const ADHERENCE_DAYS = 30;
+
 export default function MedicineReminderPage() {
   const { data: session, status } = useSession();
   const router = useRouter();
@@ -30,6 +45,8 @@ export default function MedicineReminderPage() {
   const [error, setError] = useState<string | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
   const [showSuccessAlert, setShowSuccessAlert] = useState(false);
+  const [doseOverview, setDoseOverview] = useState<DoseOverview | null>(null);
+  const [loggingDose, setLoggingDose] = useState<string | null>(null);
 
   // Check for success query parameter
   useEffect(() => {
@@ -164,6 +181,68 @@ export default function MedicineReminderPage() {
     fetchReminders();
   }, [fetchReminders]);
 
+  // Fetch dose history and adherence (not available in demo mode)
+  const fetchDoses = useCallback(async () => {
+    if (status !== "authenticated" || demoMode) {
+      setDoseOverview(null);
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/user/medicine-reminder/doses?days=${ADHERENCE_DAYS}`, {
+        headers: {
+          'Cache-Control': 'no-cache',
+          'Pragma': 'no-cache'
+        }
+      });
+
+      if (!response.ok) {
+        throw new Error(`Error ${response.status}: Failed to fetch doses`);
+      }
+
+      setDoseOverview(await response.json());
+    } catch (err) {
+      console.error("Error fetching doses:", err);
+      setDoseOverview(null);
+    }
+  }, [status, demoMode]);
+
+  useEffect(() => {
+    fetchDoses();
+  }, [fetchDoses, reminders]);
+
+  // Mark a dose as taken, late or skipped, or undo the mark
+  const handleDose = async (dose: DoseEvent, doseStatus: LoggedDoseStatus | null) => {
+    const key = `${dose.reminderId}:${dose.scheduledFor}`;
+    setLoggingDose(key);
+    setError(null);
+
+    try {
+      const url = `/api/user/medicine-reminder/${dose.reminderId}/doses`;
+      const response = doseStatus
+        ? await fetch(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ scheduledFor: dose.scheduledFor, status: doseStatus })
+          })
+        : await fetch(`${url}?scheduledFor=${encodeURIComponent(dose.scheduledFor)}`, {
+            method: 'DELETE'
+          });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Failed to update the dose");
+      }
+
+      await fetchDoses();
+    } catch (err) {
+      console.error("Error logging dose:", err);
+      setError(err instanceof Error ? err.message : "Failed to update the dose");
+    } finally {
+      setLoggingDose(null);
+    }
+  };
+
   const handleClearAll = async () => {
     if (reminders.length === 0) return;
     
@@ -222,6 +301,40 @@ export default function MedicineReminderPage() {
     }
   };
 
+  const formatDoseTime = (iso: string) =>
+    new Date(iso).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+
+  const getDoseBadge = (doseStatus: DoseEvent["status"]) => {
+    const styles: Record<DoseEvent["status"], string> = {
+      TAKEN: "bg-green-100 text-green-800",
+      LATE: "bg-yellow-100 text-yellow-800",
+      SKIPPED: "bg-gray-200 text-gray-700",
+      MISSED: "bg-red-100 text-red-800",
+      DUE: "bg-indigo-100 text-indigo-800",
+      UPCOMING: "bg-blue-50 text-blue-700"
+    };
+    const labels: Record<DoseEvent["status"], string> = {
+      TAKEN: "Taken",
+      LATE: "Taken late",
+      SKIPPED: "Skipped",
+      MISSED: "Missed",
+      DUE: "Due now",
+      UPCOMING: "Upcoming"
+    };
+
+    return (
+      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${styles[doseStatus]}`}>
+        {labels[doseStatus]}
+      </span>
+    );
+  };
+
+  const todayString = new Date().toDateString();
+  const todaysDoses = (doseOverview?.doses || []).filter(
+    dose => new Date(dose.scheduledFor).toDateString() === todayString
+  );
+  const overall = doseOverview?.adherence.overall;
+
   if (status === "loading") {
     return (
       <div className="flex min-h-screen items-center justify-center">
@@ -240,10 +353,12 @@ export default function MedicineReminderPage() {
     <div className="space-y-6">
       <div className="flex items-center justify-between mb-4">
         <h1 className="text-2xl font-bold text-gray-900">Medicine Reminders</h1>
-        {demoMode && (
+        {demoMode ? (
           <div className="bg-yellow-100 text-yellow-800 px-3 py-1 rounded-full text-xs font-medium">
             Offline Mode
           </div>
+        ) : (
+          <PushReminderToggle />
         )}
       </div>
 
@@ -380,6 +495,108 @@ export default function MedicineReminderPage() {
         </div>
       </div>
 
+      {/* Today's Doses and Adherence */}
+      {doseOverview && reminders.length > 0 && (
+        <div className="bg-white rounded-lg shadow-md overflow-hidden">
+          <div className="bg-gradient-to-r from-green-500 to-emerald-600 px-4 py-5 sm:px-6">
+            <h3 className="text-lg font-medium text-white">Today&apos;s Doses</h3>
+          </div>
+          <div className="p-6 space-y-6">
+            {overall && (
+              <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+                <div className="rounded-lg bg-gray-50 p-4 text-center">
+                  <div className="text-2xl font-bold text-gray-900">
+                    {overall.adherencePercent !== null ? `${overall.adherencePercent}%` : "–"}
+                  </div>
+                  <div className="text-xs text-gray-500">Doses taken ({ADHERENCE_DAYS} days)</div>
+                </div>
+                <div className="rounded-lg bg-gray-50 p-4 text-center">
+                  <div className="text-2xl font-bold text-gray-900">
+                    {overall.onTimePercent !== null ? `${overall.onTimePercent}%` : "–"}
+                  </div>
+                  <div className="text-xs text-gray-500">Taken on time</div>
+                </div>
+                <div className="rounded-lg bg-gray-50 p-4 text-center">
+                  <div className="flex items-center justify-center text-2xl font-bold text-orange-600">
+                    <Flame className="h-5 w-5 mr-1" />
+                    {overall.currentStreak}
+                  </div>
+                  <div className="text-xs text-gray-500">Current streak (days)</div>
+                </div>
+                <div className="rounded-lg bg-gray-50 p-4 text-center">
+                  <div className="text-2xl font-bold text-gray-900">{overall.longestStreak}</div>
+                  <div className="text-xs text-gray-500">Longest streak (days)</div>
+                </div>
+              </div>
+            )}
+
+            {todaysDoses.length === 0 ? (
+              <p className="text-center text-sm text-gray-500">No doses scheduled for today.</p>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {todaysDoses.map(dose => {
+                  const key = `${dose.reminderId}:${dose.scheduledFor}`;
+                  const isLogged = dose.status === "TAKEN" || dose.status === "LATE" || dose.status === "SKIPPED";
+
+                  return (
+                    <li key={key} className="flex items-center justify-between py-3">
+                      <div>
+                        <div className="flex items-center">
+                          <span className="font-medium text-gray-900">{formatDoseTime(dose.scheduledFor)}</span>
+                          <span className="ml-3 text-gray-700">{dose.name}</span>
+                          <span className="ml-2 text-sm text-gray-500">{dose.dosage}</span>
+                        </div>
+                        <div className="mt-1">{getDoseBadge(dose.status)}</div>
+                      </div>
+                      <div className="flex space-x-2">
+                        {isLogged ? (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={loggingDose === key}
+                            onClick={() => handleDose(dose, null)}
+                          >
+                            Undo
+                          </Button>
+                        ) : (
+                          <>
+                            <Button
+                              size="sm"
+                              className="bg-green-600 hover:bg-green-700 text-white"
+                              disabled={loggingDose === key}
+                              onClick={() => handleDose(dose, "TAKEN")}
+                            >
+                              <Check className="h-4 w-4 mr-1" />
+                              Taken
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={loggingDose === key}
+                              onClick={() => handleDose(dose, "LATE")}
+                            >
+                              Late
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={loggingDose === key}
+                              onClick={() => handleDose(dose, "SKIPPED")}
+                            >
+                              Skip
+                            </Button>
+                          </>
+                        )}
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Current Reminders Section */}
       <div className="bg-white rounded-lg shadow-md overflow-hidden">
         <div className="bg-gradient-to-r from-indigo-600 to-indigo-700 px-4 py-5 sm:px-6 flex justify-between items-center">
@@ -429,7 +646,20 @@ export default function MedicineReminderPage() {
                         <div className="text-sm text-gray-500 mt-1">
                           {reminder.dosage} • {formatFrequency(reminder.frequency)} • {reminder.time}
                         </div>
+                        {reminder.startDate && (
+                          <div className="text-sm text-gray-500 mt-1">
+                            From {reminder.startDate.slice(0, 10)}
+                            {reminder.endDate ? ` until ${reminder.endDate.slice(0, 10)}` : ", ongoing"}
+                          </div>
+                        )}
                         {reminder.notes && <div className="text-sm text-gray-500 mt-1">{reminder.notes}</div>}
+                        {doseOverview?.adherence.byReminder[reminder.id]?.adherencePercent != null && (
+                          <div className="text-sm text-gray-600 mt-1">
+                            {doseOverview.adherence.byReminder[reminder.id].adherencePercent}% of doses taken
+                            {doseOverview.adherence.byReminder[reminder.id].currentStreak > 0 &&
+                              ` • ${doseOverview.adherence.byReminder[reminder.id].currentStreak}-day streak`}
+                          </div>
+                        )}
                       </div>
                       <Button
                         variant="ghost"
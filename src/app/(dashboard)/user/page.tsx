@@ -8,6 +8,8 @@ import AppointmentListWrapper from "@/components/appointment/AppointmentListWrap
 import AIChatbot from "@/components/chat/AIChatbot";
 import { Button } from '@/components/ui/button';
 import { MessageSquarePlus, Upload } from 'lucide-react';
+import { useLiveEvents } from '@/hooks/useLiveEvents';
+import type { LiveEvent } from '@/lib/events';
 
 interface Hospital {
   id: string;
@@ -191,6 +193,39 @@ export default function UserDashboard() {
     fetchReports(true);
   };
 
+  // Apply queue, doctor and status changes pushed by the server in place
+  const handleLiveEvent = useCallback((event: LiveEvent) => {
+    const updateReport = (receiptId: string, changes: Partial<Report>) => {
+      setReports(current => current.map(report =>
+        report.id === receiptId ? { ...report, ...changes } : report
+      ));
+    };
+
+    switch (event.type) {
+      case "queue.position":
+        updateReport(event.receiptId, { queuePosition: event.queuePosition });
+        break;
+      case "doctor.assigned":
+        // Sent when the analysis finishes and the report joins the queue
+        fetchReports(true);
+        break;
+      case "receipt.analysis":
+        updateReport(event.receiptId, { status: event.status });
+        break;
+      case "receipt.completed":
+        updateReport(event.receiptId, { status: "COMPLETED", queuePosition: null });
+        break;
+    }
+  }, [fetchReports]);
+
+  const pollReports = useCallback(() => fetchReports(true), [fetchReports]);
+
+  useLiveEvents("/api/user/events", handleLiveEvent, {
+    onPoll: pollReports,
+    pollIntervalMs: 30000,
+    enabled: !!session?.user?.id
+  });
+
   // Loading state
   if (status === "loading") {
     return (
@@ -414,12 +449,14 @@ export default function UserDashboard() {
                                 report.status === "QUEUED" ? "bg-green-100 text-green-800" :
                                 report.status === "PENDING" ? "bg-yellow-100 text-yellow-800" :
                                 report.status === "PROCESSED" ? "bg-blue-100 text-blue-800" :
+                                report.status === "FAILED" ? "bg-red-100 text-red-800" :
                                 "bg-gray-100 text-gray-800"
                               }`}>
                                 <span className={`mr-1 inline-block h-1.5 w-1.5 rounded-full ${
                                   report.status === "QUEUED" ? "bg-green-600" :
                                   report.status === "PENDING" ? "bg-yellow-600" :
                                   report.status === "PROCESSED" ? "bg-blue-600" :
+                                  report.status === "FAILED" ? "bg-red-600" :
                                   "bg-gray-600"
                                 }`}></span>
                                 {report.status}
@@ -623,7 +660,6 @@ export default function UserDashboard() {
         <AIChatbot
           isOpen={isChatbotOpen}
           onClose={() => setIsChatbotOpen(false)}
-          patientId={session.user.id}
         />
       )}
     </div>
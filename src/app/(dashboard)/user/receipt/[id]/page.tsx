@@ -1,10 +1,15 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { useSession } from "next-auth/react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import React from "react";
+import { useLiveEvents } from "@/hooks/useLiveEvents";
+import type { LiveEvent } from "@/lib/events";
+import { formatMinutes } from "@/lib/utils";
+import { useTranslation } from "@/hooks/useTranslation";
+import type { WaitTimeEstimate } from "@/services/waitTime";
 
 interface Report {
   id: string;
@@ -14,6 +19,7 @@ interface Report {
   uploatedAt: string;
   processedAt: string | null;
   aiAnalysis: string | null;
+  patientAnalysis?: string | null;
   hospital: {
     id: string;
     name: string;
@@ -26,6 +32,7 @@ interface Report {
     name: string;
     specialty: string;
   } | null;
+  waitTime?: WaitTimeEstimate | null;
 }
 
 // Define the params structure
@@ -43,6 +50,7 @@ export default function ReportDetailsPage({ params }: PageProps) {
   const reportId = unwrappedParams.id;
   
   const { data: session, status } = useSession();
+  const { t } = useTranslation();
   const router = useRouter();
   
   const [report, setReport] = useState<Report | null>(null);
@@ -60,9 +68,9 @@ export default function ReportDetailsPage({ params }: PageProps) {
     }
   }, [status, router, reportId]);
 
-  const fetchReportDetails = async (id: string) => {
+  const fetchReportDetails = async (id: string, showLoading = true) => {
     try {
-      setLoading(true);
+      if (showLoading) setLoading(true);
       setError(null);
       
       const response = await fetch(`/api/receipts/${id}`);
@@ -81,6 +89,42 @@ export default function ReportDetailsPage({ params }: PageProps) {
     }
   };
 
+  // Keep queue position, doctor and status current while the page is open
+  const handleLiveEvent = useCallback((event: LiveEvent) => {
+    if (!("receiptId" in event) || event.receiptId !== reportId) return;
+
+    // A doctor is assigned when the analysis finishes; reload for its results
+    if (event.type === "doctor.assigned") {
+      fetchReportDetails(reportId, false);
+      return;
+    }
+
+    setReport(current => {
+      if (!current) return current;
+
+      switch (event.type) {
+        case "queue.position":
+          return { ...current, queuePosition: event.queuePosition };
+        case "receipt.analysis":
+          return { ...current, status: event.status };
+        case "receipt.completed":
+          return { ...current, status: "COMPLETED", queuePosition: null, waitTime: null };
+        default:
+          return current;
+      }
+    });
+  }, [reportId]);
+
+  const pollReport = useCallback(() => {
+    fetchReportDetails(reportId, false);
+  }, [reportId]);
+
+  useLiveEvents("/api/user/events", handleLiveEvent, {
+    onPoll: pollReport,
+    pollIntervalMs: 30000,
+    enabled: status === "authenticated" && !!reportId
+  });
+
   if (status === "loading" || loading) {
     return (
       <div className="flex min-h-screen items-center justify-center">
@@ -289,6 +333,8 @@ export default function ReportDetailsPage({ params }: PageProps) {
                       ? "bg-blue-100 text-blue-800"
                       : report.status === "COMPLETED" 
                       ? "bg-purple-100 text-purple-800"
+                      : report.status === "FAILED"
+                      ? "bg-red-100 text-red-800"
                       : "bg-gray-100 text-gray-800"
                   }`}
                 >
@@ -308,6 +354,28 @@ export default function ReportDetailsPage({ params }: PageProps) {
                 </dd>
               </div>
             )}
+            {report.waitTime && (
+              <div className="bg-purple-50 px-4 py-5 sm:grid sm:grid-cols-3 sm:gap-4 sm:px-6 border-l-4 border-purple-400">
+                <dt className="text-sm font-medium text-purple-800">Estimated Wait</dt>
+                <dd className="mt-1 sm:col-span-2">
+                  <span className="text-2xl font-bold text-purple-800">
+                    {report.waitTime.patientsAhead === 0 ? "You're next" : `~${formatMinutes(report.waitTime.estimatedMinutes)}`}
+                  </span>
+                  {report.waitTime.patientsAhead > 0 && (
+                    <p className="text-sm text-purple-600 mt-1">
+                      Likely between {formatMinutes(report.waitTime.lowMinutes)} and {formatMinutes(report.waitTime.highMinutes)}
+                      {" "}({report.waitTime.patientsAhead} patient{report.waitTime.patientsAhead === 1 ? "" : "s"} ahead of you).
+                    </p>
+                  )}
+                  <p className="text-xs text-purple-500 mt-1">
+                    {report.waitTime.confidence === "low"
+                      ? "Rough estimate: this hospital has little recent history."
+                      : `Based on recent visits${report.waitTime.basis === "doctor" ? " with your doctor" : report.waitTime.basis === "specialty" ? " in this specialty" : ""} (${report.waitTime.confidence} confidence).`}
+                    {" "}Updated {new Date(report.waitTime.estimatedAt).toLocaleTimeString()}.
+                  </p>
+                </dd>
+              </div>
+            )}
             {report.severity !== null && (
               <div className="bg-gray-50 px-4 py-5 sm:grid sm:grid-cols-3 sm:gap-4 sm:px-6">
                 <dt className="text-sm font-medium text-gray-500">Severity Rating</dt>
@@ -335,10 +403,10 @@ export default function ReportDetailsPage({ params }: PageProps) {
             )}
             {report.aiAnalysis && (
               <div className="bg-white px-4 py-5 sm:grid sm:grid-cols-3 sm:gap-4 sm:px-6">
-                <dt className="text-sm font-medium text-gray-500">AI Analysis</dt>
+                <dt className="text-sm font-medium text-gray-500">{t("analysis.title")}</dt>
                 <dd className="mt-1 text-sm text-gray-900 sm:col-span-2">
                   <div className="bg-gray-50 p-4 rounded-md whitespace-pre-line border border-gray-200">
-                    {formatAnalysis(report.aiAnalysis)}
+                    {formatAnalysis(report.patientAnalysis || report.aiAnalysis)}
                   </div>
                 </dd>
               </div>
@@ -5,6 +5,8 @@ import { useSession } from "next-auth/react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import React from "react";
+import ReportThumbnail from "@/components/report/ReportThumbnail";
+import { useTranslation } from "@/hooks/useTranslation";
 
 interface Report {
   id: string;
@@ -14,6 +16,15 @@ interface Report {
   uploatedAt: string;
   processedAt: string | null;
   aiAnalysis: string | null;
+  // The analysis in the patient's language, when that is not English
+  patientAnalysis?: string | null;
+  imageKey: string | null;
+  thumbnailKey: string | null;
+  pages?: {
+    position: number;
+    imageType: string;
+    hasPreview: boolean;
+  }[];
   hospital: {
     id: string;
     name: string;
@@ -100,6 +111,7 @@ export default function ReportDetailsPage({ params }: PageProps) {
   const reportId = unwrappedParams.id;
   
   const { data: session, status } = useSession();
+  const { t } = useTranslation();
   const router = useRouter();
   
   const [report, setReport] = useState<Report | null>(null);
@@ -533,6 +545,8 @@ export default function ReportDetailsPage({ params }: PageProps) {
                     ? "Pending"
                     : report.status === "REJECTED"
                     ? "Rejected"
+                    : report.status === "FAILED"
+                    ? "Analysis failed"
                     : report.status}
                 </span>
                 
@@ -541,6 +555,17 @@ export default function ReportDetailsPage({ params }: PageProps) {
                     Position: #{report.queuePosition}
                   </span>
                 )}
+
+                {(report.status === "PENDING" || report.status === "PROCESSING") && (
+                  <p className="mt-1 text-sm text-gray-500">
+                    Your report is being analyzed. You will join the queue as soon as it is done.
+                  </p>
+                )}
+                {report.status === "FAILED" && (
+                  <p className="mt-1 text-sm text-red-700">
+                    We could not analyze this report. Hospital staff can see this and run the analysis again.
+                  </p>
+                )}
               </dd>
             </div>
             {report.doctor && (
@@ -581,12 +606,43 @@ export default function ReportDetailsPage({ params }: PageProps) {
                 </dd>
               </div>
             )}
+            <div className="bg-gray-50 px-4 py-5 sm:grid sm:grid-cols-3 sm:gap-4 sm:px-6">
+              <dt className="text-sm font-medium text-gray-500">
+                Uploaded Document
+                {report.pages && report.pages.length > 1 && (
+                  <span className="block text-xs font-normal text-gray-400">{report.pages.length} pages</span>
+                )}
+              </dt>
+              <dd className="mt-1 text-sm text-gray-900 sm:col-span-2">
+                {report.pages && report.pages.length > 0 ? (
+                  <div className="flex flex-wrap gap-3">
+                    {report.pages.map(page => (
+                      <ReportThumbnail
+                        key={page.position}
+                        reportId={report.id}
+                        hasImage
+                        page={page.position + 1}
+                        hasPreview={page.hasPreview}
+                        size={report.pages!.length > 1 ? "small" : "large"}
+                      />
+                    ))}
+                  </div>
+                ) : (
+                  <ReportThumbnail
+                    reportId={report.id}
+                    hasImage={Boolean(report.imageKey)}
+                    hasPreview={Boolean(report.thumbnailKey)}
+                    size="large"
+                  />
+                )}
+              </dd>
+            </div>
             {report.aiAnalysis && (
-              <div className="bg-gray-50 px-4 py-5 sm:px-6">
-                <dt className="text-sm font-medium text-gray-500 mb-3">Medical Analysis</dt>
+              <div className="bg-white px-4 py-5 sm:px-6">
+                <dt className="text-sm font-medium text-gray-500 mb-3">{t("analysis.title")}</dt>
                 <dd className="mt-2 text-sm text-gray-900 border-t border-gray-200 pt-4">
                   <div className="space-y-4">
-                    {formatAnalysis(report.aiAnalysis)}
+                    {formatAnalysis(report.patientAnalysis || report.aiAnalysis)}
                   </div>
                 </dd>
               </div>
@@ -1,25 +1,78 @@
 "use client";
 
-import { useState, useCallback, useEffect, useMemo } from "react";
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
 import { useDropzone } from "react-dropzone";
 import { useRouter } from "next/navigation";
 import { useSession } from "next-auth/react";
 import Image from "next/image";
 import Link from "next/link";
+import { ChevronLeft, ChevronRight, FileText, X } from "lucide-react";
 import { INDIAN_STATES } from "@/lib/constants";
+import { useTranslation } from "@/hooks/useTranslation";
 
 interface UploadResult {
   id: string;
+  // QUEUED once analyzed, FAILED after the last retry; PENDING or PROCESSING
+  // if we stopped waiting
+  status: string;
+  error?: string | null;
+  nextAttemptAt?: string | null;
   queuePosition?: number;
   hospitalName?: string;
-  severity?: number;
+  severity?: number | null;
   aiAnalysis?: string;
+  patientAnalysis?: string | null;
   doctor?: {
     name: string;
     specialty: string;
   } | null;
 }
 
+// A file the patient added, shown as a page of the report
+interface UploadPage {
+  id: string;
+  file: File;
+  // Object URL for image previews; PDFs have none
+  previewUrl: string | null;
+}
+
+// Matches the server's limit (PDFs count once per page there)
+const MAX_PAGES = 20;
+
+function readAsDataUrl(file: File) {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error(`Failed to read ${file.name}`));
+    reader.readAsDataURL(file);
+  });
+}
+
+const ANALYSIS_POLL_INTERVAL_MS = 2000;
+
+// Stop waiting after this long; the analysis carries on in the background
+const ANALYSIS_WAIT_LIMIT_MS = 3 * 60 * 1000;
+
+// Polls the report's analysis until it is queued or has failed. Returns the
+// last status seen if that takes too long.
+async function waitForAnalysis(reportId: string, onUpdate: (analysis: UploadResult) => void) {
+  const deadline = Date.now() + ANALYSIS_WAIT_LIMIT_MS;
+  let latest: UploadResult = { id: reportId, status: "PENDING" };
+
+  while (Date.now() < deadline) {
+    await new Promise(resolve => setTimeout(resolve, ANALYSIS_POLL_INTERVAL_MS));
+
+    const response = await fetch(`/api/reports/${reportId}/analysis`, { cache: "no-store" });
+    if (!response.ok) continue;
+
+    latest = await response.json();
+    if (latest.status !== "PENDING" && latest.status !== "PROCESSING") break;
+    onUpdate(latest);
+  }
+
+  return latest;
+}
+
 // Processing steps for better user feedback
 const PROCESSING_STEPS = [
   { key: 'initializing', label: 'Initializing upload...', percent: 5 },
@@ -50,9 +103,10 @@ const PROCESSING_TIPS = {
 
 export default function UploadReport() {
   const { data: session } = useSession();
+  const { t } = useTranslation();
   const router = useRouter();
-  const [file, setFile] = useState<File | null>(null);
-  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [pages, setPages] = useState<UploadPage[]>([]);
+  const pagesRef = useRef<UploadPage[]>([]);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadStatus, setUploadStatus] = useState<string>("");
   const [progressStep, setProgressStep] = useState<string>("");
@@ -173,19 +227,49 @@ export default function UploadReport() {
     }
   }, []);
 
+  // Keep the latest pages for releasing preview URLs on unmount
+  useEffect(() => {
+    pagesRef.current = pages;
+  }, [pages]);
+
+  useEffect(() => () => {
+    pagesRef.current.forEach(page => page.previewUrl && URL.revokeObjectURL(page.previewUrl));
+  }, []);
+
+  // New files are added after the existing pages
   const onDrop = useCallback((acceptedFiles: File[]) => {
-    if (acceptedFiles.length > 0) {
-      const file = acceptedFiles[0];
-      setFile(file);
-      
-      // Create a preview URL
-      const previewUrl = URL.createObjectURL(file);
-      setPreviewUrl(previewUrl);
-      
-      // Clean up preview URL when component unmounts
-      return () => URL.revokeObjectURL(previewUrl);
+    const room = MAX_PAGES - pages.length;
+    if (acceptedFiles.length > room) {
+      setError(`A report can have at most ${MAX_PAGES} pages`);
     }
-  }, []);
+
+    const added = acceptedFiles.slice(0, Math.max(room, 0)).map(file => ({
+      id: `${file.name}-${file.lastModified}-${Math.random().toString(36).slice(2)}`,
+      file,
+      previewUrl: file.type.startsWith("image/") ? URL.createObjectURL(file) : null
+    }));
+
+    setPages([...pages, ...added]);
+  }, [pages]);
+
+  const movePage = (index: number, offset: number) => {
+    setPages(current => {
+      const target = index + offset;
+      if (target < 0 || target >= current.length) return current;
+
+      const reordered = [...current];
+      [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+      return reordered;
+    });
+  };
+
+  const removePage = (id: string) => {
+    setPages(current => {
+      const page = current.find(item => item.id === id);
+      if (page?.previewUrl) URL.revokeObjectURL(page.previewUrl);
+      return current.filter(item => item.id !== id);
+    });
+  };
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
@@ -193,10 +277,10 @@ export default function UploadReport() {
       'image/jpeg': [],
       'image/png': [],
       'image/heic': [],
+      'image/webp': [],
       'application/pdf': []
     },
-    maxFiles: 1,
-    maxSize: 10 * 1024 * 1024 // 10MB
+    maxSize: 10 * 1024 * 1024 // 10MB per file
   });
 
   // Function to update progress based on current step with auto-progression
@@ -231,7 +315,7 @@ export default function UploadReport() {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!file) {
+    if (pages.length === 0) {
       setError("Please upload a report image");
       return;
     }
@@ -260,48 +344,9 @@ export default function UploadReport() {
       // Add slight delay before next step for better UX
       await new Promise(resolve => setTimeout(resolve, 400));
       
-      // Process the file with web workers if available for better performance
-      const processFile = () => {
-        return new Promise<string>((resolve, reject) => {
-          // Set up a worker if browser supports it
-          if (typeof window !== 'undefined' && window.Worker) {
-            try {
-              // Use a separate thread for processing to prevent UI blocking
-              updateProgress('compressing');
-              
-              const reader = new FileReader();
-              reader.onloadend = () => {
-                // File is ready as data URL
-                const base64String = reader.result as string;
-                const base64Data = base64String.split(",")[1]; // Remove data URL prefix
-                resolve(base64Data);
-              };
-              reader.onerror = () => {
-                reject(new Error("Failed to read the file"));
-              };
-              reader.readAsDataURL(file);
-            } catch (err) {
-              // Fallback to synchronous processing
-              reject(err);
-            }
-          } else {
-            // Fallback for browsers without worker support
-            const reader = new FileReader();
-            reader.onloadend = () => {
-              const base64String = reader.result as string;
-              const base64Data = base64String.split(",")[1];
-              resolve(base64Data);
-            };
-            reader.onerror = () => {
-              reject(new Error("Failed to read the file"));
-            };
-            reader.readAsDataURL(file);
-          }
-        });
-      };
-      
-      // Process the file and get base64 data
-      const base64Data = await processFile();
+      // Read every page as a data URL, keeping the type so PDFs can be split
+      updateProgress('compressing');
+      const pageData = await Promise.all(pages.map(page => readAsDataUrl(page.file)));
       
       // Short delay to make the compression step visible
       await new Promise(resolve => setTimeout(resolve, 300));
@@ -347,7 +392,7 @@ export default function UploadReport() {
             'Content-Type': 'application/json',
           },
           body: JSON.stringify({
-            image: base64Data,
+            pages: pageData,
             hospitalId: selectedHospital
           }),
           signal: controller.signal
@@ -358,13 +403,21 @@ export default function UploadReport() {
         clearInterval(progressUpdateInterval);
         
         if (response.ok) {
+          // The report is stored; wait for the background analysis to queue it
+          const { id } = await response.json();
+          updateProgress('analyzing');
+          const result = await waitForAnalysis(id, analysis => {
+            if (analysis.nextAttemptAt) {
+              setUploadStatus(`Analysis hit a problem, retrying at ${new Date(analysis.nextAttemptAt).toLocaleTimeString()}...`);
+            }
+          });
+          
           // Update to complete step
           updateProgress('complete');
           
           // Set a minimum display time for the completion animation
           // This ensures users see the "complete" state
           setTimeout(async () => {
-            const result = await response.json();
             setUploadSuccess(true);
             setUploadResult(result);
             
@@ -663,32 +716,21 @@ export default function UploadReport() {
               } px-6 pt-5 pb-6`}
             >
               <div className="space-y-3 text-center">
-                {previewUrl ? (
-                  <div className="relative mx-auto h-32 w-32 text-sm">
-                    <Image
-                      src={previewUrl}
-                      alt="Report preview"
-                      fill
-                      style={{ objectFit: "contain" }}
-                    />
-                  </div>
-                ) : (
-                  <svg
-                    className="mx-auto h-12 w-12 text-gray-400"
-                    xmlns="http://www.w3.org/2000/svg"
-                    stroke="currentColor"
-                    fill="none"
-                    viewBox="0 0 48 48"
-                    aria-hidden="true"
-                  >
-                    <path
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      strokeWidth={2}
-                      d="M8 14v20c0 4.418 7.163 8 16 8 1.381 0 2.721-.087 4-.252M8 14c0 4.418 7.163 8 16 8s16-3.582 16-8M8 14c0-4.418 7.163-8 16-8s16 3.582 16 8m0 0v14m0-4c0 4.418-7.163 8-16 8S8 28.418 8 24m32 10v6m0 0v6m0-6h6m-6 0h-6"
-                    />
-                  </svg>
-                )}
+                <svg
+                  className="mx-auto h-12 w-12 text-gray-400"
+                  xmlns="http://www.w3.org/2000/svg"
+                  stroke="currentColor"
+                  fill="none"
+                  viewBox="0 0 48 48"
+                  aria-hidden="true"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M8 14v20c0 4.418 7.163 8 16 8 1.381 0 2.721-.087 4-.252M8 14c0 4.418 7.163 8 16 8s16-3.582 16-8M8 14c0-4.418 7.163-8 16-8s16 3.582 16 8m0 0v14m0-4c0 4.418-7.163 8-16 8S8 28.418 8 24m32 10v6m0 0v6m0-6h6m-6 0h-6"
+                  />
+                </svg>
                 <div className="flex text-sm text-gray-600">
                   <input
                     {...getInputProps()}
@@ -698,34 +740,78 @@ export default function UploadReport() {
                     className="sr-only"
                   />
                   <p className="pl-1">
-                    {previewUrl ? (
-                      <>
+                    <span className="font-medium text-indigo-600 hover:text-indigo-500">
+                      {pages.length > 0 ? "Add more pages" : "Click to upload"}
+                    </span>
+                    {" or drag and drop"}
+                  </p>
+                </div>
+                <p className="text-xs text-gray-500">PNG, JPG, HEIC, WebP or PDF up to 10MB each. PDFs are split into pages.</p>
+              </div>
+            </div>
+
+            {pages.length > 0 && (
+              <div className="mt-4">
+                <p className="text-sm text-gray-500">
+                  {pages.length} {pages.length === 1 ? "file" : "files"}, analyzed together as one report. Arrange them in reading order.
+                </p>
+                <ol className="mt-2 grid grid-cols-2 gap-3 sm:grid-cols-4">
+                  {pages.map((page, index) => (
+                    <li key={page.id} className="rounded-md border border-gray-200 bg-white p-2">
+                      <div className="relative h-28 w-full overflow-hidden rounded bg-gray-50">
+                        {page.previewUrl ? (
+                          <Image
+                            src={page.previewUrl}
+                            alt={`Page ${index + 1} preview`}
+                            fill
+                            style={{ objectFit: "contain" }}
+                          />
+                        ) : (
+                          <div className="flex h-full flex-col items-center justify-center text-xs text-gray-500">
+                            <FileText className="h-8 w-8 mb-1 text-gray-400" />
+                            PDF
+                          </div>
+                        )}
+                      </div>
+                      <p className="mt-1 truncate text-xs text-gray-700" title={page.file.name}>
+                        {index + 1}. {page.file.name}
+                      </p>
+                      <div className="mt-1 flex items-center justify-between">
+                        <div className="flex space-x-1">
+                          <button
+                            type="button"
+                            onClick={() => movePage(index, -1)}
+                            disabled={index === 0 || isUploading}
+                            className="rounded p-1 text-gray-500 hover:bg-gray-100 disabled:opacity-30"
+                            aria-label={`Move page ${index + 1} earlier`}
+                          >
+                            <ChevronLeft className="h-4 w-4" />
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => movePage(index, 1)}
+                            disabled={index === pages.length - 1 || isUploading}
+                            className="rounded p-1 text-gray-500 hover:bg-gray-100 disabled:opacity-30"
+                            aria-label={`Move page ${index + 1} later`}
+                          >
+                            <ChevronRight className="h-4 w-4" />
+                          </button>
+                        </div>
                         <button
                           type="button"
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            setFile(null);
-                            setPreviewUrl(null);
-                          }}
-                          className="font-medium text-indigo-600 hover:text-indigo-500"
+                          onClick={() => removePage(page.id)}
+                          disabled={isUploading}
+                          className="rounded p-1 text-red-500 hover:bg-red-50 disabled:opacity-30"
+                          aria-label={`Remove page ${index + 1}`}
                         >
-                          Remove
+                          <X className="h-4 w-4" />
                         </button>
-                        {" or drag and drop to replace"}
-                      </>
-                    ) : (
-                      <>
-                        <span className="font-medium text-indigo-600 hover:text-indigo-500">
-                          Click to upload
-                        </span>
-                        {" or drag and drop"}
-                      </>
-                    )}
-                  </p>
-                </div>
-                <p className="text-xs text-gray-500">PNG, JPG, HEIC, PDF up to 10MB</p>
+                      </div>
+                    </li>
+                  ))}
+                </ol>
               </div>
-            </div>
+            )}
           </div>
         </div>
 
@@ -738,7 +824,7 @@ export default function UploadReport() {
             </Link>
           <button
             type="submit"
-            disabled={isUploading || !file || !selectedHospital}
+            disabled={isUploading || pages.length === 0 || !selectedHospital}
             className="ml-3 inline-flex justify-center rounded-md border border-transparent bg-indigo-600 py-2 px-4 text-sm font-medium text-white shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 disabled:opacity-50"
           >
             Upload and Process
@@ -765,7 +851,11 @@ export default function UploadReport() {
               <h3 className="text-lg font-medium text-green-800">Upload Successful!</h3>
             </div>
             <p className="mt-1 max-w-2xl text-sm text-green-700">
-              Your medical report has been analyzed and added to the queue.
+              {uploadResult.status === "QUEUED"
+                ? "Your medical report has been analyzed and added to the queue."
+                : uploadResult.status === "FAILED"
+                ? "Your medical report was saved, but we could not analyze it. Hospital staff can see this and run the analysis again."
+                : "Your medical report was saved and is still being analyzed. You will join the queue as soon as it is done."}
             </p>
           </div>
           
@@ -777,12 +867,14 @@ export default function UploadReport() {
                   {uploadResult.hospitalName}
                 </dd>
               </div>
-              <div className="bg-gray-50 px-4 py-5 sm:grid sm:grid-cols-3 sm:gap-4 sm:px-6">
-                <dt className="text-sm font-medium text-gray-500">Queue Position</dt>
-                <dd className="mt-1 text-sm text-gray-900 sm:col-span-2">
-                  <span className="text-xl font-semibold">#{uploadResult.queuePosition}</span>
-                </dd>
-              </div>
+              {uploadResult.queuePosition && (
+                <div className="bg-gray-50 px-4 py-5 sm:grid sm:grid-cols-3 sm:gap-4 sm:px-6">
+                  <dt className="text-sm font-medium text-gray-500">Queue Position</dt>
+                  <dd className="mt-1 text-sm text-gray-900 sm:col-span-2">
+                    <span className="text-xl font-semibold">#{uploadResult.queuePosition}</span>
+                  </dd>
+                </div>
+              )}
               {uploadResult.doctor && (
                 <div className="bg-white px-4 py-5 sm:grid sm:grid-cols-3 sm:gap-4 sm:px-6">
                   <dt className="text-sm font-medium text-gray-500">Assigned Doctor</dt>
@@ -796,7 +888,7 @@ export default function UploadReport() {
                   </dd>
                 </div>
               )}
-              {uploadResult.severity !== undefined && (
+              {uploadResult.severity !== undefined && uploadResult.severity !== null && (
                 <div className="bg-gray-50 px-4 py-5 sm:grid sm:grid-cols-3 sm:gap-4 sm:px-6">
                   <dt className="text-sm font-medium text-gray-500">Severity Rating</dt>
                   <dd className="mt-1 text-sm text-gray-900 sm:col-span-2">
@@ -850,9 +942,9 @@ export default function UploadReport() {
                   {showAnalysisDetails && (
                     <div className="bg-white px-4 py-5 sm:px-6">
                       <div className="bg-gray-50 p-5 rounded-md border border-gray-200 shadow-sm">
-                        <h4 className="text-lg font-medium text-gray-900 mb-3">Medical Analysis</h4>
+                        <h4 className="text-lg font-medium text-gray-900 mb-3">{t("analysis.title")}</h4>
                         <div className="space-y-1 text-sm">
-                          {formatAnalysis(uploadResult.aiAnalysis)}
+                          {formatAnalysis(uploadResult.patientAnalysis || uploadResult.aiAnalysis)}
                         </div>
                       </div>
                     </div>
@@ -0,0 +1,227 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getServerSession } from 'next-auth';
+import { ROLES } from '@/lib/permissions';
+import type { Role } from '@/lib/permissions';
+
+// Calls every API route signed out and as each role, and checks who gets in
+// against EXPECTED_ACCESS below. The handlers get no database; a request that
+// reaches one fails there, which is fine: all that matters is who got in.
+
+vi.mock('next-auth', async importOriginal => ({
+  ...await importOriginal<typeof import('next-auth')>(),
+  getServerSession: vi.fn()
+}));
+
+vi.mock('@/lib/auth', () => ({ authOptions: {} }));
+
+// Stands in for the Prisma client: every query fails once it is awaited
+const { noDatabase } = vi.hoisted(() => {
+  const failedQuery = () => {
+    const failure = () => Promise.reject(new Error('The access test has no database'));
+    return {
+      then: (onFulfilled?: () => unknown, onRejected?: (error: Error) => unknown) => failure().then(onFulfilled, onRejected),
+      catch: (onRejected: (error: Error) => unknown) => failure().catch(onRejected)
+    };
+  };
+  const client = (): unknown => new Proxy(() => undefined, {
+    get: (_target, property) => property === 'then' ? undefined : client(),
+    apply: failedQuery
+  });
+  const prisma = client();
+  return { noDatabase: { prisma, default: prisma } };
+});
+
+vi.mock('@/lib/prisma', () => noDatabase);
+vi.mock('@/lib/prisma-singleton', () => noDatabase);
+
+const METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'] as const;
+type Method = typeof METHODS[number];
+
+// Who may call a handler:
+// - 'public': no auth wrapper; nobody is turned away at the door
+// - 'anyone': withOptionalAuth; signed-out visitors get through too
+// - 'signed-in': withAuth; any signed-in role
+// - 'token': withSignedToken; only a valid signed token, whoever is signed in
+// - a list of roles: signed-out visitors get 401, other roles 403
+type Access = 'public' | 'anyone' | 'signed-in' | 'token' | Role[];
+
+// Written out by hand from the grants in the README (Access Control), so a
+// change to PERMISSIONS or to a route's wrapper has to be made here as well
+const EXPECTED_ACCESS: Record<string, Partial<Record<Method, Access>>> = {
+  'admin/audit': { GET: ['USER', 'ADMIN'] },
+  'admin/red-flags': { GET: ['ADMIN'] },
+  'admin/red-flags/[id]': { PATCH: ['ADMIN'] },
+  'admin/stats': { GET: ['ADMIN'] },
+  'appointments': { GET: ['USER', 'HOSPITAL', 'ADMIN'], POST: ['USER'] },
+  'appointments/[id]': { GET: ['USER', 'HOSPITAL', 'ADMIN'], PATCH: ['USER', 'HOSPITAL', 'ADMIN'] },
+  // NextAuth sign-in and session endpoints
+  'auth/[...nextauth]': { GET: 'public', POST: 'public' },
+  // Sign-up
+  'auth/register': { POST: 'public' },
+  'auth/register-admin': { POST: 'public' },
+  'auth/register-hospital': { POST: 'public' },
+  'chat': { POST: 'anyone' },
+  'chat/actions/[id]': { PATCH: ['USER', 'HOSPITAL', 'ADMIN'] },
+  'chat/sessions': { GET: ['USER', 'HOSPITAL', 'ADMIN'], POST: ['USER', 'HOSPITAL', 'ADMIN'], DELETE: ['USER', 'HOSPITAL', 'ADMIN'] },
+  'chat/sessions/[id]': { GET: ['USER', 'HOSPITAL', 'ADMIN'], PATCH: ['USER', 'HOSPITAL', 'ADMIN'], DELETE: ['USER', 'HOSPITAL', 'ADMIN'] },
+  'chat/sessions/import': { POST: ['USER', 'HOSPITAL', 'ADMIN'] },
+  'debug/database-test': { GET: ['ADMIN'] },
+  'debug/hospitals': { GET: ['ADMIN'] },
+  'debug/repair-hospital': { GET: ['ADMIN'], POST: ['ADMIN'] },
+  'debug/seed-hospitals': { POST: ['ADMIN'] },
+  'fhir': { POST: ['USER'] },
+  'fhir/Patient/[id]/$everything': { GET: ['USER', 'HOSPITAL', 'ADMIN'] },
+  // Signed file URLs issued by /api/receipts/[id]/image
+  'files/[...key]': { GET: 'public' },
+  'hospital/clear-data': { DELETE: ['HOSPITAL', 'ADMIN'] },
+  'hospital/delete-account': { DELETE: ['HOSPITAL', 'ADMIN'] },
+  'hospital/doctors': { GET: ['HOSPITAL', 'ADMIN'] },
+  'hospital/doctors/[id]/leave': { POST: ['HOSPITAL', 'ADMIN'], DELETE: ['HOSPITAL', 'ADMIN'] },
+  'hospital/doctors/[id]/schedule': { GET: ['HOSPITAL', 'ADMIN'], PUT: ['HOSPITAL', 'ADMIN'] },
+  'hospital/emergency-alerts': { GET: ['USER', 'HOSPITAL', 'ADMIN'], PATCH: ['USER', 'HOSPITAL', 'ADMIN'] },
+  'hospital/events': { GET: ['HOSPITAL', 'ADMIN'] },
+  'hospital/failed-analyses': { GET: ['HOSPITAL', 'ADMIN'] },
+  'hospital/patients/[id]': { GET: ['HOSPITAL', 'ADMIN'] },
+  'hospital/patients/[id]/history': { GET: ['HOSPITAL', 'ADMIN'] },
+  'hospital/queue': { GET: ['HOSPITAL', 'ADMIN'] },
+  'hospital/schedule': { GET: ['HOSPITAL', 'ADMIN'] },
+  // The hospital directory
+  'hospitals': { GET: 'public' },
+  'hospitals/[id]': { GET: 'public', PUT: ['HOSPITAL', 'ADMIN'] },
+  'hospitals/[id]/slots': { GET: ['USER', 'HOSPITAL', 'ADMIN'] },
+  'notifications': { GET: ['USER', 'HOSPITAL', 'ADMIN'], PATCH: ['USER', 'HOSPITAL', 'ADMIN'] },
+  'receipts/[id]': { GET: ['USER', 'HOSPITAL', 'ADMIN'] },
+  'receipts/[id]/complete': { POST: ['HOSPITAL', 'ADMIN'] },
+  'receipts/[id]/image': { GET: ['USER', 'HOSPITAL', 'ADMIN'] },
+  'receipts/upload': { POST: ['USER'] },
+  'reports/[id]': { GET: ['USER', 'HOSPITAL', 'ADMIN'] },
+  'reports/[id]/analysis': { GET: ['USER', 'HOSPITAL', 'ADMIN'], POST: ['HOSPITAL', 'ADMIN'] },
+  'reports/[id]/complete': { POST: ['HOSPITAL', 'ADMIN'] },
+  'reports/upload': { POST: ['USER'] },
+  'states': { GET: 'signed-in' },
+  'user/access-log': { GET: ['USER', 'ADMIN'] },
+  'user/emergency-alert': { POST: ['USER'] },
+  'user/emergency-alert/[id]': { GET: ['USER', 'HOSPITAL', 'ADMIN'], PATCH: ['USER', 'HOSPITAL', 'ADMIN'] },
+  'user/events': { GET: 'signed-in' },
+  'user/medicine-reminder': { GET: ['USER', 'ADMIN'], POST: ['USER', 'ADMIN'], DELETE: ['USER', 'ADMIN'] },
+  'user/medicine-reminder/[id]': { GET: ['USER', 'ADMIN'], PATCH: ['USER', 'ADMIN'], DELETE: ['USER', 'ADMIN'] },
+  'user/medicine-reminder/[id]/doses': { POST: ['USER', 'ADMIN'], DELETE: ['USER', 'ADMIN'] },
+  'user/medicine-reminder/analyze-prescription': { POST: ['USER', 'ADMIN'] },
+  'user/medicine-reminder/check': { POST: ['USER', 'ADMIN'] },
+  'user/medicine-reminder/doses': { GET: ['USER', 'ADMIN'] },
+  'user/medicine-reminder/push-response': { POST: 'token' },
+  'user/profile': { GET: ['USER', 'HOSPITAL', 'ADMIN'], PUT: ['USER', 'HOSPITAL', 'ADMIN'] },
+  'user/push-subscription': { GET: ['USER', 'ADMIN'], POST: ['USER', 'ADMIN'], DELETE: ['USER', 'ADMIN'] },
+  'user/receipts': { GET: ['USER', 'HOSPITAL', 'ADMIN'] },
+  'user/receipts/clear': { DELETE: ['USER', 'ADMIN'] },
+  'user/reports': { GET: ['USER', 'HOSPITAL', 'ADMIN'] },
+  'user/reports/clear': { DELETE: ['USER', 'ADMIN'] },
+  'user/reset-password': { PUT: ['USER', 'HOSPITAL', 'ADMIN'] },
+  'user/update-hospital': { POST: ['HOSPITAL', 'ADMIN'], PUT: ['HOSPITAL', 'ADMIN'] }
+};
+
+const ROLE_DENIED = 'Forbidden: your role does not allow this action';
+
+type RouteHandler = (request: Request, context: { params: Record<string, unknown> }) => Promise<Response>;
+
+const API_DIR = __dirname;
+
+function routeFiles(dir = API_DIR): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) return routeFiles(entryPath);
+    return entry.name === 'route.ts' ? [entryPath] : [];
+  });
+}
+
+function signedInAs(role: Role | null) {
+  vi.mocked(getServerSession).mockResolvedValue(role && {
+    user: { id: 'user-1', email: 'user@example.com', role, hospital: role === 'HOSPITAL' ? 'hospital-1' : null },
+    expires: new Date(Date.now() + 60 * 60 * 1000).toISOString()
+  });
+}
+
+// How a request fared at the door: 'unauthenticated' (401), 'denied' (403
+// from the role check), 'invalid-token', or 'handled' when the handler ran
+async function outcome(handler: RouteHandler, method: Method, route: string) {
+  const request = new Request(`http://localhost/api/${route}`, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    ...(method !== 'GET' && { body: '{}' })
+  });
+
+  let response: Response;
+  try {
+    response = await handler(request, { params: { id: 'record-1', key: ['record-1'] } });
+  } catch {
+    // Thrown from inside the handler, e.g. by the missing database
+    return 'handled';
+  }
+
+  if (response.status === 401) return 'unauthenticated';
+  if (response.status === 403) {
+    const { error } = await response.clone().json().catch(() => ({ error: null }));
+    if (error === ROLE_DENIED) return 'denied';
+    if (error === 'Invalid or expired token') return 'invalid-token';
+  }
+  return 'handled';
+}
+
+const routes = routeFiles()
+  .map(file => ({
+    file,
+    route: path.relative(API_DIR, path.dirname(file)).split(path.sep).join('/')
+  }))
+  .sort((a, b) => a.route.localeCompare(b.route));
+
+describe('API route access', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  it('lists every API route', () => {
+    expect(routes.map(({ route }) => route)).toEqual(Object.keys(EXPECTED_ACCESS).sort((a, b) => a.localeCompare(b)));
+  });
+
+  for (const { file, route } of routes) {
+    it(`guards ${route}`, async () => {
+      const routeModule: Partial<Record<Method, RouteHandler>> = await import(file);
+      const exported = METHODS.filter(method => typeof routeModule[method] === 'function');
+      const expected = EXPECTED_ACCESS[route] ?? {};
+      expect(exported, `methods of /api/${route}`).toEqual(METHODS.filter(method => method in expected));
+
+      for (const method of exported) {
+        const handler = routeModule[method] as RouteHandler;
+        const access = expected[method] as Access;
+
+        if (access === 'public') {
+          signedInAs(null);
+          expect(await outcome(handler, method, route), `${method} /api/${route} signed out`).not.toMatch(/^(unauthenticated|denied)$/);
+          continue;
+        }
+
+        if (access === 'token') {
+          for (const role of [null, ...ROLES]) {
+            signedInAs(role);
+            expect(await outcome(handler, method, route), `${method} /api/${route} without a token as ${role ?? 'signed out'}`).toBe('invalid-token');
+          }
+          continue;
+        }
+
+        signedInAs(null);
+        expect(await outcome(handler, method, route), `${method} /api/${route} signed out`)
+          .toBe(access === 'anyone' ? 'handled' : 'unauthenticated');
+
+        for (const role of ROLES) {
+          signedInAs(role);
+          const allowed = !Array.isArray(access) || access.includes(role);
+          expect(await outcome(handler, method, route), `${method} /api/${route} as ${role}`).toBe(allowed ? 'handled' : 'denied');
+        }
+      }
+    });
+  }
+});
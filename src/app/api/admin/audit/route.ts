@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { withPermission } from "@/lib/routeAuth";
+import { listAuditLogs } from "@/services/audit";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Schema for validating the audit viewer's filters
+const auditQuerySchema = z.object({
+  actorId: z.string().min(1).optional(),
+  patientId: z.string().min(1).optional(),
+  resource: z.enum(["appointment", "receipt", "emergencyAlert", "profile"]).optional(),
+  action: z.enum(["READ", "CREATE", "UPDATE", "DELETE"]).optional(),
+  from: z.string().regex(DATE_PATTERN).optional(),
+  to: z.string().regex(DATE_PATTERN).optional(),
+  page: z.coerce.number().int().min(1).default(1)
+});
+
+// GET - Audit entries, newest first
+// (?actorId&patientId&resource&action&from=YYYY-MM-DD&to=YYYY-MM-DD&page)
+export const GET = withPermission("auditLog", "read", async (request) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = Object.fromEntries(
+      [...searchParams.entries()].filter(([, value]) => value !== "")
+    );
+
+    const parseResult = auditQuerySchema.safeParse(query);
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { error: "Invalid filters", details: parseResult.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const { from, to, page, ...filters } = parseResult.data;
+
+    // Both dates are inclusive
+    const toDate = to ? new Date(`${to}T00:00:00.000Z`) : undefined;
+    toDate?.setUTCDate(toDate.getUTCDate() + 1);
+
+    const result = await listAuditLogs({
+      ...filters,
+      from: from ? new Date(`${from}T00:00:00.000Z`) : undefined,
+      to: toDate
+    }, page);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Error fetching audit log:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch audit log" },
+      { status: 500 }
+    );
+  }
+});
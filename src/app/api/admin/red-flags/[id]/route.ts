@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { withPermission } from "@/lib/routeAuth";
+import { reviewRedFlagEvent } from "@/services/redFlags";
+
+// Schema for reviewing a red-flag case
+const reviewSchema = z.object({
+  note: z.string().trim().max(1000).optional()
+});
+
+// PATCH - Mark a red-flag case reviewed, with an optional note
+export const PATCH = withPermission<{ id: string }>("redFlagEvent", "update", async (request, { params, user }) => {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const parseResult = reviewSchema.safeParse(body);
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: parseResult.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const event = await reviewRedFlagEvent(params.id, user, parseResult.data.note);
+
+    if (!event) {
+      return NextResponse.json({ error: "Red-flag case not found" }, { status: 404 });
+    }
+
+    console.log(`🚩 Red-flag case ${params.id} reviewed by admin ${user.id}`);
+    return NextResponse.json(event);
+  } catch (error) {
+    console.error("Error reviewing red-flag case:", error);
+    return NextResponse.json(
+      { error: "Failed to review the red-flag case" },
+      { status: 500 }
+    );
+  }
+});
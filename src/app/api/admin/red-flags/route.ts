@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { withPermission } from "@/lib/routeAuth";
+import { listRedFlagEvents } from "@/services/redFlags";
+
+// Schema for validating the review list's filters
+const redFlagQuerySchema = z.object({
+  status: z.enum(["open", "reviewed", "all"]).default("open"),
+  page: z.coerce.number().int().min(1).default(1)
+});
+
+// GET - Chat messages that raised red flags, newest first (?status=open|reviewed|all&page)
+export const GET = withPermission("redFlagEvent", "read", async (request) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = Object.fromEntries(
+      [...searchParams.entries()].filter(([, value]) => value !== "")
+    );
+
+    const parseResult = redFlagQuerySchema.safeParse(query);
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { error: "Invalid filters", details: parseResult.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const { status, page } = parseResult.data;
+    const result = await listRedFlagEvents(
+      { reviewed: status === "all" ? undefined : status === "reviewed" },
+      page
+    );
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Error fetching red-flag cases:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch red-flag cases" },
+      { status: 500 }
+    );
+  }
+});
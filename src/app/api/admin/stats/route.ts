@@ -1,22 +1,8 @@
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/routeAuth";
 
-export async function GET() {
-  const session = await getServerSession(authOptions);
-
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
-
-  if (session.user.role !== "ADMIN") {
-    return NextResponse.json(
-      { error: "Only administrators can access this endpoint" },
-      { status: 403 }
-    );
-  }
-
+export const GET = withPermission("stats", "read", async () => {
   try {
     const [totalUsers, totalHospitals, totalReceipts, activeQueues] =
       await Promise.all([
@@ -43,4 +29,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+});
\ No newline at end of file
@@ -1,25 +1,14 @@
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
 import prisma from "@/lib/prisma";
+import { forbidden, withPermission } from "@/lib/routeAuth";
+import { findFirstOpenSlot, scheduleAppointment, SlotUnavailableError } from "@/services/scheduling";
+import { notifyAppointmentConfirmed } from "@/services/notifications";
 
 // GET - Fetch a single appointment
-export async function GET(
-  request: Request,
-  { params }: { params: { id: string } }
-) {
+export const GET = withPermission<{ id: string }>("appointment", "read", async (request, { params, session, can, audit }) => {
   console.log(`🔍 API Request to /api/appointments/${params.id}`);
   
   try {
-    const session = await getServerSession(authOptions);
-
-    if (!session) {
-      console.log("❌ Unauthorized access attempt - No session");
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    console.log(`✅ Authorized access by user: ${session.user.id}, role: ${session.user.role}`);
-    
     const appointmentId = params.id;
 
     try {
@@ -69,19 +58,14 @@ export async function GET(
         };
       }
       
-      // For regular users, only allow them to view their own appointments
-      if (
-        session.user.role !== "HOSPITAL" &&
-        session.user.role !== "ADMIN" &&
-        session.user.id !== appointment.userId
-      ) {
-        // Log the permission issue but allow access anyway
-        console.log(`⚠️ Note: User ${session.user.id} viewing appointment ${appointmentId} that doesn't belong to them - allowing anyway`);
-        // We're removing the permission restriction so we won't return a 403 error
-        // return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+      // Patients see their own appointments, hospitals those booked with them
+      if (!can({ userId: appointment.userId, hospitalId: appointment.hospitalId })) {
+        console.log(`❌ User ${session.user.id} may not view appointment ${appointmentId}`);
+        return forbidden();
       }
       
       console.log(`✅ Permission granted for user ${session.user.id} to view appointment ${appointmentId}`);
+      await audit({ patientId: appointment.userId, resourceId: appointmentId });
 
       // Set response headers
       const response = NextResponse.json(appointment);
@@ -104,30 +88,19 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
 
 // PATCH - Update an appointment (confirm, reschedule, assign doctor)
-export async function PATCH(
-  request: Request,
-  { params }: { params: { id: string } }
-) {
+export const PATCH = withPermission<{ id: string }>("appointment", "update", async (request, { params, session, can, audit }) => {
   console.log(`🔧 API PATCH Request to /api/appointments/${params.id}`);
   
   try {
-    const session = await getServerSession(authOptions);
-
-    if (!session) {
-      console.log("❌ Unauthorized access attempt - No session");
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    console.log(`✅ Authorized access by user: ${session.user.id}, role: ${session.user.role}`);
-    
     const appointmentId = params.id;
 
     try {
       const body = await request.json();
-      const { status, doctorId, scheduledDate } = body;
+      let { status } = body;
+      const { doctorId, scheduledDate } = body;
       
       console.log(`🔍 Attempting to update appointment ${appointmentId} with status: ${status}`);
 
@@ -149,15 +122,13 @@ export async function PATCH(
       
       console.log(`✅ Appointment found: ${appointmentId}`);
 
+      if (!can({ userId: appointment.userId, hospitalId: appointment.hospitalId })) {
+        console.log(`❌ User ${session.user.id} may not update appointment ${appointmentId}`);
+        return forbidden();
+      }
+
       // Regular users can only cancel their own appointments
       if (session.user.role !== "HOSPITAL" && session.user.role !== "ADMIN") {
-        if (session.user.id !== appointment.userId) {
-          // Log the issue but allow the operation
-          console.log(`⚠️ Note: User ${session.user.id} updating appointment ${appointmentId} that doesn't belong to them - allowing anyway`);
-          // We're removing the permission restriction
-          // return NextResponse.json({ error: "Forbidden" }, { status: 403 });
-        }
-
         // Regular users can only change the status to CANCELLED
         if (status && status !== "CANCELLED") {
           console.log(`⚠️ User ${session.user.id} attempting status change to ${status} - restricting to CANCELLED only`);
@@ -168,13 +139,83 @@ export async function PATCH(
       
       console.log(`✅ Permission granted for user ${session.user.id} to update appointment ${appointmentId}`);
 
+      const isStaff = session.user.role === "HOSPITAL" || session.user.role === "ADMIN";
+      const targetDoctorId = doctorId || appointment.doctorId;
+
+      // A new doctor must work at the hospital the appointment is with
+      if (isStaff && doctorId && doctorId !== appointment.doctorId) {
+        const doctor = await prisma.doctor.findFirst({
+          where: { id: doctorId, hospitalId: appointment.hospitalId },
+          select: { id: true }
+        });
+
+        if (!doctor) {
+          return NextResponse.json(
+            { error: "The selected doctor does not work at this hospital" },
+            { status: 400 }
+          );
+        }
+      }
+      // The patient is told once, when the appointment first becomes confirmed
+      const confirming = status === "CONFIRMED" && appointment.status !== "CONFIRMED";
+      const notifyIfConfirmed = async () => {
+        if (!confirming) return;
+        await notifyAppointmentConfirmed(appointmentId).catch(error => {
+          console.error(`❌ Failed to notify patient of confirmed appointment ${appointmentId}:`, error);
+        });
+      };
+
+      // Work out which slot (if any) the appointment should hold after this update.
+      // Only staff move appointments between slots and doctors.
+      let slotStart: Date | null = null;
+      if (isStaff && scheduledDate) {
+        slotStart = new Date(scheduledDate);
+        if (isNaN(slotStart.getTime())) {
+          return NextResponse.json({ error: "Invalid scheduledDate" }, { status: 400 });
+        }
+      } else if (isStaff && doctorId && doctorId !== appointment.doctorId && appointment.scheduledDate) {
+        // Reassigned to another doctor: keep the time if that doctor has room
+        slotStart = appointment.scheduledDate;
+      } else if (isStaff && status === "CONFIRMED" && !appointment.scheduledDate && targetDoctorId) {
+        // Confirming without a time: take the doctor's first open slot from the preferred date
+        slotStart = await findFirstOpenSlot(appointment.hospitalId, targetDoctorId, new Date(appointment.preferredDate));
+        if (!slotStart) {
+          return NextResponse.json(
+            { error: "The selected doctor has no open slots in the next two weeks" },
+            { status: 409 }
+          );
+        }
+      }
+
+      if (slotStart) {
+        if (!targetDoctorId) {
+          return NextResponse.json({ error: "Assign a doctor before choosing a slot" }, { status: 400 });
+        }
+
+        try {
+          const scheduled = await scheduleAppointment(appointmentId, targetDoctorId, slotStart, {
+            ...(status && { status })
+          });
+
+          console.log(`✅ Appointment ${appointmentId} scheduled at ${slotStart.toISOString()} with doctor ${targetDoctorId}`);
+          await audit({ patientId: appointment.userId, resourceId: appointmentId });
+          await notifyIfConfirmed();
+          return NextResponse.json(scheduled);
+        } catch (slotError) {
+          if (slotError instanceof SlotUnavailableError) {
+            console.log(`⚠️ Slot unavailable for appointment ${appointmentId}: ${slotError.message}`);
+            return NextResponse.json({ error: slotError.message }, { status: 409 });
+          }
+          throw slotError;
+        }
+      }
+
       // @ts-ignore: Bypass TypeScript errors for Prisma client
       const updatedAppointment = await prisma.appointment.update({
         where: { id: appointmentId },
         data: {
           ...(status && { status: status as any }),
-          ...(doctorId && { doctorId }),
-          ...(scheduledDate && { scheduledDate: new Date(scheduledDate) }),
+          ...(isStaff && doctorId && { doctorId }),
         },
         include: {
           hospital: true,
@@ -193,6 +234,8 @@ export async function PATCH(
       });
 
       console.log(`✅ Appointment updated successfully: ${appointmentId}`);
+      await audit({ patientId: appointment.userId, resourceId: appointmentId });
+      await notifyIfConfirmed();
       
       // Set response headers
       const response = NextResponse.json(updatedAppointment);
@@ -215,4 +258,4 @@ export async function PATCH(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
@@ -1,18 +1,14 @@
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
 import prisma from "@/lib/prisma";
+import { withPermission } from "@/lib/routeAuth";
 import { analyzeSymptoms } from "@/services/ai";
+import { fallbackTriage, triageToColumns } from "@/services/triage";
+import { toLocale } from "@/lib/i18n";
+import { createAppointmentInSlot, SlotUnavailableError } from "@/services/scheduling";
 
 // GET - Fetch appointments (different behavior based on user role)
-export async function GET(req: Request) {
+export const GET = withPermission("appointment", "read", async (req, { session, audit }) => {
   try {
-    const session = await getServerSession(authOptions);
-
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
     console.log("Appointments API - User session:", {
       id: session.user.id,
       role: session.user.role,
@@ -129,6 +125,8 @@ export async function GET(req: Request) {
           }
           return appointment;
         });
+
+        await audit(appointments.map((appointment: { id: string; userId: string }) => ({ patientId: appointment.userId, resourceId: appointment.id })));
         
         // Return with cache control headers for better performance
         const response = NextResponse.json({
@@ -226,36 +224,21 @@ export async function GET(req: Request) {
       { status: 500 }
     );
   }
-}
+});
 
 // POST - Create a new appointment
-export async function POST(req: Request) {
+export const POST = withPermission("appointment", "create", async (req, { session }) => {
   try {
-    const session = await getServerSession(authOptions);
-
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    console.log("Creating appointment - Session details:", {
-      id: session?.user?.id,
-      email: session?.user?.email,
-      role: session?.user?.role,
-      sessionObject: JSON.stringify(session)
-    });
-    
-    if (!session.user || !session.user.id) {
-      console.error("Invalid session structure - missing user ID:", session);
-      return NextResponse.json(
-        { error: "Authentication error: Invalid session structure. Please log out and log in again." },
-        { status: 401 }
-      );
-    }
-
     console.log("Creating appointment for user:", session.user.id);
     
     const body = await req.json();
     let { hospitalId, preferredDate, symptoms } = body;
+    // Optional: book straight into an open slot (see /api/hospitals/[id]/slots)
+    const { doctorId: slotDoctorId, slotStart } = body;
+
+    if (slotStart && !preferredDate) {
+      preferredDate = slotStart;
+    }
 
     if (!hospitalId || !preferredDate || !symptoms) {
       return NextResponse.json(
@@ -343,91 +326,83 @@ export async function POST(req: Request) {
     let aiAnalysisResult;
     try {
       console.log("Starting symptom analysis");
-      aiAnalysisResult = await analyzeSymptoms(symptoms);
+      aiAnalysisResult = await analyzeSymptoms(symptoms, toLocale(session.user.language));
       console.log("Symptom analysis complete:", {
-        severity: aiAnalysisResult.severity,
+        severity: aiAnalysisResult.triage.severity,
+        specialty: aiAnalysisResult.triage.specialty,
         analysisLength: aiAnalysisResult.analysis?.length || 0
       });
     } catch (analysisError) {
       console.error("AI analysis error:", analysisError);
       // Use a fallback if AI fails
-      aiAnalysisResult = {
-        severity: 3,
-        analysis: "1. Initial Assessment: Patient symptoms require medical attention.\n2. Severity: 3/10\n3. Priority Level: Medium\n4. Possible Conditions: To be determined by medical staff\n5. Recommendation: Please consult with a doctor for proper diagnosis.\n6. Specialist Recommendation: General Practitioner"
-      };
+      aiAnalysisResult = fallbackTriage("Patient symptoms require medical attention", 3);
       console.log("Using fallback analysis due to error");
     }
     
-    // Determine specialty from AI analysis for auto-assignment
-    let recommendedSpecialty = "General Medicine"; // Default specialty
+    // Use the triage specialty for auto-assignment
+    const recommendedSpecialty = aiAnalysisResult.triage.specialty;
     let doctorId = null;
     
-    try {
-      // Extract specialty from AI analysis
-      const analysis = aiAnalysisResult.analysis.toLowerCase();
-      
-      // Look for direct specialty recommendations in the analysis
-      const specialtyMatch = analysis.match(/specialist recommendation:?\s*([a-zA-Z\s]+)(?:\.|$|\n)/i);
-      if (specialtyMatch && specialtyMatch[1]) {
-        recommendedSpecialty = specialtyMatch[1].trim();
-      } else {
-        // Map common conditions to specialties
-        if (analysis.includes('heart') || analysis.includes('chest pain') || analysis.includes('cardiac')) {
-          recommendedSpecialty = 'Cardiology';
-        } else if (analysis.includes('brain') || analysis.includes('headache') || analysis.includes('neural') || 
-                analysis.includes('seizure') || analysis.includes('stroke')) {
-          recommendedSpecialty = 'Neurology';
-        } else if (analysis.includes('bone') || analysis.includes('fracture') || analysis.includes('joint') || 
-                analysis.includes('sprain')) {
-          recommendedSpecialty = 'Orthopedics';
-        } else if (analysis.includes('child') || analysis.includes('infant') || analysis.includes('pediatric')) {
-          recommendedSpecialty = 'Pediatrics';
-        } else if (analysis.includes('skin') || analysis.includes('rash') || analysis.includes('acne')) {
-          recommendedSpecialty = 'Dermatology';
-        } else if (analysis.includes('eye') || analysis.includes('vision') || analysis.includes('sight')) {
-          recommendedSpecialty = 'Ophthalmology';
-        } else if (analysis.includes('mental') || analysis.includes('anxiety') || analysis.includes('depression')) {
-          recommendedSpecialty = 'Psychiatry';
-        } else if (analysis.includes('emergency') || analysis.includes('urgent') || analysis.includes('critical')) {
-          recommendedSpecialty = 'Emergency Medicine';
-        }
+    if (slotStart) {
+      // The patient picked a doctor's slot: make sure that doctor works here
+      if (!slotDoctorId) {
+        return NextResponse.json(
+          { error: "A doctor is required when booking a slot" },
+          { status: 400 }
+        );
       }
-      
-      console.log(`Determined specialty from analysis: ${recommendedSpecialty}`);
-      
-      // Try to find an available doctor with the matching specialty
-      // @ts-ignore: Bypass TypeScript errors for Prisma client
-      const doctor = await prisma.doctor.findFirst({
-        where: {
-          hospitalId,
-          specialty: recommendedSpecialty,
-          available: true
-        }
+
+      const slotDoctor = await prisma.doctor.findFirst({
+        where: { id: slotDoctorId, hospitalId },
+        select: { id: true }
       });
+
+      if (!slotDoctor) {
+        return NextResponse.json(
+          { error: "The selected doctor does not work at this hospital" },
+          { status: 400 }
+        );
+      }
+
+      doctorId = slotDoctor.id;
+    } else {
+      try {
+        console.log(`Determined specialty from analysis: ${recommendedSpecialty}`);
       
-      if (doctor) {
-        doctorId = doctor.id;
-        console.log(`Auto-assigned doctor: ${doctor.name} (${doctor.specialty})`);
-      } else {
-        // If no doctor with matching specialty is available, try to find any available doctor
+        // Try to find an available doctor with the matching specialty
         // @ts-ignore: Bypass TypeScript errors for Prisma client
-        const anyDoctor = await prisma.doctor.findFirst({
+        const doctor = await prisma.doctor.findFirst({
           where: {
             hospitalId,
+            specialty: recommendedSpecialty,
             available: true
           }
         });
-        
-        if (anyDoctor) {
-          doctorId = anyDoctor.id;
-          console.log(`No ${recommendedSpecialty} specialist available. Auto-assigned available doctor: ${anyDoctor.name} (${anyDoctor.specialty})`);
+      
+        if (doctor) {
+          doctorId = doctor.id;
+          console.log(`Auto-assigned doctor: ${doctor.name} (${doctor.specialty})`);
         } else {
-          console.log("No available doctors found for auto-assignment");
+          // If no doctor with matching specialty is available, try to find any available doctor
+          // @ts-ignore: Bypass TypeScript errors for Prisma client
+          const anyDoctor = await prisma.doctor.findFirst({
+            where: {
+              hospitalId,
+              available: true
+            }
+          });
+        
+          if (anyDoctor) {
+            doctorId = anyDoctor.id;
+            console.log(`No ${recommendedSpecialty} specialist available. Auto-assigned available doctor: ${anyDoctor.name} (${anyDoctor.specialty})`);
+          } else {
+            console.log("No available doctors found for auto-assignment");
+          }
         }
+      } catch (autoAssignError) {
+        console.error("Error during doctor auto-assignment:", autoAssignError);
+        // Continue without auto-assignment if it fails
       }
-    } catch (autoAssignError) {
-      console.error("Error during doctor auto-assignment:", autoAssignError);
-      // Continue without auto-assignment if it fails
     }
     
     // Extra validation for date to ensure it's properly parsed
@@ -476,8 +451,9 @@ export async function POST(req: Request) {
         hospitalId,
         preferredDate: parsedDate,
         symptoms,
+        ...triageToColumns(aiAnalysisResult.triage),
         aiAnalysis: aiAnalysisResult.analysis,
-        severity: aiAnalysisResult.severity,
+        patientAnalysis: aiAnalysisResult.patientAnalysis,
         status: "PENDING",
         doctorId: doctorId,
       };
@@ -516,6 +492,39 @@ export async function POST(req: Request) {
         // Try creating the appointment with a more specific approach to catch schema errors
         console.log("Attempting to create appointment with explicit fields");
         
+        if (slotStart) {
+          const booked = await createAppointmentInSlot({
+            userId: appointmentData.userId,
+            hospitalId: appointmentData.hospitalId,
+            preferredDate: appointmentData.preferredDate,
+            symptoms: appointmentData.symptoms,
+            aiAnalysis: appointmentData.aiAnalysis,
+            patientAnalysis: appointmentData.patientAnalysis,
+            condition: appointmentData.condition,
+            severity: appointmentData.severity,
+            priority: appointmentData.priority,
+            specialty: appointmentData.specialty,
+            redFlags: appointmentData.redFlags,
+            recommendedActions: appointmentData.recommendedActions,
+            status: "PENDING"
+          }, doctorId as string, parsedDate);
+
+          console.log(`Appointment ${booked.id} booked into slot ${booked.scheduledDate?.toISOString()} with ${booked.doctor?.name}`);
+
+          return NextResponse.json({
+            id: booked.id,
+            status: booked.status,
+            preferredDate: booked.preferredDate,
+            scheduledDate: booked.scheduledDate,
+            slotEnd: booked.slotEnd,
+            doctorId: booked.doctorId,
+            severity: booked.severity,
+            priority: booked.priority,
+            specialty: booked.specialty,
+            createdAt: booked.createdAt
+          });
+        }
+        
         // @ts-ignore: Bypass TypeScript errors for Prisma client
         const appointment = await prisma.appointment.create({
           data: {
@@ -524,7 +533,13 @@ export async function POST(req: Request) {
             preferredDate: appointmentData.preferredDate,
             symptoms: appointmentData.symptoms,
             aiAnalysis: appointmentData.aiAnalysis,
+            patientAnalysis: appointmentData.patientAnalysis,
+            condition: appointmentData.condition,
             severity: appointmentData.severity,
+            priority: appointmentData.priority,
+            specialty: appointmentData.specialty,
+            redFlags: appointmentData.redFlags,
+            recommendedActions: appointmentData.recommendedActions,
             status: "PENDING",
             doctorId: appointmentData.doctorId,
           },
@@ -534,6 +549,8 @@ export async function POST(req: Request) {
             status: true,
             preferredDate: true,
             severity: true,
+            priority: true,
+            specialty: true,
             createdAt: true
           }
         });
@@ -573,6 +590,10 @@ export async function POST(req: Request) {
         
         return response;
       } catch (dbError: any) {
+        if (dbError instanceof SlotUnavailableError) {
+          return NextResponse.json({ error: dbError.message }, { status: 409 });
+        }
+        
         console.error("Database error creating appointment:", dbError);
         console.error("Error details:", {
           name: dbError.name,
@@ -638,4 +659,4 @@ export async function POST(req: Request) {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+});
\ No newline at end of file
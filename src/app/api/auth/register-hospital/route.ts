@@ -49,6 +49,7 @@ export async function POST(req: NextRequest) {
             address: `${address}, ${pincode}`,
             state,
             city,
+            pincode,
           },
         });
         
@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { forbidden, withPermission } from "@/lib/routeAuth";
+import { getChatAction, InvalidChatActionTransitionError, updateChatAction } from "@/services/chatActions";
+
+// Schema for what the user reports about an action the assistant proposed
+const chatActionUpdateSchema = z.discriminatedUnion("status", [
+  z.object({ status: z.literal("CONFIRMED") }),
+  z.object({ status: z.literal("CANCELLED") }),
+  z.object({
+    status: z.literal("DONE"),
+    result: z.object({
+      summary: z.string().trim().min(1).max(200),
+      items: z.array(z.string().max(300)).max(50).optional()
+    })
+  }),
+  z.object({ status: z.literal("FAILED"), error: z.string().trim().min(1).max(500) })
+]);
+
+// PATCH - Confirm or cancel an action the assistant proposed, then report how it went
+export const PATCH = withPermission<{ id: string }>("chatSession", "update", async (request, { params, can }) => {
+  try {
+    const action = await getChatAction(params.id);
+
+    if (!action) {
+      return NextResponse.json({ error: "Action not found" }, { status: 404 });
+    }
+
+    if (!can({ userId: action.userId })) {
+      return forbidden("Access denied");
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const parseResult = chatActionUpdateSchema.safeParse(body);
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: parseResult.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const update = parseResult.data;
+    const card = await updateChatAction(params.id, update.status, {
+      result: update.status === "DONE" ? update.result : undefined,
+      error: update.status === "FAILED" ? update.error : undefined
+    });
+
+    if (!card) {
+      return NextResponse.json({ error: "Action not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(card);
+  } catch (error) {
+    if (error instanceof InvalidChatActionTransitionError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    console.error("Error updating chat action:", error);
+    return NextResponse.json(
+      { error: "Failed to update the action" },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,80 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getServerSession } from 'next-auth';
+import { startTestDatabase } from '@/test/database';
+import type { TestDatabase } from '@/test/database';
+import { streamChatResponse } from '@/services/gemini';
+import { POST } from './route';
+
+vi.mock('next-auth', async importOriginal => ({
+  ...await importOriginal<typeof import('next-auth')>(),
+  getServerSession: vi.fn()
+}));
+
+vi.mock('@/lib/auth', () => ({ authOptions: {} }));
+
+vi.mock('@/lib/prisma', () => import('@/test/database'));
+
+// The assistant answers every prompt the same way
+vi.mock('@/services/gemini', () => ({
+  streamChatResponse: vi.fn(async function* () {
+    yield 'Rest and drink fluids.';
+  }),
+  generateChatResponse: vi.fn(async () => 'Fever')
+}));
+
+describe('POST /api/chat', () => {
+  let database: TestDatabase;
+
+  beforeAll(async () => {
+    database = await startTestDatabase();
+  });
+
+  afterAll(async () => {
+    await database.stop();
+  });
+
+  beforeEach(async () => {
+    await database.reset();
+    vi.mocked(streamChatResponse).mockClear();
+    vi.mocked(getServerSession).mockResolvedValue(null);
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  async function ask(body: Record<string, unknown>) {
+    const response = await POST(
+      new Request('http://localhost/api/chat', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ message: 'I have a fever', ...body })
+      }),
+      { params: {} }
+    );
+    expect(response.status).toBe(200);
+  }
+
+  // The PATIENT PROFILE section of the prompt the assistant was given
+  function promptedProfile() {
+    const [[{ prompt }]] = vi.mocked(streamChatResponse).mock.calls;
+    return JSON.parse(prompt.split('PATIENT PROFILE:\n')[1].split('\n\n')[0]);
+  }
+
+  it('describes a signed-in user from their account, not from the request', async () => {
+    const user = await database.prisma.user.create({
+      data: { email: 'asha@example.com', name: 'Asha Rao', gender: 'female', state: 'Maharashtra' }
+    });
+    vi.mocked(getServerSession).mockResolvedValue({
+      user: { id: user.id, email: user.email, role: 'USER', hospital: null },
+      expires: new Date(Date.now() + 60 * 60 * 1000).toISOString()
+    });
+
+    await ask({ userProfile: { name: 'Someone Else', email: 'other@example.com', state: 'Kerala' } });
+
+    expect(promptedProfile()).toMatchObject({ name: 'Asha Rao', email: 'asha@example.com', gender: 'female', state: 'Maharashtra' });
+  });
+
+  it('uses the profile in the request for anonymous chats', async () => {
+    await ask({ userProfile: { name: 'Guest', email: 'guest@example.com', state: 'Kerala' } });
+
+    expect(promptedProfile()).toMatchObject({ name: 'Guest', email: 'guest@example.com', state: 'Kerala' });
+  });
+});
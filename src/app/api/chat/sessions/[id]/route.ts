@@ -0,0 +1,90 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { forbidden, withPermission } from "@/lib/routeAuth";
+import { deleteChatSession, getChatSession, renameChatSession } from "@/services/chatSessions";
+
+// Schema for renaming a conversation
+const renameSessionSchema = z.object({
+  title: z.string().trim().min(1, "Title is required").max(100)
+});
+
+// GET - A conversation with all its messages
+export const GET = withPermission<{ id: string }>("chatSession", "read", async (request, { params, can }) => {
+  try {
+    const session = await getChatSession(params.id);
+
+    if (!session) {
+      return NextResponse.json({ error: "Conversation not found" }, { status: 404 });
+    }
+
+    if (!can({ userId: session.userId })) {
+      return forbidden("Access denied");
+    }
+
+    return NextResponse.json(session);
+  } catch (error) {
+    console.error("Error fetching chat session:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch the conversation" },
+      { status: 500 }
+    );
+  }
+});
+
+// PATCH - Rename a conversation
+export const PATCH = withPermission<{ id: string }>("chatSession", "update", async (request, { params, can }) => {
+  try {
+    const session = await getChatSession(params.id);
+
+    if (!session) {
+      return NextResponse.json({ error: "Conversation not found" }, { status: 404 });
+    }
+
+    if (!can({ userId: session.userId })) {
+      return forbidden("Access denied");
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const parseResult = renameSessionSchema.safeParse(body);
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: parseResult.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const renamed = await renameChatSession(params.id, parseResult.data.title);
+    return NextResponse.json(renamed);
+  } catch (error) {
+    console.error("Error renaming chat session:", error);
+    return NextResponse.json(
+      { error: "Failed to rename the conversation" },
+      { status: 500 }
+    );
+  }
+});
+
+// DELETE - Delete a conversation and its messages
+export const DELETE = withPermission<{ id: string }>("chatSession", "delete", async (request, { params, can }) => {
+  try {
+    const session = await getChatSession(params.id);
+
+    if (!session) {
+      return NextResponse.json({ error: "Conversation not found" }, { status: 404 });
+    }
+
+    if (!can({ userId: session.userId })) {
+      return forbidden("Access denied");
+    }
+
+    await deleteChatSession(params.id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting chat session:", error);
+    return NextResponse.json(
+      { error: "Failed to delete the conversation" },
+      { status: 500 }
+    );
+  }
+});
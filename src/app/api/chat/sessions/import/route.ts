@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { withPermission } from "@/lib/routeAuth";
+import { importChatSessions } from "@/services/chatSessions";
+
+const timestampSchema = z.string().refine(value => !Number.isNaN(Date.parse(value)), "Invalid timestamp");
+
+// Schema for conversations kept in the browser's localStorage
+const importSchema = z.object({
+  conversations: z.array(z.object({
+    id: z.string().min(1).max(100),
+    title: z.string().max(100),
+    messages: z.array(z.object({
+      role: z.enum(["user", "assistant"]),
+      content: z.string().max(20000),
+      timestamp: timestampSchema
+    })).max(500),
+    lastUpdated: timestampSchema
+  })).max(50)
+});
+
+// POST - Store the conversations the browser kept before they were saved to the account
+export const POST = withPermission("chatSession", "create", async (request, { user }) => {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const parseResult = importSchema.safeParse(body);
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: parseResult.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const imported = await importChatSessions(user.id, parseResult.data.conversations);
+    return NextResponse.json({ imported });
+  } catch (error) {
+    console.error("Error importing chat sessions:", error);
+    return NextResponse.json(
+      { error: "Failed to import conversations" },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { withPermission } from "@/lib/routeAuth";
+import { createChatSession, deleteChatSessions, listChatSessions } from "@/services/chatSessions";
+
+// Schema for starting a conversation; it is titled after its first question
+const createSessionSchema = z.object({
+  title: z.string().trim().min(1).max(100).optional()
+});
+
+// GET - The signed-in user's conversations, most recent first (?q to search titles and messages)
+export const GET = withPermission("chatSession", "read", async (request, { user }) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const sessions = await listChatSessions(user.id, searchParams.get("q")?.slice(0, 100));
+    return NextResponse.json({ sessions });
+  } catch (error) {
+    console.error("Error fetching chat sessions:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch conversations" },
+      { status: 500 }
+    );
+  }
+});
+
+// POST - Start a conversation
+export const POST = withPermission("chatSession", "create", async (request, { user }) => {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const parseResult = createSessionSchema.safeParse(body);
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: parseResult.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const session = await createChatSession(user.id, parseResult.data.title);
+    return NextResponse.json(session, { status: 201 });
+  } catch (error) {
+    console.error("Error creating chat session:", error);
+    return NextResponse.json(
+      { error: "Failed to start the conversation" },
+      { status: 500 }
+    );
+  }
+});
+
+// DELETE - Delete all of the signed-in user's conversations
+export const DELETE = withPermission("chatSession", "delete", async (request, { user }) => {
+  try {
+    const deleted = await deleteChatSessions(user.id);
+    return NextResponse.json({ deleted });
+  } catch (error) {
+    console.error("Error deleting chat sessions:", error);
+    return NextResponse.json(
+      { error: "Failed to delete conversations" },
+      { status: 500 }
+    );
+  }
+});
@@ -1,7 +1,8 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/routeAuth";
 
-export async function GET() {
+export const GET = withPermission("debug", "read", async () => {
   try {
     console.log("Testing database connection...");
     
@@ -32,4 +33,4 @@ export async function GET() {
       timestamp: new Date().toISOString()
     }, { status: 500 });
   }
-} 
\ No newline at end of file
+});
\ No newline at end of file
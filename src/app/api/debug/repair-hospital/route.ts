@@ -1,24 +1,9 @@
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
 import prisma from "@/lib/prisma";
+import { withPermission } from "@/lib/routeAuth";
 
-export async function GET(req: Request) {
+export const GET = withPermission("debug", "read", async (req, { session }) => {
   try {
-    const session = await getServerSession(authOptions);
-
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    // Only hospital admins or system admins can use this endpoint
-    if (session.user.role !== "HOSPITAL" && session.user.role !== "ADMIN") {
-      return NextResponse.json(
-        { error: "Access denied" },
-        { status: 403 }
-      );
-    }
-
     // Get the user's current hospital association
     const user = await prisma.user.findUnique({
       where: { id: session.user.id },
@@ -84,24 +69,10 @@ export async function GET(req: Request) {
       { status: 500 }
     );
   }
-}
+});
 
-export async function POST(req: Request) {
+export const POST = withPermission("debug", "update", async (req) => {
   try {
-    const session = await getServerSession(authOptions);
-
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    // Only hospital admins or system admins can use this endpoint
-    if (session.user.role !== "ADMIN") {
-      return NextResponse.json(
-        { error: "Only system administrators can perform hospital repairs" },
-        { status: 403 }
-      );
-    }
-
     const body = await req.json();
     const { userId, hospitalId } = body;
 
@@ -149,4 +120,4 @@ export async function POST(req: Request) {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+});
\ No newline at end of file
@@ -1,7 +1,6 @@
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
 import prisma from "@/lib/prisma";
+import { withPermission } from "@/lib/routeAuth";
 
 // Sample hospitals data covering multiple states
 const sampleHospitals = [
@@ -150,22 +149,8 @@ const sampleHospitals = [
 ];
 
 // POST - Seed hospitals if none exist
-export async function POST(req: Request) {
+export const POST = withPermission("debug", "create", async (req) => {
   try {
-    // Authenticate the request
-    const session = await getServerSession(authOptions);
-
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    // Only allow admins to seed data
-    if (session.user.role !== "ADMIN") {
-      console.log(`User with role ${session.user.role} is attempting to seed hospitals - for debugging, we'll allow this`);
-      // For debugging purposes, we'll allow this for now
-      // return NextResponse.json({ error: "Only admins can seed data" }, { status: 403 });
-    }
-
     const url = new URL(req.url);
     const override = url.searchParams.get("override") === "true";
     
@@ -229,4 +214,4 @@ export async function POST(req: Request) {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+});
\ No newline at end of file
@@ -0,0 +1,119 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getServerSession } from 'next-auth';
+import { startTestDatabase } from '@/test/database';
+import type { TestDatabase } from '@/test/database';
+import type { Role } from '@/lib/permissions';
+import { GET } from './route';
+
+vi.mock('next-auth', async importOriginal => ({
+  ...await importOriginal<typeof import('next-auth')>(),
+  getServerSession: vi.fn()
+}));
+
+vi.mock('@/lib/auth', () => ({ authOptions: {} }));
+
+vi.mock('@/lib/prisma', () => import('@/test/database'));
+
+describe('GET /api/fhir/Patient/[id]/$everything', () => {
+  let database: TestDatabase;
+  let patientId: string;
+  let cityHospitalId: string;
+  let ruralHospitalId: string;
+
+  beforeAll(async () => {
+    database = await startTestDatabase();
+  });
+
+  afterAll(async () => {
+    await database.stop();
+  });
+
+  beforeEach(async () => {
+    await database.reset();
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const patient = await database.prisma.user.create({ data: { email: 'patient@example.com', name: 'Asha Rao' } });
+    const [city, rural] = await Promise.all([
+      database.prisma.hospital.create({ data: { name: 'City Hospital', state: 'Maharashtra' } }),
+      database.prisma.hospital.create({ data: { name: 'Rural Hospital', state: 'Maharashtra' } })
+    ]);
+    patientId = patient.id;
+    cityHospitalId = city.id;
+    ruralHospitalId = rural.id;
+  });
+
+  function signedInAs(role: Role, id: string, hospital: string | null = null) {
+    vi.mocked(getServerSession).mockResolvedValue({
+      user: { id, email: `${id}@example.com`, role, hospital },
+      expires: new Date(Date.now() + 60 * 60 * 1000).toISOString()
+    });
+  }
+
+  async function exportRecord(id = patientId) {
+    const response = await GET(
+      new Request(`http://localhost/api/fhir/Patient/${id}/$everything`),
+      { params: { id } }
+    );
+    return { status: response.status, body: await response.json() };
+  }
+
+  function resourceTypes(bundle: { entry?: { resource: { resourceType: string } }[] }) {
+    return (bundle.entry ?? []).map(entry => entry.resource.resourceType);
+  }
+
+  it('lets hospital staff export a patient with a report at their hospital', async () => {
+    const receipt = await database.prisma.receipt.create({
+      data: { userId: patientId, hospitalId: cityHospitalId, status: 'COMPLETED', condition: 'Migraine' }
+    });
+    signedInAs('HOSPITAL', 'staff-1', cityHospitalId);
+
+    const { status, body } = await exportRecord();
+
+    expect(status).toBe(200);
+    expect(resourceTypes(body)).toEqual(['Patient', 'Organization', 'DiagnosticReport', 'Condition']);
+    await expect(database.prisma.auditLog.findMany({ where: { patientId }, select: { resource: true, resourceId: true } }))
+      .resolves.toEqual(expect.arrayContaining([{ resource: 'receipt', resourceId: receipt.id }]));
+  });
+
+  it('lets hospital staff export a patient with an appointment at their hospital', async () => {
+    await database.prisma.appointment.create({
+      data: { userId: patientId, hospitalId: cityHospitalId, symptoms: 'Headache', preferredDate: new Date() }
+    });
+    signedInAs('HOSPITAL', 'staff-1', cityHospitalId);
+
+    const { status, body } = await exportRecord();
+
+    expect(status).toBe(200);
+    expect(resourceTypes(body)).toEqual(['Patient', 'Organization', 'Appointment']);
+  });
+
+  it('refuses hospital staff a patient who has no report or appointment at their hospital', async () => {
+    await database.prisma.receipt.create({
+      data: { userId: patientId, hospitalId: cityHospitalId, status: 'COMPLETED' }
+    });
+    signedInAs('HOSPITAL', 'staff-2', ruralHospitalId);
+
+    const { status, body } = await exportRecord();
+
+    expect(status).toBe(403);
+    expect(body).toMatchObject({ resourceType: 'OperationOutcome', issue: [{ code: 'forbidden' }] });
+    await expect(database.prisma.auditLog.count()).resolves.toBe(0);
+  });
+
+  it('refuses hospital staff without a hospital', async () => {
+    await database.prisma.receipt.create({
+      data: { userId: patientId, hospitalId: cityHospitalId, status: 'COMPLETED' }
+    });
+    signedInAs('HOSPITAL', 'staff-3');
+
+    await expect(exportRecord()).resolves.toMatchObject({ status: 403 });
+  });
+
+  it('lets patients export only their own record', async () => {
+    signedInAs('USER', patientId);
+    await expect(exportRecord()).resolves.toMatchObject({ status: 200 });
+
+    signedInAs('USER', 'someone-else');
+    await expect(exportRecord()).resolves.toMatchObject({ status: 403 });
+  });
+});
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { withPermission } from "@/lib/routeAuth";
+import { BundleSchema, FHIR_JSON, isHospitalPatient, operationOutcome, patientEverything, validationOutcome } from "@/services/fhir";
+
+// GET - A patient's record as a FHIR R4 searchset Bundle. Hospital staff may
+// read the record of a patient with a report or appointment at their
+// hospital, and get only the records filed with it.
+export const GET = withPermission<{ id: string }>("healthRecord", "read", async (request, { params, user, can, audit }) => {
+  const headers = { "Content-Type": FHIR_JSON };
+
+  try {
+    const patientId = params.id;
+
+    const allowed = user.role === "HOSPITAL"
+      ? !!user.hospital && await isHospitalPatient(user.hospital, patientId)
+      : can({ userId: patientId });
+
+    if (!allowed) {
+      return NextResponse.json(
+        operationOutcome("error", "forbidden", "You may not read this patient's record"),
+        { status: 403, headers }
+      );
+    }
+
+    const baseUrl = `${new URL(request.url).origin}/api/fhir`;
+    const scope = user.role === "HOSPITAL" && user.hospital ? { hospitalId: user.hospital } : {};
+    const result = await patientEverything(patientId, baseUrl, scope);
+
+    if (!result) {
+      return NextResponse.json(
+        operationOutcome("error", "not-found", `Patient/${patientId} not found`),
+        { status: 404, headers }
+      );
+    }
+
+    // Our own export must be valid FHIR; a failure here is a mapping bug
+    const check = BundleSchema.safeParse(result.bundle);
+    if (!check.success) {
+      console.error(`❌ Invalid FHIR export for patient ${patientId}:`, check.error.issues);
+      return NextResponse.json(validationOutcome(check.error), { status: 500, headers });
+    }
+
+    await audit(result.records.map(record => ({ patientId, ...record })));
+
+    return NextResponse.json(result.bundle, { headers });
+  } catch (error) {
+    console.error("Error exporting FHIR record:", error);
+    return NextResponse.json(
+      operationOutcome("fatal", "exception", "Failed to export the record"),
+      { status: 500, headers }
+    );
+  }
+});
@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { withPermission } from "@/lib/routeAuth";
+import {
+  BundleSchema,
+  FHIR_JSON,
+  importBundle,
+  InvalidImportError,
+  operationOutcome,
+  validationOutcome
+} from "@/services/fhir";
+
+// POST - Import a FHIR R4 Bundle into the signed-in patient's record
+export const POST = withPermission("healthRecord", "create", async (request, { user }) => {
+  const headers = { "Content-Type": FHIR_JSON };
+
+  try {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        operationOutcome("error", "structure", "The request body is not valid JSON"),
+        { status: 400, headers }
+      );
+    }
+
+    const parseResult = BundleSchema.safeParse(body);
+
+    if (!parseResult.success) {
+      return NextResponse.json(validationOutcome(parseResult.error), { status: 400, headers });
+    }
+
+    const { bundle, created } = await importBundle(user.id, parseResult.data);
+
+    console.log(`📥 Imported ${created.length} record(s) from a FHIR ${parseResult.data.type} bundle for user ${user.id}`);
+    return NextResponse.json(bundle, { headers });
+  } catch (error) {
+    if (error instanceof InvalidImportError) {
+      return NextResponse.json(
+        operationOutcome("error", "invalid", error.message, error.expression),
+        { status: 400, headers }
+      );
+    }
+
+    console.error("Error importing FHIR bundle:", error);
+    return NextResponse.json(
+      operationOutcome("fatal", "exception", "Failed to import the bundle"),
+      { status: 500, headers }
+    );
+  }
+});
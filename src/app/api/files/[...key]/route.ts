@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { localStorageDriver, verifyLocalSignature } from "@/services/storage";
+
+// GET - Serve a file from local storage. The signed URL is the credential:
+// it is only handed out after the viewer's permissions were checked.
+export async function GET(request: Request, { params }: { params: { key: string[] } }) {
+  try {
+    const key = params.key.join("/");
+    const { searchParams } = new URL(request.url);
+    const expires = Number(searchParams.get("expires"));
+    const signature = searchParams.get("signature") || "";
+
+    if (!verifyLocalSignature(key, expires, signature)) {
+      return NextResponse.json({ error: "This link is invalid or has expired" }, { status: 403 });
+    }
+
+    const file = await localStorageDriver.get(key);
+
+    if (!file) {
+      return NextResponse.json({ error: "File not found" }, { status: 404 });
+    }
+
+    return new NextResponse(new Uint8Array(file.data), {
+      headers: {
+        "Content-Type": file.contentType,
+        "Content-Length": String(file.data.length),
+        "Cache-Control": `private, max-age=${Math.max(0, expires - Math.floor(Date.now() / 1000))}`
+      }
+    });
+  } catch (error) {
+    console.error("Error serving stored file:", error);
+    return NextResponse.json(
+      { error: "Failed to load file" },
+      { status: 500 }
+    );
+  }
+}
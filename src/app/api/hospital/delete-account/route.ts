@@ -1,23 +1,10 @@
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
 import prisma from "@/lib/prisma";
+import { withPermission } from "@/lib/routeAuth";
 
 // DELETE - Delete hospital account and all associated data
-export async function DELETE(req: Request) {
+export const DELETE = withPermission("hospital", "delete", async (req, { session }) => {
   try {
-    // Authenticate the request
-    const session = await getServerSession(authOptions);
-
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    // Verify user is a hospital admin
-    if (session.user.role !== "HOSPITAL") {
-      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
-    }
-
     // Get the hospital ID and user ID from the session
     const hospitalId = session.user.hospital;
     const userId = session.user.id;
@@ -84,4 +71,4 @@ export async function DELETE(req: Request) {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+});
\ No newline at end of file
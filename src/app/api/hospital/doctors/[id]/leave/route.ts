@@ -0,0 +1,111 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+import { forbidden, withPermission } from "@/lib/routeAuth";
+import type { ResourceOwner } from "@/lib/permissions";
+import { addDoctorLeave, removeDoctorLeave } from "@/services/scheduling";
+
+// Schema for validating a leave entry
+const leaveSchema = z.object({
+  startsAt: z.string().datetime({ offset: true }),
+  endsAt: z.string().datetime({ offset: true }),
+  reason: z.string().max(200).nullish()
+});
+
+// Checks that the doctor belongs to the signed-in hospital
+async function authorizeDoctor(doctorId: string, can: (target: ResourceOwner) => boolean) {
+  const doctor = await prisma.doctor.findUnique({
+    where: { id: doctorId },
+    select: { hospitalId: true }
+  });
+
+  if (!doctor) {
+    return NextResponse.json({ error: "Doctor not found" }, { status: 404 });
+  }
+
+  if (!can({ hospitalId: doctor.hospitalId })) {
+    return forbidden("This doctor belongs to another hospital");
+  }
+
+  return null;
+}
+
+// POST - Record leave for a doctor
+export const POST = withPermission<{ id: string }>("doctor", "update", async (request, { params, can }) => {
+  try {
+    const denied = await authorizeDoctor(params.id, can);
+    if (denied) return denied;
+
+    const parseResult = leaveSchema.safeParse(await request.json());
+
+    if (!parseResult.success) {
+      console.error("Validation error:", parseResult.error.format());
+      return NextResponse.json(
+        { error: "Invalid leave", details: parseResult.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const startsAt = new Date(parseResult.data.startsAt);
+    const endsAt = new Date(parseResult.data.endsAt);
+
+    if (startsAt >= endsAt) {
+      return NextResponse.json(
+        { error: "Leave must end after it starts" },
+        { status: 400 }
+      );
+    }
+
+    const leave = await addDoctorLeave(params.id, {
+      startsAt,
+      endsAt,
+      reason: parseResult.data.reason
+    });
+
+    // Bookings already inside the leave are left for staff to move
+    const affected = await prisma.appointment.count({
+      where: {
+        doctorId: params.id,
+        status: { in: ["PENDING", "CONFIRMED"] },
+        scheduledDate: { lt: endsAt },
+        slotEnd: { gt: startsAt }
+      }
+    });
+
+    return NextResponse.json({ leave, affectedAppointments: affected }, { status: 201 });
+  } catch (error) {
+    console.error("Error adding doctor leave:", error);
+    return NextResponse.json(
+      { error: "Failed to add leave" },
+      { status: 500 }
+    );
+  }
+});
+
+// DELETE - Remove a leave entry (?leaveId=...)
+export const DELETE = withPermission<{ id: string }>("doctor", "update", async (request, { params, can }) => {
+  try {
+    const denied = await authorizeDoctor(params.id, can);
+    if (denied) return denied;
+
+    const leaveId = new URL(request.url).searchParams.get("leaveId");
+
+    if (!leaveId) {
+      return NextResponse.json({ error: "leaveId is required" }, { status: 400 });
+    }
+
+    const removed = await removeDoctorLeave(params.id, leaveId);
+
+    if (!removed) {
+      return NextResponse.json({ error: "Leave not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error removing doctor leave:", error);
+    return NextResponse.json(
+      { error: "Failed to remove leave" },
+      { status: 500 }
+    );
+  }
+});
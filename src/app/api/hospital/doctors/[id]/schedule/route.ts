@@ -0,0 +1,121 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { forbidden, withPermission } from "@/lib/routeAuth";
+import type { ResourceOwner } from "@/lib/permissions";
+import { formatTimeOfDay, parseTimeOfDay } from "@/lib/localTime";
+import { getDoctorSchedule, updateDoctorSchedule } from "@/services/scheduling";
+import type { ShiftInput } from "@/services/scheduling";
+
+// Schema for validating a doctor's weekly schedule
+const scheduleSchema = z.object({
+  slotMinutes: z.number().int().min(5, "Slots must be at least 5 minutes").max(240),
+  slotCapacity: z.number().int().min(1, "Each slot must take at least one patient").max(20),
+  shifts: z.array(z.object({
+    dayOfWeek: z.number().int().min(0).max(6),
+    startTime: z.string(),
+    endTime: z.string()
+  })).max(50)
+});
+
+type DoctorSchedule = NonNullable<Awaited<ReturnType<typeof getDoctorSchedule>>>;
+
+// Shift times are sent to the browser as "HH:MM"
+function serializeSchedule(schedule: DoctorSchedule) {
+  return {
+    ...schedule,
+    shifts: schedule.shifts.map((shift: ShiftInput & { id: string }) => ({
+      id: shift.id,
+      dayOfWeek: shift.dayOfWeek,
+      startTime: formatTimeOfDay(shift.startMinute),
+      endTime: formatTimeOfDay(shift.endMinute)
+    }))
+  };
+}
+
+// Loads the doctor if it belongs to the signed-in hospital
+async function loadOwnDoctor(doctorId: string, can: (target: ResourceOwner) => boolean) {
+  const schedule = await getDoctorSchedule(doctorId);
+
+  if (!schedule) {
+    return { error: NextResponse.json({ error: "Doctor not found" }, { status: 404 }) };
+  }
+
+  if (!can({ hospitalId: schedule.hospitalId })) {
+    return { error: forbidden("This doctor belongs to another hospital") };
+  }
+
+  return { schedule };
+}
+
+// GET - A doctor's slot settings, weekly shifts and upcoming leave
+export const GET = withPermission<{ id: string }>("doctor", "read", async (request, { params, can }) => {
+  try {
+    const { schedule, error } = await loadOwnDoctor(params.id, can);
+    if (error) return error;
+
+    return NextResponse.json(serializeSchedule(schedule));
+  } catch (error) {
+    console.error("Error fetching doctor schedule:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch doctor schedule" },
+      { status: 500 }
+    );
+  }
+});
+
+// PUT - Replace a doctor's slot settings and weekly shifts
+export const PUT = withPermission<{ id: string }>("doctor", "update", async (request, { params, can }) => {
+  try {
+    const { error } = await loadOwnDoctor(params.id, can);
+    if (error) return error;
+
+    const parseResult = scheduleSchema.safeParse(await request.json());
+
+    if (!parseResult.success) {
+      console.error("Validation error:", parseResult.error.format());
+      return NextResponse.json(
+        { error: "Invalid schedule", details: parseResult.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const { slotMinutes, slotCapacity } = parseResult.data;
+    const shifts: ShiftInput[] = [];
+
+    for (const shift of parseResult.data.shifts) {
+      const startMinute = parseTimeOfDay(shift.startTime);
+      const endMinute = parseTimeOfDay(shift.endTime);
+
+      if (startMinute === null || endMinute === null || startMinute >= endMinute) {
+        return NextResponse.json(
+          { error: `Invalid shift ${shift.startTime}-${shift.endTime}: use HH:MM and end after the start` },
+          { status: 400 }
+        );
+      }
+
+      const overlapping = shifts.find(other =>
+        other.dayOfWeek === shift.dayOfWeek && other.startMinute < endMinute && other.endMinute > startMinute
+      );
+
+      if (overlapping) {
+        return NextResponse.json(
+          { error: `Shift ${shift.startTime}-${shift.endTime} overlaps another shift on the same day` },
+          { status: 400 }
+        );
+      }
+
+      shifts.push({ dayOfWeek: shift.dayOfWeek, startMinute, endMinute });
+    }
+
+    const schedule = await updateDoctorSchedule(params.id, { slotMinutes, slotCapacity, shifts });
+    console.log(`Updated schedule for doctor ${params.id}: ${shifts.length} shifts, ${slotMinutes} min slots x ${slotCapacity}`);
+
+    return NextResponse.json(serializeSchedule(schedule));
+  } catch (error) {
+    console.error("Error updating doctor schedule:", error);
+    return NextResponse.json(
+      { error: "Failed to update doctor schedule" },
+      { status: 500 }
+    );
+  }
+});
@@ -1,22 +1,8 @@
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/routeAuth";
 
-export async function GET() {
-  const session = await getServerSession(authOptions);
-
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
-
-  if (session.user.role !== "HOSPITAL" && session.user.role !== "ADMIN") {
-    return NextResponse.json(
-      { error: "Only hospital administrators and admins can view doctors" },
-      { status: 403 }
-    );
-  }
-
+export const GET = withPermission("doctor", "read", async (request, { session }) => {
   try {
     // First, we need to find the hospital associated with this admin
     const user = await prisma.user.findUnique({
@@ -83,4 +69,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+});
\ No newline at end of file
@@ -1,30 +1,39 @@
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { z } from "zod";
 import prisma from "@/lib/prisma";
+import { scopeWhere } from "@/lib/permissions";
+import { forbidden, withPermission } from "@/lib/routeAuth";
+import { ALERT_STATUSES, responseMetrics, summarizeResponseTimes } from "@/lib/alertLifecycle";
+import type { AlertTimelineEntry, ResponseMetrics } from "@/lib/alertLifecycle";
+import { AlertAlreadyClaimedError, isOpenRecipient } from "@/services/emergencyEscalation";
+import { ALERT_EVENT_SELECT, InvalidAlertTransitionError, transitionAlert } from "@/services/emergencyAlerts";
+
+const statusUpdateSchema = z.object({
+  alertId: z.string().min(1),
+  status: z.enum(ALERT_STATUSES),
+  note: z.string().trim().max(1000).optional()
+});
 
 // GET - Fetch emergency alerts for a hospital
-export async function GET(req: Request) {
+export const GET = withPermission("emergencyAlert", "read", async (req, { user, audit }) => {
   try {
-    // Authenticate the request
-    const session = await getServerSession(authOptions);
-
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    // Verify user is a hospital
-    if (session.user.role !== "HOSPITAL") {
-      return NextResponse.json({ error: "Only hospitals can view emergency alerts" }, { status: 403 });
+    // Hospitals see their own alerts, admins every alert
+    const where = scopeWhere(user, "emergencyAlert", "read");
+
+    if (!where) {
+      return NextResponse.json(
+        { error: "Hospital ID not found in your profile" },
+        { status: 404 }
+      );
     }
 
-    const hospitalId = session.user.id;
+    // Hospitals also see alerts escalation broadcast to them until one claims it
+    const visibleWhere = where.hospitalId
+      ? { OR: [where, { recipients: { some: { hospitalId: where.hospitalId, closedAt: null } } }] }
+      : where;
 
-    // Get all emergency alerts for this hospital
     const emergencyAlerts = await prisma.emergencyAlert.findMany({
-      where: {
-        hospitalId: hospitalId,
-      },
+      where: visibleWhere,
       orderBy: {
         createdAt: 'desc'
       },
@@ -36,13 +45,29 @@ export async function GET(req: Request) {
             email: true,
             phone: true
           }
+        },
+        _count: {
+          select: { recipients: { where: { closedAt: null } } }
+        },
+        events: {
+          orderBy: { createdAt: 'asc' },
+          select: ALERT_EVENT_SELECT
         }
       }
     });
 
+    await audit(emergencyAlerts.map((alert: { id: string; userId: string }) => ({ patientId: alert.userId, resourceId: alert.id })));
+
+    // Response times from each alert's timeline
+    const alertsWithMetrics = emergencyAlerts.map((alert: { createdAt: Date; events: AlertTimelineEntry[] }) => ({
+      ...alert,
+      metrics: responseMetrics(alert.createdAt, alert.events)
+    }));
+
     return NextResponse.json({
       success: true,
-      emergencyAlerts
+      emergencyAlerts: alertsWithMetrics,
+      responseTimes: summarizeResponseTimes(alertsWithMetrics.map((alert: { metrics: ResponseMetrics }) => alert.metrics))
     });
   } catch (error) {
     console.error("Error fetching emergency alerts:", error);
@@ -54,30 +79,21 @@ export async function GET(req: Request) {
       { status: 500 }
     );
   }
-}
+});
 
-// PATCH - Update emergency alert status
-export async function PATCH(req: Request) {
+// PATCH - Move an emergency alert to its next status, with an optional note
+export const PATCH = withPermission("emergencyAlert", "update", async (req, { user, can, audit }) => {
   try {
-    // Authenticate the request
-    const session = await getServerSession(authOptions);
-
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+    const parseResult = statusUpdateSchema.safeParse(await req.json());
 
-    // Verify user is a hospital
-    if (session.user.role !== "HOSPITAL") {
-      return NextResponse.json({ error: "Only hospitals can update emergency alerts" }, { status: 403 });
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { error: "Invalid status update", details: parseResult.error.format() },
+        { status: 400 }
+      );
     }
 
-    const hospitalId = session.user.id;
-    const data = await req.json();
-    const { alertId, status } = data;
-
-    if (!alertId || !status) {
-      return NextResponse.json({ error: "Alert ID and status are required" }, { status: 400 });
-    }
+    const { alertId, status, note } = parseResult.data;
 
     // Verify the emergency alert belongs to this hospital
     const alert = await prisma.emergencyAlert.findUnique({
@@ -90,25 +106,32 @@ export async function PATCH(req: Request) {
       return NextResponse.json({ error: "Emergency alert not found" }, { status: 404 });
     }
 
-    if (alert.hospitalId !== hospitalId) {
-      return NextResponse.json({ error: "Unauthorized to update this alert" }, { status: 403 });
+    // Hospitals an alert was broadcast to may claim it by acknowledging it
+    const isOwner = can({ hospitalId: alert.hospitalId });
+    const mayClaim = !isOwner && status === "ACKNOWLEDGED" && alert.status === "PENDING" &&
+      !!user.hospital && can({ hospitalId: user.hospital }) && await isOpenRecipient(alert.id, user.hospital);
+
+    if (!isOwner && !mayClaim) {
+      return forbidden("Unauthorized to update this alert");
     }
 
-    // Update alert status
-    const updatedAlert = await prisma.emergencyAlert.update({
-      where: {
-        id: alertId
-      },
-      data: {
-        status
-      }
-    });
+    const updatedAlert = await transitionAlert(alertId, status, user, note || undefined);
+
+    if (!updatedAlert) {
+      return NextResponse.json({ error: "Emergency alert not found" }, { status: 404 });
+    }
+
+    await audit({ patientId: updatedAlert.userId, resourceId: updatedAlert.id });
 
     return NextResponse.json({
       success: true,
       alert: updatedAlert
     });
   } catch (error) {
+    if (error instanceof AlertAlreadyClaimedError || error instanceof InvalidAlertTransitionError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
     console.error("Error updating emergency alert:", error);
     return NextResponse.json(
       { 
@@ -118,4 +141,4 @@ export async function PATCH(req: Request) {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+});
\ No newline at end of file
@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { hospitalChannel } from "@/lib/events";
+import { withPermission } from "@/lib/routeAuth";
+import { createEventStream } from "@/lib/sse";
+
+// Streams must never be cached or statically rendered
+export const dynamic = "force-dynamic";
+
+// GET - Live queue and emergency alert updates for the signed-in hospital
+export const GET = withPermission("queue", "read", async (request, { session }) => {
+  const hospitalId = session.user.hospital;
+
+  if (!hospitalId) {
+    return NextResponse.json(
+      { error: "Hospital ID not found for this administrator" },
+      { status: 404 }
+    );
+  }
+
+  return createEventStream(request, [hospitalChannel(hospitalId)]);
+});
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { scopeWhere } from "@/lib/permissions";
+import { withPermission } from "@/lib/routeAuth";
+
+// GET - Reports whose analysis gave up after its last retry, for staff to re-run
+export const GET = withPermission("receipt", "update", async (request, { user, audit }) => {
+  try {
+    // Hospitals see their own reports, admins every report
+    const where = scopeWhere(user, "receipt", "update");
+
+    if (!where) {
+      return NextResponse.json(
+        { error: "Hospital ID not found in your profile" },
+        { status: 404 }
+      );
+    }
+
+    const analyses = await prisma.receipt.findMany({
+      where: { ...where, status: "FAILED" },
+      orderBy: { uploatedAt: "asc" },
+      select: {
+        id: true,
+        uploatedAt: true,
+        analysisError: true,
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true
+          }
+        },
+        _count: { select: { pages: true } }
+      }
+    });
+
+    await audit(analyses.map((item: { id: string; user: { id: string } }) => ({ patientId: item.user.id, resourceId: item.id })), "read");
+
+    return NextResponse.json({ analyses });
+  } catch (error) {
+    console.error("Error fetching failed analyses:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch failed analyses" },
+      { status: 500 }
+    );
+  }
+});
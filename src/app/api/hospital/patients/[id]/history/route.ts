@@ -1,22 +1,10 @@
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
 import prisma from "@/lib/prisma";
+import { withPermission } from "@/lib/routeAuth";
 
-export async function GET(
-  req: Request,
-  { params }: { params: { id: string } }
-) {
+export const GET = withPermission<{ id: string }>("patient", "read", async (req, { params, session, audit }) => {
   console.log("Patient history API called for user ID:", params.id);
   
-  const session = await getServerSession(authOptions);
-
-  // Check if user is authenticated and has hospital role
-  if (!session || session.user.role !== "HOSPITAL") {
-    console.log("Unauthorized access attempt to patient history, session:", session);
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
-
   const { id } = params;
 
   try {
@@ -47,6 +35,9 @@ export async function GET(
         severity: true,
         aiAnalysis: true,
         status: true,
+        imageKey: true,
+        thumbnailKey: true,
+        _count: { select: { pages: true } },
         doctor: {
           select: {
             id: true,
@@ -107,6 +98,12 @@ export async function GET(
     
     console.log(`Returning combined history with ${history.length} items`);
 
+    await audit(history.map(item => ({
+      patientId: id,
+      resource: item.type === 'REPORT' ? "receipt" : "appointment",
+      resourceId: item.id
+    })));
+
     return NextResponse.json({ history });
   } catch (error) {
     console.error("Error fetching patient history:", error);
@@ -115,4 +112,4 @@ export async function GET(
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+});
\ No newline at end of file
@@ -1,24 +1,17 @@
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { scopeWhere } from "@/lib/permissions";
+import { forbidden, withPermission } from "@/lib/routeAuth";
+import { isPatientOfHospital } from "@/services/hospital";
 
-export async function GET(
-  req: Request,
-  { params }: { params: { id: string } }
-) {
-  const session = await getServerSession(authOptions);
-
-  // Check if user is authenticated and has hospital role
-  if (!session || session.user.role !== "HOSPITAL") {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
-
+export const GET = withPermission<{ id: string }>("patient", "read", async (req, { params, user, audit }) => {
   const { id } = params;
 
   try {
+    const scope = scopeWhere(user, "patient", "read");
+
     // Make sure the hospital ID is available
-    if (!session.user.hospital) {
+    if (!scope) {
       return NextResponse.json(
         { error: "Hospital ID not found for this administrator" },
         { status: 403 }
@@ -54,6 +47,13 @@ export async function GET(
       );
     }
 
+    // Hospitals only see patients who booked or filed receipts with them
+    if (scope.hospitalId && !(await isPatientOfHospital(id, scope.hospitalId))) {
+      return forbidden("This patient has no records at your hospital");
+    }
+
+    await audit({ patientId: id, resource: "profile", resourceId: id });
+
     return NextResponse.json(patient);
   } catch (error) {
     console.error("Error fetching patient profile:", error);
@@ -62,4 +62,4 @@ export async function GET(
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+});
\ No newline at end of file
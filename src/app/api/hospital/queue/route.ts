@@ -1,30 +1,16 @@
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
 import prisma from "@/lib/prisma";
+import { withPermission } from "@/lib/routeAuth";
+import { estimateQueueWaitTimes } from "@/services/waitTime";
 
-export async function GET() {
+export const GET = withPermission("queue", "read", async (request, { session, audit }) => {
   try {
-    // Auth check
-    const session = await getServerSession(authOptions);
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
     console.log("Hospital Queue API - User session:", {
       id: session.user.id,
       role: session.user.role,
       hospital: session.user.hospital
     });
 
-    // Allow both HOSPITAL and ADMIN roles to access
-    if (session.user.role !== "HOSPITAL" && session.user.role !== "ADMIN") {
-      return NextResponse.json(
-        { error: "Only hospital administrators and admins can view this queue" },
-        { status: 403 }
-      );
-    }
-
     // Get hospital ID directly from session
     const hospitalId = session.user.hospital;
     
@@ -77,12 +63,22 @@ export async function GET() {
       
       console.log(`Found ${receipts.length} items in queue for hospital ${hospitalId}`);
       
+      // Wait estimates are a nice-to-have: never fail the queue because of them
+      const waitTimes = await estimateQueueWaitTimes(hospitalId).catch(waitTimeError => {
+        console.error("Error estimating wait times:", waitTimeError);
+        return new Map();
+      });
+
       // Re-assign queue positions to ensure correct numbering
       const sortedQueue = receipts.map((item: any, index: number) => ({
         ...item,
-        queuePosition: index + 1
+        queuePosition: index + 1,
+        waitTime: waitTimes.get(item.id) || null
       }));
 
+      // The queue shows each patient's AI analysis of their receipt
+      await audit(receipts.map((item: { id: string; user: { id: string } | null }) => ({ patientId: item.user?.id, resource: "receipt", resourceId: item.id })));
+
       return NextResponse.json(sortedQueue);
     } catch (queueError) {
       console.error("Database error fetching queue data:", queueError);
@@ -98,4 +94,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+});
\ No newline at end of file
@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { withPermission } from "@/lib/routeAuth";
+import { getScheduleBoard } from "@/services/scheduling";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// GET - Every doctor's slots and bookings for one day, plus appointments
+// that still need a slot (?date=YYYY-MM-DD)
+export const GET = withPermission("doctor", "read", async (request, { session }) => {
+  try {
+    const hospitalId = session.user.hospital;
+    if (!hospitalId) {
+      return NextResponse.json(
+        { error: "Hospital ID not found for this administrator" },
+        { status: 404 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const date = searchParams.get("date");
+
+    if (!date || !DATE_PATTERN.test(date)) {
+      return NextResponse.json(
+        { error: "A date in YYYY-MM-DD format is required" },
+        { status: 400 }
+      );
+    }
+
+    const [doctors, unscheduled] = await Promise.all([
+      getScheduleBoard(hospitalId, date),
+      prisma.appointment.findMany({
+        where: {
+          hospitalId,
+          status: { in: ["PENDING", "CONFIRMED"] },
+          scheduledDate: null
+        },
+        select: {
+          id: true,
+          status: true,
+          severity: true,
+          specialty: true,
+          preferredDate: true,
+          doctorId: true,
+          user: { select: { id: true, name: true } }
+        },
+        orderBy: [{ severity: "desc" }, { preferredDate: "asc" }]
+      })
+    ]);
+
+    return NextResponse.json({ date, doctors, unscheduled });
+  } catch (error) {
+    console.error("Error fetching hospital schedule:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch the schedule" },
+      { status: 500 }
+    );
+  }
+});
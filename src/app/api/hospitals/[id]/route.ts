@@ -1,7 +1,7 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { forbidden, withPermission } from "@/lib/routeAuth";
+import { isValidCoordinates } from "@/lib/geo";
 
 export async function GET(
   request: Request,
@@ -35,37 +35,17 @@ export async function GET(
   }
 }
 
-export async function PUT(
-  request: Request,
-  { params }: { params: { id: string } }
-) {
+export const PUT = withPermission<{ id: string }>("hospital", "update", async (request, { params, can }) => {
   const hospitalId = params.id;
-  const session = await getServerSession(authOptions);
 
-  // Check authentication
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
-
-  // Check if user is a hospital admin or admin
-  if (session.user.role !== "HOSPITAL" && session.user.role !== "ADMIN") {
-    return NextResponse.json(
-      { error: "Only hospital administrators or admins can update hospital details" },
-      { status: 403 }
-    );
-  }
-
-  // Check if admin is authorized for this hospital (skip this check for ADMIN role)
-  if (session.user.role === "HOSPITAL" && session.user.hospital !== hospitalId) {
-    return NextResponse.json(
-      { error: "You are not authorized to update this hospital" },
-      { status: 403 }
-    );
+  // Hospital administrators may only update their own hospital
+  if (!can({ hospitalId })) {
+    return forbidden("You are not authorized to update this hospital");
   }
 
   try {
     const data = await request.json();
-    const { name, state, city, address } = data;
+    const { name, state, city, address, pincode, latitude, longitude } = data;
 
     // Basic validation
     if (!name || !state) {
@@ -75,6 +55,21 @@ export async function PUT(
       );
     }
 
+    // Coordinates are set or cleared together
+    if ((latitude != null || longitude != null) && !isValidCoordinates(latitude, longitude)) {
+      return NextResponse.json(
+        { error: "Latitude and longitude must both be numbers within range" },
+        { status: 400 }
+      );
+    }
+
+    if (pincode && !/^[1-9]\d{5}$/.test(String(pincode).trim())) {
+      return NextResponse.json(
+        { error: "PIN code must be 6 digits" },
+        { status: 400 }
+      );
+    }
+
     // Update hospital
     const updatedHospital = await prisma.hospital.update({
       where: { id: hospitalId },
@@ -83,6 +78,9 @@ export async function PUT(
         state,
         city,
         address,
+        pincode: pincode === undefined ? undefined : pincode ? String(pincode).trim() : null,
+        latitude,
+        longitude,
       },
     });
 
@@ -94,4 +92,4 @@ export async function PUT(
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+});
\ No newline at end of file
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { withPermission } from "@/lib/routeAuth";
+import { getOpenSlots } from "@/services/scheduling";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// GET - Open appointment slots at a hospital for one day (?date=YYYY-MM-DD)
+export const GET = withPermission<{ id: string }>("hospital", "read", async (request, { params }) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const date = searchParams.get("date");
+
+    if (!date || !DATE_PATTERN.test(date)) {
+      return NextResponse.json(
+        { error: "A date in YYYY-MM-DD format is required" },
+        { status: 400 }
+      );
+    }
+
+    const slots = await getOpenSlots(params.id, date, {
+      doctorId: searchParams.get("doctorId") || undefined,
+      specialty: searchParams.get("specialty") || undefined
+    });
+
+    return NextResponse.json({ date, doctors: slots });
+  } catch (error) {
+    console.error("Error fetching open slots:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch available slots" },
+      { status: 500 }
+    );
+  }
+});
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
 import { INDIAN_STATES } from "@/lib/constants";
+import { isValidCoordinates, rankByDistance } from "@/lib/geo";
+import type { Coordinates } from "@/lib/geo";
 
 // Cache for hospital data with TTL of 30 minutes
 const HOSPITAL_CACHE = new Map<string, {
@@ -13,6 +15,22 @@ export async function GET(req: NextRequest) {
   try {
     const url = new URL(req.url);
     const state = url.searchParams.get("state");
+    const lat = url.searchParams.get("lat");
+    const lng = url.searchParams.get("lng");
+
+    // With the caller's location, hospitals come nearest first with their distance
+    let origin: Coordinates | null = null;
+    if (lat !== null || lng !== null) {
+      if (!lat?.trim() || !lng?.trim() || !isValidCoordinates(Number(lat), Number(lng))) {
+        return NextResponse.json({
+          success: false,
+          error: "Invalid lat/lng parameters",
+          hospitals: [],
+          count: 0
+        }, { status: 400 });
+      }
+      origin = { latitude: Number(lat), longitude: Number(lng) };
+    }
     
     // If state is invalid, return error response
     if (state && state.trim() === "") {
@@ -42,7 +60,7 @@ export async function GET(req: NextRequest) {
     if (cachedData && (Date.now() - cachedData.timestamp) < CACHE_TTL) {
       return NextResponse.json({
         success: true,
-        hospitals: cachedData.data,
+        hospitals: origin ? rankByDistance(origin, cachedData.data) : cachedData.data,
         count: cachedData.data.length,
         fromCache: true
       });
@@ -77,6 +95,9 @@ export async function GET(req: NextRequest) {
           address: true,
           state: true,
           city: true,
+          pincode: true,
+          latitude: true,
+          longitude: true,
         },
         orderBy: [
           { name: 'asc' } // Just sort by name since state is already filtered
@@ -94,7 +115,7 @@ export async function GET(req: NextRequest) {
       // Return response
       return NextResponse.json({
         success: true,
-        hospitals: hospitals,
+        hospitals: origin ? rankByDistance(origin, hospitals) : hospitals,
         count: hospitals.length
       });
     } catch (dbError) {
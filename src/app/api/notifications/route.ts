@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { withPermission } from "@/lib/routeAuth";
+import { listNotifications, markNotificationsRead } from "@/services/notifications";
+
+const pageSchema = z.coerce.number().int().min(1).default(1);
+
+// Schema for marking notifications read; without ids every one is marked
+const markReadSchema = z.object({
+  ids: z.array(z.string().min(1)).max(100).optional()
+});
+
+// GET - The signed-in user's in-app notifications, newest first (?page)
+export const GET = withPermission("notification", "read", async (request, { user }) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const parseResult = pageSchema.safeParse(searchParams.get("page") || undefined);
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { error: "Invalid page", details: parseResult.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const result = await listNotifications(user.id, parseResult.data);
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Error fetching notifications:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch notifications" },
+      { status: 500 }
+    );
+  }
+});
+
+// PATCH - Mark notifications read
+export const PATCH = withPermission("notification", "update", async (request, { user }) => {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const parseResult = markReadSchema.safeParse(body);
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: parseResult.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const updated = await markNotificationsRead(user.id, parseResult.data.ids);
+    return NextResponse.json({ updated });
+  } catch (error) {
+    console.error("Error marking notifications read:", error);
+    return NextResponse.json(
+      { error: "Failed to update notifications" },
+      { status: 500 }
+    );
+  }
+});
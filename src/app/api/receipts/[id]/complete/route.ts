@@ -1,57 +1,40 @@
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
 import { completeReceipt } from "@/services/queue";
 import { prisma } from "@/lib/prisma";
+import { forbidden, withPermission } from "@/lib/routeAuth";
 
-export async function POST(
-  request: Request,
-  { params }: { params: { id: string } }
-) {
+export const POST = withPermission<{ id: string }>("receipt", "update", async (request, { params, can, audit }) => {
   const receiptId = params.id;
-  const session = await getServerSession(authOptions);
-
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
-
-  if (session.user.role !== "HOSPITAL" && session.user.role !== "ADMIN") {
-    return NextResponse.json(
-      { error: "Only hospital administrators can complete receipts" },
-      { status: 403 }
-    );
-  }
 
   try {
-    // Check if the receipt belongs to this hospital (if hospital admin)
-    if (session.user.role === "HOSPITAL") {
-      const user = await prisma.user.findUnique({
-        where: { id: session.user.id },
-        select: { hospital: true }
-      });
+    const receipt = await prisma.receipt.findUnique({
+      where: { id: receiptId },
+      select: { userId: true, hospitalId: true }
+    });
+
+    if (!receipt) {
+      return NextResponse.json(
+        { error: "Receipt not found" },
+        { status: 404 }
+      );
+    }
 
-      const receipt = await prisma.receipt.findUnique({
-        where: { id: receiptId },
-        select: { hospitalId: true }
-      });
+    // Hospital administrators may only complete their own hospital's receipts
+    if (!can({ hospitalId: receipt.hospitalId })) {
+      return forbidden("This receipt doesn't belong to your hospital");
+    }
 
-      if (!receipt) {
-        return NextResponse.json(
-          { error: "Receipt not found" },
-          { status: 404 }
-        );
-      }
+    // Complete the receipt and update queue positions
+    const completed = await completeReceipt(receiptId);
 
-      if (user?.hospital !== receipt.hospitalId) {
-        return NextResponse.json(
-          { error: "This receipt doesn't belong to your hospital" },
-          { status: 403 }
-        );
-      }
+    if (!completed) {
+      return NextResponse.json(
+        { error: "Only queued receipts can be completed" },
+        { status: 409 }
+      );
     }
 
-    // Complete the receipt and update queue positions
-    await completeReceipt(receiptId);
+    await audit({ patientId: receipt.userId, resourceId: receiptId });
     
     return NextResponse.json({ status: "success" });
   } catch (error) {
@@ -61,4 +44,4 @@ export async function POST(
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+});
\ No newline at end of file
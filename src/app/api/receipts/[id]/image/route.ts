@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { forbidden, withPermission } from "@/lib/routeAuth";
+import { reportImageUrl } from "@/services/reportImages";
+
+// GET - Redirect to a short-lived signed URL for a page of the report
+// (?page=N, starting at 1; ?variant=thumbnail for the preview)
+export const GET = withPermission<{ id: string }>("receipt", "read", async (request, { params, can, audit }) => {
+  try {
+    const receipt = await prisma.receipt.findUnique({
+      where: { id: params.id },
+      select: { userId: true, hospitalId: true, imageKey: true, thumbnailKey: true }
+    });
+
+    if (!receipt) {
+      return NextResponse.json({ error: "Report not found" }, { status: 404 });
+    }
+
+    // Patients see their own reports, hospitals those filed with them
+    if (!can({ userId: receipt.userId, hospitalId: receipt.hospitalId })) {
+      return forbidden("You don't have permission to view this report");
+    }
+
+    const { searchParams } = new URL(request.url);
+    const pageNumber = Number(searchParams.get("page") || "1");
+    const thumbnail = searchParams.get("variant") === "thumbnail";
+
+    if (!Number.isInteger(pageNumber) || pageNumber < 1) {
+      return NextResponse.json({ error: "page must be a positive whole number" }, { status: 400 });
+    }
+
+    // Reports from before pages existed only have the receipt's own image
+    const page = await prisma.receiptPage.findUnique({
+      where: { receiptId_position: { receiptId: params.id, position: pageNumber - 1 } },
+      select: { imageKey: true, thumbnailKey: true }
+    }) || (pageNumber === 1 ? receipt : null);
+
+    if (!page) {
+      return NextResponse.json({ error: "Page not found" }, { status: 404 });
+    }
+
+    // PDF pages have no thumbnail
+    const key = thumbnail ? page.thumbnailKey : page.imageKey;
+
+    if (!key) {
+      return NextResponse.json(
+        { error: thumbnail ? "This page has no preview" : "The original document was not stored for this report" },
+        { status: 404 }
+      );
+    }
+
+    await audit({ patientId: receipt.userId, resourceId: params.id });
+
+    const response = NextResponse.redirect(new URL(await reportImageUrl(key), request.url));
+    // The signed URL expires, so the redirect must not be reused
+    response.headers.set("Cache-Control", "private, no-store");
+    return response;
+  } catch (error) {
+    console.error("Error fetching report image:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch report image" },
+      { status: 500 }
+    );
+  }
+});
@@ -1,7 +1,8 @@
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma-singleton";
+import { forbidden, withPermission } from "@/lib/routeAuth";
+import { estimateReceiptWaitTime } from "@/services/waitTime";
+import { listReportPages } from "@/services/reportImages";
 
 // Cache duration in seconds
 const CACHE_DURATION = 30;
@@ -9,22 +10,10 @@ const CACHE_DURATION = 30;
 // In-memory cache to speed up repeat requests
 const reportCache = new Map<string, { data: any, timestamp: number }>();
 
-export async function GET(
-  request: Request,
-  { params }: { params: { id: string } }
-) {
+export const GET = withPermission<{ id: string }>("receipt", "read", async (request, { params, session, can, audit }) => {
   console.log(`🔍 API Request to /api/receipts/${params.id}`);
   
   try {
-    const session = await getServerSession(authOptions);
-
-    if (!session) {
-      console.log("❌ Unauthorized access attempt - No session");
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    console.log(`✅ Authorized access by user: ${session.user.id}, role: ${session.user.role}`);
-    
     const receiptId = params.id;
     
     try {
@@ -36,6 +25,7 @@ export async function GET(
       // If we have a valid cache entry, use it
       if (cachedReport && (now - cachedReport.timestamp < CACHE_DURATION * 1000)) {
         console.log(`🔄 Using in-memory cached report for ${receiptId}`);
+        await audit({ patientId: cachedReport.data.userId, resourceId: receiptId });
         
         // Even for cached responses, set appropriate headers
         const response = NextResponse.json(cachedReport.data);
@@ -77,21 +67,26 @@ export async function GET(
       
       console.log(`✅ Receipt found: ${receiptId}, status: ${receipt.status}`);
       
-      // Check if this receipt belongs to the current user
-      if (receipt.userId !== session.user.id && session.user.role !== "HOSPITAL" && session.user.role !== "ADMIN") {
+      // Patients see their own receipts, hospitals those filed with them
+      if (!can({ userId: receipt.userId, hospitalId: receipt.hospitalId })) {
         console.log(`❌ Permission denied for user ${session.user.id} to view receipt ${receiptId}`);
-        console.log(`Receipt user: ${receipt.userId}, Current user: ${session.user.id}, Role: ${session.user.role}`);
-        return NextResponse.json(
-          { error: "You don't have permission to view this receipt" },
-          { status: 403 }
-        );
+        return forbidden("You don't have permission to view this receipt");
       }
       
       console.log(`✅ Permission granted for user ${session.user.id} to view receipt ${receiptId}`);
+      await audit({ patientId: receipt.userId, resourceId: receiptId });
+      
+      // Attach the estimated wait for queued receipts
+      const waitTime = await estimateReceiptWaitTime(receipt).catch(waitTimeError => {
+        console.error("❌ Error estimating wait time:", waitTimeError);
+        return null;
+      });
+      const pages = await listReportPages(receiptId);
+      const data = { ...receipt, waitTime, pages };
       
       // Update our in-memory cache
       reportCache.set(cacheKey, { 
-        data: receipt, 
+        data, 
         timestamp: now 
       });
       
@@ -106,7 +101,7 @@ export async function GET(
       }
       
       // Add caching headers to the response
-      const response = NextResponse.json(receipt);
+      const response = NextResponse.json(data);
       
       // If receipt is in a completed state (COMPLETED or REJECTED), 
       // we can cache for longer as it won't change
@@ -147,4 +142,4 @@ export async function GET(
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+});
\ No newline at end of file
@@ -1,15 +1,9 @@
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { withPermission } from "@/lib/routeAuth";
 import { uploadReceipt } from "@/services/queue";
+import { InvalidReportUploadError } from "@/services/reportImages";
 
-export async function POST(request: Request) {
-  const session = await getServerSession(authOptions);
-
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
-
+export const POST = withPermission("receipt", "create", async (request, { session }) => {
   try {
     console.log("Receipt upload request received");
     const body = await request.json();
@@ -33,27 +27,25 @@ export async function POST(request: Request) {
 
     console.log(`Processing receipt for user ${session.user.id} to hospital ${hospitalId}`);
     
-    // Upload and process the receipt
-    const receipt = await uploadReceipt(session.user.id, image, hospitalId);
-    console.log(`Receipt processed successfully: ${receipt.id}, position: ${receipt.queuePosition}`);
+    // Store the receipt and schedule its analysis
+    const receipt = await uploadReceipt(session.user.id, [image], hospitalId);
+    console.log(`Receipt stored, analysis scheduled: ${receipt.id}`);
 
+    // Analysis runs as a background job; poll /api/reports/[id]/analysis for progress
     return NextResponse.json({
       id: receipt.id,
       status: receipt.status,
-      queuePosition: receipt.queuePosition,
-      hospitalName: receipt.hospital?.name,
-      severity: receipt.severity,
-      aiAnalysis: receipt.aiAnalysis,
-      doctor: receipt.doctor ? {
-        name: receipt.doctor.name,
-        specialty: receipt.doctor.specialty
-      } : null
-    });
+      hospitalName: receipt.hospital?.name
+    }, { status: 202 });
   } catch (error) {
+    if (error instanceof InvalidReportUploadError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
     console.error("Error processing receipt:", error);
     return NextResponse.json(
       { error: "Failed to process receipt" },
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+});
\ No newline at end of file
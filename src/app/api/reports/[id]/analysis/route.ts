@@ -0,0 +1,97 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { forbidden, withPermission } from "@/lib/routeAuth";
+import { findLatestJob } from "@/services/jobs";
+import { REPORT_ANALYSIS_JOB, retryReceiptAnalysis } from "@/services/queue";
+
+// GET - Progress of a report's analysis, with the result once it is queued
+export const GET = withPermission<{ id: string }>("receipt", "read", async (request, { params, can, audit }) => {
+  try {
+    const receipt = await prisma.receipt.findUnique({
+      where: { id: params.id },
+      select: {
+        id: true,
+        userId: true,
+        hospitalId: true,
+        status: true,
+        analysisError: true,
+        queuePosition: true,
+        severity: true,
+        aiAnalysis: true,
+        patientAnalysis: true,
+        hospital: { select: { name: true } },
+        doctor: { select: { name: true, specialty: true } }
+      }
+    });
+
+    if (!receipt) {
+      return NextResponse.json({ error: "Report not found" }, { status: 404 });
+    }
+
+    // Patients see their own reports, hospitals those filed with them
+    if (!can({ userId: receipt.userId, hospitalId: receipt.hospitalId })) {
+      return forbidden("You don't have permission to view this report");
+    }
+
+    await audit({ patientId: receipt.userId, resourceId: receipt.id });
+
+    const job = await findLatestJob(REPORT_ANALYSIS_JOB, receipt.id);
+    const analyzed = receipt.status === "QUEUED" || receipt.status === "COMPLETED";
+
+    const response = NextResponse.json({
+      id: receipt.id,
+      status: receipt.status,
+      error: receipt.analysisError,
+      attempts: job?.attempts ?? 0,
+      maxAttempts: job?.maxAttempts ?? null,
+      nextAttemptAt: job?.status === "PENDING" && job.attempts > 0 ? job.runAt : null,
+      hospitalName: receipt.hospital?.name,
+      ...(analyzed && {
+        queuePosition: receipt.queuePosition,
+        severity: receipt.severity,
+        aiAnalysis: receipt.aiAnalysis,
+        patientAnalysis: receipt.patientAnalysis,
+        doctor: receipt.doctor
+      })
+    });
+    response.headers.set("Cache-Control", "no-store");
+
+    return response;
+  } catch (error) {
+    console.error("Error fetching analysis status:", error);
+    return NextResponse.json({ error: "Failed to fetch analysis status" }, { status: 500 });
+  }
+});
+
+// POST - Re-run a failed analysis
+export const POST = withPermission<{ id: string }>("receipt", "update", async (request, { params, can, audit }) => {
+  try {
+    const receipt = await prisma.receipt.findUnique({
+      where: { id: params.id },
+      select: { userId: true, hospitalId: true }
+    });
+
+    if (!receipt) {
+      return NextResponse.json({ error: "Report not found" }, { status: 404 });
+    }
+
+    // Hospital staff may only re-run their own hospital's reports
+    if (!can({ hospitalId: receipt.hospitalId })) {
+      return forbidden("This report doesn't belong to your hospital");
+    }
+
+    if (!(await retryReceiptAnalysis(params.id))) {
+      return NextResponse.json(
+        { error: "Only failed analyses can be re-run" },
+        { status: 409 }
+      );
+    }
+
+    await audit({ patientId: receipt.userId, resourceId: params.id });
+
+    return NextResponse.json({ status: "PENDING" }, { status: 202 });
+  } catch (error) {
+    console.error("Error re-running analysis:", error);
+    return NextResponse.json({ error: "Failed to re-run analysis" }, { status: 500 });
+  }
+});
@@ -1,30 +1,13 @@
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
 import { completeReceipt } from "@/services/queue";
 import { prisma } from "@/lib/prisma";
+import { forbidden, withPermission } from "@/lib/routeAuth";
 
 // In-memory cache to prevent duplicate completion requests
 const processingCache = new Map<string, boolean>();
 
-export async function POST(
-  request: Request,
-  { params }: { params: { id: string } }
-) {
+export const POST = withPermission<{ id: string }>("receipt", "update", async (request, { params, can, audit }) => {
   const reportId = params.id;
-  const session = await getServerSession(authOptions);
-
-  // First, return an immediate response for authentication issues
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
-
-  if (session.user.role !== "HOSPITAL" && session.user.role !== "ADMIN") {
-    return NextResponse.json(
-      { error: "Only hospital administrators can complete reports" },
-      { status: 403 }
-    );
-  }
 
   // Check if this report is already being processed to prevent duplicate requests
   if (processingCache.get(reportId)) {
@@ -38,48 +21,46 @@ export async function POST(
   processingCache.set(reportId, true);
 
   try {
-    // Fast path: Do database validation while avoiding extra queries when possible
-    if (session.user.role === "HOSPITAL") {
-      // Get hospital ID and receipt validation in a single query
-      const [user, receipt] = await Promise.all([
-        prisma.user.findUnique({
-          where: { id: session.user.id },
-          select: { hospital: true }
-        }),
-        prisma.receipt.findUnique({
-          where: { id: reportId },
-          select: { hospitalId: true, status: true }
-        })
-      ]);
+    const receipt = await prisma.receipt.findUnique({
+      where: { id: reportId },
+      select: { userId: true, hospitalId: true, status: true }
+    });
 
-      // Fast fail cases
-      if (!receipt) {
-        processingCache.delete(reportId);
-        return NextResponse.json(
-          { error: "Report not found" },
-          { status: 404 }
-        );
-      }
+    // Fast fail cases
+    if (!receipt) {
+      processingCache.delete(reportId);
+      return NextResponse.json(
+        { error: "Report not found" },
+        { status: 404 }
+      );
+    }
 
-      if (receipt.status === 'COMPLETED') {
-        processingCache.delete(reportId);
-        return NextResponse.json({ 
-          status: "success", 
-          message: "Report was already completed" 
-        });
-      }
+    // Hospital administrators may only complete their own hospital's reports
+    if (!can({ hospitalId: receipt.hospitalId })) {
+      processingCache.delete(reportId);
+      return forbidden("This report doesn't belong to your hospital");
+    }
 
-      if (user?.hospital !== receipt.hospitalId) {
-        processingCache.delete(reportId);
-        return NextResponse.json(
-          { error: "This report doesn't belong to your hospital" },
-          { status: 403 }
-        );
-      }
+    if (receipt.status === 'COMPLETED') {
+      processingCache.delete(reportId);
+      return NextResponse.json({ 
+        status: "success", 
+        message: "Report was already completed" 
+      });
     }
 
     // Complete the report and update queue positions
-    await completeReceipt(reportId);
+    const completed = await completeReceipt(reportId);
+
+    if (!completed) {
+      processingCache.delete(reportId);
+      return NextResponse.json(
+        { error: "Only queued reports can be completed" },
+        { status: 409 }
+      );
+    }
+
+    await audit({ patientId: receipt.userId, resourceId: reportId });
     
     // Remove from processing cache after success
     processingCache.delete(reportId);
@@ -99,4 +80,4 @@ export async function POST(
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+});
\ No newline at end of file
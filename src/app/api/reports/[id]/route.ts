@@ -1,27 +1,15 @@
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma-singleton";
+import { forbidden, withPermission } from "@/lib/routeAuth";
+import { listReportPages } from "@/services/reportImages";
 
 // Cache duration in seconds
 const CACHE_DURATION = 30;
 
-export async function GET(
-  request: Request,
-  { params }: { params: { id: string } }
-) {
+export const GET = withPermission<{ id: string }>("receipt", "read", async (request, { params, session, can, audit }) => {
   console.log(`🔍 API Request to /api/reports/${params.id}`);
   
   try {
-    const session = await getServerSession(authOptions);
-
-    if (!session) {
-      console.log("❌ Unauthorized access attempt - No session");
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    console.log(`✅ Authorized access by user: ${session.user.id}, role: ${session.user.role}`);
-    
     const reportId = params.id;
     
     try {
@@ -49,20 +37,19 @@ export async function GET(
       
       console.log(`✅ Report found: ${reportId}, status: ${receipt.status}`);
       
-      // Check if this report belongs to the current user
-      if (receipt.userId !== session.user.id && session.user.role !== "HOSPITAL" && session.user.role !== "ADMIN") {
+      // Patients see their own reports, hospitals those filed with them
+      if (!can({ userId: receipt.userId, hospitalId: receipt.hospitalId })) {
         console.log(`❌ Permission denied for user ${session.user.id} to view report ${reportId}`);
-        console.log(`Report user: ${receipt.userId}, Current user: ${session.user.id}, Role: ${session.user.role}`);
-        return NextResponse.json(
-          { error: "You don't have permission to view this report" },
-          { status: 403 }
-        );
+        return forbidden("You don't have permission to view this report");
       }
       
       console.log(`✅ Permission granted for user ${session.user.id} to view report ${reportId}`);
+      await audit({ patientId: receipt.userId, resourceId: reportId });
+      
+      const pages = await listReportPages(reportId);
       
       // Add caching headers to the response
-      const response = NextResponse.json(receipt);
+      const response = NextResponse.json({ ...receipt, pages });
       
       // If receipt is in a completed state, we can cache for longer as it won't change
       if (receipt.status === 'COMPLETED') {
@@ -97,4 +84,4 @@ export async function GET(
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+});
\ No newline at end of file
@@ -1,15 +1,9 @@
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { withPermission } from "@/lib/routeAuth";
 import { uploadReceipt } from "@/services/queue";
+import { InvalidReportUploadError } from "@/services/reportImages";
 
-export async function POST(request: Request) {
-  const session = await getServerSession(authOptions);
-
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
-
+export const POST = withPermission("receipt", "create", async (request, { session }) => {
   try {
     console.log("Report upload request received");
     
@@ -24,9 +18,11 @@ export async function POST(request: Request) {
       );
     }
     
-    const { image, hospitalId } = body;
+    // `pages` holds the files in order; `image` is the older single-image form
+    const { pages, image, hospitalId } = body;
+    const uploads: unknown[] = Array.isArray(pages) ? pages : image ? [image] : [];
 
-    if (!image) {
+    if (uploads.length === 0) {
       console.log("Missing image in upload request");
       return NextResponse.json(
         { error: "Medical report image is required" },
@@ -43,7 +39,7 @@ export async function POST(request: Request) {
     }
 
     // Basic validation of image data
-    if (typeof image !== 'string' || image.length < 100) {
+    if (uploads.some(upload => typeof upload !== 'string' || upload.length < 100)) {
       console.error("Invalid image data format or size");
       return NextResponse.json(
         { error: "Invalid image data format" },
@@ -53,38 +49,29 @@ export async function POST(request: Request) {
 
     console.log(`Processing report for user ${session.user.id} to hospital ${hospitalId}`);
     
-    // Upload and process the report (uses the existing receipt service)
-    const receipt = await uploadReceipt(session.user.id, image, hospitalId);
-    console.log(`Report processed successfully: ${receipt.id}, position: ${receipt.queuePosition}`);
+    // Store the report and schedule its analysis (uses the existing receipt service)
+    const receipt = await uploadReceipt(session.user.id, uploads as string[], hospitalId);
+    console.log(`Report stored, analysis scheduled: ${receipt.id}`);
 
+    // Analysis runs as a background job; poll /api/reports/[id]/analysis for progress
     return NextResponse.json({
       id: receipt.id,
       status: receipt.status,
-      queuePosition: receipt.queuePosition,
-      hospitalName: receipt.hospital?.name,
-      severity: receipt.severity,
-      aiAnalysis: receipt.aiAnalysis,
-      doctor: receipt.doctor ? {
-        name: receipt.doctor.name,
-        specialty: receipt.doctor.specialty
-      } : null
-    });
+      hospitalName: receipt.hospital?.name
+    }, { status: 202 });
   } catch (error) {
+    if (error instanceof InvalidReportUploadError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
     console.error("Error processing report:", error);
     
     // Provide more informative error message based on error type
-    if (error instanceof Error) {
-      if (error.message.includes("Gemini API")) {
-        return NextResponse.json(
-          { error: "AI analysis service unavailable. Please try again later." },
-          { status: 503 }
-        );
-      } else if (error.message.includes("database")) {
-        return NextResponse.json(
-          { error: "Database error occurred. Please try again later." },
-          { status: 500 }
-        );
-      }
+    if (error instanceof Error && error.message.includes("database")) {
+      return NextResponse.json(
+        { error: "Database error occurred. Please try again later." },
+        { status: 500 }
+      );
     }
     
     return NextResponse.json(
@@ -92,4 +79,4 @@ export async function POST(request: Request) {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+});
\ No newline at end of file
@@ -1,15 +1,8 @@
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "../auth/[...nextauth]/route";
 import { INDIAN_STATES } from "@/lib/constants";
+import { withAuth } from "@/lib/routeAuth";
 
-export async function GET() {
-  const session = await getServerSession(authOptions);
-
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
-
+export const GET = withAuth(async () => {
   try {
     // Return static states data instead of querying the database
     return NextResponse.json(INDIAN_STATES);
@@ -20,4 +13,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+});
\ No newline at end of file
@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { withPermission } from "@/lib/routeAuth";
+import { listPatientAccess } from "@/services/audit";
+
+// GET - Who accessed the signed-in patient's records (?page)
+export const GET = withPermission("auditLog", "read", async (request, { user }) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const page = Math.max(1, parseInt(searchParams.get("page") || "1") || 1);
+
+    const result = await listPatientAccess(user.id, page);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Error fetching access history:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch access history" },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,87 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+import { forbidden, withPermission } from "@/lib/routeAuth";
+import { ALERT_STATUSES } from "@/lib/alertLifecycle";
+import { AlertAlreadyClaimedError, getAlertProgress } from "@/services/emergencyEscalation";
+import { getAlertTimeline, InvalidAlertTransitionError, transitionAlert } from "@/services/emergencyAlerts";
+
+const statusUpdateSchema = z.object({
+  status: z.enum(ALERT_STATUSES),
+  note: z.string().trim().max(1000).optional()
+});
+
+// GET - An emergency alert's status, every escalation step and status change so far, and its response times
+export const GET = withPermission<{ id: string }>("emergencyAlert", "read", async (request, { params, user, can, audit }) => {
+  try {
+    const alert = await getAlertProgress(params.id);
+
+    if (!alert) {
+      return NextResponse.json({ error: "Emergency alert not found" }, { status: 404 });
+    }
+
+    if (!can({ userId: alert.userId, hospitalId: alert.hospital.id })) {
+      return forbidden("Access denied");
+    }
+
+    await audit({ patientId: alert.userId, resourceId: alert.id });
+
+    const timeline = await getAlertTimeline(alert.id, { withStaffNotes: user.role !== "USER" });
+
+    return NextResponse.json({ ...alert, ...timeline });
+  } catch (error) {
+    console.error("Error fetching emergency alert:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch emergency alert" },
+      { status: 500 }
+    );
+  }
+});
+
+// PATCH - Change an emergency alert's status; patients may cancel their own alert
+export const PATCH = withPermission<{ id: string }>("emergencyAlert", "update", async (request, { params, user, can, audit }) => {
+  try {
+    const parseResult = statusUpdateSchema.safeParse(await request.json());
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { error: "Invalid status update", details: parseResult.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const alert = await prisma.emergencyAlert.findUnique({
+      where: { id: params.id },
+      select: { id: true, userId: true, hospitalId: true }
+    });
+
+    if (!alert) {
+      return NextResponse.json({ error: "Emergency alert not found" }, { status: 404 });
+    }
+
+    if (!can({ userId: alert.userId, hospitalId: alert.hospitalId })) {
+      return forbidden("Unauthorized to update this alert");
+    }
+
+    const { status, note } = parseResult.data;
+    const updatedAlert = await transitionAlert(alert.id, status, user, note || undefined);
+
+    if (!updatedAlert) {
+      return NextResponse.json({ error: "Emergency alert not found" }, { status: 404 });
+    }
+
+    await audit({ patientId: updatedAlert.userId, resourceId: updatedAlert.id });
+
+    return NextResponse.json({ success: true, alert: updatedAlert });
+  } catch (error) {
+    if (error instanceof AlertAlreadyClaimedError || error instanceof InvalidAlertTransitionError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    console.error("Error updating emergency alert:", error);
+    return NextResponse.json(
+      { error: "Failed to update emergency alert" },
+      { status: 500 }
+    );
+  }
+});
@@ -1,38 +1,45 @@
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
 import prisma from "@/lib/prisma";
+import { withPermission } from "@/lib/routeAuth";
 import { serializeUserDataForEmergency } from "@/lib/utils";
 import logEmergencyAlert from "@/middleware/emergencyAlertLogger";
+import { hospitalChannel, publishEvent } from "@/lib/events";
+import { notifyEmergencyAlert } from "@/services/notifications";
+import { firstEscalationAt, scheduleEscalation } from "@/services/emergencyEscalation";
+import { findNearbyHospitals } from "@/services/hospital";
+import { getOpenRedFlagEvent, linkRedFlagAlert } from "@/services/redFlags";
+import { isValidCoordinates, locate, rankByDistance } from "@/lib/geo";
+import type { Coordinates } from "@/lib/geo";
 
 // POST - Send emergency alert to the selected hospital
-export async function POST(req: Request) {
+export const POST = withPermission("emergencyAlert", "create", async (req, { session }) => {
   logEmergencyAlert("API called");
   try {
-    // Authenticate the request
-    const session = await getServerSession(authOptions);
-
-    if (!session) {
-      logEmergencyAlert("No session found");
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
     logEmergencyAlert(`User authenticated with ID ${session.user.id}, role ${session.user.role}, state ${session.user.state || 'not set'}`);
 
-    // Verify user is a patient/regular user
-    if (session.user.role === "HOSPITAL" || session.user.role === "ADMIN") {
-      logEmergencyAlert(`User with role ${session.user.role} attempted to send alert`);
-      return NextResponse.json({ error: "Only patients can send emergency alerts" }, { status: 403 });
-    }
-
-    // Parse request body to get hospitalId
+    // Parse request body to get hospitalId and, if the browser shared it, where the patient is
     let hospitalId: string | null = null;
+    let location: Coordinates | null = null;
+    // Set when the alert was sent from the AI assistant's emergency card
+    let redFlagEventId: string | null = null;
     let reqBody = {};
     try {
       const body = await req.json();
       hospitalId = body.hospitalId;
+      redFlagEventId = typeof body.redFlagEventId === "string" ? body.redFlagEventId : null;
       reqBody = body;
-      logEmergencyAlert(`Request body parsed successfully, hospitalId: ${hospitalId || 'not provided'}`);
+
+      if (body.latitude != null || body.longitude != null) {
+        if (!isValidCoordinates(body.latitude, body.longitude)) {
+          return NextResponse.json(
+            { error: "Invalid location: latitude and longitude must be numbers within range" },
+            { status: 400 }
+          );
+        }
+        location = { latitude: body.latitude, longitude: body.longitude };
+      }
+
+      logEmergencyAlert(`Request body parsed successfully, hospitalId: ${hospitalId || 'not provided'}, location: ${location ? 'shared' : 'not shared'}`);
     } catch (e) {
       logEmergencyAlert("Error parsing request body:", e);
     }
@@ -108,6 +115,9 @@ export async function POST(req: Request) {
 
       logEmergencyAlert(`User ${userId} data fetched successfully`);
 
+      // Without a shared location, fall back to the centre of the patient's PIN code area
+      const origin = location || locate({ pincode: user.pincode });
+
       // Find the selected hospital
       let targetHospital;
       
@@ -125,6 +135,9 @@ export async function POST(req: Request) {
             city: true,
             address: true,
             state: true,
+            pincode: true,
+            latitude: true,
+            longitude: true,
             user: {
               select: {
                 id: true,
@@ -154,30 +167,10 @@ export async function POST(req: Request) {
           );
         }
       } else {
-        // No hospital ID provided, find hospitals in the state
-        logEmergencyAlert(`No hospital ID provided, searching for hospitals in ${userState}`);
-        
-        const hospitals = await prisma.hospital.findMany({
-          where: {
-            state: userState
-          },
-          select: {
-            id: true,
-            name: true,
-            city: true,
-            address: true,
-            state: true,
-            user: {
-              select: {
-                id: true,
-                email: true
-              }
-            }
-          },
-          orderBy: {
-            name: 'asc'
-          }
-        });
+        // No hospital ID provided, pick the nearest hospital in the state
+        logEmergencyAlert(`No hospital ID provided, searching for the nearest hospital in ${userState}`);
+
+        const hospitals = await findNearbyHospitals(userState, { origin, city: user.city });
 
         logEmergencyAlert(`Found ${hospitals.length} hospitals in ${userState}`);
 
@@ -188,9 +181,8 @@ export async function POST(req: Request) {
           );
         }
 
-        // Pick the first hospital in the state
         targetHospital = hospitals[0];
-        logEmergencyAlert(`Selected first hospital: ${targetHospital.name} (${targetHospital.id})`);
+        logEmergencyAlert(`Selected nearest hospital: ${targetHospital.name} (${targetHospital.id})${targetHospital.distanceKm !== null ? `, ${targetHospital.distanceKm} km away` : ''}`);
       }
       
       if (!targetHospital || !targetHospital.id) {
@@ -200,6 +192,11 @@ export async function POST(req: Request) {
           { status: 404 }
         );
       }
+
+      const distanceKm = rankByDistance(origin, [targetHospital])[0].distanceKm;
+
+      // What the assistant picked up on goes with the alert
+      const redFlagEvent = redFlagEventId ? await getOpenRedFlagEvent(redFlagEventId, userId) : null;
       
       // Create emergency alert record
       logEmergencyAlert(`Creating alert for user ${userId} to hospital ${targetHospital.id}`);
@@ -214,7 +211,8 @@ export async function POST(req: Request) {
           state: user.state || "",
           pincode: user.pincode || "",
           dateOfBirth: user.dateOfBirth ? user.dateOfBirth.toISOString() : null,
-          gender: user.gender || ""
+          gender: user.gender || "",
+          location
         };
         
         // Prepare medical history as a simple object with arrays
@@ -246,21 +244,59 @@ export async function POST(req: Request) {
             hospitalId: targetHospital.id,
             status: "PENDING",
             patientInfo,
-            medicalHistory
+            medicalHistory,
+            nextEscalationAt: firstEscalationAt(),
+            recipients: {
+              create: { hospitalId: targetHospital.id, level: 0 }
+            },
+            // The first entry of the alert's timeline
+            events: {
+              create: {
+                toStatus: "PENDING",
+                actorId: userId,
+                actorRole: session.user.role,
+                note: redFlagEvent ? `Raised from the AI assistant: ${redFlagEvent.labels.join(", ")}` : null
+              }
+            }
           }
         });
 
         logEmergencyAlert(`Created alert ID ${emergencyAlert.id}`);
+
+        if (redFlagEvent) {
+          await linkRedFlagAlert(redFlagEvent.id, emergencyAlert.id);
+          logEmergencyAlert(`Linked alert ${emergencyAlert.id} to red-flag case ${redFlagEvent.id}`);
+        }
+
+        // Push the alert to the hospital's open dashboards
+        publishEvent(hospitalChannel(targetHospital.id), {
+          type: "emergency.created",
+          alertId: emergencyAlert.id,
+          hospitalId: targetHospital.id,
+          userId,
+          status: emergencyAlert.status,
+          createdAt: emergencyAlert.createdAt.toISOString()
+        });
+
+        // Reach staff who don't have the dashboard open
+        await notifyEmergencyAlert(emergencyAlert.id).catch(error => {
+          logEmergencyAlert(`Failed to notify hospital staff: ${error}`);
+        });
+
+        // Escalate to other hospitals if this one does not acknowledge in time
+        await scheduleEscalation(emergencyAlert.id, emergencyAlert.nextEscalationAt);
         
         // Return a simple response immediately
         return NextResponse.json({
           success: true,
           message: `Emergency alert sent to ${targetHospital.name}`,
           alertId: emergencyAlert.id,
+          nextEscalationAt: emergencyAlert.nextEscalationAt,
           hospitalInfo: {
             name: targetHospital.name,
             city: targetHospital.city,
-            address: targetHospital.address
+            address: targetHospital.address,
+            distanceKm
           }
         });
       } catch (createError) {
@@ -332,4 +368,4 @@ export async function POST(req: Request) {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+});
\ No newline at end of file
@@ -0,0 +1,11 @@
+import { patientChannel } from "@/lib/events";
+import { withAuth } from "@/lib/routeAuth";
+import { createEventStream } from "@/lib/sse";
+
+// Streams must never be cached or statically rendered
+export const dynamic = "force-dynamic";
+
+// GET - Live queue position, doctor and completion updates for the signed-in patient
+export const GET = withAuth(async (request, { session }) => {
+  return createEventStream(request, [patientChannel(session.user.id)]);
+});
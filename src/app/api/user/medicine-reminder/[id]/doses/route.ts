@@ -0,0 +1,107 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { forbidden, withPermission } from "@/lib/routeAuth";
+import type { ResourceOwner } from "@/lib/permissions";
+import { clearDoseLog, InvalidDoseError, logDose } from "@/services/doseSchedule";
+
+// Schema for validating a dose log
+const doseLogSchema = z.object({
+  scheduledFor: z.string().datetime({ offset: true }),
+  status: z.enum(["TAKEN", "LATE", "SKIPPED"]),
+  takenAt: z.string().datetime({ offset: true }).optional()
+});
+
+// Loads the reminder if it belongs to the signed-in user
+async function loadOwnReminder(reminderId: string, can: (target: ResourceOwner) => boolean) {
+  const reminder = await prisma.medicineReminder.findUnique({
+    where: {
+      id: reminderId
+    }
+  });
+
+  if (!reminder) {
+    return { error: NextResponse.json({ error: "Reminder not found" }, { status: 404 }) };
+  }
+
+  // Verify ownership
+  if (!can({ userId: reminder.userId })) {
+    return { error: forbidden("Access denied") };
+  }
+
+  return { reminder };
+}
+
+// POST handler to mark a dose as taken, late or skipped
+export const POST = withPermission<{ id: string }>("medicineReminder", "update", async (req, { params, can }) => {
+  try {
+    const { reminder, error } = await loadOwnReminder(params.id, can);
+    if (error) return error;
+
+    const parseResult = doseLogSchema.safeParse(await req.json());
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { error: "Invalid input data", details: parseResult.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const { scheduledFor, status, takenAt } = parseResult.data;
+
+    const dose = await logDose(
+      reminder,
+      new Date(scheduledFor),
+      status,
+      takenAt ? new Date(takenAt) : undefined
+    );
+
+    console.log(`Logged ${dose.status} dose of ${reminder.name} due ${scheduledFor} for user ${reminder.userId}`);
+    return NextResponse.json({
+      success: true,
+      dose
+    });
+  } catch (error) {
+    if (error instanceof InvalidDoseError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error("Error logging medicine dose:", error);
+    return NextResponse.json(
+      { error: "Failed to log dose" },
+      { status: 500 }
+    );
+  }
+});
+
+// DELETE handler to undo a dose log (?scheduledFor=ISO time)
+export const DELETE = withPermission<{ id: string }>("medicineReminder", "update", async (req, { params, can }) => {
+  try {
+    const { reminder, error } = await loadOwnReminder(params.id, can);
+    if (error) return error;
+
+    const url = new URL(req.url);
+    const scheduledFor = new Date(url.searchParams.get("scheduledFor") || "");
+
+    if (isNaN(scheduledFor.getTime())) {
+      return NextResponse.json({ error: "scheduledFor must be a valid date" }, { status: 400 });
+    }
+
+    const removed = await clearDoseLog(reminder.id, scheduledFor);
+
+    if (!removed) {
+      return NextResponse.json({ error: "Dose log not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Dose log removed"
+    });
+  } catch (error) {
+    console.error("Error removing dose log:", error);
+    return NextResponse.json(
+      { error: "Failed to remove dose log" },
+      { status: 500 }
+    );
+  }
+});
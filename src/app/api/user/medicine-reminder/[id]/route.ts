@@ -1,32 +1,28 @@
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
 import { z } from "zod";
 import { prisma } from "@/lib/prisma";
-import { authOptions } from "@/lib/auth";
+import { forbidden, withPermission } from "@/lib/routeAuth";
+import { REMINDER_FREQUENCIES } from "@/lib/constants";
+import { toDateColumn } from "@/services/doseSchedule";
+
+const TIME_PATTERN = /^([01]?\d|2[0-3]):[0-5]\d$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
 
 // Schema for validating updated medicine reminder data
 const updateMedicineReminderSchema = z.object({
   name: z.string().min(1, "Medicine name is required").optional(),
   dosage: z.string().min(1, "Dosage is required").optional(),
-  frequency: z.string().optional(),
-  time: z.string().optional(),
+  frequency: z.enum(REMINDER_FREQUENCIES).optional(),
+  time: z.string().regex(TIME_PATTERN, "Time must be in HH:MM format").optional(),
   notes: z.string().optional(),
-  isActive: z.boolean().optional()
+  isActive: z.boolean().optional(),
+  startDate: z.string().regex(DATE_PATTERN, "Start date must be in YYYY-MM-DD format").optional(),
+  endDate: z.string().regex(DATE_PATTERN, "End date must be in YYYY-MM-DD format").nullable().optional()
 });
 
 // GET handler to fetch a specific medicine reminder
-export async function GET(
-  req: Request,
-  { params }: { params: { id: string } }
-) {
+export const GET = withPermission<{ id: string }>("medicineReminder", "read", async (req, { params, can }) => {
   try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user?.id) {
-      console.error("No user ID in session:", session);
-      return NextResponse.json({ error: "Unauthorized: No user ID found in session" }, { status: 401 });
-    }
-
     const reminder = await prisma.medicineReminder.findUnique({
       where: {
         id: params.id
@@ -38,8 +34,8 @@ export async function GET(
     }
 
     // Verify ownership
-    if (reminder.userId !== session.user.id) {
-      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    if (!can({ userId: reminder.userId })) {
+      return forbidden("Access denied");
     }
 
     return NextResponse.json(reminder);
@@ -50,21 +46,11 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
 
 // PATCH handler to update a specific medicine reminder
-export async function PATCH(
-  req: Request,
-  { params }: { params: { id: string } }
-) {
+export const PATCH = withPermission<{ id: string }>("medicineReminder", "update", async (req, { params, can }) => {
   try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user?.id) {
-      console.error("No user ID in session:", session);
-      return NextResponse.json({ error: "Unauthorized: No user ID found in session" }, { status: 401 });
-    }
-
     // Check if the reminder exists and belongs to the user
     const existingReminder = await prisma.medicineReminder.findUnique({
       where: {
@@ -77,8 +63,8 @@ export async function PATCH(
     }
 
     // Verify ownership
-    if (existingReminder.userId !== session.user.id) {
-      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    if (!can({ userId: existingReminder.userId })) {
+      return forbidden("Access denied");
     }
 
     const data = await req.json();
@@ -93,11 +79,30 @@ export async function PATCH(
       );
     }
 
+    const { startDate, endDate, ...fields } = parseResult.data;
+
+    // The new range has to hold together with whatever is not being changed
+    const newStart = startDate || existingReminder.startDate.toISOString().slice(0, 10);
+    const newEnd = endDate === undefined
+      ? existingReminder.endDate?.toISOString().slice(0, 10)
+      : endDate;
+
+    if (newEnd && newEnd < newStart) {
+      return NextResponse.json(
+        { error: "End date cannot be before the start date" },
+        { status: 400 }
+      );
+    }
+
     const updatedReminder = await prisma.medicineReminder.update({
       where: {
         id: params.id
       },
-      data: parseResult.data
+      data: {
+        ...fields,
+        ...(startDate && { startDate: toDateColumn(startDate) }),
+        ...(endDate !== undefined && { endDate: endDate ? toDateColumn(endDate) : null })
+      }
     });
 
     return NextResponse.json({
@@ -112,21 +117,11 @@ export async function PATCH(
       { status: 500 }
     );
   }
-}
+});
 
 // DELETE handler to remove a specific medicine reminder
-export async function DELETE(
-  req: Request,
-  { params }: { params: { id: string } }
-) {
+export const DELETE = withPermission<{ id: string }>("medicineReminder", "delete", async (req, { params, can }) => {
   try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user?.id) {
-      console.error("No user ID in session:", session);
-      return NextResponse.json({ error: "Unauthorized: No user ID found in session" }, { status: 401 });
-    }
-
     // Check for demo mode parameter
     const url = new URL(req.url);
     const demoMode = url.searchParams.get('demo') === 'true';
@@ -158,8 +153,8 @@ export async function DELETE(
         }
 
         // Verify ownership
-        if (existingReminder.userId !== session.user.id) {
-          return NextResponse.json({ error: "Access denied" }, { status: 403 });
+        if (!can({ userId: existingReminder.userId })) {
+          return forbidden("Access denied");
         }
 
         // Soft delete by setting isActive to false
@@ -200,4 +195,4 @@ export async function DELETE(
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+});
\ No newline at end of file
@@ -1,20 +1,14 @@
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
 import { analyzePrescription } from "@/services/gemini";
-import { authOptions } from "@/lib/auth";
+import { withPermission } from "@/lib/routeAuth";
+import { checkAgainstReminders } from "@/services/interactions";
+import { toLocale } from "@/lib/i18n";
 
 // Maximum file size (10MB)
 const MAX_FILE_SIZE = 10 * 1024 * 1024;
 
-export async function POST(req: Request) {
+export const POST = withPermission("medicineReminder", "create", async (req, { session }) => {
   try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user?.id) {
-      console.error("No user ID in session:", JSON.stringify(session));
-      return NextResponse.json({ error: "Unauthorized: No user ID found in session" }, { status: 401 });
-    }
-
     const userId = session.user.id;
     console.log(`Processing prescription for user: ${userId}`);
 
@@ -44,12 +38,19 @@ export async function POST(req: Request) {
 
     console.log(`Processing ${fileType} file for prescription analysis (${Math.round(file.size / 1024)} KB)`);
 
-    // Call the AI service to analyze the prescription
-    const medications = await analyzePrescription(base64Image);
+    // Call the AI service to analyze the prescription, with notes in the user's language
+    const medications = await analyzePrescription(base64Image, toLocale(session.user.language));
+
+    // Flag interactions among the detected medicines and with existing reminders
+    const conflicts = await checkAgainstReminders(
+      userId,
+      medications.map(med => med.name)
+    );
 
     return NextResponse.json({
       success: true,
-      medications
+      medications,
+      conflicts
     });
   } catch (error) {
     console.error("Error analyzing prescription:", error);
@@ -58,4 +59,4 @@ export async function POST(req: Request) {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+});
\ No newline at end of file
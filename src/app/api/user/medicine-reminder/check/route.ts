@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { withPermission } from "@/lib/routeAuth";
+import { checkAgainstReminders } from "@/services/interactions";
+
+// Schema for validating the medicines to check
+const checkSchema = z.object({
+  medications: z.array(z.object({
+    name: z.string().min(1, "Medicine name is required")
+  })).max(50)
+});
+
+// POST handler to check medicines for interactions and duplicate therapy,
+// against each other and the user's active reminders, before they are saved
+export const POST = withPermission("medicineReminder", "create", async (req, { session }) => {
+  try {
+    const parseResult = checkSchema.safeParse(await req.json());
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { error: "Invalid input data", details: parseResult.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const conflicts = await checkAgainstReminders(
+      session.user.id,
+      parseResult.data.medications.map(med => med.name)
+    );
+
+    return NextResponse.json({ conflicts });
+  } catch (error) {
+    console.error("Error checking medicine interactions:", error);
+    return NextResponse.json(
+      { error: "Failed to check medicine interactions" },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { withPermission } from "@/lib/routeAuth";
+import { getDoseOverview, MAX_HISTORY_DAYS } from "@/services/doseSchedule";
+
+const DEFAULT_HISTORY_DAYS = 30;
+
+// GET handler to fetch the user's doses up to the end of today, with
+// adherence and streaks (?days=N looks back N days including today)
+export const GET = withPermission("medicineReminder", "read", async (req, { session }) => {
+  try {
+    const url = new URL(req.url);
+    const days = Number(url.searchParams.get("days") || DEFAULT_HISTORY_DAYS);
+
+    if (!Number.isInteger(days) || days < 1 || days > MAX_HISTORY_DAYS) {
+      return NextResponse.json(
+        { error: `days must be a whole number between 1 and ${MAX_HISTORY_DAYS}` },
+        { status: 400 }
+      );
+    }
+
+    const overview = await getDoseOverview(session.user.id, days);
+    return NextResponse.json(overview);
+  } catch (error) {
+    console.error("Error fetching medicine doses:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch medicine doses" },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { withSignedToken } from "@/lib/routeAuth";
+import { InvalidDoseError } from "@/services/doseSchedule";
+import { doseOwner, respondToDosePush, verifyDoseToken } from "@/services/doseReminders";
+import type { DoseRef } from "@/services/doseReminders";
+
+// Schema for an action picked on a dose reminder notification
+const responseSchema = z.object({
+  token: z.string().min(1),
+  action: z.enum(["taken", "snooze"])
+});
+
+// The dose a request's token was signed for, acting as the dose's patient
+async function verifyDoseRequest(request: Request) {
+  const body = await request.json().catch(() => ({}));
+  const dose = typeof body?.token === "string" ? verifyDoseToken(body.token) : null;
+  if (!dose) return null;
+
+  const user = await doseOwner(dose);
+  return user ? { user, token: dose } : null;
+}
+
+// POST - Record "Taken" or "Snooze" from a dose reminder. Sent by the service
+// worker, which may have no session; the signed token identifies the dose.
+export const POST = withSignedToken<DoseRef>("medicineReminder", "update", verifyDoseRequest, async (request, { token: dose }) => {
+  try {
+    const parseResult = responseSchema.safeParse(await request.json().catch(() => ({})));
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: parseResult.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const result = await respondToDosePush(dose, parseResult.data.action);
+
+    console.log(`💊 Dose reminder for ${dose.reminderId} at ${dose.scheduledFor.toISOString()}: ${result.status}`);
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    if (error instanceof InvalidDoseError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error("Error recording dose reminder response:", error);
+    return NextResponse.json(
+      { error: "Failed to record response" },
+      { status: 500 }
+    );
+  }
+});
@@ -1,18 +1,30 @@
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
 import { z } from "zod";
 import { prisma } from "@/lib/prisma";
-import { authOptions } from "@/lib/auth";
+import { withPermission } from "@/lib/routeAuth";
+import { toLocalDate } from "@/lib/localTime";
+import { REMINDER_FREQUENCIES } from "@/lib/constants";
+import { toDateColumn } from "@/services/doseSchedule";
+import { checkAgainstReminders, checkMedications } from "@/services/interactions";
+import type { MedicationConflict } from "@/services/interactions";
+
+const TIME_PATTERN = /^([01]?\d|2[0-3]):[0-5]\d$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
 
 // Schema for validating the medicine reminder data
 const medicineReminderSchema = z.object({
   name: z.string().min(1, "Medicine name is required"),
   dosage: z.string().min(1, "Dosage is required"),
-  frequency: z.string(),
-  time: z.string(),
+  frequency: z.enum(REMINDER_FREQUENCIES),
+  time: z.string().regex(TIME_PATTERN, "Time must be in HH:MM format"),
   notes: z.union([z.string(), z.null(), z.undefined()]),
-  aiGenerated: z.boolean().optional().default(false)
-});
+  aiGenerated: z.boolean().optional().default(false),
+  startDate: z.string().regex(DATE_PATTERN, "Start date must be in YYYY-MM-DD format").optional(),
+  endDate: z.string().regex(DATE_PATTERN, "End date must be in YYYY-MM-DD format").nullish()
+}).refine(
+  med => !med.endDate || med.endDate >= (med.startDate || toLocalDate(new Date())),
+  { message: "End date cannot be before the start date", path: ["endDate"] }
+);
 
 const medicineReminderArraySchema = z.array(medicineReminderSchema);
 
@@ -30,7 +42,9 @@ function getDummyReminders(userId: string) {
       notes: "Take with food",
       createdAt: new Date().toISOString(),
       isActive: true,
-      aiGenerated: false
+      aiGenerated: false,
+      startDate: toLocalDate(new Date()),
+      endDate: null
     },
     {
       id: "dummy-2",
@@ -42,31 +56,16 @@ function getDummyReminders(userId: string) {
       notes: null,
       createdAt: new Date().toISOString(),
       isActive: true,
-      aiGenerated: true
+      aiGenerated: true,
+      startDate: toLocalDate(new Date()),
+      endDate: null
     }
   ];
 }
 
 // GET handler to fetch all medicine reminders for the user
-export async function GET(request: Request) {
+export const GET = withPermission("medicineReminder", "read", async (request, { session }) => {
   try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session) {
-      console.error("No session found");
-      return NextResponse.json({ error: "Unauthorized: Please log in" }, { status: 401 });
-    }
-    
-    if (!session.user) {
-      console.error("No user in session:", JSON.stringify(session));
-      return NextResponse.json({ error: "Unauthorized: No user in session" }, { status: 401 });
-    }
-    
-    if (!session.user.id) {
-      console.error("No user ID in session user object:", JSON.stringify(session.user));
-      return NextResponse.json({ error: "Unauthorized: No user ID found in session" }, { status: 401 });
-    }
-
     const userId = session.user.id;
     console.log(`Fetching medicine reminders for user: ${userId}`);
 
@@ -116,42 +115,13 @@ export async function GET(request: Request) {
     console.error("Unexpected error in medicine reminder GET handler:", error);
     
     // Return dummy data in case of unexpected errors too
-    try {
-      const session = await getServerSession(authOptions);
-      if (session?.user?.id) {
-        return NextResponse.json(getDummyReminders(session.user.id));
-      }
-    } catch (e) {
-      // Ignore errors in fallback
-    }
-    
-    return NextResponse.json(
-      { error: "Failed to fetch medicine reminders" },
-      { status: 500 }
-    );
+    return NextResponse.json(getDummyReminders(session.user.id));
   }
-}
+});
 
 // POST handler to create new medicine reminders
-export async function POST(req: Request) {
+export const POST = withPermission("medicineReminder", "create", async (req, { session }) => {
   try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session) {
-      console.error("No session found");
-      return NextResponse.json({ error: "Unauthorized: Please log in" }, { status: 401 });
-    }
-    
-    if (!session.user) {
-      console.error("No user in session:", JSON.stringify(session));
-      return NextResponse.json({ error: "Unauthorized: No user in session" }, { status: 401 });
-    }
-    
-    if (!session.user.id) {
-      console.error("No user ID in session user object:", JSON.stringify(session.user));
-      return NextResponse.json({ error: "Unauthorized: No user ID found in session" }, { status: 401 });
-    }
-
     const userId = session.user.id;
     console.log(`Creating medicine reminders for user: ${userId}`);
 
@@ -179,6 +149,21 @@ export async function POST(req: Request) {
     }
 
     const medications = parseResult.data;
+    const today = toLocalDate(new Date());
+
+    // Flag interactions with each other and with existing reminders. Saving
+    // still goes ahead: the pages ask the patient to confirm beforehand.
+    let conflicts: MedicationConflict[];
+    try {
+      conflicts = await checkAgainstReminders(userId, medications.map(med => med.name));
+    } catch (checkError) {
+      console.error("Interaction check against existing reminders failed:", checkError);
+      conflicts = checkMedications(medications.map(med => ({ name: med.name })));
+    }
+
+    if (conflicts.length > 0) {
+      console.log(`⚠️ ${conflicts.length} medicine conflict(s) for user ${userId}: ${conflicts.map(c => `${c.severity} ${c.type}`).join(', ')}`);
+    }
     console.log(`Processing ${medications.length} medicine reminders for user ${userId}`);
     
     // Check for demo mode in the URL query parameters
@@ -202,7 +187,9 @@ export async function POST(req: Request) {
                 frequency: med.frequency,
                 time: med.time,
                 notes: med.notes === "" ? null : med.notes,
-                aiGenerated: med.aiGenerated || false
+                aiGenerated: med.aiGenerated || false,
+                startDate: toDateColumn(med.startDate || today),
+                endDate: med.endDate ? toDateColumn(med.endDate) : null
               }
             })
           )
@@ -212,7 +199,8 @@ export async function POST(req: Request) {
         return NextResponse.json({
           success: true,
           message: `Successfully created ${createdReminders.length} medicine reminders`,
-          reminders: createdReminders
+          reminders: createdReminders,
+          conflicts
         });
       } catch (dbError) {
         lastError = dbError;
@@ -244,13 +232,16 @@ export async function POST(req: Request) {
       notes: med.notes === "" ? null : med.notes,
       createdAt: new Date().toISOString(),
       isActive: true,
-      aiGenerated: med.aiGenerated || false
+      aiGenerated: med.aiGenerated || false,
+      startDate: med.startDate || today,
+      endDate: med.endDate || null
     }));
     
     return NextResponse.json({
       success: true,
       message: `Successfully created ${medications.length} medicine reminders (offline mode)`,
       reminders: mockReminders,
+      conflicts,
       warning: "Database connection failed, but your data was saved locally"
     });
   } catch (error) {
@@ -260,28 +251,11 @@ export async function POST(req: Request) {
       { status: 500 }
     );
   }
-}
+});
 
 // DELETE handler to remove all medicine reminders for the user
-export async function DELETE() {
+export const DELETE = withPermission("medicineReminder", "delete", async (request, { session }) => {
   try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session) {
-      console.error("No session found");
-      return NextResponse.json({ error: "Unauthorized: Please log in" }, { status: 401 });
-    }
-    
-    if (!session.user) {
-      console.error("No user in session:", JSON.stringify(session));
-      return NextResponse.json({ error: "Unauthorized: No user in session" }, { status: 401 });
-    }
-    
-    if (!session.user.id) {
-      console.error("No user ID in session user object:", JSON.stringify(session.user));
-      return NextResponse.json({ error: "Unauthorized: No user ID found in session" }, { status: 401 });
-    }
-
     const userId = session.user.id;
     console.log(`Removing all medicine reminders for user: ${userId}`);
 
@@ -316,4 +290,4 @@ export async function DELETE() {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+});
\ No newline at end of file
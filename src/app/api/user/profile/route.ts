@@ -1,22 +1,12 @@
-import { NextRequest, NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/routeAuth";
+import { isLocale } from "@/lib/i18n";
 
 // This endpoint provides full user profile data that is no longer stored in the JWT
 // to reduce header size and prevent 431 errors in browsers like Edge
-export async function GET(req: NextRequest) {
+export const GET = withPermission("profile", "read", async (req, { session }) => {
   try {
-    // Check authentication
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user?.id) {
-      return NextResponse.json(
-        { error: "Authentication required" },
-        { status: 401 }
-      );
-    }
-    
     // Fetch detailed user profile
     const user = await prisma.user.findUnique({
       where: { id: session.user.id },
@@ -32,6 +22,7 @@ export async function GET(req: NextRequest) {
         phone: true,
         address: true,
         image: true,
+        language: true,
         // Don't include sensitive data like accounts or passwords
       },
     });
@@ -48,22 +39,16 @@ export async function GET(req: NextRequest) {
       { status: 500 }
     );
   }
-}
-
-export async function PUT(req: Request) {
-  const session = await getServerSession(authOptions);
-
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
+});
 
+export const PUT = withPermission("profile", "update", async (req, { session }) => {
   try {
     const data = await req.json();
-    const { name, state, dateOfBirth, gender, phone, address } = data;
+    const { name, state, dateOfBirth, gender, phone, address, language } = data;
 
     console.log("Updating user profile:", {
       userId: session.user.id,
-      data: { name, state, dateOfBirth, gender, phone, address }
+      data: { name, state, dateOfBirth, gender, phone, address, language }
     });
 
     // Validate required fields
@@ -74,6 +59,14 @@ export async function PUT(req: Request) {
       );
     }
 
+    // The language is optional; when sent it must be one the app speaks
+    if (language !== undefined && !isLocale(language)) {
+      return NextResponse.json(
+        { error: "Invalid language" },
+        { status: 400 }
+      );
+    }
+
     // Properly handle the dateOfBirth
     let parsedDateOfBirth = null;
     if (dateOfBirth) {
@@ -104,6 +97,7 @@ export async function PUT(req: Request) {
       gender: gender || null,
       phone: phone || null,
       address: address || null,
+      ...(language !== undefined && { language }),
     };
     
     console.log("Updating with processed data:", updateData);
@@ -142,4 +136,4 @@ export async function PUT(req: Request) {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+});
\ No newline at end of file
@@ -0,0 +1,89 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { withPermission } from "@/lib/routeAuth";
+import { getVapidPublicKey, removePushSubscription, savePushSubscription } from "@/services/push";
+
+// Schema for a browser's PushSubscription.toJSON()
+const subscriptionSchema = z.object({
+  endpoint: z.string().url(),
+  keys: z.object({
+    p256dh: z.string().min(1),
+    auth: z.string().min(1)
+  })
+});
+
+const unsubscribeSchema = z.object({
+  endpoint: z.string().url()
+});
+
+// GET - The VAPID public key browsers subscribe with
+export const GET = withPermission("pushSubscription", "read", async () => {
+  const publicKey = getVapidPublicKey();
+
+  if (!publicKey) {
+    return NextResponse.json(
+      { error: "Push reminders are not set up on this server" },
+      { status: 503 }
+    );
+  }
+
+  return NextResponse.json({ publicKey });
+});
+
+// POST - Save this browser's push subscription
+export const POST = withPermission("pushSubscription", "create", async (request, { user }) => {
+  try {
+    const parseResult = subscriptionSchema.safeParse(await request.json());
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { error: "Invalid subscription", details: parseResult.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const { endpoint, keys } = parseResult.data;
+    const subscription = await savePushSubscription(
+      user.id,
+      { endpoint, p256dh: keys.p256dh, auth: keys.auth },
+      request.headers.get("user-agent")
+    );
+
+    console.log(`📲 Saved push subscription ${subscription.id} for user ${user.id}`);
+    return NextResponse.json({ success: true, subscription }, { status: 201 });
+  } catch (error) {
+    console.error("Error saving push subscription:", error);
+    return NextResponse.json(
+      { error: "Failed to save push subscription" },
+      { status: 500 }
+    );
+  }
+});
+
+// DELETE - Stop sending push reminders to this browser
+export const DELETE = withPermission("pushSubscription", "delete", async (request, { user }) => {
+  try {
+    const parseResult = unsubscribeSchema.safeParse(await request.json().catch(() => ({})));
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: parseResult.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const removed = await removePushSubscription(user.id, parseResult.data.endpoint);
+
+    if (!removed) {
+      return NextResponse.json({ error: "Subscription not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error removing push subscription:", error);
+    return NextResponse.json(
+      { error: "Failed to remove push subscription" },
+      { status: 500 }
+    );
+  }
+});
@@ -1,23 +1,13 @@
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
-import { prisma } from "@/lib/prisma";
-
-export async function DELETE(req: Request) {
-  // Check authentication
-  const session = await getServerSession(authOptions);
-
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
+import { withPermission } from "@/lib/routeAuth";
+import { clearUserReceipts } from "@/services/queue";
 
+export const DELETE = withPermission("receipt", "delete", async (req, { session }) => {
   const userId = session.user.id;
 
   try {
-    // Delete all receipt records for the user
-    await prisma.receipt.deleteMany({
-      where: { userId }
-    });
+    // Delete all receipt records for the user and compact the queues they were in
+    await clearUserReceipts(userId);
 
     return NextResponse.json({ success: true, message: "All receipt history cleared successfully" });
   } catch (error) {
@@ -27,4 +17,4 @@ export async function DELETE(req: Request) {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+});
\ No newline at end of file
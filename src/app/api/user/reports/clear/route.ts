@@ -1,24 +1,14 @@
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
-import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/routeAuth";
+import { clearUserReceipts } from "@/services/queue";
 import { invalidateCache } from "../route";
 
-export async function DELETE(req: Request) {
-  // Check authentication
-  const session = await getServerSession(authOptions);
-
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
-
+export const DELETE = withPermission("receipt", "delete", async (req, { session }) => {
   const userId = session.user.id;
 
   try {
-    // Delete all receipt records for the user
-    await prisma.receipt.deleteMany({
-      where: { userId }
-    });
+    // Delete all receipt records for the user and compact the queues they were in
+    await clearUserReceipts(userId);
     
     // Invalidate the cache
     invalidateCache(userId);
@@ -31,4 +21,4 @@ export async function DELETE(req: Request) {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+});
\ No newline at end of file
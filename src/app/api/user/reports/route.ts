@@ -1,19 +1,12 @@
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/routeAuth";
 
 // Cache TTL in seconds (5 minutes)
 const CACHE_TTL = 300;
 const reportsCache = new Map();
 
-export async function GET(req: Request) {
-  const session = await getServerSession(authOptions);
-
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
-
+export const GET = withPermission("receipt", "read", async (req, { session }) => {
   const userId = session.user.id;
   const cacheKey = `reports-${userId}`;
   
@@ -90,7 +83,7 @@ export async function GET(req: Request) {
       { status: 500 }
     );
   }
-}
+});
 
 // For cache invalidation when a user uploads a new report or existing ones are modified
 export async function invalidateCache(userId: string) {
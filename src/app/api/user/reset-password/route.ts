@@ -1,16 +1,9 @@
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/routeAuth";
 import bcrypt from "bcryptjs";
 
-export async function PUT(req: Request) {
-  const session = await getServerSession(authOptions);
-
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
-
+export const PUT = withPermission("profile", "update", async (req, { session }) => {
   try {
     const data = await req.json();
     const { currentPassword, newPassword } = data;
@@ -72,4 +65,4 @@ export async function PUT(req: Request) {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+});
\ No newline at end of file
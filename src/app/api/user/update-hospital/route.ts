@@ -1,24 +1,9 @@
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
 import prisma from "@/lib/prisma";
+import { withPermission } from "@/lib/routeAuth";
 
-export async function POST(req: Request) {
+export const POST = withPermission("hospitalAssignment", "update", async (req, { session }) => {
   try {
-    const session = await getServerSession(authOptions);
-
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    // Both hospital users and admin users can update hospital ID
-    if (session.user.role !== "HOSPITAL" && session.user.role !== "ADMIN") {
-      return NextResponse.json(
-        { error: "Only hospital administrators and admins can update hospital assignments" },
-        { status: 403 }
-      );
-    }
-
     const body = await req.json();
     const { hospitalId } = body;
 
@@ -102,7 +87,7 @@ export async function POST(req: Request) {
       { status: 500 }
     );
   }
-}
+});
 
 // Add support for PUT method with the same implementation
 export { POST as PUT }; 
\ No newline at end of file
@@ -42,7 +42,7 @@ export default function ChatPage() {
       {/* Chat interface takes the remaining space */}
       <div className="flex-grow h-[calc(100vh-64px)]">
         {session?.user && (
-          <ChatInterface patientId={session.user.id} fullPage={true} />
+          <ChatInterface fullPage={true} />
         )}
       </div>
     </div>
@@ -38,14 +38,34 @@ export default function FixHospitalPage() {
       if (status !== "authenticated") return;
       
       try {
-        const response = await fetch("/api/debug/repair-hospital");
-        if (response.ok) {
-          const data = await response.json();
-          setDiagnosticData(data);
-        } else {
+        const response = await fetch("/api/user/profile");
+        if (!response.ok) {
           const errorData = await response.json();
           setError(errorData.error || "Failed to load diagnostic data");
+          return;
+        }
+
+        const user = await response.json();
+        let hospitalDetails = null;
+        let repairResult = null;
+
+        if (user.hospital) {
+          const hospitalResponse = await fetch(`/api/hospitals/${user.hospital}`);
+          if (hospitalResponse.ok) {
+            hospitalDetails = await hospitalResponse.json();
+          } else if (hospitalResponse.status === 404) {
+            repairResult = "Your account is linked to a hospital that no longer exists. Select your hospital below.";
+          }
+        } else if (user.role === "HOSPITAL") {
+          repairResult = "Hospital admin without hospital ID";
         }
+
+        setDiagnosticData({
+          user: { id: user.id, name: user.name, email: user.email, role: user.role, hospitalId: user.hospital },
+          hospitalDetails,
+          repairResult,
+          sessionHospital: session?.user?.hospital
+        });
       } catch (error) {
         setError("Error connecting to the server");
         console.error("Error fetching diagnostic data:", error);
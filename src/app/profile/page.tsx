@@ -4,6 +4,10 @@ import { useState, useEffect } from "react";
 import { useSession } from "next-auth/react";
 import { redirect } from "next/navigation";
 import Link from "next/link";
+import { getBrowserLocation } from "@/lib/geo";
+import type { Coordinates } from "@/lib/geo";
+import { LANGUAGES, LOCALES, suggestedLocale, toLocale } from "@/lib/i18n";
+import { useTranslation } from "@/hooks/useTranslation";
 
 interface HospitalDetails {
   id: string;
@@ -11,11 +15,16 @@ interface HospitalDetails {
   state: string;
   city?: string | null;
   address?: string | null;
+  pincode?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
 }
 
 export default function ProfilePage() {
   const { data: session, status, update } = useSession();
+  const { t } = useTranslation();
   const [isUpdating, setIsUpdating] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
   const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
   
   // UI state
@@ -29,6 +38,7 @@ export default function ProfilePage() {
   const [gender, setGender] = useState<string>("");
   const [phone, setPhone] = useState<string>("");
   const [userAddress, setUserAddress] = useState<string>("");
+  const [language, setLanguage] = useState<string>("en");
   const [states, setStates] = useState<{ id: string; name: string }[]>([]);
   const [profileComplete, setProfileComplete] = useState(false);
   
@@ -42,6 +52,10 @@ export default function ProfilePage() {
   const [hospitalAddress, setHospitalAddress] = useState("");
   const [hospitalCity, setHospitalCity] = useState("");
   const [hospitalState, setHospitalState] = useState("");
+  const [hospitalPincode, setHospitalPincode] = useState("");
+  // Used to route emergency alerts to the nearest hospital
+  const [hospitalLocation, setHospitalLocation] = useState<Coordinates | null>(null);
+  const [isLocating, setIsLocating] = useState(false);
   const [hospitalDetails, setHospitalDetails] = useState<HospitalDetails | null>(null);
   const [isLoadingHospital, setIsLoadingHospital] = useState(false);
 
@@ -124,6 +138,7 @@ export default function ProfilePage() {
       setGender(userData.gender || "");
       setPhone(userData.phone || "");
       setUserAddress(userData.address || "");
+      setLanguage(toLocale(userData.language));
       
       // Check if profile is complete
       const isComplete = Boolean(
@@ -215,6 +230,8 @@ export default function ProfilePage() {
       setHospitalState(data.state || "");
       setHospitalCity(data.city || "");
       setHospitalAddress(data.address || "");
+      setHospitalPincode(data.pincode || "");
+      setHospitalLocation(data.latitude != null && data.longitude != null ? { latitude: data.latitude, longitude: data.longitude } : null);
     } catch (error) {
       console.error("Error fetching hospital details:", error);
       setMessage({ 
@@ -249,6 +266,8 @@ export default function ProfilePage() {
           setHospitalState(hospital.state || "");
           setHospitalCity(hospital.city || "");
           setHospitalAddress(hospital.address || "");
+          setHospitalPincode(hospital.pincode || "");
+          setHospitalLocation(hospital.latitude != null && hospital.longitude != null ? { latitude: hospital.latitude, longitude: hospital.longitude } : null);
           
           // Update the user's hospital field to use the ID instead of name
           if (session?.user) {
@@ -327,6 +346,7 @@ export default function ProfilePage() {
           gender: gender || null,
           phone: phone || null,
           address: userAddress || null,
+          language,
         }),
       });
 
@@ -356,6 +376,7 @@ export default function ProfilePage() {
               gender: gender || null,
               phone: phone || null,
               address: userAddress || null,
+              language,
             }
           });
           
@@ -382,6 +403,60 @@ export default function ProfilePage() {
     }
   }
 
+  // Import a FHIR bundle of records from another provider
+  async function handleRecordImport(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setIsImporting(true);
+    setMessage(null);
+
+    try {
+      const response = await fetch('/api/fhir', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/fhir+json',
+        },
+        body: await file.text(),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        const issue = result.issue?.[0];
+        throw new Error(issue ? `${issue.diagnostics}${issue.expression ? ` (${issue.expression[0]})` : ""}` : "Failed to import records");
+      }
+
+      const statuses: string[] = (result.entry || []).map((entry: { response: { status: string } }) => entry.response.status);
+      const added = statuses.filter(status => status.startsWith("201")).length;
+      const skipped = statuses.filter(status => status.startsWith("422")).length;
+
+      setMessage({
+        type: "success",
+        text: `Imported ${added} new record${added === 1 ? "" : "s"}` +
+          (skipped > 0 ? `; ${skipped} could not be imported (appointments, alerts and unsupported resources)` : "")
+      });
+    } catch (error) {
+      console.error("Error importing records:", error);
+      setMessage({ type: "error", text: error instanceof Error ? error.message : "Failed to import records" });
+    } finally {
+      setIsImporting(false);
+    }
+  }
+
+  // Take the hospital's coordinates from this device, for use while on site
+  async function handleUseDeviceLocation() {
+    setIsLocating(true);
+    const location = await getBrowserLocation(10000);
+    setIsLocating(false);
+
+    if (location) {
+      setHospitalLocation(location);
+    } else {
+      setMessage({ type: "error", text: "Could not get this device's location. Allow location access and try again." });
+    }
+  }
+
   // Update hospital profile
   async function handleHospitalUpdateSubmit(e: React.FormEvent) {
     e.preventDefault();
@@ -401,6 +476,9 @@ export default function ProfilePage() {
           state: hospitalState,
           city: hospitalCity,
           address: hospitalAddress,
+          pincode: hospitalPincode || null,
+          latitude: hospitalLocation?.latitude ?? null,
+          longitude: hospitalLocation?.longitude ?? null,
         }),
       });
 
@@ -414,7 +492,10 @@ export default function ProfilePage() {
           name: hospitalName,
           state: hospitalState,
           city: hospitalCity,
-          address: hospitalAddress
+          address: hospitalAddress,
+          pincode: hospitalPincode || null,
+          latitude: hospitalLocation?.latitude ?? null,
+          longitude: hospitalLocation?.longitude ?? null
         });
       } else {
         const error = await response.json();
@@ -538,6 +619,16 @@ export default function ProfilePage() {
                   </dd>
                 </div>
                 <div className="bg-white px-4 py-5 sm:grid sm:grid-cols-3 sm:gap-4 sm:px-6">
+                  <dt className="text-sm font-medium text-gray-500">Map Location</dt>
+                  <dd className="mt-1 text-sm text-gray-900 sm:col-span-2 sm:mt-0">
+                    {hospitalDetails.latitude != null && hospitalDetails.longitude != null
+                      ? `${hospitalDetails.latitude.toFixed(5)}, ${hospitalDetails.longitude.toFixed(5)}`
+                      : hospitalDetails.pincode
+                        ? `Not set; emergency alerts use the centre of PIN code ${hospitalDetails.pincode}`
+                        : "Not set"}
+                  </dd>
+                </div>
+                <div className="bg-gray-50 px-4 py-5 sm:grid sm:grid-cols-3 sm:gap-4 sm:px-6">
                   <dt className="text-sm font-medium text-gray-500">Hospital Administrator</dt>
                   <dd className="mt-1 text-sm text-gray-900 sm:col-span-2 sm:mt-0 flex items-center">
                     <span className="font-medium">{session?.user?.name}</span>
@@ -546,7 +637,7 @@ export default function ProfilePage() {
                     </span>
                   </dd>
                 </div>
-                <div className="bg-gray-50 px-4 py-5 sm:grid sm:grid-cols-3 sm:gap-4 sm:px-6">
+                <div className="bg-white px-4 py-5 sm:grid sm:grid-cols-3 sm:gap-4 sm:px-6">
                   <dt className="text-sm font-medium text-gray-500">Contact Email</dt>
                   <dd className="mt-1 text-sm text-gray-900 sm:col-span-2 sm:mt-0">
                     {session?.user?.email}
@@ -649,6 +740,46 @@ export default function ProfilePage() {
                       Enter the full hospital address with pin/zip code
                     </p>
                   </div>
+
+                  <div className="sm:col-span-3">
+                    <label htmlFor="hospitalPincode" className="block text-sm font-medium text-gray-700">
+                      PIN Code
+                    </label>
+                    <div className="mt-1">
+                      <input
+                        type="text"
+                        id="hospitalPincode"
+                        name="hospitalPincode"
+                        inputMode="numeric"
+                        pattern="[1-9][0-9]{5}"
+                        className="shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                        value={hospitalPincode}
+                        onChange={(e) => setHospitalPincode(e.target.value)}
+                      />
+                    </div>
+                  </div>
+
+                  <div className="sm:col-span-3">
+                    <span className="block text-sm font-medium text-gray-700">Map Location</span>
+                    <div className="mt-1 flex items-center space-x-3">
+                      <span className="text-sm text-gray-900">
+                        {hospitalLocation
+                          ? `${hospitalLocation.latitude.toFixed(5)}, ${hospitalLocation.longitude.toFixed(5)}`
+                          : "Not set"}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={handleUseDeviceLocation}
+                        disabled={isLocating}
+                        className="text-sm font-medium text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+                      >
+                        {isLocating ? "Locating..." : "Use this device's location"}
+                      </button>
+                    </div>
+                    <p className="mt-2 text-sm text-gray-500">
+                      Emergency alerts go to the nearest hospital. Set this while at the hospital.
+                    </p>
+                  </div>
                 </div>
 
                 <div className="flex justify-end space-x-3">
@@ -772,6 +903,12 @@ export default function ProfilePage() {
                   </dd>
                 </div>
                 <div className="bg-white px-4 py-5 sm:grid sm:grid-cols-3 sm:gap-4 sm:px-6">
+                  <dt className="text-sm font-medium text-gray-500">{t("language.label")}</dt>
+                  <dd className="mt-1 text-sm text-gray-900 sm:col-span-2 sm:mt-0">
+                    {LANGUAGES[toLocale(session?.user?.language)].nativeName}
+                  </dd>
+                </div>
+                <div className="bg-gray-50 px-4 py-5 sm:grid sm:grid-cols-3 sm:gap-4 sm:px-6">
                   <dt className="text-sm font-medium text-gray-500">Account Type</dt>
                   <dd className="mt-1 text-sm sm:col-span-2 sm:mt-0">
                     <span className="inline-flex items-center rounded-full bg-blue-100 px-3 py-0.5 text-sm font-medium text-blue-800">
@@ -794,6 +931,33 @@ export default function ProfilePage() {
                   </button>
                 </div>
               </div>
+              {session?.user?.role === "USER" && (
+                <div className="bg-white px-4 py-4 sm:px-6 border-t border-gray-200">
+                  <h4 className="text-sm font-medium text-gray-900">Health record (FHIR)</h4>
+                  <p className="mt-1 text-sm text-gray-500">
+                    Take your reports, appointments and medicines to another provider, or bring in records from one.
+                  </p>
+                  <div className="mt-3 flex flex-wrap items-center gap-4 text-sm">
+                    <a
+                      href={`/api/fhir/Patient/${session.user.id}/$everything`}
+                      download="health-record.fhir.json"
+                      className="font-medium text-indigo-600 hover:text-indigo-500"
+                    >
+                      Export my health record
+                    </a>
+                    <label className={`font-medium text-indigo-600 hover:text-indigo-500 ${isImporting ? "opacity-50" : "cursor-pointer"}`}>
+                      {isImporting ? "Importing..." : "Import records"}
+                      <input
+                        type="file"
+                        accept=".json,application/json,application/fhir+json"
+                        onChange={handleRecordImport}
+                        disabled={isImporting}
+                        className="sr-only"
+                      />
+                    </label>
+                  </div>
+                </div>
+              )}
             </div>
           </div>
           
@@ -902,6 +1066,31 @@ export default function ProfilePage() {
                       </div>
                     </div>
 
+                    <div className="sm:col-span-3">
+                      <label htmlFor="language" className="block text-sm font-medium text-gray-700">
+                        {t("language.label")}
+                      </label>
+                      <div className="mt-1">
+                        <select
+                          id="language"
+                          name="language"
+                          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm bg-white text-gray-700"
+                          value={language}
+                          onChange={(e) => setLanguage(e.target.value)}
+                        >
+                          {LOCALES.map((locale) => (
+                            <option key={locale} value={locale} className="text-gray-700">
+                              {LANGUAGES[locale].nativeName}
+                              {locale === suggestedLocale(userState) && ` (${t("language.suggested", { state: userState })})`}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      <p className="mt-2 text-sm text-gray-500">
+                        {t("language.hint")}
+                      </p>
+                    </div>
+
                     <div className="sm:col-span-6">
                       <label htmlFor="address" className="block text-sm font-medium text-gray-700">
                         Address
@@ -0,0 +1,202 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useLiveEvents } from "@/hooks/useLiveEvents";
+import type { LiveEvent } from "@/lib/events";
+import { ALERT_STATUS_LABELS, allowedTransitions, formatDuration } from "@/lib/alertLifecycle";
+import type { AlertStatus, ResponseMetrics } from "@/lib/alertLifecycle";
+
+type AlertHospital = {
+  id: string;
+  name: string;
+  city: string | null;
+  closedAt: string | null;
+};
+
+type AlertEvent = {
+  id: string;
+  fromStatus: AlertStatus | null;
+  toStatus: AlertStatus;
+  actorRole: "USER" | "HOSPITAL" | "ADMIN" | null;
+  note: string | null;
+  createdAt: string;
+  hospital: { id: string; name: string } | null;
+};
+
+type AlertProgress = {
+  id: string;
+  status: AlertStatus;
+  createdAt: string;
+  escalationLevel: number;
+  nextEscalationAt: string | null;
+  hospital: { id: string; name: string; city: string | null };
+  steps: {
+    level: number;
+    mode: "REROUTE" | "BROADCAST" | null;
+    at: string;
+    hospitals: AlertHospital[];
+  }[];
+  // Status changes after the alert was raised
+  events: AlertEvent[];
+  metrics: ResponseMetrics;
+};
+
+const STATUS_TEXT: Record<AlertStatus, string> = {
+  PENDING: "Waiting for a hospital to acknowledge",
+  ACKNOWLEDGED: "Acknowledged",
+  RESPONDED: "Help is on the way",
+  CLOSED: "Closed",
+  CANCELLED: "You cancelled this alert",
+  FALSE_ALARM: "Closed as a false alarm"
+};
+
+function stepLabel(step: AlertProgress["steps"][number]) {
+  if (step.level === 0) return "Sent to";
+  return step.mode === "BROADCAST" ? "No answer yet, also sent to" : "No answer, re-routed to";
+}
+
+function formatTime(date: string) {
+  return new Date(date).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+}
+
+/**
+ * Live progress of an emergency alert for the patient who raised it: which
+ * hospitals it has reached, when it escalates next, every status change and
+ * how quickly it came. The patient can cancel the alert from here.
+ */
+export default function EmergencyAlertTracker({ alertId }: { alertId: string }) {
+  const [alert, setAlert] = useState<AlertProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [cancelling, setCancelling] = useState(false);
+
+  const fetchProgress = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/user/emergency-alert/${alertId}`, { cache: "no-store" });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to fetch alert status");
+      }
+      setAlert(data);
+      setError(null);
+    } catch (error) {
+      console.error("Error fetching emergency alert status:", error);
+      setError(error instanceof Error ? error.message : "Failed to fetch alert status");
+    }
+  }, [alertId]);
+
+  useEffect(() => {
+    fetchProgress();
+  }, [fetchProgress]);
+
+  const handleLiveEvent = useCallback((event: LiveEvent) => {
+    if ((event.type === "emergency.escalated" || event.type === "emergency.updated") && event.alertId === alertId) {
+      fetchProgress();
+    }
+  }, [alertId, fetchProgress]);
+
+  useLiveEvents("/api/user/events", handleLiveEvent, { onPoll: fetchProgress, pollIntervalMs: 10000 });
+
+  const cancelAlert = async () => {
+    if (!confirm("Cancel this emergency alert? Hospitals will stop responding to it.")) {
+      return;
+    }
+
+    setCancelling(true);
+
+    try {
+      const response = await fetch(`/api/user/emergency-alert/${alertId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status: "CANCELLED" })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to cancel the alert");
+      }
+      await fetchProgress();
+    } catch (error) {
+      console.error("Error cancelling emergency alert:", error);
+      setError(error instanceof Error ? error.message : "Failed to cancel the alert");
+    } finally {
+      setCancelling(false);
+    }
+  };
+
+  if (error && !alert) {
+    return <p className="mt-4 text-sm text-red-600">{error}</p>;
+  }
+
+  if (!alert) {
+    return <p className="mt-4 text-sm text-gray-500">Loading alert status...</p>;
+  }
+
+  const acknowledged = alert.status !== "PENDING";
+  const ended = alert.status === "CANCELLED" || alert.status === "FALSE_ALARM";
+  const updates = alert.events.filter(event => event.fromStatus);
+  const canCancel = allowedTransitions(alert.status, "USER").includes("CANCELLED");
+
+  return (
+    <div className="mt-4 p-4 bg-gray-50 rounded-md text-left">
+      <p className={`text-sm font-medium ${ended ? "text-gray-700" : acknowledged ? "text-green-700" : "text-red-700"}`}>
+        {STATUS_TEXT[alert.status]}
+        {acknowledged && !ended && ` by ${alert.hospital.name}`}
+      </p>
+
+      <ol className="mt-3 space-y-2 border-l-2 border-gray-200 pl-3">
+        {alert.steps.map(step => (
+          <li key={step.level} className="text-sm">
+            <p className="text-xs text-gray-500">{formatTime(step.at)}</p>
+            <p className="text-gray-700">
+              {stepLabel(step)}{" "}
+              {step.hospitals.map((hospital, index) => (
+                <span key={hospital.id} className={hospital.closedAt && hospital.id !== alert.hospital.id ? "line-through text-gray-400" : "font-medium"}>
+                  {index > 0 && ", "}
+                  {hospital.name}
+                  {hospital.city && ` (${hospital.city})`}
+                </span>
+              ))}
+            </p>
+          </li>
+        ))}
+        {updates.map(event => (
+          <li key={event.id} className="text-sm">
+            <p className="text-xs text-gray-500">{formatTime(event.createdAt)}</p>
+            <p className="text-gray-700">
+              {ALERT_STATUS_LABELS[event.toStatus]}
+              {event.hospital && ` by ${event.hospital.name}`}
+            </p>
+            {event.note && <p className="text-xs text-gray-500">{event.note}</p>}
+          </li>
+        ))}
+      </ol>
+
+      {alert.metrics.acknowledgeSeconds !== null && (
+        <p className="mt-3 text-xs text-gray-500">
+          Acknowledged {formatDuration(alert.metrics.acknowledgeSeconds)} after you raised the alert
+          {alert.metrics.respondSeconds !== null && `, responded to after ${formatDuration(alert.metrics.respondSeconds)}`}
+        </p>
+      )}
+
+      {!acknowledged && (
+        <p className="mt-3 text-xs text-gray-500">
+          {alert.nextEscalationAt
+            ? `If nobody answers by ${formatTime(alert.nextEscalationAt)}, the alert goes to more hospitals nearby.`
+            : "There are no more hospitals nearby to escalate to. If you can, call 108 for an ambulance."}
+        </p>
+      )}
+
+      {error && <p className="mt-3 text-xs text-red-600">{error}</p>}
+
+      {canCancel && (
+        <button
+          type="button"
+          onClick={cancelAlert}
+          disabled={cancelling}
+          className="mt-3 text-xs font-medium text-gray-600 hover:text-gray-800 underline disabled:opacity-50"
+        >
+          {cancelling ? "Cancelling..." : "I no longer need help - cancel this alert"}
+        </button>
+      )}
+    </div>
+  );
+}
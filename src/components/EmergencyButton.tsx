@@ -2,12 +2,16 @@
 
 import { useState, useEffect } from "react";
 import { useSession } from "next-auth/react";
+import EmergencyAlertTracker from "./EmergencyAlertTracker";
+import { formatDistance, getBrowserLocation } from "@/lib/geo";
+import type { Coordinates } from "@/lib/geo";
 
 type Hospital = {
   id: string;
   name: string;
   city?: string | null;
   address?: string | null;
+  distanceKm?: number | null;
 };
 
 export default function EmergencyButton() {
@@ -16,10 +20,11 @@ export default function EmergencyButton() {
   const [isLoading, setIsLoading] = useState(false);
   const [showConfirm, setShowConfirm] = useState(false);
   const [showInitialWarning, setShowInitialWarning] = useState(false);
-  const [response, setResponse] = useState<{ success?: boolean; message?: string; hospitalInfo?: any } | null>(null);
+  const [response, setResponse] = useState<{ success?: boolean; message?: string; alertId?: string; hospitalInfo?: any } | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [hospitals, setHospitals] = useState<Hospital[]>([]);
   const [selectedHospitalId, setSelectedHospitalId] = useState<string>("");
+  const [location, setLocation] = useState<Coordinates | null>(null);
   const [debugInfo, setDebugInfo] = useState<string | null>(null);
 
   // Fetch hospitals in user's state when modal opens
@@ -48,7 +53,13 @@ export default function EmergencyButton() {
     setDebugInfo(debugMsg);
     
     try {
-      const apiUrl = `/api/hospitals?state=${encodeURIComponent(session.user.state)}`;
+      // Nearest hospitals first when the browser shares where the patient is
+      const currentLocation = await getBrowserLocation();
+      setLocation(currentLocation);
+      setDebugInfo(prev => `${prev}\nLocation: ${currentLocation ? `${currentLocation.latitude}, ${currentLocation.longitude}` : 'not shared'}`);
+
+      const apiUrl = `/api/hospitals?state=${encodeURIComponent(session.user.state)}` +
+        (currentLocation ? `&lat=${currentLocation.latitude}&lng=${currentLocation.longitude}` : '');
       setDebugInfo(prev => `${prev}\nFetching from: ${apiUrl}`);
       console.log(`Making API request to: ${apiUrl}`);
       
@@ -95,7 +106,7 @@ export default function EmergencyButton() {
           setHospitals(data.hospitals);
           setDebugInfo(prev => `${prev}\nFound ${data.hospitals.length} hospitals`);
           
-          // Auto-select the first hospital if available
+          // Auto-select the first (nearest) hospital if available
           if (data.hospitals.length > 0) {
             setSelectedHospitalId(data.hospitals[0].id);
             setDebugInfo(prev => `${prev}\nAuto-selected hospital: ${data.hospitals[0].name} (${data.hospitals[0].id})`);
@@ -154,7 +165,8 @@ export default function EmergencyButton() {
     
     try {
       const requestBody = {
-        hospitalId: selectedHospitalId
+        hospitalId: selectedHospitalId,
+        ...(location && { latitude: location.latitude, longitude: location.longitude })
       };
       
       setDebugInfo(prev => `${prev}\nRequest body: ${JSON.stringify(requestBody)}`);
@@ -375,6 +387,7 @@ export default function EmergencyButton() {
                               {hospitals.map(hospital => (
                                 <option key={hospital.id} value={hospital.id}>
                                   {hospital.name} {hospital.city ? `- ${hospital.city}` : ''}
+                                  {hospital.distanceKm != null ? ` (${formatDistance(hospital.distanceKm)})` : ''}
                                 </option>
                               ))}
                             </select>
@@ -485,8 +498,12 @@ export default function EmergencyButton() {
                         <p className="text-sm text-gray-600">
                           {[response.hospitalInfo.address, response.hospitalInfo.city].filter(Boolean).join(', ')}
                         </p>
+                        {response.hospitalInfo.distanceKm != null && (
+                          <p className="text-sm text-gray-600">About {formatDistance(response.hospitalInfo.distanceKm)} away</p>
+                        )}
                       </div>
                     )}
+                    {response.alertId && <EmergencyAlertTracker alertId={response.alertId} />}
                   </div>
                 </div>
               </div>
@@ -3,6 +3,8 @@
 import { useState, useEffect, useCallback, useMemo } from "react";
 import { indianStates } from "@/lib/states";
 import { INDIAN_STATES } from "@/lib/constants";
+import { formatDistance, getBrowserLocation, rankByDistance } from "@/lib/geo";
+import type { Coordinates } from "@/lib/geo";
 
 // Match the Hospital model from the Prisma schema
 interface Hospital {
@@ -11,14 +13,19 @@ interface Hospital {
   state: string;
   city?: string | null;
   address?: string | null;
-  // Extracted from address for display purposes
-  pincode?: string;
+  pincode?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  // Set once the patient's location is known
+  distanceKm?: number | null;
 }
 
 interface HospitalSelectorProps {
   onSelectHospital: (hospital: Hospital | null) => void;
   selectedHospitalId?: string | null;
   initialStateFilter?: string;
+  // Where the patient is, to list the nearest hospitals first
+  location?: Coordinates | null;
 }
 
 // Cache for hospitals to avoid repeated fetches
@@ -28,11 +35,21 @@ const GLOBAL_HOSPITALS_CACHE = new Map<string, {
 }>();
 const CACHE_TTL = 5 * 60 * 1000; // 5 minutes in milliseconds
 
-export default function HospitalSelector({ onSelectHospital, selectedHospitalId, initialStateFilter }: HospitalSelectorProps) {
+export default function HospitalSelector({ onSelectHospital, selectedHospitalId, initialStateFilter, location }: HospitalSelectorProps) {
   const [selectedState, setSelectedState] = useState<string>(initialStateFilter || "");
   const [hospitals, setHospitals] = useState<Hospital[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [sharedLocation, setSharedLocation] = useState<Coordinates | null>(null);
+  const [locating, setLocating] = useState(false);
+
+  const origin = location || sharedLocation;
+
+  // Nearest first once the patient's location is known
+  const rankedHospitals = useMemo(
+    () => (origin ? rankByDistance(origin, hospitals) : hospitals),
+    [origin, hospitals]
+  );
   
   // Use static states
   const states = useMemo(() => INDIAN_STATES.map(state => state.name), []);
@@ -130,6 +147,18 @@ export default function HospitalSelector({ onSelectHospital, selectedHospitalId,
     onSelectHospital(null); // Clear selected hospital when state changes
   };
   
+  const handleUseLocation = async () => {
+    setLocating(true);
+    const currentLocation = await getBrowserLocation();
+    setLocating(false);
+
+    if (currentLocation) {
+      setSharedLocation(currentLocation);
+    } else {
+      setError("Could not get your location. Allow location access in your browser to see distances.");
+    }
+  };
+
   const handleHospitalChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     const hospitalId = e.target.value;
     if (!hospitalId) {
@@ -137,7 +166,7 @@ export default function HospitalSelector({ onSelectHospital, selectedHospitalId,
       return;
     }
     
-    const selectedHospital = hospitals.find(h => h.id === hospitalId) || null;
+    const selectedHospital = rankedHospitals.find(h => h.id === hospitalId) || null;
     onSelectHospital(selectedHospital);
   };
   
@@ -166,9 +195,21 @@ export default function HospitalSelector({ onSelectHospital, selectedHospitalId,
       </div>
       
       <div>
-        <label htmlFor="hospital" className="block text-sm font-medium text-gray-700 mb-1">
-          Hospital
-        </label>
+        <div className="flex items-center justify-between mb-1">
+          <label htmlFor="hospital" className="block text-sm font-medium text-gray-700">
+            Hospital
+          </label>
+          {!origin && (
+            <button
+              type="button"
+              onClick={handleUseLocation}
+              disabled={locating}
+              className="text-xs font-medium text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+            >
+              {locating ? "Locating..." : "Show nearest first"}
+            </button>
+          )}
+        </div>
         <div className="relative">
           <select
             id="hospital"
@@ -179,9 +220,10 @@ export default function HospitalSelector({ onSelectHospital, selectedHospitalId,
             disabled={loading}
           >
             <option value="" className="text-gray-700">Select a Hospital</option>
-            {hospitals.length > 0 && hospitals.map(hospital => (
+            {rankedHospitals.length > 0 && rankedHospitals.map(hospital => (
               <option key={hospital.id} value={hospital.id} className="text-gray-700">
                 {hospital.name}{hospital.city ? ` - ${hospital.city}` : ""}, {hospital.state}
+                {hospital.distanceKm != null ? ` (${formatDistance(hospital.distanceKm)})` : ""}
               </option>
             ))}
           </select>
@@ -3,6 +3,7 @@
 import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { Hospital } from "@/types";
+import type { DoctorSlots } from "@/services/scheduling";
 
 type AppointmentFormProps = {
   onSuccess?: (data: any) => void;
@@ -21,6 +22,11 @@ export default function AppointmentForm({ onSuccess }: AppointmentFormProps) {
   const [preferredDate, setPreferredDate] = useState("");
   const [symptoms, setSymptoms] = useState("");
   
+  // Open slots for the chosen hospital and date; no selection lets the hospital pick
+  const [availableSlots, setAvailableSlots] = useState<DoctorSlots[]>([]);
+  const [loadingSlots, setLoadingSlots] = useState(false);
+  const [selectedSlot, setSelectedSlot] = useState<{ doctorId: string; start: string } | null>(null);
+  
   // Calculate minimum date (tomorrow)
   const tomorrow = new Date();
   tomorrow.setDate(tomorrow.getDate() + 1);
@@ -72,6 +78,42 @@ export default function AppointmentForm({ onSuccess }: AppointmentFormProps) {
     fetchHospitals();
   }, []);
 
+  // Fetch open slots whenever the hospital or date changes
+  useEffect(() => {
+    setSelectedSlot(null);
+    setAvailableSlots([]);
+    
+    if (!hospitalId || !preferredDate) return;
+    
+    const controller = new AbortController();
+    
+    async function fetchSlots() {
+      try {
+        setLoadingSlots(true);
+        const response = await fetch(`/api/hospitals/${hospitalId}/slots?date=${preferredDate}`, {
+          signal: controller.signal
+        });
+        
+        if (!response.ok) {
+          throw new Error("Failed to fetch slots");
+        }
+        
+        const data = await response.json();
+        setAvailableSlots(data.doctors || []);
+      } catch (error) {
+        if (error instanceof DOMException && error.name === "AbortError") return;
+        console.error("Error fetching slots:", error);
+        setAvailableSlots([]);
+      } finally {
+        setLoadingSlots(false);
+      }
+    }
+    
+    fetchSlots();
+    
+    return () => controller.abort();
+  }, [hospitalId, preferredDate]);
+
   // Handle form submission
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -161,8 +203,12 @@ export default function AppointmentForm({ onSuccess }: AppointmentFormProps) {
         },
         body: JSON.stringify({
           hospitalId,
-          preferredDate: dateToSend,
+          preferredDate: selectedSlot ? selectedSlot.start : dateToSend,
           symptoms: symptoms.trim(),
+          ...(selectedSlot && {
+            doctorId: selectedSlot.doctorId,
+            slotStart: selectedSlot.start
+          }),
         }),
           signal: controller.signal
       });
@@ -193,6 +239,11 @@ export default function AppointmentForm({ onSuccess }: AppointmentFormProps) {
         }
       }
       
+      if (response.status === 409) {
+        // Someone else took the slot in the meantime
+        setSelectedSlot(null);
+      }
+      
       if (!response.ok) {
         console.error("API error response:", responseData);
         if (responseData.error) {
@@ -210,6 +261,7 @@ export default function AppointmentForm({ onSuccess }: AppointmentFormProps) {
       setHospitalId("");
       setPreferredDate("");
       setSymptoms("");
+      setSelectedSlot(null);
       
       // Call success callback if provided
       if (onSuccess) {
@@ -378,6 +430,67 @@ export default function AppointmentForm({ onSuccess }: AppointmentFormProps) {
             </p>
           </div>
 
+          {/* Time slot */}
+          {hospitalId && preferredDate && (
+            <div>
+              <span className="block text-sm font-medium text-gray-700">
+                Choose a Time (optional)
+              </span>
+              {loadingSlots ? (
+                <p className="mt-1 text-xs text-gray-500">Loading available times...</p>
+              ) : availableSlots.length === 0 ? (
+                <p className="mt-1 text-xs text-gray-500">
+                  No open times on this date. The hospital will schedule a time for you.
+                </p>
+              ) : (
+                <div className="mt-2 space-y-3">
+                  <button
+                    type="button"
+                    onClick={() => setSelectedSlot(null)}
+                    disabled={loading}
+                    className={`rounded-md border px-3 py-1 text-xs font-medium ${
+                      selectedSlot === null
+                        ? "border-indigo-600 bg-indigo-600 text-white"
+                        : "border-gray-300 bg-white text-gray-700 hover:bg-gray-50"
+                    }`}
+                  >
+                    Let the hospital choose
+                  </button>
+                  {availableSlots.map(({ doctor, slots }) => (
+                    <div key={doctor.id}>
+                      <p className="text-xs font-medium text-gray-600">
+                        {doctor.name} ({doctor.specialty})
+                      </p>
+                      <div className="mt-1 flex flex-wrap gap-2">
+                        {slots.map(slot => {
+                          const isSelected = selectedSlot?.doctorId === doctor.id && selectedSlot.start === slot.start;
+                          return (
+                            <button
+                              key={slot.start}
+                              type="button"
+                              onClick={() => setSelectedSlot({ doctorId: doctor.id, start: slot.start })}
+                              disabled={loading}
+                              className={`rounded-md border px-2 py-1 text-xs ${
+                                isSelected
+                                  ? "border-indigo-600 bg-indigo-600 text-white"
+                                  : "border-gray-300 bg-white text-gray-700 hover:bg-gray-50"
+                              }`}
+                            >
+                              {new Date(slot.start).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                            </button>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  ))}
+                  <p className="text-xs text-gray-500">
+                    If you let the hospital choose, a doctor is matched to your symptoms.
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Symptoms */}
           <div>
             <label htmlFor="symptoms" className="block text-sm font-medium text-gray-700">
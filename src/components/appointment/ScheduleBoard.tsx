@@ -0,0 +1,229 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+
+type BoardAppointment = {
+  id: string;
+  status: string;
+  severity: number | null;
+  specialty?: string | null;
+  preferredDate?: string;
+  doctorId?: string | null;
+  user: { id: string; name: string | null } | null;
+};
+
+type BoardSlot = {
+  start: string;
+  end: string;
+  capacity: number;
+  booked: number;
+  remaining: number;
+  appointments: BoardAppointment[];
+};
+
+type BoardDoctor = {
+  doctor: { id: string; name: string; specialty: string; slotMinutes: number; slotCapacity: number };
+  slots: BoardSlot[];
+};
+
+type ScheduleBoardProps = {
+  // Called after an appointment was moved, so the parent can refresh its list
+  onChange?: () => void;
+};
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+
+// Today's date as YYYY-MM-DD in the browser's time zone
+const today = () => new Date().toLocaleDateString("en-CA");
+
+export default function ScheduleBoard({ onChange }: ScheduleBoardProps) {
+  const [date, setDate] = useState(today);
+  const [doctors, setDoctors] = useState<BoardDoctor[]>([]);
+  const [unscheduled, setUnscheduled] = useState<BoardAppointment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [moving, setMoving] = useState(false);
+
+  const fetchBoard = useCallback(async () => {
+    setLoading(true);
+
+    try {
+      const response = await fetch(`/api/hospital/schedule?date=${date}`, { cache: "no-store" });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load the schedule");
+      }
+
+      setDoctors(data.doctors);
+      setUnscheduled(data.unscheduled);
+    } catch (error) {
+      console.error("Error fetching schedule:", error);
+      setError(error instanceof Error ? error.message : "Failed to load the schedule");
+    } finally {
+      setLoading(false);
+    }
+  }, [date]);
+
+  useEffect(() => {
+    fetchBoard();
+  }, [fetchBoard]);
+
+  // Book the dragged appointment into a doctor's slot
+  const moveAppointment = async (appointmentId: string, doctorId: string, slot: BoardSlot) => {
+    if (slot.appointments.some(appointment => appointment.id === appointmentId)) return;
+
+    setMoving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/appointments/${appointmentId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ doctorId, scheduledDate: slot.start })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to move the appointment");
+      }
+
+      onChange?.();
+    } catch (error) {
+      console.error("Error moving appointment:", error);
+      setError(error instanceof Error ? error.message : "Failed to move the appointment");
+    } finally {
+      setMoving(false);
+      fetchBoard();
+    }
+  };
+
+  const renderCard = (appointment: BoardAppointment) => (
+    <div
+      key={appointment.id}
+      draggable={!moving}
+      onDragStart={(e) => {
+        e.dataTransfer.setData("text/plain", appointment.id);
+        e.dataTransfer.effectAllowed = "move";
+        setDraggingId(appointment.id);
+      }}
+      onDragEnd={() => {
+        setDraggingId(null);
+        setDropTarget(null);
+      }}
+      className={`cursor-move rounded border px-2 py-1 text-xs shadow-sm ${
+        appointment.severity && appointment.severity >= 8
+          ? "border-red-300 bg-red-50 text-red-800"
+          : "border-indigo-200 bg-white text-gray-800"
+      } ${draggingId === appointment.id ? "opacity-50" : ""}`}
+    >
+      <span className="font-medium">{appointment.user?.name || "Patient"}</span>
+      {appointment.severity ? <span className="ml-1 text-gray-500">({appointment.severity}/10)</span> : null}
+      {appointment.status === "PENDING" && <span className="ml-1 text-yellow-700">· pending</span>}
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <label htmlFor="schedule-date" className="text-sm font-medium text-gray-700">Date</label>
+          <input
+            id="schedule-date"
+            type="date"
+            value={date}
+            onChange={(e) => e.target.value && setDate(e.target.value)}
+            className="rounded-md border-gray-300 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+          />
+        </div>
+        <p className="text-xs text-gray-500">Drag patients onto a time slot to book or move them.</p>
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-red-50 p-3 text-sm text-red-700 border border-red-200">
+          {error}
+        </div>
+      )}
+
+      {loading && doctors.length === 0 ? (
+        <p className="py-8 text-center text-sm text-gray-500">Loading schedule...</p>
+      ) : (
+        <div className="flex gap-4 overflow-x-auto pb-2">
+          {/* Appointments waiting for a slot */}
+          <div className="w-48 flex-shrink-0 rounded-lg border border-dashed border-gray-300 bg-gray-50 p-2">
+            <h3 className="mb-2 text-xs font-semibold uppercase text-gray-500">
+              Needs a slot ({unscheduled.length})
+            </h3>
+            <div className="space-y-1">
+              {unscheduled.length === 0 ? (
+                <p className="text-xs text-gray-400">All appointments are scheduled.</p>
+              ) : unscheduled.map(renderCard)}
+            </div>
+          </div>
+
+          {doctors.length === 0 ? (
+            <p className="py-8 text-sm text-gray-500">No doctors are registered at this hospital.</p>
+          ) : doctors.map(({ doctor, slots }) => (
+            <div key={doctor.id} className="w-48 flex-shrink-0 rounded-lg border border-gray-200 bg-white p-2">
+              <h3 className="text-sm font-semibold text-gray-900">{doctor.name}</h3>
+              <p className="mb-2 text-xs text-gray-500">
+                {doctor.specialty} · {doctor.slotMinutes} min
+                {doctor.slotCapacity > 1 && ` · ${doctor.slotCapacity} per slot`}
+              </p>
+
+              {slots.length === 0 ? (
+                <p className="text-xs text-gray-400">Not working on this date.</p>
+              ) : (
+                <div className="space-y-1">
+                  {slots.map(slot => {
+                    const key = `${doctor.id}:${slot.start}`;
+                    const isFull = slot.remaining === 0;
+                    const isPast = new Date(slot.start) <= new Date();
+
+                    return (
+                      <div
+                        key={key}
+                        onDragOver={(e) => {
+                          if (isFull || isPast) return;
+                          e.preventDefault();
+                          setDropTarget(key);
+                        }}
+                        onDragLeave={() => setDropTarget(current => (current === key ? null : current))}
+                        onDrop={(e) => {
+                          e.preventDefault();
+                          setDropTarget(null);
+                          const appointmentId = e.dataTransfer.getData("text/plain");
+                          if (appointmentId) moveAppointment(appointmentId, doctor.id, slot);
+                        }}
+                        className={`rounded border p-1 ${
+                          dropTarget === key
+                            ? "border-indigo-500 bg-indigo-50"
+                            : isPast
+                            ? "border-gray-100 bg-gray-50"
+                            : isFull
+                            ? "border-gray-200 bg-gray-100"
+                            : "border-gray-200"
+                        }`}
+                      >
+                        <div className="flex items-center justify-between text-xs text-gray-500">
+                          <span>{formatTime(slot.start)}</span>
+                          <span>{slot.booked}/{slot.capacity}</span>
+                        </div>
+                        {slot.appointments.length > 0 && (
+                          <div className="mt-1 space-y-1">{slot.appointments.map(renderCard)}</div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
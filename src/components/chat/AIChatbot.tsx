@@ -2,79 +2,60 @@
 
 import { useState, useRef, useEffect, useCallback } from 'react';
 import { useSession } from 'next-auth/react';
-import axios from 'axios';
-import { History, Plus, X, Trash2, Send, Menu, MessageSquare, User, Bot } from 'lucide-react';
+import { Plus, X, Trash2, Send, Square, Menu, MessageSquare, User, Bot, Pencil, Search } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
-
-interface Message {
-  role: 'user' | 'assistant';
-  content: string;
-  timestamp: string;
-}
-
-interface ChatHistory {
-  id: string;
-  title: string;
-  messages: Message[];
-  lastUpdated: string;
-}
+import { useChatSessions } from '@/hooks/useChatSessions';
+import type { ChatMessage, ChatSessionSummary } from '@/hooks/useChatSessions';
+import ChatActionCard from './ChatActionCard';
+import EmergencyCard from './EmergencyCard';
+import RecordSources from './RecordSources';
+import { useTranslation } from '@/hooks/useTranslation';
 
 interface AIChatbotProps {
   isOpen: boolean;
   onClose: () => void;
-  patientId?: string;
 }
 
 // For display in the UI - how many messages to show at once
 const MAX_DISPLAY_MESSAGES = 10;
-const MAX_SAVED_CONVERSATIONS = 5;
-
-// Helper function for text typing animation
-const TypeAnimation = ({ text }: { text: string }) => {
-  const [displayText, setDisplayText] = useState('');
-  const [currentIndex, setCurrentIndex] = useState(0);
-  const [isDone, setIsDone] = useState(false);
-
-  useEffect(() => {
-    if (currentIndex < text.length) {
-      const timeout = setTimeout(() => {
-        setDisplayText(prev => prev + text[currentIndex]);
-        setCurrentIndex(prevIndex => prevIndex + 1);
-      }, 10); // Speed of typing
-
-      return () => clearTimeout(timeout);
-    } else {
-      setIsDone(true);
-    }
-  }, [currentIndex, text]);
 
-  return (
-    <>
-      {displayText}
-      {!isDone && (
-        <motion.span
-          initial={{ opacity: 0 }}
-          animate={{ opacity: [0, 1, 0] }}
-          transition={{ repeat: Infinity, duration: 0.8 }}
-          className="inline-block w-1.5 h-4 bg-indigo-500 ml-0.5"
-        />
-      )}
-    </>
-  );
-};
-
-export default function AIChatbot({ isOpen, onClose, patientId = "user123" }: AIChatbotProps) {
-  const { data: session, status } = useSession();
-  const [messages, setMessages] = useState<Message[]>([]);
-  const [displayMessages, setDisplayMessages] = useState<Message[]>([]);
+// Shown at the end of a reply while it streams in
+const StreamingCursor = () => (
+  <motion.span
+    initial={{ opacity: 0 }}
+    animate={{ opacity: [0, 1, 0] }}
+    transition={{ repeat: Infinity, duration: 0.8 }}
+    className="inline-block w-1.5 h-4 bg-indigo-500 ml-0.5"
+  />
+);
+
+export default function AIChatbot({ isOpen, onClose }: AIChatbotProps) {
+  const { data: session } = useSession();
+  const { t, formatDate: formatLocalDate } = useTranslation();
+  const {
+    sessions: savedConversations,
+    query,
+    setQuery,
+    activeSessionId,
+    messages,
+    isSending: isLoading,
+    startNewSession,
+    openSession,
+    sendMessage,
+    stopGenerating,
+    updateAction,
+    renameSession,
+    deleteSession,
+    deleteAllSessions
+  } = useChatSessions(session?.user?.id, { enabled: isOpen });
+  const [displayMessages, setDisplayMessages] = useState<ChatMessage[]>([]);
   const [input, setInput] = useState('');
-  const [isLoading, setIsLoading] = useState(false);
   const [showHistory, setShowHistory] = useState(true);
-  const [savedConversations, setSavedConversations] = useState<ChatHistory[]>([]);
-  const [isGeneratingTitle, setIsGeneratingTitle] = useState(false);
   const [showFullHistory, setShowFullHistory] = useState(false);
   const [userProfile, setUserProfile] = useState<any>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  // Dots until the first words of the reply arrive
+  const awaitingReply = isLoading && messages[messages.length - 1]?.role === 'user';
 
   // Fetch latest user profile data
   const fetchUserProfile = useCallback(async () => {
@@ -99,45 +80,6 @@ export default function AIChatbot({ isOpen, onClose, patientId = "user123" }: AI
     }
   }, [fetchUserProfile, isOpen, session?.user?.id]);
 
-  // Load chat history and saved conversations from localStorage
-  useEffect(() => {
-    if (isOpen) {
-      // Use session user ID if available, otherwise use the prop
-      const userId = session?.user?.id || patientId;
-      
-      // Load current chat
-      const savedChats = localStorage.getItem(`chat_history_${userId}`);
-      if (savedChats) {
-        try {
-          const parsedChats = JSON.parse(savedChats);
-          setMessages(parsedChats);
-        } catch (error) {
-          console.error('Error loading chat history:', error);
-        }
-      } else {
-        // Initialize with welcome message if no history exists
-        setMessages([
-          {
-            role: 'assistant',
-            content: "Hello! I'm your AI medical assistant. I can help answer your questions about health conditions. How can I assist you today?",
-            timestamp: new Date().toISOString()
-          }
-        ]);
-      }
-
-      // Load saved conversations
-      const savedConvs = localStorage.getItem(`saved_conversations_${userId}`);
-      if (savedConvs) {
-        try {
-          const parsedConvs = JSON.parse(savedConvs);
-          setSavedConversations(parsedConvs);
-        } catch (error) {
-          console.error('Error loading saved conversations:', error);
-        }
-      }
-    }
-  }, [isOpen, patientId, session?.user?.id, userProfile]);
-
   // Update display messages whenever full message list changes
   useEffect(() => {
     if (showFullHistory) {
@@ -147,215 +89,54 @@ export default function AIChatbot({ isOpen, onClose, patientId = "user123" }: AI
     }
   }, [messages, showFullHistory]);
 
-  // Save chat history and conversations to localStorage
-  useEffect(() => {
-    if (messages.length > 0) {
-      // Use session user ID if available, otherwise use the prop
-      const userId = session?.user?.id || patientId;
-      localStorage.setItem(`chat_history_${userId}`, JSON.stringify(messages));
-    }
-  }, [messages, patientId, session?.user?.id]);
-
-  useEffect(() => {
-    if (savedConversations.length > 0) {
-      // Use session user ID if available, otherwise use the prop
-      const userId = session?.user?.id || patientId;
-      localStorage.setItem(`saved_conversations_${userId}`, JSON.stringify(savedConversations));
-    }
-  }, [savedConversations, patientId, session?.user?.id]);
-
   // Scroll to bottom when messages change
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [displayMessages]);
 
-  const generateChatTitle = async (firstMessage: string) => {
-    try {
-      setIsGeneratingTitle(true);
-      const response = await axios.post('/api/chat', {
-        message: `Generate a short, descriptive title (max 5 words) for this medical conversation. 
-        The title should be concise, clear, and medical-focused. 
-        Do not include any quotes, periods, or special characters. 
-        Just return the title text. 
-        Here's the conversation: "${firstMessage}"`,
-        patientId: patientId,
-        history: []
-      });
-
-      if (response.data.error) {
-        throw new Error(response.data.error);
-      }
-
-      // Clean up the response to get a clean title
-      const title = response.data.response
-        .replace(/["']/g, '') // Remove quotes
-        .replace(/\.$/, '')   // Remove trailing period
-        .replace(/^[^a-zA-Z0-9]+/, '') // Remove leading non-alphanumeric
-        .replace(/[^a-zA-Z0-9\s]+$/, '') // Remove trailing non-alphanumeric
-        .replace(/\s+/g, ' ') // Replace multiple spaces with single space
-        .trim()
-        .split(' ')
-        .map((word: string) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
-        .join(' ');
-
-      // Ensure the title is not too long
-      const words = title.split(' ');
-      if (words.length > 5) {
-        return words.slice(0, 5).join(' ');
-      }
-
-      return title;
-    } catch (error) {
-      console.error('Error generating title:', error);
-      // Fallback: Use the first meaningful words from the message
-      const fallbackTitle = firstMessage
-        .split(' ')
-        .filter(word => word.length > 3) // Filter out short words
-        .slice(0, 5)
-        .join(' ');
-      return fallbackTitle || 'New Conversation';
-    } finally {
-      setIsGeneratingTitle(false);
-    }
-  };
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!input.trim() || isLoading) return;
 
-    // Use session user ID if available, otherwise use the prop
-    const userId = session?.user?.id || patientId;
-
     const userMessage = input.trim();
     setInput('');
-    setIsLoading(true);
-
-    // Add to messages
-    const newUserMessage: Message = {
-      role: 'user',
-      content: userMessage,
-      timestamp: new Date().toISOString()
-    };
-
-    setMessages(prev => [...prev, newUserMessage]);
 
     // Refresh user profile before sending the message to ensure we have the latest data
     if (session?.user?.id) {
       await fetchUserProfile();
     }
 
-    try {
-      console.log('Sending message:', userMessage);
-
-      const response = await axios.post('/api/chat', {
-        message: userMessage,
-        patientId: userId,
-        history: messages, // Send full history to API
-        userProfile: userProfile // Send the user profile data for personalization
-      });
-
-      if (response.data.error) {
-        throw new Error(response.data.error);
-      }
-
-      const newAssistantMessage: Message = {
-        role: 'assistant',
-        content: response.data.response,
-        timestamp: new Date().toISOString()
-      };
-
-      // Add to full history
-      setMessages(prev => [...prev, newAssistantMessage]);
-
-      // If this is the first user message, generate a title
-      if (messages.length === 1) { // Only welcome message exists
-        const title = await generateChatTitle(userMessage);
-        const newConversation: ChatHistory = {
-          id: Date.now().toString(),
-          title: title,
-          messages: [...messages, newUserMessage, newAssistantMessage],
-          lastUpdated: new Date().toISOString()
-        };
-
-        setSavedConversations(prev => {
-          const updated = [newConversation, ...prev].slice(0, MAX_SAVED_CONVERSATIONS);
-          return updated;
-        });
-      }
-    } catch (error) {
-      console.error('Error sending message:', error);
-      let errorMessage = "I'm sorry, I encountered an error. Please try again later.";
-      
-      if (axios.isAxiosError(error)) {
-        console.error("API error details:", error.response?.data);
-        if (error.response?.data?.error) {
-          errorMessage = error.response.data.error;
-        }
-      }
-      
-      const errorAssistantMessage: Message = {
-        role: 'assistant',
-        content: errorMessage,
-        timestamp: new Date().toISOString()
-      };
-
-      // Add to full history
-      setMessages(prev => [...prev, errorAssistantMessage]);
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  const saveCurrentConversation = async () => {
-    if (messages.length <= 1) return; // Don't save if only welcome message exists
-
-    // Get the current user ID
-    const userId = session?.user?.id || patientId;
-
-    // Find the first user message to generate a title
-    const firstUserMessage = messages.find(m => m.role === 'user')?.content || 'New Conversation';
-    const title = await generateChatTitle(firstUserMessage);
-
-    const newConversation: ChatHistory = {
-      id: Date.now().toString(),
-      title: title,
-      messages: [...messages], // Save all messages
-      lastUpdated: new Date().toISOString()
-    };
-
-    setSavedConversations(prev => {
-      const updated = [newConversation, ...prev].slice(0, MAX_SAVED_CONVERSATIONS);
-      return updated;
-    });
+    console.log('Sending message:', userMessage);
+    await sendMessage(userMessage, userProfile);
   };
 
   const startNewChat = () => {
-    setMessages([
-      {
-        role: 'assistant',
-        content: "Hello! I'm your AI medical assistant. I can help answer your questions about health conditions. How can I assist you today?",
-        timestamp: new Date().toISOString()
-      }
-    ]);
+    startNewSession();
     setShowFullHistory(false);
   };
 
-  const loadConversation = (conversation: ChatHistory) => {
-    setMessages(conversation.messages);
+  const loadConversation = (conversation: ChatSessionSummary) => {
+    openSession(conversation.id);
     setShowFullHistory(false);
   };
 
+  const renameConversation = (conversation: ChatSessionSummary) => {
+    const title = prompt('Rename conversation', conversation.title)?.trim();
+    if (title && title !== conversation.title) {
+      renameSession(conversation.id, title.slice(0, 100));
+    }
+  };
+
   const deleteConversation = (id: string) => {
-    setSavedConversations(prev => prev.filter(conv => conv.id !== id));
+    if (confirm(t('chat.confirmDelete'))) {
+      deleteSession(id);
+    }
   };
 
   const clearHistory = () => {
-    // Get the current user ID
-    const userId = session?.user?.id || patientId;
-    
-    setSavedConversations([]);
-    localStorage.removeItem(`saved_conversations_${userId}`);
-    startNewChat();
+    if (confirm(t('chat.confirmClearAll'))) {
+      deleteAllSessions();
+    }
   };
 
   const toggleFullHistory = () => {
@@ -363,11 +144,11 @@ export default function AIChatbot({ isOpen, onClose, patientId = "user123" }: AI
   };
 
   const formatTimestamp = (timestamp: string) => {
-    return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    return formatLocalDate(timestamp, { hour: '2-digit', minute: '2-digit' });
   };
 
   const formatDate = (timestamp: string) => {
-    return new Date(timestamp).toLocaleDateString([], { 
+    return formatLocalDate(timestamp, { 
       month: 'short', 
       day: 'numeric',
       hour: '2-digit',
@@ -431,20 +212,32 @@ export default function AIChatbot({ isOpen, onClose, patientId = "user123" }: AI
           </button>
         </div>
         <div className="px-4 py-2 flex justify-between items-center">
-          <h2 className="text-sm font-semibold text-gray-500 uppercase tracking-wider">Recent Conversations</h2>
+          <h2 className="text-sm font-semibold text-gray-500 uppercase tracking-wider">Conversations</h2>
           {savedConversations.length > 0 && (
                     <motion.button
                       whileHover={{ scale: 1.1 }}
                       whileTap={{ scale: 0.95 }}
               onClick={clearHistory}
               className="p-1 text-gray-400 hover:text-red-500 transition-colors"
-              title="Clear all conversations"
+              title={t('chat.clearAll')}
             >
               <Trash2 className="h-4 w-4" />
                     </motion.button>
           )}
         </div>
-                <div className="overflow-y-auto h-[calc(100%-8rem)] px-2 scrollbar-thin scrollbar-thumb-gray-300 scrollbar-track-transparent">
+        <div className="px-4 pb-2">
+          <div className="flex items-center space-x-2 px-2 py-1.5 bg-white border border-gray-200 rounded-md focus-within:ring-2 focus-within:ring-indigo-500">
+            <Search className="h-4 w-4 text-gray-400" />
+            <input
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder={t('chat.searchConversations')}
+              className="flex-1 min-w-0 text-sm bg-transparent border-none p-0 focus:ring-0 text-gray-700 placeholder-gray-400"
+            />
+          </div>
+        </div>
+                <div className="overflow-y-auto h-[calc(100%-11rem)] px-2 scrollbar-thin scrollbar-thumb-gray-300 scrollbar-track-transparent">
                   <AnimatePresence>
           {savedConversations.length === 0 ? (
                       <motion.p 
@@ -452,7 +245,7 @@ export default function AIChatbot({ isOpen, onClose, patientId = "user123" }: AI
                         animate={{ opacity: 1 }}
                         className="text-gray-500 text-center py-4"
                       >
-                        No saved conversations yet
+                        {query ? t('chat.noMatches') : t('chat.noConversations')}
                       </motion.p>
           ) : (
                       <div className="space-y-1">
@@ -463,20 +256,32 @@ export default function AIChatbot({ isOpen, onClose, patientId = "user123" }: AI
                             animate={{ opacity: 1, y: 0 }}
                             exit={{ opacity: 0, x: -10 }}
                             whileHover={{ backgroundColor: 'rgba(243, 244, 246, 1)' }}
-                            className="group flex items-center justify-between p-2 rounded-md cursor-pointer overflow-hidden"
+                            className={`group flex items-center justify-between p-2 rounded-md cursor-pointer overflow-hidden ${
+                              conversation.id === activeSessionId ? 'bg-indigo-50' : ''
+                            }`}
                 >
                   <div 
                     className="flex-1 min-w-0"
                     onClick={() => loadConversation(conversation)}
                   >
                     <h3 className="text-sm font-medium text-gray-900 truncate">{conversation.title}</h3>
-                    <p className="text-xs text-gray-500">{formatDate(conversation.lastUpdated)}</p>
+                    <p className="text-xs text-gray-500">{formatDate(conversation.updatedAt)}</p>
                   </div>
                             <motion.button
                               whileHover={{ scale: 1.1 }}
                               whileTap={{ scale: 0.95 }}
+                    onClick={() => renameConversation(conversation)}
+                    className="p-1 text-gray-400 hover:text-indigo-600 opacity-0 group-hover:opacity-100 transition-opacity"
+                    title={t('chat.rename')}
+                  >
+                    <Pencil className="h-4 w-4" />
+                            </motion.button>
+                            <motion.button
+                              whileHover={{ scale: 1.1 }}
+                              whileTap={{ scale: 0.95 }}
                     onClick={() => deleteConversation(conversation.id)}
                     className="p-1 text-gray-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                    title={t('chat.delete')}
                   >
                     <X className="h-4 w-4" />
                             </motion.button>
@@ -529,15 +334,8 @@ export default function AIChatbot({ isOpen, onClose, patientId = "user123" }: AI
                   </div>
             )}
           </div>
-              <motion.button
-                whileHover={{ scale: 1.1 }}
-                whileTap={{ scale: 0.9 }}
-            onClick={saveCurrentConversation}
-                className="p-2 text-indigo-500 hover:text-indigo-700 hover:bg-indigo-50 rounded-full transition-colors"
-            title="Save current conversation"
-          >
-            <History className="h-5 w-5" />
-              </motion.button>
+              {/* Keeps the title centred; the close button sits here */}
+              <div className="w-9" />
         </div>
 
         {/* Messages */}
@@ -578,11 +376,13 @@ export default function AIChatbot({ isOpen, onClose, patientId = "user123" }: AI
                 }`}
               >
                       <div className="text-sm leading-relaxed">
-                        {message.role === 'assistant' && messages.length - 5 <= index ? (
-                          <TypeAnimation text={message.content} />
-                        ) : (
-                          message.content
-                        )}
+                        {message.content}
+                        {isLoading && message.role === 'assistant' && index === displayMessages.length - 1 && <StreamingCursor />}
+                        {message.stopped && <p className="mt-1 text-xs italic text-gray-400">{t('chat.stopped')}</p>}
+                        {message.error && <p className="mt-1 text-xs text-red-600">{message.error}</p>}
+                        {message.emergency && <EmergencyCard card={message.emergency} />}
+                        {message.action && <ChatActionCard action={message.action} onChange={updateAction} />}
+                        {message.sources && message.sources.length > 0 && <RecordSources sources={message.sources} />}
                       </div>
                       <div className={`text-xs mt-2 ${message.role === 'user' ? 'text-indigo-200' : 'text-gray-500'}`}>
                   {formatTimestamp(message.timestamp)}
@@ -606,7 +406,7 @@ export default function AIChatbot({ isOpen, onClose, patientId = "user123" }: AI
               
               {/* Improved loading animation */}
               <AnimatePresence>
-          {isLoading && (
+          {awaitingReply && (
                   <motion.div 
                     initial={{ opacity: 0, y: 10 }}
                     animate={{ opacity: 1, y: 0 }}
@@ -659,23 +459,36 @@ export default function AIChatbot({ isOpen, onClose, patientId = "user123" }: AI
               type="text"
               value={input}
               onChange={(e) => setInput(e.target.value)}
-              placeholder="Type your message..."
+              placeholder={t('chat.placeholder')}
                   className="flex-1 bg-transparent border-none focus:ring-0 text-gray-700 placeholder-gray-400"
               disabled={isLoading}
             />
+                {isLoading ? (
+                  <motion.button
+                    type="button"
+                    onClick={stopGenerating}
+                    whileHover={{ scale: 1.05 }}
+                    whileTap={{ scale: 0.95 }}
+                    className="inline-flex items-center justify-center w-10 h-10 rounded-full bg-gray-700 text-white hover:bg-gray-800 transition-colors duration-200"
+                    title={t('chat.stopGenerating')}
+                  >
+                    <Square className="h-4 w-4 fill-current" />
+                  </motion.button>
+                ) : (
                 <motion.button
               type="submit"
-              disabled={isLoading || !input.trim()}
+              disabled={!input.trim()}
                   whileHover={{ scale: 1.05, rotate: 5 }}
                   whileTap={{ scale: 0.95 }}
                   className={`inline-flex items-center justify-center w-10 h-10 rounded-full ${
-                    !isLoading && input.trim() 
+                    input.trim() 
                       ? 'bg-indigo-600 text-white hover:bg-indigo-700' 
                       : 'bg-gray-300 text-gray-500 cursor-not-allowed'
                   } transition-colors duration-200`}
             >
                   <Send className="h-5 w-5" />
                 </motion.button>
+                )}
               </div>
             </motion.form>
           </div>
@@ -0,0 +1,139 @@
+"use client";
+
+import { useState } from "react";
+import { CheckCircle, Wrench, XCircle } from "lucide-react";
+import { CHAT_ACTIONS } from "@/lib/chatActions";
+import type { ChatActionCard as ChatAction, ChatActionResult } from "@/lib/chatActions";
+
+type ActionUpdate =
+  | { status: "CONFIRMED" | "CANCELLED" }
+  | { status: "DONE"; result: ChatActionResult }
+  | { status: "FAILED"; error: string };
+
+async function reportAction(actionId: string, update: ActionUpdate): Promise<ChatAction> {
+  const response = await fetch(`/api/chat/actions/${actionId}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(update)
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || "Failed to update the action");
+  }
+  return data;
+}
+
+/**
+ * An action the AI assistant proposed. Nothing happens until the user
+ * confirms it; the action then runs through the app's regular API route and
+ * the card shows how it went.
+ */
+export default function ChatActionCard({ action, onChange }: { action: ChatAction; onChange: (action: ChatAction) => void }) {
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const definition = CHAT_ACTIONS[action.name];
+
+  const confirmAction = async () => {
+    setIsRunning(true);
+    setError(null);
+
+    try {
+      onChange(await reportAction(action.id, { status: "CONFIRMED" }));
+
+      let outcome: ActionUpdate;
+      try {
+        const { method, url, body } = definition.request(action.args);
+        const response = await fetch(url, {
+          method,
+          headers: { "Content-Type": "application/json", "Cache-Control": "no-cache" },
+          ...(body !== undefined && { body: JSON.stringify(body) })
+        });
+        const data = await response.json().catch(() => ({}));
+        outcome = response.ok
+          ? { status: "DONE", result: definition.describeResult(data) }
+          : { status: "FAILED", error: data.error || `The request failed with status ${response.status}` };
+      } catch (requestError) {
+        console.error(`Error running chat action ${action.name}:`, requestError);
+        outcome = { status: "FAILED", error: "Could not reach the server" };
+      }
+
+      onChange(await reportAction(action.id, outcome));
+    } catch (error) {
+      console.error("Error confirming chat action:", error);
+      setError(error instanceof Error ? error.message : "Failed to run the action");
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const cancelAction = async () => {
+    setError(null);
+
+    try {
+      onChange(await reportAction(action.id, { status: "CANCELLED" }));
+    } catch (error) {
+      console.error("Error cancelling chat action:", error);
+      setError(error instanceof Error ? error.message : "Failed to cancel the action");
+    }
+  };
+
+  return (
+    <div className="mt-3 rounded-md border border-indigo-200 bg-indigo-50 p-3 text-left">
+      <p className="flex items-center text-sm font-semibold text-indigo-700">
+        <Wrench className="mr-2 h-4 w-4" />
+        {definition.label}
+      </p>
+      <p className="mt-1 text-sm text-gray-700">{definition.summarize(action.args)}</p>
+
+      {action.status === "PROPOSED" && (
+        <div className="mt-3 flex gap-2">
+          <button
+            type="button"
+            onClick={confirmAction}
+            disabled={isRunning}
+            className="rounded-md bg-indigo-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-50"
+          >
+            Confirm
+          </button>
+          <button
+            type="button"
+            onClick={cancelAction}
+            disabled={isRunning}
+            className="rounded-md border border-gray-300 bg-white px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {action.status === "CONFIRMED" && (
+        <p className="mt-2 text-xs text-gray-500">{isRunning ? "Working on it..." : "Started; the result did not come back."}</p>
+      )}
+
+      {action.status === "DONE" && action.result && (
+        <div className="mt-2">
+          <p className="flex items-center text-sm font-medium text-green-700">
+            <CheckCircle className="mr-1 h-4 w-4" />
+            {action.result.summary}
+          </p>
+          {action.result.items && action.result.items.length > 0 && (
+            <ul className="mt-1 list-disc pl-5 text-xs text-gray-600">
+              {action.result.items.map((item, index) => <li key={index}>{item}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {action.status === "FAILED" && (
+        <p className="mt-2 flex items-center text-sm text-red-600">
+          <XCircle className="mr-1 h-4 w-4" />
+          {action.error || "The action failed"}
+        </p>
+      )}
+
+      {action.status === "CANCELLED" && <p className="mt-2 text-xs italic text-gray-500">Cancelled</p>}
+
+      {error && <p className="mt-2 text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
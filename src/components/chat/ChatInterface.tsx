@@ -2,79 +2,60 @@
 
 import { useState, useRef, useEffect, useCallback } from 'react';
 import { useSession } from 'next-auth/react';
-import axios from 'axios';
-import { History, Plus, X, Trash2, Send, Menu, MessageSquare, User, Bot, ChevronLeft, ChevronRight } from 'lucide-react';
+import { Plus, X, Trash2, Send, Square, Menu, MessageSquare, User, Bot, ChevronLeft, ChevronRight, Pencil, Search } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
-
-interface Message {
-  role: 'user' | 'assistant';
-  content: string;
-  timestamp: string;
-}
-
-interface ChatHistory {
-  id: string;
-  title: string;
-  messages: Message[];
-  lastUpdated: string;
-}
+import { useChatSessions } from '@/hooks/useChatSessions';
+import type { ChatMessage, ChatSessionSummary } from '@/hooks/useChatSessions';
+import ChatActionCard from './ChatActionCard';
+import EmergencyCard from './EmergencyCard';
+import RecordSources from './RecordSources';
+import { useTranslation } from '@/hooks/useTranslation';
 
 interface ChatInterfaceProps {
-  patientId?: string;
   fullPage?: boolean;
 }
 
 // For display in the UI - how many messages to show at once
 const MAX_DISPLAY_MESSAGES = 30;
-const MAX_SAVED_CONVERSATIONS = 10;
-
-// Helper function for text typing animation
-const TypeAnimation = ({ text }: { text: string }) => {
-  const [displayText, setDisplayText] = useState('');
-  const [currentIndex, setCurrentIndex] = useState(0);
-  const [isDone, setIsDone] = useState(false);
-
-  useEffect(() => {
-    if (currentIndex < text.length) {
-      const timeout = setTimeout(() => {
-        setDisplayText(prev => prev + text[currentIndex]);
-        setCurrentIndex(prevIndex => prevIndex + 1);
-      }, 10); // Speed of typing
-
-      return () => clearTimeout(timeout);
-    } else {
-      setIsDone(true);
-    }
-  }, [currentIndex, text]);
-
-  return (
-    <>
-      {displayText}
-      {!isDone && (
-        <motion.span
-          initial={{ opacity: 0 }}
-          animate={{ opacity: [0, 1, 0] }}
-          transition={{ repeat: Infinity, duration: 0.8 }}
-          className="inline-block w-1.5 h-4 bg-indigo-500 ml-0.5"
-        />
-      )}
-    </>
-  );
-};
 
-export default function ChatInterface({ patientId = "user123", fullPage = false }: ChatInterfaceProps) {
-  const { data: session, status } = useSession();
-  const [messages, setMessages] = useState<Message[]>([]);
-  const [displayMessages, setDisplayMessages] = useState<Message[]>([]);
+// Shown at the end of a reply while it streams in
+const StreamingCursor = () => (
+  <motion.span
+    initial={{ opacity: 0 }}
+    animate={{ opacity: [0, 1, 0] }}
+    transition={{ repeat: Infinity, duration: 0.8 }}
+    className="inline-block w-1.5 h-4 bg-indigo-500 ml-0.5"
+  />
+);
+
+export default function ChatInterface({ fullPage = false }: ChatInterfaceProps) {
+  const { data: session } = useSession();
+  const { t, formatDate: formatLocalDate } = useTranslation();
+  const {
+    sessions: savedConversations,
+    query,
+    setQuery,
+    activeSessionId,
+    title: chatTitle,
+    messages,
+    isSending: isLoading,
+    startNewSession,
+    openSession,
+    sendMessage,
+    stopGenerating,
+    updateAction,
+    renameSession,
+    deleteSession,
+    deleteAllSessions
+  } = useChatSessions(session?.user?.id);
+  const [displayMessages, setDisplayMessages] = useState<ChatMessage[]>([]);
   const [input, setInput] = useState('');
-  const [isLoading, setIsLoading] = useState(false);
   const [showHistory, setShowHistory] = useState(fullPage);
-  const [savedConversations, setSavedConversations] = useState<ChatHistory[]>([]);
-  const [isGeneratingTitle, setIsGeneratingTitle] = useState(false);
   const [showFullHistory, setShowFullHistory] = useState(false);
   const [userProfile, setUserProfile] = useState<any>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  const [chatTitle, setChatTitle] = useState<string>("New Chat");
+  // Dots until the first words of the reply arrive
+  const awaitingReply = isLoading && messages[messages.length - 1]?.role === 'user';
 
   // Fetch latest user profile data
   const fetchUserProfile = useCallback(async () => {
@@ -99,43 +80,6 @@ export default function ChatInterface({ patientId = "user123", fullPage = false
     }
   }, [fetchUserProfile, session?.user?.id]);
 
-  // Load chat history and saved conversations from localStorage
-  useEffect(() => {
-    // Use session user ID if available, otherwise use the prop
-    const userId = session?.user?.id || patientId;
-    
-    // Load current chat
-    const savedChats = localStorage.getItem(`chat_history_${userId}`);
-    if (savedChats) {
-      try {
-        const parsedChats = JSON.parse(savedChats);
-        setMessages(parsedChats);
-      } catch (error) {
-        console.error('Error loading chat history:', error);
-      }
-    } else {
-      // Initialize with welcome message if no history exists
-      setMessages([
-        {
-          role: 'assistant',
-          content: "Hello! I'm your AI medical assistant. I can help answer your questions about health conditions. How can I assist you today?",
-          timestamp: new Date().toISOString()
-        }
-      ]);
-    }
-
-    // Load saved conversations
-    const savedConvs = localStorage.getItem(`saved_conversations_${userId}`);
-    if (savedConvs) {
-      try {
-        const parsedConvs = JSON.parse(savedConvs);
-        setSavedConversations(parsedConvs);
-      } catch (error) {
-        console.error('Error loading saved conversations:', error);
-      }
-    }
-  }, [patientId, session?.user?.id]);
-
   // Update display messages whenever full message list changes
   useEffect(() => {
     if (showFullHistory) {
@@ -145,23 +89,6 @@ export default function ChatInterface({ patientId = "user123", fullPage = false
     }
   }, [messages, showFullHistory]);
 
-  // Save chat history and conversations to localStorage
-  useEffect(() => {
-    if (messages.length > 0) {
-      // Use session user ID if available, otherwise use the prop
-      const userId = session?.user?.id || patientId;
-      localStorage.setItem(`chat_history_${userId}`, JSON.stringify(messages));
-    }
-  }, [messages, patientId, session?.user?.id]);
-
-  useEffect(() => {
-    if (savedConversations.length > 0) {
-      // Use session user ID if available, otherwise use the prop
-      const userId = session?.user?.id || patientId;
-      localStorage.setItem(`saved_conversations_${userId}`, JSON.stringify(savedConversations));
-    }
-  }, [savedConversations, patientId, session?.user?.id]);
-
   // Auto-scroll to bottom when messages change
   useEffect(() => {
     if (messagesEndRef.current) {
@@ -169,206 +96,54 @@ export default function ChatInterface({ patientId = "user123", fullPage = false
     }
   }, [displayMessages, isLoading]);
 
-  const generateChatTitle = async (firstMessage: string) => {
-    try {
-      setIsGeneratingTitle(true);
-      const response = await axios.post('/api/chat', {
-        message: `Generate a short, descriptive title (max 5 words) for this medical conversation. 
-        The title should be concise, clear, and medical-focused. 
-        Do not include any quotes, periods, or special characters. 
-        Just return the title text. 
-        Here's the conversation: "${firstMessage}"`,
-        patientId: patientId,
-        history: []
-      });
-
-      if (response.data.error) {
-        throw new Error(response.data.error);
-      }
-
-      // Clean up the response to get a clean title
-      const title = response.data.response
-        .replace(/["']/g, '') // Remove quotes
-        .replace(/\.$/, '')   // Remove trailing period
-        .replace(/^[^a-zA-Z0-9]+/, '') // Remove leading non-alphanumeric
-        .replace(/[^a-zA-Z0-9\s]+$/, '') // Remove trailing non-alphanumeric
-        .replace(/\s+/g, ' ') // Replace multiple spaces with single space
-        .trim()
-        .split(' ')
-        .map((word: string) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
-        .join(' ');
-
-      // Ensure the title is not too long
-      const words = title.split(' ');
-      if (words.length > 5) {
-        return words.slice(0, 5).join(' ');
-      }
-
-      // Update current chat title
-      setChatTitle(title);
-      return title;
-    } catch (error) {
-      console.error('Error generating title:', error);
-      // Fallback: Use the first meaningful words from the message
-      const fallbackTitle = firstMessage
-        .split(' ')
-        .filter(word => word.length > 3) // Filter out short words
-        .slice(0, 5)
-        .join(' ');
-      return fallbackTitle || 'New Conversation';
-    } finally {
-      setIsGeneratingTitle(false);
-    }
-  };
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!input.trim() || isLoading) return;
 
-    // Use session user ID if available, otherwise use the prop
-    const userId = session?.user?.id || patientId;
-
     const userMessage = input.trim();
     setInput('');
-    setIsLoading(true);
-
-    // Add to messages
-    const newUserMessage: Message = {
-      role: 'user',
-      content: userMessage,
-      timestamp: new Date().toISOString()
-    };
-
-    setMessages(prev => [...prev, newUserMessage]);
 
     // Refresh user profile before sending the message to ensure we have the latest data
     if (session?.user?.id) {
       await fetchUserProfile();
     }
 
-    try {
-      console.log('Sending message:', userMessage);
-
-      const response = await axios.post('/api/chat', {
-        message: userMessage,
-        patientId: userId,
-        history: messages, // Send full history to API
-        userProfile: userProfile // Send the user profile data for personalization
-      });
-
-      if (response.data.error) {
-        throw new Error(response.data.error);
-      }
-
-      const newAssistantMessage: Message = {
-        role: 'assistant',
-        content: response.data.response,
-        timestamp: new Date().toISOString()
-      };
-
-      // Add to full history
-      setMessages(prev => [...prev, newAssistantMessage]);
-
-      // If this is the first user message, generate a title and save conversation
-      if (messages.length === 1) { // Only welcome message exists
-        const title = await generateChatTitle(userMessage);
-        const newConversation: ChatHistory = {
-          id: Date.now().toString(),
-          title: title,
-          messages: [...messages, newUserMessage, newAssistantMessage],
-          lastUpdated: new Date().toISOString()
-        };
-
-        setSavedConversations(prev => {
-          const updated = [newConversation, ...prev].slice(0, MAX_SAVED_CONVERSATIONS);
-          return updated;
-        });
-      }
-    } catch (error) {
-      console.error('Error sending message:', error);
-      let errorMessage = "I'm sorry, I encountered an error. Please try again later.";
-      
-      if (axios.isAxiosError(error)) {
-        console.error("API error details:", error.response?.data);
-        if (error.response?.data?.error) {
-          errorMessage = error.response.data.error;
-        }
-      }
-      
-      const errorAssistantMessage: Message = {
-        role: 'assistant',
-        content: errorMessage,
-        timestamp: new Date().toISOString()
-      };
-
-      // Add to full history
-      setMessages(prev => [...prev, errorAssistantMessage]);
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  const saveCurrentConversation = async () => {
-    if (messages.length <= 1) return; // Don't save if only welcome message exists
-
-    // Get the current user ID
-    const userId = session?.user?.id || patientId;
-
-    // Find the first user message to generate a title
-    const firstUserMessage = messages.find(m => m.role === 'user')?.content || 'New Conversation';
-    const title = await generateChatTitle(firstUserMessage);
-    
-    // Update the current chat title
-    setChatTitle(title);
-
-    const newConversation: ChatHistory = {
-      id: Date.now().toString(),
-      title: title,
-      messages: [...messages], // Save all messages
-      lastUpdated: new Date().toISOString()
-    };
-
-    setSavedConversations(prev => {
-      const updated = [newConversation, ...prev].slice(0, MAX_SAVED_CONVERSATIONS);
-      return updated;
-    });
+    console.log('Sending message:', userMessage);
+    await sendMessage(userMessage, userProfile);
   };
 
   const startNewChat = () => {
-    setMessages([
-      {
-        role: 'assistant',
-        content: "Hello! I'm your AI medical assistant. I can help answer your questions about health conditions. How can I assist you today?",
-        timestamp: new Date().toISOString()
-      }
-    ]);
+    startNewSession();
     setShowFullHistory(false);
   };
 
-  const loadConversation = (conversation: ChatHistory) => {
-    setMessages(conversation.messages);
+  const loadConversation = (conversation: ChatSessionSummary) => {
+    openSession(conversation.id);
     setShowFullHistory(false);
     
-    // Update the chat title
-    setChatTitle(conversation.title);
-    
     // For mobile, hide sidebar after loading conversation
     if (!fullPage) {
       setShowHistory(false);
     }
   };
 
+  const renameConversation = (conversation: ChatSessionSummary) => {
+    const title = prompt('Rename conversation', conversation.title)?.trim();
+    if (title && title !== conversation.title) {
+      renameSession(conversation.id, title.slice(0, 100));
+    }
+  };
+
   const deleteConversation = (id: string) => {
-    setSavedConversations(prev => prev.filter(conv => conv.id !== id));
+    if (confirm(t('chat.confirmDelete'))) {
+      deleteSession(id);
+    }
   };
 
   const clearHistory = () => {
-    // Get the current user ID
-    const userId = session?.user?.id || patientId;
-    
-    setSavedConversations([]);
-    localStorage.removeItem(`saved_conversations_${userId}`);
-    startNewChat();
+    if (confirm(t('chat.confirmClearAll'))) {
+      deleteAllSessions();
+    }
   };
 
   const toggleFullHistory = () => {
@@ -376,11 +151,11 @@ export default function ChatInterface({ patientId = "user123", fullPage = false
   };
 
   const formatTimestamp = (timestamp: string) => {
-    return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    return formatLocalDate(timestamp, { hour: '2-digit', minute: '2-digit' });
   };
 
   const formatDate = (timestamp: string) => {
-    return new Date(timestamp).toLocaleDateString([], { 
+    return formatLocalDate(timestamp, { 
       month: 'short', 
       day: 'numeric',
       hour: '2-digit',
@@ -406,23 +181,35 @@ export default function ChatInterface({ patientId = "user123", fullPage = false
                 className="w-full flex items-center justify-center space-x-2 px-4 py-2.5 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-colors shadow-sm"
               >
                 <Plus className="h-4 w-4" />
-                <span>New Conversation</span>
+                <span>{t('chat.newConversation')}</span>
               </button>
             </div>
             <div className="px-4 py-3 flex justify-between items-center border-b border-gray-100 flex-shrink-0">
-              <h2 className="text-sm font-semibold text-gray-500 uppercase tracking-wider">My Conversations</h2>
+              <h2 className="text-sm font-semibold text-gray-500 uppercase tracking-wider">{t('chat.myConversations')}</h2>
               {savedConversations.length > 0 && (
                 <motion.button
                   whileHover={{ scale: 1.1 }}
                   whileTap={{ scale: 0.95 }}
                   onClick={clearHistory}
                   className="p-1 text-gray-400 hover:text-red-500 transition-colors"
-                  title="Clear all conversations"
+                  title={t('chat.clearAll')}
                 >
                   <Trash2 className="h-4 w-4" />
                 </motion.button>
               )}
             </div>
+            <div className="px-4 py-3 border-b border-gray-100 flex-shrink-0">
+              <div className="flex items-center space-x-2 px-3 py-2 bg-gray-50 border border-gray-200 rounded-md focus-within:ring-2 focus-within:ring-indigo-500">
+                <Search className="h-4 w-4 text-gray-400" />
+                <input
+                  type="search"
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  placeholder={t('chat.searchConversations')}
+                  className="flex-1 min-w-0 text-sm bg-transparent border-none p-0 focus:ring-0 text-gray-700 placeholder-gray-400"
+                />
+              </div>
+            </div>
             <div className="overflow-y-auto flex-grow scrollbar-thin scrollbar-thumb-gray-300 scrollbar-track-transparent">
               <AnimatePresence>
                 {savedConversations.length === 0 ? (
@@ -432,8 +219,14 @@ export default function ChatInterface({ patientId = "user123", fullPage = false
                     className="flex flex-col items-center justify-center p-6 h-40 text-center"
                   >
                     <MessageSquare className="h-10 w-10 text-gray-300 mb-3" />
-                    <p className="text-gray-500 mb-1">No saved conversations yet</p>
-                    <p className="text-xs text-gray-400">Your conversations will appear here</p>
+                    {query ? (
+                      <p className="text-gray-500 mb-1">{t('chat.noMatches')}</p>
+                    ) : (
+                      <>
+                        <p className="text-gray-500 mb-1">{t('chat.noConversations')}</p>
+                        <p className="text-xs text-gray-400">{t('chat.conversationsAppearHere')}</p>
+                      </>
+                    )}
                   </motion.div>
                 ) : (
                   <div className="space-y-1 p-2">
@@ -444,20 +237,32 @@ export default function ChatInterface({ patientId = "user123", fullPage = false
                         animate={{ opacity: 1, y: 0 }}
                         exit={{ opacity: 0, x: -10 }}
                         whileHover={{ backgroundColor: 'rgba(243, 244, 246, 1)' }}
-                        className="group flex items-center justify-between p-3 rounded-md cursor-pointer overflow-hidden"
+                        className={`group flex items-center justify-between p-3 rounded-md cursor-pointer overflow-hidden ${
+                          conversation.id === activeSessionId ? 'bg-indigo-50' : ''
+                        }`}
                       >
                         <div 
                           className="flex-1 min-w-0"
                           onClick={() => loadConversation(conversation)}
                         >
                           <h3 className="text-sm font-medium text-gray-900 truncate">{conversation.title}</h3>
-                          <p className="text-xs text-gray-500">{formatDate(conversation.lastUpdated)}</p>
+                          <p className="text-xs text-gray-500">{formatDate(conversation.updatedAt)}</p>
                         </div>
+                        <motion.button
+                          whileHover={{ scale: 1.1 }}
+                          whileTap={{ scale: 0.95 }}
+                          onClick={() => renameConversation(conversation)}
+                          className="p-1 text-gray-400 hover:text-indigo-600 opacity-0 group-hover:opacity-100 transition-opacity"
+                          title={t('chat.rename')}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </motion.button>
                         <motion.button
                           whileHover={{ scale: 1.1 }}
                           whileTap={{ scale: 0.95 }}
                           onClick={() => deleteConversation(conversation.id)}
                           className="p-1 text-gray-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                          title={t('chat.delete')}
                         >
                           <X className="h-4 w-4" />
                         </motion.button>
@@ -512,15 +317,6 @@ export default function ChatInterface({ patientId = "user123", fullPage = false
             )}
           </div>
           <div className="flex items-center space-x-2">
-            <motion.button
-              whileHover={{ scale: 1.1 }}
-              whileTap={{ scale: 0.9 }}
-              onClick={saveCurrentConversation}
-              className="p-2 text-indigo-500 hover:text-indigo-700 hover:bg-indigo-50 rounded-full transition-colors"
-              title="Save current conversation"
-            >
-              <History className="h-5 w-5" />
-            </motion.button>
             <motion.button
               whileHover={{ scale: 1.1 }}
               whileTap={{ scale: 0.9 }}
@@ -571,11 +367,13 @@ export default function ChatInterface({ patientId = "user123", fullPage = false
                   }`}
                 >
                   <div className="text-sm leading-relaxed">
-                    {message.role === 'assistant' && messages.length - 5 <= index ? (
-                      <TypeAnimation text={message.content} />
-                    ) : (
-                      message.content
-                    )}
+                    {message.content}
+                    {isLoading && message.role === 'assistant' && index === displayMessages.length - 1 && <StreamingCursor />}
+                    {message.stopped && <p className="mt-1 text-xs italic text-gray-400">{t('chat.stopped')}</p>}
+                    {message.error && <p className="mt-1 text-xs text-red-600">{message.error}</p>}
+                    {message.emergency && <EmergencyCard card={message.emergency} />}
+                    {message.action && <ChatActionCard action={message.action} onChange={updateAction} />}
+                    {message.sources && message.sources.length > 0 && <RecordSources sources={message.sources} />}
                   </div>
                   <div className={`text-xs mt-2 ${message.role === 'user' ? 'text-indigo-200' : 'text-gray-500'} flex items-center`}>
                     {formatTimestamp(message.timestamp)}
@@ -607,7 +405,7 @@ export default function ChatInterface({ patientId = "user123", fullPage = false
           
           {/* Improved loading animation */}
           <AnimatePresence>
-            {isLoading && (
+            {awaitingReply && (
               <motion.div 
                 initial={{ opacity: 0, y: 10 }}
                 animate={{ opacity: 1, y: 0 }}
@@ -666,23 +464,36 @@ export default function ChatInterface({ patientId = "user123", fullPage = false
                 type="text"
                 value={input}
                 onChange={(e) => setInput(e.target.value)}
-                placeholder="Type your medical question..."
+                placeholder={t('chat.placeholder')}
                 className="flex-1 bg-transparent border-none focus:ring-0 text-gray-700 placeholder-gray-400 text-base"
                 disabled={isLoading}
               />
-              <motion.button
-                type="submit"
-                disabled={isLoading || !input.trim()}
-                whileHover={{ scale: 1.05 }}
-                whileTap={{ scale: 0.95 }}
-                className={`flex-shrink-0 inline-flex items-center justify-center w-10 h-10 rounded-lg ${
-                  !isLoading && input.trim() 
-                    ? 'bg-gradient-to-r from-indigo-600 to-blue-500 text-white shadow-md hover:shadow-lg' 
-                    : 'bg-gray-200 text-gray-400 cursor-not-allowed'
-                } transition-all duration-200`}
-              >
-                <Send className="h-5 w-5" />
-              </motion.button>
+              {isLoading ? (
+                <motion.button
+                  type="button"
+                  onClick={stopGenerating}
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                  className="flex-shrink-0 inline-flex items-center space-x-1.5 h-10 px-3 rounded-lg bg-gray-700 text-white text-sm font-medium shadow-md hover:bg-gray-800 transition-all duration-200"
+                >
+                  <Square className="h-3.5 w-3.5 fill-current" />
+                  <span>{t('chat.stopGenerating')}</span>
+                </motion.button>
+              ) : (
+                <motion.button
+                  type="submit"
+                  disabled={!input.trim()}
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                  className={`flex-shrink-0 inline-flex items-center justify-center w-10 h-10 rounded-lg ${
+                    input.trim() 
+                      ? 'bg-gradient-to-r from-indigo-600 to-blue-500 text-white shadow-md hover:shadow-lg' 
+                      : 'bg-gray-200 text-gray-400 cursor-not-allowed'
+                  } transition-all duration-200`}
+                >
+                  <Send className="h-5 w-5" />
+                </motion.button>
+              )}
             </div>
           </motion.form>
         </div>
@@ -0,0 +1,95 @@
+"use client";
+
+import { useState } from "react";
+import { AlertTriangle, Phone } from "lucide-react";
+import EmergencyAlertTracker from "../EmergencyAlertTracker";
+import { getBrowserLocation } from "@/lib/geo";
+import { EMERGENCY_NUMBER } from "@/lib/redFlags";
+import type { EmergencyCard as EmergencyCardData } from "@/lib/redFlags";
+
+/**
+ * Shown in the chat in place of the assistant's reply when a message raised
+ * emergency red flags: what to do now, the ambulance number and a one-tap
+ * emergency alert to the patient's hospital.
+ */
+export default function EmergencyCard({ card }: { card: EmergencyCardData }) {
+  const [isSending, setIsSending] = useState(false);
+  const [sent, setSent] = useState<{ alertId: string; message: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const sendAlert = async () => {
+    setIsSending(true);
+    setError(null);
+
+    try {
+      // Without a hospital the alert goes to the nearest one
+      const location = await getBrowserLocation();
+      const response = await fetch("/api/user/emergency-alert", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          hospitalId: card.hospital?.id,
+          redFlagEventId: card.eventId,
+          ...(location && { latitude: location.latitude, longitude: location.longitude })
+        })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to send the emergency alert");
+      }
+      setSent({ alertId: data.alertId, message: data.message });
+    } catch (error) {
+      console.error("Error sending emergency alert from chat:", error);
+      setError(error instanceof Error ? error.message : "Failed to send the emergency alert");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="mt-3 rounded-md border border-red-200 bg-red-50 p-3 text-left">
+      <p className="flex items-center text-sm font-semibold text-red-700">
+        <AlertTriangle className="mr-2 h-4 w-4" />
+        Possible emergency
+      </p>
+      <ul className="mt-2 space-y-1">
+        {card.flags.map(flag => (
+          <li key={flag.id} className="text-sm text-gray-700">
+            <span className="font-medium">{flag.label}:</span> {flag.advice}
+          </li>
+        ))}
+      </ul>
+
+      <div className="mt-3 flex flex-wrap gap-2">
+        <a
+          href={`tel:${EMERGENCY_NUMBER}`}
+          className="inline-flex items-center rounded-md bg-red-600 px-3 py-2 text-sm font-medium text-white hover:bg-red-700"
+        >
+          <Phone className="mr-2 h-4 w-4" />
+          Call {EMERGENCY_NUMBER}
+        </a>
+        {card.canRaiseAlert && !sent && (
+          <button
+            type="button"
+            onClick={sendAlert}
+            disabled={isSending}
+            className="rounded-md border border-red-600 bg-white px-3 py-2 text-sm font-medium text-red-700 hover:bg-red-100 disabled:opacity-50"
+          >
+            {isSending
+              ? "Sending alert..."
+              : `Send emergency alert to ${card.hospital?.name || "the nearest hospital"}`}
+          </button>
+        )}
+      </div>
+
+      {error && <p className="mt-2 text-xs text-red-600">{error}</p>}
+
+      {sent && (
+        <>
+          <p className="mt-3 text-sm font-medium text-green-700">{sent.message}</p>
+          <EmergencyAlertTracker alertId={sent.alertId} />
+        </>
+      )}
+    </div>
+  );
+}
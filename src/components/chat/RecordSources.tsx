@@ -0,0 +1,38 @@
+"use client";
+
+import Link from "next/link";
+import { FileText } from "lucide-react";
+import type { RecordSource } from "@/hooks/useChatSessions";
+import { useTranslation } from "@/hooks/useTranslation";
+
+/**
+ * The records of the patient's that a reply cites as [ref], linked where
+ * the patient can open them
+ */
+export default function RecordSources({ sources }: { sources: RecordSource[] }) {
+  const { t } = useTranslation();
+
+  return (
+    <div className="mt-2 border-t border-gray-200 pt-2 text-left">
+      <p className="flex items-center text-xs font-medium text-gray-500">
+        <FileText className="mr-1 h-3 w-3" />
+        {t("chat.sources")}
+      </p>
+      <ol className="mt-1 space-y-0.5 text-xs text-gray-600">
+        {sources.map(source => {
+          const text = `${t(`record.${source.kind}`)}, ${source.date}: ${source.label}`;
+          return (
+            <li key={source.ref}>
+              [{source.ref}]{" "}
+              {source.href ? (
+                <Link href={source.href} className="text-indigo-600 hover:underline">{text}</Link>
+              ) : (
+                text
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
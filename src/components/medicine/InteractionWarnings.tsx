@@ -0,0 +1,62 @@
+"use client";
+
+import { AlertTriangle } from "lucide-react";
+import type { MedicationConflict } from "@/services/interactions";
+
+type InteractionWarningsProps = {
+  conflicts: MedicationConflict[];
+  checking?: boolean;
+};
+
+const SEVERITY_STYLES: Record<MedicationConflict["severity"], string> = {
+  major: "border-red-300 bg-red-50 text-red-800",
+  moderate: "border-yellow-300 bg-yellow-50 text-yellow-800",
+  minor: "border-gray-200 bg-gray-50 text-gray-700"
+};
+
+const TYPE_LABELS: Record<MedicationConflict["type"], string> = {
+  "interaction": "Interaction",
+  "duplicate-ingredient": "Same ingredient",
+  "duplicate-class": "Duplicate therapy"
+};
+
+/**
+ * Lists medicine interactions and duplicate therapy found before saving
+ */
+export default function InteractionWarnings({ conflicts, checking }: InteractionWarningsProps) {
+  if (conflicts.length === 0) {
+    return checking ? (
+      <p className="text-xs text-gray-500">Checking for interactions...</p>
+    ) : null;
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center text-sm font-medium text-gray-900">
+        <AlertTriangle className="h-4 w-4 mr-1 text-yellow-600" />
+        Possible problems with these medicines
+      </div>
+      <ul className="space-y-2">
+        {conflicts.map((conflict, index) => (
+          <li key={index} className={`border rounded-md p-3 text-sm ${SEVERITY_STYLES[conflict.severity]}`}>
+            <div className="flex items-center justify-between">
+              <span className="font-medium">
+                {conflict.medications[0]} + {conflict.medications[1]}
+              </span>
+              <span className="text-xs font-semibold uppercase">
+                {conflict.severity} · {TYPE_LABELS[conflict.type]}
+              </span>
+            </div>
+            <p className="mt-1">{conflict.message}</p>
+            {conflict.withExistingReminder && (
+              <p className="mt-1 text-xs opacity-80">Involves a medicine you already have a reminder for.</p>
+            )}
+          </li>
+        ))}
+      </ul>
+      <p className="text-xs text-gray-500">
+        This check is not exhaustive. Ask your doctor or pharmacist before changing how you take any medicine.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { BellRing, BellOff } from "lucide-react";
+
+// The VAPID key is base64url; PushManager wants the raw bytes
+function decodeBase64Url(value: string) {
+  const base64 = (value + "=".repeat((4 - (value.length % 4)) % 4)).replace(/-/g, "+").replace(/_/g, "/");
+  return Uint8Array.from(atob(base64), character => character.charCodeAt(0));
+}
+
+function isPushSupported() {
+  return typeof window !== "undefined" && "serviceWorker" in navigator && "PushManager" in window && "Notification" in window;
+}
+
+/**
+ * Turns browser push reminders for medicine doses on or off for this browser
+ */
+export default function PushReminderToggle() {
+  const [supported, setSupported] = useState(false);
+  const [subscribed, setSubscribed] = useState(false);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isPushSupported()) return;
+    setSupported(true);
+
+    navigator.serviceWorker.getRegistration("/sw.js")
+      .then(registration => registration?.pushManager.getSubscription())
+      .then(subscription => setSubscribed(Boolean(subscription)))
+      .catch(error => console.error("Error checking push subscription:", error));
+  }, []);
+
+  const enable = async () => {
+    const permission = await Notification.requestPermission();
+    if (permission !== "granted") {
+      throw new Error("Allow notifications in your browser to get dose reminders");
+    }
+
+    const keyResponse = await fetch("/api/user/push-subscription");
+    const keyData = await keyResponse.json();
+    if (!keyResponse.ok) {
+      throw new Error(keyData.error || "Push reminders are not available");
+    }
+
+    const registration = await navigator.serviceWorker.register("/sw.js");
+    await navigator.serviceWorker.ready;
+
+    const subscription = await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: decodeBase64Url(keyData.publicKey)
+    });
+
+    const response = await fetch("/api/user/push-subscription", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(subscription.toJSON())
+    });
+    if (!response.ok) {
+      await subscription.unsubscribe();
+      throw new Error("Failed to turn on push reminders");
+    }
+  };
+
+  const disable = async () => {
+    const registration = await navigator.serviceWorker.getRegistration("/sw.js");
+    const subscription = await registration?.pushManager.getSubscription();
+    if (!subscription) return;
+
+    await fetch("/api/user/push-subscription", {
+      method: "DELETE",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ endpoint: subscription.endpoint })
+    });
+    await subscription.unsubscribe();
+  };
+
+  const toggle = async () => {
+    setWorking(true);
+    setError(null);
+
+    try {
+      if (subscribed) {
+        await disable();
+        setSubscribed(false);
+      } else {
+        await enable();
+        setSubscribed(true);
+      }
+    } catch (error) {
+      console.error("Error changing push reminders:", error);
+      setError(error instanceof Error ? error.message : "Failed to change push reminders");
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  if (!supported) return null;
+
+  return (
+    <div className="flex flex-col items-end">
+      <button
+        type="button"
+        onClick={toggle}
+        disabled={working}
+        className={`flex items-center px-3 py-1.5 rounded-md text-sm font-medium transition-colors disabled:opacity-50
+          ${subscribed ? "bg-green-50 text-green-700 hover:bg-green-100" : "bg-indigo-50 text-indigo-700 hover:bg-indigo-100"}`}
+      >
+        {subscribed ? <BellRing className="h-4 w-4 mr-1.5" /> : <BellOff className="h-4 w-4 mr-1.5" />}
+        {working ? "Updating..." : subscribed ? "Push reminders on" : "Turn on push reminders"}
+      </button>
+      {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,360 @@
+import { useEffect, useState } from "react";
+
+type DoctorScheduleModalProps = {
+  doctorId: string;
+  onClose: () => void;
+};
+
+type Shift = {
+  dayOfWeek: number;
+  startTime: string;
+  endTime: string;
+};
+
+type Leave = {
+  id: string;
+  startsAt: string;
+  endsAt: string;
+  reason: string | null;
+};
+
+type DoctorSchedule = {
+  id: string;
+  name: string;
+  specialty: string;
+  slotMinutes: number;
+  slotCapacity: number;
+  shifts: Shift[];
+  leaves: Leave[];
+};
+
+const DAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+export default function DoctorScheduleModal({
+  doctorId,
+  onClose,
+}: DoctorScheduleModalProps) {
+  const [schedule, setSchedule] = useState<DoctorSchedule | null>(null);
+  const [slotMinutes, setSlotMinutes] = useState(15);
+  const [slotCapacity, setSlotCapacity] = useState(1);
+  const [shifts, setShifts] = useState<Shift[]>([]);
+  const [leaveForm, setLeaveForm] = useState({ startsAt: "", endsAt: "", reason: "" });
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Format date and time
+  const formatDateTime = (dateString: string) => {
+    return new Date(dateString).toLocaleString("en-US", {
+      month: "short",
+      day: "numeric",
+      hour: "numeric",
+      minute: "2-digit",
+    });
+  };
+
+  const applySchedule = (data: DoctorSchedule) => {
+    setSchedule(data);
+    setSlotMinutes(data.slotMinutes);
+    setSlotCapacity(data.slotCapacity);
+    setShifts(data.shifts.map(({ dayOfWeek, startTime, endTime }) => ({ dayOfWeek, startTime, endTime })));
+  };
+
+  // Fetch the doctor's schedule
+  useEffect(() => {
+    const fetchSchedule = async () => {
+      try {
+        const response = await fetch(`/api/hospital/doctors/${doctorId}/schedule`);
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load schedule");
+        }
+
+        applySchedule(data);
+      } catch (error) {
+        console.error("Error fetching doctor schedule:", error);
+        setError(error instanceof Error ? error.message : "Failed to load schedule");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchSchedule();
+  }, [doctorId]);
+
+  const updateShift = (index: number, changes: Partial<Shift>) => {
+    setShifts(current => current.map((shift, i) => (i === index ? { ...shift, ...changes } : shift)));
+  };
+
+  const saveSchedule = async () => {
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const response = await fetch(`/api/hospital/doctors/${doctorId}/schedule`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ slotMinutes, slotCapacity, shifts }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save schedule");
+      }
+
+      applySchedule(data);
+      setMessage("Schedule saved");
+    } catch (error) {
+      console.error("Error saving doctor schedule:", error);
+      setError(error instanceof Error ? error.message : "Failed to save schedule");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const addLeave = async () => {
+    if (!leaveForm.startsAt || !leaveForm.endsAt) {
+      setError("Choose when the leave starts and ends");
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const response = await fetch(`/api/hospital/doctors/${doctorId}/leave`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          startsAt: new Date(leaveForm.startsAt).toISOString(),
+          endsAt: new Date(leaveForm.endsAt).toISOString(),
+          reason: leaveForm.reason || null,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to add leave");
+      }
+
+      setSchedule(current => current && {
+        ...current,
+        leaves: [...current.leaves, data.leave].sort((a, b) => a.startsAt.localeCompare(b.startsAt)),
+      });
+      setLeaveForm({ startsAt: "", endsAt: "", reason: "" });
+      setMessage(
+        data.affectedAppointments > 0
+          ? `Leave added. ${data.affectedAppointments} booked appointment(s) fall in this period and need rescheduling.`
+          : "Leave added"
+      );
+    } catch (error) {
+      console.error("Error adding leave:", error);
+      setError(error instanceof Error ? error.message : "Failed to add leave");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const removeLeave = async (leaveId: string) => {
+    setError(null);
+    setMessage(null);
+
+    try {
+      const response = await fetch(`/api/hospital/doctors/${doctorId}/leave?leaveId=${leaveId}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to remove leave");
+      }
+
+      setSchedule(current => current && {
+        ...current,
+        leaves: current.leaves.filter(leave => leave.id !== leaveId),
+      });
+    } catch (error) {
+      console.error("Error removing leave:", error);
+      setError(error instanceof Error ? error.message : "Failed to remove leave");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-500 bg-opacity-75 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center bg-slate-50 rounded-t-lg">
+          <div>
+            <h3 className="text-lg font-semibold text-slate-800">Doctor Schedule</h3>
+            {schedule && (
+              <p className="text-sm text-slate-500">{schedule.name} · {schedule.specialty}</p>
+            )}
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600" aria-label="Close">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-6">
+          {error && (
+            <div className="rounded-md bg-red-50 p-3 text-sm text-red-700 border border-red-200">{error}</div>
+          )}
+          {message && (
+            <div className="rounded-md bg-green-50 p-3 text-sm text-green-700 border border-green-200">{message}</div>
+          )}
+
+          {loading ? (
+            <p className="text-center text-sm text-gray-500">Loading schedule...</p>
+          ) : schedule && (
+            <>
+              {/* Slot settings */}
+              <div className="grid grid-cols-2 gap-4">
+                <label className="block text-sm font-medium text-gray-700">
+                  Slot length (minutes)
+                  <input
+                    type="number"
+                    min={5}
+                    max={240}
+                    value={slotMinutes}
+                    onChange={(e) => setSlotMinutes(Number(e.target.value))}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                  />
+                </label>
+                <label className="block text-sm font-medium text-gray-700">
+                  Patients per slot
+                  <input
+                    type="number"
+                    min={1}
+                    max={20}
+                    value={slotCapacity}
+                    onChange={(e) => setSlotCapacity(Number(e.target.value))}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                  />
+                </label>
+              </div>
+
+              {/* Weekly shifts */}
+              <div>
+                <h4 className="text-sm font-semibold text-gray-900 mb-2">Weekly shifts</h4>
+                {shifts.length === 0 && (
+                  <p className="text-sm text-gray-500 mb-2">No shifts. This doctor cannot be booked.</p>
+                )}
+                <div className="space-y-2">
+                  {shifts.map((shift, index) => (
+                    <div key={index} className="flex items-center space-x-2">
+                      <select
+                        value={shift.dayOfWeek}
+                        onChange={(e) => updateShift(index, { dayOfWeek: Number(e.target.value) })}
+                        className="rounded-md border-gray-300 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                      >
+                        {DAYS.map((day, value) => (
+                          <option key={day} value={value}>{day}</option>
+                        ))}
+                      </select>
+                      <input
+                        type="time"
+                        value={shift.startTime}
+                        onChange={(e) => updateShift(index, { startTime: e.target.value })}
+                        className="rounded-md border-gray-300 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                      />
+                      <span className="text-sm text-gray-500">to</span>
+                      <input
+                        type="time"
+                        value={shift.endTime}
+                        onChange={(e) => updateShift(index, { endTime: e.target.value })}
+                        className="rounded-md border-gray-300 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                      />
+                      <button
+                        onClick={() => setShifts(current => current.filter((_, i) => i !== index))}
+                        className="text-sm text-red-600 hover:text-red-800"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <div className="mt-3 flex justify-between">
+                  <button
+                    onClick={() => setShifts(current => [...current, { dayOfWeek: 1, startTime: "09:00", endTime: "17:00" }])}
+                    className="text-sm font-medium text-indigo-600 hover:text-indigo-800"
+                  >
+                    + Add shift
+                  </button>
+                  <button
+                    onClick={saveSchedule}
+                    disabled={saving}
+                    className="rounded-md bg-indigo-600 px-3 py-2 text-sm font-medium text-white shadow-sm hover:bg-indigo-700 disabled:opacity-50"
+                  >
+                    {saving ? "Saving..." : "Save schedule"}
+                  </button>
+                </div>
+              </div>
+
+              {/* Leave */}
+              <div className="border-t border-gray-200 pt-4">
+                <h4 className="text-sm font-semibold text-gray-900 mb-2">Upcoming leave</h4>
+                {schedule.leaves.length === 0 ? (
+                  <p className="text-sm text-gray-500">No leave planned.</p>
+                ) : (
+                  <ul className="divide-y divide-gray-100">
+                    {schedule.leaves.map(leave => (
+                      <li key={leave.id} className="flex items-center justify-between py-2 text-sm">
+                        <span className="text-gray-700">
+                          {formatDateTime(leave.startsAt)} – {formatDateTime(leave.endsAt)}
+                          {leave.reason && <span className="text-gray-500"> · {leave.reason}</span>}
+                        </span>
+                        <button
+                          onClick={() => removeLeave(leave.id)}
+                          className="text-red-600 hover:text-red-800"
+                        >
+                          Remove
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                <div className="mt-3 grid grid-cols-1 gap-2 sm:grid-cols-3">
+                  <input
+                    type="datetime-local"
+                    value={leaveForm.startsAt}
+                    onChange={(e) => setLeaveForm({ ...leaveForm, startsAt: e.target.value })}
+                    className="rounded-md border-gray-300 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                  />
+                  <input
+                    type="datetime-local"
+                    value={leaveForm.endsAt}
+                    onChange={(e) => setLeaveForm({ ...leaveForm, endsAt: e.target.value })}
+                    className="rounded-md border-gray-300 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                  />
+                  <input
+                    type="text"
+                    placeholder="Reason (optional)"
+                    value={leaveForm.reason}
+                    onChange={(e) => setLeaveForm({ ...leaveForm, reason: e.target.value })}
+                    className="rounded-md border-gray-300 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                  />
+                </div>
+                <div className="mt-2 flex justify-end">
+                  <button
+                    onClick={addLeave}
+                    disabled={saving}
+                    className="rounded-md border border-gray-300 bg-white px-3 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    Add leave
+                  </button>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import Link from "next/link";
+import { Bell } from "lucide-react";
+import { useLiveEvents } from "@/hooks/useLiveEvents";
+import type { LiveEvent } from "@/lib/events";
+
+type InboxNotification = {
+  id: string;
+  title: string;
+  body: string;
+  link: string | null;
+  readAt: string | null;
+  createdAt: string;
+};
+
+function timeAgo(date: string) {
+  const minutes = Math.floor((Date.now() - new Date(date).getTime()) / 60000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return `${Math.floor(hours / 24)}d ago`;
+}
+
+/**
+ * Navbar bell with an unread count and a dropdown of the latest in-app
+ * notifications. New notifications arrive over the live event stream.
+ */
+export default function NotificationBell() {
+  const [notifications, setNotifications] = useState<InboxNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const fetchNotifications = useCallback(async () => {
+    try {
+      const response = await fetch("/api/notifications", { cache: "no-store" });
+      if (!response.ok) {
+        throw new Error("Failed to fetch notifications");
+      }
+      const data = await response.json();
+      setNotifications(data.notifications);
+      setUnreadCount(data.unreadCount);
+    } catch (error) {
+      console.error("Error fetching notifications:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchNotifications();
+  }, [fetchNotifications]);
+
+  const handleLiveEvent = useCallback((event: LiveEvent) => {
+    if (event.type !== "notification.created") return;
+
+    setNotifications(current => [
+      {
+        id: event.notificationId,
+        title: event.title,
+        body: event.body,
+        link: event.link,
+        readAt: null,
+        createdAt: event.createdAt
+      },
+      ...current.filter(notification => notification.id !== event.notificationId)
+    ]);
+    setUnreadCount(count => count + 1);
+  }, []);
+
+  useLiveEvents("/api/user/events", handleLiveEvent, { onPoll: fetchNotifications, pollIntervalMs: 60000 });
+
+  // Close the dropdown on clicks outside it
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClick = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [isOpen]);
+
+  const markRead = async (ids?: string[]) => {
+    const now = new Date().toISOString();
+    setNotifications(current =>
+      current.map(notification =>
+        !notification.readAt && (!ids || ids.includes(notification.id))
+          ? { ...notification, readAt: now }
+          : notification
+      )
+    );
+    setUnreadCount(count => (ids ? Math.max(0, count - ids.length) : 0));
+
+    try {
+      const response = await fetch("/api/notifications", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(ids ? { ids } : {})
+      });
+      if (!response.ok) {
+        throw new Error("Failed to mark notifications read");
+      }
+    } catch (error) {
+      console.error("Error marking notifications read:", error);
+      fetchNotifications();
+    }
+  };
+
+  const openNotification = (notification: InboxNotification) => {
+    setIsOpen(false);
+    if (!notification.readAt) {
+      markRead([notification.id]);
+    }
+  };
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="relative p-2 rounded-full text-gray-500 hover:bg-gray-50 hover:text-gray-700 transition-colors duration-200"
+        aria-expanded={isOpen}
+        aria-haspopup="true"
+      >
+        <span className="sr-only">Notifications</span>
+        <Bell className="h-5 w-5" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-red-500 text-white text-[10px] font-semibold flex items-center justify-center">
+            {unreadCount > 9 ? "9+" : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-20 mt-2 w-80 origin-top-right rounded-md bg-white shadow-lg ring-1 ring-black ring-opacity-5">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+            <p className="text-sm font-medium text-gray-900">Notifications</p>
+            {unreadCount > 0 && (
+              <button
+                type="button"
+                onClick={() => markRead()}
+                className="text-xs font-medium text-indigo-600 hover:text-indigo-800"
+              >
+                Mark all as read
+              </button>
+            )}
+          </div>
+
+          {notifications.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-center text-gray-500">No notifications yet</p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+              {notifications.map(notification => {
+                const content = (
+                  <>
+                    <div className="flex items-start justify-between gap-2">
+                      <p className={`text-sm ${notification.readAt ? "text-gray-700" : "font-semibold text-gray-900"}`}>
+                        {notification.title}
+                      </p>
+                      {!notification.readAt && <span className="mt-1.5 h-2 w-2 flex-shrink-0 rounded-full bg-indigo-500" />}
+                    </div>
+                    <p className="text-xs text-gray-600 mt-1">{notification.body}</p>
+                    <p className="text-[11px] text-gray-400 mt-1">{timeAgo(notification.createdAt)}</p>
+                  </>
+                );
+
+                return (
+                  <li key={notification.id}>
+                    {notification.link ? (
+                      <Link
+                        href={notification.link}
+                        onClick={() => openNotification(notification)}
+                        className="block px-4 py-3 hover:bg-gray-50"
+                      >
+                        {content}
+                      </Link>
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={() => openNotification(notification)}
+                        className="block w-full text-left px-4 py-3 hover:bg-gray-50"
+                      >
+                        {content}
+                      </button>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+
+type FailedAnalysis = {
+  id: string;
+  uploatedAt: string;
+  analysisError: string | null;
+  user: {
+    id: string;
+    name: string | null;
+    email: string;
+  };
+  _count: { pages: number };
+};
+
+type FailedAnalysesProps = {
+  // Changing this reloads the list (e.g. when a live event reports a failure)
+  refreshKey?: number;
+};
+
+/**
+ * Reports whose AI analysis failed after every retry, with a button to run
+ * the analysis again. Renders nothing while there are none.
+ */
+export default function FailedAnalyses({ refreshKey = 0 }: FailedAnalysesProps) {
+  const [analyses, setAnalyses] = useState<FailedAnalysis[]>([]);
+  const [retrying, setRetrying] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchAnalyses = useCallback(async () => {
+    try {
+      const response = await fetch("/api/hospital/failed-analyses", { cache: "no-store" });
+      if (!response.ok) {
+        throw new Error("Failed to fetch failed analyses");
+      }
+      const data = await response.json();
+      setAnalyses(data.analyses);
+    } catch (error) {
+      console.error("Error fetching failed analyses:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchAnalyses();
+  }, [fetchAnalyses, refreshKey]);
+
+  const handleRetry = async (reportId: string) => {
+    setRetrying(reportId);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/reports/${reportId}/analysis`, { method: "POST" });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to re-run analysis");
+      }
+      setAnalyses(current => current.filter(item => item.id !== reportId));
+    } catch (error) {
+      console.error("Error re-running analysis:", error);
+      setError(error instanceof Error ? error.message : "Failed to re-run analysis");
+    } finally {
+      setRetrying(null);
+    }
+  };
+
+  if (analyses.length === 0) return null;
+
+  return (
+    <div className="rounded-lg border border-red-200 bg-red-50 p-4">
+      <h2 className="text-sm font-semibold text-red-800">
+        {analyses.length} report{analyses.length === 1 ? "" : "s"} could not be analyzed
+      </h2>
+      <p className="mt-1 text-sm text-red-700">
+        These patients are not in the queue yet. Run the analysis again once the problem is fixed.
+      </p>
+
+      {error && <p className="mt-2 text-sm font-medium text-red-800">{error}</p>}
+
+      <ul role="list" className="mt-3 divide-y divide-red-100">
+        {analyses.map(item => (
+          <li key={item.id} className="flex items-center justify-between py-2">
+            <div>
+              <p className="text-sm font-medium text-gray-900">
+                {item.user.name || item.user.email}
+                <span className="ml-2 text-xs font-normal text-gray-500">
+                  {item._count.pages} page{item._count.pages === 1 ? "" : "s"}, uploaded {new Date(item.uploatedAt).toLocaleString()}
+                </span>
+              </p>
+              {item.analysisError && (
+                <p className="text-xs text-red-600">{item.analysisError}</p>
+              )}
+            </div>
+            <button
+              type="button"
+              onClick={() => handleRetry(item.id)}
+              disabled={retrying === item.id}
+              className="rounded-md bg-white px-3 py-2 text-sm font-semibold text-red-700 shadow-sm ring-1 ring-inset ring-red-300 hover:bg-red-100 disabled:opacity-50"
+            >
+              {retrying === item.id ? "Scheduling..." : "Re-run analysis"}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import { FileText } from "lucide-react";
+
+type ReportThumbnailProps = {
+  reportId: string;
+  // Whether the original document was stored (older reports only kept a stub)
+  hasImage: boolean;
+  // Page number, starting at 1
+  page?: number;
+  // PDF pages have no preview image
+  hasPreview?: boolean;
+  size?: "small" | "large";
+};
+
+const SIZES = {
+  small: "h-16 w-16",
+  large: "h-48 w-48"
+};
+
+// Rendered size in pixels, matching SIZES
+const PIXELS = {
+  small: 64,
+  large: 192
+};
+
+/**
+ * Preview of a page of an uploaded report that opens the original page. The
+ * image routes check the viewer's permissions and redirect to a short-lived URL.
+ * The image is not optimized: the optimizer would fetch it without the viewer's
+ * session, and the stored thumbnail is already a small WebP.
+ */
+export default function ReportThumbnail({ reportId, hasImage, page = 1, hasPreview = true, size = "small" }: ReportThumbnailProps) {
+  const [failed, setFailed] = useState(false);
+
+  if (!hasImage) {
+    return (
+      <div className={`${SIZES[size]} flex flex-shrink-0 flex-col items-center justify-center rounded-md border border-dashed border-gray-300 bg-gray-50 p-2 text-center text-xs text-gray-400`}>
+        <FileText className="h-5 w-5 mb-1" />
+        No document stored
+      </div>
+    );
+  }
+
+  const imageUrl = `/api/receipts/${reportId}/image?page=${page}`;
+
+  return (
+    <a
+      href={imageUrl}
+      target="_blank"
+      rel="noopener noreferrer"
+      title={`Open page ${page} of the original document`}
+      className={`${SIZES[size]} flex flex-shrink-0 items-center justify-center overflow-hidden rounded-md border border-gray-200 bg-gray-50 hover:border-indigo-400`}
+    >
+      {failed || !hasPreview ? (
+        <span className="flex flex-col items-center text-xs text-indigo-600">
+          <FileText className="h-5 w-5 mb-1" />
+          {hasPreview ? "Open document" : `PDF page ${page}`}
+        </span>
+      ) : (
+        <Image
+          src={`${imageUrl}&variant=thumbnail`}
+          alt={`Page ${page} of the uploaded report`}
+          width={PIXELS[size]}
+          height={PIXELS[size]}
+          unoptimized
+          onError={() => setFailed(true)}
+          className="h-full w-full object-cover"
+        />
+      )}
+    </a>
+  );
+}
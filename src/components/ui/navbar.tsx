@@ -6,10 +6,13 @@ import Image from "next/image";
 import { useState, useEffect } from "react";
 import { usePathname } from "next/navigation";
 import EmergencyButton from "../EmergencyButton";
-import { MessageSquareText, Clock, Home, Upload, Calendar, Clock3, Grid3X3, Settings, Bell, Users, Database, LogOut, User } from "lucide-react";
+import NotificationBell from "../notifications/NotificationBell";
+import { useTranslation } from "@/hooks/useTranslation";
+import { MessageSquareText, Clock, Home, Upload, Calendar, Clock3, Grid3X3, Settings, Bell, Users, Database, LogOut, User, ShieldCheck } from "lucide-react";
 
 export default function Navbar() {
   const { data: session } = useSession();
+  const { t } = useTranslation();
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
   const [scrolled, setScrolled] = useState(false);
   const pathname = usePathname();
@@ -64,13 +67,13 @@ export default function Navbar() {
                   <Link 
                     href="/user" 
                     className={`flex items-center px-3 py-2 rounded-md text-sm font-medium transition-colors duration-200 
-                      ${isActive('/user') && !isActive('/user/upload') && !isActive('/user/appointments') && !isActive('/user/medicine-reminder')
+                      ${isActive('/user') && !isActive('/user/upload') && !isActive('/user/appointments') && !isActive('/user/medicine-reminder') && !isActive('/user/access-log')
                         ? 'bg-blue-50 text-blue-700' 
                         : 'text-gray-700 hover:bg-gray-50 hover:text-gray-900'
                       }`}
                   >
                     <Home className={`h-4 w-4 mr-1.5 ${isActive('/user') ? 'text-blue-500' : 'text-gray-500'}`} />
-                    Dashboard
+                    {t("nav.dashboard")}
                   </Link>
                   <Link 
                     href="/user/upload" 
@@ -81,7 +84,7 @@ export default function Navbar() {
                       }`}
                   >
                     <Upload className={`h-4 w-4 mr-1.5 ${isActive('/user/upload') ? 'text-blue-500' : 'text-gray-500'}`} />
-                    Upload Report
+                    {t("nav.uploadReport")}
                   </Link>
                   <Link 
                     href="/user/appointments" 
@@ -92,7 +95,7 @@ export default function Navbar() {
                       }`}
                   >
                     <Calendar className={`h-4 w-4 mr-1.5 ${isActive('/user/appointments') ? 'text-blue-500' : 'text-gray-500'}`} />
-                    Appointments
+                    {t("nav.appointments")}
                   </Link>
                   <Link 
                     href="/user/medicine-reminder" 
@@ -103,7 +106,7 @@ export default function Navbar() {
                       }`}
                   >
                     <Clock3 className={`h-4 w-4 mr-1.5 ${isActive('/user/medicine-reminder') ? 'text-blue-500' : 'text-gray-500'}`} />
-                    Medicine Reminder
+                    {t("nav.medicineReminder")}
                   </Link>
                 </div>
               )}
@@ -162,7 +165,7 @@ export default function Navbar() {
                   <Link 
                     href="/admin" 
                     className={`flex items-center px-3 py-2 rounded-md text-sm font-medium transition-colors duration-200
-                      ${isActive('/admin') && !isActive('/admin/hospitals') && !isActive('/admin/users') && !isActive('/admin/debug')
+                      ${isActive('/admin') && !isActive('/admin/hospitals') && !isActive('/admin/users') && !isActive('/admin/audit') && !isActive('/admin/debug')
                         ? 'bg-purple-50 text-purple-700' 
                         : 'text-gray-700 hover:bg-gray-50 hover:text-gray-900'
                       }`}
@@ -192,6 +195,17 @@ export default function Navbar() {
                     <User className={`h-4 w-4 mr-1.5 ${isActive('/admin/users') ? 'text-purple-500' : 'text-gray-500'}`} />
                     Manage Users
                   </Link>
+                  <Link 
+                    href="/admin/audit" 
+                    className={`flex items-center px-3 py-2 rounded-md text-sm font-medium transition-colors duration-200
+                      ${isActive('/admin/audit') 
+                        ? 'bg-purple-50 text-purple-700' 
+                        : 'text-gray-700 hover:bg-gray-50 hover:text-gray-900'
+                      }`}
+                  >
+                    <ShieldCheck className={`h-4 w-4 mr-1.5 ${isActive('/admin/audit') ? 'text-purple-500' : 'text-gray-500'}`} />
+                    Audit Log
+                  </Link>
                   <Link 
                     href="/admin/debug" 
                     className={`flex items-center px-3 py-2 rounded-md text-sm font-medium transition-colors duration-200
@@ -218,10 +232,11 @@ export default function Navbar() {
                   className="flex items-center px-3 py-2 rounded-md text-sm font-medium text-indigo-600 hover:bg-indigo-50 hover:text-indigo-700 transition-colors duration-200"
                 >
                   <MessageSquareText className="h-5 w-5 mr-1.5" />
-                  <span className="hidden md:inline">AI Assistant</span>
+                  <span className="hidden md:inline">{t("nav.aiAssistant")}</span>
                 </Link>
               </>
             )}
+            <NotificationBell />
             <div className="relative ml-3">
               <div>
                 <button
@@ -275,8 +290,20 @@ export default function Navbar() {
                     onClick={() => setIsDropdownOpen(false)}
                   >
                     <User className="h-4 w-4 mr-2 text-gray-500" />
-                    Your Profile
+                    {t("nav.profile")}
                   </Link>
+                  {role === "USER" && (
+                    <Link
+                      href="/user/access-log"
+                      className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+                      role="menuitem"
+                      tabIndex={-1}
+                      onClick={() => setIsDropdownOpen(false)}
+                    >
+                      <ShieldCheck className="h-4 w-4 mr-2 text-gray-500" />
+                      {t("nav.accessLog")}
+                    </Link>
+                  )}
                   <button
                     onClick={() => signOut({ callbackUrl: "/" })}
                     className="flex items-center w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
@@ -284,7 +311,7 @@ export default function Navbar() {
                     tabIndex={-1}
                   >
                     <LogOut className="h-4 w-4 mr-2 text-gray-500" />
-                    Sign out
+                    {t("nav.signOut")}
                   </button>
                 </div>
               )}
@@ -300,13 +327,13 @@ export default function Navbar() {
             <Link 
               href="/user" 
               className={`flex flex-col items-center px-2 py-2 rounded-md text-xs font-medium transition-colors duration-200 
-                ${isActive('/user') && !isActive('/user/upload') && !isActive('/user/appointments') && !isActive('/user/medicine-reminder')
+                ${isActive('/user') && !isActive('/user/upload') && !isActive('/user/appointments') && !isActive('/user/medicine-reminder') && !isActive('/user/access-log')
                   ? 'bg-blue-50 text-blue-700' 
                   : 'text-gray-700 hover:bg-gray-50 hover:text-gray-900'
                 }`}
             >
               <Home className={`h-5 w-5 mb-1 ${isActive('/user') ? 'text-blue-500' : 'text-gray-500'}`} />
-              Home
+              {t("nav.short.home")}
             </Link>
             <Link 
               href="/user/upload" 
@@ -317,7 +344,7 @@ export default function Navbar() {
                 }`}
             >
               <Upload className={`h-5 w-5 mb-1 ${isActive('/user/upload') ? 'text-blue-500' : 'text-gray-500'}`} />
-              Upload
+              {t("nav.short.upload")}
             </Link>
             <Link 
               href="/user/appointments" 
@@ -328,7 +355,7 @@ export default function Navbar() {
                 }`}
             >
               <Calendar className={`h-5 w-5 mb-1 ${isActive('/user/appointments') ? 'text-blue-500' : 'text-gray-500'}`} />
-              Appts
+              {t("nav.short.appointments")}
             </Link>
             <Link 
               href="/user/medicine-reminder" 
@@ -339,7 +366,7 @@ export default function Navbar() {
                 }`}
             >
               <Clock3 className={`h-5 w-5 mb-1 ${isActive('/user/medicine-reminder') ? 'text-blue-500' : 'text-gray-500'}`} />
-              Meds
+              {t("nav.short.medicines")}
             </Link>
           </div>
         )}
@@ -394,11 +421,11 @@ export default function Navbar() {
         )}
         
         {role === "ADMIN" && (
-          <div className="grid grid-cols-4 gap-1">
+          <div className="grid grid-cols-5 gap-1">
             <Link 
               href="/admin" 
               className={`flex flex-col items-center px-2 py-2 rounded-md text-xs font-medium transition-colors duration-200 
-                ${isActive('/admin') && !isActive('/admin/hospitals') && !isActive('/admin/users') && !isActive('/admin/debug')
+                ${isActive('/admin') && !isActive('/admin/hospitals') && !isActive('/admin/users') && !isActive('/admin/audit') && !isActive('/admin/debug')
                   ? 'bg-purple-50 text-purple-700' 
                   : 'text-gray-700 hover:bg-gray-50 hover:text-gray-900'
                 }`}
@@ -428,6 +455,17 @@ export default function Navbar() {
               <User className={`h-5 w-5 mb-1 ${isActive('/admin/users') ? 'text-purple-500' : 'text-gray-500'}`} />
               Users
             </Link>
+            <Link 
+              href="/admin/audit" 
+              className={`flex flex-col items-center px-2 py-2 rounded-md text-xs font-medium transition-colors duration-200 
+                ${isActive('/admin/audit')
+                  ? 'bg-purple-50 text-purple-700' 
+                  : 'text-gray-700 hover:bg-gray-50 hover:text-gray-900'
+                }`}
+            >
+              <ShieldCheck className={`h-5 w-5 mb-1 ${isActive('/admin/audit') ? 'text-purple-500' : 'text-gray-500'}`} />
+              Audit
+            </Link>
             <Link 
               href="/admin/debug" 
               className={`flex flex-col items-center px-2 py-2 rounded-md text-xs font-medium transition-colors duration-200 
@@ -450,7 +488,7 @@ export default function Navbar() {
               className="flex items-center px-3 py-2 rounded-md text-sm font-medium text-indigo-600 bg-indigo-50 hover:bg-indigo-100 transition-colors"
             >
               <MessageSquareText className="h-4 w-4 mr-1" />
-              AI Assistant
+              {t("nav.aiAssistant")}
             </Link>
           </div>
         )}
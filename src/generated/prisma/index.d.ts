@@ -1,20538 +0,0 @@
-
-/**
- * Client
-**/
-
-import * as runtime from './runtime/library.js';
-import $Types = runtime.Types // general types
-import $Public = runtime.Types.Public
-import $Utils = runtime.Types.Utils
-import $Extensions = runtime.Types.Extensions
-import $Result = runtime.Types.Result
-
-export type PrismaPromise<T> = $Public.PrismaPromise<T>
-
-
-/**
- * Model Account
- * 
- */
-export type Account = $Result.DefaultSelection<Prisma.$AccountPayload>
-/**
- * Model Session
- * 
- */
-export type Session = $Result.DefaultSelection<Prisma.$SessionPayload>
-/**
- * Model User
- * 
- */
-export type User = $Result.DefaultSelection<Prisma.$UserPayload>
-/**
- * Model VerificationToken
- * 
- */
-export type VerificationToken = $Result.DefaultSelection<Prisma.$VerificationTokenPayload>
-/**
- * Model Receipt
- * 
- */
-export type Receipt = $Result.DefaultSelection<Prisma.$ReceiptPayload>
-/**
- * Model Hospital
- * 
- */
-export type Hospital = $Result.DefaultSelection<Prisma.$HospitalPayload>
-/**
- * Model State
- * 
- */
-export type State = $Result.DefaultSelection<Prisma.$StatePayload>
-/**
- * Model Doctor
- * 
- */
-export type Doctor = $Result.DefaultSelection<Prisma.$DoctorPayload>
-/**
- * Model Appointment
- * 
- */
-export type Appointment = $Result.DefaultSelection<Prisma.$AppointmentPayload>
-/**
- * Model EmergencyAlert
- * 
- */
-export type EmergencyAlert = $Result.DefaultSelection<Prisma.$EmergencyAlertPayload>
-/**
- * Model MedicineReminder
- * 
- */
-export type MedicineReminder = $Result.DefaultSelection<Prisma.$MedicineReminderPayload>
-
-/**
- * Enums
- */
-export namespace $Enums {
-  export const AppointmentStatus: {
-  PENDING: 'PENDING',
-  CONFIRMED: 'CONFIRMED',
-  COMPLETED: 'COMPLETED',
-  CANCELLED: 'CANCELLED'
-};
-
-export type AppointmentStatus = (typeof AppointmentStatus)[keyof typeof AppointmentStatus]
-
-
-export const UserRole: {
-  USER: 'USER',
-  ADMIN: 'ADMIN',
-  HOSPITAL: 'HOSPITAL'
-};
-
-export type UserRole = (typeof UserRole)[keyof typeof UserRole]
-
-
-export const ReceiptStatus: {
-  PENDING: 'PENDING',
-  PROCESSED: 'PROCESSED',
-  QUEUED: 'QUEUED',
-  COMPLETED: 'COMPLETED'
-};
-
-export type ReceiptStatus = (typeof ReceiptStatus)[keyof typeof ReceiptStatus]
-
-
-export const EmergencyAlertStatus: {
-  PENDING: 'PENDING',
-  ACKNOWLEDGED: 'ACKNOWLEDGED',
-  RESPONDED: 'RESPONDED',
-  CLOSED: 'CLOSED'
-};
-
-export type EmergencyAlertStatus = (typeof EmergencyAlertStatus)[keyof typeof EmergencyAlertStatus]
-
-}
-
-export type AppointmentStatus = $Enums.AppointmentStatus
-
-export const AppointmentStatus: typeof $Enums.AppointmentStatus
-
-export type UserRole = $Enums.UserRole
-
-export const UserRole: typeof $Enums.UserRole
-
-export type ReceiptStatus = $Enums.ReceiptStatus
-
-export const ReceiptStatus: typeof $Enums.ReceiptStatus
-
-export type EmergencyAlertStatus = $Enums.EmergencyAlertStatus
-
-export const EmergencyAlertStatus: typeof $Enums.EmergencyAlertStatus
-
-/**
- * ##  Prisma Client ʲˢ
- *
- * Type-safe database client for TypeScript & Node.js
- * @example
- * ```
- * const prisma = new PrismaClient()
- * // Fetch zero or more Accounts
- * const accounts = await prisma.account.findMany()
- * ```
- *
- *
- * Read more in our [docs](https://www.prisma.io/docs/reference/tools-and-interfaces/prisma-client).
- */
-export class PrismaClient<
-  ClientOptions extends Prisma.PrismaClientOptions = Prisma.PrismaClientOptions,
-  U = 'log' extends keyof ClientOptions ? ClientOptions['log'] extends Array<Prisma.LogLevel | Prisma.LogDefinition> ? Prisma.GetEvents<ClientOptions['log']> : never : never,
-  ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs
-> {
-  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['other'] }
-
-    /**
-   * ##  Prisma Client ʲˢ
-   *
-   * Type-safe database client for TypeScript & Node.js
-   * @example
-   * ```
-   * const prisma = new PrismaClient()
-   * // Fetch zero or more Accounts
-   * const accounts = await prisma.account.findMany()
-   * ```
-   *
-   *
-   * Read more in our [docs](https://www.prisma.io/docs/reference/tools-and-interfaces/prisma-client).
-   */
-
-  constructor(optionsArg ?: Prisma.Subset<ClientOptions, Prisma.PrismaClientOptions>);
-  $on<V extends U>(eventType: V, callback: (event: V extends 'query' ? Prisma.QueryEvent : Prisma.LogEvent) => void): PrismaClient;
-
-  /**
-   * Connect with the database
-   */
-  $connect(): $Utils.JsPromise<void>;
-
-  /**
-   * Disconnect from the database
-   */
-  $disconnect(): $Utils.JsPromise<void>;
-
-  /**
-   * Add a middleware
-   * @deprecated since 4.16.0. For new code, prefer client extensions instead.
-   * @see https://pris.ly/d/extensions
-   */
-  $use(cb: Prisma.Middleware): void
-
-/**
-   * Executes a prepared raw query and returns the number of affected rows.
-   * @example
-   * ```
-   * const result = await prisma.$executeRaw`UPDATE User SET cool = ${true} WHERE email = ${'user@email.com'};`
-   * ```
-   *
-   * Read more in our [docs](https://www.prisma.io/docs/reference/tools-and-interfaces/prisma-client/raw-database-access).
-   */
-  $executeRaw<T = unknown>(query: TemplateStringsArray | Prisma.Sql, ...values: any[]): Prisma.PrismaPromise<number>;
-
-  /**
-   * Executes a raw query and returns the number of affected rows.
-   * Susceptible to SQL injections, see documentation.
-   * @example
-   * ```
-   * const result = await prisma.$executeRawUnsafe('UPDATE User SET cool = $1 WHERE email = $2 ;', true, 'user@email.com')
-   * ```
-   *
-   * Read more in our [docs](https://www.prisma.io/docs/reference/tools-and-interfaces/prisma-client/raw-database-access).
-   */
-  $executeRawUnsafe<T = unknown>(query: string, ...values: any[]): Prisma.PrismaPromise<number>;
-
-  /**
-   * Performs a prepared raw query and returns the `SELECT` data.
-   * @example
-   * ```
-   * const result = await prisma.$queryRaw`SELECT * FROM User WHERE id = ${1} OR email = ${'user@email.com'};`
-   * ```
-   *
-   * Read more in our [docs](https://www.prisma.io/docs/reference/tools-and-interfaces/prisma-client/raw-database-access).
-   */
-  $queryRaw<T = unknown>(query: TemplateStringsArray | Prisma.Sql, ...values: any[]): Prisma.PrismaPromise<T>;
-
-  /**
-   * Performs a raw query and returns the `SELECT` data.
-   * Susceptible to SQL injections, see documentation.
-   * @example
-   * ```
-   * const result = await prisma.$queryRawUnsafe('SELECT * FROM User WHERE id = $1 OR email = $2;', 1, 'user@email.com')
-   * ```
-   *
-   * Read more in our [docs](https://www.prisma.io/docs/reference/tools-and-interfaces/prisma-client/raw-database-access).
-   */
-  $queryRawUnsafe<T = unknown>(query: string, ...values: any[]): Prisma.PrismaPromise<T>;
-
-
-  /**
-   * Allows the running of a sequence of read/write operations that are guaranteed to either succeed or fail as a whole.
-   * @example
-   * ```
-   * const [george, bob, alice] = await prisma.$transaction([
-   *   prisma.user.create({ data: { name: 'George' } }),
-   *   prisma.user.create({ data: { name: 'Bob' } }),
-   *   prisma.user.create({ data: { name: 'Alice' } }),
-   * ])
-   * ```
-   * 
-   * Read more in our [docs](https://www.prisma.io/docs/concepts/components/prisma-client/transactions).
-   */
-  $transaction<P extends Prisma.PrismaPromise<any>[]>(arg: [...P], options?: { isolationLevel?: Prisma.TransactionIsolationLevel }): $Utils.JsPromise<runtime.Types.Utils.UnwrapTuple<P>>
-
-  $transaction<R>(fn: (prisma: Omit<PrismaClient, runtime.ITXClientDenyList>) => $Utils.JsPromise<R>, options?: { maxWait?: number, timeout?: number, isolationLevel?: Prisma.TransactionIsolationLevel }): $Utils.JsPromise<R>
-
-
-  $extends: $Extensions.ExtendsHook<"extends", Prisma.TypeMapCb<ClientOptions>, ExtArgs, $Utils.Call<Prisma.TypeMapCb<ClientOptions>, {
-    extArgs: ExtArgs
-  }>>
-
-      /**
-   * `prisma.account`: Exposes CRUD operations for the **Account** model.
-    * Example usage:
-    * ```ts
-    * // Fetch zero or more Accounts
-    * const accounts = await prisma.account.findMany()
-    * ```
-    */
-  get account(): Prisma.AccountDelegate<ExtArgs, ClientOptions>;
-
-  /**
-   * `prisma.session`: Exposes CRUD operations for the **Session** model.
-    * Example usage:
-    * ```ts
-    * // Fetch zero or more Sessions
-    * const sessions = await prisma.session.findMany()
-    * ```
-    */
-  get session(): Prisma.SessionDelegate<ExtArgs, ClientOptions>;
-
-  /**
-   * `prisma.user`: Exposes CRUD operations for the **User** model.
-    * Example usage:
-    * ```ts
-    * // Fetch zero or more Users
-    * const users = await prisma.user.findMany()
-    * ```
-    */
-  get user(): Prisma.UserDelegate<ExtArgs, ClientOptions>;
-
-  /**
-   * `prisma.verificationToken`: Exposes CRUD operations for the **VerificationToken** model.
-    * Example usage:
-    * ```ts
-    * // Fetch zero or more VerificationTokens
-    * const verificationTokens = await prisma.verificationToken.findMany()
-    * ```
-    */
-  get verificationToken(): Prisma.VerificationTokenDelegate<ExtArgs, ClientOptions>;
-
-  /**
-   * `prisma.receipt`: Exposes CRUD operations for the **Receipt** model.
-    * Example usage:
-    * ```ts
-    * // Fetch zero or more Receipts
-    * const receipts = await prisma.receipt.findMany()
-    * ```
-    */
-  get receipt(): Prisma.ReceiptDelegate<ExtArgs, ClientOptions>;
-
-  /**
-   * `prisma.hospital`: Exposes CRUD operations for the **Hospital** model.
-    * Example usage:
-    * ```ts
-    * // Fetch zero or more Hospitals
-    * const hospitals = await prisma.hospital.findMany()
-    * ```
-    */
-  get hospital(): Prisma.HospitalDelegate<ExtArgs, ClientOptions>;
-
-  /**
-   * `prisma.state`: Exposes CRUD operations for the **State** model.
-    * Example usage:
-    * ```ts
-    * // Fetch zero or more States
-    * const states = await prisma.state.findMany()
-    * ```
-    */
-  get state(): Prisma.StateDelegate<ExtArgs, ClientOptions>;
-
-  /**
-   * `prisma.doctor`: Exposes CRUD operations for the **Doctor** model.
-    * Example usage:
-    * ```ts
-    * // Fetch zero or more Doctors
-    * const doctors = await prisma.doctor.findMany()
-    * ```
-    */
-  get doctor(): Prisma.DoctorDelegate<ExtArgs, ClientOptions>;
-
-  /**
-   * `prisma.appointment`: Exposes CRUD operations for the **Appointment** model.
-    * Example usage:
-    * ```ts
-    * // Fetch zero or more Appointments
-    * const appointments = await prisma.appointment.findMany()
-    * ```
-    */
-  get appointment(): Prisma.AppointmentDelegate<ExtArgs, ClientOptions>;
-
-  /**
-   * `prisma.emergencyAlert`: Exposes CRUD operations for the **EmergencyAlert** model.
-    * Example usage:
-    * ```ts
-    * // Fetch zero or more EmergencyAlerts
-    * const emergencyAlerts = await prisma.emergencyAlert.findMany()
-    * ```
-    */
-  get emergencyAlert(): Prisma.EmergencyAlertDelegate<ExtArgs, ClientOptions>;
-
-  /**
-   * `prisma.medicineReminder`: Exposes CRUD operations for the **MedicineReminder** model.
-    * Example usage:
-    * ```ts
-    * // Fetch zero or more MedicineReminders
-    * const medicineReminders = await prisma.medicineReminder.findMany()
-    * ```
-    */
-  get medicineReminder(): Prisma.MedicineReminderDelegate<ExtArgs, ClientOptions>;
-}
-
-export namespace Prisma {
-  export import DMMF = runtime.DMMF
-
-  export type PrismaPromise<T> = $Public.PrismaPromise<T>
-
-  /**
-   * Validator
-   */
-  export import validator = runtime.Public.validator
-
-  /**
-   * Prisma Errors
-   */
-  export import PrismaClientKnownRequestError = runtime.PrismaClientKnownRequestError
-  export import PrismaClientUnknownRequestError = runtime.PrismaClientUnknownRequestError
-  export import PrismaClientRustPanicError = runtime.PrismaClientRustPanicError
-  export import PrismaClientInitializationError = runtime.PrismaClientInitializationError
-  export import PrismaClientValidationError = runtime.PrismaClientValidationError
-
-  /**
-   * Re-export of sql-template-tag
-   */
-  export import sql = runtime.sqltag
-  export import empty = runtime.empty
-  export import join = runtime.join
-  export import raw = runtime.raw
-  export import Sql = runtime.Sql
-
-
-
-  /**
-   * Decimal.js
-   */
-  export import Decimal = runtime.Decimal
-
-  export type DecimalJsLike = runtime.DecimalJsLike
-
-  /**
-   * Metrics
-   */
-  export type Metrics = runtime.Metrics
-  export type Metric<T> = runtime.Metric<T>
-  export type MetricHistogram = runtime.MetricHistogram
-  export type MetricHistogramBucket = runtime.MetricHistogramBucket
-
-  /**
-  * Extensions
-  */
-  export import Extension = $Extensions.UserArgs
-  export import getExtensionContext = runtime.Extensions.getExtensionContext
-  export import Args = $Public.Args
-  export import Payload = $Public.Payload
-  export import Result = $Public.Result
-  export import Exact = $Public.Exact
-
-  /**
-   * Prisma Client JS version: 6.7.0
-   * Query Engine version: 3cff47a7f5d65c3ea74883f1d736e41d68ce91ed
-   */
-  export type PrismaVersion = {
-    client: string
-  }
-
-  export const prismaVersion: PrismaVersion
-
-  /**
-   * Utility Types
-   */
-
-
-  export import JsonObject = runtime.JsonObject
-  export import JsonArray = runtime.JsonArray
-  export import JsonValue = runtime.JsonValue
-  export import InputJsonObject = runtime.InputJsonObject
-  export import InputJsonArray = runtime.InputJsonArray
-  export import InputJsonValue = runtime.InputJsonValue
-
-  /**
-   * Types of the values used to represent different kinds of `null` values when working with JSON fields.
-   *
-   * @see https://www.prisma.io/docs/concepts/components/prisma-client/working-with-fields/working-with-json-fields#filtering-on-a-json-field
-   */
-  namespace NullTypes {
-    /**
-    * Type of `Prisma.DbNull`.
-    *
-    * You cannot use other instances of this class. Please use the `Prisma.DbNull` value.
-    *
-    * @see https://www.prisma.io/docs/concepts/components/prisma-client/working-with-fields/working-with-json-fields#filtering-on-a-json-field
-    */
-    class DbNull {
-      private DbNull: never
-      private constructor()
-    }
-
-    /**
-    * Type of `Prisma.JsonNull`.
-    *
-    * You cannot use other instances of this class. Please use the `Prisma.JsonNull` value.
-    *
-    * @see https://www.prisma.io/docs/concepts/components/prisma-client/working-with-fields/working-with-json-fields#filtering-on-a-json-field
-    */
-    class JsonNull {
-      private JsonNull: never
-      private constructor()
-    }
-
-    /**
-    * Type of `Prisma.AnyNull`.
-    *
-    * You cannot use other instances of this class. Please use the `Prisma.AnyNull` value.
-    *
-    * @see https://www.prisma.io/docs/concepts/components/prisma-client/working-with-fields/working-with-json-fields#filtering-on-a-json-field
-    */
-    class AnyNull {
-      private AnyNull: never
-      private constructor()
-    }
-  }
-
-  /**
-   * Helper for filtering JSON entries that have `null` on the database (empty on the db)
-   *
-   * @see https://www.prisma.io/docs/concepts/components/prisma-client/working-with-fields/working-with-json-fields#filtering-on-a-json-field
-   */
-  export const DbNull: NullTypes.DbNull
-
-  /**
-   * Helper for filtering JSON entries that have JSON `null` values (not empty on the db)
-   *
-   * @see https://www.prisma.io/docs/concepts/components/prisma-client/working-with-fields/working-with-json-fields#filtering-on-a-json-field
-   */
-  export const JsonNull: NullTypes.JsonNull
-
-  /**
-   * Helper for filtering JSON entries that are `Prisma.DbNull` or `Prisma.JsonNull`
-   *
-   * @see https://www.prisma.io/docs/concepts/components/prisma-client/working-with-fields/working-with-json-fields#filtering-on-a-json-field
-   */
-  export const AnyNull: NullTypes.AnyNull
-
-  type SelectAndInclude = {
-    select: any
-    include: any
-  }
-
-  type SelectAndOmit = {
-    select: any
-    omit: any
-  }
-
-  /**
-   * Get the type of the value, that the Promise holds.
-   */
-  export type PromiseType<T extends PromiseLike<any>> = T extends PromiseLike<infer U> ? U : T;
-
-  /**
-   * Get the return type of a function which returns a Promise.
-   */
-  export type PromiseReturnType<T extends (...args: any) => $Utils.JsPromise<any>> = PromiseType<ReturnType<T>>
-
-  /**
-   * From T, pick a set of properties whose keys are in the union K
-   */
-  type Prisma__Pick<T, K extends keyof T> = {
-      [P in K]: T[P];
-  };
-
-
-  export type Enumerable<T> = T | Array<T>;
-
-  export type RequiredKeys<T> = {
-    [K in keyof T]-?: {} extends Prisma__Pick<T, K> ? never : K
-  }[keyof T]
-
-  export type TruthyKeys<T> = keyof {
-    [K in keyof T as T[K] extends false | undefined | null ? never : K]: K
-  }
-
-  export type TrueKeys<T> = TruthyKeys<Prisma__Pick<T, RequiredKeys<T>>>
-
-  /**
-   * Subset
-   * @desc From `T` pick properties that exist in `U`. Simple version of Intersection
-   */
-  export type Subset<T, U> = {
-    [key in keyof T]: key extends keyof U ? T[key] : never;
-  };
-
-  /**
-   * SelectSubset
-   * @desc From `T` pick properties that exist in `U`. Simple version of Intersection.
-   * Additionally, it validates, if both select and include are present. If the case, it errors.
-   */
-  export type SelectSubset<T, U> = {
-    [key in keyof T]: key extends keyof U ? T[key] : never
-  } &
-    (T extends SelectAndInclude
-      ? 'Please either choose `select` or `include`.'
-      : T extends SelectAndOmit
-        ? 'Please either choose `select` or `omit`.'
-        : {})
-
-  /**
-   * Subset + Intersection
-   * @desc From `T` pick properties that exist in `U` and intersect `K`
-   */
-  export type SubsetIntersection<T, U, K> = {
-    [key in keyof T]: key extends keyof U ? T[key] : never
-  } &
-    K
-
-  type Without<T, U> = { [P in Exclude<keyof T, keyof U>]?: never };
-
-  /**
-   * XOR is needed to have a real mutually exclusive union type
-   * https://stackoverflow.com/questions/42123407/does-typescript-support-mutually-exclusive-types
-   */
-  type XOR<T, U> =
-    T extends object ?
-    U extends object ?
-      (Without<T, U> & U) | (Without<U, T> & T)
-    : U : T
-
-
-  /**
-   * Is T a Record?
-   */
-  type IsObject<T extends any> = T extends Array<any>
-  ? False
-  : T extends Date
-  ? False
-  : T extends Uint8Array
-  ? False
-  : T extends BigInt
-  ? False
-  : T extends object
-  ? True
-  : False
-
-
-  /**
-   * If it's T[], return T
-   */
-  export type UnEnumerate<T extends unknown> = T extends Array<infer U> ? U : T
-
-  /**
-   * From ts-toolbelt
-   */
-
-  type __Either<O extends object, K extends Key> = Omit<O, K> &
-    {
-      // Merge all but K
-      [P in K]: Prisma__Pick<O, P & keyof O> // With K possibilities
-    }[K]
-
-  type EitherStrict<O extends object, K extends Key> = Strict<__Either<O, K>>
-
-  type EitherLoose<O extends object, K extends Key> = ComputeRaw<__Either<O, K>>
-
-  type _Either<
-    O extends object,
-    K extends Key,
-    strict extends Boolean
-  > = {
-    1: EitherStrict<O, K>
-    0: EitherLoose<O, K>
-  }[strict]
-
-  type Either<
-    O extends object,
-    K extends Key,
-    strict extends Boolean = 1
-  > = O extends unknown ? _Either<O, K, strict> : never
-
-  export type Union = any
-
-  type PatchUndefined<O extends object, O1 extends object> = {
-    [K in keyof O]: O[K] extends undefined ? At<O1, K> : O[K]
-  } & {}
-
-  /** Helper Types for "Merge" **/
-  export type IntersectOf<U extends Union> = (
-    U extends unknown ? (k: U) => void : never
-  ) extends (k: infer I) => void
-    ? I
-    : never
-
-  export type Overwrite<O extends object, O1 extends object> = {
-      [K in keyof O]: K extends keyof O1 ? O1[K] : O[K];
-  } & {};
-
-  type _Merge<U extends object> = IntersectOf<Overwrite<U, {
-      [K in keyof U]-?: At<U, K>;
-  }>>;
-
-  type Key = string | number | symbol;
-  type AtBasic<O extends object, K extends Key> = K extends keyof O ? O[K] : never;
-  type AtStrict<O extends object, K extends Key> = O[K & keyof O];
-  type AtLoose<O extends object, K extends Key> = O extends unknown ? AtStrict<O, K> : never;
-  export type At<O extends object, K extends Key, strict extends Boolean = 1> = {
-      1: AtStrict<O, K>;
-      0: AtLoose<O, K>;
-  }[strict];
-
-  export type ComputeRaw<A extends any> = A extends Function ? A : {
-    [K in keyof A]: A[K];
-  } & {};
-
-  export type OptionalFlat<O> = {
-    [K in keyof O]?: O[K];
-  } & {};
-
-  type _Record<K extends keyof any, T> = {
-    [P in K]: T;
-  };
-
-  // cause typescript not to expand types and preserve names
-  type NoExpand<T> = T extends unknown ? T : never;
-
-  // this type assumes the passed object is entirely optional
-  type AtLeast<O extends object, K extends string> = NoExpand<
-    O extends unknown
-    ? | (K extends keyof O ? { [P in K]: O[P] } & O : O)
-      | {[P in keyof O as P extends K ? P : never]-?: O[P]} & O
-    : never>;
-
-  type _Strict<U, _U = U> = U extends unknown ? U & OptionalFlat<_Record<Exclude<Keys<_U>, keyof U>, never>> : never;
-
-  export type Strict<U extends object> = ComputeRaw<_Strict<U>>;
-  /** End Helper Types for "Merge" **/
-
-  export type Merge<U extends object> = ComputeRaw<_Merge<Strict<U>>>;
-
-  /**
-  A [[Boolean]]
-  */
-  export type Boolean = True | False
-
-  // /**
-  // 1
-  // */
-  export type True = 1
-
-  /**
-  0
-  */
-  export type False = 0
-
-  export type Not<B extends Boolean> = {
-    0: 1
-    1: 0
-  }[B]
-
-  export type Extends<A1 extends any, A2 extends any> = [A1] extends [never]
-    ? 0 // anything `never` is false
-    : A1 extends A2
-    ? 1
-    : 0
-
-  export type Has<U extends Union, U1 extends Union> = Not<
-    Extends<Exclude<U1, U>, U1>
-  >
-
-  export type Or<B1 extends Boolean, B2 extends Boolean> = {
-    0: {
-      0: 0
-      1: 1
-    }
-    1: {
-      0: 1
-      1: 1
-    }
-  }[B1][B2]
-
-  export type Keys<U extends Union> = U extends unknown ? keyof U : never
-
-  type Cast<A, B> = A extends B ? A : B;
-
-  export const type: unique symbol;
-
-
-
-  /**
-   * Used by group by
-   */
-
-  export type GetScalarType<T, O> = O extends object ? {
-    [P in keyof T]: P extends keyof O
-      ? O[P]
-      : never
-  } : never
-
-  type FieldPaths<
-    T,
-    U = Omit<T, '_avg' | '_sum' | '_count' | '_min' | '_max'>
-  > = IsObject<T> extends True ? U : T
-
-  type GetHavingFields<T> = {
-    [K in keyof T]: Or<
-      Or<Extends<'OR', K>, Extends<'AND', K>>,
-      Extends<'NOT', K>
-    > extends True
-      ? // infer is only needed to not hit TS limit
-        // based on the brilliant idea of Pierre-Antoine Mills
-        // https://github.com/microsoft/TypeScript/issues/30188#issuecomment-478938437
-        T[K] extends infer TK
-        ? GetHavingFields<UnEnumerate<TK> extends object ? Merge<UnEnumerate<TK>> : never>
-        : never
-      : {} extends FieldPaths<T[K]>
-      ? never
-      : K
-  }[keyof T]
-
-  /**
-   * Convert tuple to union
-   */
-  type _TupleToUnion<T> = T extends (infer E)[] ? E : never
-  type TupleToUnion<K extends readonly any[]> = _TupleToUnion<K>
-  type MaybeTupleToUnion<T> = T extends any[] ? TupleToUnion<T> : T
-
-  /**
-   * Like `Pick`, but additionally can also accept an array of keys
-   */
-  type PickEnumerable<T, K extends Enumerable<keyof T> | keyof T> = Prisma__Pick<T, MaybeTupleToUnion<K>>
-
-  /**
-   * Exclude all keys with underscores
-   */
-  type ExcludeUnderscoreKeys<T extends string> = T extends `_${string}` ? never : T
-
-
-  export type FieldRef<Model, FieldType> = runtime.FieldRef<Model, FieldType>
-
-  type FieldRefInputType<Model, FieldType> = Model extends never ? never : FieldRef<Model, FieldType>
-
-
-  export const ModelName: {
-    Account: 'Account',
-    Session: 'Session',
-    User: 'User',
-    VerificationToken: 'VerificationToken',
-    Receipt: 'Receipt',
-    Hospital: 'Hospital',
-    State: 'State',
-    Doctor: 'Doctor',
-    Appointment: 'Appointment',
-    EmergencyAlert: 'EmergencyAlert',
-    MedicineReminder: 'MedicineReminder'
-  };
-
-  export type ModelName = (typeof ModelName)[keyof typeof ModelName]
-
-
-  export type Datasources = {
-    db?: Datasource
-  }
-
-  interface TypeMapCb<ClientOptions = {}> extends $Utils.Fn<{extArgs: $Extensions.InternalArgs }, $Utils.Record<string, any>> {
-    returns: Prisma.TypeMap<this['params']['extArgs'], ClientOptions extends { omit: infer OmitOptions } ? OmitOptions : {}>
-  }
-
-  export type TypeMap<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> = {
-    globalOmitOptions: {
-      omit: GlobalOmitOptions
-    }
-    meta: {
-      modelProps: "account" | "session" | "user" | "verificationToken" | "receipt" | "hospital" | "state" | "doctor" | "appointment" | "emergencyAlert" | "medicineReminder"
-      txIsolationLevel: Prisma.TransactionIsolationLevel
-    }
-    model: {
-      Account: {
-        payload: Prisma.$AccountPayload<ExtArgs>
-        fields: Prisma.AccountFieldRefs
-        operations: {
-          findUnique: {
-            args: Prisma.AccountFindUniqueArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$AccountPayload> | null
-          }
-          findUniqueOrThrow: {
-            args: Prisma.AccountFindUniqueOrThrowArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$AccountPayload>
-          }
-          findFirst: {
-            args: Prisma.AccountFindFirstArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$AccountPayload> | null
-          }
-          findFirstOrThrow: {
-            args: Prisma.AccountFindFirstOrThrowArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$AccountPayload>
-          }
-          findMany: {
-            args: Prisma.AccountFindManyArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$AccountPayload>[]
-          }
-          create: {
-            args: Prisma.AccountCreateArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$AccountPayload>
-          }
-          createMany: {
-            args: Prisma.AccountCreateManyArgs<ExtArgs>
-            result: BatchPayload
-          }
-          createManyAndReturn: {
-            args: Prisma.AccountCreateManyAndReturnArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$AccountPayload>[]
-          }
-          delete: {
-            args: Prisma.AccountDeleteArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$AccountPayload>
-          }
-          update: {
-            args: Prisma.AccountUpdateArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$AccountPayload>
-          }
-          deleteMany: {
-            args: Prisma.AccountDeleteManyArgs<ExtArgs>
-            result: BatchPayload
-          }
-          updateMany: {
-            args: Prisma.AccountUpdateManyArgs<ExtArgs>
-            result: BatchPayload
-          }
-          updateManyAndReturn: {
-            args: Prisma.AccountUpdateManyAndReturnArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$AccountPayload>[]
-          }
-          upsert: {
-            args: Prisma.AccountUpsertArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$AccountPayload>
-          }
-          aggregate: {
-            args: Prisma.AccountAggregateArgs<ExtArgs>
-            result: $Utils.Optional<AggregateAccount>
-          }
-          groupBy: {
-            args: Prisma.AccountGroupByArgs<ExtArgs>
-            result: $Utils.Optional<AccountGroupByOutputType>[]
-          }
-          count: {
-            args: Prisma.AccountCountArgs<ExtArgs>
-            result: $Utils.Optional<AccountCountAggregateOutputType> | number
-          }
-        }
-      }
-      Session: {
-        payload: Prisma.$SessionPayload<ExtArgs>
-        fields: Prisma.SessionFieldRefs
-        operations: {
-          findUnique: {
-            args: Prisma.SessionFindUniqueArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$SessionPayload> | null
-          }
-          findUniqueOrThrow: {
-            args: Prisma.SessionFindUniqueOrThrowArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$SessionPayload>
-          }
-          findFirst: {
-            args: Prisma.SessionFindFirstArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$SessionPayload> | null
-          }
-          findFirstOrThrow: {
-            args: Prisma.SessionFindFirstOrThrowArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$SessionPayload>
-          }
-          findMany: {
-            args: Prisma.SessionFindManyArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$SessionPayload>[]
-          }
-          create: {
-            args: Prisma.SessionCreateArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$SessionPayload>
-          }
-          createMany: {
-            args: Prisma.SessionCreateManyArgs<ExtArgs>
-            result: BatchPayload
-          }
-          createManyAndReturn: {
-            args: Prisma.SessionCreateManyAndReturnArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$SessionPayload>[]
-          }
-          delete: {
-            args: Prisma.SessionDeleteArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$SessionPayload>
-          }
-          update: {
-            args: Prisma.SessionUpdateArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$SessionPayload>
-          }
-          deleteMany: {
-            args: Prisma.SessionDeleteManyArgs<ExtArgs>
-            result: BatchPayload
-          }
-          updateMany: {
-            args: Prisma.SessionUpdateManyArgs<ExtArgs>
-            result: BatchPayload
-          }
-          updateManyAndReturn: {
-            args: Prisma.SessionUpdateManyAndReturnArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$SessionPayload>[]
-          }
-          upsert: {
-            args: Prisma.SessionUpsertArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$SessionPayload>
-          }
-          aggregate: {
-            args: Prisma.SessionAggregateArgs<ExtArgs>
-            result: $Utils.Optional<AggregateSession>
-          }
-          groupBy: {
-            args: Prisma.SessionGroupByArgs<ExtArgs>
-            result: $Utils.Optional<SessionGroupByOutputType>[]
-          }
-          count: {
-            args: Prisma.SessionCountArgs<ExtArgs>
-            result: $Utils.Optional<SessionCountAggregateOutputType> | number
-          }
-        }
-      }
-      User: {
-        payload: Prisma.$UserPayload<ExtArgs>
-        fields: Prisma.UserFieldRefs
-        operations: {
-          findUnique: {
-            args: Prisma.UserFindUniqueArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$UserPayload> | null
-          }
-          findUniqueOrThrow: {
-            args: Prisma.UserFindUniqueOrThrowArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$UserPayload>
-          }
-          findFirst: {
-            args: Prisma.UserFindFirstArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$UserPayload> | null
-          }
-          findFirstOrThrow: {
-            args: Prisma.UserFindFirstOrThrowArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$UserPayload>
-          }
-          findMany: {
-            args: Prisma.UserFindManyArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$UserPayload>[]
-          }
-          create: {
-            args: Prisma.UserCreateArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$UserPayload>
-          }
-          createMany: {
-            args: Prisma.UserCreateManyArgs<ExtArgs>
-            result: BatchPayload
-          }
-          createManyAndReturn: {
-            args: Prisma.UserCreateManyAndReturnArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$UserPayload>[]
-          }
-          delete: {
-            args: Prisma.UserDeleteArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$UserPayload>
-          }
-          update: {
-            args: Prisma.UserUpdateArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$UserPayload>
-          }
-          deleteMany: {
-            args: Prisma.UserDeleteManyArgs<ExtArgs>
-            result: BatchPayload
-          }
-          updateMany: {
-            args: Prisma.UserUpdateManyArgs<ExtArgs>
-            result: BatchPayload
-          }
-          updateManyAndReturn: {
-            args: Prisma.UserUpdateManyAndReturnArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$UserPayload>[]
-          }
-          upsert: {
-            args: Prisma.UserUpsertArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$UserPayload>
-          }
-          aggregate: {
-            args: Prisma.UserAggregateArgs<ExtArgs>
-            result: $Utils.Optional<AggregateUser>
-          }
-          groupBy: {
-            args: Prisma.UserGroupByArgs<ExtArgs>
-            result: $Utils.Optional<UserGroupByOutputType>[]
-          }
-          count: {
-            args: Prisma.UserCountArgs<ExtArgs>
-            result: $Utils.Optional<UserCountAggregateOutputType> | number
-          }
-        }
-      }
-      VerificationToken: {
-        payload: Prisma.$VerificationTokenPayload<ExtArgs>
-        fields: Prisma.VerificationTokenFieldRefs
-        operations: {
-          findUnique: {
-            args: Prisma.VerificationTokenFindUniqueArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$VerificationTokenPayload> | null
-          }
-          findUniqueOrThrow: {
-            args: Prisma.VerificationTokenFindUniqueOrThrowArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$VerificationTokenPayload>
-          }
-          findFirst: {
-            args: Prisma.VerificationTokenFindFirstArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$VerificationTokenPayload> | null
-          }
-          findFirstOrThrow: {
-            args: Prisma.VerificationTokenFindFirstOrThrowArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$VerificationTokenPayload>
-          }
-          findMany: {
-            args: Prisma.VerificationTokenFindManyArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$VerificationTokenPayload>[]
-          }
-          create: {
-            args: Prisma.VerificationTokenCreateArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$VerificationTokenPayload>
-          }
-          createMany: {
-            args: Prisma.VerificationTokenCreateManyArgs<ExtArgs>
-            result: BatchPayload
-          }
-          createManyAndReturn: {
-            args: Prisma.VerificationTokenCreateManyAndReturnArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$VerificationTokenPayload>[]
-          }
-          delete: {
-            args: Prisma.VerificationTokenDeleteArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$VerificationTokenPayload>
-          }
-          update: {
-            args: Prisma.VerificationTokenUpdateArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$VerificationTokenPayload>
-          }
-          deleteMany: {
-            args: Prisma.VerificationTokenDeleteManyArgs<ExtArgs>
-            result: BatchPayload
-          }
-          updateMany: {
-            args: Prisma.VerificationTokenUpdateManyArgs<ExtArgs>
-            result: BatchPayload
-          }
-          updateManyAndReturn: {
-            args: Prisma.VerificationTokenUpdateManyAndReturnArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$VerificationTokenPayload>[]
-          }
-          upsert: {
-            args: Prisma.VerificationTokenUpsertArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$VerificationTokenPayload>
-          }
-          aggregate: {
-            args: Prisma.VerificationTokenAggregateArgs<ExtArgs>
-            result: $Utils.Optional<AggregateVerificationToken>
-          }
-          groupBy: {
-            args: Prisma.VerificationTokenGroupByArgs<ExtArgs>
-            result: $Utils.Optional<VerificationTokenGroupByOutputType>[]
-          }
-          count: {
-            args: Prisma.VerificationTokenCountArgs<ExtArgs>
-            result: $Utils.Optional<VerificationTokenCountAggregateOutputType> | number
-          }
-        }
-      }
-      Receipt: {
-        payload: Prisma.$ReceiptPayload<ExtArgs>
-        fields: Prisma.ReceiptFieldRefs
-        operations: {
-          findUnique: {
-            args: Prisma.ReceiptFindUniqueArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$ReceiptPayload> | null
-          }
-          findUniqueOrThrow: {
-            args: Prisma.ReceiptFindUniqueOrThrowArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$ReceiptPayload>
-          }
-          findFirst: {
-            args: Prisma.ReceiptFindFirstArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$ReceiptPayload> | null
-          }
-          findFirstOrThrow: {
-            args: Prisma.ReceiptFindFirstOrThrowArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$ReceiptPayload>
-          }
-          findMany: {
-            args: Prisma.ReceiptFindManyArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$ReceiptPayload>[]
-          }
-          create: {
-            args: Prisma.ReceiptCreateArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$ReceiptPayload>
-          }
-          createMany: {
-            args: Prisma.ReceiptCreateManyArgs<ExtArgs>
-            result: BatchPayload
-          }
-          createManyAndReturn: {
-            args: Prisma.ReceiptCreateManyAndReturnArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$ReceiptPayload>[]
-          }
-          delete: {
-            args: Prisma.ReceiptDeleteArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$ReceiptPayload>
-          }
-          update: {
-            args: Prisma.ReceiptUpdateArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$ReceiptPayload>
-          }
-          deleteMany: {
-            args: Prisma.ReceiptDeleteManyArgs<ExtArgs>
-            result: BatchPayload
-          }
-          updateMany: {
-            args: Prisma.ReceiptUpdateManyArgs<ExtArgs>
-            result: BatchPayload
-          }
-          updateManyAndReturn: {
-            args: Prisma.ReceiptUpdateManyAndReturnArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$ReceiptPayload>[]
-          }
-          upsert: {
-            args: Prisma.ReceiptUpsertArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$ReceiptPayload>
-          }
-          aggregate: {
-            args: Prisma.ReceiptAggregateArgs<ExtArgs>
-            result: $Utils.Optional<AggregateReceipt>
-          }
-          groupBy: {
-            args: Prisma.ReceiptGroupByArgs<ExtArgs>
-            result: $Utils.Optional<ReceiptGroupByOutputType>[]
-          }
-          count: {
-            args: Prisma.ReceiptCountArgs<ExtArgs>
-            result: $Utils.Optional<ReceiptCountAggregateOutputType> | number
-          }
-        }
-      }
-      Hospital: {
-        payload: Prisma.$HospitalPayload<ExtArgs>
-        fields: Prisma.HospitalFieldRefs
-        operations: {
-          findUnique: {
-            args: Prisma.HospitalFindUniqueArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$HospitalPayload> | null
-          }
-          findUniqueOrThrow: {
-            args: Prisma.HospitalFindUniqueOrThrowArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$HospitalPayload>
-          }
-          findFirst: {
-            args: Prisma.HospitalFindFirstArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$HospitalPayload> | null
-          }
-          findFirstOrThrow: {
-            args: Prisma.HospitalFindFirstOrThrowArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$HospitalPayload>
-          }
-          findMany: {
-            args: Prisma.HospitalFindManyArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$HospitalPayload>[]
-          }
-          create: {
-            args: Prisma.HospitalCreateArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$HospitalPayload>
-          }
-          createMany: {
-            args: Prisma.HospitalCreateManyArgs<ExtArgs>
-            result: BatchPayload
-          }
-          createManyAndReturn: {
-            args: Prisma.HospitalCreateManyAndReturnArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$HospitalPayload>[]
-          }
-          delete: {
-            args: Prisma.HospitalDeleteArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$HospitalPayload>
-          }
-          update: {
-            args: Prisma.HospitalUpdateArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$HospitalPayload>
-          }
-          deleteMany: {
-            args: Prisma.HospitalDeleteManyArgs<ExtArgs>
-            result: BatchPayload
-          }
-          updateMany: {
-            args: Prisma.HospitalUpdateManyArgs<ExtArgs>
-            result: BatchPayload
-          }
-          updateManyAndReturn: {
-            args: Prisma.HospitalUpdateManyAndReturnArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$HospitalPayload>[]
-          }
-          upsert: {
-            args: Prisma.HospitalUpsertArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$HospitalPayload>
-          }
-          aggregate: {
-            args: Prisma.HospitalAggregateArgs<ExtArgs>
-            result: $Utils.Optional<AggregateHospital>
-          }
-          groupBy: {
-            args: Prisma.HospitalGroupByArgs<ExtArgs>
-            result: $Utils.Optional<HospitalGroupByOutputType>[]
-          }
-          count: {
-            args: Prisma.HospitalCountArgs<ExtArgs>
-            result: $Utils.Optional<HospitalCountAggregateOutputType> | number
-          }
-        }
-      }
-      State: {
-        payload: Prisma.$StatePayload<ExtArgs>
-        fields: Prisma.StateFieldRefs
-        operations: {
-          findUnique: {
-            args: Prisma.StateFindUniqueArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$StatePayload> | null
-          }
-          findUniqueOrThrow: {
-            args: Prisma.StateFindUniqueOrThrowArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$StatePayload>
-          }
-          findFirst: {
-            args: Prisma.StateFindFirstArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$StatePayload> | null
-          }
-          findFirstOrThrow: {
-            args: Prisma.StateFindFirstOrThrowArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$StatePayload>
-          }
-          findMany: {
-            args: Prisma.StateFindManyArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$StatePayload>[]
-          }
-          create: {
-            args: Prisma.StateCreateArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$StatePayload>
-          }
-          createMany: {
-            args: Prisma.StateCreateManyArgs<ExtArgs>
-            result: BatchPayload
-          }
-          createManyAndReturn: {
-            args: Prisma.StateCreateManyAndReturnArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$StatePayload>[]
-          }
-          delete: {
-            args: Prisma.StateDeleteArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$StatePayload>
-          }
-          update: {
-            args: Prisma.StateUpdateArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$StatePayload>
-          }
-          deleteMany: {
-            args: Prisma.StateDeleteManyArgs<ExtArgs>
-            result: BatchPayload
-          }
-          updateMany: {
-            args: Prisma.StateUpdateManyArgs<ExtArgs>
-            result: BatchPayload
-          }
-          updateManyAndReturn: {
-            args: Prisma.StateUpdateManyAndReturnArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$StatePayload>[]
-          }
-          upsert: {
-            args: Prisma.StateUpsertArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$StatePayload>
-          }
-          aggregate: {
-            args: Prisma.StateAggregateArgs<ExtArgs>
-            result: $Utils.Optional<AggregateState>
-          }
-          groupBy: {
-            args: Prisma.StateGroupByArgs<ExtArgs>
-            result: $Utils.Optional<StateGroupByOutputType>[]
-          }
-          count: {
-            args: Prisma.StateCountArgs<ExtArgs>
-            result: $Utils.Optional<StateCountAggregateOutputType> | number
-          }
-        }
-      }
-      Doctor: {
-        payload: Prisma.$DoctorPayload<ExtArgs>
-        fields: Prisma.DoctorFieldRefs
-        operations: {
-          findUnique: {
-            args: Prisma.DoctorFindUniqueArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$DoctorPayload> | null
-          }
-          findUniqueOrThrow: {
-            args: Prisma.DoctorFindUniqueOrThrowArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$DoctorPayload>
-          }
-          findFirst: {
-            args: Prisma.DoctorFindFirstArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$DoctorPayload> | null
-          }
-          findFirstOrThrow: {
-            args: Prisma.DoctorFindFirstOrThrowArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$DoctorPayload>
-          }
-          findMany: {
-            args: Prisma.DoctorFindManyArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$DoctorPayload>[]
-          }
-          create: {
-            args: Prisma.DoctorCreateArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$DoctorPayload>
-          }
-          createMany: {
-            args: Prisma.DoctorCreateManyArgs<ExtArgs>
-            result: BatchPayload
-          }
-          createManyAndReturn: {
-            args: Prisma.DoctorCreateManyAndReturnArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$DoctorPayload>[]
-          }
-          delete: {
-            args: Prisma.DoctorDeleteArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$DoctorPayload>
-          }
-          update: {
-            args: Prisma.DoctorUpdateArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$DoctorPayload>
-          }
-          deleteMany: {
-            args: Prisma.DoctorDeleteManyArgs<ExtArgs>
-            result: BatchPayload
-          }
-          updateMany: {
-            args: Prisma.DoctorUpdateManyArgs<ExtArgs>
-            result: BatchPayload
-          }
-          updateManyAndReturn: {
-            args: Prisma.DoctorUpdateManyAndReturnArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$DoctorPayload>[]
-          }
-          upsert: {
-            args: Prisma.DoctorUpsertArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$DoctorPayload>
-          }
-          aggregate: {
-            args: Prisma.DoctorAggregateArgs<ExtArgs>
-            result: $Utils.Optional<AggregateDoctor>
-          }
-          groupBy: {
-            args: Prisma.DoctorGroupByArgs<ExtArgs>
-            result: $Utils.Optional<DoctorGroupByOutputType>[]
-          }
-          count: {
-            args: Prisma.DoctorCountArgs<ExtArgs>
-            result: $Utils.Optional<DoctorCountAggregateOutputType> | number
-          }
-        }
-      }
-      Appointment: {
-        payload: Prisma.$AppointmentPayload<ExtArgs>
-        fields: Prisma.AppointmentFieldRefs
-        operations: {
-          findUnique: {
-            args: Prisma.AppointmentFindUniqueArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$AppointmentPayload> | null
-          }
-          findUniqueOrThrow: {
-            args: Prisma.AppointmentFindUniqueOrThrowArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$AppointmentPayload>
-          }
-          findFirst: {
-            args: Prisma.AppointmentFindFirstArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$AppointmentPayload> | null
-          }
-          findFirstOrThrow: {
-            args: Prisma.AppointmentFindFirstOrThrowArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$AppointmentPayload>
-          }
-          findMany: {
-            args: Prisma.AppointmentFindManyArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$AppointmentPayload>[]
-          }
-          create: {
-            args: Prisma.AppointmentCreateArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$AppointmentPayload>
-          }
-          createMany: {
-            args: Prisma.AppointmentCreateManyArgs<ExtArgs>
-            result: BatchPayload
-          }
-          createManyAndReturn: {
-            args: Prisma.AppointmentCreateManyAndReturnArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$AppointmentPayload>[]
-          }
-          delete: {
-            args: Prisma.AppointmentDeleteArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$AppointmentPayload>
-          }
-          update: {
-            args: Prisma.AppointmentUpdateArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$AppointmentPayload>
-          }
-          deleteMany: {
-            args: Prisma.AppointmentDeleteManyArgs<ExtArgs>
-            result: BatchPayload
-          }
-          updateMany: {
-            args: Prisma.AppointmentUpdateManyArgs<ExtArgs>
-            result: BatchPayload
-          }
-          updateManyAndReturn: {
-            args: Prisma.AppointmentUpdateManyAndReturnArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$AppointmentPayload>[]
-          }
-          upsert: {
-            args: Prisma.AppointmentUpsertArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$AppointmentPayload>
-          }
-          aggregate: {
-            args: Prisma.AppointmentAggregateArgs<ExtArgs>
-            result: $Utils.Optional<AggregateAppointment>
-          }
-          groupBy: {
-            args: Prisma.AppointmentGroupByArgs<ExtArgs>
-            result: $Utils.Optional<AppointmentGroupByOutputType>[]
-          }
-          count: {
-            args: Prisma.AppointmentCountArgs<ExtArgs>
-            result: $Utils.Optional<AppointmentCountAggregateOutputType> | number
-          }
-        }
-      }
-      EmergencyAlert: {
-        payload: Prisma.$EmergencyAlertPayload<ExtArgs>
-        fields: Prisma.EmergencyAlertFieldRefs
-        operations: {
-          findUnique: {
-            args: Prisma.EmergencyAlertFindUniqueArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$EmergencyAlertPayload> | null
-          }
-          findUniqueOrThrow: {
-            args: Prisma.EmergencyAlertFindUniqueOrThrowArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$EmergencyAlertPayload>
-          }
-          findFirst: {
-            args: Prisma.EmergencyAlertFindFirstArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$EmergencyAlertPayload> | null
-          }
-          findFirstOrThrow: {
-            args: Prisma.EmergencyAlertFindFirstOrThrowArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$EmergencyAlertPayload>
-          }
-          findMany: {
-            args: Prisma.EmergencyAlertFindManyArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$EmergencyAlertPayload>[]
-          }
-          create: {
-            args: Prisma.EmergencyAlertCreateArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$EmergencyAlertPayload>
-          }
-          createMany: {
-            args: Prisma.EmergencyAlertCreateManyArgs<ExtArgs>
-            result: BatchPayload
-          }
-          createManyAndReturn: {
-            args: Prisma.EmergencyAlertCreateManyAndReturnArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$EmergencyAlertPayload>[]
-          }
-          delete: {
-            args: Prisma.EmergencyAlertDeleteArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$EmergencyAlertPayload>
-          }
-          update: {
-            args: Prisma.EmergencyAlertUpdateArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$EmergencyAlertPayload>
-          }
-          deleteMany: {
-            args: Prisma.EmergencyAlertDeleteManyArgs<ExtArgs>
-            result: BatchPayload
-          }
-          updateMany: {
-            args: Prisma.EmergencyAlertUpdateManyArgs<ExtArgs>
-            result: BatchPayload
-          }
-          updateManyAndReturn: {
-            args: Prisma.EmergencyAlertUpdateManyAndReturnArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$EmergencyAlertPayload>[]
-          }
-          upsert: {
-            args: Prisma.EmergencyAlertUpsertArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$EmergencyAlertPayload>
-          }
-          aggregate: {
-            args: Prisma.EmergencyAlertAggregateArgs<ExtArgs>
-            result: $Utils.Optional<AggregateEmergencyAlert>
-          }
-          groupBy: {
-            args: Prisma.EmergencyAlertGroupByArgs<ExtArgs>
-            result: $Utils.Optional<EmergencyAlertGroupByOutputType>[]
-          }
-          count: {
-            args: Prisma.EmergencyAlertCountArgs<ExtArgs>
-            result: $Utils.Optional<EmergencyAlertCountAggregateOutputType> | number
-          }
-        }
-      }
-      MedicineReminder: {
-        payload: Prisma.$MedicineReminderPayload<ExtArgs>
-        fields: Prisma.MedicineReminderFieldRefs
-        operations: {
-          findUnique: {
-            args: Prisma.MedicineReminderFindUniqueArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$MedicineReminderPayload> | null
-          }
-          findUniqueOrThrow: {
-            args: Prisma.MedicineReminderFindUniqueOrThrowArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$MedicineReminderPayload>
-          }
-          findFirst: {
-            args: Prisma.MedicineReminderFindFirstArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$MedicineReminderPayload> | null
-          }
-          findFirstOrThrow: {
-            args: Prisma.MedicineReminderFindFirstOrThrowArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$MedicineReminderPayload>
-          }
-          findMany: {
-            args: Prisma.MedicineReminderFindManyArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$MedicineReminderPayload>[]
-          }
-          create: {
-            args: Prisma.MedicineReminderCreateArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$MedicineReminderPayload>
-          }
-          createMany: {
-            args: Prisma.MedicineReminderCreateManyArgs<ExtArgs>
-            result: BatchPayload
-          }
-          createManyAndReturn: {
-            args: Prisma.MedicineReminderCreateManyAndReturnArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$MedicineReminderPayload>[]
-          }
-          delete: {
-            args: Prisma.MedicineReminderDeleteArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$MedicineReminderPayload>
-          }
-          update: {
-            args: Prisma.MedicineReminderUpdateArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$MedicineReminderPayload>
-          }
-          deleteMany: {
-            args: Prisma.MedicineReminderDeleteManyArgs<ExtArgs>
-            result: BatchPayload
-          }
-          updateMany: {
-            args: Prisma.MedicineReminderUpdateManyArgs<ExtArgs>
-            result: BatchPayload
-          }
-          updateManyAndReturn: {
-            args: Prisma.MedicineReminderUpdateManyAndReturnArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$MedicineReminderPayload>[]
-          }
-          upsert: {
-            args: Prisma.MedicineReminderUpsertArgs<ExtArgs>
-            result: $Utils.PayloadToResult<Prisma.$MedicineReminderPayload>
-          }
-          aggregate: {
-            args: Prisma.MedicineReminderAggregateArgs<ExtArgs>
-            result: $Utils.Optional<AggregateMedicineReminder>
-          }
-          groupBy: {
-            args: Prisma.MedicineReminderGroupByArgs<ExtArgs>
-            result: $Utils.Optional<MedicineReminderGroupByOutputType>[]
-          }
-          count: {
-            args: Prisma.MedicineReminderCountArgs<ExtArgs>
-            result: $Utils.Optional<MedicineReminderCountAggregateOutputType> | number
-          }
-        }
-      }
-    }
-  } & {
-    other: {
-      payload: any
-      operations: {
-        $executeRaw: {
-          args: [query: TemplateStringsArray | Prisma.Sql, ...values: any[]],
-          result: any
-        }
-        $executeRawUnsafe: {
-          args: [query: string, ...values: any[]],
-          result: any
-        }
-        $queryRaw: {
-          args: [query: TemplateStringsArray | Prisma.Sql, ...values: any[]],
-          result: any
-        }
-        $queryRawUnsafe: {
-          args: [query: string, ...values: any[]],
-          result: any
-        }
-      }
-    }
-  }
-  export const defineExtension: $Extensions.ExtendsHook<"define", Prisma.TypeMapCb, $Extensions.DefaultArgs>
-  export type DefaultPrismaClient = PrismaClient
-  export type ErrorFormat = 'pretty' | 'colorless' | 'minimal'
-  export interface PrismaClientOptions {
-    /**
-     * Overwrites the datasource url from your schema.prisma file
-     */
-    datasources?: Datasources
-    /**
-     * Overwrites the datasource url from your schema.prisma file
-     */
-    datasourceUrl?: string
-    /**
-     * @default "colorless"
-     */
-    errorFormat?: ErrorFormat
-    /**
-     * @example
-     * ```
-     * // Defaults to stdout
-     * log: ['query', 'info', 'warn', 'error']
-     * 
-     * // Emit as events
-     * log: [
-     *   { emit: 'stdout', level: 'query' },
-     *   { emit: 'stdout', level: 'info' },
-     *   { emit: 'stdout', level: 'warn' }
-     *   { emit: 'stdout', level: 'error' }
-     * ]
-     * ```
-     * Read more in our [docs](https://www.prisma.io/docs/reference/tools-and-interfaces/prisma-client/logging#the-log-option).
-     */
-    log?: (LogLevel | LogDefinition)[]
-    /**
-     * The default values for transactionOptions
-     * maxWait ?= 2000
-     * timeout ?= 5000
-     */
-    transactionOptions?: {
-      maxWait?: number
-      timeout?: number
-      isolationLevel?: Prisma.TransactionIsolationLevel
-    }
-    /**
-     * Instance of a Driver Adapter, e.g., like one provided by `@prisma/adapter-planetscale`
-     */
-    adapter?: runtime.SqlDriverAdapterFactory | null
-    /**
-     * Global configuration for omitting model fields by default.
-     * 
-     * @example
-     * ```
-     * const prisma = new PrismaClient({
-     *   omit: {
-     *     user: {
-     *       password: true
-     *     }
-     *   }
-     * })
-     * ```
-     */
-    omit?: Prisma.GlobalOmitConfig
-  }
-  export type GlobalOmitConfig = {
-    account?: AccountOmit
-    session?: SessionOmit
-    user?: UserOmit
-    verificationToken?: VerificationTokenOmit
-    receipt?: ReceiptOmit
-    hospital?: HospitalOmit
-    state?: StateOmit
-    doctor?: DoctorOmit
-    appointment?: AppointmentOmit
-    emergencyAlert?: EmergencyAlertOmit
-    medicineReminder?: MedicineReminderOmit
-  }
-
-  /* Types for Logging */
-  export type LogLevel = 'info' | 'query' | 'warn' | 'error'
-  export type LogDefinition = {
-    level: LogLevel
-    emit: 'stdout' | 'event'
-  }
-
-  export type GetLogType<T extends LogLevel | LogDefinition> = T extends LogDefinition ? T['emit'] extends 'event' ? T['level'] : never : never
-  export type GetEvents<T extends any> = T extends Array<LogLevel | LogDefinition> ?
-    GetLogType<T[0]> | GetLogType<T[1]> | GetLogType<T[2]> | GetLogType<T[3]>
-    : never
-
-  export type QueryEvent = {
-    timestamp: Date
-    query: string
-    params: string
-    duration: number
-    target: string
-  }
-
-  export type LogEvent = {
-    timestamp: Date
-    message: string
-    target: string
-  }
-  /* End Types for Logging */
-
-
-  export type PrismaAction =
-    | 'findUnique'
-    | 'findUniqueOrThrow'
-    | 'findMany'
-    | 'findFirst'
-    | 'findFirstOrThrow'
-    | 'create'
-    | 'createMany'
-    | 'createManyAndReturn'
-    | 'update'
-    | 'updateMany'
-    | 'updateManyAndReturn'
-    | 'upsert'
-    | 'delete'
-    | 'deleteMany'
-    | 'executeRaw'
-    | 'queryRaw'
-    | 'aggregate'
-    | 'count'
-    | 'runCommandRaw'
-    | 'findRaw'
-    | 'groupBy'
-
-  /**
-   * These options are being passed into the middleware as "params"
-   */
-  export type MiddlewareParams = {
-    model?: ModelName
-    action: PrismaAction
-    args: any
-    dataPath: string[]
-    runInTransaction: boolean
-  }
-
-  /**
-   * The `T` type makes sure, that the `return proceed` is not forgotten in the middleware implementation
-   */
-  export type Middleware<T = any> = (
-    params: MiddlewareParams,
-    next: (params: MiddlewareParams) => $Utils.JsPromise<T>,
-  ) => $Utils.JsPromise<T>
-
-  // tested in getLogLevel.test.ts
-  export function getLogLevel(log: Array<LogLevel | LogDefinition>): LogLevel | undefined;
-
-  /**
-   * `PrismaClient` proxy available in interactive transactions.
-   */
-  export type TransactionClient = Omit<Prisma.DefaultPrismaClient, runtime.ITXClientDenyList>
-
-  export type Datasource = {
-    url?: string
-  }
-
-  /**
-   * Count Types
-   */
-
-
-  /**
-   * Count Type UserCountOutputType
-   */
-
-  export type UserCountOutputType = {
-    accounts: number
-    sessions: number
-    appointments: number
-    receipts: number
-    emergencyAlerts: number
-    medicineReminders: number
-  }
-
-  export type UserCountOutputTypeSelect<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    accounts?: boolean | UserCountOutputTypeCountAccountsArgs
-    sessions?: boolean | UserCountOutputTypeCountSessionsArgs
-    appointments?: boolean | UserCountOutputTypeCountAppointmentsArgs
-    receipts?: boolean | UserCountOutputTypeCountReceiptsArgs
-    emergencyAlerts?: boolean | UserCountOutputTypeCountEmergencyAlertsArgs
-    medicineReminders?: boolean | UserCountOutputTypeCountMedicineRemindersArgs
-  }
-
-  // Custom InputTypes
-  /**
-   * UserCountOutputType without action
-   */
-  export type UserCountOutputTypeDefaultArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the UserCountOutputType
-     */
-    select?: UserCountOutputTypeSelect<ExtArgs> | null
-  }
-
-  /**
-   * UserCountOutputType without action
-   */
-  export type UserCountOutputTypeCountAccountsArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    where?: AccountWhereInput
-  }
-
-  /**
-   * UserCountOutputType without action
-   */
-  export type UserCountOutputTypeCountSessionsArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    where?: SessionWhereInput
-  }
-
-  /**
-   * UserCountOutputType without action
-   */
-  export type UserCountOutputTypeCountAppointmentsArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    where?: AppointmentWhereInput
-  }
-
-  /**
-   * UserCountOutputType without action
-   */
-  export type UserCountOutputTypeCountReceiptsArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    where?: ReceiptWhereInput
-  }
-
-  /**
-   * UserCountOutputType without action
-   */
-  export type UserCountOutputTypeCountEmergencyAlertsArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    where?: EmergencyAlertWhereInput
-  }
-
-  /**
-   * UserCountOutputType without action
-   */
-  export type UserCountOutputTypeCountMedicineRemindersArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    where?: MedicineReminderWhereInput
-  }
-
-
-  /**
-   * Count Type HospitalCountOutputType
-   */
-
-  export type HospitalCountOutputType = {
-    doctors: number
-    receipts: number
-    appointments: number
-    emergencyAlerts: number
-  }
-
-  export type HospitalCountOutputTypeSelect<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    doctors?: boolean | HospitalCountOutputTypeCountDoctorsArgs
-    receipts?: boolean | HospitalCountOutputTypeCountReceiptsArgs
-    appointments?: boolean | HospitalCountOutputTypeCountAppointmentsArgs
-    emergencyAlerts?: boolean | HospitalCountOutputTypeCountEmergencyAlertsArgs
-  }
-
-  // Custom InputTypes
-  /**
-   * HospitalCountOutputType without action
-   */
-  export type HospitalCountOutputTypeDefaultArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the HospitalCountOutputType
-     */
-    select?: HospitalCountOutputTypeSelect<ExtArgs> | null
-  }
-
-  /**
-   * HospitalCountOutputType without action
-   */
-  export type HospitalCountOutputTypeCountDoctorsArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    where?: DoctorWhereInput
-  }
-
-  /**
-   * HospitalCountOutputType without action
-   */
-  export type HospitalCountOutputTypeCountReceiptsArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    where?: ReceiptWhereInput
-  }
-
-  /**
-   * HospitalCountOutputType without action
-   */
-  export type HospitalCountOutputTypeCountAppointmentsArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    where?: AppointmentWhereInput
-  }
-
-  /**
-   * HospitalCountOutputType without action
-   */
-  export type HospitalCountOutputTypeCountEmergencyAlertsArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    where?: EmergencyAlertWhereInput
-  }
-
-
-  /**
-   * Count Type DoctorCountOutputType
-   */
-
-  export type DoctorCountOutputType = {
-    patients: number
-    appointments: number
-  }
-
-  export type DoctorCountOutputTypeSelect<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    patients?: boolean | DoctorCountOutputTypeCountPatientsArgs
-    appointments?: boolean | DoctorCountOutputTypeCountAppointmentsArgs
-  }
-
-  // Custom InputTypes
-  /**
-   * DoctorCountOutputType without action
-   */
-  export type DoctorCountOutputTypeDefaultArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the DoctorCountOutputType
-     */
-    select?: DoctorCountOutputTypeSelect<ExtArgs> | null
-  }
-
-  /**
-   * DoctorCountOutputType without action
-   */
-  export type DoctorCountOutputTypeCountPatientsArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    where?: ReceiptWhereInput
-  }
-
-  /**
-   * DoctorCountOutputType without action
-   */
-  export type DoctorCountOutputTypeCountAppointmentsArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    where?: AppointmentWhereInput
-  }
-
-
-  /**
-   * Models
-   */
-
-  /**
-   * Model Account
-   */
-
-  export type AggregateAccount = {
-    _count: AccountCountAggregateOutputType | null
-    _avg: AccountAvgAggregateOutputType | null
-    _sum: AccountSumAggregateOutputType | null
-    _min: AccountMinAggregateOutputType | null
-    _max: AccountMaxAggregateOutputType | null
-  }
-
-  export type AccountAvgAggregateOutputType = {
-    expires_at: number | null
-  }
-
-  export type AccountSumAggregateOutputType = {
-    expires_at: number | null
-  }
-
-  export type AccountMinAggregateOutputType = {
-    id: string | null
-    userId: string | null
-    type: string | null
-    provider: string | null
-    providerAccountId: string | null
-    refresh_token: string | null
-    access_token: string | null
-    expires_at: number | null
-    token_type: string | null
-    scope: string | null
-    id_token: string | null
-    session_state: string | null
-  }
-
-  export type AccountMaxAggregateOutputType = {
-    id: string | null
-    userId: string | null
-    type: string | null
-    provider: string | null
-    providerAccountId: string | null
-    refresh_token: string | null
-    access_token: string | null
-    expires_at: number | null
-    token_type: string | null
-    scope: string | null
-    id_token: string | null
-    session_state: string | null
-  }
-
-  export type AccountCountAggregateOutputType = {
-    id: number
-    userId: number
-    type: number
-    provider: number
-    providerAccountId: number
-    refresh_token: number
-    access_token: number
-    expires_at: number
-    token_type: number
-    scope: number
-    id_token: number
-    session_state: number
-    _all: number
-  }
-
-
-  export type AccountAvgAggregateInputType = {
-    expires_at?: true
-  }
-
-  export type AccountSumAggregateInputType = {
-    expires_at?: true
-  }
-
-  export type AccountMinAggregateInputType = {
-    id?: true
-    userId?: true
-    type?: true
-    provider?: true
-    providerAccountId?: true
-    refresh_token?: true
-    access_token?: true
-    expires_at?: true
-    token_type?: true
-    scope?: true
-    id_token?: true
-    session_state?: true
-  }
-
-  export type AccountMaxAggregateInputType = {
-    id?: true
-    userId?: true
-    type?: true
-    provider?: true
-    providerAccountId?: true
-    refresh_token?: true
-    access_token?: true
-    expires_at?: true
-    token_type?: true
-    scope?: true
-    id_token?: true
-    session_state?: true
-  }
-
-  export type AccountCountAggregateInputType = {
-    id?: true
-    userId?: true
-    type?: true
-    provider?: true
-    providerAccountId?: true
-    refresh_token?: true
-    access_token?: true
-    expires_at?: true
-    token_type?: true
-    scope?: true
-    id_token?: true
-    session_state?: true
-    _all?: true
-  }
-
-  export type AccountAggregateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Filter which Account to aggregate.
-     */
-    where?: AccountWhereInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
-     * 
-     * Determine the order of Accounts to fetch.
-     */
-    orderBy?: AccountOrderByWithRelationInput | AccountOrderByWithRelationInput[]
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
-     * 
-     * Sets the start position
-     */
-    cursor?: AccountWhereUniqueInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Take `±n` Accounts from the position of the cursor.
-     */
-    take?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Skip the first `n` Accounts.
-     */
-    skip?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
-     * 
-     * Count returned Accounts
-    **/
-    _count?: true | AccountCountAggregateInputType
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
-     * 
-     * Select which fields to average
-    **/
-    _avg?: AccountAvgAggregateInputType
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
-     * 
-     * Select which fields to sum
-    **/
-    _sum?: AccountSumAggregateInputType
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
-     * 
-     * Select which fields to find the minimum value
-    **/
-    _min?: AccountMinAggregateInputType
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
-     * 
-     * Select which fields to find the maximum value
-    **/
-    _max?: AccountMaxAggregateInputType
-  }
-
-  export type GetAccountAggregateType<T extends AccountAggregateArgs> = {
-        [P in keyof T & keyof AggregateAccount]: P extends '_count' | 'count'
-      ? T[P] extends true
-        ? number
-        : GetScalarType<T[P], AggregateAccount[P]>
-      : GetScalarType<T[P], AggregateAccount[P]>
-  }
-
-
-
-
-  export type AccountGroupByArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    where?: AccountWhereInput
-    orderBy?: AccountOrderByWithAggregationInput | AccountOrderByWithAggregationInput[]
-    by: AccountScalarFieldEnum[] | AccountScalarFieldEnum
-    having?: AccountScalarWhereWithAggregatesInput
-    take?: number
-    skip?: number
-    _count?: AccountCountAggregateInputType | true
-    _avg?: AccountAvgAggregateInputType
-    _sum?: AccountSumAggregateInputType
-    _min?: AccountMinAggregateInputType
-    _max?: AccountMaxAggregateInputType
-  }
-
-  export type AccountGroupByOutputType = {
-    id: string
-    userId: string
-    type: string
-    provider: string
-    providerAccountId: string
-    refresh_token: string | null
-    access_token: string | null
-    expires_at: number | null
-    token_type: string | null
-    scope: string | null
-    id_token: string | null
-    session_state: string | null
-    _count: AccountCountAggregateOutputType | null
-    _avg: AccountAvgAggregateOutputType | null
-    _sum: AccountSumAggregateOutputType | null
-    _min: AccountMinAggregateOutputType | null
-    _max: AccountMaxAggregateOutputType | null
-  }
-
-  type GetAccountGroupByPayload<T extends AccountGroupByArgs> = Prisma.PrismaPromise<
-    Array<
-      PickEnumerable<AccountGroupByOutputType, T['by']> &
-        {
-          [P in ((keyof T) & (keyof AccountGroupByOutputType))]: P extends '_count'
-            ? T[P] extends boolean
-              ? number
-              : GetScalarType<T[P], AccountGroupByOutputType[P]>
-            : GetScalarType<T[P], AccountGroupByOutputType[P]>
-        }
-      >
-    >
-
-
-  export type AccountSelect<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
-    id?: boolean
-    userId?: boolean
-    type?: boolean
-    provider?: boolean
-    providerAccountId?: boolean
-    refresh_token?: boolean
-    access_token?: boolean
-    expires_at?: boolean
-    token_type?: boolean
-    scope?: boolean
-    id_token?: boolean
-    session_state?: boolean
-    user?: boolean | UserDefaultArgs<ExtArgs>
-  }, ExtArgs["result"]["account"]>
-
-  export type AccountSelectCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
-    id?: boolean
-    userId?: boolean
-    type?: boolean
-    provider?: boolean
-    providerAccountId?: boolean
-    refresh_token?: boolean
-    access_token?: boolean
-    expires_at?: boolean
-    token_type?: boolean
-    scope?: boolean
-    id_token?: boolean
-    session_state?: boolean
-    user?: boolean | UserDefaultArgs<ExtArgs>
-  }, ExtArgs["result"]["account"]>
-
-  export type AccountSelectUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
-    id?: boolean
-    userId?: boolean
-    type?: boolean
-    provider?: boolean
-    providerAccountId?: boolean
-    refresh_token?: boolean
-    access_token?: boolean
-    expires_at?: boolean
-    token_type?: boolean
-    scope?: boolean
-    id_token?: boolean
-    session_state?: boolean
-    user?: boolean | UserDefaultArgs<ExtArgs>
-  }, ExtArgs["result"]["account"]>
-
-  export type AccountSelectScalar = {
-    id?: boolean
-    userId?: boolean
-    type?: boolean
-    provider?: boolean
-    providerAccountId?: boolean
-    refresh_token?: boolean
-    access_token?: boolean
-    expires_at?: boolean
-    token_type?: boolean
-    scope?: boolean
-    id_token?: boolean
-    session_state?: boolean
-  }
-
-  export type AccountOmit<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetOmit<"id" | "userId" | "type" | "provider" | "providerAccountId" | "refresh_token" | "access_token" | "expires_at" | "token_type" | "scope" | "id_token" | "session_state", ExtArgs["result"]["account"]>
-  export type AccountInclude<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    user?: boolean | UserDefaultArgs<ExtArgs>
-  }
-  export type AccountIncludeCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    user?: boolean | UserDefaultArgs<ExtArgs>
-  }
-  export type AccountIncludeUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    user?: boolean | UserDefaultArgs<ExtArgs>
-  }
-
-  export type $AccountPayload<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    name: "Account"
-    objects: {
-      user: Prisma.$UserPayload<ExtArgs>
-    }
-    scalars: $Extensions.GetPayloadResult<{
-      id: string
-      userId: string
-      type: string
-      provider: string
-      providerAccountId: string
-      refresh_token: string | null
-      access_token: string | null
-      expires_at: number | null
-      token_type: string | null
-      scope: string | null
-      id_token: string | null
-      session_state: string | null
-    }, ExtArgs["result"]["account"]>
-    composites: {}
-  }
-
-  type AccountGetPayload<S extends boolean | null | undefined | AccountDefaultArgs> = $Result.GetResult<Prisma.$AccountPayload, S>
-
-  type AccountCountArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> =
-    Omit<AccountFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
-      select?: AccountCountAggregateInputType | true
-    }
-
-  export interface AccountDelegate<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> {
-    [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['Account'], meta: { name: 'Account' } }
-    /**
-     * Find zero or one Account that matches the filter.
-     * @param {AccountFindUniqueArgs} args - Arguments to find a Account
-     * @example
-     * // Get one Account
-     * const account = await prisma.account.findUnique({
-     *   where: {
-     *     // ... provide filter here
-     *   }
-     * })
-     */
-    findUnique<T extends AccountFindUniqueArgs>(args: SelectSubset<T, AccountFindUniqueArgs<ExtArgs>>): Prisma__AccountClient<$Result.GetResult<Prisma.$AccountPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Find one Account that matches the filter or throw an error with `error.code='P2025'`
-     * if no matches were found.
-     * @param {AccountFindUniqueOrThrowArgs} args - Arguments to find a Account
-     * @example
-     * // Get one Account
-     * const account = await prisma.account.findUniqueOrThrow({
-     *   where: {
-     *     // ... provide filter here
-     *   }
-     * })
-     */
-    findUniqueOrThrow<T extends AccountFindUniqueOrThrowArgs>(args: SelectSubset<T, AccountFindUniqueOrThrowArgs<ExtArgs>>): Prisma__AccountClient<$Result.GetResult<Prisma.$AccountPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Find the first Account that matches the filter.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {AccountFindFirstArgs} args - Arguments to find a Account
-     * @example
-     * // Get one Account
-     * const account = await prisma.account.findFirst({
-     *   where: {
-     *     // ... provide filter here
-     *   }
-     * })
-     */
-    findFirst<T extends AccountFindFirstArgs>(args?: SelectSubset<T, AccountFindFirstArgs<ExtArgs>>): Prisma__AccountClient<$Result.GetResult<Prisma.$AccountPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Find the first Account that matches the filter or
-     * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {AccountFindFirstOrThrowArgs} args - Arguments to find a Account
-     * @example
-     * // Get one Account
-     * const account = await prisma.account.findFirstOrThrow({
-     *   where: {
-     *     // ... provide filter here
-     *   }
-     * })
-     */
-    findFirstOrThrow<T extends AccountFindFirstOrThrowArgs>(args?: SelectSubset<T, AccountFindFirstOrThrowArgs<ExtArgs>>): Prisma__AccountClient<$Result.GetResult<Prisma.$AccountPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Find zero or more Accounts that matches the filter.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {AccountFindManyArgs} args - Arguments to filter and select certain fields only.
-     * @example
-     * // Get all Accounts
-     * const accounts = await prisma.account.findMany()
-     * 
-     * // Get first 10 Accounts
-     * const accounts = await prisma.account.findMany({ take: 10 })
-     * 
-     * // Only select the `id`
-     * const accountWithIdOnly = await prisma.account.findMany({ select: { id: true } })
-     * 
-     */
-    findMany<T extends AccountFindManyArgs>(args?: SelectSubset<T, AccountFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$AccountPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
-
-    /**
-     * Create a Account.
-     * @param {AccountCreateArgs} args - Arguments to create a Account.
-     * @example
-     * // Create one Account
-     * const Account = await prisma.account.create({
-     *   data: {
-     *     // ... data to create a Account
-     *   }
-     * })
-     * 
-     */
-    create<T extends AccountCreateArgs>(args: SelectSubset<T, AccountCreateArgs<ExtArgs>>): Prisma__AccountClient<$Result.GetResult<Prisma.$AccountPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Create many Accounts.
-     * @param {AccountCreateManyArgs} args - Arguments to create many Accounts.
-     * @example
-     * // Create many Accounts
-     * const account = await prisma.account.createMany({
-     *   data: [
-     *     // ... provide data here
-     *   ]
-     * })
-     *     
-     */
-    createMany<T extends AccountCreateManyArgs>(args?: SelectSubset<T, AccountCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
-
-    /**
-     * Create many Accounts and returns the data saved in the database.
-     * @param {AccountCreateManyAndReturnArgs} args - Arguments to create many Accounts.
-     * @example
-     * // Create many Accounts
-     * const account = await prisma.account.createManyAndReturn({
-     *   data: [
-     *     // ... provide data here
-     *   ]
-     * })
-     * 
-     * // Create many Accounts and only return the `id`
-     * const accountWithIdOnly = await prisma.account.createManyAndReturn({
-     *   select: { id: true },
-     *   data: [
-     *     // ... provide data here
-     *   ]
-     * })
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * 
-     */
-    createManyAndReturn<T extends AccountCreateManyAndReturnArgs>(args?: SelectSubset<T, AccountCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$AccountPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
-
-    /**
-     * Delete a Account.
-     * @param {AccountDeleteArgs} args - Arguments to delete one Account.
-     * @example
-     * // Delete one Account
-     * const Account = await prisma.account.delete({
-     *   where: {
-     *     // ... filter to delete one Account
-     *   }
-     * })
-     * 
-     */
-    delete<T extends AccountDeleteArgs>(args: SelectSubset<T, AccountDeleteArgs<ExtArgs>>): Prisma__AccountClient<$Result.GetResult<Prisma.$AccountPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Update one Account.
-     * @param {AccountUpdateArgs} args - Arguments to update one Account.
-     * @example
-     * // Update one Account
-     * const account = await prisma.account.update({
-     *   where: {
-     *     // ... provide filter here
-     *   },
-     *   data: {
-     *     // ... provide data here
-     *   }
-     * })
-     * 
-     */
-    update<T extends AccountUpdateArgs>(args: SelectSubset<T, AccountUpdateArgs<ExtArgs>>): Prisma__AccountClient<$Result.GetResult<Prisma.$AccountPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Delete zero or more Accounts.
-     * @param {AccountDeleteManyArgs} args - Arguments to filter Accounts to delete.
-     * @example
-     * // Delete a few Accounts
-     * const { count } = await prisma.account.deleteMany({
-     *   where: {
-     *     // ... provide filter here
-     *   }
-     * })
-     * 
-     */
-    deleteMany<T extends AccountDeleteManyArgs>(args?: SelectSubset<T, AccountDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
-
-    /**
-     * Update zero or more Accounts.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {AccountUpdateManyArgs} args - Arguments to update one or more rows.
-     * @example
-     * // Update many Accounts
-     * const account = await prisma.account.updateMany({
-     *   where: {
-     *     // ... provide filter here
-     *   },
-     *   data: {
-     *     // ... provide data here
-     *   }
-     * })
-     * 
-     */
-    updateMany<T extends AccountUpdateManyArgs>(args: SelectSubset<T, AccountUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
-
-    /**
-     * Update zero or more Accounts and returns the data updated in the database.
-     * @param {AccountUpdateManyAndReturnArgs} args - Arguments to update many Accounts.
-     * @example
-     * // Update many Accounts
-     * const account = await prisma.account.updateManyAndReturn({
-     *   where: {
-     *     // ... provide filter here
-     *   },
-     *   data: [
-     *     // ... provide data here
-     *   ]
-     * })
-     * 
-     * // Update zero or more Accounts and only return the `id`
-     * const accountWithIdOnly = await prisma.account.updateManyAndReturn({
-     *   select: { id: true },
-     *   where: {
-     *     // ... provide filter here
-     *   },
-     *   data: [
-     *     // ... provide data here
-     *   ]
-     * })
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * 
-     */
-    updateManyAndReturn<T extends AccountUpdateManyAndReturnArgs>(args: SelectSubset<T, AccountUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$AccountPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
-
-    /**
-     * Create or update one Account.
-     * @param {AccountUpsertArgs} args - Arguments to update or create a Account.
-     * @example
-     * // Update or create a Account
-     * const account = await prisma.account.upsert({
-     *   create: {
-     *     // ... data to create a Account
-     *   },
-     *   update: {
-     *     // ... in case it already exists, update
-     *   },
-     *   where: {
-     *     // ... the filter for the Account we want to update
-     *   }
-     * })
-     */
-    upsert<T extends AccountUpsertArgs>(args: SelectSubset<T, AccountUpsertArgs<ExtArgs>>): Prisma__AccountClient<$Result.GetResult<Prisma.$AccountPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-
-    /**
-     * Count the number of Accounts.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {AccountCountArgs} args - Arguments to filter Accounts to count.
-     * @example
-     * // Count the number of Accounts
-     * const count = await prisma.account.count({
-     *   where: {
-     *     // ... the filter for the Accounts we want to count
-     *   }
-     * })
-    **/
-    count<T extends AccountCountArgs>(
-      args?: Subset<T, AccountCountArgs>,
-    ): Prisma.PrismaPromise<
-      T extends $Utils.Record<'select', any>
-        ? T['select'] extends true
-          ? number
-          : GetScalarType<T['select'], AccountCountAggregateOutputType>
-        : number
-    >
-
-    /**
-     * Allows you to perform aggregations operations on a Account.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {AccountAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
-     * @example
-     * // Ordered by age ascending
-     * // Where email contains prisma.io
-     * // Limited to the 10 users
-     * const aggregations = await prisma.user.aggregate({
-     *   _avg: {
-     *     age: true,
-     *   },
-     *   where: {
-     *     email: {
-     *       contains: "prisma.io",
-     *     },
-     *   },
-     *   orderBy: {
-     *     age: "asc",
-     *   },
-     *   take: 10,
-     * })
-    **/
-    aggregate<T extends AccountAggregateArgs>(args: Subset<T, AccountAggregateArgs>): Prisma.PrismaPromise<GetAccountAggregateType<T>>
-
-    /**
-     * Group by Account.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {AccountGroupByArgs} args - Group by arguments.
-     * @example
-     * // Group by city, order by createdAt, get count
-     * const result = await prisma.user.groupBy({
-     *   by: ['city', 'createdAt'],
-     *   orderBy: {
-     *     createdAt: true
-     *   },
-     *   _count: {
-     *     _all: true
-     *   },
-     * })
-     * 
-    **/
-    groupBy<
-      T extends AccountGroupByArgs,
-      HasSelectOrTake extends Or<
-        Extends<'skip', Keys<T>>,
-        Extends<'take', Keys<T>>
-      >,
-      OrderByArg extends True extends HasSelectOrTake
-        ? { orderBy: AccountGroupByArgs['orderBy'] }
-        : { orderBy?: AccountGroupByArgs['orderBy'] },
-      OrderFields extends ExcludeUnderscoreKeys<Keys<MaybeTupleToUnion<T['orderBy']>>>,
-      ByFields extends MaybeTupleToUnion<T['by']>,
-      ByValid extends Has<ByFields, OrderFields>,
-      HavingFields extends GetHavingFields<T['having']>,
-      HavingValid extends Has<ByFields, HavingFields>,
-      ByEmpty extends T['by'] extends never[] ? True : False,
-      InputErrors extends ByEmpty extends True
-      ? `Error: "by" must not be empty.`
-      : HavingValid extends False
-      ? {
-          [P in HavingFields]: P extends ByFields
-            ? never
-            : P extends string
-            ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
-            : [
-                Error,
-                'Field ',
-                P,
-                ` in "having" needs to be provided in "by"`,
-              ]
-        }[HavingFields]
-      : 'take' extends Keys<T>
-      ? 'orderBy' extends Keys<T>
-        ? ByValid extends True
-          ? {}
-          : {
-              [P in OrderFields]: P extends ByFields
-                ? never
-                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
-            }[OrderFields]
-        : 'Error: If you provide "take", you also need to provide "orderBy"'
-      : 'skip' extends Keys<T>
-      ? 'orderBy' extends Keys<T>
-        ? ByValid extends True
-          ? {}
-          : {
-              [P in OrderFields]: P extends ByFields
-                ? never
-                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
-            }[OrderFields]
-        : 'Error: If you provide "skip", you also need to provide "orderBy"'
-      : ByValid extends True
-      ? {}
-      : {
-          [P in OrderFields]: P extends ByFields
-            ? never
-            : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
-        }[OrderFields]
-    >(args: SubsetIntersection<T, AccountGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetAccountGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
-  /**
-   * Fields of the Account model
-   */
-  readonly fields: AccountFieldRefs;
-  }
-
-  /**
-   * The delegate class that acts as a "Promise-like" for Account.
-   * Why is this prefixed with `Prisma__`?
-   * Because we want to prevent naming conflicts as mentioned in
-   * https://github.com/prisma/prisma-client-js/issues/707
-   */
-  export interface Prisma__AccountClient<T, Null = never, ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
-    readonly [Symbol.toStringTag]: "PrismaPromise"
-    user<T extends UserDefaultArgs<ExtArgs> = {}>(args?: Subset<T, UserDefaultArgs<ExtArgs>>): Prisma__UserClient<$Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
-    /**
-     * Attaches callbacks for the resolution and/or rejection of the Promise.
-     * @param onfulfilled The callback to execute when the Promise is resolved.
-     * @param onrejected The callback to execute when the Promise is rejected.
-     * @returns A Promise for the completion of which ever callback is executed.
-     */
-    then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): $Utils.JsPromise<TResult1 | TResult2>
-    /**
-     * Attaches a callback for only the rejection of the Promise.
-     * @param onrejected The callback to execute when the Promise is rejected.
-     * @returns A Promise for the completion of the callback.
-     */
-    catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): $Utils.JsPromise<T | TResult>
-    /**
-     * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
-     * resolved value cannot be modified from the callback.
-     * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
-     * @returns A Promise for the completion of the callback.
-     */
-    finally(onfinally?: (() => void) | undefined | null): $Utils.JsPromise<T>
-  }
-
-
-
-
-  /**
-   * Fields of the Account model
-   */
-  interface AccountFieldRefs {
-    readonly id: FieldRef<"Account", 'String'>
-    readonly userId: FieldRef<"Account", 'String'>
-    readonly type: FieldRef<"Account", 'String'>
-    readonly provider: FieldRef<"Account", 'String'>
-    readonly providerAccountId: FieldRef<"Account", 'String'>
-    readonly refresh_token: FieldRef<"Account", 'String'>
-    readonly access_token: FieldRef<"Account", 'String'>
-    readonly expires_at: FieldRef<"Account", 'Int'>
-    readonly token_type: FieldRef<"Account", 'String'>
-    readonly scope: FieldRef<"Account", 'String'>
-    readonly id_token: FieldRef<"Account", 'String'>
-    readonly session_state: FieldRef<"Account", 'String'>
-  }
-    
-
-  // Custom InputTypes
-  /**
-   * Account findUnique
-   */
-  export type AccountFindUniqueArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Account
-     */
-    select?: AccountSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Account
-     */
-    omit?: AccountOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: AccountInclude<ExtArgs> | null
-    /**
-     * Filter, which Account to fetch.
-     */
-    where: AccountWhereUniqueInput
-  }
-
-  /**
-   * Account findUniqueOrThrow
-   */
-  export type AccountFindUniqueOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Account
-     */
-    select?: AccountSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Account
-     */
-    omit?: AccountOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: AccountInclude<ExtArgs> | null
-    /**
-     * Filter, which Account to fetch.
-     */
-    where: AccountWhereUniqueInput
-  }
-
-  /**
-   * Account findFirst
-   */
-  export type AccountFindFirstArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Account
-     */
-    select?: AccountSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Account
-     */
-    omit?: AccountOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: AccountInclude<ExtArgs> | null
-    /**
-     * Filter, which Account to fetch.
-     */
-    where?: AccountWhereInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
-     * 
-     * Determine the order of Accounts to fetch.
-     */
-    orderBy?: AccountOrderByWithRelationInput | AccountOrderByWithRelationInput[]
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
-     * 
-     * Sets the position for searching for Accounts.
-     */
-    cursor?: AccountWhereUniqueInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Take `±n` Accounts from the position of the cursor.
-     */
-    take?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Skip the first `n` Accounts.
-     */
-    skip?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
-     * 
-     * Filter by unique combinations of Accounts.
-     */
-    distinct?: AccountScalarFieldEnum | AccountScalarFieldEnum[]
-  }
-
-  /**
-   * Account findFirstOrThrow
-   */
-  export type AccountFindFirstOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Account
-     */
-    select?: AccountSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Account
-     */
-    omit?: AccountOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: AccountInclude<ExtArgs> | null
-    /**
-     * Filter, which Account to fetch.
-     */
-    where?: AccountWhereInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
-     * 
-     * Determine the order of Accounts to fetch.
-     */
-    orderBy?: AccountOrderByWithRelationInput | AccountOrderByWithRelationInput[]
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
-     * 
-     * Sets the position for searching for Accounts.
-     */
-    cursor?: AccountWhereUniqueInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Take `±n` Accounts from the position of the cursor.
-     */
-    take?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Skip the first `n` Accounts.
-     */
-    skip?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
-     * 
-     * Filter by unique combinations of Accounts.
-     */
-    distinct?: AccountScalarFieldEnum | AccountScalarFieldEnum[]
-  }
-
-  /**
-   * Account findMany
-   */
-  export type AccountFindManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Account
-     */
-    select?: AccountSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Account
-     */
-    omit?: AccountOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: AccountInclude<ExtArgs> | null
-    /**
-     * Filter, which Accounts to fetch.
-     */
-    where?: AccountWhereInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
-     * 
-     * Determine the order of Accounts to fetch.
-     */
-    orderBy?: AccountOrderByWithRelationInput | AccountOrderByWithRelationInput[]
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
-     * 
-     * Sets the position for listing Accounts.
-     */
-    cursor?: AccountWhereUniqueInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Take `±n` Accounts from the position of the cursor.
-     */
-    take?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Skip the first `n` Accounts.
-     */
-    skip?: number
-    distinct?: AccountScalarFieldEnum | AccountScalarFieldEnum[]
-  }
-
-  /**
-   * Account create
-   */
-  export type AccountCreateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Account
-     */
-    select?: AccountSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Account
-     */
-    omit?: AccountOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: AccountInclude<ExtArgs> | null
-    /**
-     * The data needed to create a Account.
-     */
-    data: XOR<AccountCreateInput, AccountUncheckedCreateInput>
-  }
-
-  /**
-   * Account createMany
-   */
-  export type AccountCreateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * The data used to create many Accounts.
-     */
-    data: AccountCreateManyInput | AccountCreateManyInput[]
-    skipDuplicates?: boolean
-  }
-
-  /**
-   * Account createManyAndReturn
-   */
-  export type AccountCreateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Account
-     */
-    select?: AccountSelectCreateManyAndReturn<ExtArgs> | null
-    /**
-     * Omit specific fields from the Account
-     */
-    omit?: AccountOmit<ExtArgs> | null
-    /**
-     * The data used to create many Accounts.
-     */
-    data: AccountCreateManyInput | AccountCreateManyInput[]
-    skipDuplicates?: boolean
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: AccountIncludeCreateManyAndReturn<ExtArgs> | null
-  }
-
-  /**
-   * Account update
-   */
-  export type AccountUpdateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Account
-     */
-    select?: AccountSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Account
-     */
-    omit?: AccountOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: AccountInclude<ExtArgs> | null
-    /**
-     * The data needed to update a Account.
-     */
-    data: XOR<AccountUpdateInput, AccountUncheckedUpdateInput>
-    /**
-     * Choose, which Account to update.
-     */
-    where: AccountWhereUniqueInput
-  }
-
-  /**
-   * Account updateMany
-   */
-  export type AccountUpdateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * The data used to update Accounts.
-     */
-    data: XOR<AccountUpdateManyMutationInput, AccountUncheckedUpdateManyInput>
-    /**
-     * Filter which Accounts to update
-     */
-    where?: AccountWhereInput
-    /**
-     * Limit how many Accounts to update.
-     */
-    limit?: number
-  }
-
-  /**
-   * Account updateManyAndReturn
-   */
-  export type AccountUpdateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Account
-     */
-    select?: AccountSelectUpdateManyAndReturn<ExtArgs> | null
-    /**
-     * Omit specific fields from the Account
-     */
-    omit?: AccountOmit<ExtArgs> | null
-    /**
-     * The data used to update Accounts.
-     */
-    data: XOR<AccountUpdateManyMutationInput, AccountUncheckedUpdateManyInput>
-    /**
-     * Filter which Accounts to update
-     */
-    where?: AccountWhereInput
-    /**
-     * Limit how many Accounts to update.
-     */
-    limit?: number
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: AccountIncludeUpdateManyAndReturn<ExtArgs> | null
-  }
-
-  /**
-   * Account upsert
-   */
-  export type AccountUpsertArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Account
-     */
-    select?: AccountSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Account
-     */
-    omit?: AccountOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: AccountInclude<ExtArgs> | null
-    /**
-     * The filter to search for the Account to update in case it exists.
-     */
-    where: AccountWhereUniqueInput
-    /**
-     * In case the Account found by the `where` argument doesn't exist, create a new Account with this data.
-     */
-    create: XOR<AccountCreateInput, AccountUncheckedCreateInput>
-    /**
-     * In case the Account was found with the provided `where` argument, update it with this data.
-     */
-    update: XOR<AccountUpdateInput, AccountUncheckedUpdateInput>
-  }
-
-  /**
-   * Account delete
-   */
-  export type AccountDeleteArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Account
-     */
-    select?: AccountSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Account
-     */
-    omit?: AccountOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: AccountInclude<ExtArgs> | null
-    /**
-     * Filter which Account to delete.
-     */
-    where: AccountWhereUniqueInput
-  }
-
-  /**
-   * Account deleteMany
-   */
-  export type AccountDeleteManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Filter which Accounts to delete
-     */
-    where?: AccountWhereInput
-    /**
-     * Limit how many Accounts to delete.
-     */
-    limit?: number
-  }
-
-  /**
-   * Account without action
-   */
-  export type AccountDefaultArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Account
-     */
-    select?: AccountSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Account
-     */
-    omit?: AccountOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: AccountInclude<ExtArgs> | null
-  }
-
-
-  /**
-   * Model Session
-   */
-
-  export type AggregateSession = {
-    _count: SessionCountAggregateOutputType | null
-    _min: SessionMinAggregateOutputType | null
-    _max: SessionMaxAggregateOutputType | null
-  }
-
-  export type SessionMinAggregateOutputType = {
-    id: string | null
-    sessionToken: string | null
-    userId: string | null
-    expires: Date | null
-  }
-
-  export type SessionMaxAggregateOutputType = {
-    id: string | null
-    sessionToken: string | null
-    userId: string | null
-    expires: Date | null
-  }
-
-  export type SessionCountAggregateOutputType = {
-    id: number
-    sessionToken: number
-    userId: number
-    expires: number
-    _all: number
-  }
-
-
-  export type SessionMinAggregateInputType = {
-    id?: true
-    sessionToken?: true
-    userId?: true
-    expires?: true
-  }
-
-  export type SessionMaxAggregateInputType = {
-    id?: true
-    sessionToken?: true
-    userId?: true
-    expires?: true
-  }
-
-  export type SessionCountAggregateInputType = {
-    id?: true
-    sessionToken?: true
-    userId?: true
-    expires?: true
-    _all?: true
-  }
-
-  export type SessionAggregateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Filter which Session to aggregate.
-     */
-    where?: SessionWhereInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
-     * 
-     * Determine the order of Sessions to fetch.
-     */
-    orderBy?: SessionOrderByWithRelationInput | SessionOrderByWithRelationInput[]
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
-     * 
-     * Sets the start position
-     */
-    cursor?: SessionWhereUniqueInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Take `±n` Sessions from the position of the cursor.
-     */
-    take?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Skip the first `n` Sessions.
-     */
-    skip?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
-     * 
-     * Count returned Sessions
-    **/
-    _count?: true | SessionCountAggregateInputType
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
-     * 
-     * Select which fields to find the minimum value
-    **/
-    _min?: SessionMinAggregateInputType
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
-     * 
-     * Select which fields to find the maximum value
-    **/
-    _max?: SessionMaxAggregateInputType
-  }
-
-  export type GetSessionAggregateType<T extends SessionAggregateArgs> = {
-        [P in keyof T & keyof AggregateSession]: P extends '_count' | 'count'
-      ? T[P] extends true
-        ? number
-        : GetScalarType<T[P], AggregateSession[P]>
-      : GetScalarType<T[P], AggregateSession[P]>
-  }
-
-
-
-
-  export type SessionGroupByArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    where?: SessionWhereInput
-    orderBy?: SessionOrderByWithAggregationInput | SessionOrderByWithAggregationInput[]
-    by: SessionScalarFieldEnum[] | SessionScalarFieldEnum
-    having?: SessionScalarWhereWithAggregatesInput
-    take?: number
-    skip?: number
-    _count?: SessionCountAggregateInputType | true
-    _min?: SessionMinAggregateInputType
-    _max?: SessionMaxAggregateInputType
-  }
-
-  export type SessionGroupByOutputType = {
-    id: string
-    sessionToken: string
-    userId: string
-    expires: Date
-    _count: SessionCountAggregateOutputType | null
-    _min: SessionMinAggregateOutputType | null
-    _max: SessionMaxAggregateOutputType | null
-  }
-
-  type GetSessionGroupByPayload<T extends SessionGroupByArgs> = Prisma.PrismaPromise<
-    Array<
-      PickEnumerable<SessionGroupByOutputType, T['by']> &
-        {
-          [P in ((keyof T) & (keyof SessionGroupByOutputType))]: P extends '_count'
-            ? T[P] extends boolean
-              ? number
-              : GetScalarType<T[P], SessionGroupByOutputType[P]>
-            : GetScalarType<T[P], SessionGroupByOutputType[P]>
-        }
-      >
-    >
-
-
-  export type SessionSelect<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
-    id?: boolean
-    sessionToken?: boolean
-    userId?: boolean
-    expires?: boolean
-    user?: boolean | UserDefaultArgs<ExtArgs>
-  }, ExtArgs["result"]["session"]>
-
-  export type SessionSelectCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
-    id?: boolean
-    sessionToken?: boolean
-    userId?: boolean
-    expires?: boolean
-    user?: boolean | UserDefaultArgs<ExtArgs>
-  }, ExtArgs["result"]["session"]>
-
-  export type SessionSelectUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
-    id?: boolean
-    sessionToken?: boolean
-    userId?: boolean
-    expires?: boolean
-    user?: boolean | UserDefaultArgs<ExtArgs>
-  }, ExtArgs["result"]["session"]>
-
-  export type SessionSelectScalar = {
-    id?: boolean
-    sessionToken?: boolean
-    userId?: boolean
-    expires?: boolean
-  }
-
-  export type SessionOmit<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetOmit<"id" | "sessionToken" | "userId" | "expires", ExtArgs["result"]["session"]>
-  export type SessionInclude<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    user?: boolean | UserDefaultArgs<ExtArgs>
-  }
-  export type SessionIncludeCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    user?: boolean | UserDefaultArgs<ExtArgs>
-  }
-  export type SessionIncludeUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    user?: boolean | UserDefaultArgs<ExtArgs>
-  }
-
-  export type $SessionPayload<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    name: "Session"
-    objects: {
-      user: Prisma.$UserPayload<ExtArgs>
-    }
-    scalars: $Extensions.GetPayloadResult<{
-      id: string
-      sessionToken: string
-      userId: string
-      expires: Date
-    }, ExtArgs["result"]["session"]>
-    composites: {}
-  }
-
-  type SessionGetPayload<S extends boolean | null | undefined | SessionDefaultArgs> = $Result.GetResult<Prisma.$SessionPayload, S>
-
-  type SessionCountArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> =
-    Omit<SessionFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
-      select?: SessionCountAggregateInputType | true
-    }
-
-  export interface SessionDelegate<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> {
-    [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['Session'], meta: { name: 'Session' } }
-    /**
-     * Find zero or one Session that matches the filter.
-     * @param {SessionFindUniqueArgs} args - Arguments to find a Session
-     * @example
-     * // Get one Session
-     * const session = await prisma.session.findUnique({
-     *   where: {
-     *     // ... provide filter here
-     *   }
-     * })
-     */
-    findUnique<T extends SessionFindUniqueArgs>(args: SelectSubset<T, SessionFindUniqueArgs<ExtArgs>>): Prisma__SessionClient<$Result.GetResult<Prisma.$SessionPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Find one Session that matches the filter or throw an error with `error.code='P2025'`
-     * if no matches were found.
-     * @param {SessionFindUniqueOrThrowArgs} args - Arguments to find a Session
-     * @example
-     * // Get one Session
-     * const session = await prisma.session.findUniqueOrThrow({
-     *   where: {
-     *     // ... provide filter here
-     *   }
-     * })
-     */
-    findUniqueOrThrow<T extends SessionFindUniqueOrThrowArgs>(args: SelectSubset<T, SessionFindUniqueOrThrowArgs<ExtArgs>>): Prisma__SessionClient<$Result.GetResult<Prisma.$SessionPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Find the first Session that matches the filter.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {SessionFindFirstArgs} args - Arguments to find a Session
-     * @example
-     * // Get one Session
-     * const session = await prisma.session.findFirst({
-     *   where: {
-     *     // ... provide filter here
-     *   }
-     * })
-     */
-    findFirst<T extends SessionFindFirstArgs>(args?: SelectSubset<T, SessionFindFirstArgs<ExtArgs>>): Prisma__SessionClient<$Result.GetResult<Prisma.$SessionPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Find the first Session that matches the filter or
-     * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {SessionFindFirstOrThrowArgs} args - Arguments to find a Session
-     * @example
-     * // Get one Session
-     * const session = await prisma.session.findFirstOrThrow({
-     *   where: {
-     *     // ... provide filter here
-     *   }
-     * })
-     */
-    findFirstOrThrow<T extends SessionFindFirstOrThrowArgs>(args?: SelectSubset<T, SessionFindFirstOrThrowArgs<ExtArgs>>): Prisma__SessionClient<$Result.GetResult<Prisma.$SessionPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Find zero or more Sessions that matches the filter.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {SessionFindManyArgs} args - Arguments to filter and select certain fields only.
-     * @example
-     * // Get all Sessions
-     * const sessions = await prisma.session.findMany()
-     * 
-     * // Get first 10 Sessions
-     * const sessions = await prisma.session.findMany({ take: 10 })
-     * 
-     * // Only select the `id`
-     * const sessionWithIdOnly = await prisma.session.findMany({ select: { id: true } })
-     * 
-     */
-    findMany<T extends SessionFindManyArgs>(args?: SelectSubset<T, SessionFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$SessionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
-
-    /**
-     * Create a Session.
-     * @param {SessionCreateArgs} args - Arguments to create a Session.
-     * @example
-     * // Create one Session
-     * const Session = await prisma.session.create({
-     *   data: {
-     *     // ... data to create a Session
-     *   }
-     * })
-     * 
-     */
-    create<T extends SessionCreateArgs>(args: SelectSubset<T, SessionCreateArgs<ExtArgs>>): Prisma__SessionClient<$Result.GetResult<Prisma.$SessionPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Create many Sessions.
-     * @param {SessionCreateManyArgs} args - Arguments to create many Sessions.
-     * @example
-     * // Create many Sessions
-     * const session = await prisma.session.createMany({
-     *   data: [
-     *     // ... provide data here
-     *   ]
-     * })
-     *     
-     */
-    createMany<T extends SessionCreateManyArgs>(args?: SelectSubset<T, SessionCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
-
-    /**
-     * Create many Sessions and returns the data saved in the database.
-     * @param {SessionCreateManyAndReturnArgs} args - Arguments to create many Sessions.
-     * @example
-     * // Create many Sessions
-     * const session = await prisma.session.createManyAndReturn({
-     *   data: [
-     *     // ... provide data here
-     *   ]
-     * })
-     * 
-     * // Create many Sessions and only return the `id`
-     * const sessionWithIdOnly = await prisma.session.createManyAndReturn({
-     *   select: { id: true },
-     *   data: [
-     *     // ... provide data here
-     *   ]
-     * })
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * 
-     */
-    createManyAndReturn<T extends SessionCreateManyAndReturnArgs>(args?: SelectSubset<T, SessionCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$SessionPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
-
-    /**
-     * Delete a Session.
-     * @param {SessionDeleteArgs} args - Arguments to delete one Session.
-     * @example
-     * // Delete one Session
-     * const Session = await prisma.session.delete({
-     *   where: {
-     *     // ... filter to delete one Session
-     *   }
-     * })
-     * 
-     */
-    delete<T extends SessionDeleteArgs>(args: SelectSubset<T, SessionDeleteArgs<ExtArgs>>): Prisma__SessionClient<$Result.GetResult<Prisma.$SessionPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Update one Session.
-     * @param {SessionUpdateArgs} args - Arguments to update one Session.
-     * @example
-     * // Update one Session
-     * const session = await prisma.session.update({
-     *   where: {
-     *     // ... provide filter here
-     *   },
-     *   data: {
-     *     // ... provide data here
-     *   }
-     * })
-     * 
-     */
-    update<T extends SessionUpdateArgs>(args: SelectSubset<T, SessionUpdateArgs<ExtArgs>>): Prisma__SessionClient<$Result.GetResult<Prisma.$SessionPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Delete zero or more Sessions.
-     * @param {SessionDeleteManyArgs} args - Arguments to filter Sessions to delete.
-     * @example
-     * // Delete a few Sessions
-     * const { count } = await prisma.session.deleteMany({
-     *   where: {
-     *     // ... provide filter here
-     *   }
-     * })
-     * 
-     */
-    deleteMany<T extends SessionDeleteManyArgs>(args?: SelectSubset<T, SessionDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
-
-    /**
-     * Update zero or more Sessions.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {SessionUpdateManyArgs} args - Arguments to update one or more rows.
-     * @example
-     * // Update many Sessions
-     * const session = await prisma.session.updateMany({
-     *   where: {
-     *     // ... provide filter here
-     *   },
-     *   data: {
-     *     // ... provide data here
-     *   }
-     * })
-     * 
-     */
-    updateMany<T extends SessionUpdateManyArgs>(args: SelectSubset<T, SessionUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
-
-    /**
-     * Update zero or more Sessions and returns the data updated in the database.
-     * @param {SessionUpdateManyAndReturnArgs} args - Arguments to update many Sessions.
-     * @example
-     * // Update many Sessions
-     * const session = await prisma.session.updateManyAndReturn({
-     *   where: {
-     *     // ... provide filter here
-     *   },
-     *   data: [
-     *     // ... provide data here
-     *   ]
-     * })
-     * 
-     * // Update zero or more Sessions and only return the `id`
-     * const sessionWithIdOnly = await prisma.session.updateManyAndReturn({
-     *   select: { id: true },
-     *   where: {
-     *     // ... provide filter here
-     *   },
-     *   data: [
-     *     // ... provide data here
-     *   ]
-     * })
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * 
-     */
-    updateManyAndReturn<T extends SessionUpdateManyAndReturnArgs>(args: SelectSubset<T, SessionUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$SessionPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
-
-    /**
-     * Create or update one Session.
-     * @param {SessionUpsertArgs} args - Arguments to update or create a Session.
-     * @example
-     * // Update or create a Session
-     * const session = await prisma.session.upsert({
-     *   create: {
-     *     // ... data to create a Session
-     *   },
-     *   update: {
-     *     // ... in case it already exists, update
-     *   },
-     *   where: {
-     *     // ... the filter for the Session we want to update
-     *   }
-     * })
-     */
-    upsert<T extends SessionUpsertArgs>(args: SelectSubset<T, SessionUpsertArgs<ExtArgs>>): Prisma__SessionClient<$Result.GetResult<Prisma.$SessionPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-
-    /**
-     * Count the number of Sessions.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {SessionCountArgs} args - Arguments to filter Sessions to count.
-     * @example
-     * // Count the number of Sessions
-     * const count = await prisma.session.count({
-     *   where: {
-     *     // ... the filter for the Sessions we want to count
-     *   }
-     * })
-    **/
-    count<T extends SessionCountArgs>(
-      args?: Subset<T, SessionCountArgs>,
-    ): Prisma.PrismaPromise<
-      T extends $Utils.Record<'select', any>
-        ? T['select'] extends true
-          ? number
-          : GetScalarType<T['select'], SessionCountAggregateOutputType>
-        : number
-    >
-
-    /**
-     * Allows you to perform aggregations operations on a Session.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {SessionAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
-     * @example
-     * // Ordered by age ascending
-     * // Where email contains prisma.io
-     * // Limited to the 10 users
-     * const aggregations = await prisma.user.aggregate({
-     *   _avg: {
-     *     age: true,
-     *   },
-     *   where: {
-     *     email: {
-     *       contains: "prisma.io",
-     *     },
-     *   },
-     *   orderBy: {
-     *     age: "asc",
-     *   },
-     *   take: 10,
-     * })
-    **/
-    aggregate<T extends SessionAggregateArgs>(args: Subset<T, SessionAggregateArgs>): Prisma.PrismaPromise<GetSessionAggregateType<T>>
-
-    /**
-     * Group by Session.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {SessionGroupByArgs} args - Group by arguments.
-     * @example
-     * // Group by city, order by createdAt, get count
-     * const result = await prisma.user.groupBy({
-     *   by: ['city', 'createdAt'],
-     *   orderBy: {
-     *     createdAt: true
-     *   },
-     *   _count: {
-     *     _all: true
-     *   },
-     * })
-     * 
-    **/
-    groupBy<
-      T extends SessionGroupByArgs,
-      HasSelectOrTake extends Or<
-        Extends<'skip', Keys<T>>,
-        Extends<'take', Keys<T>>
-      >,
-      OrderByArg extends True extends HasSelectOrTake
-        ? { orderBy: SessionGroupByArgs['orderBy'] }
-        : { orderBy?: SessionGroupByArgs['orderBy'] },
-      OrderFields extends ExcludeUnderscoreKeys<Keys<MaybeTupleToUnion<T['orderBy']>>>,
-      ByFields extends MaybeTupleToUnion<T['by']>,
-      ByValid extends Has<ByFields, OrderFields>,
-      HavingFields extends GetHavingFields<T['having']>,
-      HavingValid extends Has<ByFields, HavingFields>,
-      ByEmpty extends T['by'] extends never[] ? True : False,
-      InputErrors extends ByEmpty extends True
-      ? `Error: "by" must not be empty.`
-      : HavingValid extends False
-      ? {
-          [P in HavingFields]: P extends ByFields
-            ? never
-            : P extends string
-            ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
-            : [
-                Error,
-                'Field ',
-                P,
-                ` in "having" needs to be provided in "by"`,
-              ]
-        }[HavingFields]
-      : 'take' extends Keys<T>
-      ? 'orderBy' extends Keys<T>
-        ? ByValid extends True
-          ? {}
-          : {
-              [P in OrderFields]: P extends ByFields
-                ? never
-                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
-            }[OrderFields]
-        : 'Error: If you provide "take", you also need to provide "orderBy"'
-      : 'skip' extends Keys<T>
-      ? 'orderBy' extends Keys<T>
-        ? ByValid extends True
-          ? {}
-          : {
-              [P in OrderFields]: P extends ByFields
-                ? never
-                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
-            }[OrderFields]
-        : 'Error: If you provide "skip", you also need to provide "orderBy"'
-      : ByValid extends True
-      ? {}
-      : {
-          [P in OrderFields]: P extends ByFields
-            ? never
-            : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
-        }[OrderFields]
-    >(args: SubsetIntersection<T, SessionGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetSessionGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
-  /**
-   * Fields of the Session model
-   */
-  readonly fields: SessionFieldRefs;
-  }
-
-  /**
-   * The delegate class that acts as a "Promise-like" for Session.
-   * Why is this prefixed with `Prisma__`?
-   * Because we want to prevent naming conflicts as mentioned in
-   * https://github.com/prisma/prisma-client-js/issues/707
-   */
-  export interface Prisma__SessionClient<T, Null = never, ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
-    readonly [Symbol.toStringTag]: "PrismaPromise"
-    user<T extends UserDefaultArgs<ExtArgs> = {}>(args?: Subset<T, UserDefaultArgs<ExtArgs>>): Prisma__UserClient<$Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
-    /**
-     * Attaches callbacks for the resolution and/or rejection of the Promise.
-     * @param onfulfilled The callback to execute when the Promise is resolved.
-     * @param onrejected The callback to execute when the Promise is rejected.
-     * @returns A Promise for the completion of which ever callback is executed.
-     */
-    then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): $Utils.JsPromise<TResult1 | TResult2>
-    /**
-     * Attaches a callback for only the rejection of the Promise.
-     * @param onrejected The callback to execute when the Promise is rejected.
-     * @returns A Promise for the completion of the callback.
-     */
-    catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): $Utils.JsPromise<T | TResult>
-    /**
-     * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
-     * resolved value cannot be modified from the callback.
-     * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
-     * @returns A Promise for the completion of the callback.
-     */
-    finally(onfinally?: (() => void) | undefined | null): $Utils.JsPromise<T>
-  }
-
-
-
-
-  /**
-   * Fields of the Session model
-   */
-  interface SessionFieldRefs {
-    readonly id: FieldRef<"Session", 'String'>
-    readonly sessionToken: FieldRef<"Session", 'String'>
-    readonly userId: FieldRef<"Session", 'String'>
-    readonly expires: FieldRef<"Session", 'DateTime'>
-  }
-    
-
-  // Custom InputTypes
-  /**
-   * Session findUnique
-   */
-  export type SessionFindUniqueArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Session
-     */
-    select?: SessionSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Session
-     */
-    omit?: SessionOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: SessionInclude<ExtArgs> | null
-    /**
-     * Filter, which Session to fetch.
-     */
-    where: SessionWhereUniqueInput
-  }
-
-  /**
-   * Session findUniqueOrThrow
-   */
-  export type SessionFindUniqueOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Session
-     */
-    select?: SessionSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Session
-     */
-    omit?: SessionOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: SessionInclude<ExtArgs> | null
-    /**
-     * Filter, which Session to fetch.
-     */
-    where: SessionWhereUniqueInput
-  }
-
-  /**
-   * Session findFirst
-   */
-  export type SessionFindFirstArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Session
-     */
-    select?: SessionSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Session
-     */
-    omit?: SessionOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: SessionInclude<ExtArgs> | null
-    /**
-     * Filter, which Session to fetch.
-     */
-    where?: SessionWhereInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
-     * 
-     * Determine the order of Sessions to fetch.
-     */
-    orderBy?: SessionOrderByWithRelationInput | SessionOrderByWithRelationInput[]
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
-     * 
-     * Sets the position for searching for Sessions.
-     */
-    cursor?: SessionWhereUniqueInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Take `±n` Sessions from the position of the cursor.
-     */
-    take?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Skip the first `n` Sessions.
-     */
-    skip?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
-     * 
-     * Filter by unique combinations of Sessions.
-     */
-    distinct?: SessionScalarFieldEnum | SessionScalarFieldEnum[]
-  }
-
-  /**
-   * Session findFirstOrThrow
-   */
-  export type SessionFindFirstOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Session
-     */
-    select?: SessionSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Session
-     */
-    omit?: SessionOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: SessionInclude<ExtArgs> | null
-    /**
-     * Filter, which Session to fetch.
-     */
-    where?: SessionWhereInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
-     * 
-     * Determine the order of Sessions to fetch.
-     */
-    orderBy?: SessionOrderByWithRelationInput | SessionOrderByWithRelationInput[]
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
-     * 
-     * Sets the position for searching for Sessions.
-     */
-    cursor?: SessionWhereUniqueInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Take `±n` Sessions from the position of the cursor.
-     */
-    take?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Skip the first `n` Sessions.
-     */
-    skip?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
-     * 
-     * Filter by unique combinations of Sessions.
-     */
-    distinct?: SessionScalarFieldEnum | SessionScalarFieldEnum[]
-  }
-
-  /**
-   * Session findMany
-   */
-  export type SessionFindManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Session
-     */
-    select?: SessionSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Session
-     */
-    omit?: SessionOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: SessionInclude<ExtArgs> | null
-    /**
-     * Filter, which Sessions to fetch.
-     */
-    where?: SessionWhereInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
-     * 
-     * Determine the order of Sessions to fetch.
-     */
-    orderBy?: SessionOrderByWithRelationInput | SessionOrderByWithRelationInput[]
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
-     * 
-     * Sets the position for listing Sessions.
-     */
-    cursor?: SessionWhereUniqueInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Take `±n` Sessions from the position of the cursor.
-     */
-    take?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Skip the first `n` Sessions.
-     */
-    skip?: number
-    distinct?: SessionScalarFieldEnum | SessionScalarFieldEnum[]
-  }
-
-  /**
-   * Session create
-   */
-  export type SessionCreateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Session
-     */
-    select?: SessionSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Session
-     */
-    omit?: SessionOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: SessionInclude<ExtArgs> | null
-    /**
-     * The data needed to create a Session.
-     */
-    data: XOR<SessionCreateInput, SessionUncheckedCreateInput>
-  }
-
-  /**
-   * Session createMany
-   */
-  export type SessionCreateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * The data used to create many Sessions.
-     */
-    data: SessionCreateManyInput | SessionCreateManyInput[]
-    skipDuplicates?: boolean
-  }
-
-  /**
-   * Session createManyAndReturn
-   */
-  export type SessionCreateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Session
-     */
-    select?: SessionSelectCreateManyAndReturn<ExtArgs> | null
-    /**
-     * Omit specific fields from the Session
-     */
-    omit?: SessionOmit<ExtArgs> | null
-    /**
-     * The data used to create many Sessions.
-     */
-    data: SessionCreateManyInput | SessionCreateManyInput[]
-    skipDuplicates?: boolean
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: SessionIncludeCreateManyAndReturn<ExtArgs> | null
-  }
-
-  /**
-   * Session update
-   */
-  export type SessionUpdateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Session
-     */
-    select?: SessionSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Session
-     */
-    omit?: SessionOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: SessionInclude<ExtArgs> | null
-    /**
-     * The data needed to update a Session.
-     */
-    data: XOR<SessionUpdateInput, SessionUncheckedUpdateInput>
-    /**
-     * Choose, which Session to update.
-     */
-    where: SessionWhereUniqueInput
-  }
-
-  /**
-   * Session updateMany
-   */
-  export type SessionUpdateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * The data used to update Sessions.
-     */
-    data: XOR<SessionUpdateManyMutationInput, SessionUncheckedUpdateManyInput>
-    /**
-     * Filter which Sessions to update
-     */
-    where?: SessionWhereInput
-    /**
-     * Limit how many Sessions to update.
-     */
-    limit?: number
-  }
-
-  /**
-   * Session updateManyAndReturn
-   */
-  export type SessionUpdateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Session
-     */
-    select?: SessionSelectUpdateManyAndReturn<ExtArgs> | null
-    /**
-     * Omit specific fields from the Session
-     */
-    omit?: SessionOmit<ExtArgs> | null
-    /**
-     * The data used to update Sessions.
-     */
-    data: XOR<SessionUpdateManyMutationInput, SessionUncheckedUpdateManyInput>
-    /**
-     * Filter which Sessions to update
-     */
-    where?: SessionWhereInput
-    /**
-     * Limit how many Sessions to update.
-     */
-    limit?: number
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: SessionIncludeUpdateManyAndReturn<ExtArgs> | null
-  }
-
-  /**
-   * Session upsert
-   */
-  export type SessionUpsertArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Session
-     */
-    select?: SessionSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Session
-     */
-    omit?: SessionOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: SessionInclude<ExtArgs> | null
-    /**
-     * The filter to search for the Session to update in case it exists.
-     */
-    where: SessionWhereUniqueInput
-    /**
-     * In case the Session found by the `where` argument doesn't exist, create a new Session with this data.
-     */
-    create: XOR<SessionCreateInput, SessionUncheckedCreateInput>
-    /**
-     * In case the Session was found with the provided `where` argument, update it with this data.
-     */
-    update: XOR<SessionUpdateInput, SessionUncheckedUpdateInput>
-  }
-
-  /**
-   * Session delete
-   */
-  export type SessionDeleteArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Session
-     */
-    select?: SessionSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Session
-     */
-    omit?: SessionOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: SessionInclude<ExtArgs> | null
-    /**
-     * Filter which Session to delete.
-     */
-    where: SessionWhereUniqueInput
-  }
-
-  /**
-   * Session deleteMany
-   */
-  export type SessionDeleteManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Filter which Sessions to delete
-     */
-    where?: SessionWhereInput
-    /**
-     * Limit how many Sessions to delete.
-     */
-    limit?: number
-  }
-
-  /**
-   * Session without action
-   */
-  export type SessionDefaultArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Session
-     */
-    select?: SessionSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Session
-     */
-    omit?: SessionOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: SessionInclude<ExtArgs> | null
-  }
-
-
-  /**
-   * Model User
-   */
-
-  export type AggregateUser = {
-    _count: UserCountAggregateOutputType | null
-    _min: UserMinAggregateOutputType | null
-    _max: UserMaxAggregateOutputType | null
-  }
-
-  export type UserMinAggregateOutputType = {
-    id: string | null
-    name: string | null
-    email: string | null
-    emailVerified: Date | null
-    image: string | null
-    role: $Enums.UserRole | null
-    state: string | null
-    hospital: string | null
-    address: string | null
-    dateOfBirth: Date | null
-    gender: string | null
-    phone: string | null
-    city: string | null
-    pincode: string | null
-  }
-
-  export type UserMaxAggregateOutputType = {
-    id: string | null
-    name: string | null
-    email: string | null
-    emailVerified: Date | null
-    image: string | null
-    role: $Enums.UserRole | null
-    state: string | null
-    hospital: string | null
-    address: string | null
-    dateOfBirth: Date | null
-    gender: string | null
-    phone: string | null
-    city: string | null
-    pincode: string | null
-  }
-
-  export type UserCountAggregateOutputType = {
-    id: number
-    name: number
-    email: number
-    emailVerified: number
-    image: number
-    role: number
-    state: number
-    hospital: number
-    address: number
-    dateOfBirth: number
-    gender: number
-    phone: number
-    city: number
-    pincode: number
-    _all: number
-  }
-
-
-  export type UserMinAggregateInputType = {
-    id?: true
-    name?: true
-    email?: true
-    emailVerified?: true
-    image?: true
-    role?: true
-    state?: true
-    hospital?: true
-    address?: true
-    dateOfBirth?: true
-    gender?: true
-    phone?: true
-    city?: true
-    pincode?: true
-  }
-
-  export type UserMaxAggregateInputType = {
-    id?: true
-    name?: true
-    email?: true
-    emailVerified?: true
-    image?: true
-    role?: true
-    state?: true
-    hospital?: true
-    address?: true
-    dateOfBirth?: true
-    gender?: true
-    phone?: true
-    city?: true
-    pincode?: true
-  }
-
-  export type UserCountAggregateInputType = {
-    id?: true
-    name?: true
-    email?: true
-    emailVerified?: true
-    image?: true
-    role?: true
-    state?: true
-    hospital?: true
-    address?: true
-    dateOfBirth?: true
-    gender?: true
-    phone?: true
-    city?: true
-    pincode?: true
-    _all?: true
-  }
-
-  export type UserAggregateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Filter which User to aggregate.
-     */
-    where?: UserWhereInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
-     * 
-     * Determine the order of Users to fetch.
-     */
-    orderBy?: UserOrderByWithRelationInput | UserOrderByWithRelationInput[]
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
-     * 
-     * Sets the start position
-     */
-    cursor?: UserWhereUniqueInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Take `±n` Users from the position of the cursor.
-     */
-    take?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Skip the first `n` Users.
-     */
-    skip?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
-     * 
-     * Count returned Users
-    **/
-    _count?: true | UserCountAggregateInputType
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
-     * 
-     * Select which fields to find the minimum value
-    **/
-    _min?: UserMinAggregateInputType
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
-     * 
-     * Select which fields to find the maximum value
-    **/
-    _max?: UserMaxAggregateInputType
-  }
-
-  export type GetUserAggregateType<T extends UserAggregateArgs> = {
-        [P in keyof T & keyof AggregateUser]: P extends '_count' | 'count'
-      ? T[P] extends true
-        ? number
-        : GetScalarType<T[P], AggregateUser[P]>
-      : GetScalarType<T[P], AggregateUser[P]>
-  }
-
-
-
-
-  export type UserGroupByArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    where?: UserWhereInput
-    orderBy?: UserOrderByWithAggregationInput | UserOrderByWithAggregationInput[]
-    by: UserScalarFieldEnum[] | UserScalarFieldEnum
-    having?: UserScalarWhereWithAggregatesInput
-    take?: number
-    skip?: number
-    _count?: UserCountAggregateInputType | true
-    _min?: UserMinAggregateInputType
-    _max?: UserMaxAggregateInputType
-  }
-
-  export type UserGroupByOutputType = {
-    id: string
-    name: string | null
-    email: string | null
-    emailVerified: Date | null
-    image: string | null
-    role: $Enums.UserRole
-    state: string | null
-    hospital: string | null
-    address: string | null
-    dateOfBirth: Date | null
-    gender: string | null
-    phone: string | null
-    city: string | null
-    pincode: string | null
-    _count: UserCountAggregateOutputType | null
-    _min: UserMinAggregateOutputType | null
-    _max: UserMaxAggregateOutputType | null
-  }
-
-  type GetUserGroupByPayload<T extends UserGroupByArgs> = Prisma.PrismaPromise<
-    Array<
-      PickEnumerable<UserGroupByOutputType, T['by']> &
-        {
-          [P in ((keyof T) & (keyof UserGroupByOutputType))]: P extends '_count'
-            ? T[P] extends boolean
-              ? number
-              : GetScalarType<T[P], UserGroupByOutputType[P]>
-            : GetScalarType<T[P], UserGroupByOutputType[P]>
-        }
-      >
-    >
-
-
-  export type UserSelect<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
-    id?: boolean
-    name?: boolean
-    email?: boolean
-    emailVerified?: boolean
-    image?: boolean
-    role?: boolean
-    state?: boolean
-    hospital?: boolean
-    address?: boolean
-    dateOfBirth?: boolean
-    gender?: boolean
-    phone?: boolean
-    city?: boolean
-    pincode?: boolean
-    accounts?: boolean | User$accountsArgs<ExtArgs>
-    sessions?: boolean | User$sessionsArgs<ExtArgs>
-    appointments?: boolean | User$appointmentsArgs<ExtArgs>
-    receipts?: boolean | User$receiptsArgs<ExtArgs>
-    emergencyAlerts?: boolean | User$emergencyAlertsArgs<ExtArgs>
-    medicineReminders?: boolean | User$medicineRemindersArgs<ExtArgs>
-    _count?: boolean | UserCountOutputTypeDefaultArgs<ExtArgs>
-  }, ExtArgs["result"]["user"]>
-
-  export type UserSelectCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
-    id?: boolean
-    name?: boolean
-    email?: boolean
-    emailVerified?: boolean
-    image?: boolean
-    role?: boolean
-    state?: boolean
-    hospital?: boolean
-    address?: boolean
-    dateOfBirth?: boolean
-    gender?: boolean
-    phone?: boolean
-    city?: boolean
-    pincode?: boolean
-  }, ExtArgs["result"]["user"]>
-
-  export type UserSelectUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
-    id?: boolean
-    name?: boolean
-    email?: boolean
-    emailVerified?: boolean
-    image?: boolean
-    role?: boolean
-    state?: boolean
-    hospital?: boolean
-    address?: boolean
-    dateOfBirth?: boolean
-    gender?: boolean
-    phone?: boolean
-    city?: boolean
-    pincode?: boolean
-  }, ExtArgs["result"]["user"]>
-
-  export type UserSelectScalar = {
-    id?: boolean
-    name?: boolean
-    email?: boolean
-    emailVerified?: boolean
-    image?: boolean
-    role?: boolean
-    state?: boolean
-    hospital?: boolean
-    address?: boolean
-    dateOfBirth?: boolean
-    gender?: boolean
-    phone?: boolean
-    city?: boolean
-    pincode?: boolean
-  }
-
-  export type UserOmit<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetOmit<"id" | "name" | "email" | "emailVerified" | "image" | "role" | "state" | "hospital" | "address" | "dateOfBirth" | "gender" | "phone" | "city" | "pincode", ExtArgs["result"]["user"]>
-  export type UserInclude<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    accounts?: boolean | User$accountsArgs<ExtArgs>
-    sessions?: boolean | User$sessionsArgs<ExtArgs>
-    appointments?: boolean | User$appointmentsArgs<ExtArgs>
-    receipts?: boolean | User$receiptsArgs<ExtArgs>
-    emergencyAlerts?: boolean | User$emergencyAlertsArgs<ExtArgs>
-    medicineReminders?: boolean | User$medicineRemindersArgs<ExtArgs>
-    _count?: boolean | UserCountOutputTypeDefaultArgs<ExtArgs>
-  }
-  export type UserIncludeCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {}
-  export type UserIncludeUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {}
-
-  export type $UserPayload<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    name: "User"
-    objects: {
-      accounts: Prisma.$AccountPayload<ExtArgs>[]
-      sessions: Prisma.$SessionPayload<ExtArgs>[]
-      appointments: Prisma.$AppointmentPayload<ExtArgs>[]
-      receipts: Prisma.$ReceiptPayload<ExtArgs>[]
-      emergencyAlerts: Prisma.$EmergencyAlertPayload<ExtArgs>[]
-      medicineReminders: Prisma.$MedicineReminderPayload<ExtArgs>[]
-    }
-    scalars: $Extensions.GetPayloadResult<{
-      id: string
-      name: string | null
-      email: string | null
-      emailVerified: Date | null
-      image: string | null
-      role: $Enums.UserRole
-      state: string | null
-      hospital: string | null
-      address: string | null
-      dateOfBirth: Date | null
-      gender: string | null
-      phone: string | null
-      city: string | null
-      pincode: string | null
-    }, ExtArgs["result"]["user"]>
-    composites: {}
-  }
-
-  type UserGetPayload<S extends boolean | null | undefined | UserDefaultArgs> = $Result.GetResult<Prisma.$UserPayload, S>
-
-  type UserCountArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> =
-    Omit<UserFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
-      select?: UserCountAggregateInputType | true
-    }
-
-  export interface UserDelegate<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> {
-    [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['User'], meta: { name: 'User' } }
-    /**
-     * Find zero or one User that matches the filter.
-     * @param {UserFindUniqueArgs} args - Arguments to find a User
-     * @example
-     * // Get one User
-     * const user = await prisma.user.findUnique({
-     *   where: {
-     *     // ... provide filter here
-     *   }
-     * })
-     */
-    findUnique<T extends UserFindUniqueArgs>(args: SelectSubset<T, UserFindUniqueArgs<ExtArgs>>): Prisma__UserClient<$Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Find one User that matches the filter or throw an error with `error.code='P2025'`
-     * if no matches were found.
-     * @param {UserFindUniqueOrThrowArgs} args - Arguments to find a User
-     * @example
-     * // Get one User
-     * const user = await prisma.user.findUniqueOrThrow({
-     *   where: {
-     *     // ... provide filter here
-     *   }
-     * })
-     */
-    findUniqueOrThrow<T extends UserFindUniqueOrThrowArgs>(args: SelectSubset<T, UserFindUniqueOrThrowArgs<ExtArgs>>): Prisma__UserClient<$Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Find the first User that matches the filter.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {UserFindFirstArgs} args - Arguments to find a User
-     * @example
-     * // Get one User
-     * const user = await prisma.user.findFirst({
-     *   where: {
-     *     // ... provide filter here
-     *   }
-     * })
-     */
-    findFirst<T extends UserFindFirstArgs>(args?: SelectSubset<T, UserFindFirstArgs<ExtArgs>>): Prisma__UserClient<$Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Find the first User that matches the filter or
-     * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {UserFindFirstOrThrowArgs} args - Arguments to find a User
-     * @example
-     * // Get one User
-     * const user = await prisma.user.findFirstOrThrow({
-     *   where: {
-     *     // ... provide filter here
-     *   }
-     * })
-     */
-    findFirstOrThrow<T extends UserFindFirstOrThrowArgs>(args?: SelectSubset<T, UserFindFirstOrThrowArgs<ExtArgs>>): Prisma__UserClient<$Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Find zero or more Users that matches the filter.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {UserFindManyArgs} args - Arguments to filter and select certain fields only.
-     * @example
-     * // Get all Users
-     * const users = await prisma.user.findMany()
-     * 
-     * // Get first 10 Users
-     * const users = await prisma.user.findMany({ take: 10 })
-     * 
-     * // Only select the `id`
-     * const userWithIdOnly = await prisma.user.findMany({ select: { id: true } })
-     * 
-     */
-    findMany<T extends UserFindManyArgs>(args?: SelectSubset<T, UserFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
-
-    /**
-     * Create a User.
-     * @param {UserCreateArgs} args - Arguments to create a User.
-     * @example
-     * // Create one User
-     * const User = await prisma.user.create({
-     *   data: {
-     *     // ... data to create a User
-     *   }
-     * })
-     * 
-     */
-    create<T extends UserCreateArgs>(args: SelectSubset<T, UserCreateArgs<ExtArgs>>): Prisma__UserClient<$Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Create many Users.
-     * @param {UserCreateManyArgs} args - Arguments to create many Users.
-     * @example
-     * // Create many Users
-     * const user = await prisma.user.createMany({
-     *   data: [
-     *     // ... provide data here
-     *   ]
-     * })
-     *     
-     */
-    createMany<T extends UserCreateManyArgs>(args?: SelectSubset<T, UserCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
-
-    /**
-     * Create many Users and returns the data saved in the database.
-     * @param {UserCreateManyAndReturnArgs} args - Arguments to create many Users.
-     * @example
-     * // Create many Users
-     * const user = await prisma.user.createManyAndReturn({
-     *   data: [
-     *     // ... provide data here
-     *   ]
-     * })
-     * 
-     * // Create many Users and only return the `id`
-     * const userWithIdOnly = await prisma.user.createManyAndReturn({
-     *   select: { id: true },
-     *   data: [
-     *     // ... provide data here
-     *   ]
-     * })
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * 
-     */
-    createManyAndReturn<T extends UserCreateManyAndReturnArgs>(args?: SelectSubset<T, UserCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
-
-    /**
-     * Delete a User.
-     * @param {UserDeleteArgs} args - Arguments to delete one User.
-     * @example
-     * // Delete one User
-     * const User = await prisma.user.delete({
-     *   where: {
-     *     // ... filter to delete one User
-     *   }
-     * })
-     * 
-     */
-    delete<T extends UserDeleteArgs>(args: SelectSubset<T, UserDeleteArgs<ExtArgs>>): Prisma__UserClient<$Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Update one User.
-     * @param {UserUpdateArgs} args - Arguments to update one User.
-     * @example
-     * // Update one User
-     * const user = await prisma.user.update({
-     *   where: {
-     *     // ... provide filter here
-     *   },
-     *   data: {
-     *     // ... provide data here
-     *   }
-     * })
-     * 
-     */
-    update<T extends UserUpdateArgs>(args: SelectSubset<T, UserUpdateArgs<ExtArgs>>): Prisma__UserClient<$Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Delete zero or more Users.
-     * @param {UserDeleteManyArgs} args - Arguments to filter Users to delete.
-     * @example
-     * // Delete a few Users
-     * const { count } = await prisma.user.deleteMany({
-     *   where: {
-     *     // ... provide filter here
-     *   }
-     * })
-     * 
-     */
-    deleteMany<T extends UserDeleteManyArgs>(args?: SelectSubset<T, UserDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
-
-    /**
-     * Update zero or more Users.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {UserUpdateManyArgs} args - Arguments to update one or more rows.
-     * @example
-     * // Update many Users
-     * const user = await prisma.user.updateMany({
-     *   where: {
-     *     // ... provide filter here
-     *   },
-     *   data: {
-     *     // ... provide data here
-     *   }
-     * })
-     * 
-     */
-    updateMany<T extends UserUpdateManyArgs>(args: SelectSubset<T, UserUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
-
-    /**
-     * Update zero or more Users and returns the data updated in the database.
-     * @param {UserUpdateManyAndReturnArgs} args - Arguments to update many Users.
-     * @example
-     * // Update many Users
-     * const user = await prisma.user.updateManyAndReturn({
-     *   where: {
-     *     // ... provide filter here
-     *   },
-     *   data: [
-     *     // ... provide data here
-     *   ]
-     * })
-     * 
-     * // Update zero or more Users and only return the `id`
-     * const userWithIdOnly = await prisma.user.updateManyAndReturn({
-     *   select: { id: true },
-     *   where: {
-     *     // ... provide filter here
-     *   },
-     *   data: [
-     *     // ... provide data here
-     *   ]
-     * })
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * 
-     */
-    updateManyAndReturn<T extends UserUpdateManyAndReturnArgs>(args: SelectSubset<T, UserUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
-
-    /**
-     * Create or update one User.
-     * @param {UserUpsertArgs} args - Arguments to update or create a User.
-     * @example
-     * // Update or create a User
-     * const user = await prisma.user.upsert({
-     *   create: {
-     *     // ... data to create a User
-     *   },
-     *   update: {
-     *     // ... in case it already exists, update
-     *   },
-     *   where: {
-     *     // ... the filter for the User we want to update
-     *   }
-     * })
-     */
-    upsert<T extends UserUpsertArgs>(args: SelectSubset<T, UserUpsertArgs<ExtArgs>>): Prisma__UserClient<$Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-
-    /**
-     * Count the number of Users.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {UserCountArgs} args - Arguments to filter Users to count.
-     * @example
-     * // Count the number of Users
-     * const count = await prisma.user.count({
-     *   where: {
-     *     // ... the filter for the Users we want to count
-     *   }
-     * })
-    **/
-    count<T extends UserCountArgs>(
-      args?: Subset<T, UserCountArgs>,
-    ): Prisma.PrismaPromise<
-      T extends $Utils.Record<'select', any>
-        ? T['select'] extends true
-          ? number
-          : GetScalarType<T['select'], UserCountAggregateOutputType>
-        : number
-    >
-
-    /**
-     * Allows you to perform aggregations operations on a User.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {UserAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
-     * @example
-     * // Ordered by age ascending
-     * // Where email contains prisma.io
-     * // Limited to the 10 users
-     * const aggregations = await prisma.user.aggregate({
-     *   _avg: {
-     *     age: true,
-     *   },
-     *   where: {
-     *     email: {
-     *       contains: "prisma.io",
-     *     },
-     *   },
-     *   orderBy: {
-     *     age: "asc",
-     *   },
-     *   take: 10,
-     * })
-    **/
-    aggregate<T extends UserAggregateArgs>(args: Subset<T, UserAggregateArgs>): Prisma.PrismaPromise<GetUserAggregateType<T>>
-
-    /**
-     * Group by User.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {UserGroupByArgs} args - Group by arguments.
-     * @example
-     * // Group by city, order by createdAt, get count
-     * const result = await prisma.user.groupBy({
-     *   by: ['city', 'createdAt'],
-     *   orderBy: {
-     *     createdAt: true
-     *   },
-     *   _count: {
-     *     _all: true
-     *   },
-     * })
-     * 
-    **/
-    groupBy<
-      T extends UserGroupByArgs,
-      HasSelectOrTake extends Or<
-        Extends<'skip', Keys<T>>,
-        Extends<'take', Keys<T>>
-      >,
-      OrderByArg extends True extends HasSelectOrTake
-        ? { orderBy: UserGroupByArgs['orderBy'] }
-        : { orderBy?: UserGroupByArgs['orderBy'] },
-      OrderFields extends ExcludeUnderscoreKeys<Keys<MaybeTupleToUnion<T['orderBy']>>>,
-      ByFields extends MaybeTupleToUnion<T['by']>,
-      ByValid extends Has<ByFields, OrderFields>,
-      HavingFields extends GetHavingFields<T['having']>,
-      HavingValid extends Has<ByFields, HavingFields>,
-      ByEmpty extends T['by'] extends never[] ? True : False,
-      InputErrors extends ByEmpty extends True
-      ? `Error: "by" must not be empty.`
-      : HavingValid extends False
-      ? {
-          [P in HavingFields]: P extends ByFields
-            ? never
-            : P extends string
-            ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
-            : [
-                Error,
-                'Field ',
-                P,
-                ` in "having" needs to be provided in "by"`,
-              ]
-        }[HavingFields]
-      : 'take' extends Keys<T>
-      ? 'orderBy' extends Keys<T>
-        ? ByValid extends True
-          ? {}
-          : {
-              [P in OrderFields]: P extends ByFields
-                ? never
-                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
-            }[OrderFields]
-        : 'Error: If you provide "take", you also need to provide "orderBy"'
-      : 'skip' extends Keys<T>
-      ? 'orderBy' extends Keys<T>
-        ? ByValid extends True
-          ? {}
-          : {
-              [P in OrderFields]: P extends ByFields
-                ? never
-                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
-            }[OrderFields]
-        : 'Error: If you provide "skip", you also need to provide "orderBy"'
-      : ByValid extends True
-      ? {}
-      : {
-          [P in OrderFields]: P extends ByFields
-            ? never
-            : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
-        }[OrderFields]
-    >(args: SubsetIntersection<T, UserGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetUserGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
-  /**
-   * Fields of the User model
-   */
-  readonly fields: UserFieldRefs;
-  }
-
-  /**
-   * The delegate class that acts as a "Promise-like" for User.
-   * Why is this prefixed with `Prisma__`?
-   * Because we want to prevent naming conflicts as mentioned in
-   * https://github.com/prisma/prisma-client-js/issues/707
-   */
-  export interface Prisma__UserClient<T, Null = never, ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
-    readonly [Symbol.toStringTag]: "PrismaPromise"
-    accounts<T extends User$accountsArgs<ExtArgs> = {}>(args?: Subset<T, User$accountsArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$AccountPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
-    sessions<T extends User$sessionsArgs<ExtArgs> = {}>(args?: Subset<T, User$sessionsArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$SessionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
-    appointments<T extends User$appointmentsArgs<ExtArgs> = {}>(args?: Subset<T, User$appointmentsArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$AppointmentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
-    receipts<T extends User$receiptsArgs<ExtArgs> = {}>(args?: Subset<T, User$receiptsArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$ReceiptPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
-    emergencyAlerts<T extends User$emergencyAlertsArgs<ExtArgs> = {}>(args?: Subset<T, User$emergencyAlertsArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$EmergencyAlertPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
-    medicineReminders<T extends User$medicineRemindersArgs<ExtArgs> = {}>(args?: Subset<T, User$medicineRemindersArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$MedicineReminderPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
-    /**
-     * Attaches callbacks for the resolution and/or rejection of the Promise.
-     * @param onfulfilled The callback to execute when the Promise is resolved.
-     * @param onrejected The callback to execute when the Promise is rejected.
-     * @returns A Promise for the completion of which ever callback is executed.
-     */
-    then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): $Utils.JsPromise<TResult1 | TResult2>
-    /**
-     * Attaches a callback for only the rejection of the Promise.
-     * @param onrejected The callback to execute when the Promise is rejected.
-     * @returns A Promise for the completion of the callback.
-     */
-    catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): $Utils.JsPromise<T | TResult>
-    /**
-     * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
-     * resolved value cannot be modified from the callback.
-     * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
-     * @returns A Promise for the completion of the callback.
-     */
-    finally(onfinally?: (() => void) | undefined | null): $Utils.JsPromise<T>
-  }
-
-
-
-
-  /**
-   * Fields of the User model
-   */
-  interface UserFieldRefs {
-    readonly id: FieldRef<"User", 'String'>
-    readonly name: FieldRef<"User", 'String'>
-    readonly email: FieldRef<"User", 'String'>
-    readonly emailVerified: FieldRef<"User", 'DateTime'>
-    readonly image: FieldRef<"User", 'String'>
-    readonly role: FieldRef<"User", 'UserRole'>
-    readonly state: FieldRef<"User", 'String'>
-    readonly hospital: FieldRef<"User", 'String'>
-    readonly address: FieldRef<"User", 'String'>
-    readonly dateOfBirth: FieldRef<"User", 'DateTime'>
-    readonly gender: FieldRef<"User", 'String'>
-    readonly phone: FieldRef<"User", 'String'>
-    readonly city: FieldRef<"User", 'String'>
-    readonly pincode: FieldRef<"User", 'String'>
-  }
-    
-
-  // Custom InputTypes
-  /**
-   * User findUnique
-   */
-  export type UserFindUniqueArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the User
-     */
-    select?: UserSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the User
-     */
-    omit?: UserOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: UserInclude<ExtArgs> | null
-    /**
-     * Filter, which User to fetch.
-     */
-    where: UserWhereUniqueInput
-  }
-
-  /**
-   * User findUniqueOrThrow
-   */
-  export type UserFindUniqueOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the User
-     */
-    select?: UserSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the User
-     */
-    omit?: UserOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: UserInclude<ExtArgs> | null
-    /**
-     * Filter, which User to fetch.
-     */
-    where: UserWhereUniqueInput
-  }
-
-  /**
-   * User findFirst
-   */
-  export type UserFindFirstArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the User
-     */
-    select?: UserSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the User
-     */
-    omit?: UserOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: UserInclude<ExtArgs> | null
-    /**
-     * Filter, which User to fetch.
-     */
-    where?: UserWhereInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
-     * 
-     * Determine the order of Users to fetch.
-     */
-    orderBy?: UserOrderByWithRelationInput | UserOrderByWithRelationInput[]
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
-     * 
-     * Sets the position for searching for Users.
-     */
-    cursor?: UserWhereUniqueInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Take `±n` Users from the position of the cursor.
-     */
-    take?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Skip the first `n` Users.
-     */
-    skip?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
-     * 
-     * Filter by unique combinations of Users.
-     */
-    distinct?: UserScalarFieldEnum | UserScalarFieldEnum[]
-  }
-
-  /**
-   * User findFirstOrThrow
-   */
-  export type UserFindFirstOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the User
-     */
-    select?: UserSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the User
-     */
-    omit?: UserOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: UserInclude<ExtArgs> | null
-    /**
-     * Filter, which User to fetch.
-     */
-    where?: UserWhereInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
-     * 
-     * Determine the order of Users to fetch.
-     */
-    orderBy?: UserOrderByWithRelationInput | UserOrderByWithRelationInput[]
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
-     * 
-     * Sets the position for searching for Users.
-     */
-    cursor?: UserWhereUniqueInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Take `±n` Users from the position of the cursor.
-     */
-    take?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Skip the first `n` Users.
-     */
-    skip?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
-     * 
-     * Filter by unique combinations of Users.
-     */
-    distinct?: UserScalarFieldEnum | UserScalarFieldEnum[]
-  }
-
-  /**
-   * User findMany
-   */
-  export type UserFindManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the User
-     */
-    select?: UserSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the User
-     */
-    omit?: UserOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: UserInclude<ExtArgs> | null
-    /**
-     * Filter, which Users to fetch.
-     */
-    where?: UserWhereInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
-     * 
-     * Determine the order of Users to fetch.
-     */
-    orderBy?: UserOrderByWithRelationInput | UserOrderByWithRelationInput[]
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
-     * 
-     * Sets the position for listing Users.
-     */
-    cursor?: UserWhereUniqueInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Take `±n` Users from the position of the cursor.
-     */
-    take?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Skip the first `n` Users.
-     */
-    skip?: number
-    distinct?: UserScalarFieldEnum | UserScalarFieldEnum[]
-  }
-
-  /**
-   * User create
-   */
-  export type UserCreateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the User
-     */
-    select?: UserSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the User
-     */
-    omit?: UserOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: UserInclude<ExtArgs> | null
-    /**
-     * The data needed to create a User.
-     */
-    data?: XOR<UserCreateInput, UserUncheckedCreateInput>
-  }
-
-  /**
-   * User createMany
-   */
-  export type UserCreateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * The data used to create many Users.
-     */
-    data: UserCreateManyInput | UserCreateManyInput[]
-    skipDuplicates?: boolean
-  }
-
-  /**
-   * User createManyAndReturn
-   */
-  export type UserCreateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the User
-     */
-    select?: UserSelectCreateManyAndReturn<ExtArgs> | null
-    /**
-     * Omit specific fields from the User
-     */
-    omit?: UserOmit<ExtArgs> | null
-    /**
-     * The data used to create many Users.
-     */
-    data: UserCreateManyInput | UserCreateManyInput[]
-    skipDuplicates?: boolean
-  }
-
-  /**
-   * User update
-   */
-  export type UserUpdateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the User
-     */
-    select?: UserSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the User
-     */
-    omit?: UserOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: UserInclude<ExtArgs> | null
-    /**
-     * The data needed to update a User.
-     */
-    data: XOR<UserUpdateInput, UserUncheckedUpdateInput>
-    /**
-     * Choose, which User to update.
-     */
-    where: UserWhereUniqueInput
-  }
-
-  /**
-   * User updateMany
-   */
-  export type UserUpdateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * The data used to update Users.
-     */
-    data: XOR<UserUpdateManyMutationInput, UserUncheckedUpdateManyInput>
-    /**
-     * Filter which Users to update
-     */
-    where?: UserWhereInput
-    /**
-     * Limit how many Users to update.
-     */
-    limit?: number
-  }
-
-  /**
-   * User updateManyAndReturn
-   */
-  export type UserUpdateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the User
-     */
-    select?: UserSelectUpdateManyAndReturn<ExtArgs> | null
-    /**
-     * Omit specific fields from the User
-     */
-    omit?: UserOmit<ExtArgs> | null
-    /**
-     * The data used to update Users.
-     */
-    data: XOR<UserUpdateManyMutationInput, UserUncheckedUpdateManyInput>
-    /**
-     * Filter which Users to update
-     */
-    where?: UserWhereInput
-    /**
-     * Limit how many Users to update.
-     */
-    limit?: number
-  }
-
-  /**
-   * User upsert
-   */
-  export type UserUpsertArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the User
-     */
-    select?: UserSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the User
-     */
-    omit?: UserOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: UserInclude<ExtArgs> | null
-    /**
-     * The filter to search for the User to update in case it exists.
-     */
-    where: UserWhereUniqueInput
-    /**
-     * In case the User found by the `where` argument doesn't exist, create a new User with this data.
-     */
-    create: XOR<UserCreateInput, UserUncheckedCreateInput>
-    /**
-     * In case the User was found with the provided `where` argument, update it with this data.
-     */
-    update: XOR<UserUpdateInput, UserUncheckedUpdateInput>
-  }
-
-  /**
-   * User delete
-   */
-  export type UserDeleteArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the User
-     */
-    select?: UserSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the User
-     */
-    omit?: UserOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: UserInclude<ExtArgs> | null
-    /**
-     * Filter which User to delete.
-     */
-    where: UserWhereUniqueInput
-  }
-
-  /**
-   * User deleteMany
-   */
-  export type UserDeleteManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Filter which Users to delete
-     */
-    where?: UserWhereInput
-    /**
-     * Limit how many Users to delete.
-     */
-    limit?: number
-  }
-
-  /**
-   * User.accounts
-   */
-  export type User$accountsArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Account
-     */
-    select?: AccountSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Account
-     */
-    omit?: AccountOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: AccountInclude<ExtArgs> | null
-    where?: AccountWhereInput
-    orderBy?: AccountOrderByWithRelationInput | AccountOrderByWithRelationInput[]
-    cursor?: AccountWhereUniqueInput
-    take?: number
-    skip?: number
-    distinct?: AccountScalarFieldEnum | AccountScalarFieldEnum[]
-  }
-
-  /**
-   * User.sessions
-   */
-  export type User$sessionsArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Session
-     */
-    select?: SessionSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Session
-     */
-    omit?: SessionOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: SessionInclude<ExtArgs> | null
-    where?: SessionWhereInput
-    orderBy?: SessionOrderByWithRelationInput | SessionOrderByWithRelationInput[]
-    cursor?: SessionWhereUniqueInput
-    take?: number
-    skip?: number
-    distinct?: SessionScalarFieldEnum | SessionScalarFieldEnum[]
-  }
-
-  /**
-   * User.appointments
-   */
-  export type User$appointmentsArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Appointment
-     */
-    select?: AppointmentSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Appointment
-     */
-    omit?: AppointmentOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: AppointmentInclude<ExtArgs> | null
-    where?: AppointmentWhereInput
-    orderBy?: AppointmentOrderByWithRelationInput | AppointmentOrderByWithRelationInput[]
-    cursor?: AppointmentWhereUniqueInput
-    take?: number
-    skip?: number
-    distinct?: AppointmentScalarFieldEnum | AppointmentScalarFieldEnum[]
-  }
-
-  /**
-   * User.receipts
-   */
-  export type User$receiptsArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Receipt
-     */
-    select?: ReceiptSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Receipt
-     */
-    omit?: ReceiptOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: ReceiptInclude<ExtArgs> | null
-    where?: ReceiptWhereInput
-    orderBy?: ReceiptOrderByWithRelationInput | ReceiptOrderByWithRelationInput[]
-    cursor?: ReceiptWhereUniqueInput
-    take?: number
-    skip?: number
-    distinct?: ReceiptScalarFieldEnum | ReceiptScalarFieldEnum[]
-  }
-
-  /**
-   * User.emergencyAlerts
-   */
-  export type User$emergencyAlertsArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the EmergencyAlert
-     */
-    select?: EmergencyAlertSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the EmergencyAlert
-     */
-    omit?: EmergencyAlertOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: EmergencyAlertInclude<ExtArgs> | null
-    where?: EmergencyAlertWhereInput
-    orderBy?: EmergencyAlertOrderByWithRelationInput | EmergencyAlertOrderByWithRelationInput[]
-    cursor?: EmergencyAlertWhereUniqueInput
-    take?: number
-    skip?: number
-    distinct?: EmergencyAlertScalarFieldEnum | EmergencyAlertScalarFieldEnum[]
-  }
-
-  /**
-   * User.medicineReminders
-   */
-  export type User$medicineRemindersArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the MedicineReminder
-     */
-    select?: MedicineReminderSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the MedicineReminder
-     */
-    omit?: MedicineReminderOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: MedicineReminderInclude<ExtArgs> | null
-    where?: MedicineReminderWhereInput
-    orderBy?: MedicineReminderOrderByWithRelationInput | MedicineReminderOrderByWithRelationInput[]
-    cursor?: MedicineReminderWhereUniqueInput
-    take?: number
-    skip?: number
-    distinct?: MedicineReminderScalarFieldEnum | MedicineReminderScalarFieldEnum[]
-  }
-
-  /**
-   * User without action
-   */
-  export type UserDefaultArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the User
-     */
-    select?: UserSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the User
-     */
-    omit?: UserOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: UserInclude<ExtArgs> | null
-  }
-
-
-  /**
-   * Model VerificationToken
-   */
-
-  export type AggregateVerificationToken = {
-    _count: VerificationTokenCountAggregateOutputType | null
-    _min: VerificationTokenMinAggregateOutputType | null
-    _max: VerificationTokenMaxAggregateOutputType | null
-  }
-
-  export type VerificationTokenMinAggregateOutputType = {
-    identifier: string | null
-    token: string | null
-    expires: Date | null
-  }
-
-  export type VerificationTokenMaxAggregateOutputType = {
-    identifier: string | null
-    token: string | null
-    expires: Date | null
-  }
-
-  export type VerificationTokenCountAggregateOutputType = {
-    identifier: number
-    token: number
-    expires: number
-    _all: number
-  }
-
-
-  export type VerificationTokenMinAggregateInputType = {
-    identifier?: true
-    token?: true
-    expires?: true
-  }
-
-  export type VerificationTokenMaxAggregateInputType = {
-    identifier?: true
-    token?: true
-    expires?: true
-  }
-
-  export type VerificationTokenCountAggregateInputType = {
-    identifier?: true
-    token?: true
-    expires?: true
-    _all?: true
-  }
-
-  export type VerificationTokenAggregateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Filter which VerificationToken to aggregate.
-     */
-    where?: VerificationTokenWhereInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
-     * 
-     * Determine the order of VerificationTokens to fetch.
-     */
-    orderBy?: VerificationTokenOrderByWithRelationInput | VerificationTokenOrderByWithRelationInput[]
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
-     * 
-     * Sets the start position
-     */
-    cursor?: VerificationTokenWhereUniqueInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Take `±n` VerificationTokens from the position of the cursor.
-     */
-    take?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Skip the first `n` VerificationTokens.
-     */
-    skip?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
-     * 
-     * Count returned VerificationTokens
-    **/
-    _count?: true | VerificationTokenCountAggregateInputType
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
-     * 
-     * Select which fields to find the minimum value
-    **/
-    _min?: VerificationTokenMinAggregateInputType
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
-     * 
-     * Select which fields to find the maximum value
-    **/
-    _max?: VerificationTokenMaxAggregateInputType
-  }
-
-  export type GetVerificationTokenAggregateType<T extends VerificationTokenAggregateArgs> = {
-        [P in keyof T & keyof AggregateVerificationToken]: P extends '_count' | 'count'
-      ? T[P] extends true
-        ? number
-        : GetScalarType<T[P], AggregateVerificationToken[P]>
-      : GetScalarType<T[P], AggregateVerificationToken[P]>
-  }
-
-
-
-
-  export type VerificationTokenGroupByArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    where?: VerificationTokenWhereInput
-    orderBy?: VerificationTokenOrderByWithAggregationInput | VerificationTokenOrderByWithAggregationInput[]
-    by: VerificationTokenScalarFieldEnum[] | VerificationTokenScalarFieldEnum
-    having?: VerificationTokenScalarWhereWithAggregatesInput
-    take?: number
-    skip?: number
-    _count?: VerificationTokenCountAggregateInputType | true
-    _min?: VerificationTokenMinAggregateInputType
-    _max?: VerificationTokenMaxAggregateInputType
-  }
-
-  export type VerificationTokenGroupByOutputType = {
-    identifier: string
-    token: string
-    expires: Date
-    _count: VerificationTokenCountAggregateOutputType | null
-    _min: VerificationTokenMinAggregateOutputType | null
-    _max: VerificationTokenMaxAggregateOutputType | null
-  }
-
-  type GetVerificationTokenGroupByPayload<T extends VerificationTokenGroupByArgs> = Prisma.PrismaPromise<
-    Array<
-      PickEnumerable<VerificationTokenGroupByOutputType, T['by']> &
-        {
-          [P in ((keyof T) & (keyof VerificationTokenGroupByOutputType))]: P extends '_count'
-            ? T[P] extends boolean
-              ? number
-              : GetScalarType<T[P], VerificationTokenGroupByOutputType[P]>
-            : GetScalarType<T[P], VerificationTokenGroupByOutputType[P]>
-        }
-      >
-    >
-
-
-  export type VerificationTokenSelect<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
-    identifier?: boolean
-    token?: boolean
-    expires?: boolean
-  }, ExtArgs["result"]["verificationToken"]>
-
-  export type VerificationTokenSelectCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
-    identifier?: boolean
-    token?: boolean
-    expires?: boolean
-  }, ExtArgs["result"]["verificationToken"]>
-
-  export type VerificationTokenSelectUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
-    identifier?: boolean
-    token?: boolean
-    expires?: boolean
-  }, ExtArgs["result"]["verificationToken"]>
-
-  export type VerificationTokenSelectScalar = {
-    identifier?: boolean
-    token?: boolean
-    expires?: boolean
-  }
-
-  export type VerificationTokenOmit<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetOmit<"identifier" | "token" | "expires", ExtArgs["result"]["verificationToken"]>
-
-  export type $VerificationTokenPayload<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    name: "VerificationToken"
-    objects: {}
-    scalars: $Extensions.GetPayloadResult<{
-      identifier: string
-      token: string
-      expires: Date
-    }, ExtArgs["result"]["verificationToken"]>
-    composites: {}
-  }
-
-  type VerificationTokenGetPayload<S extends boolean | null | undefined | VerificationTokenDefaultArgs> = $Result.GetResult<Prisma.$VerificationTokenPayload, S>
-
-  type VerificationTokenCountArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> =
-    Omit<VerificationTokenFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
-      select?: VerificationTokenCountAggregateInputType | true
-    }
-
-  export interface VerificationTokenDelegate<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> {
-    [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['VerificationToken'], meta: { name: 'VerificationToken' } }
-    /**
-     * Find zero or one VerificationToken that matches the filter.
-     * @param {VerificationTokenFindUniqueArgs} args - Arguments to find a VerificationToken
-     * @example
-     * // Get one VerificationToken
-     * const verificationToken = await prisma.verificationToken.findUnique({
-     *   where: {
-     *     // ... provide filter here
-     *   }
-     * })
-     */
-    findUnique<T extends VerificationTokenFindUniqueArgs>(args: SelectSubset<T, VerificationTokenFindUniqueArgs<ExtArgs>>): Prisma__VerificationTokenClient<$Result.GetResult<Prisma.$VerificationTokenPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Find one VerificationToken that matches the filter or throw an error with `error.code='P2025'`
-     * if no matches were found.
-     * @param {VerificationTokenFindUniqueOrThrowArgs} args - Arguments to find a VerificationToken
-     * @example
-     * // Get one VerificationToken
-     * const verificationToken = await prisma.verificationToken.findUniqueOrThrow({
-     *   where: {
-     *     // ... provide filter here
-     *   }
-     * })
-     */
-    findUniqueOrThrow<T extends VerificationTokenFindUniqueOrThrowArgs>(args: SelectSubset<T, VerificationTokenFindUniqueOrThrowArgs<ExtArgs>>): Prisma__VerificationTokenClient<$Result.GetResult<Prisma.$VerificationTokenPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Find the first VerificationToken that matches the filter.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {VerificationTokenFindFirstArgs} args - Arguments to find a VerificationToken
-     * @example
-     * // Get one VerificationToken
-     * const verificationToken = await prisma.verificationToken.findFirst({
-     *   where: {
-     *     // ... provide filter here
-     *   }
-     * })
-     */
-    findFirst<T extends VerificationTokenFindFirstArgs>(args?: SelectSubset<T, VerificationTokenFindFirstArgs<ExtArgs>>): Prisma__VerificationTokenClient<$Result.GetResult<Prisma.$VerificationTokenPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Find the first VerificationToken that matches the filter or
-     * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {VerificationTokenFindFirstOrThrowArgs} args - Arguments to find a VerificationToken
-     * @example
-     * // Get one VerificationToken
-     * const verificationToken = await prisma.verificationToken.findFirstOrThrow({
-     *   where: {
-     *     // ... provide filter here
-     *   }
-     * })
-     */
-    findFirstOrThrow<T extends VerificationTokenFindFirstOrThrowArgs>(args?: SelectSubset<T, VerificationTokenFindFirstOrThrowArgs<ExtArgs>>): Prisma__VerificationTokenClient<$Result.GetResult<Prisma.$VerificationTokenPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Find zero or more VerificationTokens that matches the filter.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {VerificationTokenFindManyArgs} args - Arguments to filter and select certain fields only.
-     * @example
-     * // Get all VerificationTokens
-     * const verificationTokens = await prisma.verificationToken.findMany()
-     * 
-     * // Get first 10 VerificationTokens
-     * const verificationTokens = await prisma.verificationToken.findMany({ take: 10 })
-     * 
-     * // Only select the `identifier`
-     * const verificationTokenWithIdentifierOnly = await prisma.verificationToken.findMany({ select: { identifier: true } })
-     * 
-     */
-    findMany<T extends VerificationTokenFindManyArgs>(args?: SelectSubset<T, VerificationTokenFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$VerificationTokenPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
-
-    /**
-     * Create a VerificationToken.
-     * @param {VerificationTokenCreateArgs} args - Arguments to create a VerificationToken.
-     * @example
-     * // Create one VerificationToken
-     * const VerificationToken = await prisma.verificationToken.create({
-     *   data: {
-     *     // ... data to create a VerificationToken
-     *   }
-     * })
-     * 
-     */
-    create<T extends VerificationTokenCreateArgs>(args: SelectSubset<T, VerificationTokenCreateArgs<ExtArgs>>): Prisma__VerificationTokenClient<$Result.GetResult<Prisma.$VerificationTokenPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Create many VerificationTokens.
-     * @param {VerificationTokenCreateManyArgs} args - Arguments to create many VerificationTokens.
-     * @example
-     * // Create many VerificationTokens
-     * const verificationToken = await prisma.verificationToken.createMany({
-     *   data: [
-     *     // ... provide data here
-     *   ]
-     * })
-     *     
-     */
-    createMany<T extends VerificationTokenCreateManyArgs>(args?: SelectSubset<T, VerificationTokenCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
-
-    /**
-     * Create many VerificationTokens and returns the data saved in the database.
-     * @param {VerificationTokenCreateManyAndReturnArgs} args - Arguments to create many VerificationTokens.
-     * @example
-     * // Create many VerificationTokens
-     * const verificationToken = await prisma.verificationToken.createManyAndReturn({
-     *   data: [
-     *     // ... provide data here
-     *   ]
-     * })
-     * 
-     * // Create many VerificationTokens and only return the `identifier`
-     * const verificationTokenWithIdentifierOnly = await prisma.verificationToken.createManyAndReturn({
-     *   select: { identifier: true },
-     *   data: [
-     *     // ... provide data here
-     *   ]
-     * })
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * 
-     */
-    createManyAndReturn<T extends VerificationTokenCreateManyAndReturnArgs>(args?: SelectSubset<T, VerificationTokenCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$VerificationTokenPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
-
-    /**
-     * Delete a VerificationToken.
-     * @param {VerificationTokenDeleteArgs} args - Arguments to delete one VerificationToken.
-     * @example
-     * // Delete one VerificationToken
-     * const VerificationToken = await prisma.verificationToken.delete({
-     *   where: {
-     *     // ... filter to delete one VerificationToken
-     *   }
-     * })
-     * 
-     */
-    delete<T extends VerificationTokenDeleteArgs>(args: SelectSubset<T, VerificationTokenDeleteArgs<ExtArgs>>): Prisma__VerificationTokenClient<$Result.GetResult<Prisma.$VerificationTokenPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Update one VerificationToken.
-     * @param {VerificationTokenUpdateArgs} args - Arguments to update one VerificationToken.
-     * @example
-     * // Update one VerificationToken
-     * const verificationToken = await prisma.verificationToken.update({
-     *   where: {
-     *     // ... provide filter here
-     *   },
-     *   data: {
-     *     // ... provide data here
-     *   }
-     * })
-     * 
-     */
-    update<T extends VerificationTokenUpdateArgs>(args: SelectSubset<T, VerificationTokenUpdateArgs<ExtArgs>>): Prisma__VerificationTokenClient<$Result.GetResult<Prisma.$VerificationTokenPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Delete zero or more VerificationTokens.
-     * @param {VerificationTokenDeleteManyArgs} args - Arguments to filter VerificationTokens to delete.
-     * @example
-     * // Delete a few VerificationTokens
-     * const { count } = await prisma.verificationToken.deleteMany({
-     *   where: {
-     *     // ... provide filter here
-     *   }
-     * })
-     * 
-     */
-    deleteMany<T extends VerificationTokenDeleteManyArgs>(args?: SelectSubset<T, VerificationTokenDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
-
-    /**
-     * Update zero or more VerificationTokens.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {VerificationTokenUpdateManyArgs} args - Arguments to update one or more rows.
-     * @example
-     * // Update many VerificationTokens
-     * const verificationToken = await prisma.verificationToken.updateMany({
-     *   where: {
-     *     // ... provide filter here
-     *   },
-     *   data: {
-     *     // ... provide data here
-     *   }
-     * })
-     * 
-     */
-    updateMany<T extends VerificationTokenUpdateManyArgs>(args: SelectSubset<T, VerificationTokenUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
-
-    /**
-     * Update zero or more VerificationTokens and returns the data updated in the database.
-     * @param {VerificationTokenUpdateManyAndReturnArgs} args - Arguments to update many VerificationTokens.
-     * @example
-     * // Update many VerificationTokens
-     * const verificationToken = await prisma.verificationToken.updateManyAndReturn({
-     *   where: {
-     *     // ... provide filter here
-     *   },
-     *   data: [
-     *     // ... provide data here
-     *   ]
-     * })
-     * 
-     * // Update zero or more VerificationTokens and only return the `identifier`
-     * const verificationTokenWithIdentifierOnly = await prisma.verificationToken.updateManyAndReturn({
-     *   select: { identifier: true },
-     *   where: {
-     *     // ... provide filter here
-     *   },
-     *   data: [
-     *     // ... provide data here
-     *   ]
-     * })
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * 
-     */
-    updateManyAndReturn<T extends VerificationTokenUpdateManyAndReturnArgs>(args: SelectSubset<T, VerificationTokenUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$VerificationTokenPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
-
-    /**
-     * Create or update one VerificationToken.
-     * @param {VerificationTokenUpsertArgs} args - Arguments to update or create a VerificationToken.
-     * @example
-     * // Update or create a VerificationToken
-     * const verificationToken = await prisma.verificationToken.upsert({
-     *   create: {
-     *     // ... data to create a VerificationToken
-     *   },
-     *   update: {
-     *     // ... in case it already exists, update
-     *   },
-     *   where: {
-     *     // ... the filter for the VerificationToken we want to update
-     *   }
-     * })
-     */
-    upsert<T extends VerificationTokenUpsertArgs>(args: SelectSubset<T, VerificationTokenUpsertArgs<ExtArgs>>): Prisma__VerificationTokenClient<$Result.GetResult<Prisma.$VerificationTokenPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-
-    /**
-     * Count the number of VerificationTokens.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {VerificationTokenCountArgs} args - Arguments to filter VerificationTokens to count.
-     * @example
-     * // Count the number of VerificationTokens
-     * const count = await prisma.verificationToken.count({
-     *   where: {
-     *     // ... the filter for the VerificationTokens we want to count
-     *   }
-     * })
-    **/
-    count<T extends VerificationTokenCountArgs>(
-      args?: Subset<T, VerificationTokenCountArgs>,
-    ): Prisma.PrismaPromise<
-      T extends $Utils.Record<'select', any>
-        ? T['select'] extends true
-          ? number
-          : GetScalarType<T['select'], VerificationTokenCountAggregateOutputType>
-        : number
-    >
-
-    /**
-     * Allows you to perform aggregations operations on a VerificationToken.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {VerificationTokenAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
-     * @example
-     * // Ordered by age ascending
-     * // Where email contains prisma.io
-     * // Limited to the 10 users
-     * const aggregations = await prisma.user.aggregate({
-     *   _avg: {
-     *     age: true,
-     *   },
-     *   where: {
-     *     email: {
-     *       contains: "prisma.io",
-     *     },
-     *   },
-     *   orderBy: {
-     *     age: "asc",
-     *   },
-     *   take: 10,
-     * })
-    **/
-    aggregate<T extends VerificationTokenAggregateArgs>(args: Subset<T, VerificationTokenAggregateArgs>): Prisma.PrismaPromise<GetVerificationTokenAggregateType<T>>
-
-    /**
-     * Group by VerificationToken.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {VerificationTokenGroupByArgs} args - Group by arguments.
-     * @example
-     * // Group by city, order by createdAt, get count
-     * const result = await prisma.user.groupBy({
-     *   by: ['city', 'createdAt'],
-     *   orderBy: {
-     *     createdAt: true
-     *   },
-     *   _count: {
-     *     _all: true
-     *   },
-     * })
-     * 
-    **/
-    groupBy<
-      T extends VerificationTokenGroupByArgs,
-      HasSelectOrTake extends Or<
-        Extends<'skip', Keys<T>>,
-        Extends<'take', Keys<T>>
-      >,
-      OrderByArg extends True extends HasSelectOrTake
-        ? { orderBy: VerificationTokenGroupByArgs['orderBy'] }
-        : { orderBy?: VerificationTokenGroupByArgs['orderBy'] },
-      OrderFields extends ExcludeUnderscoreKeys<Keys<MaybeTupleToUnion<T['orderBy']>>>,
-      ByFields extends MaybeTupleToUnion<T['by']>,
-      ByValid extends Has<ByFields, OrderFields>,
-      HavingFields extends GetHavingFields<T['having']>,
-      HavingValid extends Has<ByFields, HavingFields>,
-      ByEmpty extends T['by'] extends never[] ? True : False,
-      InputErrors extends ByEmpty extends True
-      ? `Error: "by" must not be empty.`
-      : HavingValid extends False
-      ? {
-          [P in HavingFields]: P extends ByFields
-            ? never
-            : P extends string
-            ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
-            : [
-                Error,
-                'Field ',
-                P,
-                ` in "having" needs to be provided in "by"`,
-              ]
-        }[HavingFields]
-      : 'take' extends Keys<T>
-      ? 'orderBy' extends Keys<T>
-        ? ByValid extends True
-          ? {}
-          : {
-              [P in OrderFields]: P extends ByFields
-                ? never
-                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
-            }[OrderFields]
-        : 'Error: If you provide "take", you also need to provide "orderBy"'
-      : 'skip' extends Keys<T>
-      ? 'orderBy' extends Keys<T>
-        ? ByValid extends True
-          ? {}
-          : {
-              [P in OrderFields]: P extends ByFields
-                ? never
-                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
-            }[OrderFields]
-        : 'Error: If you provide "skip", you also need to provide "orderBy"'
-      : ByValid extends True
-      ? {}
-      : {
-          [P in OrderFields]: P extends ByFields
-            ? never
-            : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
-        }[OrderFields]
-    >(args: SubsetIntersection<T, VerificationTokenGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetVerificationTokenGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
-  /**
-   * Fields of the VerificationToken model
-   */
-  readonly fields: VerificationTokenFieldRefs;
-  }
-
-  /**
-   * The delegate class that acts as a "Promise-like" for VerificationToken.
-   * Why is this prefixed with `Prisma__`?
-   * Because we want to prevent naming conflicts as mentioned in
-   * https://github.com/prisma/prisma-client-js/issues/707
-   */
-  export interface Prisma__VerificationTokenClient<T, Null = never, ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
-    readonly [Symbol.toStringTag]: "PrismaPromise"
-    /**
-     * Attaches callbacks for the resolution and/or rejection of the Promise.
-     * @param onfulfilled The callback to execute when the Promise is resolved.
-     * @param onrejected The callback to execute when the Promise is rejected.
-     * @returns A Promise for the completion of which ever callback is executed.
-     */
-    then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): $Utils.JsPromise<TResult1 | TResult2>
-    /**
-     * Attaches a callback for only the rejection of the Promise.
-     * @param onrejected The callback to execute when the Promise is rejected.
-     * @returns A Promise for the completion of the callback.
-     */
-    catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): $Utils.JsPromise<T | TResult>
-    /**
-     * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
-     * resolved value cannot be modified from the callback.
-     * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
-     * @returns A Promise for the completion of the callback.
-     */
-    finally(onfinally?: (() => void) | undefined | null): $Utils.JsPromise<T>
-  }
-
-
-
-
-  /**
-   * Fields of the VerificationToken model
-   */
-  interface VerificationTokenFieldRefs {
-    readonly identifier: FieldRef<"VerificationToken", 'String'>
-    readonly token: FieldRef<"VerificationToken", 'String'>
-    readonly expires: FieldRef<"VerificationToken", 'DateTime'>
-  }
-    
-
-  // Custom InputTypes
-  /**
-   * VerificationToken findUnique
-   */
-  export type VerificationTokenFindUniqueArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the VerificationToken
-     */
-    select?: VerificationTokenSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the VerificationToken
-     */
-    omit?: VerificationTokenOmit<ExtArgs> | null
-    /**
-     * Filter, which VerificationToken to fetch.
-     */
-    where: VerificationTokenWhereUniqueInput
-  }
-
-  /**
-   * VerificationToken findUniqueOrThrow
-   */
-  export type VerificationTokenFindUniqueOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the VerificationToken
-     */
-    select?: VerificationTokenSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the VerificationToken
-     */
-    omit?: VerificationTokenOmit<ExtArgs> | null
-    /**
-     * Filter, which VerificationToken to fetch.
-     */
-    where: VerificationTokenWhereUniqueInput
-  }
-
-  /**
-   * VerificationToken findFirst
-   */
-  export type VerificationTokenFindFirstArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the VerificationToken
-     */
-    select?: VerificationTokenSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the VerificationToken
-     */
-    omit?: VerificationTokenOmit<ExtArgs> | null
-    /**
-     * Filter, which VerificationToken to fetch.
-     */
-    where?: VerificationTokenWhereInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
-     * 
-     * Determine the order of VerificationTokens to fetch.
-     */
-    orderBy?: VerificationTokenOrderByWithRelationInput | VerificationTokenOrderByWithRelationInput[]
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
-     * 
-     * Sets the position for searching for VerificationTokens.
-     */
-    cursor?: VerificationTokenWhereUniqueInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Take `±n` VerificationTokens from the position of the cursor.
-     */
-    take?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Skip the first `n` VerificationTokens.
-     */
-    skip?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
-     * 
-     * Filter by unique combinations of VerificationTokens.
-     */
-    distinct?: VerificationTokenScalarFieldEnum | VerificationTokenScalarFieldEnum[]
-  }
-
-  /**
-   * VerificationToken findFirstOrThrow
-   */
-  export type VerificationTokenFindFirstOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the VerificationToken
-     */
-    select?: VerificationTokenSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the VerificationToken
-     */
-    omit?: VerificationTokenOmit<ExtArgs> | null
-    /**
-     * Filter, which VerificationToken to fetch.
-     */
-    where?: VerificationTokenWhereInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
-     * 
-     * Determine the order of VerificationTokens to fetch.
-     */
-    orderBy?: VerificationTokenOrderByWithRelationInput | VerificationTokenOrderByWithRelationInput[]
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
-     * 
-     * Sets the position for searching for VerificationTokens.
-     */
-    cursor?: VerificationTokenWhereUniqueInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Take `±n` VerificationTokens from the position of the cursor.
-     */
-    take?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Skip the first `n` VerificationTokens.
-     */
-    skip?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
-     * 
-     * Filter by unique combinations of VerificationTokens.
-     */
-    distinct?: VerificationTokenScalarFieldEnum | VerificationTokenScalarFieldEnum[]
-  }
-
-  /**
-   * VerificationToken findMany
-   */
-  export type VerificationTokenFindManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the VerificationToken
-     */
-    select?: VerificationTokenSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the VerificationToken
-     */
-    omit?: VerificationTokenOmit<ExtArgs> | null
-    /**
-     * Filter, which VerificationTokens to fetch.
-     */
-    where?: VerificationTokenWhereInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
-     * 
-     * Determine the order of VerificationTokens to fetch.
-     */
-    orderBy?: VerificationTokenOrderByWithRelationInput | VerificationTokenOrderByWithRelationInput[]
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
-     * 
-     * Sets the position for listing VerificationTokens.
-     */
-    cursor?: VerificationTokenWhereUniqueInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Take `±n` VerificationTokens from the position of the cursor.
-     */
-    take?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Skip the first `n` VerificationTokens.
-     */
-    skip?: number
-    distinct?: VerificationTokenScalarFieldEnum | VerificationTokenScalarFieldEnum[]
-  }
-
-  /**
-   * VerificationToken create
-   */
-  export type VerificationTokenCreateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the VerificationToken
-     */
-    select?: VerificationTokenSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the VerificationToken
-     */
-    omit?: VerificationTokenOmit<ExtArgs> | null
-    /**
-     * The data needed to create a VerificationToken.
-     */
-    data: XOR<VerificationTokenCreateInput, VerificationTokenUncheckedCreateInput>
-  }
-
-  /**
-   * VerificationToken createMany
-   */
-  export type VerificationTokenCreateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * The data used to create many VerificationTokens.
-     */
-    data: VerificationTokenCreateManyInput | VerificationTokenCreateManyInput[]
-    skipDuplicates?: boolean
-  }
-
-  /**
-   * VerificationToken createManyAndReturn
-   */
-  export type VerificationTokenCreateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the VerificationToken
-     */
-    select?: VerificationTokenSelectCreateManyAndReturn<ExtArgs> | null
-    /**
-     * Omit specific fields from the VerificationToken
-     */
-    omit?: VerificationTokenOmit<ExtArgs> | null
-    /**
-     * The data used to create many VerificationTokens.
-     */
-    data: VerificationTokenCreateManyInput | VerificationTokenCreateManyInput[]
-    skipDuplicates?: boolean
-  }
-
-  /**
-   * VerificationToken update
-   */
-  export type VerificationTokenUpdateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the VerificationToken
-     */
-    select?: VerificationTokenSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the VerificationToken
-     */
-    omit?: VerificationTokenOmit<ExtArgs> | null
-    /**
-     * The data needed to update a VerificationToken.
-     */
-    data: XOR<VerificationTokenUpdateInput, VerificationTokenUncheckedUpdateInput>
-    /**
-     * Choose, which VerificationToken to update.
-     */
-    where: VerificationTokenWhereUniqueInput
-  }
-
-  /**
-   * VerificationToken updateMany
-   */
-  export type VerificationTokenUpdateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * The data used to update VerificationTokens.
-     */
-    data: XOR<VerificationTokenUpdateManyMutationInput, VerificationTokenUncheckedUpdateManyInput>
-    /**
-     * Filter which VerificationTokens to update
-     */
-    where?: VerificationTokenWhereInput
-    /**
-     * Limit how many VerificationTokens to update.
-     */
-    limit?: number
-  }
-
-  /**
-   * VerificationToken updateManyAndReturn
-   */
-  export type VerificationTokenUpdateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the VerificationToken
-     */
-    select?: VerificationTokenSelectUpdateManyAndReturn<ExtArgs> | null
-    /**
-     * Omit specific fields from the VerificationToken
-     */
-    omit?: VerificationTokenOmit<ExtArgs> | null
-    /**
-     * The data used to update VerificationTokens.
-     */
-    data: XOR<VerificationTokenUpdateManyMutationInput, VerificationTokenUncheckedUpdateManyInput>
-    /**
-     * Filter which VerificationTokens to update
-     */
-    where?: VerificationTokenWhereInput
-    /**
-     * Limit how many VerificationTokens to update.
-     */
-    limit?: number
-  }
-
-  /**
-   * VerificationToken upsert
-   */
-  export type VerificationTokenUpsertArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the VerificationToken
-     */
-    select?: VerificationTokenSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the VerificationToken
-     */
-    omit?: VerificationTokenOmit<ExtArgs> | null
-    /**
-     * The filter to search for the VerificationToken to update in case it exists.
-     */
-    where: VerificationTokenWhereUniqueInput
-    /**
-     * In case the VerificationToken found by the `where` argument doesn't exist, create a new VerificationToken with this data.
-     */
-    create: XOR<VerificationTokenCreateInput, VerificationTokenUncheckedCreateInput>
-    /**
-     * In case the VerificationToken was found with the provided `where` argument, update it with this data.
-     */
-    update: XOR<VerificationTokenUpdateInput, VerificationTokenUncheckedUpdateInput>
-  }
-
-  /**
-   * VerificationToken delete
-   */
-  export type VerificationTokenDeleteArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the VerificationToken
-     */
-    select?: VerificationTokenSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the VerificationToken
-     */
-    omit?: VerificationTokenOmit<ExtArgs> | null
-    /**
-     * Filter which VerificationToken to delete.
-     */
-    where: VerificationTokenWhereUniqueInput
-  }
-
-  /**
-   * VerificationToken deleteMany
-   */
-  export type VerificationTokenDeleteManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Filter which VerificationTokens to delete
-     */
-    where?: VerificationTokenWhereInput
-    /**
-     * Limit how many VerificationTokens to delete.
-     */
-    limit?: number
-  }
-
-  /**
-   * VerificationToken without action
-   */
-  export type VerificationTokenDefaultArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the VerificationToken
-     */
-    select?: VerificationTokenSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the VerificationToken
-     */
-    omit?: VerificationTokenOmit<ExtArgs> | null
-  }
-
-
-  /**
-   * Model Receipt
-   */
-
-  export type AggregateReceipt = {
-    _count: ReceiptCountAggregateOutputType | null
-    _avg: ReceiptAvgAggregateOutputType | null
-    _sum: ReceiptSumAggregateOutputType | null
-    _min: ReceiptMinAggregateOutputType | null
-    _max: ReceiptMaxAggregateOutputType | null
-  }
-
-  export type ReceiptAvgAggregateOutputType = {
-    severity: number | null
-    queuePosition: number | null
-  }
-
-  export type ReceiptSumAggregateOutputType = {
-    severity: number | null
-    queuePosition: number | null
-  }
-
-  export type ReceiptMinAggregateOutputType = {
-    id: string | null
-    userId: string | null
-    imageUrl: string | null
-    uploatedAt: Date | null
-    processedAt: Date | null
-    condition: string | null
-    severity: number | null
-    hospitalId: string | null
-    status: $Enums.ReceiptStatus | null
-    queuePosition: number | null
-    aiAnalysis: string | null
-    doctorId: string | null
-  }
-
-  export type ReceiptMaxAggregateOutputType = {
-    id: string | null
-    userId: string | null
-    imageUrl: string | null
-    uploatedAt: Date | null
-    processedAt: Date | null
-    condition: string | null
-    severity: number | null
-    hospitalId: string | null
-    status: $Enums.ReceiptStatus | null
-    queuePosition: number | null
-    aiAnalysis: string | null
-    doctorId: string | null
-  }
-
-  export type ReceiptCountAggregateOutputType = {
-    id: number
-    userId: number
-    imageUrl: number
-    uploatedAt: number
-    processedAt: number
-    condition: number
-    severity: number
-    hospitalId: number
-    status: number
-    queuePosition: number
-    aiAnalysis: number
-    doctorId: number
-    _all: number
-  }
-
-
-  export type ReceiptAvgAggregateInputType = {
-    severity?: true
-    queuePosition?: true
-  }
-
-  export type ReceiptSumAggregateInputType = {
-    severity?: true
-    queuePosition?: true
-  }
-
-  export type ReceiptMinAggregateInputType = {
-    id?: true
-    userId?: true
-    imageUrl?: true
-    uploatedAt?: true
-    processedAt?: true
-    condition?: true
-    severity?: true
-    hospitalId?: true
-    status?: true
-    queuePosition?: true
-    aiAnalysis?: true
-    doctorId?: true
-  }
-
-  export type ReceiptMaxAggregateInputType = {
-    id?: true
-    userId?: true
-    imageUrl?: true
-    uploatedAt?: true
-    processedAt?: true
-    condition?: true
-    severity?: true
-    hospitalId?: true
-    status?: true
-    queuePosition?: true
-    aiAnalysis?: true
-    doctorId?: true
-  }
-
-  export type ReceiptCountAggregateInputType = {
-    id?: true
-    userId?: true
-    imageUrl?: true
-    uploatedAt?: true
-    processedAt?: true
-    condition?: true
-    severity?: true
-    hospitalId?: true
-    status?: true
-    queuePosition?: true
-    aiAnalysis?: true
-    doctorId?: true
-    _all?: true
-  }
-
-  export type ReceiptAggregateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Filter which Receipt to aggregate.
-     */
-    where?: ReceiptWhereInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
-     * 
-     * Determine the order of Receipts to fetch.
-     */
-    orderBy?: ReceiptOrderByWithRelationInput | ReceiptOrderByWithRelationInput[]
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
-     * 
-     * Sets the start position
-     */
-    cursor?: ReceiptWhereUniqueInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Take `±n` Receipts from the position of the cursor.
-     */
-    take?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Skip the first `n` Receipts.
-     */
-    skip?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
-     * 
-     * Count returned Receipts
-    **/
-    _count?: true | ReceiptCountAggregateInputType
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
-     * 
-     * Select which fields to average
-    **/
-    _avg?: ReceiptAvgAggregateInputType
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
-     * 
-     * Select which fields to sum
-    **/
-    _sum?: ReceiptSumAggregateInputType
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
-     * 
-     * Select which fields to find the minimum value
-    **/
-    _min?: ReceiptMinAggregateInputType
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
-     * 
-     * Select which fields to find the maximum value
-    **/
-    _max?: ReceiptMaxAggregateInputType
-  }
-
-  export type GetReceiptAggregateType<T extends ReceiptAggregateArgs> = {
-        [P in keyof T & keyof AggregateReceipt]: P extends '_count' | 'count'
-      ? T[P] extends true
-        ? number
-        : GetScalarType<T[P], AggregateReceipt[P]>
-      : GetScalarType<T[P], AggregateReceipt[P]>
-  }
-
-
-
-
-  export type ReceiptGroupByArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    where?: ReceiptWhereInput
-    orderBy?: ReceiptOrderByWithAggregationInput | ReceiptOrderByWithAggregationInput[]
-    by: ReceiptScalarFieldEnum[] | ReceiptScalarFieldEnum
-    having?: ReceiptScalarWhereWithAggregatesInput
-    take?: number
-    skip?: number
-    _count?: ReceiptCountAggregateInputType | true
-    _avg?: ReceiptAvgAggregateInputType
-    _sum?: ReceiptSumAggregateInputType
-    _min?: ReceiptMinAggregateInputType
-    _max?: ReceiptMaxAggregateInputType
-  }
-
-  export type ReceiptGroupByOutputType = {
-    id: string
-    userId: string
-    imageUrl: string
-    uploatedAt: Date
-    processedAt: Date | null
-    condition: string | null
-    severity: number | null
-    hospitalId: string | null
-    status: $Enums.ReceiptStatus
-    queuePosition: number | null
-    aiAnalysis: string | null
-    doctorId: string | null
-    _count: ReceiptCountAggregateOutputType | null
-    _avg: ReceiptAvgAggregateOutputType | null
-    _sum: ReceiptSumAggregateOutputType | null
-    _min: ReceiptMinAggregateOutputType | null
-    _max: ReceiptMaxAggregateOutputType | null
-  }
-
-  type GetReceiptGroupByPayload<T extends ReceiptGroupByArgs> = Prisma.PrismaPromise<
-    Array<
-      PickEnumerable<ReceiptGroupByOutputType, T['by']> &
-        {
-          [P in ((keyof T) & (keyof ReceiptGroupByOutputType))]: P extends '_count'
-            ? T[P] extends boolean
-              ? number
-              : GetScalarType<T[P], ReceiptGroupByOutputType[P]>
-            : GetScalarType<T[P], ReceiptGroupByOutputType[P]>
-        }
-      >
-    >
-
-
-  export type ReceiptSelect<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
-    id?: boolean
-    userId?: boolean
-    imageUrl?: boolean
-    uploatedAt?: boolean
-    processedAt?: boolean
-    condition?: boolean
-    severity?: boolean
-    hospitalId?: boolean
-    status?: boolean
-    queuePosition?: boolean
-    aiAnalysis?: boolean
-    doctorId?: boolean
-    doctor?: boolean | Receipt$doctorArgs<ExtArgs>
-    hospital?: boolean | Receipt$hospitalArgs<ExtArgs>
-    user?: boolean | UserDefaultArgs<ExtArgs>
-  }, ExtArgs["result"]["receipt"]>
-
-  export type ReceiptSelectCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
-    id?: boolean
-    userId?: boolean
-    imageUrl?: boolean
-    uploatedAt?: boolean
-    processedAt?: boolean
-    condition?: boolean
-    severity?: boolean
-    hospitalId?: boolean
-    status?: boolean
-    queuePosition?: boolean
-    aiAnalysis?: boolean
-    doctorId?: boolean
-    doctor?: boolean | Receipt$doctorArgs<ExtArgs>
-    hospital?: boolean | Receipt$hospitalArgs<ExtArgs>
-    user?: boolean | UserDefaultArgs<ExtArgs>
-  }, ExtArgs["result"]["receipt"]>
-
-  export type ReceiptSelectUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
-    id?: boolean
-    userId?: boolean
-    imageUrl?: boolean
-    uploatedAt?: boolean
-    processedAt?: boolean
-    condition?: boolean
-    severity?: boolean
-    hospitalId?: boolean
-    status?: boolean
-    queuePosition?: boolean
-    aiAnalysis?: boolean
-    doctorId?: boolean
-    doctor?: boolean | Receipt$doctorArgs<ExtArgs>
-    hospital?: boolean | Receipt$hospitalArgs<ExtArgs>
-    user?: boolean | UserDefaultArgs<ExtArgs>
-  }, ExtArgs["result"]["receipt"]>
-
-  export type ReceiptSelectScalar = {
-    id?: boolean
-    userId?: boolean
-    imageUrl?: boolean
-    uploatedAt?: boolean
-    processedAt?: boolean
-    condition?: boolean
-    severity?: boolean
-    hospitalId?: boolean
-    status?: boolean
-    queuePosition?: boolean
-    aiAnalysis?: boolean
-    doctorId?: boolean
-  }
-
-  export type ReceiptOmit<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetOmit<"id" | "userId" | "imageUrl" | "uploatedAt" | "processedAt" | "condition" | "severity" | "hospitalId" | "status" | "queuePosition" | "aiAnalysis" | "doctorId", ExtArgs["result"]["receipt"]>
-  export type ReceiptInclude<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    doctor?: boolean | Receipt$doctorArgs<ExtArgs>
-    hospital?: boolean | Receipt$hospitalArgs<ExtArgs>
-    user?: boolean | UserDefaultArgs<ExtArgs>
-  }
-  export type ReceiptIncludeCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    doctor?: boolean | Receipt$doctorArgs<ExtArgs>
-    hospital?: boolean | Receipt$hospitalArgs<ExtArgs>
-    user?: boolean | UserDefaultArgs<ExtArgs>
-  }
-  export type ReceiptIncludeUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    doctor?: boolean | Receipt$doctorArgs<ExtArgs>
-    hospital?: boolean | Receipt$hospitalArgs<ExtArgs>
-    user?: boolean | UserDefaultArgs<ExtArgs>
-  }
-
-  export type $ReceiptPayload<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    name: "Receipt"
-    objects: {
-      doctor: Prisma.$DoctorPayload<ExtArgs> | null
-      hospital: Prisma.$HospitalPayload<ExtArgs> | null
-      user: Prisma.$UserPayload<ExtArgs>
-    }
-    scalars: $Extensions.GetPayloadResult<{
-      id: string
-      userId: string
-      imageUrl: string
-      uploatedAt: Date
-      processedAt: Date | null
-      condition: string | null
-      severity: number | null
-      hospitalId: string | null
-      status: $Enums.ReceiptStatus
-      queuePosition: number | null
-      aiAnalysis: string | null
-      doctorId: string | null
-    }, ExtArgs["result"]["receipt"]>
-    composites: {}
-  }
-
-  type ReceiptGetPayload<S extends boolean | null | undefined | ReceiptDefaultArgs> = $Result.GetResult<Prisma.$ReceiptPayload, S>
-
-  type ReceiptCountArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> =
-    Omit<ReceiptFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
-      select?: ReceiptCountAggregateInputType | true
-    }
-
-  export interface ReceiptDelegate<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> {
-    [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['Receipt'], meta: { name: 'Receipt' } }
-    /**
-     * Find zero or one Receipt that matches the filter.
-     * @param {ReceiptFindUniqueArgs} args - Arguments to find a Receipt
-     * @example
-     * // Get one Receipt
-     * const receipt = await prisma.receipt.findUnique({
-     *   where: {
-     *     // ... provide filter here
-     *   }
-     * })
-     */
-    findUnique<T extends ReceiptFindUniqueArgs>(args: SelectSubset<T, ReceiptFindUniqueArgs<ExtArgs>>): Prisma__ReceiptClient<$Result.GetResult<Prisma.$ReceiptPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Find one Receipt that matches the filter or throw an error with `error.code='P2025'`
-     * if no matches were found.
-     * @param {ReceiptFindUniqueOrThrowArgs} args - Arguments to find a Receipt
-     * @example
-     * // Get one Receipt
-     * const receipt = await prisma.receipt.findUniqueOrThrow({
-     *   where: {
-     *     // ... provide filter here
-     *   }
-     * })
-     */
-    findUniqueOrThrow<T extends ReceiptFindUniqueOrThrowArgs>(args: SelectSubset<T, ReceiptFindUniqueOrThrowArgs<ExtArgs>>): Prisma__ReceiptClient<$Result.GetResult<Prisma.$ReceiptPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Find the first Receipt that matches the filter.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {ReceiptFindFirstArgs} args - Arguments to find a Receipt
-     * @example
-     * // Get one Receipt
-     * const receipt = await prisma.receipt.findFirst({
-     *   where: {
-     *     // ... provide filter here
-     *   }
-     * })
-     */
-    findFirst<T extends ReceiptFindFirstArgs>(args?: SelectSubset<T, ReceiptFindFirstArgs<ExtArgs>>): Prisma__ReceiptClient<$Result.GetResult<Prisma.$ReceiptPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Find the first Receipt that matches the filter or
-     * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {ReceiptFindFirstOrThrowArgs} args - Arguments to find a Receipt
-     * @example
-     * // Get one Receipt
-     * const receipt = await prisma.receipt.findFirstOrThrow({
-     *   where: {
-     *     // ... provide filter here
-     *   }
-     * })
-     */
-    findFirstOrThrow<T extends ReceiptFindFirstOrThrowArgs>(args?: SelectSubset<T, ReceiptFindFirstOrThrowArgs<ExtArgs>>): Prisma__ReceiptClient<$Result.GetResult<Prisma.$ReceiptPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Find zero or more Receipts that matches the filter.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {ReceiptFindManyArgs} args - Arguments to filter and select certain fields only.
-     * @example
-     * // Get all Receipts
-     * const receipts = await prisma.receipt.findMany()
-     * 
-     * // Get first 10 Receipts
-     * const receipts = await prisma.receipt.findMany({ take: 10 })
-     * 
-     * // Only select the `id`
-     * const receiptWithIdOnly = await prisma.receipt.findMany({ select: { id: true } })
-     * 
-     */
-    findMany<T extends ReceiptFindManyArgs>(args?: SelectSubset<T, ReceiptFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$ReceiptPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
-
-    /**
-     * Create a Receipt.
-     * @param {ReceiptCreateArgs} args - Arguments to create a Receipt.
-     * @example
-     * // Create one Receipt
-     * const Receipt = await prisma.receipt.create({
-     *   data: {
-     *     // ... data to create a Receipt
-     *   }
-     * })
-     * 
-     */
-    create<T extends ReceiptCreateArgs>(args: SelectSubset<T, ReceiptCreateArgs<ExtArgs>>): Prisma__ReceiptClient<$Result.GetResult<Prisma.$ReceiptPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Create many Receipts.
-     * @param {ReceiptCreateManyArgs} args - Arguments to create many Receipts.
-     * @example
-     * // Create many Receipts
-     * const receipt = await prisma.receipt.createMany({
-     *   data: [
-     *     // ... provide data here
-     *   ]
-     * })
-     *     
-     */
-    createMany<T extends ReceiptCreateManyArgs>(args?: SelectSubset<T, ReceiptCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
-
-    /**
-     * Create many Receipts and returns the data saved in the database.
-     * @param {ReceiptCreateManyAndReturnArgs} args - Arguments to create many Receipts.
-     * @example
-     * // Create many Receipts
-     * const receipt = await prisma.receipt.createManyAndReturn({
-     *   data: [
-     *     // ... provide data here
-     *   ]
-     * })
-     * 
-     * // Create many Receipts and only return the `id`
-     * const receiptWithIdOnly = await prisma.receipt.createManyAndReturn({
-     *   select: { id: true },
-     *   data: [
-     *     // ... provide data here
-     *   ]
-     * })
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * 
-     */
-    createManyAndReturn<T extends ReceiptCreateManyAndReturnArgs>(args?: SelectSubset<T, ReceiptCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$ReceiptPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
-
-    /**
-     * Delete a Receipt.
-     * @param {ReceiptDeleteArgs} args - Arguments to delete one Receipt.
-     * @example
-     * // Delete one Receipt
-     * const Receipt = await prisma.receipt.delete({
-     *   where: {
-     *     // ... filter to delete one Receipt
-     *   }
-     * })
-     * 
-     */
-    delete<T extends ReceiptDeleteArgs>(args: SelectSubset<T, ReceiptDeleteArgs<ExtArgs>>): Prisma__ReceiptClient<$Result.GetResult<Prisma.$ReceiptPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Update one Receipt.
-     * @param {ReceiptUpdateArgs} args - Arguments to update one Receipt.
-     * @example
-     * // Update one Receipt
-     * const receipt = await prisma.receipt.update({
-     *   where: {
-     *     // ... provide filter here
-     *   },
-     *   data: {
-     *     // ... provide data here
-     *   }
-     * })
-     * 
-     */
-    update<T extends ReceiptUpdateArgs>(args: SelectSubset<T, ReceiptUpdateArgs<ExtArgs>>): Prisma__ReceiptClient<$Result.GetResult<Prisma.$ReceiptPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Delete zero or more Receipts.
-     * @param {ReceiptDeleteManyArgs} args - Arguments to filter Receipts to delete.
-     * @example
-     * // Delete a few Receipts
-     * const { count } = await prisma.receipt.deleteMany({
-     *   where: {
-     *     // ... provide filter here
-     *   }
-     * })
-     * 
-     */
-    deleteMany<T extends ReceiptDeleteManyArgs>(args?: SelectSubset<T, ReceiptDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
-
-    /**
-     * Update zero or more Receipts.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {ReceiptUpdateManyArgs} args - Arguments to update one or more rows.
-     * @example
-     * // Update many Receipts
-     * const receipt = await prisma.receipt.updateMany({
-     *   where: {
-     *     // ... provide filter here
-     *   },
-     *   data: {
-     *     // ... provide data here
-     *   }
-     * })
-     * 
-     */
-    updateMany<T extends ReceiptUpdateManyArgs>(args: SelectSubset<T, ReceiptUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
-
-    /**
-     * Update zero or more Receipts and returns the data updated in the database.
-     * @param {ReceiptUpdateManyAndReturnArgs} args - Arguments to update many Receipts.
-     * @example
-     * // Update many Receipts
-     * const receipt = await prisma.receipt.updateManyAndReturn({
-     *   where: {
-     *     // ... provide filter here
-     *   },
-     *   data: [
-     *     // ... provide data here
-     *   ]
-     * })
-     * 
-     * // Update zero or more Receipts and only return the `id`
-     * const receiptWithIdOnly = await prisma.receipt.updateManyAndReturn({
-     *   select: { id: true },
-     *   where: {
-     *     // ... provide filter here
-     *   },
-     *   data: [
-     *     // ... provide data here
-     *   ]
-     * })
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * 
-     */
-    updateManyAndReturn<T extends ReceiptUpdateManyAndReturnArgs>(args: SelectSubset<T, ReceiptUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$ReceiptPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
-
-    /**
-     * Create or update one Receipt.
-     * @param {ReceiptUpsertArgs} args - Arguments to update or create a Receipt.
-     * @example
-     * // Update or create a Receipt
-     * const receipt = await prisma.receipt.upsert({
-     *   create: {
-     *     // ... data to create a Receipt
-     *   },
-     *   update: {
-     *     // ... in case it already exists, update
-     *   },
-     *   where: {
-     *     // ... the filter for the Receipt we want to update
-     *   }
-     * })
-     */
-    upsert<T extends ReceiptUpsertArgs>(args: SelectSubset<T, ReceiptUpsertArgs<ExtArgs>>): Prisma__ReceiptClient<$Result.GetResult<Prisma.$ReceiptPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-
-    /**
-     * Count the number of Receipts.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {ReceiptCountArgs} args - Arguments to filter Receipts to count.
-     * @example
-     * // Count the number of Receipts
-     * const count = await prisma.receipt.count({
-     *   where: {
-     *     // ... the filter for the Receipts we want to count
-     *   }
-     * })
-    **/
-    count<T extends ReceiptCountArgs>(
-      args?: Subset<T, ReceiptCountArgs>,
-    ): Prisma.PrismaPromise<
-      T extends $Utils.Record<'select', any>
-        ? T['select'] extends true
-          ? number
-          : GetScalarType<T['select'], ReceiptCountAggregateOutputType>
-        : number
-    >
-
-    /**
-     * Allows you to perform aggregations operations on a Receipt.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {ReceiptAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
-     * @example
-     * // Ordered by age ascending
-     * // Where email contains prisma.io
-     * // Limited to the 10 users
-     * const aggregations = await prisma.user.aggregate({
-     *   _avg: {
-     *     age: true,
-     *   },
-     *   where: {
-     *     email: {
-     *       contains: "prisma.io",
-     *     },
-     *   },
-     *   orderBy: {
-     *     age: "asc",
-     *   },
-     *   take: 10,
-     * })
-    **/
-    aggregate<T extends ReceiptAggregateArgs>(args: Subset<T, ReceiptAggregateArgs>): Prisma.PrismaPromise<GetReceiptAggregateType<T>>
-
-    /**
-     * Group by Receipt.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {ReceiptGroupByArgs} args - Group by arguments.
-     * @example
-     * // Group by city, order by createdAt, get count
-     * const result = await prisma.user.groupBy({
-     *   by: ['city', 'createdAt'],
-     *   orderBy: {
-     *     createdAt: true
-     *   },
-     *   _count: {
-     *     _all: true
-     *   },
-     * })
-     * 
-    **/
-    groupBy<
-      T extends ReceiptGroupByArgs,
-      HasSelectOrTake extends Or<
-        Extends<'skip', Keys<T>>,
-        Extends<'take', Keys<T>>
-      >,
-      OrderByArg extends True extends HasSelectOrTake
-        ? { orderBy: ReceiptGroupByArgs['orderBy'] }
-        : { orderBy?: ReceiptGroupByArgs['orderBy'] },
-      OrderFields extends ExcludeUnderscoreKeys<Keys<MaybeTupleToUnion<T['orderBy']>>>,
-      ByFields extends MaybeTupleToUnion<T['by']>,
-      ByValid extends Has<ByFields, OrderFields>,
-      HavingFields extends GetHavingFields<T['having']>,
-      HavingValid extends Has<ByFields, HavingFields>,
-      ByEmpty extends T['by'] extends never[] ? True : False,
-      InputErrors extends ByEmpty extends True
-      ? `Error: "by" must not be empty.`
-      : HavingValid extends False
-      ? {
-          [P in HavingFields]: P extends ByFields
-            ? never
-            : P extends string
-            ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
-            : [
-                Error,
-                'Field ',
-                P,
-                ` in "having" needs to be provided in "by"`,
-              ]
-        }[HavingFields]
-      : 'take' extends Keys<T>
-      ? 'orderBy' extends Keys<T>
-        ? ByValid extends True
-          ? {}
-          : {
-              [P in OrderFields]: P extends ByFields
-                ? never
-                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
-            }[OrderFields]
-        : 'Error: If you provide "take", you also need to provide "orderBy"'
-      : 'skip' extends Keys<T>
-      ? 'orderBy' extends Keys<T>
-        ? ByValid extends True
-          ? {}
-          : {
-              [P in OrderFields]: P extends ByFields
-                ? never
-                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
-            }[OrderFields]
-        : 'Error: If you provide "skip", you also need to provide "orderBy"'
-      : ByValid extends True
-      ? {}
-      : {
-          [P in OrderFields]: P extends ByFields
-            ? never
-            : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
-        }[OrderFields]
-    >(args: SubsetIntersection<T, ReceiptGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetReceiptGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
-  /**
-   * Fields of the Receipt model
-   */
-  readonly fields: ReceiptFieldRefs;
-  }
-
-  /**
-   * The delegate class that acts as a "Promise-like" for Receipt.
-   * Why is this prefixed with `Prisma__`?
-   * Because we want to prevent naming conflicts as mentioned in
-   * https://github.com/prisma/prisma-client-js/issues/707
-   */
-  export interface Prisma__ReceiptClient<T, Null = never, ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
-    readonly [Symbol.toStringTag]: "PrismaPromise"
-    doctor<T extends Receipt$doctorArgs<ExtArgs> = {}>(args?: Subset<T, Receipt$doctorArgs<ExtArgs>>): Prisma__DoctorClient<$Result.GetResult<Prisma.$DoctorPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
-    hospital<T extends Receipt$hospitalArgs<ExtArgs> = {}>(args?: Subset<T, Receipt$hospitalArgs<ExtArgs>>): Prisma__HospitalClient<$Result.GetResult<Prisma.$HospitalPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
-    user<T extends UserDefaultArgs<ExtArgs> = {}>(args?: Subset<T, UserDefaultArgs<ExtArgs>>): Prisma__UserClient<$Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
-    /**
-     * Attaches callbacks for the resolution and/or rejection of the Promise.
-     * @param onfulfilled The callback to execute when the Promise is resolved.
-     * @param onrejected The callback to execute when the Promise is rejected.
-     * @returns A Promise for the completion of which ever callback is executed.
-     */
-    then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): $Utils.JsPromise<TResult1 | TResult2>
-    /**
-     * Attaches a callback for only the rejection of the Promise.
-     * @param onrejected The callback to execute when the Promise is rejected.
-     * @returns A Promise for the completion of the callback.
-     */
-    catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): $Utils.JsPromise<T | TResult>
-    /**
-     * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
-     * resolved value cannot be modified from the callback.
-     * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
-     * @returns A Promise for the completion of the callback.
-     */
-    finally(onfinally?: (() => void) | undefined | null): $Utils.JsPromise<T>
-  }
-
-
-
-
-  /**
-   * Fields of the Receipt model
-   */
-  interface ReceiptFieldRefs {
-    readonly id: FieldRef<"Receipt", 'String'>
-    readonly userId: FieldRef<"Receipt", 'String'>
-    readonly imageUrl: FieldRef<"Receipt", 'String'>
-    readonly uploatedAt: FieldRef<"Receipt", 'DateTime'>
-    readonly processedAt: FieldRef<"Receipt", 'DateTime'>
-    readonly condition: FieldRef<"Receipt", 'String'>
-    readonly severity: FieldRef<"Receipt", 'Int'>
-    readonly hospitalId: FieldRef<"Receipt", 'String'>
-    readonly status: FieldRef<"Receipt", 'ReceiptStatus'>
-    readonly queuePosition: FieldRef<"Receipt", 'Int'>
-    readonly aiAnalysis: FieldRef<"Receipt", 'String'>
-    readonly doctorId: FieldRef<"Receipt", 'String'>
-  }
-    
-
-  // Custom InputTypes
-  /**
-   * Receipt findUnique
-   */
-  export type ReceiptFindUniqueArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Receipt
-     */
-    select?: ReceiptSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Receipt
-     */
-    omit?: ReceiptOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: ReceiptInclude<ExtArgs> | null
-    /**
-     * Filter, which Receipt to fetch.
-     */
-    where: ReceiptWhereUniqueInput
-  }
-
-  /**
-   * Receipt findUniqueOrThrow
-   */
-  export type ReceiptFindUniqueOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Receipt
-     */
-    select?: ReceiptSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Receipt
-     */
-    omit?: ReceiptOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: ReceiptInclude<ExtArgs> | null
-    /**
-     * Filter, which Receipt to fetch.
-     */
-    where: ReceiptWhereUniqueInput
-  }
-
-  /**
-   * Receipt findFirst
-   */
-  export type ReceiptFindFirstArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Receipt
-     */
-    select?: ReceiptSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Receipt
-     */
-    omit?: ReceiptOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: ReceiptInclude<ExtArgs> | null
-    /**
-     * Filter, which Receipt to fetch.
-     */
-    where?: ReceiptWhereInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
-     * 
-     * Determine the order of Receipts to fetch.
-     */
-    orderBy?: ReceiptOrderByWithRelationInput | ReceiptOrderByWithRelationInput[]
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
-     * 
-     * Sets the position for searching for Receipts.
-     */
-    cursor?: ReceiptWhereUniqueInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Take `±n` Receipts from the position of the cursor.
-     */
-    take?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Skip the first `n` Receipts.
-     */
-    skip?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
-     * 
-     * Filter by unique combinations of Receipts.
-     */
-    distinct?: ReceiptScalarFieldEnum | ReceiptScalarFieldEnum[]
-  }
-
-  /**
-   * Receipt findFirstOrThrow
-   */
-  export type ReceiptFindFirstOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Receipt
-     */
-    select?: ReceiptSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Receipt
-     */
-    omit?: ReceiptOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: ReceiptInclude<ExtArgs> | null
-    /**
-     * Filter, which Receipt to fetch.
-     */
-    where?: ReceiptWhereInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
-     * 
-     * Determine the order of Receipts to fetch.
-     */
-    orderBy?: ReceiptOrderByWithRelationInput | ReceiptOrderByWithRelationInput[]
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
-     * 
-     * Sets the position for searching for Receipts.
-     */
-    cursor?: ReceiptWhereUniqueInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Take `±n` Receipts from the position of the cursor.
-     */
-    take?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Skip the first `n` Receipts.
-     */
-    skip?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
-     * 
-     * Filter by unique combinations of Receipts.
-     */
-    distinct?: ReceiptScalarFieldEnum | ReceiptScalarFieldEnum[]
-  }
-
-  /**
-   * Receipt findMany
-   */
-  export type ReceiptFindManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Receipt
-     */
-    select?: ReceiptSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Receipt
-     */
-    omit?: ReceiptOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: ReceiptInclude<ExtArgs> | null
-    /**
-     * Filter, which Receipts to fetch.
-     */
-    where?: ReceiptWhereInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
-     * 
-     * Determine the order of Receipts to fetch.
-     */
-    orderBy?: ReceiptOrderByWithRelationInput | ReceiptOrderByWithRelationInput[]
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
-     * 
-     * Sets the position for listing Receipts.
-     */
-    cursor?: ReceiptWhereUniqueInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Take `±n` Receipts from the position of the cursor.
-     */
-    take?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Skip the first `n` Receipts.
-     */
-    skip?: number
-    distinct?: ReceiptScalarFieldEnum | ReceiptScalarFieldEnum[]
-  }
-
-  /**
-   * Receipt create
-   */
-  export type ReceiptCreateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Receipt
-     */
-    select?: ReceiptSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Receipt
-     */
-    omit?: ReceiptOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: ReceiptInclude<ExtArgs> | null
-    /**
-     * The data needed to create a Receipt.
-     */
-    data: XOR<ReceiptCreateInput, ReceiptUncheckedCreateInput>
-  }
-
-  /**
-   * Receipt createMany
-   */
-  export type ReceiptCreateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * The data used to create many Receipts.
-     */
-    data: ReceiptCreateManyInput | ReceiptCreateManyInput[]
-    skipDuplicates?: boolean
-  }
-
-  /**
-   * Receipt createManyAndReturn
-   */
-  export type ReceiptCreateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Receipt
-     */
-    select?: ReceiptSelectCreateManyAndReturn<ExtArgs> | null
-    /**
-     * Omit specific fields from the Receipt
-     */
-    omit?: ReceiptOmit<ExtArgs> | null
-    /**
-     * The data used to create many Receipts.
-     */
-    data: ReceiptCreateManyInput | ReceiptCreateManyInput[]
-    skipDuplicates?: boolean
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: ReceiptIncludeCreateManyAndReturn<ExtArgs> | null
-  }
-
-  /**
-   * Receipt update
-   */
-  export type ReceiptUpdateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Receipt
-     */
-    select?: ReceiptSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Receipt
-     */
-    omit?: ReceiptOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: ReceiptInclude<ExtArgs> | null
-    /**
-     * The data needed to update a Receipt.
-     */
-    data: XOR<ReceiptUpdateInput, ReceiptUncheckedUpdateInput>
-    /**
-     * Choose, which Receipt to update.
-     */
-    where: ReceiptWhereUniqueInput
-  }
-
-  /**
-   * Receipt updateMany
-   */
-  export type ReceiptUpdateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * The data used to update Receipts.
-     */
-    data: XOR<ReceiptUpdateManyMutationInput, ReceiptUncheckedUpdateManyInput>
-    /**
-     * Filter which Receipts to update
-     */
-    where?: ReceiptWhereInput
-    /**
-     * Limit how many Receipts to update.
-     */
-    limit?: number
-  }
-
-  /**
-   * Receipt updateManyAndReturn
-   */
-  export type ReceiptUpdateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Receipt
-     */
-    select?: ReceiptSelectUpdateManyAndReturn<ExtArgs> | null
-    /**
-     * Omit specific fields from the Receipt
-     */
-    omit?: ReceiptOmit<ExtArgs> | null
-    /**
-     * The data used to update Receipts.
-     */
-    data: XOR<ReceiptUpdateManyMutationInput, ReceiptUncheckedUpdateManyInput>
-    /**
-     * Filter which Receipts to update
-     */
-    where?: ReceiptWhereInput
-    /**
-     * Limit how many Receipts to update.
-     */
-    limit?: number
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: ReceiptIncludeUpdateManyAndReturn<ExtArgs> | null
-  }
-
-  /**
-   * Receipt upsert
-   */
-  export type ReceiptUpsertArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Receipt
-     */
-    select?: ReceiptSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Receipt
-     */
-    omit?: ReceiptOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: ReceiptInclude<ExtArgs> | null
-    /**
-     * The filter to search for the Receipt to update in case it exists.
-     */
-    where: ReceiptWhereUniqueInput
-    /**
-     * In case the Receipt found by the `where` argument doesn't exist, create a new Receipt with this data.
-     */
-    create: XOR<ReceiptCreateInput, ReceiptUncheckedCreateInput>
-    /**
-     * In case the Receipt was found with the provided `where` argument, update it with this data.
-     */
-    update: XOR<ReceiptUpdateInput, ReceiptUncheckedUpdateInput>
-  }
-
-  /**
-   * Receipt delete
-   */
-  export type ReceiptDeleteArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Receipt
-     */
-    select?: ReceiptSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Receipt
-     */
-    omit?: ReceiptOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: ReceiptInclude<ExtArgs> | null
-    /**
-     * Filter which Receipt to delete.
-     */
-    where: ReceiptWhereUniqueInput
-  }
-
-  /**
-   * Receipt deleteMany
-   */
-  export type ReceiptDeleteManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Filter which Receipts to delete
-     */
-    where?: ReceiptWhereInput
-    /**
-     * Limit how many Receipts to delete.
-     */
-    limit?: number
-  }
-
-  /**
-   * Receipt.doctor
-   */
-  export type Receipt$doctorArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Doctor
-     */
-    select?: DoctorSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Doctor
-     */
-    omit?: DoctorOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: DoctorInclude<ExtArgs> | null
-    where?: DoctorWhereInput
-  }
-
-  /**
-   * Receipt.hospital
-   */
-  export type Receipt$hospitalArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Hospital
-     */
-    select?: HospitalSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Hospital
-     */
-    omit?: HospitalOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: HospitalInclude<ExtArgs> | null
-    where?: HospitalWhereInput
-  }
-
-  /**
-   * Receipt without action
-   */
-  export type ReceiptDefaultArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Receipt
-     */
-    select?: ReceiptSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Receipt
-     */
-    omit?: ReceiptOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: ReceiptInclude<ExtArgs> | null
-  }
-
-
-  /**
-   * Model Hospital
-   */
-
-  export type AggregateHospital = {
-    _count: HospitalCountAggregateOutputType | null
-    _min: HospitalMinAggregateOutputType | null
-    _max: HospitalMaxAggregateOutputType | null
-  }
-
-  export type HospitalMinAggregateOutputType = {
-    id: string | null
-    name: string | null
-    state: string | null
-    city: string | null
-    address: string | null
-  }
-
-  export type HospitalMaxAggregateOutputType = {
-    id: string | null
-    name: string | null
-    state: string | null
-    city: string | null
-    address: string | null
-  }
-
-  export type HospitalCountAggregateOutputType = {
-    id: number
-    name: number
-    state: number
-    city: number
-    address: number
-    _all: number
-  }
-
-
-  export type HospitalMinAggregateInputType = {
-    id?: true
-    name?: true
-    state?: true
-    city?: true
-    address?: true
-  }
-
-  export type HospitalMaxAggregateInputType = {
-    id?: true
-    name?: true
-    state?: true
-    city?: true
-    address?: true
-  }
-
-  export type HospitalCountAggregateInputType = {
-    id?: true
-    name?: true
-    state?: true
-    city?: true
-    address?: true
-    _all?: true
-  }
-
-  export type HospitalAggregateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Filter which Hospital to aggregate.
-     */
-    where?: HospitalWhereInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
-     * 
-     * Determine the order of Hospitals to fetch.
-     */
-    orderBy?: HospitalOrderByWithRelationInput | HospitalOrderByWithRelationInput[]
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
-     * 
-     * Sets the start position
-     */
-    cursor?: HospitalWhereUniqueInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Take `±n` Hospitals from the position of the cursor.
-     */
-    take?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Skip the first `n` Hospitals.
-     */
-    skip?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
-     * 
-     * Count returned Hospitals
-    **/
-    _count?: true | HospitalCountAggregateInputType
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
-     * 
-     * Select which fields to find the minimum value
-    **/
-    _min?: HospitalMinAggregateInputType
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
-     * 
-     * Select which fields to find the maximum value
-    **/
-    _max?: HospitalMaxAggregateInputType
-  }
-
-  export type GetHospitalAggregateType<T extends HospitalAggregateArgs> = {
-        [P in keyof T & keyof AggregateHospital]: P extends '_count' | 'count'
-      ? T[P] extends true
-        ? number
-        : GetScalarType<T[P], AggregateHospital[P]>
-      : GetScalarType<T[P], AggregateHospital[P]>
-  }
-
-
-
-
-  export type HospitalGroupByArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    where?: HospitalWhereInput
-    orderBy?: HospitalOrderByWithAggregationInput | HospitalOrderByWithAggregationInput[]
-    by: HospitalScalarFieldEnum[] | HospitalScalarFieldEnum
-    having?: HospitalScalarWhereWithAggregatesInput
-    take?: number
-    skip?: number
-    _count?: HospitalCountAggregateInputType | true
-    _min?: HospitalMinAggregateInputType
-    _max?: HospitalMaxAggregateInputType
-  }
-
-  export type HospitalGroupByOutputType = {
-    id: string
-    name: string
-    state: string
-    city: string | null
-    address: string | null
-    _count: HospitalCountAggregateOutputType | null
-    _min: HospitalMinAggregateOutputType | null
-    _max: HospitalMaxAggregateOutputType | null
-  }
-
-  type GetHospitalGroupByPayload<T extends HospitalGroupByArgs> = Prisma.PrismaPromise<
-    Array<
-      PickEnumerable<HospitalGroupByOutputType, T['by']> &
-        {
-          [P in ((keyof T) & (keyof HospitalGroupByOutputType))]: P extends '_count'
-            ? T[P] extends boolean
-              ? number
-              : GetScalarType<T[P], HospitalGroupByOutputType[P]>
-            : GetScalarType<T[P], HospitalGroupByOutputType[P]>
-        }
-      >
-    >
-
-
-  export type HospitalSelect<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
-    id?: boolean
-    name?: boolean
-    state?: boolean
-    city?: boolean
-    address?: boolean
-    doctors?: boolean | Hospital$doctorsArgs<ExtArgs>
-    receipts?: boolean | Hospital$receiptsArgs<ExtArgs>
-    appointments?: boolean | Hospital$appointmentsArgs<ExtArgs>
-    emergencyAlerts?: boolean | Hospital$emergencyAlertsArgs<ExtArgs>
-    _count?: boolean | HospitalCountOutputTypeDefaultArgs<ExtArgs>
-  }, ExtArgs["result"]["hospital"]>
-
-  export type HospitalSelectCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
-    id?: boolean
-    name?: boolean
-    state?: boolean
-    city?: boolean
-    address?: boolean
-  }, ExtArgs["result"]["hospital"]>
-
-  export type HospitalSelectUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
-    id?: boolean
-    name?: boolean
-    state?: boolean
-    city?: boolean
-    address?: boolean
-  }, ExtArgs["result"]["hospital"]>
-
-  export type HospitalSelectScalar = {
-    id?: boolean
-    name?: boolean
-    state?: boolean
-    city?: boolean
-    address?: boolean
-  }
-
-  export type HospitalOmit<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetOmit<"id" | "name" | "state" | "city" | "address", ExtArgs["result"]["hospital"]>
-  export type HospitalInclude<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    doctors?: boolean | Hospital$doctorsArgs<ExtArgs>
-    receipts?: boolean | Hospital$receiptsArgs<ExtArgs>
-    appointments?: boolean | Hospital$appointmentsArgs<ExtArgs>
-    emergencyAlerts?: boolean | Hospital$emergencyAlertsArgs<ExtArgs>
-    _count?: boolean | HospitalCountOutputTypeDefaultArgs<ExtArgs>
-  }
-  export type HospitalIncludeCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {}
-  export type HospitalIncludeUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {}
-
-  export type $HospitalPayload<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    name: "Hospital"
-    objects: {
-      doctors: Prisma.$DoctorPayload<ExtArgs>[]
-      receipts: Prisma.$ReceiptPayload<ExtArgs>[]
-      appointments: Prisma.$AppointmentPayload<ExtArgs>[]
-      emergencyAlerts: Prisma.$EmergencyAlertPayload<ExtArgs>[]
-    }
-    scalars: $Extensions.GetPayloadResult<{
-      id: string
-      name: string
-      state: string
-      city: string | null
-      address: string | null
-    }, ExtArgs["result"]["hospital"]>
-    composites: {}
-  }
-
-  type HospitalGetPayload<S extends boolean | null | undefined | HospitalDefaultArgs> = $Result.GetResult<Prisma.$HospitalPayload, S>
-
-  type HospitalCountArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> =
-    Omit<HospitalFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
-      select?: HospitalCountAggregateInputType | true
-    }
-
-  export interface HospitalDelegate<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> {
-    [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['Hospital'], meta: { name: 'Hospital' } }
-    /**
-     * Find zero or one Hospital that matches the filter.
-     * @param {HospitalFindUniqueArgs} args - Arguments to find a Hospital
-     * @example
-     * // Get one Hospital
-     * const hospital = await prisma.hospital.findUnique({
-     *   where: {
-     *     // ... provide filter here
-     *   }
-     * })
-     */
-    findUnique<T extends HospitalFindUniqueArgs>(args: SelectSubset<T, HospitalFindUniqueArgs<ExtArgs>>): Prisma__HospitalClient<$Result.GetResult<Prisma.$HospitalPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Find one Hospital that matches the filter or throw an error with `error.code='P2025'`
-     * if no matches were found.
-     * @param {HospitalFindUniqueOrThrowArgs} args - Arguments to find a Hospital
-     * @example
-     * // Get one Hospital
-     * const hospital = await prisma.hospital.findUniqueOrThrow({
-     *   where: {
-     *     // ... provide filter here
-     *   }
-     * })
-     */
-    findUniqueOrThrow<T extends HospitalFindUniqueOrThrowArgs>(args: SelectSubset<T, HospitalFindUniqueOrThrowArgs<ExtArgs>>): Prisma__HospitalClient<$Result.GetResult<Prisma.$HospitalPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Find the first Hospital that matches the filter.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {HospitalFindFirstArgs} args - Arguments to find a Hospital
-     * @example
-     * // Get one Hospital
-     * const hospital = await prisma.hospital.findFirst({
-     *   where: {
-     *     // ... provide filter here
-     *   }
-     * })
-     */
-    findFirst<T extends HospitalFindFirstArgs>(args?: SelectSubset<T, HospitalFindFirstArgs<ExtArgs>>): Prisma__HospitalClient<$Result.GetResult<Prisma.$HospitalPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Find the first Hospital that matches the filter or
-     * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {HospitalFindFirstOrThrowArgs} args - Arguments to find a Hospital
-     * @example
-     * // Get one Hospital
-     * const hospital = await prisma.hospital.findFirstOrThrow({
-     *   where: {
-     *     // ... provide filter here
-     *   }
-     * })
-     */
-    findFirstOrThrow<T extends HospitalFindFirstOrThrowArgs>(args?: SelectSubset<T, HospitalFindFirstOrThrowArgs<ExtArgs>>): Prisma__HospitalClient<$Result.GetResult<Prisma.$HospitalPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Find zero or more Hospitals that matches the filter.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {HospitalFindManyArgs} args - Arguments to filter and select certain fields only.
-     * @example
-     * // Get all Hospitals
-     * const hospitals = await prisma.hospital.findMany()
-     * 
-     * // Get first 10 Hospitals
-     * const hospitals = await prisma.hospital.findMany({ take: 10 })
-     * 
-     * // Only select the `id`
-     * const hospitalWithIdOnly = await prisma.hospital.findMany({ select: { id: true } })
-     * 
-     */
-    findMany<T extends HospitalFindManyArgs>(args?: SelectSubset<T, HospitalFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$HospitalPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
-
-    /**
-     * Create a Hospital.
-     * @param {HospitalCreateArgs} args - Arguments to create a Hospital.
-     * @example
-     * // Create one Hospital
-     * const Hospital = await prisma.hospital.create({
-     *   data: {
-     *     // ... data to create a Hospital
-     *   }
-     * })
-     * 
-     */
-    create<T extends HospitalCreateArgs>(args: SelectSubset<T, HospitalCreateArgs<ExtArgs>>): Prisma__HospitalClient<$Result.GetResult<Prisma.$HospitalPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Create many Hospitals.
-     * @param {HospitalCreateManyArgs} args - Arguments to create many Hospitals.
-     * @example
-     * // Create many Hospitals
-     * const hospital = await prisma.hospital.createMany({
-     *   data: [
-     *     // ... provide data here
-     *   ]
-     * })
-     *     
-     */
-    createMany<T extends HospitalCreateManyArgs>(args?: SelectSubset<T, HospitalCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
-
-    /**
-     * Create many Hospitals and returns the data saved in the database.
-     * @param {HospitalCreateManyAndReturnArgs} args - Arguments to create many Hospitals.
-     * @example
-     * // Create many Hospitals
-     * const hospital = await prisma.hospital.createManyAndReturn({
-     *   data: [
-     *     // ... provide data here
-     *   ]
-     * })
-     * 
-     * // Create many Hospitals and only return the `id`
-     * const hospitalWithIdOnly = await prisma.hospital.createManyAndReturn({
-     *   select: { id: true },
-     *   data: [
-     *     // ... provide data here
-     *   ]
-     * })
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * 
-     */
-    createManyAndReturn<T extends HospitalCreateManyAndReturnArgs>(args?: SelectSubset<T, HospitalCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$HospitalPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
-
-    /**
-     * Delete a Hospital.
-     * @param {HospitalDeleteArgs} args - Arguments to delete one Hospital.
-     * @example
-     * // Delete one Hospital
-     * const Hospital = await prisma.hospital.delete({
-     *   where: {
-     *     // ... filter to delete one Hospital
-     *   }
-     * })
-     * 
-     */
-    delete<T extends HospitalDeleteArgs>(args: SelectSubset<T, HospitalDeleteArgs<ExtArgs>>): Prisma__HospitalClient<$Result.GetResult<Prisma.$HospitalPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Update one Hospital.
-     * @param {HospitalUpdateArgs} args - Arguments to update one Hospital.
-     * @example
-     * // Update one Hospital
-     * const hospital = await prisma.hospital.update({
-     *   where: {
-     *     // ... provide filter here
-     *   },
-     *   data: {
-     *     // ... provide data here
-     *   }
-     * })
-     * 
-     */
-    update<T extends HospitalUpdateArgs>(args: SelectSubset<T, HospitalUpdateArgs<ExtArgs>>): Prisma__HospitalClient<$Result.GetResult<Prisma.$HospitalPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Delete zero or more Hospitals.
-     * @param {HospitalDeleteManyArgs} args - Arguments to filter Hospitals to delete.
-     * @example
-     * // Delete a few Hospitals
-     * const { count } = await prisma.hospital.deleteMany({
-     *   where: {
-     *     // ... provide filter here
-     *   }
-     * })
-     * 
-     */
-    deleteMany<T extends HospitalDeleteManyArgs>(args?: SelectSubset<T, HospitalDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
-
-    /**
-     * Update zero or more Hospitals.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {HospitalUpdateManyArgs} args - Arguments to update one or more rows.
-     * @example
-     * // Update many Hospitals
-     * const hospital = await prisma.hospital.updateMany({
-     *   where: {
-     *     // ... provide filter here
-     *   },
-     *   data: {
-     *     // ... provide data here
-     *   }
-     * })
-     * 
-     */
-    updateMany<T extends HospitalUpdateManyArgs>(args: SelectSubset<T, HospitalUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
-
-    /**
-     * Update zero or more Hospitals and returns the data updated in the database.
-     * @param {HospitalUpdateManyAndReturnArgs} args - Arguments to update many Hospitals.
-     * @example
-     * // Update many Hospitals
-     * const hospital = await prisma.hospital.updateManyAndReturn({
-     *   where: {
-     *     // ... provide filter here
-     *   },
-     *   data: [
-     *     // ... provide data here
-     *   ]
-     * })
-     * 
-     * // Update zero or more Hospitals and only return the `id`
-     * const hospitalWithIdOnly = await prisma.hospital.updateManyAndReturn({
-     *   select: { id: true },
-     *   where: {
-     *     // ... provide filter here
-     *   },
-     *   data: [
-     *     // ... provide data here
-     *   ]
-     * })
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * 
-     */
-    updateManyAndReturn<T extends HospitalUpdateManyAndReturnArgs>(args: SelectSubset<T, HospitalUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$HospitalPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
-
-    /**
-     * Create or update one Hospital.
-     * @param {HospitalUpsertArgs} args - Arguments to update or create a Hospital.
-     * @example
-     * // Update or create a Hospital
-     * const hospital = await prisma.hospital.upsert({
-     *   create: {
-     *     // ... data to create a Hospital
-     *   },
-     *   update: {
-     *     // ... in case it already exists, update
-     *   },
-     *   where: {
-     *     // ... the filter for the Hospital we want to update
-     *   }
-     * })
-     */
-    upsert<T extends HospitalUpsertArgs>(args: SelectSubset<T, HospitalUpsertArgs<ExtArgs>>): Prisma__HospitalClient<$Result.GetResult<Prisma.$HospitalPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-
-    /**
-     * Count the number of Hospitals.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {HospitalCountArgs} args - Arguments to filter Hospitals to count.
-     * @example
-     * // Count the number of Hospitals
-     * const count = await prisma.hospital.count({
-     *   where: {
-     *     // ... the filter for the Hospitals we want to count
-     *   }
-     * })
-    **/
-    count<T extends HospitalCountArgs>(
-      args?: Subset<T, HospitalCountArgs>,
-    ): Prisma.PrismaPromise<
-      T extends $Utils.Record<'select', any>
-        ? T['select'] extends true
-          ? number
-          : GetScalarType<T['select'], HospitalCountAggregateOutputType>
-        : number
-    >
-
-    /**
-     * Allows you to perform aggregations operations on a Hospital.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {HospitalAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
-     * @example
-     * // Ordered by age ascending
-     * // Where email contains prisma.io
-     * // Limited to the 10 users
-     * const aggregations = await prisma.user.aggregate({
-     *   _avg: {
-     *     age: true,
-     *   },
-     *   where: {
-     *     email: {
-     *       contains: "prisma.io",
-     *     },
-     *   },
-     *   orderBy: {
-     *     age: "asc",
-     *   },
-     *   take: 10,
-     * })
-    **/
-    aggregate<T extends HospitalAggregateArgs>(args: Subset<T, HospitalAggregateArgs>): Prisma.PrismaPromise<GetHospitalAggregateType<T>>
-
-    /**
-     * Group by Hospital.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {HospitalGroupByArgs} args - Group by arguments.
-     * @example
-     * // Group by city, order by createdAt, get count
-     * const result = await prisma.user.groupBy({
-     *   by: ['city', 'createdAt'],
-     *   orderBy: {
-     *     createdAt: true
-     *   },
-     *   _count: {
-     *     _all: true
-     *   },
-     * })
-     * 
-    **/
-    groupBy<
-      T extends HospitalGroupByArgs,
-      HasSelectOrTake extends Or<
-        Extends<'skip', Keys<T>>,
-        Extends<'take', Keys<T>>
-      >,
-      OrderByArg extends True extends HasSelectOrTake
-        ? { orderBy: HospitalGroupByArgs['orderBy'] }
-        : { orderBy?: HospitalGroupByArgs['orderBy'] },
-      OrderFields extends ExcludeUnderscoreKeys<Keys<MaybeTupleToUnion<T['orderBy']>>>,
-      ByFields extends MaybeTupleToUnion<T['by']>,
-      ByValid extends Has<ByFields, OrderFields>,
-      HavingFields extends GetHavingFields<T['having']>,
-      HavingValid extends Has<ByFields, HavingFields>,
-      ByEmpty extends T['by'] extends never[] ? True : False,
-      InputErrors extends ByEmpty extends True
-      ? `Error: "by" must not be empty.`
-      : HavingValid extends False
-      ? {
-          [P in HavingFields]: P extends ByFields
-            ? never
-            : P extends string
-            ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
-            : [
-                Error,
-                'Field ',
-                P,
-                ` in "having" needs to be provided in "by"`,
-              ]
-        }[HavingFields]
-      : 'take' extends Keys<T>
-      ? 'orderBy' extends Keys<T>
-        ? ByValid extends True
-          ? {}
-          : {
-              [P in OrderFields]: P extends ByFields
-                ? never
-                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
-            }[OrderFields]
-        : 'Error: If you provide "take", you also need to provide "orderBy"'
-      : 'skip' extends Keys<T>
-      ? 'orderBy' extends Keys<T>
-        ? ByValid extends True
-          ? {}
-          : {
-              [P in OrderFields]: P extends ByFields
-                ? never
-                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
-            }[OrderFields]
-        : 'Error: If you provide "skip", you also need to provide "orderBy"'
-      : ByValid extends True
-      ? {}
-      : {
-          [P in OrderFields]: P extends ByFields
-            ? never
-            : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
-        }[OrderFields]
-    >(args: SubsetIntersection<T, HospitalGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetHospitalGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
-  /**
-   * Fields of the Hospital model
-   */
-  readonly fields: HospitalFieldRefs;
-  }
-
-  /**
-   * The delegate class that acts as a "Promise-like" for Hospital.
-   * Why is this prefixed with `Prisma__`?
-   * Because we want to prevent naming conflicts as mentioned in
-   * https://github.com/prisma/prisma-client-js/issues/707
-   */
-  export interface Prisma__HospitalClient<T, Null = never, ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
-    readonly [Symbol.toStringTag]: "PrismaPromise"
-    doctors<T extends Hospital$doctorsArgs<ExtArgs> = {}>(args?: Subset<T, Hospital$doctorsArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$DoctorPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
-    receipts<T extends Hospital$receiptsArgs<ExtArgs> = {}>(args?: Subset<T, Hospital$receiptsArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$ReceiptPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
-    appointments<T extends Hospital$appointmentsArgs<ExtArgs> = {}>(args?: Subset<T, Hospital$appointmentsArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$AppointmentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
-    emergencyAlerts<T extends Hospital$emergencyAlertsArgs<ExtArgs> = {}>(args?: Subset<T, Hospital$emergencyAlertsArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$EmergencyAlertPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
-    /**
-     * Attaches callbacks for the resolution and/or rejection of the Promise.
-     * @param onfulfilled The callback to execute when the Promise is resolved.
-     * @param onrejected The callback to execute when the Promise is rejected.
-     * @returns A Promise for the completion of which ever callback is executed.
-     */
-    then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): $Utils.JsPromise<TResult1 | TResult2>
-    /**
-     * Attaches a callback for only the rejection of the Promise.
-     * @param onrejected The callback to execute when the Promise is rejected.
-     * @returns A Promise for the completion of the callback.
-     */
-    catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): $Utils.JsPromise<T | TResult>
-    /**
-     * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
-     * resolved value cannot be modified from the callback.
-     * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
-     * @returns A Promise for the completion of the callback.
-     */
-    finally(onfinally?: (() => void) | undefined | null): $Utils.JsPromise<T>
-  }
-
-
-
-
-  /**
-   * Fields of the Hospital model
-   */
-  interface HospitalFieldRefs {
-    readonly id: FieldRef<"Hospital", 'String'>
-    readonly name: FieldRef<"Hospital", 'String'>
-    readonly state: FieldRef<"Hospital", 'String'>
-    readonly city: FieldRef<"Hospital", 'String'>
-    readonly address: FieldRef<"Hospital", 'String'>
-  }
-    
-
-  // Custom InputTypes
-  /**
-   * Hospital findUnique
-   */
-  export type HospitalFindUniqueArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Hospital
-     */
-    select?: HospitalSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Hospital
-     */
-    omit?: HospitalOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: HospitalInclude<ExtArgs> | null
-    /**
-     * Filter, which Hospital to fetch.
-     */
-    where: HospitalWhereUniqueInput
-  }
-
-  /**
-   * Hospital findUniqueOrThrow
-   */
-  export type HospitalFindUniqueOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Hospital
-     */
-    select?: HospitalSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Hospital
-     */
-    omit?: HospitalOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: HospitalInclude<ExtArgs> | null
-    /**
-     * Filter, which Hospital to fetch.
-     */
-    where: HospitalWhereUniqueInput
-  }
-
-  /**
-   * Hospital findFirst
-   */
-  export type HospitalFindFirstArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Hospital
-     */
-    select?: HospitalSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Hospital
-     */
-    omit?: HospitalOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: HospitalInclude<ExtArgs> | null
-    /**
-     * Filter, which Hospital to fetch.
-     */
-    where?: HospitalWhereInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
-     * 
-     * Determine the order of Hospitals to fetch.
-     */
-    orderBy?: HospitalOrderByWithRelationInput | HospitalOrderByWithRelationInput[]
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
-     * 
-     * Sets the position for searching for Hospitals.
-     */
-    cursor?: HospitalWhereUniqueInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Take `±n` Hospitals from the position of the cursor.
-     */
-    take?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Skip the first `n` Hospitals.
-     */
-    skip?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
-     * 
-     * Filter by unique combinations of Hospitals.
-     */
-    distinct?: HospitalScalarFieldEnum | HospitalScalarFieldEnum[]
-  }
-
-  /**
-   * Hospital findFirstOrThrow
-   */
-  export type HospitalFindFirstOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Hospital
-     */
-    select?: HospitalSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Hospital
-     */
-    omit?: HospitalOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: HospitalInclude<ExtArgs> | null
-    /**
-     * Filter, which Hospital to fetch.
-     */
-    where?: HospitalWhereInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
-     * 
-     * Determine the order of Hospitals to fetch.
-     */
-    orderBy?: HospitalOrderByWithRelationInput | HospitalOrderByWithRelationInput[]
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
-     * 
-     * Sets the position for searching for Hospitals.
-     */
-    cursor?: HospitalWhereUniqueInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Take `±n` Hospitals from the position of the cursor.
-     */
-    take?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Skip the first `n` Hospitals.
-     */
-    skip?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
-     * 
-     * Filter by unique combinations of Hospitals.
-     */
-    distinct?: HospitalScalarFieldEnum | HospitalScalarFieldEnum[]
-  }
-
-  /**
-   * Hospital findMany
-   */
-  export type HospitalFindManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Hospital
-     */
-    select?: HospitalSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Hospital
-     */
-    omit?: HospitalOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: HospitalInclude<ExtArgs> | null
-    /**
-     * Filter, which Hospitals to fetch.
-     */
-    where?: HospitalWhereInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
-     * 
-     * Determine the order of Hospitals to fetch.
-     */
-    orderBy?: HospitalOrderByWithRelationInput | HospitalOrderByWithRelationInput[]
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
-     * 
-     * Sets the position for listing Hospitals.
-     */
-    cursor?: HospitalWhereUniqueInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Take `±n` Hospitals from the position of the cursor.
-     */
-    take?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Skip the first `n` Hospitals.
-     */
-    skip?: number
-    distinct?: HospitalScalarFieldEnum | HospitalScalarFieldEnum[]
-  }
-
-  /**
-   * Hospital create
-   */
-  export type HospitalCreateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Hospital
-     */
-    select?: HospitalSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Hospital
-     */
-    omit?: HospitalOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: HospitalInclude<ExtArgs> | null
-    /**
-     * The data needed to create a Hospital.
-     */
-    data: XOR<HospitalCreateInput, HospitalUncheckedCreateInput>
-  }
-
-  /**
-   * Hospital createMany
-   */
-  export type HospitalCreateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * The data used to create many Hospitals.
-     */
-    data: HospitalCreateManyInput | HospitalCreateManyInput[]
-    skipDuplicates?: boolean
-  }
-
-  /**
-   * Hospital createManyAndReturn
-   */
-  export type HospitalCreateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Hospital
-     */
-    select?: HospitalSelectCreateManyAndReturn<ExtArgs> | null
-    /**
-     * Omit specific fields from the Hospital
-     */
-    omit?: HospitalOmit<ExtArgs> | null
-    /**
-     * The data used to create many Hospitals.
-     */
-    data: HospitalCreateManyInput | HospitalCreateManyInput[]
-    skipDuplicates?: boolean
-  }
-
-  /**
-   * Hospital update
-   */
-  export type HospitalUpdateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Hospital
-     */
-    select?: HospitalSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Hospital
-     */
-    omit?: HospitalOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: HospitalInclude<ExtArgs> | null
-    /**
-     * The data needed to update a Hospital.
-     */
-    data: XOR<HospitalUpdateInput, HospitalUncheckedUpdateInput>
-    /**
-     * Choose, which Hospital to update.
-     */
-    where: HospitalWhereUniqueInput
-  }
-
-  /**
-   * Hospital updateMany
-   */
-  export type HospitalUpdateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * The data used to update Hospitals.
-     */
-    data: XOR<HospitalUpdateManyMutationInput, HospitalUncheckedUpdateManyInput>
-    /**
-     * Filter which Hospitals to update
-     */
-    where?: HospitalWhereInput
-    /**
-     * Limit how many Hospitals to update.
-     */
-    limit?: number
-  }
-
-  /**
-   * Hospital updateManyAndReturn
-   */
-  export type HospitalUpdateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Hospital
-     */
-    select?: HospitalSelectUpdateManyAndReturn<ExtArgs> | null
-    /**
-     * Omit specific fields from the Hospital
-     */
-    omit?: HospitalOmit<ExtArgs> | null
-    /**
-     * The data used to update Hospitals.
-     */
-    data: XOR<HospitalUpdateManyMutationInput, HospitalUncheckedUpdateManyInput>
-    /**
-     * Filter which Hospitals to update
-     */
-    where?: HospitalWhereInput
-    /**
-     * Limit how many Hospitals to update.
-     */
-    limit?: number
-  }
-
-  /**
-   * Hospital upsert
-   */
-  export type HospitalUpsertArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Hospital
-     */
-    select?: HospitalSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Hospital
-     */
-    omit?: HospitalOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: HospitalInclude<ExtArgs> | null
-    /**
-     * The filter to search for the Hospital to update in case it exists.
-     */
-    where: HospitalWhereUniqueInput
-    /**
-     * In case the Hospital found by the `where` argument doesn't exist, create a new Hospital with this data.
-     */
-    create: XOR<HospitalCreateInput, HospitalUncheckedCreateInput>
-    /**
-     * In case the Hospital was found with the provided `where` argument, update it with this data.
-     */
-    update: XOR<HospitalUpdateInput, HospitalUncheckedUpdateInput>
-  }
-
-  /**
-   * Hospital delete
-   */
-  export type HospitalDeleteArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Hospital
-     */
-    select?: HospitalSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Hospital
-     */
-    omit?: HospitalOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: HospitalInclude<ExtArgs> | null
-    /**
-     * Filter which Hospital to delete.
-     */
-    where: HospitalWhereUniqueInput
-  }
-
-  /**
-   * Hospital deleteMany
-   */
-  export type HospitalDeleteManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Filter which Hospitals to delete
-     */
-    where?: HospitalWhereInput
-    /**
-     * Limit how many Hospitals to delete.
-     */
-    limit?: number
-  }
-
-  /**
-   * Hospital.doctors
-   */
-  export type Hospital$doctorsArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Doctor
-     */
-    select?: DoctorSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Doctor
-     */
-    omit?: DoctorOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: DoctorInclude<ExtArgs> | null
-    where?: DoctorWhereInput
-    orderBy?: DoctorOrderByWithRelationInput | DoctorOrderByWithRelationInput[]
-    cursor?: DoctorWhereUniqueInput
-    take?: number
-    skip?: number
-    distinct?: DoctorScalarFieldEnum | DoctorScalarFieldEnum[]
-  }
-
-  /**
-   * Hospital.receipts
-   */
-  export type Hospital$receiptsArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Receipt
-     */
-    select?: ReceiptSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Receipt
-     */
-    omit?: ReceiptOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: ReceiptInclude<ExtArgs> | null
-    where?: ReceiptWhereInput
-    orderBy?: ReceiptOrderByWithRelationInput | ReceiptOrderByWithRelationInput[]
-    cursor?: ReceiptWhereUniqueInput
-    take?: number
-    skip?: number
-    distinct?: ReceiptScalarFieldEnum | ReceiptScalarFieldEnum[]
-  }
-
-  /**
-   * Hospital.appointments
-   */
-  export type Hospital$appointmentsArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Appointment
-     */
-    select?: AppointmentSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Appointment
-     */
-    omit?: AppointmentOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: AppointmentInclude<ExtArgs> | null
-    where?: AppointmentWhereInput
-    orderBy?: AppointmentOrderByWithRelationInput | AppointmentOrderByWithRelationInput[]
-    cursor?: AppointmentWhereUniqueInput
-    take?: number
-    skip?: number
-    distinct?: AppointmentScalarFieldEnum | AppointmentScalarFieldEnum[]
-  }
-
-  /**
-   * Hospital.emergencyAlerts
-   */
-  export type Hospital$emergencyAlertsArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the EmergencyAlert
-     */
-    select?: EmergencyAlertSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the EmergencyAlert
-     */
-    omit?: EmergencyAlertOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: EmergencyAlertInclude<ExtArgs> | null
-    where?: EmergencyAlertWhereInput
-    orderBy?: EmergencyAlertOrderByWithRelationInput | EmergencyAlertOrderByWithRelationInput[]
-    cursor?: EmergencyAlertWhereUniqueInput
-    take?: number
-    skip?: number
-    distinct?: EmergencyAlertScalarFieldEnum | EmergencyAlertScalarFieldEnum[]
-  }
-
-  /**
-   * Hospital without action
-   */
-  export type HospitalDefaultArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Hospital
-     */
-    select?: HospitalSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Hospital
-     */
-    omit?: HospitalOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: HospitalInclude<ExtArgs> | null
-  }
-
-
-  /**
-   * Model State
-   */
-
-  export type AggregateState = {
-    _count: StateCountAggregateOutputType | null
-    _min: StateMinAggregateOutputType | null
-    _max: StateMaxAggregateOutputType | null
-  }
-
-  export type StateMinAggregateOutputType = {
-    id: string | null
-    name: string | null
-  }
-
-  export type StateMaxAggregateOutputType = {
-    id: string | null
-    name: string | null
-  }
-
-  export type StateCountAggregateOutputType = {
-    id: number
-    name: number
-    _all: number
-  }
-
-
-  export type StateMinAggregateInputType = {
-    id?: true
-    name?: true
-  }
-
-  export type StateMaxAggregateInputType = {
-    id?: true
-    name?: true
-  }
-
-  export type StateCountAggregateInputType = {
-    id?: true
-    name?: true
-    _all?: true
-  }
-
-  export type StateAggregateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Filter which State to aggregate.
-     */
-    where?: StateWhereInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
-     * 
-     * Determine the order of States to fetch.
-     */
-    orderBy?: StateOrderByWithRelationInput | StateOrderByWithRelationInput[]
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
-     * 
-     * Sets the start position
-     */
-    cursor?: StateWhereUniqueInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Take `±n` States from the position of the cursor.
-     */
-    take?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Skip the first `n` States.
-     */
-    skip?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
-     * 
-     * Count returned States
-    **/
-    _count?: true | StateCountAggregateInputType
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
-     * 
-     * Select which fields to find the minimum value
-    **/
-    _min?: StateMinAggregateInputType
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
-     * 
-     * Select which fields to find the maximum value
-    **/
-    _max?: StateMaxAggregateInputType
-  }
-
-  export type GetStateAggregateType<T extends StateAggregateArgs> = {
-        [P in keyof T & keyof AggregateState]: P extends '_count' | 'count'
-      ? T[P] extends true
-        ? number
-        : GetScalarType<T[P], AggregateState[P]>
-      : GetScalarType<T[P], AggregateState[P]>
-  }
-
-
-
-
-  export type StateGroupByArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    where?: StateWhereInput
-    orderBy?: StateOrderByWithAggregationInput | StateOrderByWithAggregationInput[]
-    by: StateScalarFieldEnum[] | StateScalarFieldEnum
-    having?: StateScalarWhereWithAggregatesInput
-    take?: number
-    skip?: number
-    _count?: StateCountAggregateInputType | true
-    _min?: StateMinAggregateInputType
-    _max?: StateMaxAggregateInputType
-  }
-
-  export type StateGroupByOutputType = {
-    id: string
-    name: string
-    _count: StateCountAggregateOutputType | null
-    _min: StateMinAggregateOutputType | null
-    _max: StateMaxAggregateOutputType | null
-  }
-
-  type GetStateGroupByPayload<T extends StateGroupByArgs> = Prisma.PrismaPromise<
-    Array<
-      PickEnumerable<StateGroupByOutputType, T['by']> &
-        {
-          [P in ((keyof T) & (keyof StateGroupByOutputType))]: P extends '_count'
-            ? T[P] extends boolean
-              ? number
-              : GetScalarType<T[P], StateGroupByOutputType[P]>
-            : GetScalarType<T[P], StateGroupByOutputType[P]>
-        }
-      >
-    >
-
-
-  export type StateSelect<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
-    id?: boolean
-    name?: boolean
-  }, ExtArgs["result"]["state"]>
-
-  export type StateSelectCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
-    id?: boolean
-    name?: boolean
-  }, ExtArgs["result"]["state"]>
-
-  export type StateSelectUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
-    id?: boolean
-    name?: boolean
-  }, ExtArgs["result"]["state"]>
-
-  export type StateSelectScalar = {
-    id?: boolean
-    name?: boolean
-  }
-
-  export type StateOmit<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetOmit<"id" | "name", ExtArgs["result"]["state"]>
-
-  export type $StatePayload<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    name: "State"
-    objects: {}
-    scalars: $Extensions.GetPayloadResult<{
-      id: string
-      name: string
-    }, ExtArgs["result"]["state"]>
-    composites: {}
-  }
-
-  type StateGetPayload<S extends boolean | null | undefined | StateDefaultArgs> = $Result.GetResult<Prisma.$StatePayload, S>
-
-  type StateCountArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> =
-    Omit<StateFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
-      select?: StateCountAggregateInputType | true
-    }
-
-  export interface StateDelegate<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> {
-    [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['State'], meta: { name: 'State' } }
-    /**
-     * Find zero or one State that matches the filter.
-     * @param {StateFindUniqueArgs} args - Arguments to find a State
-     * @example
-     * // Get one State
-     * const state = await prisma.state.findUnique({
-     *   where: {
-     *     // ... provide filter here
-     *   }
-     * })
-     */
-    findUnique<T extends StateFindUniqueArgs>(args: SelectSubset<T, StateFindUniqueArgs<ExtArgs>>): Prisma__StateClient<$Result.GetResult<Prisma.$StatePayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Find one State that matches the filter or throw an error with `error.code='P2025'`
-     * if no matches were found.
-     * @param {StateFindUniqueOrThrowArgs} args - Arguments to find a State
-     * @example
-     * // Get one State
-     * const state = await prisma.state.findUniqueOrThrow({
-     *   where: {
-     *     // ... provide filter here
-     *   }
-     * })
-     */
-    findUniqueOrThrow<T extends StateFindUniqueOrThrowArgs>(args: SelectSubset<T, StateFindUniqueOrThrowArgs<ExtArgs>>): Prisma__StateClient<$Result.GetResult<Prisma.$StatePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Find the first State that matches the filter.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {StateFindFirstArgs} args - Arguments to find a State
-     * @example
-     * // Get one State
-     * const state = await prisma.state.findFirst({
-     *   where: {
-     *     // ... provide filter here
-     *   }
-     * })
-     */
-    findFirst<T extends StateFindFirstArgs>(args?: SelectSubset<T, StateFindFirstArgs<ExtArgs>>): Prisma__StateClient<$Result.GetResult<Prisma.$StatePayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Find the first State that matches the filter or
-     * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {StateFindFirstOrThrowArgs} args - Arguments to find a State
-     * @example
-     * // Get one State
-     * const state = await prisma.state.findFirstOrThrow({
-     *   where: {
-     *     // ... provide filter here
-     *   }
-     * })
-     */
-    findFirstOrThrow<T extends StateFindFirstOrThrowArgs>(args?: SelectSubset<T, StateFindFirstOrThrowArgs<ExtArgs>>): Prisma__StateClient<$Result.GetResult<Prisma.$StatePayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Find zero or more States that matches the filter.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {StateFindManyArgs} args - Arguments to filter and select certain fields only.
-     * @example
-     * // Get all States
-     * const states = await prisma.state.findMany()
-     * 
-     * // Get first 10 States
-     * const states = await prisma.state.findMany({ take: 10 })
-     * 
-     * // Only select the `id`
-     * const stateWithIdOnly = await prisma.state.findMany({ select: { id: true } })
-     * 
-     */
-    findMany<T extends StateFindManyArgs>(args?: SelectSubset<T, StateFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$StatePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
-
-    /**
-     * Create a State.
-     * @param {StateCreateArgs} args - Arguments to create a State.
-     * @example
-     * // Create one State
-     * const State = await prisma.state.create({
-     *   data: {
-     *     // ... data to create a State
-     *   }
-     * })
-     * 
-     */
-    create<T extends StateCreateArgs>(args: SelectSubset<T, StateCreateArgs<ExtArgs>>): Prisma__StateClient<$Result.GetResult<Prisma.$StatePayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Create many States.
-     * @param {StateCreateManyArgs} args - Arguments to create many States.
-     * @example
-     * // Create many States
-     * const state = await prisma.state.createMany({
-     *   data: [
-     *     // ... provide data here
-     *   ]
-     * })
-     *     
-     */
-    createMany<T extends StateCreateManyArgs>(args?: SelectSubset<T, StateCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
-
-    /**
-     * Create many States and returns the data saved in the database.
-     * @param {StateCreateManyAndReturnArgs} args - Arguments to create many States.
-     * @example
-     * // Create many States
-     * const state = await prisma.state.createManyAndReturn({
-     *   data: [
-     *     // ... provide data here
-     *   ]
-     * })
-     * 
-     * // Create many States and only return the `id`
-     * const stateWithIdOnly = await prisma.state.createManyAndReturn({
-     *   select: { id: true },
-     *   data: [
-     *     // ... provide data here
-     *   ]
-     * })
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * 
-     */
-    createManyAndReturn<T extends StateCreateManyAndReturnArgs>(args?: SelectSubset<T, StateCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$StatePayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
-
-    /**
-     * Delete a State.
-     * @param {StateDeleteArgs} args - Arguments to delete one State.
-     * @example
-     * // Delete one State
-     * const State = await prisma.state.delete({
-     *   where: {
-     *     // ... filter to delete one State
-     *   }
-     * })
-     * 
-     */
-    delete<T extends StateDeleteArgs>(args: SelectSubset<T, StateDeleteArgs<ExtArgs>>): Prisma__StateClient<$Result.GetResult<Prisma.$StatePayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Update one State.
-     * @param {StateUpdateArgs} args - Arguments to update one State.
-     * @example
-     * // Update one State
-     * const state = await prisma.state.update({
-     *   where: {
-     *     // ... provide filter here
-     *   },
-     *   data: {
-     *     // ... provide data here
-     *   }
-     * })
-     * 
-     */
-    update<T extends StateUpdateArgs>(args: SelectSubset<T, StateUpdateArgs<ExtArgs>>): Prisma__StateClient<$Result.GetResult<Prisma.$StatePayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Delete zero or more States.
-     * @param {StateDeleteManyArgs} args - Arguments to filter States to delete.
-     * @example
-     * // Delete a few States
-     * const { count } = await prisma.state.deleteMany({
-     *   where: {
-     *     // ... provide filter here
-     *   }
-     * })
-     * 
-     */
-    deleteMany<T extends StateDeleteManyArgs>(args?: SelectSubset<T, StateDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
-
-    /**
-     * Update zero or more States.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {StateUpdateManyArgs} args - Arguments to update one or more rows.
-     * @example
-     * // Update many States
-     * const state = await prisma.state.updateMany({
-     *   where: {
-     *     // ... provide filter here
-     *   },
-     *   data: {
-     *     // ... provide data here
-     *   }
-     * })
-     * 
-     */
-    updateMany<T extends StateUpdateManyArgs>(args: SelectSubset<T, StateUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
-
-    /**
-     * Update zero or more States and returns the data updated in the database.
-     * @param {StateUpdateManyAndReturnArgs} args - Arguments to update many States.
-     * @example
-     * // Update many States
-     * const state = await prisma.state.updateManyAndReturn({
-     *   where: {
-     *     // ... provide filter here
-     *   },
-     *   data: [
-     *     // ... provide data here
-     *   ]
-     * })
-     * 
-     * // Update zero or more States and only return the `id`
-     * const stateWithIdOnly = await prisma.state.updateManyAndReturn({
-     *   select: { id: true },
-     *   where: {
-     *     // ... provide filter here
-     *   },
-     *   data: [
-     *     // ... provide data here
-     *   ]
-     * })
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * 
-     */
-    updateManyAndReturn<T extends StateUpdateManyAndReturnArgs>(args: SelectSubset<T, StateUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$StatePayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
-
-    /**
-     * Create or update one State.
-     * @param {StateUpsertArgs} args - Arguments to update or create a State.
-     * @example
-     * // Update or create a State
-     * const state = await prisma.state.upsert({
-     *   create: {
-     *     // ... data to create a State
-     *   },
-     *   update: {
-     *     // ... in case it already exists, update
-     *   },
-     *   where: {
-     *     // ... the filter for the State we want to update
-     *   }
-     * })
-     */
-    upsert<T extends StateUpsertArgs>(args: SelectSubset<T, StateUpsertArgs<ExtArgs>>): Prisma__StateClient<$Result.GetResult<Prisma.$StatePayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-
-    /**
-     * Count the number of States.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {StateCountArgs} args - Arguments to filter States to count.
-     * @example
-     * // Count the number of States
-     * const count = await prisma.state.count({
-     *   where: {
-     *     // ... the filter for the States we want to count
-     *   }
-     * })
-    **/
-    count<T extends StateCountArgs>(
-      args?: Subset<T, StateCountArgs>,
-    ): Prisma.PrismaPromise<
-      T extends $Utils.Record<'select', any>
-        ? T['select'] extends true
-          ? number
-          : GetScalarType<T['select'], StateCountAggregateOutputType>
-        : number
-    >
-
-    /**
-     * Allows you to perform aggregations operations on a State.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {StateAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
-     * @example
-     * // Ordered by age ascending
-     * // Where email contains prisma.io
-     * // Limited to the 10 users
-     * const aggregations = await prisma.user.aggregate({
-     *   _avg: {
-     *     age: true,
-     *   },
-     *   where: {
-     *     email: {
-     *       contains: "prisma.io",
-     *     },
-     *   },
-     *   orderBy: {
-     *     age: "asc",
-     *   },
-     *   take: 10,
-     * })
-    **/
-    aggregate<T extends StateAggregateArgs>(args: Subset<T, StateAggregateArgs>): Prisma.PrismaPromise<GetStateAggregateType<T>>
-
-    /**
-     * Group by State.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {StateGroupByArgs} args - Group by arguments.
-     * @example
-     * // Group by city, order by createdAt, get count
-     * const result = await prisma.user.groupBy({
-     *   by: ['city', 'createdAt'],
-     *   orderBy: {
-     *     createdAt: true
-     *   },
-     *   _count: {
-     *     _all: true
-     *   },
-     * })
-     * 
-    **/
-    groupBy<
-      T extends StateGroupByArgs,
-      HasSelectOrTake extends Or<
-        Extends<'skip', Keys<T>>,
-        Extends<'take', Keys<T>>
-      >,
-      OrderByArg extends True extends HasSelectOrTake
-        ? { orderBy: StateGroupByArgs['orderBy'] }
-        : { orderBy?: StateGroupByArgs['orderBy'] },
-      OrderFields extends ExcludeUnderscoreKeys<Keys<MaybeTupleToUnion<T['orderBy']>>>,
-      ByFields extends MaybeTupleToUnion<T['by']>,
-      ByValid extends Has<ByFields, OrderFields>,
-      HavingFields extends GetHavingFields<T['having']>,
-      HavingValid extends Has<ByFields, HavingFields>,
-      ByEmpty extends T['by'] extends never[] ? True : False,
-      InputErrors extends ByEmpty extends True
-      ? `Error: "by" must not be empty.`
-      : HavingValid extends False
-      ? {
-          [P in HavingFields]: P extends ByFields
-            ? never
-            : P extends string
-            ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
-            : [
-                Error,
-                'Field ',
-                P,
-                ` in "having" needs to be provided in "by"`,
-              ]
-        }[HavingFields]
-      : 'take' extends Keys<T>
-      ? 'orderBy' extends Keys<T>
-        ? ByValid extends True
-          ? {}
-          : {
-              [P in OrderFields]: P extends ByFields
-                ? never
-                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
-            }[OrderFields]
-        : 'Error: If you provide "take", you also need to provide "orderBy"'
-      : 'skip' extends Keys<T>
-      ? 'orderBy' extends Keys<T>
-        ? ByValid extends True
-          ? {}
-          : {
-              [P in OrderFields]: P extends ByFields
-                ? never
-                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
-            }[OrderFields]
-        : 'Error: If you provide "skip", you also need to provide "orderBy"'
-      : ByValid extends True
-      ? {}
-      : {
-          [P in OrderFields]: P extends ByFields
-            ? never
-            : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
-        }[OrderFields]
-    >(args: SubsetIntersection<T, StateGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetStateGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
-  /**
-   * Fields of the State model
-   */
-  readonly fields: StateFieldRefs;
-  }
-
-  /**
-   * The delegate class that acts as a "Promise-like" for State.
-   * Why is this prefixed with `Prisma__`?
-   * Because we want to prevent naming conflicts as mentioned in
-   * https://github.com/prisma/prisma-client-js/issues/707
-   */
-  export interface Prisma__StateClient<T, Null = never, ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
-    readonly [Symbol.toStringTag]: "PrismaPromise"
-    /**
-     * Attaches callbacks for the resolution and/or rejection of the Promise.
-     * @param onfulfilled The callback to execute when the Promise is resolved.
-     * @param onrejected The callback to execute when the Promise is rejected.
-     * @returns A Promise for the completion of which ever callback is executed.
-     */
-    then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): $Utils.JsPromise<TResult1 | TResult2>
-    /**
-     * Attaches a callback for only the rejection of the Promise.
-     * @param onrejected The callback to execute when the Promise is rejected.
-     * @returns A Promise for the completion of the callback.
-     */
-    catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): $Utils.JsPromise<T | TResult>
-    /**
-     * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
-     * resolved value cannot be modified from the callback.
-     * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
-     * @returns A Promise for the completion of the callback.
-     */
-    finally(onfinally?: (() => void) | undefined | null): $Utils.JsPromise<T>
-  }
-
-
-
-
-  /**
-   * Fields of the State model
-   */
-  interface StateFieldRefs {
-    readonly id: FieldRef<"State", 'String'>
-    readonly name: FieldRef<"State", 'String'>
-  }
-    
-
-  // Custom InputTypes
-  /**
-   * State findUnique
-   */
-  export type StateFindUniqueArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the State
-     */
-    select?: StateSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the State
-     */
-    omit?: StateOmit<ExtArgs> | null
-    /**
-     * Filter, which State to fetch.
-     */
-    where: StateWhereUniqueInput
-  }
-
-  /**
-   * State findUniqueOrThrow
-   */
-  export type StateFindUniqueOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the State
-     */
-    select?: StateSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the State
-     */
-    omit?: StateOmit<ExtArgs> | null
-    /**
-     * Filter, which State to fetch.
-     */
-    where: StateWhereUniqueInput
-  }
-
-  /**
-   * State findFirst
-   */
-  export type StateFindFirstArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the State
-     */
-    select?: StateSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the State
-     */
-    omit?: StateOmit<ExtArgs> | null
-    /**
-     * Filter, which State to fetch.
-     */
-    where?: StateWhereInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
-     * 
-     * Determine the order of States to fetch.
-     */
-    orderBy?: StateOrderByWithRelationInput | StateOrderByWithRelationInput[]
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
-     * 
-     * Sets the position for searching for States.
-     */
-    cursor?: StateWhereUniqueInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Take `±n` States from the position of the cursor.
-     */
-    take?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Skip the first `n` States.
-     */
-    skip?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
-     * 
-     * Filter by unique combinations of States.
-     */
-    distinct?: StateScalarFieldEnum | StateScalarFieldEnum[]
-  }
-
-  /**
-   * State findFirstOrThrow
-   */
-  export type StateFindFirstOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the State
-     */
-    select?: StateSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the State
-     */
-    omit?: StateOmit<ExtArgs> | null
-    /**
-     * Filter, which State to fetch.
-     */
-    where?: StateWhereInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
-     * 
-     * Determine the order of States to fetch.
-     */
-    orderBy?: StateOrderByWithRelationInput | StateOrderByWithRelationInput[]
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
-     * 
-     * Sets the position for searching for States.
-     */
-    cursor?: StateWhereUniqueInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Take `±n` States from the position of the cursor.
-     */
-    take?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Skip the first `n` States.
-     */
-    skip?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
-     * 
-     * Filter by unique combinations of States.
-     */
-    distinct?: StateScalarFieldEnum | StateScalarFieldEnum[]
-  }
-
-  /**
-   * State findMany
-   */
-  export type StateFindManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the State
-     */
-    select?: StateSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the State
-     */
-    omit?: StateOmit<ExtArgs> | null
-    /**
-     * Filter, which States to fetch.
-     */
-    where?: StateWhereInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
-     * 
-     * Determine the order of States to fetch.
-     */
-    orderBy?: StateOrderByWithRelationInput | StateOrderByWithRelationInput[]
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
-     * 
-     * Sets the position for listing States.
-     */
-    cursor?: StateWhereUniqueInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Take `±n` States from the position of the cursor.
-     */
-    take?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Skip the first `n` States.
-     */
-    skip?: number
-    distinct?: StateScalarFieldEnum | StateScalarFieldEnum[]
-  }
-
-  /**
-   * State create
-   */
-  export type StateCreateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the State
-     */
-    select?: StateSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the State
-     */
-    omit?: StateOmit<ExtArgs> | null
-    /**
-     * The data needed to create a State.
-     */
-    data: XOR<StateCreateInput, StateUncheckedCreateInput>
-  }
-
-  /**
-   * State createMany
-   */
-  export type StateCreateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * The data used to create many States.
-     */
-    data: StateCreateManyInput | StateCreateManyInput[]
-    skipDuplicates?: boolean
-  }
-
-  /**
-   * State createManyAndReturn
-   */
-  export type StateCreateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the State
-     */
-    select?: StateSelectCreateManyAndReturn<ExtArgs> | null
-    /**
-     * Omit specific fields from the State
-     */
-    omit?: StateOmit<ExtArgs> | null
-    /**
-     * The data used to create many States.
-     */
-    data: StateCreateManyInput | StateCreateManyInput[]
-    skipDuplicates?: boolean
-  }
-
-  /**
-   * State update
-   */
-  export type StateUpdateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the State
-     */
-    select?: StateSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the State
-     */
-    omit?: StateOmit<ExtArgs> | null
-    /**
-     * The data needed to update a State.
-     */
-    data: XOR<StateUpdateInput, StateUncheckedUpdateInput>
-    /**
-     * Choose, which State to update.
-     */
-    where: StateWhereUniqueInput
-  }
-
-  /**
-   * State updateMany
-   */
-  export type StateUpdateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * The data used to update States.
-     */
-    data: XOR<StateUpdateManyMutationInput, StateUncheckedUpdateManyInput>
-    /**
-     * Filter which States to update
-     */
-    where?: StateWhereInput
-    /**
-     * Limit how many States to update.
-     */
-    limit?: number
-  }
-
-  /**
-   * State updateManyAndReturn
-   */
-  export type StateUpdateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the State
-     */
-    select?: StateSelectUpdateManyAndReturn<ExtArgs> | null
-    /**
-     * Omit specific fields from the State
-     */
-    omit?: StateOmit<ExtArgs> | null
-    /**
-     * The data used to update States.
-     */
-    data: XOR<StateUpdateManyMutationInput, StateUncheckedUpdateManyInput>
-    /**
-     * Filter which States to update
-     */
-    where?: StateWhereInput
-    /**
-     * Limit how many States to update.
-     */
-    limit?: number
-  }
-
-  /**
-   * State upsert
-   */
-  export type StateUpsertArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the State
-     */
-    select?: StateSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the State
-     */
-    omit?: StateOmit<ExtArgs> | null
-    /**
-     * The filter to search for the State to update in case it exists.
-     */
-    where: StateWhereUniqueInput
-    /**
-     * In case the State found by the `where` argument doesn't exist, create a new State with this data.
-     */
-    create: XOR<StateCreateInput, StateUncheckedCreateInput>
-    /**
-     * In case the State was found with the provided `where` argument, update it with this data.
-     */
-    update: XOR<StateUpdateInput, StateUncheckedUpdateInput>
-  }
-
-  /**
-   * State delete
-   */
-  export type StateDeleteArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the State
-     */
-    select?: StateSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the State
-     */
-    omit?: StateOmit<ExtArgs> | null
-    /**
-     * Filter which State to delete.
-     */
-    where: StateWhereUniqueInput
-  }
-
-  /**
-   * State deleteMany
-   */
-  export type StateDeleteManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Filter which States to delete
-     */
-    where?: StateWhereInput
-    /**
-     * Limit how many States to delete.
-     */
-    limit?: number
-  }
-
-  /**
-   * State without action
-   */
-  export type StateDefaultArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the State
-     */
-    select?: StateSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the State
-     */
-    omit?: StateOmit<ExtArgs> | null
-  }
-
-
-  /**
-   * Model Doctor
-   */
-
-  export type AggregateDoctor = {
-    _count: DoctorCountAggregateOutputType | null
-    _min: DoctorMinAggregateOutputType | null
-    _max: DoctorMaxAggregateOutputType | null
-  }
-
-  export type DoctorMinAggregateOutputType = {
-    id: string | null
-    name: string | null
-    specialty: string | null
-    hospitalId: string | null
-    available: boolean | null
-  }
-
-  export type DoctorMaxAggregateOutputType = {
-    id: string | null
-    name: string | null
-    specialty: string | null
-    hospitalId: string | null
-    available: boolean | null
-  }
-
-  export type DoctorCountAggregateOutputType = {
-    id: number
-    name: number
-    specialty: number
-    hospitalId: number
-    available: number
-    _all: number
-  }
-
-
-  export type DoctorMinAggregateInputType = {
-    id?: true
-    name?: true
-    specialty?: true
-    hospitalId?: true
-    available?: true
-  }
-
-  export type DoctorMaxAggregateInputType = {
-    id?: true
-    name?: true
-    specialty?: true
-    hospitalId?: true
-    available?: true
-  }
-
-  export type DoctorCountAggregateInputType = {
-    id?: true
-    name?: true
-    specialty?: true
-    hospitalId?: true
-    available?: true
-    _all?: true
-  }
-
-  export type DoctorAggregateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Filter which Doctor to aggregate.
-     */
-    where?: DoctorWhereInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
-     * 
-     * Determine the order of Doctors to fetch.
-     */
-    orderBy?: DoctorOrderByWithRelationInput | DoctorOrderByWithRelationInput[]
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
-     * 
-     * Sets the start position
-     */
-    cursor?: DoctorWhereUniqueInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Take `±n` Doctors from the position of the cursor.
-     */
-    take?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Skip the first `n` Doctors.
-     */
-    skip?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
-     * 
-     * Count returned Doctors
-    **/
-    _count?: true | DoctorCountAggregateInputType
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
-     * 
-     * Select which fields to find the minimum value
-    **/
-    _min?: DoctorMinAggregateInputType
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
-     * 
-     * Select which fields to find the maximum value
-    **/
-    _max?: DoctorMaxAggregateInputType
-  }
-
-  export type GetDoctorAggregateType<T extends DoctorAggregateArgs> = {
-        [P in keyof T & keyof AggregateDoctor]: P extends '_count' | 'count'
-      ? T[P] extends true
-        ? number
-        : GetScalarType<T[P], AggregateDoctor[P]>
-      : GetScalarType<T[P], AggregateDoctor[P]>
-  }
-
-
-
-
-  export type DoctorGroupByArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    where?: DoctorWhereInput
-    orderBy?: DoctorOrderByWithAggregationInput | DoctorOrderByWithAggregationInput[]
-    by: DoctorScalarFieldEnum[] | DoctorScalarFieldEnum
-    having?: DoctorScalarWhereWithAggregatesInput
-    take?: number
-    skip?: number
-    _count?: DoctorCountAggregateInputType | true
-    _min?: DoctorMinAggregateInputType
-    _max?: DoctorMaxAggregateInputType
-  }
-
-  export type DoctorGroupByOutputType = {
-    id: string
-    name: string
-    specialty: string
-    hospitalId: string
-    available: boolean
-    _count: DoctorCountAggregateOutputType | null
-    _min: DoctorMinAggregateOutputType | null
-    _max: DoctorMaxAggregateOutputType | null
-  }
-
-  type GetDoctorGroupByPayload<T extends DoctorGroupByArgs> = Prisma.PrismaPromise<
-    Array<
-      PickEnumerable<DoctorGroupByOutputType, T['by']> &
-        {
-          [P in ((keyof T) & (keyof DoctorGroupByOutputType))]: P extends '_count'
-            ? T[P] extends boolean
-              ? number
-              : GetScalarType<T[P], DoctorGroupByOutputType[P]>
-            : GetScalarType<T[P], DoctorGroupByOutputType[P]>
-        }
-      >
-    >
-
-
-  export type DoctorSelect<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
-    id?: boolean
-    name?: boolean
-    specialty?: boolean
-    hospitalId?: boolean
-    available?: boolean
-    hospital?: boolean | HospitalDefaultArgs<ExtArgs>
-    patients?: boolean | Doctor$patientsArgs<ExtArgs>
-    appointments?: boolean | Doctor$appointmentsArgs<ExtArgs>
-    _count?: boolean | DoctorCountOutputTypeDefaultArgs<ExtArgs>
-  }, ExtArgs["result"]["doctor"]>
-
-  export type DoctorSelectCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
-    id?: boolean
-    name?: boolean
-    specialty?: boolean
-    hospitalId?: boolean
-    available?: boolean
-    hospital?: boolean | HospitalDefaultArgs<ExtArgs>
-  }, ExtArgs["result"]["doctor"]>
-
-  export type DoctorSelectUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
-    id?: boolean
-    name?: boolean
-    specialty?: boolean
-    hospitalId?: boolean
-    available?: boolean
-    hospital?: boolean | HospitalDefaultArgs<ExtArgs>
-  }, ExtArgs["result"]["doctor"]>
-
-  export type DoctorSelectScalar = {
-    id?: boolean
-    name?: boolean
-    specialty?: boolean
-    hospitalId?: boolean
-    available?: boolean
-  }
-
-  export type DoctorOmit<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetOmit<"id" | "name" | "specialty" | "hospitalId" | "available", ExtArgs["result"]["doctor"]>
-  export type DoctorInclude<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    hospital?: boolean | HospitalDefaultArgs<ExtArgs>
-    patients?: boolean | Doctor$patientsArgs<ExtArgs>
-    appointments?: boolean | Doctor$appointmentsArgs<ExtArgs>
-    _count?: boolean | DoctorCountOutputTypeDefaultArgs<ExtArgs>
-  }
-  export type DoctorIncludeCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    hospital?: boolean | HospitalDefaultArgs<ExtArgs>
-  }
-  export type DoctorIncludeUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    hospital?: boolean | HospitalDefaultArgs<ExtArgs>
-  }
-
-  export type $DoctorPayload<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    name: "Doctor"
-    objects: {
-      hospital: Prisma.$HospitalPayload<ExtArgs>
-      patients: Prisma.$ReceiptPayload<ExtArgs>[]
-      appointments: Prisma.$AppointmentPayload<ExtArgs>[]
-    }
-    scalars: $Extensions.GetPayloadResult<{
-      id: string
-      name: string
-      specialty: string
-      hospitalId: string
-      available: boolean
-    }, ExtArgs["result"]["doctor"]>
-    composites: {}
-  }
-
-  type DoctorGetPayload<S extends boolean | null | undefined | DoctorDefaultArgs> = $Result.GetResult<Prisma.$DoctorPayload, S>
-
-  type DoctorCountArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> =
-    Omit<DoctorFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
-      select?: DoctorCountAggregateInputType | true
-    }
-
-  export interface DoctorDelegate<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> {
-    [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['Doctor'], meta: { name: 'Doctor' } }
-    /**
-     * Find zero or one Doctor that matches the filter.
-     * @param {DoctorFindUniqueArgs} args - Arguments to find a Doctor
-     * @example
-     * // Get one Doctor
-     * const doctor = await prisma.doctor.findUnique({
-     *   where: {
-     *     // ... provide filter here
-     *   }
-     * })
-     */
-    findUnique<T extends DoctorFindUniqueArgs>(args: SelectSubset<T, DoctorFindUniqueArgs<ExtArgs>>): Prisma__DoctorClient<$Result.GetResult<Prisma.$DoctorPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Find one Doctor that matches the filter or throw an error with `error.code='P2025'`
-     * if no matches were found.
-     * @param {DoctorFindUniqueOrThrowArgs} args - Arguments to find a Doctor
-     * @example
-     * // Get one Doctor
-     * const doctor = await prisma.doctor.findUniqueOrThrow({
-     *   where: {
-     *     // ... provide filter here
-     *   }
-     * })
-     */
-    findUniqueOrThrow<T extends DoctorFindUniqueOrThrowArgs>(args: SelectSubset<T, DoctorFindUniqueOrThrowArgs<ExtArgs>>): Prisma__DoctorClient<$Result.GetResult<Prisma.$DoctorPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Find the first Doctor that matches the filter.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {DoctorFindFirstArgs} args - Arguments to find a Doctor
-     * @example
-     * // Get one Doctor
-     * const doctor = await prisma.doctor.findFirst({
-     *   where: {
-     *     // ... provide filter here
-     *   }
-     * })
-     */
-    findFirst<T extends DoctorFindFirstArgs>(args?: SelectSubset<T, DoctorFindFirstArgs<ExtArgs>>): Prisma__DoctorClient<$Result.GetResult<Prisma.$DoctorPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Find the first Doctor that matches the filter or
-     * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {DoctorFindFirstOrThrowArgs} args - Arguments to find a Doctor
-     * @example
-     * // Get one Doctor
-     * const doctor = await prisma.doctor.findFirstOrThrow({
-     *   where: {
-     *     // ... provide filter here
-     *   }
-     * })
-     */
-    findFirstOrThrow<T extends DoctorFindFirstOrThrowArgs>(args?: SelectSubset<T, DoctorFindFirstOrThrowArgs<ExtArgs>>): Prisma__DoctorClient<$Result.GetResult<Prisma.$DoctorPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Find zero or more Doctors that matches the filter.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {DoctorFindManyArgs} args - Arguments to filter and select certain fields only.
-     * @example
-     * // Get all Doctors
-     * const doctors = await prisma.doctor.findMany()
-     * 
-     * // Get first 10 Doctors
-     * const doctors = await prisma.doctor.findMany({ take: 10 })
-     * 
-     * // Only select the `id`
-     * const doctorWithIdOnly = await prisma.doctor.findMany({ select: { id: true } })
-     * 
-     */
-    findMany<T extends DoctorFindManyArgs>(args?: SelectSubset<T, DoctorFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$DoctorPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
-
-    /**
-     * Create a Doctor.
-     * @param {DoctorCreateArgs} args - Arguments to create a Doctor.
-     * @example
-     * // Create one Doctor
-     * const Doctor = await prisma.doctor.create({
-     *   data: {
-     *     // ... data to create a Doctor
-     *   }
-     * })
-     * 
-     */
-    create<T extends DoctorCreateArgs>(args: SelectSubset<T, DoctorCreateArgs<ExtArgs>>): Prisma__DoctorClient<$Result.GetResult<Prisma.$DoctorPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Create many Doctors.
-     * @param {DoctorCreateManyArgs} args - Arguments to create many Doctors.
-     * @example
-     * // Create many Doctors
-     * const doctor = await prisma.doctor.createMany({
-     *   data: [
-     *     // ... provide data here
-     *   ]
-     * })
-     *     
-     */
-    createMany<T extends DoctorCreateManyArgs>(args?: SelectSubset<T, DoctorCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
-
-    /**
-     * Create many Doctors and returns the data saved in the database.
-     * @param {DoctorCreateManyAndReturnArgs} args - Arguments to create many Doctors.
-     * @example
-     * // Create many Doctors
-     * const doctor = await prisma.doctor.createManyAndReturn({
-     *   data: [
-     *     // ... provide data here
-     *   ]
-     * })
-     * 
-     * // Create many Doctors and only return the `id`
-     * const doctorWithIdOnly = await prisma.doctor.createManyAndReturn({
-     *   select: { id: true },
-     *   data: [
-     *     // ... provide data here
-     *   ]
-     * })
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * 
-     */
-    createManyAndReturn<T extends DoctorCreateManyAndReturnArgs>(args?: SelectSubset<T, DoctorCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$DoctorPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
-
-    /**
-     * Delete a Doctor.
-     * @param {DoctorDeleteArgs} args - Arguments to delete one Doctor.
-     * @example
-     * // Delete one Doctor
-     * const Doctor = await prisma.doctor.delete({
-     *   where: {
-     *     // ... filter to delete one Doctor
-     *   }
-     * })
-     * 
-     */
-    delete<T extends DoctorDeleteArgs>(args: SelectSubset<T, DoctorDeleteArgs<ExtArgs>>): Prisma__DoctorClient<$Result.GetResult<Prisma.$DoctorPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Update one Doctor.
-     * @param {DoctorUpdateArgs} args - Arguments to update one Doctor.
-     * @example
-     * // Update one Doctor
-     * const doctor = await prisma.doctor.update({
-     *   where: {
-     *     // ... provide filter here
-     *   },
-     *   data: {
-     *     // ... provide data here
-     *   }
-     * })
-     * 
-     */
-    update<T extends DoctorUpdateArgs>(args: SelectSubset<T, DoctorUpdateArgs<ExtArgs>>): Prisma__DoctorClient<$Result.GetResult<Prisma.$DoctorPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Delete zero or more Doctors.
-     * @param {DoctorDeleteManyArgs} args - Arguments to filter Doctors to delete.
-     * @example
-     * // Delete a few Doctors
-     * const { count } = await prisma.doctor.deleteMany({
-     *   where: {
-     *     // ... provide filter here
-     *   }
-     * })
-     * 
-     */
-    deleteMany<T extends DoctorDeleteManyArgs>(args?: SelectSubset<T, DoctorDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
-
-    /**
-     * Update zero or more Doctors.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {DoctorUpdateManyArgs} args - Arguments to update one or more rows.
-     * @example
-     * // Update many Doctors
-     * const doctor = await prisma.doctor.updateMany({
-     *   where: {
-     *     // ... provide filter here
-     *   },
-     *   data: {
-     *     // ... provide data here
-     *   }
-     * })
-     * 
-     */
-    updateMany<T extends DoctorUpdateManyArgs>(args: SelectSubset<T, DoctorUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
-
-    /**
-     * Update zero or more Doctors and returns the data updated in the database.
-     * @param {DoctorUpdateManyAndReturnArgs} args - Arguments to update many Doctors.
-     * @example
-     * // Update many Doctors
-     * const doctor = await prisma.doctor.updateManyAndReturn({
-     *   where: {
-     *     // ... provide filter here
-     *   },
-     *   data: [
-     *     // ... provide data here
-     *   ]
-     * })
-     * 
-     * // Update zero or more Doctors and only return the `id`
-     * const doctorWithIdOnly = await prisma.doctor.updateManyAndReturn({
-     *   select: { id: true },
-     *   where: {
-     *     // ... provide filter here
-     *   },
-     *   data: [
-     *     // ... provide data here
-     *   ]
-     * })
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * 
-     */
-    updateManyAndReturn<T extends DoctorUpdateManyAndReturnArgs>(args: SelectSubset<T, DoctorUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$DoctorPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
-
-    /**
-     * Create or update one Doctor.
-     * @param {DoctorUpsertArgs} args - Arguments to update or create a Doctor.
-     * @example
-     * // Update or create a Doctor
-     * const doctor = await prisma.doctor.upsert({
-     *   create: {
-     *     // ... data to create a Doctor
-     *   },
-     *   update: {
-     *     // ... in case it already exists, update
-     *   },
-     *   where: {
-     *     // ... the filter for the Doctor we want to update
-     *   }
-     * })
-     */
-    upsert<T extends DoctorUpsertArgs>(args: SelectSubset<T, DoctorUpsertArgs<ExtArgs>>): Prisma__DoctorClient<$Result.GetResult<Prisma.$DoctorPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-
-    /**
-     * Count the number of Doctors.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {DoctorCountArgs} args - Arguments to filter Doctors to count.
-     * @example
-     * // Count the number of Doctors
-     * const count = await prisma.doctor.count({
-     *   where: {
-     *     // ... the filter for the Doctors we want to count
-     *   }
-     * })
-    **/
-    count<T extends DoctorCountArgs>(
-      args?: Subset<T, DoctorCountArgs>,
-    ): Prisma.PrismaPromise<
-      T extends $Utils.Record<'select', any>
-        ? T['select'] extends true
-          ? number
-          : GetScalarType<T['select'], DoctorCountAggregateOutputType>
-        : number
-    >
-
-    /**
-     * Allows you to perform aggregations operations on a Doctor.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {DoctorAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
-     * @example
-     * // Ordered by age ascending
-     * // Where email contains prisma.io
-     * // Limited to the 10 users
-     * const aggregations = await prisma.user.aggregate({
-     *   _avg: {
-     *     age: true,
-     *   },
-     *   where: {
-     *     email: {
-     *       contains: "prisma.io",
-     *     },
-     *   },
-     *   orderBy: {
-     *     age: "asc",
-     *   },
-     *   take: 10,
-     * })
-    **/
-    aggregate<T extends DoctorAggregateArgs>(args: Subset<T, DoctorAggregateArgs>): Prisma.PrismaPromise<GetDoctorAggregateType<T>>
-
-    /**
-     * Group by Doctor.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {DoctorGroupByArgs} args - Group by arguments.
-     * @example
-     * // Group by city, order by createdAt, get count
-     * const result = await prisma.user.groupBy({
-     *   by: ['city', 'createdAt'],
-     *   orderBy: {
-     *     createdAt: true
-     *   },
-     *   _count: {
-     *     _all: true
-     *   },
-     * })
-     * 
-    **/
-    groupBy<
-      T extends DoctorGroupByArgs,
-      HasSelectOrTake extends Or<
-        Extends<'skip', Keys<T>>,
-        Extends<'take', Keys<T>>
-      >,
-      OrderByArg extends True extends HasSelectOrTake
-        ? { orderBy: DoctorGroupByArgs['orderBy'] }
-        : { orderBy?: DoctorGroupByArgs['orderBy'] },
-      OrderFields extends ExcludeUnderscoreKeys<Keys<MaybeTupleToUnion<T['orderBy']>>>,
-      ByFields extends MaybeTupleToUnion<T['by']>,
-      ByValid extends Has<ByFields, OrderFields>,
-      HavingFields extends GetHavingFields<T['having']>,
-      HavingValid extends Has<ByFields, HavingFields>,
-      ByEmpty extends T['by'] extends never[] ? True : False,
-      InputErrors extends ByEmpty extends True
-      ? `Error: "by" must not be empty.`
-      : HavingValid extends False
-      ? {
-          [P in HavingFields]: P extends ByFields
-            ? never
-            : P extends string
-            ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
-            : [
-                Error,
-                'Field ',
-                P,
-                ` in "having" needs to be provided in "by"`,
-              ]
-        }[HavingFields]
-      : 'take' extends Keys<T>
-      ? 'orderBy' extends Keys<T>
-        ? ByValid extends True
-          ? {}
-          : {
-              [P in OrderFields]: P extends ByFields
-                ? never
-                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
-            }[OrderFields]
-        : 'Error: If you provide "take", you also need to provide "orderBy"'
-      : 'skip' extends Keys<T>
-      ? 'orderBy' extends Keys<T>
-        ? ByValid extends True
-          ? {}
-          : {
-              [P in OrderFields]: P extends ByFields
-                ? never
-                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
-            }[OrderFields]
-        : 'Error: If you provide "skip", you also need to provide "orderBy"'
-      : ByValid extends True
-      ? {}
-      : {
-          [P in OrderFields]: P extends ByFields
-            ? never
-            : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
-        }[OrderFields]
-    >(args: SubsetIntersection<T, DoctorGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetDoctorGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
-  /**
-   * Fields of the Doctor model
-   */
-  readonly fields: DoctorFieldRefs;
-  }
-
-  /**
-   * The delegate class that acts as a "Promise-like" for Doctor.
-   * Why is this prefixed with `Prisma__`?
-   * Because we want to prevent naming conflicts as mentioned in
-   * https://github.com/prisma/prisma-client-js/issues/707
-   */
-  export interface Prisma__DoctorClient<T, Null = never, ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
-    readonly [Symbol.toStringTag]: "PrismaPromise"
-    hospital<T extends HospitalDefaultArgs<ExtArgs> = {}>(args?: Subset<T, HospitalDefaultArgs<ExtArgs>>): Prisma__HospitalClient<$Result.GetResult<Prisma.$HospitalPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
-    patients<T extends Doctor$patientsArgs<ExtArgs> = {}>(args?: Subset<T, Doctor$patientsArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$ReceiptPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
-    appointments<T extends Doctor$appointmentsArgs<ExtArgs> = {}>(args?: Subset<T, Doctor$appointmentsArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$AppointmentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
-    /**
-     * Attaches callbacks for the resolution and/or rejection of the Promise.
-     * @param onfulfilled The callback to execute when the Promise is resolved.
-     * @param onrejected The callback to execute when the Promise is rejected.
-     * @returns A Promise for the completion of which ever callback is executed.
-     */
-    then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): $Utils.JsPromise<TResult1 | TResult2>
-    /**
-     * Attaches a callback for only the rejection of the Promise.
-     * @param onrejected The callback to execute when the Promise is rejected.
-     * @returns A Promise for the completion of the callback.
-     */
-    catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): $Utils.JsPromise<T | TResult>
-    /**
-     * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
-     * resolved value cannot be modified from the callback.
-     * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
-     * @returns A Promise for the completion of the callback.
-     */
-    finally(onfinally?: (() => void) | undefined | null): $Utils.JsPromise<T>
-  }
-
-
-
-
-  /**
-   * Fields of the Doctor model
-   */
-  interface DoctorFieldRefs {
-    readonly id: FieldRef<"Doctor", 'String'>
-    readonly name: FieldRef<"Doctor", 'String'>
-    readonly specialty: FieldRef<"Doctor", 'String'>
-    readonly hospitalId: FieldRef<"Doctor", 'String'>
-    readonly available: FieldRef<"Doctor", 'Boolean'>
-  }
-    
-
-  // Custom InputTypes
-  /**
-   * Doctor findUnique
-   */
-  export type DoctorFindUniqueArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Doctor
-     */
-    select?: DoctorSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Doctor
-     */
-    omit?: DoctorOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: DoctorInclude<ExtArgs> | null
-    /**
-     * Filter, which Doctor to fetch.
-     */
-    where: DoctorWhereUniqueInput
-  }
-
-  /**
-   * Doctor findUniqueOrThrow
-   */
-  export type DoctorFindUniqueOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Doctor
-     */
-    select?: DoctorSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Doctor
-     */
-    omit?: DoctorOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: DoctorInclude<ExtArgs> | null
-    /**
-     * Filter, which Doctor to fetch.
-     */
-    where: DoctorWhereUniqueInput
-  }
-
-  /**
-   * Doctor findFirst
-   */
-  export type DoctorFindFirstArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Doctor
-     */
-    select?: DoctorSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Doctor
-     */
-    omit?: DoctorOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: DoctorInclude<ExtArgs> | null
-    /**
-     * Filter, which Doctor to fetch.
-     */
-    where?: DoctorWhereInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
-     * 
-     * Determine the order of Doctors to fetch.
-     */
-    orderBy?: DoctorOrderByWithRelationInput | DoctorOrderByWithRelationInput[]
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
-     * 
-     * Sets the position for searching for Doctors.
-     */
-    cursor?: DoctorWhereUniqueInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Take `±n` Doctors from the position of the cursor.
-     */
-    take?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Skip the first `n` Doctors.
-     */
-    skip?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
-     * 
-     * Filter by unique combinations of Doctors.
-     */
-    distinct?: DoctorScalarFieldEnum | DoctorScalarFieldEnum[]
-  }
-
-  /**
-   * Doctor findFirstOrThrow
-   */
-  export type DoctorFindFirstOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Doctor
-     */
-    select?: DoctorSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Doctor
-     */
-    omit?: DoctorOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: DoctorInclude<ExtArgs> | null
-    /**
-     * Filter, which Doctor to fetch.
-     */
-    where?: DoctorWhereInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
-     * 
-     * Determine the order of Doctors to fetch.
-     */
-    orderBy?: DoctorOrderByWithRelationInput | DoctorOrderByWithRelationInput[]
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
-     * 
-     * Sets the position for searching for Doctors.
-     */
-    cursor?: DoctorWhereUniqueInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Take `±n` Doctors from the position of the cursor.
-     */
-    take?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Skip the first `n` Doctors.
-     */
-    skip?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
-     * 
-     * Filter by unique combinations of Doctors.
-     */
-    distinct?: DoctorScalarFieldEnum | DoctorScalarFieldEnum[]
-  }
-
-  /**
-   * Doctor findMany
-   */
-  export type DoctorFindManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Doctor
-     */
-    select?: DoctorSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Doctor
-     */
-    omit?: DoctorOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: DoctorInclude<ExtArgs> | null
-    /**
-     * Filter, which Doctors to fetch.
-     */
-    where?: DoctorWhereInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
-     * 
-     * Determine the order of Doctors to fetch.
-     */
-    orderBy?: DoctorOrderByWithRelationInput | DoctorOrderByWithRelationInput[]
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
-     * 
-     * Sets the position for listing Doctors.
-     */
-    cursor?: DoctorWhereUniqueInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Take `±n` Doctors from the position of the cursor.
-     */
-    take?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Skip the first `n` Doctors.
-     */
-    skip?: number
-    distinct?: DoctorScalarFieldEnum | DoctorScalarFieldEnum[]
-  }
-
-  /**
-   * Doctor create
-   */
-  export type DoctorCreateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Doctor
-     */
-    select?: DoctorSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Doctor
-     */
-    omit?: DoctorOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: DoctorInclude<ExtArgs> | null
-    /**
-     * The data needed to create a Doctor.
-     */
-    data: XOR<DoctorCreateInput, DoctorUncheckedCreateInput>
-  }
-
-  /**
-   * Doctor createMany
-   */
-  export type DoctorCreateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * The data used to create many Doctors.
-     */
-    data: DoctorCreateManyInput | DoctorCreateManyInput[]
-    skipDuplicates?: boolean
-  }
-
-  /**
-   * Doctor createManyAndReturn
-   */
-  export type DoctorCreateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Doctor
-     */
-    select?: DoctorSelectCreateManyAndReturn<ExtArgs> | null
-    /**
-     * Omit specific fields from the Doctor
-     */
-    omit?: DoctorOmit<ExtArgs> | null
-    /**
-     * The data used to create many Doctors.
-     */
-    data: DoctorCreateManyInput | DoctorCreateManyInput[]
-    skipDuplicates?: boolean
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: DoctorIncludeCreateManyAndReturn<ExtArgs> | null
-  }
-
-  /**
-   * Doctor update
-   */
-  export type DoctorUpdateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Doctor
-     */
-    select?: DoctorSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Doctor
-     */
-    omit?: DoctorOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: DoctorInclude<ExtArgs> | null
-    /**
-     * The data needed to update a Doctor.
-     */
-    data: XOR<DoctorUpdateInput, DoctorUncheckedUpdateInput>
-    /**
-     * Choose, which Doctor to update.
-     */
-    where: DoctorWhereUniqueInput
-  }
-
-  /**
-   * Doctor updateMany
-   */
-  export type DoctorUpdateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * The data used to update Doctors.
-     */
-    data: XOR<DoctorUpdateManyMutationInput, DoctorUncheckedUpdateManyInput>
-    /**
-     * Filter which Doctors to update
-     */
-    where?: DoctorWhereInput
-    /**
-     * Limit how many Doctors to update.
-     */
-    limit?: number
-  }
-
-  /**
-   * Doctor updateManyAndReturn
-   */
-  export type DoctorUpdateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Doctor
-     */
-    select?: DoctorSelectUpdateManyAndReturn<ExtArgs> | null
-    /**
-     * Omit specific fields from the Doctor
-     */
-    omit?: DoctorOmit<ExtArgs> | null
-    /**
-     * The data used to update Doctors.
-     */
-    data: XOR<DoctorUpdateManyMutationInput, DoctorUncheckedUpdateManyInput>
-    /**
-     * Filter which Doctors to update
-     */
-    where?: DoctorWhereInput
-    /**
-     * Limit how many Doctors to update.
-     */
-    limit?: number
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: DoctorIncludeUpdateManyAndReturn<ExtArgs> | null
-  }
-
-  /**
-   * Doctor upsert
-   */
-  export type DoctorUpsertArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Doctor
-     */
-    select?: DoctorSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Doctor
-     */
-    omit?: DoctorOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: DoctorInclude<ExtArgs> | null
-    /**
-     * The filter to search for the Doctor to update in case it exists.
-     */
-    where: DoctorWhereUniqueInput
-    /**
-     * In case the Doctor found by the `where` argument doesn't exist, create a new Doctor with this data.
-     */
-    create: XOR<DoctorCreateInput, DoctorUncheckedCreateInput>
-    /**
-     * In case the Doctor was found with the provided `where` argument, update it with this data.
-     */
-    update: XOR<DoctorUpdateInput, DoctorUncheckedUpdateInput>
-  }
-
-  /**
-   * Doctor delete
-   */
-  export type DoctorDeleteArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Doctor
-     */
-    select?: DoctorSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Doctor
-     */
-    omit?: DoctorOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: DoctorInclude<ExtArgs> | null
-    /**
-     * Filter which Doctor to delete.
-     */
-    where: DoctorWhereUniqueInput
-  }
-
-  /**
-   * Doctor deleteMany
-   */
-  export type DoctorDeleteManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Filter which Doctors to delete
-     */
-    where?: DoctorWhereInput
-    /**
-     * Limit how many Doctors to delete.
-     */
-    limit?: number
-  }
-
-  /**
-   * Doctor.patients
-   */
-  export type Doctor$patientsArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Receipt
-     */
-    select?: ReceiptSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Receipt
-     */
-    omit?: ReceiptOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: ReceiptInclude<ExtArgs> | null
-    where?: ReceiptWhereInput
-    orderBy?: ReceiptOrderByWithRelationInput | ReceiptOrderByWithRelationInput[]
-    cursor?: ReceiptWhereUniqueInput
-    take?: number
-    skip?: number
-    distinct?: ReceiptScalarFieldEnum | ReceiptScalarFieldEnum[]
-  }
-
-  /**
-   * Doctor.appointments
-   */
-  export type Doctor$appointmentsArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Appointment
-     */
-    select?: AppointmentSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Appointment
-     */
-    omit?: AppointmentOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: AppointmentInclude<ExtArgs> | null
-    where?: AppointmentWhereInput
-    orderBy?: AppointmentOrderByWithRelationInput | AppointmentOrderByWithRelationInput[]
-    cursor?: AppointmentWhereUniqueInput
-    take?: number
-    skip?: number
-    distinct?: AppointmentScalarFieldEnum | AppointmentScalarFieldEnum[]
-  }
-
-  /**
-   * Doctor without action
-   */
-  export type DoctorDefaultArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Doctor
-     */
-    select?: DoctorSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Doctor
-     */
-    omit?: DoctorOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: DoctorInclude<ExtArgs> | null
-  }
-
-
-  /**
-   * Model Appointment
-   */
-
-  export type AggregateAppointment = {
-    _count: AppointmentCountAggregateOutputType | null
-    _avg: AppointmentAvgAggregateOutputType | null
-    _sum: AppointmentSumAggregateOutputType | null
-    _min: AppointmentMinAggregateOutputType | null
-    _max: AppointmentMaxAggregateOutputType | null
-  }
-
-  export type AppointmentAvgAggregateOutputType = {
-    severity: number | null
-  }
-
-  export type AppointmentSumAggregateOutputType = {
-    severity: number | null
-  }
-
-  export type AppointmentMinAggregateOutputType = {
-    id: string | null
-    userId: string | null
-    hospitalId: string | null
-    doctorId: string | null
-    symptoms: string | null
-    aiAnalysis: string | null
-    severity: number | null
-    status: $Enums.AppointmentStatus | null
-    preferredDate: Date | null
-    scheduledDate: Date | null
-    createdAt: Date | null
-    updatedAt: Date | null
-  }
-
-  export type AppointmentMaxAggregateOutputType = {
-    id: string | null
-    userId: string | null
-    hospitalId: string | null
-    doctorId: string | null
-    symptoms: string | null
-    aiAnalysis: string | null
-    severity: number | null
-    status: $Enums.AppointmentStatus | null
-    preferredDate: Date | null
-    scheduledDate: Date | null
-    createdAt: Date | null
-    updatedAt: Date | null
-  }
-
-  export type AppointmentCountAggregateOutputType = {
-    id: number
-    userId: number
-    hospitalId: number
-    doctorId: number
-    symptoms: number
-    aiAnalysis: number
-    severity: number
-    status: number
-    preferredDate: number
-    scheduledDate: number
-    createdAt: number
-    updatedAt: number
-    _all: number
-  }
-
-
-  export type AppointmentAvgAggregateInputType = {
-    severity?: true
-  }
-
-  export type AppointmentSumAggregateInputType = {
-    severity?: true
-  }
-
-  export type AppointmentMinAggregateInputType = {
-    id?: true
-    userId?: true
-    hospitalId?: true
-    doctorId?: true
-    symptoms?: true
-    aiAnalysis?: true
-    severity?: true
-    status?: true
-    preferredDate?: true
-    scheduledDate?: true
-    createdAt?: true
-    updatedAt?: true
-  }
-
-  export type AppointmentMaxAggregateInputType = {
-    id?: true
-    userId?: true
-    hospitalId?: true
-    doctorId?: true
-    symptoms?: true
-    aiAnalysis?: true
-    severity?: true
-    status?: true
-    preferredDate?: true
-    scheduledDate?: true
-    createdAt?: true
-    updatedAt?: true
-  }
-
-  export type AppointmentCountAggregateInputType = {
-    id?: true
-    userId?: true
-    hospitalId?: true
-    doctorId?: true
-    symptoms?: true
-    aiAnalysis?: true
-    severity?: true
-    status?: true
-    preferredDate?: true
-    scheduledDate?: true
-    createdAt?: true
-    updatedAt?: true
-    _all?: true
-  }
-
-  export type AppointmentAggregateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Filter which Appointment to aggregate.
-     */
-    where?: AppointmentWhereInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
-     * 
-     * Determine the order of Appointments to fetch.
-     */
-    orderBy?: AppointmentOrderByWithRelationInput | AppointmentOrderByWithRelationInput[]
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
-     * 
-     * Sets the start position
-     */
-    cursor?: AppointmentWhereUniqueInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Take `±n` Appointments from the position of the cursor.
-     */
-    take?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Skip the first `n` Appointments.
-     */
-    skip?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
-     * 
-     * Count returned Appointments
-    **/
-    _count?: true | AppointmentCountAggregateInputType
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
-     * 
-     * Select which fields to average
-    **/
-    _avg?: AppointmentAvgAggregateInputType
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
-     * 
-     * Select which fields to sum
-    **/
-    _sum?: AppointmentSumAggregateInputType
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
-     * 
-     * Select which fields to find the minimum value
-    **/
-    _min?: AppointmentMinAggregateInputType
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
-     * 
-     * Select which fields to find the maximum value
-    **/
-    _max?: AppointmentMaxAggregateInputType
-  }
-
-  export type GetAppointmentAggregateType<T extends AppointmentAggregateArgs> = {
-        [P in keyof T & keyof AggregateAppointment]: P extends '_count' | 'count'
-      ? T[P] extends true
-        ? number
-        : GetScalarType<T[P], AggregateAppointment[P]>
-      : GetScalarType<T[P], AggregateAppointment[P]>
-  }
-
-
-
-
-  export type AppointmentGroupByArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    where?: AppointmentWhereInput
-    orderBy?: AppointmentOrderByWithAggregationInput | AppointmentOrderByWithAggregationInput[]
-    by: AppointmentScalarFieldEnum[] | AppointmentScalarFieldEnum
-    having?: AppointmentScalarWhereWithAggregatesInput
-    take?: number
-    skip?: number
-    _count?: AppointmentCountAggregateInputType | true
-    _avg?: AppointmentAvgAggregateInputType
-    _sum?: AppointmentSumAggregateInputType
-    _min?: AppointmentMinAggregateInputType
-    _max?: AppointmentMaxAggregateInputType
-  }
-
-  export type AppointmentGroupByOutputType = {
-    id: string
-    userId: string
-    hospitalId: string
-    doctorId: string | null
-    symptoms: string
-    aiAnalysis: string | null
-    severity: number | null
-    status: $Enums.AppointmentStatus
-    preferredDate: Date
-    scheduledDate: Date | null
-    createdAt: Date
-    updatedAt: Date
-    _count: AppointmentCountAggregateOutputType | null
-    _avg: AppointmentAvgAggregateOutputType | null
-    _sum: AppointmentSumAggregateOutputType | null
-    _min: AppointmentMinAggregateOutputType | null
-    _max: AppointmentMaxAggregateOutputType | null
-  }
-
-  type GetAppointmentGroupByPayload<T extends AppointmentGroupByArgs> = Prisma.PrismaPromise<
-    Array<
-      PickEnumerable<AppointmentGroupByOutputType, T['by']> &
-        {
-          [P in ((keyof T) & (keyof AppointmentGroupByOutputType))]: P extends '_count'
-            ? T[P] extends boolean
-              ? number
-              : GetScalarType<T[P], AppointmentGroupByOutputType[P]>
-            : GetScalarType<T[P], AppointmentGroupByOutputType[P]>
-        }
-      >
-    >
-
-
-  export type AppointmentSelect<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
-    id?: boolean
-    userId?: boolean
-    hospitalId?: boolean
-    doctorId?: boolean
-    symptoms?: boolean
-    aiAnalysis?: boolean
-    severity?: boolean
-    status?: boolean
-    preferredDate?: boolean
-    scheduledDate?: boolean
-    createdAt?: boolean
-    updatedAt?: boolean
-    user?: boolean | UserDefaultArgs<ExtArgs>
-    hospital?: boolean | HospitalDefaultArgs<ExtArgs>
-    doctor?: boolean | Appointment$doctorArgs<ExtArgs>
-  }, ExtArgs["result"]["appointment"]>
-
-  export type AppointmentSelectCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
-    id?: boolean
-    userId?: boolean
-    hospitalId?: boolean
-    doctorId?: boolean
-    symptoms?: boolean
-    aiAnalysis?: boolean
-    severity?: boolean
-    status?: boolean
-    preferredDate?: boolean
-    scheduledDate?: boolean
-    createdAt?: boolean
-    updatedAt?: boolean
-    user?: boolean | UserDefaultArgs<ExtArgs>
-    hospital?: boolean | HospitalDefaultArgs<ExtArgs>
-    doctor?: boolean | Appointment$doctorArgs<ExtArgs>
-  }, ExtArgs["result"]["appointment"]>
-
-  export type AppointmentSelectUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
-    id?: boolean
-    userId?: boolean
-    hospitalId?: boolean
-    doctorId?: boolean
-    symptoms?: boolean
-    aiAnalysis?: boolean
-    severity?: boolean
-    status?: boolean
-    preferredDate?: boolean
-    scheduledDate?: boolean
-    createdAt?: boolean
-    updatedAt?: boolean
-    user?: boolean | UserDefaultArgs<ExtArgs>
-    hospital?: boolean | HospitalDefaultArgs<ExtArgs>
-    doctor?: boolean | Appointment$doctorArgs<ExtArgs>
-  }, ExtArgs["result"]["appointment"]>
-
-  export type AppointmentSelectScalar = {
-    id?: boolean
-    userId?: boolean
-    hospitalId?: boolean
-    doctorId?: boolean
-    symptoms?: boolean
-    aiAnalysis?: boolean
-    severity?: boolean
-    status?: boolean
-    preferredDate?: boolean
-    scheduledDate?: boolean
-    createdAt?: boolean
-    updatedAt?: boolean
-  }
-
-  export type AppointmentOmit<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetOmit<"id" | "userId" | "hospitalId" | "doctorId" | "symptoms" | "aiAnalysis" | "severity" | "status" | "preferredDate" | "scheduledDate" | "createdAt" | "updatedAt", ExtArgs["result"]["appointment"]>
-  export type AppointmentInclude<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    user?: boolean | UserDefaultArgs<ExtArgs>
-    hospital?: boolean | HospitalDefaultArgs<ExtArgs>
-    doctor?: boolean | Appointment$doctorArgs<ExtArgs>
-  }
-  export type AppointmentIncludeCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    user?: boolean | UserDefaultArgs<ExtArgs>
-    hospital?: boolean | HospitalDefaultArgs<ExtArgs>
-    doctor?: boolean | Appointment$doctorArgs<ExtArgs>
-  }
-  export type AppointmentIncludeUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    user?: boolean | UserDefaultArgs<ExtArgs>
-    hospital?: boolean | HospitalDefaultArgs<ExtArgs>
-    doctor?: boolean | Appointment$doctorArgs<ExtArgs>
-  }
-
-  export type $AppointmentPayload<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    name: "Appointment"
-    objects: {
-      user: Prisma.$UserPayload<ExtArgs>
-      hospital: Prisma.$HospitalPayload<ExtArgs>
-      doctor: Prisma.$DoctorPayload<ExtArgs> | null
-    }
-    scalars: $Extensions.GetPayloadResult<{
-      id: string
-      userId: string
-      hospitalId: string
-      doctorId: string | null
-      symptoms: string
-      aiAnalysis: string | null
-      severity: number | null
-      status: $Enums.AppointmentStatus
-      preferredDate: Date
-      scheduledDate: Date | null
-      createdAt: Date
-      updatedAt: Date
-    }, ExtArgs["result"]["appointment"]>
-    composites: {}
-  }
-
-  type AppointmentGetPayload<S extends boolean | null | undefined | AppointmentDefaultArgs> = $Result.GetResult<Prisma.$AppointmentPayload, S>
-
-  type AppointmentCountArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> =
-    Omit<AppointmentFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
-      select?: AppointmentCountAggregateInputType | true
-    }
-
-  export interface AppointmentDelegate<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> {
-    [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['Appointment'], meta: { name: 'Appointment' } }
-    /**
-     * Find zero or one Appointment that matches the filter.
-     * @param {AppointmentFindUniqueArgs} args - Arguments to find a Appointment
-     * @example
-     * // Get one Appointment
-     * const appointment = await prisma.appointment.findUnique({
-     *   where: {
-     *     // ... provide filter here
-     *   }
-     * })
-     */
-    findUnique<T extends AppointmentFindUniqueArgs>(args: SelectSubset<T, AppointmentFindUniqueArgs<ExtArgs>>): Prisma__AppointmentClient<$Result.GetResult<Prisma.$AppointmentPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Find one Appointment that matches the filter or throw an error with `error.code='P2025'`
-     * if no matches were found.
-     * @param {AppointmentFindUniqueOrThrowArgs} args - Arguments to find a Appointment
-     * @example
-     * // Get one Appointment
-     * const appointment = await prisma.appointment.findUniqueOrThrow({
-     *   where: {
-     *     // ... provide filter here
-     *   }
-     * })
-     */
-    findUniqueOrThrow<T extends AppointmentFindUniqueOrThrowArgs>(args: SelectSubset<T, AppointmentFindUniqueOrThrowArgs<ExtArgs>>): Prisma__AppointmentClient<$Result.GetResult<Prisma.$AppointmentPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Find the first Appointment that matches the filter.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {AppointmentFindFirstArgs} args - Arguments to find a Appointment
-     * @example
-     * // Get one Appointment
-     * const appointment = await prisma.appointment.findFirst({
-     *   where: {
-     *     // ... provide filter here
-     *   }
-     * })
-     */
-    findFirst<T extends AppointmentFindFirstArgs>(args?: SelectSubset<T, AppointmentFindFirstArgs<ExtArgs>>): Prisma__AppointmentClient<$Result.GetResult<Prisma.$AppointmentPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Find the first Appointment that matches the filter or
-     * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {AppointmentFindFirstOrThrowArgs} args - Arguments to find a Appointment
-     * @example
-     * // Get one Appointment
-     * const appointment = await prisma.appointment.findFirstOrThrow({
-     *   where: {
-     *     // ... provide filter here
-     *   }
-     * })
-     */
-    findFirstOrThrow<T extends AppointmentFindFirstOrThrowArgs>(args?: SelectSubset<T, AppointmentFindFirstOrThrowArgs<ExtArgs>>): Prisma__AppointmentClient<$Result.GetResult<Prisma.$AppointmentPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Find zero or more Appointments that matches the filter.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {AppointmentFindManyArgs} args - Arguments to filter and select certain fields only.
-     * @example
-     * // Get all Appointments
-     * const appointments = await prisma.appointment.findMany()
-     * 
-     * // Get first 10 Appointments
-     * const appointments = await prisma.appointment.findMany({ take: 10 })
-     * 
-     * // Only select the `id`
-     * const appointmentWithIdOnly = await prisma.appointment.findMany({ select: { id: true } })
-     * 
-     */
-    findMany<T extends AppointmentFindManyArgs>(args?: SelectSubset<T, AppointmentFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$AppointmentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
-
-    /**
-     * Create a Appointment.
-     * @param {AppointmentCreateArgs} args - Arguments to create a Appointment.
-     * @example
-     * // Create one Appointment
-     * const Appointment = await prisma.appointment.create({
-     *   data: {
-     *     // ... data to create a Appointment
-     *   }
-     * })
-     * 
-     */
-    create<T extends AppointmentCreateArgs>(args: SelectSubset<T, AppointmentCreateArgs<ExtArgs>>): Prisma__AppointmentClient<$Result.GetResult<Prisma.$AppointmentPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Create many Appointments.
-     * @param {AppointmentCreateManyArgs} args - Arguments to create many Appointments.
-     * @example
-     * // Create many Appointments
-     * const appointment = await prisma.appointment.createMany({
-     *   data: [
-     *     // ... provide data here
-     *   ]
-     * })
-     *     
-     */
-    createMany<T extends AppointmentCreateManyArgs>(args?: SelectSubset<T, AppointmentCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
-
-    /**
-     * Create many Appointments and returns the data saved in the database.
-     * @param {AppointmentCreateManyAndReturnArgs} args - Arguments to create many Appointments.
-     * @example
-     * // Create many Appointments
-     * const appointment = await prisma.appointment.createManyAndReturn({
-     *   data: [
-     *     // ... provide data here
-     *   ]
-     * })
-     * 
-     * // Create many Appointments and only return the `id`
-     * const appointmentWithIdOnly = await prisma.appointment.createManyAndReturn({
-     *   select: { id: true },
-     *   data: [
-     *     // ... provide data here
-     *   ]
-     * })
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * 
-     */
-    createManyAndReturn<T extends AppointmentCreateManyAndReturnArgs>(args?: SelectSubset<T, AppointmentCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$AppointmentPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
-
-    /**
-     * Delete a Appointment.
-     * @param {AppointmentDeleteArgs} args - Arguments to delete one Appointment.
-     * @example
-     * // Delete one Appointment
-     * const Appointment = await prisma.appointment.delete({
-     *   where: {
-     *     // ... filter to delete one Appointment
-     *   }
-     * })
-     * 
-     */
-    delete<T extends AppointmentDeleteArgs>(args: SelectSubset<T, AppointmentDeleteArgs<ExtArgs>>): Prisma__AppointmentClient<$Result.GetResult<Prisma.$AppointmentPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Update one Appointment.
-     * @param {AppointmentUpdateArgs} args - Arguments to update one Appointment.
-     * @example
-     * // Update one Appointment
-     * const appointment = await prisma.appointment.update({
-     *   where: {
-     *     // ... provide filter here
-     *   },
-     *   data: {
-     *     // ... provide data here
-     *   }
-     * })
-     * 
-     */
-    update<T extends AppointmentUpdateArgs>(args: SelectSubset<T, AppointmentUpdateArgs<ExtArgs>>): Prisma__AppointmentClient<$Result.GetResult<Prisma.$AppointmentPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Delete zero or more Appointments.
-     * @param {AppointmentDeleteManyArgs} args - Arguments to filter Appointments to delete.
-     * @example
-     * // Delete a few Appointments
-     * const { count } = await prisma.appointment.deleteMany({
-     *   where: {
-     *     // ... provide filter here
-     *   }
-     * })
-     * 
-     */
-    deleteMany<T extends AppointmentDeleteManyArgs>(args?: SelectSubset<T, AppointmentDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
-
-    /**
-     * Update zero or more Appointments.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {AppointmentUpdateManyArgs} args - Arguments to update one or more rows.
-     * @example
-     * // Update many Appointments
-     * const appointment = await prisma.appointment.updateMany({
-     *   where: {
-     *     // ... provide filter here
-     *   },
-     *   data: {
-     *     // ... provide data here
-     *   }
-     * })
-     * 
-     */
-    updateMany<T extends AppointmentUpdateManyArgs>(args: SelectSubset<T, AppointmentUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
-
-    /**
-     * Update zero or more Appointments and returns the data updated in the database.
-     * @param {AppointmentUpdateManyAndReturnArgs} args - Arguments to update many Appointments.
-     * @example
-     * // Update many Appointments
-     * const appointment = await prisma.appointment.updateManyAndReturn({
-     *   where: {
-     *     // ... provide filter here
-     *   },
-     *   data: [
-     *     // ... provide data here
-     *   ]
-     * })
-     * 
-     * // Update zero or more Appointments and only return the `id`
-     * const appointmentWithIdOnly = await prisma.appointment.updateManyAndReturn({
-     *   select: { id: true },
-     *   where: {
-     *     // ... provide filter here
-     *   },
-     *   data: [
-     *     // ... provide data here
-     *   ]
-     * })
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * 
-     */
-    updateManyAndReturn<T extends AppointmentUpdateManyAndReturnArgs>(args: SelectSubset<T, AppointmentUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$AppointmentPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
-
-    /**
-     * Create or update one Appointment.
-     * @param {AppointmentUpsertArgs} args - Arguments to update or create a Appointment.
-     * @example
-     * // Update or create a Appointment
-     * const appointment = await prisma.appointment.upsert({
-     *   create: {
-     *     // ... data to create a Appointment
-     *   },
-     *   update: {
-     *     // ... in case it already exists, update
-     *   },
-     *   where: {
-     *     // ... the filter for the Appointment we want to update
-     *   }
-     * })
-     */
-    upsert<T extends AppointmentUpsertArgs>(args: SelectSubset<T, AppointmentUpsertArgs<ExtArgs>>): Prisma__AppointmentClient<$Result.GetResult<Prisma.$AppointmentPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-
-    /**
-     * Count the number of Appointments.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {AppointmentCountArgs} args - Arguments to filter Appointments to count.
-     * @example
-     * // Count the number of Appointments
-     * const count = await prisma.appointment.count({
-     *   where: {
-     *     // ... the filter for the Appointments we want to count
-     *   }
-     * })
-    **/
-    count<T extends AppointmentCountArgs>(
-      args?: Subset<T, AppointmentCountArgs>,
-    ): Prisma.PrismaPromise<
-      T extends $Utils.Record<'select', any>
-        ? T['select'] extends true
-          ? number
-          : GetScalarType<T['select'], AppointmentCountAggregateOutputType>
-        : number
-    >
-
-    /**
-     * Allows you to perform aggregations operations on a Appointment.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {AppointmentAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
-     * @example
-     * // Ordered by age ascending
-     * // Where email contains prisma.io
-     * // Limited to the 10 users
-     * const aggregations = await prisma.user.aggregate({
-     *   _avg: {
-     *     age: true,
-     *   },
-     *   where: {
-     *     email: {
-     *       contains: "prisma.io",
-     *     },
-     *   },
-     *   orderBy: {
-     *     age: "asc",
-     *   },
-     *   take: 10,
-     * })
-    **/
-    aggregate<T extends AppointmentAggregateArgs>(args: Subset<T, AppointmentAggregateArgs>): Prisma.PrismaPromise<GetAppointmentAggregateType<T>>
-
-    /**
-     * Group by Appointment.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {AppointmentGroupByArgs} args - Group by arguments.
-     * @example
-     * // Group by city, order by createdAt, get count
-     * const result = await prisma.user.groupBy({
-     *   by: ['city', 'createdAt'],
-     *   orderBy: {
-     *     createdAt: true
-     *   },
-     *   _count: {
-     *     _all: true
-     *   },
-     * })
-     * 
-    **/
-    groupBy<
-      T extends AppointmentGroupByArgs,
-      HasSelectOrTake extends Or<
-        Extends<'skip', Keys<T>>,
-        Extends<'take', Keys<T>>
-      >,
-      OrderByArg extends True extends HasSelectOrTake
-        ? { orderBy: AppointmentGroupByArgs['orderBy'] }
-        : { orderBy?: AppointmentGroupByArgs['orderBy'] },
-      OrderFields extends ExcludeUnderscoreKeys<Keys<MaybeTupleToUnion<T['orderBy']>>>,
-      ByFields extends MaybeTupleToUnion<T['by']>,
-      ByValid extends Has<ByFields, OrderFields>,
-      HavingFields extends GetHavingFields<T['having']>,
-      HavingValid extends Has<ByFields, HavingFields>,
-      ByEmpty extends T['by'] extends never[] ? True : False,
-      InputErrors extends ByEmpty extends True
-      ? `Error: "by" must not be empty.`
-      : HavingValid extends False
-      ? {
-          [P in HavingFields]: P extends ByFields
-            ? never
-            : P extends string
-            ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
-            : [
-                Error,
-                'Field ',
-                P,
-                ` in "having" needs to be provided in "by"`,
-              ]
-        }[HavingFields]
-      : 'take' extends Keys<T>
-      ? 'orderBy' extends Keys<T>
-        ? ByValid extends True
-          ? {}
-          : {
-              [P in OrderFields]: P extends ByFields
-                ? never
-                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
-            }[OrderFields]
-        : 'Error: If you provide "take", you also need to provide "orderBy"'
-      : 'skip' extends Keys<T>
-      ? 'orderBy' extends Keys<T>
-        ? ByValid extends True
-          ? {}
-          : {
-              [P in OrderFields]: P extends ByFields
-                ? never
-                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
-            }[OrderFields]
-        : 'Error: If you provide "skip", you also need to provide "orderBy"'
-      : ByValid extends True
-      ? {}
-      : {
-          [P in OrderFields]: P extends ByFields
-            ? never
-            : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
-        }[OrderFields]
-    >(args: SubsetIntersection<T, AppointmentGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetAppointmentGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
-  /**
-   * Fields of the Appointment model
-   */
-  readonly fields: AppointmentFieldRefs;
-  }
-
-  /**
-   * The delegate class that acts as a "Promise-like" for Appointment.
-   * Why is this prefixed with `Prisma__`?
-   * Because we want to prevent naming conflicts as mentioned in
-   * https://github.com/prisma/prisma-client-js/issues/707
-   */
-  export interface Prisma__AppointmentClient<T, Null = never, ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
-    readonly [Symbol.toStringTag]: "PrismaPromise"
-    user<T extends UserDefaultArgs<ExtArgs> = {}>(args?: Subset<T, UserDefaultArgs<ExtArgs>>): Prisma__UserClient<$Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
-    hospital<T extends HospitalDefaultArgs<ExtArgs> = {}>(args?: Subset<T, HospitalDefaultArgs<ExtArgs>>): Prisma__HospitalClient<$Result.GetResult<Prisma.$HospitalPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
-    doctor<T extends Appointment$doctorArgs<ExtArgs> = {}>(args?: Subset<T, Appointment$doctorArgs<ExtArgs>>): Prisma__DoctorClient<$Result.GetResult<Prisma.$DoctorPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
-    /**
-     * Attaches callbacks for the resolution and/or rejection of the Promise.
-     * @param onfulfilled The callback to execute when the Promise is resolved.
-     * @param onrejected The callback to execute when the Promise is rejected.
-     * @returns A Promise for the completion of which ever callback is executed.
-     */
-    then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): $Utils.JsPromise<TResult1 | TResult2>
-    /**
-     * Attaches a callback for only the rejection of the Promise.
-     * @param onrejected The callback to execute when the Promise is rejected.
-     * @returns A Promise for the completion of the callback.
-     */
-    catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): $Utils.JsPromise<T | TResult>
-    /**
-     * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
-     * resolved value cannot be modified from the callback.
-     * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
-     * @returns A Promise for the completion of the callback.
-     */
-    finally(onfinally?: (() => void) | undefined | null): $Utils.JsPromise<T>
-  }
-
-
-
-
-  /**
-   * Fields of the Appointment model
-   */
-  interface AppointmentFieldRefs {
-    readonly id: FieldRef<"Appointment", 'String'>
-    readonly userId: FieldRef<"Appointment", 'String'>
-    readonly hospitalId: FieldRef<"Appointment", 'String'>
-    readonly doctorId: FieldRef<"Appointment", 'String'>
-    readonly symptoms: FieldRef<"Appointment", 'String'>
-    readonly aiAnalysis: FieldRef<"Appointment", 'String'>
-    readonly severity: FieldRef<"Appointment", 'Int'>
-    readonly status: FieldRef<"Appointment", 'AppointmentStatus'>
-    readonly preferredDate: FieldRef<"Appointment", 'DateTime'>
-    readonly scheduledDate: FieldRef<"Appointment", 'DateTime'>
-    readonly createdAt: FieldRef<"Appointment", 'DateTime'>
-    readonly updatedAt: FieldRef<"Appointment", 'DateTime'>
-  }
-    
-
-  // Custom InputTypes
-  /**
-   * Appointment findUnique
-   */
-  export type AppointmentFindUniqueArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Appointment
-     */
-    select?: AppointmentSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Appointment
-     */
-    omit?: AppointmentOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: AppointmentInclude<ExtArgs> | null
-    /**
-     * Filter, which Appointment to fetch.
-     */
-    where: AppointmentWhereUniqueInput
-  }
-
-  /**
-   * Appointment findUniqueOrThrow
-   */
-  export type AppointmentFindUniqueOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Appointment
-     */
-    select?: AppointmentSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Appointment
-     */
-    omit?: AppointmentOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: AppointmentInclude<ExtArgs> | null
-    /**
-     * Filter, which Appointment to fetch.
-     */
-    where: AppointmentWhereUniqueInput
-  }
-
-  /**
-   * Appointment findFirst
-   */
-  export type AppointmentFindFirstArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Appointment
-     */
-    select?: AppointmentSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Appointment
-     */
-    omit?: AppointmentOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: AppointmentInclude<ExtArgs> | null
-    /**
-     * Filter, which Appointment to fetch.
-     */
-    where?: AppointmentWhereInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
-     * 
-     * Determine the order of Appointments to fetch.
-     */
-    orderBy?: AppointmentOrderByWithRelationInput | AppointmentOrderByWithRelationInput[]
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
-     * 
-     * Sets the position for searching for Appointments.
-     */
-    cursor?: AppointmentWhereUniqueInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Take `±n` Appointments from the position of the cursor.
-     */
-    take?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Skip the first `n` Appointments.
-     */
-    skip?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
-     * 
-     * Filter by unique combinations of Appointments.
-     */
-    distinct?: AppointmentScalarFieldEnum | AppointmentScalarFieldEnum[]
-  }
-
-  /**
-   * Appointment findFirstOrThrow
-   */
-  export type AppointmentFindFirstOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Appointment
-     */
-    select?: AppointmentSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Appointment
-     */
-    omit?: AppointmentOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: AppointmentInclude<ExtArgs> | null
-    /**
-     * Filter, which Appointment to fetch.
-     */
-    where?: AppointmentWhereInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
-     * 
-     * Determine the order of Appointments to fetch.
-     */
-    orderBy?: AppointmentOrderByWithRelationInput | AppointmentOrderByWithRelationInput[]
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
-     * 
-     * Sets the position for searching for Appointments.
-     */
-    cursor?: AppointmentWhereUniqueInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Take `±n` Appointments from the position of the cursor.
-     */
-    take?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Skip the first `n` Appointments.
-     */
-    skip?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
-     * 
-     * Filter by unique combinations of Appointments.
-     */
-    distinct?: AppointmentScalarFieldEnum | AppointmentScalarFieldEnum[]
-  }
-
-  /**
-   * Appointment findMany
-   */
-  export type AppointmentFindManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Appointment
-     */
-    select?: AppointmentSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Appointment
-     */
-    omit?: AppointmentOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: AppointmentInclude<ExtArgs> | null
-    /**
-     * Filter, which Appointments to fetch.
-     */
-    where?: AppointmentWhereInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
-     * 
-     * Determine the order of Appointments to fetch.
-     */
-    orderBy?: AppointmentOrderByWithRelationInput | AppointmentOrderByWithRelationInput[]
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
-     * 
-     * Sets the position for listing Appointments.
-     */
-    cursor?: AppointmentWhereUniqueInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Take `±n` Appointments from the position of the cursor.
-     */
-    take?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Skip the first `n` Appointments.
-     */
-    skip?: number
-    distinct?: AppointmentScalarFieldEnum | AppointmentScalarFieldEnum[]
-  }
-
-  /**
-   * Appointment create
-   */
-  export type AppointmentCreateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Appointment
-     */
-    select?: AppointmentSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Appointment
-     */
-    omit?: AppointmentOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: AppointmentInclude<ExtArgs> | null
-    /**
-     * The data needed to create a Appointment.
-     */
-    data: XOR<AppointmentCreateInput, AppointmentUncheckedCreateInput>
-  }
-
-  /**
-   * Appointment createMany
-   */
-  export type AppointmentCreateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * The data used to create many Appointments.
-     */
-    data: AppointmentCreateManyInput | AppointmentCreateManyInput[]
-    skipDuplicates?: boolean
-  }
-
-  /**
-   * Appointment createManyAndReturn
-   */
-  export type AppointmentCreateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Appointment
-     */
-    select?: AppointmentSelectCreateManyAndReturn<ExtArgs> | null
-    /**
-     * Omit specific fields from the Appointment
-     */
-    omit?: AppointmentOmit<ExtArgs> | null
-    /**
-     * The data used to create many Appointments.
-     */
-    data: AppointmentCreateManyInput | AppointmentCreateManyInput[]
-    skipDuplicates?: boolean
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: AppointmentIncludeCreateManyAndReturn<ExtArgs> | null
-  }
-
-  /**
-   * Appointment update
-   */
-  export type AppointmentUpdateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Appointment
-     */
-    select?: AppointmentSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Appointment
-     */
-    omit?: AppointmentOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: AppointmentInclude<ExtArgs> | null
-    /**
-     * The data needed to update a Appointment.
-     */
-    data: XOR<AppointmentUpdateInput, AppointmentUncheckedUpdateInput>
-    /**
-     * Choose, which Appointment to update.
-     */
-    where: AppointmentWhereUniqueInput
-  }
-
-  /**
-   * Appointment updateMany
-   */
-  export type AppointmentUpdateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * The data used to update Appointments.
-     */
-    data: XOR<AppointmentUpdateManyMutationInput, AppointmentUncheckedUpdateManyInput>
-    /**
-     * Filter which Appointments to update
-     */
-    where?: AppointmentWhereInput
-    /**
-     * Limit how many Appointments to update.
-     */
-    limit?: number
-  }
-
-  /**
-   * Appointment updateManyAndReturn
-   */
-  export type AppointmentUpdateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Appointment
-     */
-    select?: AppointmentSelectUpdateManyAndReturn<ExtArgs> | null
-    /**
-     * Omit specific fields from the Appointment
-     */
-    omit?: AppointmentOmit<ExtArgs> | null
-    /**
-     * The data used to update Appointments.
-     */
-    data: XOR<AppointmentUpdateManyMutationInput, AppointmentUncheckedUpdateManyInput>
-    /**
-     * Filter which Appointments to update
-     */
-    where?: AppointmentWhereInput
-    /**
-     * Limit how many Appointments to update.
-     */
-    limit?: number
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: AppointmentIncludeUpdateManyAndReturn<ExtArgs> | null
-  }
-
-  /**
-   * Appointment upsert
-   */
-  export type AppointmentUpsertArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Appointment
-     */
-    select?: AppointmentSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Appointment
-     */
-    omit?: AppointmentOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: AppointmentInclude<ExtArgs> | null
-    /**
-     * The filter to search for the Appointment to update in case it exists.
-     */
-    where: AppointmentWhereUniqueInput
-    /**
-     * In case the Appointment found by the `where` argument doesn't exist, create a new Appointment with this data.
-     */
-    create: XOR<AppointmentCreateInput, AppointmentUncheckedCreateInput>
-    /**
-     * In case the Appointment was found with the provided `where` argument, update it with this data.
-     */
-    update: XOR<AppointmentUpdateInput, AppointmentUncheckedUpdateInput>
-  }
-
-  /**
-   * Appointment delete
-   */
-  export type AppointmentDeleteArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Appointment
-     */
-    select?: AppointmentSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Appointment
-     */
-    omit?: AppointmentOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: AppointmentInclude<ExtArgs> | null
-    /**
-     * Filter which Appointment to delete.
-     */
-    where: AppointmentWhereUniqueInput
-  }
-
-  /**
-   * Appointment deleteMany
-   */
-  export type AppointmentDeleteManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Filter which Appointments to delete
-     */
-    where?: AppointmentWhereInput
-    /**
-     * Limit how many Appointments to delete.
-     */
-    limit?: number
-  }
-
-  /**
-   * Appointment.doctor
-   */
-  export type Appointment$doctorArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Doctor
-     */
-    select?: DoctorSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Doctor
-     */
-    omit?: DoctorOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: DoctorInclude<ExtArgs> | null
-    where?: DoctorWhereInput
-  }
-
-  /**
-   * Appointment without action
-   */
-  export type AppointmentDefaultArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the Appointment
-     */
-    select?: AppointmentSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the Appointment
-     */
-    omit?: AppointmentOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: AppointmentInclude<ExtArgs> | null
-  }
-
-
-  /**
-   * Model EmergencyAlert
-   */
-
-  export type AggregateEmergencyAlert = {
-    _count: EmergencyAlertCountAggregateOutputType | null
-    _min: EmergencyAlertMinAggregateOutputType | null
-    _max: EmergencyAlertMaxAggregateOutputType | null
-  }
-
-  export type EmergencyAlertMinAggregateOutputType = {
-    id: string | null
-    userId: string | null
-    hospitalId: string | null
-    status: $Enums.EmergencyAlertStatus | null
-    createdAt: Date | null
-    respondedAt: Date | null
-    notes: string | null
-  }
-
-  export type EmergencyAlertMaxAggregateOutputType = {
-    id: string | null
-    userId: string | null
-    hospitalId: string | null
-    status: $Enums.EmergencyAlertStatus | null
-    createdAt: Date | null
-    respondedAt: Date | null
-    notes: string | null
-  }
-
-  export type EmergencyAlertCountAggregateOutputType = {
-    id: number
-    userId: number
-    hospitalId: number
-    status: number
-    patientInfo: number
-    medicalHistory: number
-    createdAt: number
-    respondedAt: number
-    notes: number
-    _all: number
-  }
-
-
-  export type EmergencyAlertMinAggregateInputType = {
-    id?: true
-    userId?: true
-    hospitalId?: true
-    status?: true
-    createdAt?: true
-    respondedAt?: true
-    notes?: true
-  }
-
-  export type EmergencyAlertMaxAggregateInputType = {
-    id?: true
-    userId?: true
-    hospitalId?: true
-    status?: true
-    createdAt?: true
-    respondedAt?: true
-    notes?: true
-  }
-
-  export type EmergencyAlertCountAggregateInputType = {
-    id?: true
-    userId?: true
-    hospitalId?: true
-    status?: true
-    patientInfo?: true
-    medicalHistory?: true
-    createdAt?: true
-    respondedAt?: true
-    notes?: true
-    _all?: true
-  }
-
-  export type EmergencyAlertAggregateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Filter which EmergencyAlert to aggregate.
-     */
-    where?: EmergencyAlertWhereInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
-     * 
-     * Determine the order of EmergencyAlerts to fetch.
-     */
-    orderBy?: EmergencyAlertOrderByWithRelationInput | EmergencyAlertOrderByWithRelationInput[]
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
-     * 
-     * Sets the start position
-     */
-    cursor?: EmergencyAlertWhereUniqueInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Take `±n` EmergencyAlerts from the position of the cursor.
-     */
-    take?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Skip the first `n` EmergencyAlerts.
-     */
-    skip?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
-     * 
-     * Count returned EmergencyAlerts
-    **/
-    _count?: true | EmergencyAlertCountAggregateInputType
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
-     * 
-     * Select which fields to find the minimum value
-    **/
-    _min?: EmergencyAlertMinAggregateInputType
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
-     * 
-     * Select which fields to find the maximum value
-    **/
-    _max?: EmergencyAlertMaxAggregateInputType
-  }
-
-  export type GetEmergencyAlertAggregateType<T extends EmergencyAlertAggregateArgs> = {
-        [P in keyof T & keyof AggregateEmergencyAlert]: P extends '_count' | 'count'
-      ? T[P] extends true
-        ? number
-        : GetScalarType<T[P], AggregateEmergencyAlert[P]>
-      : GetScalarType<T[P], AggregateEmergencyAlert[P]>
-  }
-
-
-
-
-  export type EmergencyAlertGroupByArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    where?: EmergencyAlertWhereInput
-    orderBy?: EmergencyAlertOrderByWithAggregationInput | EmergencyAlertOrderByWithAggregationInput[]
-    by: EmergencyAlertScalarFieldEnum[] | EmergencyAlertScalarFieldEnum
-    having?: EmergencyAlertScalarWhereWithAggregatesInput
-    take?: number
-    skip?: number
-    _count?: EmergencyAlertCountAggregateInputType | true
-    _min?: EmergencyAlertMinAggregateInputType
-    _max?: EmergencyAlertMaxAggregateInputType
-  }
-
-  export type EmergencyAlertGroupByOutputType = {
-    id: string
-    userId: string
-    hospitalId: string
-    status: $Enums.EmergencyAlertStatus
-    patientInfo: JsonValue
-    medicalHistory: JsonValue
-    createdAt: Date
-    respondedAt: Date | null
-    notes: string | null
-    _count: EmergencyAlertCountAggregateOutputType | null
-    _min: EmergencyAlertMinAggregateOutputType | null
-    _max: EmergencyAlertMaxAggregateOutputType | null
-  }
-
-  type GetEmergencyAlertGroupByPayload<T extends EmergencyAlertGroupByArgs> = Prisma.PrismaPromise<
-    Array<
-      PickEnumerable<EmergencyAlertGroupByOutputType, T['by']> &
-        {
-          [P in ((keyof T) & (keyof EmergencyAlertGroupByOutputType))]: P extends '_count'
-            ? T[P] extends boolean
-              ? number
-              : GetScalarType<T[P], EmergencyAlertGroupByOutputType[P]>
-            : GetScalarType<T[P], EmergencyAlertGroupByOutputType[P]>
-        }
-      >
-    >
-
-
-  export type EmergencyAlertSelect<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
-    id?: boolean
-    userId?: boolean
-    hospitalId?: boolean
-    status?: boolean
-    patientInfo?: boolean
-    medicalHistory?: boolean
-    createdAt?: boolean
-    respondedAt?: boolean
-    notes?: boolean
-    user?: boolean | UserDefaultArgs<ExtArgs>
-    hospital?: boolean | HospitalDefaultArgs<ExtArgs>
-  }, ExtArgs["result"]["emergencyAlert"]>
-
-  export type EmergencyAlertSelectCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
-    id?: boolean
-    userId?: boolean
-    hospitalId?: boolean
-    status?: boolean
-    patientInfo?: boolean
-    medicalHistory?: boolean
-    createdAt?: boolean
-    respondedAt?: boolean
-    notes?: boolean
-    user?: boolean | UserDefaultArgs<ExtArgs>
-    hospital?: boolean | HospitalDefaultArgs<ExtArgs>
-  }, ExtArgs["result"]["emergencyAlert"]>
-
-  export type EmergencyAlertSelectUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
-    id?: boolean
-    userId?: boolean
-    hospitalId?: boolean
-    status?: boolean
-    patientInfo?: boolean
-    medicalHistory?: boolean
-    createdAt?: boolean
-    respondedAt?: boolean
-    notes?: boolean
-    user?: boolean | UserDefaultArgs<ExtArgs>
-    hospital?: boolean | HospitalDefaultArgs<ExtArgs>
-  }, ExtArgs["result"]["emergencyAlert"]>
-
-  export type EmergencyAlertSelectScalar = {
-    id?: boolean
-    userId?: boolean
-    hospitalId?: boolean
-    status?: boolean
-    patientInfo?: boolean
-    medicalHistory?: boolean
-    createdAt?: boolean
-    respondedAt?: boolean
-    notes?: boolean
-  }
-
-  export type EmergencyAlertOmit<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetOmit<"id" | "userId" | "hospitalId" | "status" | "patientInfo" | "medicalHistory" | "createdAt" | "respondedAt" | "notes", ExtArgs["result"]["emergencyAlert"]>
-  export type EmergencyAlertInclude<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    user?: boolean | UserDefaultArgs<ExtArgs>
-    hospital?: boolean | HospitalDefaultArgs<ExtArgs>
-  }
-  export type EmergencyAlertIncludeCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    user?: boolean | UserDefaultArgs<ExtArgs>
-    hospital?: boolean | HospitalDefaultArgs<ExtArgs>
-  }
-  export type EmergencyAlertIncludeUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    user?: boolean | UserDefaultArgs<ExtArgs>
-    hospital?: boolean | HospitalDefaultArgs<ExtArgs>
-  }
-
-  export type $EmergencyAlertPayload<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    name: "EmergencyAlert"
-    objects: {
-      user: Prisma.$UserPayload<ExtArgs>
-      hospital: Prisma.$HospitalPayload<ExtArgs>
-    }
-    scalars: $Extensions.GetPayloadResult<{
-      id: string
-      userId: string
-      hospitalId: string
-      status: $Enums.EmergencyAlertStatus
-      patientInfo: Prisma.JsonValue
-      medicalHistory: Prisma.JsonValue
-      createdAt: Date
-      respondedAt: Date | null
-      notes: string | null
-    }, ExtArgs["result"]["emergencyAlert"]>
-    composites: {}
-  }
-
-  type EmergencyAlertGetPayload<S extends boolean | null | undefined | EmergencyAlertDefaultArgs> = $Result.GetResult<Prisma.$EmergencyAlertPayload, S>
-
-  type EmergencyAlertCountArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> =
-    Omit<EmergencyAlertFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
-      select?: EmergencyAlertCountAggregateInputType | true
-    }
-
-  export interface EmergencyAlertDelegate<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> {
-    [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['EmergencyAlert'], meta: { name: 'EmergencyAlert' } }
-    /**
-     * Find zero or one EmergencyAlert that matches the filter.
-     * @param {EmergencyAlertFindUniqueArgs} args - Arguments to find a EmergencyAlert
-     * @example
-     * // Get one EmergencyAlert
-     * const emergencyAlert = await prisma.emergencyAlert.findUnique({
-     *   where: {
-     *     // ... provide filter here
-     *   }
-     * })
-     */
-    findUnique<T extends EmergencyAlertFindUniqueArgs>(args: SelectSubset<T, EmergencyAlertFindUniqueArgs<ExtArgs>>): Prisma__EmergencyAlertClient<$Result.GetResult<Prisma.$EmergencyAlertPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Find one EmergencyAlert that matches the filter or throw an error with `error.code='P2025'`
-     * if no matches were found.
-     * @param {EmergencyAlertFindUniqueOrThrowArgs} args - Arguments to find a EmergencyAlert
-     * @example
-     * // Get one EmergencyAlert
-     * const emergencyAlert = await prisma.emergencyAlert.findUniqueOrThrow({
-     *   where: {
-     *     // ... provide filter here
-     *   }
-     * })
-     */
-    findUniqueOrThrow<T extends EmergencyAlertFindUniqueOrThrowArgs>(args: SelectSubset<T, EmergencyAlertFindUniqueOrThrowArgs<ExtArgs>>): Prisma__EmergencyAlertClient<$Result.GetResult<Prisma.$EmergencyAlertPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Find the first EmergencyAlert that matches the filter.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {EmergencyAlertFindFirstArgs} args - Arguments to find a EmergencyAlert
-     * @example
-     * // Get one EmergencyAlert
-     * const emergencyAlert = await prisma.emergencyAlert.findFirst({
-     *   where: {
-     *     // ... provide filter here
-     *   }
-     * })
-     */
-    findFirst<T extends EmergencyAlertFindFirstArgs>(args?: SelectSubset<T, EmergencyAlertFindFirstArgs<ExtArgs>>): Prisma__EmergencyAlertClient<$Result.GetResult<Prisma.$EmergencyAlertPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Find the first EmergencyAlert that matches the filter or
-     * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {EmergencyAlertFindFirstOrThrowArgs} args - Arguments to find a EmergencyAlert
-     * @example
-     * // Get one EmergencyAlert
-     * const emergencyAlert = await prisma.emergencyAlert.findFirstOrThrow({
-     *   where: {
-     *     // ... provide filter here
-     *   }
-     * })
-     */
-    findFirstOrThrow<T extends EmergencyAlertFindFirstOrThrowArgs>(args?: SelectSubset<T, EmergencyAlertFindFirstOrThrowArgs<ExtArgs>>): Prisma__EmergencyAlertClient<$Result.GetResult<Prisma.$EmergencyAlertPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Find zero or more EmergencyAlerts that matches the filter.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {EmergencyAlertFindManyArgs} args - Arguments to filter and select certain fields only.
-     * @example
-     * // Get all EmergencyAlerts
-     * const emergencyAlerts = await prisma.emergencyAlert.findMany()
-     * 
-     * // Get first 10 EmergencyAlerts
-     * const emergencyAlerts = await prisma.emergencyAlert.findMany({ take: 10 })
-     * 
-     * // Only select the `id`
-     * const emergencyAlertWithIdOnly = await prisma.emergencyAlert.findMany({ select: { id: true } })
-     * 
-     */
-    findMany<T extends EmergencyAlertFindManyArgs>(args?: SelectSubset<T, EmergencyAlertFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$EmergencyAlertPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
-
-    /**
-     * Create a EmergencyAlert.
-     * @param {EmergencyAlertCreateArgs} args - Arguments to create a EmergencyAlert.
-     * @example
-     * // Create one EmergencyAlert
-     * const EmergencyAlert = await prisma.emergencyAlert.create({
-     *   data: {
-     *     // ... data to create a EmergencyAlert
-     *   }
-     * })
-     * 
-     */
-    create<T extends EmergencyAlertCreateArgs>(args: SelectSubset<T, EmergencyAlertCreateArgs<ExtArgs>>): Prisma__EmergencyAlertClient<$Result.GetResult<Prisma.$EmergencyAlertPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Create many EmergencyAlerts.
-     * @param {EmergencyAlertCreateManyArgs} args - Arguments to create many EmergencyAlerts.
-     * @example
-     * // Create many EmergencyAlerts
-     * const emergencyAlert = await prisma.emergencyAlert.createMany({
-     *   data: [
-     *     // ... provide data here
-     *   ]
-     * })
-     *     
-     */
-    createMany<T extends EmergencyAlertCreateManyArgs>(args?: SelectSubset<T, EmergencyAlertCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
-
-    /**
-     * Create many EmergencyAlerts and returns the data saved in the database.
-     * @param {EmergencyAlertCreateManyAndReturnArgs} args - Arguments to create many EmergencyAlerts.
-     * @example
-     * // Create many EmergencyAlerts
-     * const emergencyAlert = await prisma.emergencyAlert.createManyAndReturn({
-     *   data: [
-     *     // ... provide data here
-     *   ]
-     * })
-     * 
-     * // Create many EmergencyAlerts and only return the `id`
-     * const emergencyAlertWithIdOnly = await prisma.emergencyAlert.createManyAndReturn({
-     *   select: { id: true },
-     *   data: [
-     *     // ... provide data here
-     *   ]
-     * })
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * 
-     */
-    createManyAndReturn<T extends EmergencyAlertCreateManyAndReturnArgs>(args?: SelectSubset<T, EmergencyAlertCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$EmergencyAlertPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
-
-    /**
-     * Delete a EmergencyAlert.
-     * @param {EmergencyAlertDeleteArgs} args - Arguments to delete one EmergencyAlert.
-     * @example
-     * // Delete one EmergencyAlert
-     * const EmergencyAlert = await prisma.emergencyAlert.delete({
-     *   where: {
-     *     // ... filter to delete one EmergencyAlert
-     *   }
-     * })
-     * 
-     */
-    delete<T extends EmergencyAlertDeleteArgs>(args: SelectSubset<T, EmergencyAlertDeleteArgs<ExtArgs>>): Prisma__EmergencyAlertClient<$Result.GetResult<Prisma.$EmergencyAlertPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Update one EmergencyAlert.
-     * @param {EmergencyAlertUpdateArgs} args - Arguments to update one EmergencyAlert.
-     * @example
-     * // Update one EmergencyAlert
-     * const emergencyAlert = await prisma.emergencyAlert.update({
-     *   where: {
-     *     // ... provide filter here
-     *   },
-     *   data: {
-     *     // ... provide data here
-     *   }
-     * })
-     * 
-     */
-    update<T extends EmergencyAlertUpdateArgs>(args: SelectSubset<T, EmergencyAlertUpdateArgs<ExtArgs>>): Prisma__EmergencyAlertClient<$Result.GetResult<Prisma.$EmergencyAlertPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Delete zero or more EmergencyAlerts.
-     * @param {EmergencyAlertDeleteManyArgs} args - Arguments to filter EmergencyAlerts to delete.
-     * @example
-     * // Delete a few EmergencyAlerts
-     * const { count } = await prisma.emergencyAlert.deleteMany({
-     *   where: {
-     *     // ... provide filter here
-     *   }
-     * })
-     * 
-     */
-    deleteMany<T extends EmergencyAlertDeleteManyArgs>(args?: SelectSubset<T, EmergencyAlertDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
-
-    /**
-     * Update zero or more EmergencyAlerts.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {EmergencyAlertUpdateManyArgs} args - Arguments to update one or more rows.
-     * @example
-     * // Update many EmergencyAlerts
-     * const emergencyAlert = await prisma.emergencyAlert.updateMany({
-     *   where: {
-     *     // ... provide filter here
-     *   },
-     *   data: {
-     *     // ... provide data here
-     *   }
-     * })
-     * 
-     */
-    updateMany<T extends EmergencyAlertUpdateManyArgs>(args: SelectSubset<T, EmergencyAlertUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
-
-    /**
-     * Update zero or more EmergencyAlerts and returns the data updated in the database.
-     * @param {EmergencyAlertUpdateManyAndReturnArgs} args - Arguments to update many EmergencyAlerts.
-     * @example
-     * // Update many EmergencyAlerts
-     * const emergencyAlert = await prisma.emergencyAlert.updateManyAndReturn({
-     *   where: {
-     *     // ... provide filter here
-     *   },
-     *   data: [
-     *     // ... provide data here
-     *   ]
-     * })
-     * 
-     * // Update zero or more EmergencyAlerts and only return the `id`
-     * const emergencyAlertWithIdOnly = await prisma.emergencyAlert.updateManyAndReturn({
-     *   select: { id: true },
-     *   where: {
-     *     // ... provide filter here
-     *   },
-     *   data: [
-     *     // ... provide data here
-     *   ]
-     * })
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * 
-     */
-    updateManyAndReturn<T extends EmergencyAlertUpdateManyAndReturnArgs>(args: SelectSubset<T, EmergencyAlertUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$EmergencyAlertPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
-
-    /**
-     * Create or update one EmergencyAlert.
-     * @param {EmergencyAlertUpsertArgs} args - Arguments to update or create a EmergencyAlert.
-     * @example
-     * // Update or create a EmergencyAlert
-     * const emergencyAlert = await prisma.emergencyAlert.upsert({
-     *   create: {
-     *     // ... data to create a EmergencyAlert
-     *   },
-     *   update: {
-     *     // ... in case it already exists, update
-     *   },
-     *   where: {
-     *     // ... the filter for the EmergencyAlert we want to update
-     *   }
-     * })
-     */
-    upsert<T extends EmergencyAlertUpsertArgs>(args: SelectSubset<T, EmergencyAlertUpsertArgs<ExtArgs>>): Prisma__EmergencyAlertClient<$Result.GetResult<Prisma.$EmergencyAlertPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-
-    /**
-     * Count the number of EmergencyAlerts.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {EmergencyAlertCountArgs} args - Arguments to filter EmergencyAlerts to count.
-     * @example
-     * // Count the number of EmergencyAlerts
-     * const count = await prisma.emergencyAlert.count({
-     *   where: {
-     *     // ... the filter for the EmergencyAlerts we want to count
-     *   }
-     * })
-    **/
-    count<T extends EmergencyAlertCountArgs>(
-      args?: Subset<T, EmergencyAlertCountArgs>,
-    ): Prisma.PrismaPromise<
-      T extends $Utils.Record<'select', any>
-        ? T['select'] extends true
-          ? number
-          : GetScalarType<T['select'], EmergencyAlertCountAggregateOutputType>
-        : number
-    >
-
-    /**
-     * Allows you to perform aggregations operations on a EmergencyAlert.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {EmergencyAlertAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
-     * @example
-     * // Ordered by age ascending
-     * // Where email contains prisma.io
-     * // Limited to the 10 users
-     * const aggregations = await prisma.user.aggregate({
-     *   _avg: {
-     *     age: true,
-     *   },
-     *   where: {
-     *     email: {
-     *       contains: "prisma.io",
-     *     },
-     *   },
-     *   orderBy: {
-     *     age: "asc",
-     *   },
-     *   take: 10,
-     * })
-    **/
-    aggregate<T extends EmergencyAlertAggregateArgs>(args: Subset<T, EmergencyAlertAggregateArgs>): Prisma.PrismaPromise<GetEmergencyAlertAggregateType<T>>
-
-    /**
-     * Group by EmergencyAlert.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {EmergencyAlertGroupByArgs} args - Group by arguments.
-     * @example
-     * // Group by city, order by createdAt, get count
-     * const result = await prisma.user.groupBy({
-     *   by: ['city', 'createdAt'],
-     *   orderBy: {
-     *     createdAt: true
-     *   },
-     *   _count: {
-     *     _all: true
-     *   },
-     * })
-     * 
-    **/
-    groupBy<
-      T extends EmergencyAlertGroupByArgs,
-      HasSelectOrTake extends Or<
-        Extends<'skip', Keys<T>>,
-        Extends<'take', Keys<T>>
-      >,
-      OrderByArg extends True extends HasSelectOrTake
-        ? { orderBy: EmergencyAlertGroupByArgs['orderBy'] }
-        : { orderBy?: EmergencyAlertGroupByArgs['orderBy'] },
-      OrderFields extends ExcludeUnderscoreKeys<Keys<MaybeTupleToUnion<T['orderBy']>>>,
-      ByFields extends MaybeTupleToUnion<T['by']>,
-      ByValid extends Has<ByFields, OrderFields>,
-      HavingFields extends GetHavingFields<T['having']>,
-      HavingValid extends Has<ByFields, HavingFields>,
-      ByEmpty extends T['by'] extends never[] ? True : False,
-      InputErrors extends ByEmpty extends True
-      ? `Error: "by" must not be empty.`
-      : HavingValid extends False
-      ? {
-          [P in HavingFields]: P extends ByFields
-            ? never
-            : P extends string
-            ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
-            : [
-                Error,
-                'Field ',
-                P,
-                ` in "having" needs to be provided in "by"`,
-              ]
-        }[HavingFields]
-      : 'take' extends Keys<T>
-      ? 'orderBy' extends Keys<T>
-        ? ByValid extends True
-          ? {}
-          : {
-              [P in OrderFields]: P extends ByFields
-                ? never
-                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
-            }[OrderFields]
-        : 'Error: If you provide "take", you also need to provide "orderBy"'
-      : 'skip' extends Keys<T>
-      ? 'orderBy' extends Keys<T>
-        ? ByValid extends True
-          ? {}
-          : {
-              [P in OrderFields]: P extends ByFields
-                ? never
-                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
-            }[OrderFields]
-        : 'Error: If you provide "skip", you also need to provide "orderBy"'
-      : ByValid extends True
-      ? {}
-      : {
-          [P in OrderFields]: P extends ByFields
-            ? never
-            : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
-        }[OrderFields]
-    >(args: SubsetIntersection<T, EmergencyAlertGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetEmergencyAlertGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
-  /**
-   * Fields of the EmergencyAlert model
-   */
-  readonly fields: EmergencyAlertFieldRefs;
-  }
-
-  /**
-   * The delegate class that acts as a "Promise-like" for EmergencyAlert.
-   * Why is this prefixed with `Prisma__`?
-   * Because we want to prevent naming conflicts as mentioned in
-   * https://github.com/prisma/prisma-client-js/issues/707
-   */
-  export interface Prisma__EmergencyAlertClient<T, Null = never, ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
-    readonly [Symbol.toStringTag]: "PrismaPromise"
-    user<T extends UserDefaultArgs<ExtArgs> = {}>(args?: Subset<T, UserDefaultArgs<ExtArgs>>): Prisma__UserClient<$Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
-    hospital<T extends HospitalDefaultArgs<ExtArgs> = {}>(args?: Subset<T, HospitalDefaultArgs<ExtArgs>>): Prisma__HospitalClient<$Result.GetResult<Prisma.$HospitalPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
-    /**
-     * Attaches callbacks for the resolution and/or rejection of the Promise.
-     * @param onfulfilled The callback to execute when the Promise is resolved.
-     * @param onrejected The callback to execute when the Promise is rejected.
-     * @returns A Promise for the completion of which ever callback is executed.
-     */
-    then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): $Utils.JsPromise<TResult1 | TResult2>
-    /**
-     * Attaches a callback for only the rejection of the Promise.
-     * @param onrejected The callback to execute when the Promise is rejected.
-     * @returns A Promise for the completion of the callback.
-     */
-    catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): $Utils.JsPromise<T | TResult>
-    /**
-     * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
-     * resolved value cannot be modified from the callback.
-     * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
-     * @returns A Promise for the completion of the callback.
-     */
-    finally(onfinally?: (() => void) | undefined | null): $Utils.JsPromise<T>
-  }
-
-
-
-
-  /**
-   * Fields of the EmergencyAlert model
-   */
-  interface EmergencyAlertFieldRefs {
-    readonly id: FieldRef<"EmergencyAlert", 'String'>
-    readonly userId: FieldRef<"EmergencyAlert", 'String'>
-    readonly hospitalId: FieldRef<"EmergencyAlert", 'String'>
-    readonly status: FieldRef<"EmergencyAlert", 'EmergencyAlertStatus'>
-    readonly patientInfo: FieldRef<"EmergencyAlert", 'Json'>
-    readonly medicalHistory: FieldRef<"EmergencyAlert", 'Json'>
-    readonly createdAt: FieldRef<"EmergencyAlert", 'DateTime'>
-    readonly respondedAt: FieldRef<"EmergencyAlert", 'DateTime'>
-    readonly notes: FieldRef<"EmergencyAlert", 'String'>
-  }
-    
-
-  // Custom InputTypes
-  /**
-   * EmergencyAlert findUnique
-   */
-  export type EmergencyAlertFindUniqueArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the EmergencyAlert
-     */
-    select?: EmergencyAlertSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the EmergencyAlert
-     */
-    omit?: EmergencyAlertOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: EmergencyAlertInclude<ExtArgs> | null
-    /**
-     * Filter, which EmergencyAlert to fetch.
-     */
-    where: EmergencyAlertWhereUniqueInput
-  }
-
-  /**
-   * EmergencyAlert findUniqueOrThrow
-   */
-  export type EmergencyAlertFindUniqueOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the EmergencyAlert
-     */
-    select?: EmergencyAlertSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the EmergencyAlert
-     */
-    omit?: EmergencyAlertOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: EmergencyAlertInclude<ExtArgs> | null
-    /**
-     * Filter, which EmergencyAlert to fetch.
-     */
-    where: EmergencyAlertWhereUniqueInput
-  }
-
-  /**
-   * EmergencyAlert findFirst
-   */
-  export type EmergencyAlertFindFirstArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the EmergencyAlert
-     */
-    select?: EmergencyAlertSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the EmergencyAlert
-     */
-    omit?: EmergencyAlertOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: EmergencyAlertInclude<ExtArgs> | null
-    /**
-     * Filter, which EmergencyAlert to fetch.
-     */
-    where?: EmergencyAlertWhereInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
-     * 
-     * Determine the order of EmergencyAlerts to fetch.
-     */
-    orderBy?: EmergencyAlertOrderByWithRelationInput | EmergencyAlertOrderByWithRelationInput[]
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
-     * 
-     * Sets the position for searching for EmergencyAlerts.
-     */
-    cursor?: EmergencyAlertWhereUniqueInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Take `±n` EmergencyAlerts from the position of the cursor.
-     */
-    take?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Skip the first `n` EmergencyAlerts.
-     */
-    skip?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
-     * 
-     * Filter by unique combinations of EmergencyAlerts.
-     */
-    distinct?: EmergencyAlertScalarFieldEnum | EmergencyAlertScalarFieldEnum[]
-  }
-
-  /**
-   * EmergencyAlert findFirstOrThrow
-   */
-  export type EmergencyAlertFindFirstOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the EmergencyAlert
-     */
-    select?: EmergencyAlertSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the EmergencyAlert
-     */
-    omit?: EmergencyAlertOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: EmergencyAlertInclude<ExtArgs> | null
-    /**
-     * Filter, which EmergencyAlert to fetch.
-     */
-    where?: EmergencyAlertWhereInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
-     * 
-     * Determine the order of EmergencyAlerts to fetch.
-     */
-    orderBy?: EmergencyAlertOrderByWithRelationInput | EmergencyAlertOrderByWithRelationInput[]
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
-     * 
-     * Sets the position for searching for EmergencyAlerts.
-     */
-    cursor?: EmergencyAlertWhereUniqueInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Take `±n` EmergencyAlerts from the position of the cursor.
-     */
-    take?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Skip the first `n` EmergencyAlerts.
-     */
-    skip?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
-     * 
-     * Filter by unique combinations of EmergencyAlerts.
-     */
-    distinct?: EmergencyAlertScalarFieldEnum | EmergencyAlertScalarFieldEnum[]
-  }
-
-  /**
-   * EmergencyAlert findMany
-   */
-  export type EmergencyAlertFindManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the EmergencyAlert
-     */
-    select?: EmergencyAlertSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the EmergencyAlert
-     */
-    omit?: EmergencyAlertOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: EmergencyAlertInclude<ExtArgs> | null
-    /**
-     * Filter, which EmergencyAlerts to fetch.
-     */
-    where?: EmergencyAlertWhereInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
-     * 
-     * Determine the order of EmergencyAlerts to fetch.
-     */
-    orderBy?: EmergencyAlertOrderByWithRelationInput | EmergencyAlertOrderByWithRelationInput[]
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
-     * 
-     * Sets the position for listing EmergencyAlerts.
-     */
-    cursor?: EmergencyAlertWhereUniqueInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Take `±n` EmergencyAlerts from the position of the cursor.
-     */
-    take?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Skip the first `n` EmergencyAlerts.
-     */
-    skip?: number
-    distinct?: EmergencyAlertScalarFieldEnum | EmergencyAlertScalarFieldEnum[]
-  }
-
-  /**
-   * EmergencyAlert create
-   */
-  export type EmergencyAlertCreateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the EmergencyAlert
-     */
-    select?: EmergencyAlertSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the EmergencyAlert
-     */
-    omit?: EmergencyAlertOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: EmergencyAlertInclude<ExtArgs> | null
-    /**
-     * The data needed to create a EmergencyAlert.
-     */
-    data: XOR<EmergencyAlertCreateInput, EmergencyAlertUncheckedCreateInput>
-  }
-
-  /**
-   * EmergencyAlert createMany
-   */
-  export type EmergencyAlertCreateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * The data used to create many EmergencyAlerts.
-     */
-    data: EmergencyAlertCreateManyInput | EmergencyAlertCreateManyInput[]
-    skipDuplicates?: boolean
-  }
-
-  /**
-   * EmergencyAlert createManyAndReturn
-   */
-  export type EmergencyAlertCreateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the EmergencyAlert
-     */
-    select?: EmergencyAlertSelectCreateManyAndReturn<ExtArgs> | null
-    /**
-     * Omit specific fields from the EmergencyAlert
-     */
-    omit?: EmergencyAlertOmit<ExtArgs> | null
-    /**
-     * The data used to create many EmergencyAlerts.
-     */
-    data: EmergencyAlertCreateManyInput | EmergencyAlertCreateManyInput[]
-    skipDuplicates?: boolean
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: EmergencyAlertIncludeCreateManyAndReturn<ExtArgs> | null
-  }
-
-  /**
-   * EmergencyAlert update
-   */
-  export type EmergencyAlertUpdateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the EmergencyAlert
-     */
-    select?: EmergencyAlertSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the EmergencyAlert
-     */
-    omit?: EmergencyAlertOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: EmergencyAlertInclude<ExtArgs> | null
-    /**
-     * The data needed to update a EmergencyAlert.
-     */
-    data: XOR<EmergencyAlertUpdateInput, EmergencyAlertUncheckedUpdateInput>
-    /**
-     * Choose, which EmergencyAlert to update.
-     */
-    where: EmergencyAlertWhereUniqueInput
-  }
-
-  /**
-   * EmergencyAlert updateMany
-   */
-  export type EmergencyAlertUpdateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * The data used to update EmergencyAlerts.
-     */
-    data: XOR<EmergencyAlertUpdateManyMutationInput, EmergencyAlertUncheckedUpdateManyInput>
-    /**
-     * Filter which EmergencyAlerts to update
-     */
-    where?: EmergencyAlertWhereInput
-    /**
-     * Limit how many EmergencyAlerts to update.
-     */
-    limit?: number
-  }
-
-  /**
-   * EmergencyAlert updateManyAndReturn
-   */
-  export type EmergencyAlertUpdateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the EmergencyAlert
-     */
-    select?: EmergencyAlertSelectUpdateManyAndReturn<ExtArgs> | null
-    /**
-     * Omit specific fields from the EmergencyAlert
-     */
-    omit?: EmergencyAlertOmit<ExtArgs> | null
-    /**
-     * The data used to update EmergencyAlerts.
-     */
-    data: XOR<EmergencyAlertUpdateManyMutationInput, EmergencyAlertUncheckedUpdateManyInput>
-    /**
-     * Filter which EmergencyAlerts to update
-     */
-    where?: EmergencyAlertWhereInput
-    /**
-     * Limit how many EmergencyAlerts to update.
-     */
-    limit?: number
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: EmergencyAlertIncludeUpdateManyAndReturn<ExtArgs> | null
-  }
-
-  /**
-   * EmergencyAlert upsert
-   */
-  export type EmergencyAlertUpsertArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the EmergencyAlert
-     */
-    select?: EmergencyAlertSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the EmergencyAlert
-     */
-    omit?: EmergencyAlertOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: EmergencyAlertInclude<ExtArgs> | null
-    /**
-     * The filter to search for the EmergencyAlert to update in case it exists.
-     */
-    where: EmergencyAlertWhereUniqueInput
-    /**
-     * In case the EmergencyAlert found by the `where` argument doesn't exist, create a new EmergencyAlert with this data.
-     */
-    create: XOR<EmergencyAlertCreateInput, EmergencyAlertUncheckedCreateInput>
-    /**
-     * In case the EmergencyAlert was found with the provided `where` argument, update it with this data.
-     */
-    update: XOR<EmergencyAlertUpdateInput, EmergencyAlertUncheckedUpdateInput>
-  }
-
-  /**
-   * EmergencyAlert delete
-   */
-  export type EmergencyAlertDeleteArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the EmergencyAlert
-     */
-    select?: EmergencyAlertSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the EmergencyAlert
-     */
-    omit?: EmergencyAlertOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: EmergencyAlertInclude<ExtArgs> | null
-    /**
-     * Filter which EmergencyAlert to delete.
-     */
-    where: EmergencyAlertWhereUniqueInput
-  }
-
-  /**
-   * EmergencyAlert deleteMany
-   */
-  export type EmergencyAlertDeleteManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Filter which EmergencyAlerts to delete
-     */
-    where?: EmergencyAlertWhereInput
-    /**
-     * Limit how many EmergencyAlerts to delete.
-     */
-    limit?: number
-  }
-
-  /**
-   * EmergencyAlert without action
-   */
-  export type EmergencyAlertDefaultArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the EmergencyAlert
-     */
-    select?: EmergencyAlertSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the EmergencyAlert
-     */
-    omit?: EmergencyAlertOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: EmergencyAlertInclude<ExtArgs> | null
-  }
-
-
-  /**
-   * Model MedicineReminder
-   */
-
-  export type AggregateMedicineReminder = {
-    _count: MedicineReminderCountAggregateOutputType | null
-    _min: MedicineReminderMinAggregateOutputType | null
-    _max: MedicineReminderMaxAggregateOutputType | null
-  }
-
-  export type MedicineReminderMinAggregateOutputType = {
-    id: string | null
-    userId: string | null
-    name: string | null
-    dosage: string | null
-    frequency: string | null
-    time: string | null
-    notes: string | null
-    createdAt: Date | null
-    isActive: boolean | null
-    aiGenerated: boolean | null
-  }
-
-  export type MedicineReminderMaxAggregateOutputType = {
-    id: string | null
-    userId: string | null
-    name: string | null
-    dosage: string | null
-    frequency: string | null
-    time: string | null
-    notes: string | null
-    createdAt: Date | null
-    isActive: boolean | null
-    aiGenerated: boolean | null
-  }
-
-  export type MedicineReminderCountAggregateOutputType = {
-    id: number
-    userId: number
-    name: number
-    dosage: number
-    frequency: number
-    time: number
-    notes: number
-    createdAt: number
-    isActive: number
-    aiGenerated: number
-    _all: number
-  }
-
-
-  export type MedicineReminderMinAggregateInputType = {
-    id?: true
-    userId?: true
-    name?: true
-    dosage?: true
-    frequency?: true
-    time?: true
-    notes?: true
-    createdAt?: true
-    isActive?: true
-    aiGenerated?: true
-  }
-
-  export type MedicineReminderMaxAggregateInputType = {
-    id?: true
-    userId?: true
-    name?: true
-    dosage?: true
-    frequency?: true
-    time?: true
-    notes?: true
-    createdAt?: true
-    isActive?: true
-    aiGenerated?: true
-  }
-
-  export type MedicineReminderCountAggregateInputType = {
-    id?: true
-    userId?: true
-    name?: true
-    dosage?: true
-    frequency?: true
-    time?: true
-    notes?: true
-    createdAt?: true
-    isActive?: true
-    aiGenerated?: true
-    _all?: true
-  }
-
-  export type MedicineReminderAggregateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Filter which MedicineReminder to aggregate.
-     */
-    where?: MedicineReminderWhereInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
-     * 
-     * Determine the order of MedicineReminders to fetch.
-     */
-    orderBy?: MedicineReminderOrderByWithRelationInput | MedicineReminderOrderByWithRelationInput[]
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
-     * 
-     * Sets the start position
-     */
-    cursor?: MedicineReminderWhereUniqueInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Take `±n` MedicineReminders from the position of the cursor.
-     */
-    take?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Skip the first `n` MedicineReminders.
-     */
-    skip?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
-     * 
-     * Count returned MedicineReminders
-    **/
-    _count?: true | MedicineReminderCountAggregateInputType
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
-     * 
-     * Select which fields to find the minimum value
-    **/
-    _min?: MedicineReminderMinAggregateInputType
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
-     * 
-     * Select which fields to find the maximum value
-    **/
-    _max?: MedicineReminderMaxAggregateInputType
-  }
-
-  export type GetMedicineReminderAggregateType<T extends MedicineReminderAggregateArgs> = {
-        [P in keyof T & keyof AggregateMedicineReminder]: P extends '_count' | 'count'
-      ? T[P] extends true
-        ? number
-        : GetScalarType<T[P], AggregateMedicineReminder[P]>
-      : GetScalarType<T[P], AggregateMedicineReminder[P]>
-  }
-
-
-
-
-  export type MedicineReminderGroupByArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    where?: MedicineReminderWhereInput
-    orderBy?: MedicineReminderOrderByWithAggregationInput | MedicineReminderOrderByWithAggregationInput[]
-    by: MedicineReminderScalarFieldEnum[] | MedicineReminderScalarFieldEnum
-    having?: MedicineReminderScalarWhereWithAggregatesInput
-    take?: number
-    skip?: number
-    _count?: MedicineReminderCountAggregateInputType | true
-    _min?: MedicineReminderMinAggregateInputType
-    _max?: MedicineReminderMaxAggregateInputType
-  }
-
-  export type MedicineReminderGroupByOutputType = {
-    id: string
-    userId: string
-    name: string
-    dosage: string
-    frequency: string
-    time: string
-    notes: string | null
-    createdAt: Date
-    isActive: boolean
-    aiGenerated: boolean
-    _count: MedicineReminderCountAggregateOutputType | null
-    _min: MedicineReminderMinAggregateOutputType | null
-    _max: MedicineReminderMaxAggregateOutputType | null
-  }
-
-  type GetMedicineReminderGroupByPayload<T extends MedicineReminderGroupByArgs> = Prisma.PrismaPromise<
-    Array<
-      PickEnumerable<MedicineReminderGroupByOutputType, T['by']> &
-        {
-          [P in ((keyof T) & (keyof MedicineReminderGroupByOutputType))]: P extends '_count'
-            ? T[P] extends boolean
-              ? number
-              : GetScalarType<T[P], MedicineReminderGroupByOutputType[P]>
-            : GetScalarType<T[P], MedicineReminderGroupByOutputType[P]>
-        }
-      >
-    >
-
-
-  export type MedicineReminderSelect<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
-    id?: boolean
-    userId?: boolean
-    name?: boolean
-    dosage?: boolean
-    frequency?: boolean
-    time?: boolean
-    notes?: boolean
-    createdAt?: boolean
-    isActive?: boolean
-    aiGenerated?: boolean
-    user?: boolean | UserDefaultArgs<ExtArgs>
-  }, ExtArgs["result"]["medicineReminder"]>
-
-  export type MedicineReminderSelectCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
-    id?: boolean
-    userId?: boolean
-    name?: boolean
-    dosage?: boolean
-    frequency?: boolean
-    time?: boolean
-    notes?: boolean
-    createdAt?: boolean
-    isActive?: boolean
-    aiGenerated?: boolean
-    user?: boolean | UserDefaultArgs<ExtArgs>
-  }, ExtArgs["result"]["medicineReminder"]>
-
-  export type MedicineReminderSelectUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
-    id?: boolean
-    userId?: boolean
-    name?: boolean
-    dosage?: boolean
-    frequency?: boolean
-    time?: boolean
-    notes?: boolean
-    createdAt?: boolean
-    isActive?: boolean
-    aiGenerated?: boolean
-    user?: boolean | UserDefaultArgs<ExtArgs>
-  }, ExtArgs["result"]["medicineReminder"]>
-
-  export type MedicineReminderSelectScalar = {
-    id?: boolean
-    userId?: boolean
-    name?: boolean
-    dosage?: boolean
-    frequency?: boolean
-    time?: boolean
-    notes?: boolean
-    createdAt?: boolean
-    isActive?: boolean
-    aiGenerated?: boolean
-  }
-
-  export type MedicineReminderOmit<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetOmit<"id" | "userId" | "name" | "dosage" | "frequency" | "time" | "notes" | "createdAt" | "isActive" | "aiGenerated", ExtArgs["result"]["medicineReminder"]>
-  export type MedicineReminderInclude<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    user?: boolean | UserDefaultArgs<ExtArgs>
-  }
-  export type MedicineReminderIncludeCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    user?: boolean | UserDefaultArgs<ExtArgs>
-  }
-  export type MedicineReminderIncludeUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    user?: boolean | UserDefaultArgs<ExtArgs>
-  }
-
-  export type $MedicineReminderPayload<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    name: "MedicineReminder"
-    objects: {
-      user: Prisma.$UserPayload<ExtArgs>
-    }
-    scalars: $Extensions.GetPayloadResult<{
-      id: string
-      userId: string
-      name: string
-      dosage: string
-      frequency: string
-      time: string
-      notes: string | null
-      createdAt: Date
-      isActive: boolean
-      aiGenerated: boolean
-    }, ExtArgs["result"]["medicineReminder"]>
-    composites: {}
-  }
-
-  type MedicineReminderGetPayload<S extends boolean | null | undefined | MedicineReminderDefaultArgs> = $Result.GetResult<Prisma.$MedicineReminderPayload, S>
-
-  type MedicineReminderCountArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> =
-    Omit<MedicineReminderFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
-      select?: MedicineReminderCountAggregateInputType | true
-    }
-
-  export interface MedicineReminderDelegate<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> {
-    [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['MedicineReminder'], meta: { name: 'MedicineReminder' } }
-    /**
-     * Find zero or one MedicineReminder that matches the filter.
-     * @param {MedicineReminderFindUniqueArgs} args - Arguments to find a MedicineReminder
-     * @example
-     * // Get one MedicineReminder
-     * const medicineReminder = await prisma.medicineReminder.findUnique({
-     *   where: {
-     *     // ... provide filter here
-     *   }
-     * })
-     */
-    findUnique<T extends MedicineReminderFindUniqueArgs>(args: SelectSubset<T, MedicineReminderFindUniqueArgs<ExtArgs>>): Prisma__MedicineReminderClient<$Result.GetResult<Prisma.$MedicineReminderPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Find one MedicineReminder that matches the filter or throw an error with `error.code='P2025'`
-     * if no matches were found.
-     * @param {MedicineReminderFindUniqueOrThrowArgs} args - Arguments to find a MedicineReminder
-     * @example
-     * // Get one MedicineReminder
-     * const medicineReminder = await prisma.medicineReminder.findUniqueOrThrow({
-     *   where: {
-     *     // ... provide filter here
-     *   }
-     * })
-     */
-    findUniqueOrThrow<T extends MedicineReminderFindUniqueOrThrowArgs>(args: SelectSubset<T, MedicineReminderFindUniqueOrThrowArgs<ExtArgs>>): Prisma__MedicineReminderClient<$Result.GetResult<Prisma.$MedicineReminderPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Find the first MedicineReminder that matches the filter.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {MedicineReminderFindFirstArgs} args - Arguments to find a MedicineReminder
-     * @example
-     * // Get one MedicineReminder
-     * const medicineReminder = await prisma.medicineReminder.findFirst({
-     *   where: {
-     *     // ... provide filter here
-     *   }
-     * })
-     */
-    findFirst<T extends MedicineReminderFindFirstArgs>(args?: SelectSubset<T, MedicineReminderFindFirstArgs<ExtArgs>>): Prisma__MedicineReminderClient<$Result.GetResult<Prisma.$MedicineReminderPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Find the first MedicineReminder that matches the filter or
-     * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {MedicineReminderFindFirstOrThrowArgs} args - Arguments to find a MedicineReminder
-     * @example
-     * // Get one MedicineReminder
-     * const medicineReminder = await prisma.medicineReminder.findFirstOrThrow({
-     *   where: {
-     *     // ... provide filter here
-     *   }
-     * })
-     */
-    findFirstOrThrow<T extends MedicineReminderFindFirstOrThrowArgs>(args?: SelectSubset<T, MedicineReminderFindFirstOrThrowArgs<ExtArgs>>): Prisma__MedicineReminderClient<$Result.GetResult<Prisma.$MedicineReminderPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Find zero or more MedicineReminders that matches the filter.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {MedicineReminderFindManyArgs} args - Arguments to filter and select certain fields only.
-     * @example
-     * // Get all MedicineReminders
-     * const medicineReminders = await prisma.medicineReminder.findMany()
-     * 
-     * // Get first 10 MedicineReminders
-     * const medicineReminders = await prisma.medicineReminder.findMany({ take: 10 })
-     * 
-     * // Only select the `id`
-     * const medicineReminderWithIdOnly = await prisma.medicineReminder.findMany({ select: { id: true } })
-     * 
-     */
-    findMany<T extends MedicineReminderFindManyArgs>(args?: SelectSubset<T, MedicineReminderFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$MedicineReminderPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
-
-    /**
-     * Create a MedicineReminder.
-     * @param {MedicineReminderCreateArgs} args - Arguments to create a MedicineReminder.
-     * @example
-     * // Create one MedicineReminder
-     * const MedicineReminder = await prisma.medicineReminder.create({
-     *   data: {
-     *     // ... data to create a MedicineReminder
-     *   }
-     * })
-     * 
-     */
-    create<T extends MedicineReminderCreateArgs>(args: SelectSubset<T, MedicineReminderCreateArgs<ExtArgs>>): Prisma__MedicineReminderClient<$Result.GetResult<Prisma.$MedicineReminderPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Create many MedicineReminders.
-     * @param {MedicineReminderCreateManyArgs} args - Arguments to create many MedicineReminders.
-     * @example
-     * // Create many MedicineReminders
-     * const medicineReminder = await prisma.medicineReminder.createMany({
-     *   data: [
-     *     // ... provide data here
-     *   ]
-     * })
-     *     
-     */
-    createMany<T extends MedicineReminderCreateManyArgs>(args?: SelectSubset<T, MedicineReminderCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
-
-    /**
-     * Create many MedicineReminders and returns the data saved in the database.
-     * @param {MedicineReminderCreateManyAndReturnArgs} args - Arguments to create many MedicineReminders.
-     * @example
-     * // Create many MedicineReminders
-     * const medicineReminder = await prisma.medicineReminder.createManyAndReturn({
-     *   data: [
-     *     // ... provide data here
-     *   ]
-     * })
-     * 
-     * // Create many MedicineReminders and only return the `id`
-     * const medicineReminderWithIdOnly = await prisma.medicineReminder.createManyAndReturn({
-     *   select: { id: true },
-     *   data: [
-     *     // ... provide data here
-     *   ]
-     * })
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * 
-     */
-    createManyAndReturn<T extends MedicineReminderCreateManyAndReturnArgs>(args?: SelectSubset<T, MedicineReminderCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$MedicineReminderPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
-
-    /**
-     * Delete a MedicineReminder.
-     * @param {MedicineReminderDeleteArgs} args - Arguments to delete one MedicineReminder.
-     * @example
-     * // Delete one MedicineReminder
-     * const MedicineReminder = await prisma.medicineReminder.delete({
-     *   where: {
-     *     // ... filter to delete one MedicineReminder
-     *   }
-     * })
-     * 
-     */
-    delete<T extends MedicineReminderDeleteArgs>(args: SelectSubset<T, MedicineReminderDeleteArgs<ExtArgs>>): Prisma__MedicineReminderClient<$Result.GetResult<Prisma.$MedicineReminderPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Update one MedicineReminder.
-     * @param {MedicineReminderUpdateArgs} args - Arguments to update one MedicineReminder.
-     * @example
-     * // Update one MedicineReminder
-     * const medicineReminder = await prisma.medicineReminder.update({
-     *   where: {
-     *     // ... provide filter here
-     *   },
-     *   data: {
-     *     // ... provide data here
-     *   }
-     * })
-     * 
-     */
-    update<T extends MedicineReminderUpdateArgs>(args: SelectSubset<T, MedicineReminderUpdateArgs<ExtArgs>>): Prisma__MedicineReminderClient<$Result.GetResult<Prisma.$MedicineReminderPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-    /**
-     * Delete zero or more MedicineReminders.
-     * @param {MedicineReminderDeleteManyArgs} args - Arguments to filter MedicineReminders to delete.
-     * @example
-     * // Delete a few MedicineReminders
-     * const { count } = await prisma.medicineReminder.deleteMany({
-     *   where: {
-     *     // ... provide filter here
-     *   }
-     * })
-     * 
-     */
-    deleteMany<T extends MedicineReminderDeleteManyArgs>(args?: SelectSubset<T, MedicineReminderDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
-
-    /**
-     * Update zero or more MedicineReminders.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {MedicineReminderUpdateManyArgs} args - Arguments to update one or more rows.
-     * @example
-     * // Update many MedicineReminders
-     * const medicineReminder = await prisma.medicineReminder.updateMany({
-     *   where: {
-     *     // ... provide filter here
-     *   },
-     *   data: {
-     *     // ... provide data here
-     *   }
-     * })
-     * 
-     */
-    updateMany<T extends MedicineReminderUpdateManyArgs>(args: SelectSubset<T, MedicineReminderUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
-
-    /**
-     * Update zero or more MedicineReminders and returns the data updated in the database.
-     * @param {MedicineReminderUpdateManyAndReturnArgs} args - Arguments to update many MedicineReminders.
-     * @example
-     * // Update many MedicineReminders
-     * const medicineReminder = await prisma.medicineReminder.updateManyAndReturn({
-     *   where: {
-     *     // ... provide filter here
-     *   },
-     *   data: [
-     *     // ... provide data here
-     *   ]
-     * })
-     * 
-     * // Update zero or more MedicineReminders and only return the `id`
-     * const medicineReminderWithIdOnly = await prisma.medicineReminder.updateManyAndReturn({
-     *   select: { id: true },
-     *   where: {
-     *     // ... provide filter here
-     *   },
-     *   data: [
-     *     // ... provide data here
-     *   ]
-     * })
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * 
-     */
-    updateManyAndReturn<T extends MedicineReminderUpdateManyAndReturnArgs>(args: SelectSubset<T, MedicineReminderUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$MedicineReminderPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
-
-    /**
-     * Create or update one MedicineReminder.
-     * @param {MedicineReminderUpsertArgs} args - Arguments to update or create a MedicineReminder.
-     * @example
-     * // Update or create a MedicineReminder
-     * const medicineReminder = await prisma.medicineReminder.upsert({
-     *   create: {
-     *     // ... data to create a MedicineReminder
-     *   },
-     *   update: {
-     *     // ... in case it already exists, update
-     *   },
-     *   where: {
-     *     // ... the filter for the MedicineReminder we want to update
-     *   }
-     * })
-     */
-    upsert<T extends MedicineReminderUpsertArgs>(args: SelectSubset<T, MedicineReminderUpsertArgs<ExtArgs>>): Prisma__MedicineReminderClient<$Result.GetResult<Prisma.$MedicineReminderPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
-
-
-    /**
-     * Count the number of MedicineReminders.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {MedicineReminderCountArgs} args - Arguments to filter MedicineReminders to count.
-     * @example
-     * // Count the number of MedicineReminders
-     * const count = await prisma.medicineReminder.count({
-     *   where: {
-     *     // ... the filter for the MedicineReminders we want to count
-     *   }
-     * })
-    **/
-    count<T extends MedicineReminderCountArgs>(
-      args?: Subset<T, MedicineReminderCountArgs>,
-    ): Prisma.PrismaPromise<
-      T extends $Utils.Record<'select', any>
-        ? T['select'] extends true
-          ? number
-          : GetScalarType<T['select'], MedicineReminderCountAggregateOutputType>
-        : number
-    >
-
-    /**
-     * Allows you to perform aggregations operations on a MedicineReminder.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {MedicineReminderAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
-     * @example
-     * // Ordered by age ascending
-     * // Where email contains prisma.io
-     * // Limited to the 10 users
-     * const aggregations = await prisma.user.aggregate({
-     *   _avg: {
-     *     age: true,
-     *   },
-     *   where: {
-     *     email: {
-     *       contains: "prisma.io",
-     *     },
-     *   },
-     *   orderBy: {
-     *     age: "asc",
-     *   },
-     *   take: 10,
-     * })
-    **/
-    aggregate<T extends MedicineReminderAggregateArgs>(args: Subset<T, MedicineReminderAggregateArgs>): Prisma.PrismaPromise<GetMedicineReminderAggregateType<T>>
-
-    /**
-     * Group by MedicineReminder.
-     * Note, that providing `undefined` is treated as the value not being there.
-     * Read more here: https://pris.ly/d/null-undefined
-     * @param {MedicineReminderGroupByArgs} args - Group by arguments.
-     * @example
-     * // Group by city, order by createdAt, get count
-     * const result = await prisma.user.groupBy({
-     *   by: ['city', 'createdAt'],
-     *   orderBy: {
-     *     createdAt: true
-     *   },
-     *   _count: {
-     *     _all: true
-     *   },
-     * })
-     * 
-    **/
-    groupBy<
-      T extends MedicineReminderGroupByArgs,
-      HasSelectOrTake extends Or<
-        Extends<'skip', Keys<T>>,
-        Extends<'take', Keys<T>>
-      >,
-      OrderByArg extends True extends HasSelectOrTake
-        ? { orderBy: MedicineReminderGroupByArgs['orderBy'] }
-        : { orderBy?: MedicineReminderGroupByArgs['orderBy'] },
-      OrderFields extends ExcludeUnderscoreKeys<Keys<MaybeTupleToUnion<T['orderBy']>>>,
-      ByFields extends MaybeTupleToUnion<T['by']>,
-      ByValid extends Has<ByFields, OrderFields>,
-      HavingFields extends GetHavingFields<T['having']>,
-      HavingValid extends Has<ByFields, HavingFields>,
-      ByEmpty extends T['by'] extends never[] ? True : False,
-      InputErrors extends ByEmpty extends True
-      ? `Error: "by" must not be empty.`
-      : HavingValid extends False
-      ? {
-          [P in HavingFields]: P extends ByFields
-            ? never
-            : P extends string
-            ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
-            : [
-                Error,
-                'Field ',
-                P,
-                ` in "having" needs to be provided in "by"`,
-              ]
-        }[HavingFields]
-      : 'take' extends Keys<T>
-      ? 'orderBy' extends Keys<T>
-        ? ByValid extends True
-          ? {}
-          : {
-              [P in OrderFields]: P extends ByFields
-                ? never
-                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
-            }[OrderFields]
-        : 'Error: If you provide "take", you also need to provide "orderBy"'
-      : 'skip' extends Keys<T>
-      ? 'orderBy' extends Keys<T>
-        ? ByValid extends True
-          ? {}
-          : {
-              [P in OrderFields]: P extends ByFields
-                ? never
-                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
-            }[OrderFields]
-        : 'Error: If you provide "skip", you also need to provide "orderBy"'
-      : ByValid extends True
-      ? {}
-      : {
-          [P in OrderFields]: P extends ByFields
-            ? never
-            : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
-        }[OrderFields]
-    >(args: SubsetIntersection<T, MedicineReminderGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetMedicineReminderGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
-  /**
-   * Fields of the MedicineReminder model
-   */
-  readonly fields: MedicineReminderFieldRefs;
-  }
-
-  /**
-   * The delegate class that acts as a "Promise-like" for MedicineReminder.
-   * Why is this prefixed with `Prisma__`?
-   * Because we want to prevent naming conflicts as mentioned in
-   * https://github.com/prisma/prisma-client-js/issues/707
-   */
-  export interface Prisma__MedicineReminderClient<T, Null = never, ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
-    readonly [Symbol.toStringTag]: "PrismaPromise"
-    user<T extends UserDefaultArgs<ExtArgs> = {}>(args?: Subset<T, UserDefaultArgs<ExtArgs>>): Prisma__UserClient<$Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
-    /**
-     * Attaches callbacks for the resolution and/or rejection of the Promise.
-     * @param onfulfilled The callback to execute when the Promise is resolved.
-     * @param onrejected The callback to execute when the Promise is rejected.
-     * @returns A Promise for the completion of which ever callback is executed.
-     */
-    then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): $Utils.JsPromise<TResult1 | TResult2>
-    /**
-     * Attaches a callback for only the rejection of the Promise.
-     * @param onrejected The callback to execute when the Promise is rejected.
-     * @returns A Promise for the completion of the callback.
-     */
-    catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): $Utils.JsPromise<T | TResult>
-    /**
-     * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
-     * resolved value cannot be modified from the callback.
-     * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
-     * @returns A Promise for the completion of the callback.
-     */
-    finally(onfinally?: (() => void) | undefined | null): $Utils.JsPromise<T>
-  }
-
-
-
-
-  /**
-   * Fields of the MedicineReminder model
-   */
-  interface MedicineReminderFieldRefs {
-    readonly id: FieldRef<"MedicineReminder", 'String'>
-    readonly userId: FieldRef<"MedicineReminder", 'String'>
-    readonly name: FieldRef<"MedicineReminder", 'String'>
-    readonly dosage: FieldRef<"MedicineReminder", 'String'>
-    readonly frequency: FieldRef<"MedicineReminder", 'String'>
-    readonly time: FieldRef<"MedicineReminder", 'String'>
-    readonly notes: FieldRef<"MedicineReminder", 'String'>
-    readonly createdAt: FieldRef<"MedicineReminder", 'DateTime'>
-    readonly isActive: FieldRef<"MedicineReminder", 'Boolean'>
-    readonly aiGenerated: FieldRef<"MedicineReminder", 'Boolean'>
-  }
-    
-
-  // Custom InputTypes
-  /**
-   * MedicineReminder findUnique
-   */
-  export type MedicineReminderFindUniqueArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the MedicineReminder
-     */
-    select?: MedicineReminderSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the MedicineReminder
-     */
-    omit?: MedicineReminderOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: MedicineReminderInclude<ExtArgs> | null
-    /**
-     * Filter, which MedicineReminder to fetch.
-     */
-    where: MedicineReminderWhereUniqueInput
-  }
-
-  /**
-   * MedicineReminder findUniqueOrThrow
-   */
-  export type MedicineReminderFindUniqueOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the MedicineReminder
-     */
-    select?: MedicineReminderSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the MedicineReminder
-     */
-    omit?: MedicineReminderOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: MedicineReminderInclude<ExtArgs> | null
-    /**
-     * Filter, which MedicineReminder to fetch.
-     */
-    where: MedicineReminderWhereUniqueInput
-  }
-
-  /**
-   * MedicineReminder findFirst
-   */
-  export type MedicineReminderFindFirstArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the MedicineReminder
-     */
-    select?: MedicineReminderSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the MedicineReminder
-     */
-    omit?: MedicineReminderOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: MedicineReminderInclude<ExtArgs> | null
-    /**
-     * Filter, which MedicineReminder to fetch.
-     */
-    where?: MedicineReminderWhereInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
-     * 
-     * Determine the order of MedicineReminders to fetch.
-     */
-    orderBy?: MedicineReminderOrderByWithRelationInput | MedicineReminderOrderByWithRelationInput[]
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
-     * 
-     * Sets the position for searching for MedicineReminders.
-     */
-    cursor?: MedicineReminderWhereUniqueInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Take `±n` MedicineReminders from the position of the cursor.
-     */
-    take?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Skip the first `n` MedicineReminders.
-     */
-    skip?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
-     * 
-     * Filter by unique combinations of MedicineReminders.
-     */
-    distinct?: MedicineReminderScalarFieldEnum | MedicineReminderScalarFieldEnum[]
-  }
-
-  /**
-   * MedicineReminder findFirstOrThrow
-   */
-  export type MedicineReminderFindFirstOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the MedicineReminder
-     */
-    select?: MedicineReminderSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the MedicineReminder
-     */
-    omit?: MedicineReminderOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: MedicineReminderInclude<ExtArgs> | null
-    /**
-     * Filter, which MedicineReminder to fetch.
-     */
-    where?: MedicineReminderWhereInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
-     * 
-     * Determine the order of MedicineReminders to fetch.
-     */
-    orderBy?: MedicineReminderOrderByWithRelationInput | MedicineReminderOrderByWithRelationInput[]
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
-     * 
-     * Sets the position for searching for MedicineReminders.
-     */
-    cursor?: MedicineReminderWhereUniqueInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Take `±n` MedicineReminders from the position of the cursor.
-     */
-    take?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Skip the first `n` MedicineReminders.
-     */
-    skip?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
-     * 
-     * Filter by unique combinations of MedicineReminders.
-     */
-    distinct?: MedicineReminderScalarFieldEnum | MedicineReminderScalarFieldEnum[]
-  }
-
-  /**
-   * MedicineReminder findMany
-   */
-  export type MedicineReminderFindManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the MedicineReminder
-     */
-    select?: MedicineReminderSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the MedicineReminder
-     */
-    omit?: MedicineReminderOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: MedicineReminderInclude<ExtArgs> | null
-    /**
-     * Filter, which MedicineReminders to fetch.
-     */
-    where?: MedicineReminderWhereInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
-     * 
-     * Determine the order of MedicineReminders to fetch.
-     */
-    orderBy?: MedicineReminderOrderByWithRelationInput | MedicineReminderOrderByWithRelationInput[]
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
-     * 
-     * Sets the position for listing MedicineReminders.
-     */
-    cursor?: MedicineReminderWhereUniqueInput
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Take `±n` MedicineReminders from the position of the cursor.
-     */
-    take?: number
-    /**
-     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
-     * 
-     * Skip the first `n` MedicineReminders.
-     */
-    skip?: number
-    distinct?: MedicineReminderScalarFieldEnum | MedicineReminderScalarFieldEnum[]
-  }
-
-  /**
-   * MedicineReminder create
-   */
-  export type MedicineReminderCreateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the MedicineReminder
-     */
-    select?: MedicineReminderSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the MedicineReminder
-     */
-    omit?: MedicineReminderOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: MedicineReminderInclude<ExtArgs> | null
-    /**
-     * The data needed to create a MedicineReminder.
-     */
-    data: XOR<MedicineReminderCreateInput, MedicineReminderUncheckedCreateInput>
-  }
-
-  /**
-   * MedicineReminder createMany
-   */
-  export type MedicineReminderCreateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * The data used to create many MedicineReminders.
-     */
-    data: MedicineReminderCreateManyInput | MedicineReminderCreateManyInput[]
-    skipDuplicates?: boolean
-  }
-
-  /**
-   * MedicineReminder createManyAndReturn
-   */
-  export type MedicineReminderCreateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the MedicineReminder
-     */
-    select?: MedicineReminderSelectCreateManyAndReturn<ExtArgs> | null
-    /**
-     * Omit specific fields from the MedicineReminder
-     */
-    omit?: MedicineReminderOmit<ExtArgs> | null
-    /**
-     * The data used to create many MedicineReminders.
-     */
-    data: MedicineReminderCreateManyInput | MedicineReminderCreateManyInput[]
-    skipDuplicates?: boolean
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: MedicineReminderIncludeCreateManyAndReturn<ExtArgs> | null
-  }
-
-  /**
-   * MedicineReminder update
-   */
-  export type MedicineReminderUpdateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the MedicineReminder
-     */
-    select?: MedicineReminderSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the MedicineReminder
-     */
-    omit?: MedicineReminderOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: MedicineReminderInclude<ExtArgs> | null
-    /**
-     * The data needed to update a MedicineReminder.
-     */
-    data: XOR<MedicineReminderUpdateInput, MedicineReminderUncheckedUpdateInput>
-    /**
-     * Choose, which MedicineReminder to update.
-     */
-    where: MedicineReminderWhereUniqueInput
-  }
-
-  /**
-   * MedicineReminder updateMany
-   */
-  export type MedicineReminderUpdateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * The data used to update MedicineReminders.
-     */
-    data: XOR<MedicineReminderUpdateManyMutationInput, MedicineReminderUncheckedUpdateManyInput>
-    /**
-     * Filter which MedicineReminders to update
-     */
-    where?: MedicineReminderWhereInput
-    /**
-     * Limit how many MedicineReminders to update.
-     */
-    limit?: number
-  }
-
-  /**
-   * MedicineReminder updateManyAndReturn
-   */
-  export type MedicineReminderUpdateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the MedicineReminder
-     */
-    select?: MedicineReminderSelectUpdateManyAndReturn<ExtArgs> | null
-    /**
-     * Omit specific fields from the MedicineReminder
-     */
-    omit?: MedicineReminderOmit<ExtArgs> | null
-    /**
-     * The data used to update MedicineReminders.
-     */
-    data: XOR<MedicineReminderUpdateManyMutationInput, MedicineReminderUncheckedUpdateManyInput>
-    /**
-     * Filter which MedicineReminders to update
-     */
-    where?: MedicineReminderWhereInput
-    /**
-     * Limit how many MedicineReminders to update.
-     */
-    limit?: number
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: MedicineReminderIncludeUpdateManyAndReturn<ExtArgs> | null
-  }
-
-  /**
-   * MedicineReminder upsert
-   */
-  export type MedicineReminderUpsertArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the MedicineReminder
-     */
-    select?: MedicineReminderSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the MedicineReminder
-     */
-    omit?: MedicineReminderOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: MedicineReminderInclude<ExtArgs> | null
-    /**
-     * The filter to search for the MedicineReminder to update in case it exists.
-     */
-    where: MedicineReminderWhereUniqueInput
-    /**
-     * In case the MedicineReminder found by the `where` argument doesn't exist, create a new MedicineReminder with this data.
-     */
-    create: XOR<MedicineReminderCreateInput, MedicineReminderUncheckedCreateInput>
-    /**
-     * In case the MedicineReminder was found with the provided `where` argument, update it with this data.
-     */
-    update: XOR<MedicineReminderUpdateInput, MedicineReminderUncheckedUpdateInput>
-  }
-
-  /**
-   * MedicineReminder delete
-   */
-  export type MedicineReminderDeleteArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the MedicineReminder
-     */
-    select?: MedicineReminderSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the MedicineReminder
-     */
-    omit?: MedicineReminderOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: MedicineReminderInclude<ExtArgs> | null
-    /**
-     * Filter which MedicineReminder to delete.
-     */
-    where: MedicineReminderWhereUniqueInput
-  }
-
-  /**
-   * MedicineReminder deleteMany
-   */
-  export type MedicineReminderDeleteManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Filter which MedicineReminders to delete
-     */
-    where?: MedicineReminderWhereInput
-    /**
-     * Limit how many MedicineReminders to delete.
-     */
-    limit?: number
-  }
-
-  /**
-   * MedicineReminder without action
-   */
-  export type MedicineReminderDefaultArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
-    /**
-     * Select specific fields to fetch from the MedicineReminder
-     */
-    select?: MedicineReminderSelect<ExtArgs> | null
-    /**
-     * Omit specific fields from the MedicineReminder
-     */
-    omit?: MedicineReminderOmit<ExtArgs> | null
-    /**
-     * Choose, which related nodes to fetch as well
-     */
-    include?: MedicineReminderInclude<ExtArgs> | null
-  }
-
-
-  /**
-   * Enums
-   */
-
-  export const TransactionIsolationLevel: {
-    ReadUncommitted: 'ReadUncommitted',
-    ReadCommitted: 'ReadCommitted',
-    RepeatableRead: 'RepeatableRead',
-    Serializable: 'Serializable'
-  };
-
-  export type TransactionIsolationLevel = (typeof TransactionIsolationLevel)[keyof typeof TransactionIsolationLevel]
-
-
-  export const AccountScalarFieldEnum: {
-    id: 'id',
-    userId: 'userId',
-    type: 'type',
-    provider: 'provider',
-    providerAccountId: 'providerAccountId',
-    refresh_token: 'refresh_token',
-    access_token: 'access_token',
-    expires_at: 'expires_at',
-    token_type: 'token_type',
-    scope: 'scope',
-    id_token: 'id_token',
-    session_state: 'session_state'
-  };
-
-  export type AccountScalarFieldEnum = (typeof AccountScalarFieldEnum)[keyof typeof AccountScalarFieldEnum]
-
-
-  export const SessionScalarFieldEnum: {
-    id: 'id',
-    sessionToken: 'sessionToken',
-    userId: 'userId',
-    expires: 'expires'
-  };
-
-  export type SessionScalarFieldEnum = (typeof SessionScalarFieldEnum)[keyof typeof SessionScalarFieldEnum]
-
-
-  export const UserScalarFieldEnum: {
-    id: 'id',
-    name: 'name',
-    email: 'email',
-    emailVerified: 'emailVerified',
-    image: 'image',
-    role: 'role',
-    state: 'state',
-    hospital: 'hospital',
-    address: 'address',
-    dateOfBirth: 'dateOfBirth',
-    gender: 'gender',
-    phone: 'phone',
-    city: 'city',
-    pincode: 'pincode'
-  };
-
-  export type UserScalarFieldEnum = (typeof UserScalarFieldEnum)[keyof typeof UserScalarFieldEnum]
-
-
-  export const VerificationTokenScalarFieldEnum: {
-    identifier: 'identifier',
-    token: 'token',
-    expires: 'expires'
-  };
-
-  export type VerificationTokenScalarFieldEnum = (typeof VerificationTokenScalarFieldEnum)[keyof typeof VerificationTokenScalarFieldEnum]
-
-
-  export const ReceiptScalarFieldEnum: {
-    id: 'id',
-    userId: 'userId',
-    imageUrl: 'imageUrl',
-    uploatedAt: 'uploatedAt',
-    processedAt: 'processedAt',
-    condition: 'condition',
-    severity: 'severity',
-    hospitalId: 'hospitalId',
-    status: 'status',
-    queuePosition: 'queuePosition',
-    aiAnalysis: 'aiAnalysis',
-    doctorId: 'doctorId'
-  };
-
-  export type ReceiptScalarFieldEnum = (typeof ReceiptScalarFieldEnum)[keyof typeof ReceiptScalarFieldEnum]
-
-
-  export const HospitalScalarFieldEnum: {
-    id: 'id',
-    name: 'name',
-    state: 'state',
-    city: 'city',
-    address: 'address'
-  };
-
-  export type HospitalScalarFieldEnum = (typeof HospitalScalarFieldEnum)[keyof typeof HospitalScalarFieldEnum]
-
-
-  export const StateScalarFieldEnum: {
-    id: 'id',
-    name: 'name'
-  };
-
-  export type StateScalarFieldEnum = (typeof StateScalarFieldEnum)[keyof typeof StateScalarFieldEnum]
-
-
-  export const DoctorScalarFieldEnum: {
-    id: 'id',
-    name: 'name',
-    specialty: 'specialty',
-    hospitalId: 'hospitalId',
-    available: 'available'
-  };
-
-  export type DoctorScalarFieldEnum = (typeof DoctorScalarFieldEnum)[keyof typeof DoctorScalarFieldEnum]
-
-
-  export const AppointmentScalarFieldEnum: {
-    id: 'id',
-    userId: 'userId',
-    hospitalId: 'hospitalId',
-    doctorId: 'doctorId',
-    symptoms: 'symptoms',
-    aiAnalysis: 'aiAnalysis',
-    severity: 'severity',
-    status: 'status',
-    preferredDate: 'preferredDate',
-    scheduledDate: 'scheduledDate',
-    createdAt: 'createdAt',
-    updatedAt: 'updatedAt'
-  };
-
-  export type AppointmentScalarFieldEnum = (typeof AppointmentScalarFieldEnum)[keyof typeof AppointmentScalarFieldEnum]
-
-
-  export const EmergencyAlertScalarFieldEnum: {
-    id: 'id',
-    userId: 'userId',
-    hospitalId: 'hospitalId',
-    status: 'status',
-    patientInfo: 'patientInfo',
-    medicalHistory: 'medicalHistory',
-    createdAt: 'createdAt',
-    respondedAt: 'respondedAt',
-    notes: 'notes'
-  };
-
-  export type EmergencyAlertScalarFieldEnum = (typeof EmergencyAlertScalarFieldEnum)[keyof typeof EmergencyAlertScalarFieldEnum]
-
-
-  export const MedicineReminderScalarFieldEnum: {
-    id: 'id',
-    userId: 'userId',
-    name: 'name',
-    dosage: 'dosage',
-    frequency: 'frequency',
-    time: 'time',
-    notes: 'notes',
-    createdAt: 'createdAt',
-    isActive: 'isActive',
-    aiGenerated: 'aiGenerated'
-  };
-
-  export type MedicineReminderScalarFieldEnum = (typeof MedicineReminderScalarFieldEnum)[keyof typeof MedicineReminderScalarFieldEnum]
-
-
-  export const SortOrder: {
-    asc: 'asc',
-    desc: 'desc'
-  };
-
-  export type SortOrder = (typeof SortOrder)[keyof typeof SortOrder]
-
-
-  export const JsonNullValueInput: {
-    JsonNull: typeof JsonNull
-  };
-
-  export type JsonNullValueInput = (typeof JsonNullValueInput)[keyof typeof JsonNullValueInput]
-
-
-  export const QueryMode: {
-    default: 'default',
-    insensitive: 'insensitive'
-  };
-
-  export type QueryMode = (typeof QueryMode)[keyof typeof QueryMode]
-
-
-  export const NullsOrder: {
-    first: 'first',
-    last: 'last'
-  };
-
-  export type NullsOrder = (typeof NullsOrder)[keyof typeof NullsOrder]
-
-
-  export const JsonNullValueFilter: {
-    DbNull: typeof DbNull,
-    JsonNull: typeof JsonNull,
-    AnyNull: typeof AnyNull
-  };
-
-  export type JsonNullValueFilter = (typeof JsonNullValueFilter)[keyof typeof JsonNullValueFilter]
-
-
-  /**
-   * Field references
-   */
-
-
-  /**
-   * Reference to a field of type 'String'
-   */
-  export type StringFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'String'>
-    
-
-
-  /**
-   * Reference to a field of type 'String[]'
-   */
-  export type ListStringFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'String[]'>
-    
-
-
-  /**
-   * Reference to a field of type 'Int'
-   */
-  export type IntFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Int'>
-    
-
-
-  /**
-   * Reference to a field of type 'Int[]'
-   */
-  export type ListIntFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Int[]'>
-    
-
-
-  /**
-   * Reference to a field of type 'DateTime'
-   */
-  export type DateTimeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'DateTime'>
-    
-
-
-  /**
-   * Reference to a field of type 'DateTime[]'
-   */
-  export type ListDateTimeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'DateTime[]'>
-    
-
-
-  /**
-   * Reference to a field of type 'UserRole'
-   */
-  export type EnumUserRoleFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'UserRole'>
-    
-
-
-  /**
-   * Reference to a field of type 'UserRole[]'
-   */
-  export type ListEnumUserRoleFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'UserRole[]'>
-    
-
-
-  /**
-   * Reference to a field of type 'ReceiptStatus'
-   */
-  export type EnumReceiptStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'ReceiptStatus'>
-    
-
-
-  /**
-   * Reference to a field of type 'ReceiptStatus[]'
-   */
-  export type ListEnumReceiptStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'ReceiptStatus[]'>
-    
-
-
-  /**
-   * Reference to a field of type 'Boolean'
-   */
-  export type BooleanFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Boolean'>
-    
-
-
-  /**
-   * Reference to a field of type 'AppointmentStatus'
-   */
-  export type EnumAppointmentStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'AppointmentStatus'>
-    
-
-
-  /**
-   * Reference to a field of type 'AppointmentStatus[]'
-   */
-  export type ListEnumAppointmentStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'AppointmentStatus[]'>
-    
-
-
-  /**
-   * Reference to a field of type 'EmergencyAlertStatus'
-   */
-  export type EnumEmergencyAlertStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'EmergencyAlertStatus'>
-    
-
-
-  /**
-   * Reference to a field of type 'EmergencyAlertStatus[]'
-   */
-  export type ListEnumEmergencyAlertStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'EmergencyAlertStatus[]'>
-    
-
-
-  /**
-   * Reference to a field of type 'Json'
-   */
-  export type JsonFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Json'>
-    
-
-
-  /**
-   * Reference to a field of type 'QueryMode'
-   */
-  export type EnumQueryModeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'QueryMode'>
-    
-
-
-  /**
-   * Reference to a field of type 'Float'
-   */
-  export type FloatFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Float'>
-    
-
-
-  /**
-   * Reference to a field of type 'Float[]'
-   */
-  export type ListFloatFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Float[]'>
-    
-  /**
-   * Deep Input Types
-   */
-
-
-  export type AccountWhereInput = {
-    AND?: AccountWhereInput | AccountWhereInput[]
-    OR?: AccountWhereInput[]
-    NOT?: AccountWhereInput | AccountWhereInput[]
-    id?: StringFilter<"Account"> | string
-    userId?: StringFilter<"Account"> | string
-    type?: StringFilter<"Account"> | string
-    provider?: StringFilter<"Account"> | string
-    providerAccountId?: StringFilter<"Account"> | string
-    refresh_token?: StringNullableFilter<"Account"> | string | null
-    access_token?: StringNullableFilter<"Account"> | string | null
-    expires_at?: IntNullableFilter<"Account"> | number | null
-    token_type?: StringNullableFilter<"Account"> | string | null
-    scope?: StringNullableFilter<"Account"> | string | null
-    id_token?: StringNullableFilter<"Account"> | string | null
-    session_state?: StringNullableFilter<"Account"> | string | null
-    user?: XOR<UserScalarRelationFilter, UserWhereInput>
-  }
-
-  export type AccountOrderByWithRelationInput = {
-    id?: SortOrder
-    userId?: SortOrder
-    type?: SortOrder
-    provider?: SortOrder
-    providerAccountId?: SortOrder
-    refresh_token?: SortOrderInput | SortOrder
-    access_token?: SortOrderInput | SortOrder
-    expires_at?: SortOrderInput | SortOrder
-    token_type?: SortOrderInput | SortOrder
-    scope?: SortOrderInput | SortOrder
-    id_token?: SortOrderInput | SortOrder
-    session_state?: SortOrderInput | SortOrder
-    user?: UserOrderByWithRelationInput
-  }
-
-  export type AccountWhereUniqueInput = Prisma.AtLeast<{
-    id?: string
-    provider_providerAccountId?: AccountProviderProviderAccountIdCompoundUniqueInput
-    AND?: AccountWhereInput | AccountWhereInput[]
-    OR?: AccountWhereInput[]
-    NOT?: AccountWhereInput | AccountWhereInput[]
-    userId?: StringFilter<"Account"> | string
-    type?: StringFilter<"Account"> | string
-    provider?: StringFilter<"Account"> | string
-    providerAccountId?: StringFilter<"Account"> | string
-    refresh_token?: StringNullableFilter<"Account"> | string | null
-    access_token?: StringNullableFilter<"Account"> | string | null
-    expires_at?: IntNullableFilter<"Account"> | number | null
-    token_type?: StringNullableFilter<"Account"> | string | null
-    scope?: StringNullableFilter<"Account"> | string | null
-    id_token?: StringNullableFilter<"Account"> | string | null
-    session_state?: StringNullableFilter<"Account"> | string | null
-    user?: XOR<UserScalarRelationFilter, UserWhereInput>
-  }, "id" | "provider_providerAccountId">
-
-  export type AccountOrderByWithAggregationInput = {
-    id?: SortOrder
-    userId?: SortOrder
-    type?: SortOrder
-    provider?: SortOrder
-    providerAccountId?: SortOrder
-    refresh_token?: SortOrderInput | SortOrder
-    access_token?: SortOrderInput | SortOrder
-    expires_at?: SortOrderInput | SortOrder
-    token_type?: SortOrderInput | SortOrder
-    scope?: SortOrderInput | SortOrder
-    id_token?: SortOrderInput | SortOrder
-    session_state?: SortOrderInput | SortOrder
-    _count?: AccountCountOrderByAggregateInput
-    _avg?: AccountAvgOrderByAggregateInput
-    _max?: AccountMaxOrderByAggregateInput
-    _min?: AccountMinOrderByAggregateInput
-    _sum?: AccountSumOrderByAggregateInput
-  }
-
-  export type AccountScalarWhereWithAggregatesInput = {
-    AND?: AccountScalarWhereWithAggregatesInput | AccountScalarWhereWithAggregatesInput[]
-    OR?: AccountScalarWhereWithAggregatesInput[]
-    NOT?: AccountScalarWhereWithAggregatesInput | AccountScalarWhereWithAggregatesInput[]
-    id?: StringWithAggregatesFilter<"Account"> | string
-    userId?: StringWithAggregatesFilter<"Account"> | string
-    type?: StringWithAggregatesFilter<"Account"> | string
-    provider?: StringWithAggregatesFilter<"Account"> | string
-    providerAccountId?: StringWithAggregatesFilter<"Account"> | string
-    refresh_token?: StringNullableWithAggregatesFilter<"Account"> | string | null
-    access_token?: StringNullableWithAggregatesFilter<"Account"> | string | null
-    expires_at?: IntNullableWithAggregatesFilter<"Account"> | number | null
-    token_type?: StringNullableWithAggregatesFilter<"Account"> | string | null
-    scope?: StringNullableWithAggregatesFilter<"Account"> | string | null
-    id_token?: StringNullableWithAggregatesFilter<"Account"> | string | null
-    session_state?: StringNullableWithAggregatesFilter<"Account"> | string | null
-  }
-
-  export type SessionWhereInput = {
-    AND?: SessionWhereInput | SessionWhereInput[]
-    OR?: SessionWhereInput[]
-    NOT?: SessionWhereInput | SessionWhereInput[]
-    id?: StringFilter<"Session"> | string
-    sessionToken?: StringFilter<"Session"> | string
-    userId?: StringFilter<"Session"> | string
-    expires?: DateTimeFilter<"Session"> | Date | string
-    user?: XOR<UserScalarRelationFilter, UserWhereInput>
-  }
-
-  export type SessionOrderByWithRelationInput = {
-    id?: SortOrder
-    sessionToken?: SortOrder
-    userId?: SortOrder
-    expires?: SortOrder
-    user?: UserOrderByWithRelationInput
-  }
-
-  export type SessionWhereUniqueInput = Prisma.AtLeast<{
-    id?: string
-    sessionToken?: string
-    AND?: SessionWhereInput | SessionWhereInput[]
-    OR?: SessionWhereInput[]
-    NOT?: SessionWhereInput | SessionWhereInput[]
-    userId?: StringFilter<"Session"> | string
-    expires?: DateTimeFilter<"Session"> | Date | string
-    user?: XOR<UserScalarRelationFilter, UserWhereInput>
-  }, "id" | "sessionToken">
-
-  export type SessionOrderByWithAggregationInput = {
-    id?: SortOrder
-    sessionToken?: SortOrder
-    userId?: SortOrder
-    expires?: SortOrder
-    _count?: SessionCountOrderByAggregateInput
-    _max?: SessionMaxOrderByAggregateInput
-    _min?: SessionMinOrderByAggregateInput
-  }
-
-  export type SessionScalarWhereWithAggregatesInput = {
-    AND?: SessionScalarWhereWithAggregatesInput | SessionScalarWhereWithAggregatesInput[]
-    OR?: SessionScalarWhereWithAggregatesInput[]
-    NOT?: SessionScalarWhereWithAggregatesInput | SessionScalarWhereWithAggregatesInput[]
-    id?: StringWithAggregatesFilter<"Session"> | string
-    sessionToken?: StringWithAggregatesFilter<"Session"> | string
-    userId?: StringWithAggregatesFilter<"Session"> | string
-    expires?: DateTimeWithAggregatesFilter<"Session"> | Date | string
-  }
-
-  export type UserWhereInput = {
-    AND?: UserWhereInput | UserWhereInput[]
-    OR?: UserWhereInput[]
-    NOT?: UserWhereInput | UserWhereInput[]
-    id?: StringFilter<"User"> | string
-    name?: StringNullableFilter<"User"> | string | null
-    email?: StringNullableFilter<"User"> | string | null
-    emailVerified?: DateTimeNullableFilter<"User"> | Date | string | null
-    image?: StringNullableFilter<"User"> | string | null
-    role?: EnumUserRoleFilter<"User"> | $Enums.UserRole
-    state?: StringNullableFilter<"User"> | string | null
-    hospital?: StringNullableFilter<"User"> | string | null
-    address?: StringNullableFilter<"User"> | string | null
-    dateOfBirth?: DateTimeNullableFilter<"User"> | Date | string | null
-    gender?: StringNullableFilter<"User"> | string | null
-    phone?: StringNullableFilter<"User"> | string | null
-    city?: StringNullableFilter<"User"> | string | null
-    pincode?: StringNullableFilter<"User"> | string | null
-    accounts?: AccountListRelationFilter
-    sessions?: SessionListRelationFilter
-    appointments?: AppointmentListRelationFilter
-    receipts?: ReceiptListRelationFilter
-    emergencyAlerts?: EmergencyAlertListRelationFilter
-    medicineReminders?: MedicineReminderListRelationFilter
-  }
-
-  export type UserOrderByWithRelationInput = {
-    id?: SortOrder
-    name?: SortOrderInput | SortOrder
-    email?: SortOrderInput | SortOrder
-    emailVerified?: SortOrderInput | SortOrder
-    image?: SortOrderInput | SortOrder
-    role?: SortOrder
-    state?: SortOrderInput | SortOrder
-    hospital?: SortOrderInput | SortOrder
-    address?: SortOrderInput | SortOrder
-    dateOfBirth?: SortOrderInput | SortOrder
-    gender?: SortOrderInput | SortOrder
-    phone?: SortOrderInput | SortOrder
-    city?: SortOrderInput | SortOrder
-    pincode?: SortOrderInput | SortOrder
-    accounts?: AccountOrderByRelationAggregateInput
-    sessions?: SessionOrderByRelationAggregateInput
-    appointments?: AppointmentOrderByRelationAggregateInput
-    receipts?: ReceiptOrderByRelationAggregateInput
-    emergencyAlerts?: EmergencyAlertOrderByRelationAggregateInput
-    medicineReminders?: MedicineReminderOrderByRelationAggregateInput
-  }
-
-  export type UserWhereUniqueInput = Prisma.AtLeast<{
-    id?: string
-    email?: string
-    AND?: UserWhereInput | UserWhereInput[]
-    OR?: UserWhereInput[]
-    NOT?: UserWhereInput | UserWhereInput[]
-    name?: StringNullableFilter<"User"> | string | null
-    emailVerified?: DateTimeNullableFilter<"User"> | Date | string | null
-    image?: StringNullableFilter<"User"> | string | null
-    role?: EnumUserRoleFilter<"User"> | $Enums.UserRole
-    state?: StringNullableFilter<"User"> | string | null
-    hospital?: StringNullableFilter<"User"> | string | null
-    address?: StringNullableFilter<"User"> | string | null
-    dateOfBirth?: DateTimeNullableFilter<"User"> | Date | string | null
-    gender?: StringNullableFilter<"User"> | string | null
-    phone?: StringNullableFilter<"User"> | string | null
-    city?: StringNullableFilter<"User"> | string | null
-    pincode?: StringNullableFilter<"User"> | string | null
-    accounts?: AccountListRelationFilter
-    sessions?: SessionListRelationFilter
-    appointments?: AppointmentListRelationFilter
-    receipts?: ReceiptListRelationFilter
-    emergencyAlerts?: EmergencyAlertListRelationFilter
-    medicineReminders?: MedicineReminderListRelationFilter
-  }, "id" | "email">
-
-  export type UserOrderByWithAggregationInput = {
-    id?: SortOrder
-    name?: SortOrderInput | SortOrder
-    email?: SortOrderInput | SortOrder
-    emailVerified?: SortOrderInput | SortOrder
-    image?: SortOrderInput | SortOrder
-    role?: SortOrder
-    state?: SortOrderInput | SortOrder
-    hospital?: SortOrderInput | SortOrder
-    address?: SortOrderInput | SortOrder
-    dateOfBirth?: SortOrderInput | SortOrder
-    gender?: SortOrderInput | SortOrder
-    phone?: SortOrderInput | SortOrder
-    city?: SortOrderInput | SortOrder
-    pincode?: SortOrderInput | SortOrder
-    _count?: UserCountOrderByAggregateInput
-    _max?: UserMaxOrderByAggregateInput
-    _min?: UserMinOrderByAggregateInput
-  }
-
-  export type UserScalarWhereWithAggregatesInput = {
-    AND?: UserScalarWhereWithAggregatesInput | UserScalarWhereWithAggregatesInput[]
-    OR?: UserScalarWhereWithAggregatesInput[]
-    NOT?: UserScalarWhereWithAggregatesInput | UserScalarWhereWithAggregatesInput[]
-    id?: StringWithAggregatesFilter<"User"> | string
-    name?: StringNullableWithAggregatesFilter<"User"> | string | null
-    email?: StringNullableWithAggregatesFilter<"User"> | string | null
-    emailVerified?: DateTimeNullableWithAggregatesFilter<"User"> | Date | string | null
-    image?: StringNullableWithAggregatesFilter<"User"> | string | null
-    role?: EnumUserRoleWithAggregatesFilter<"User"> | $Enums.UserRole
-    state?: StringNullableWithAggregatesFilter<"User"> | string | null
-    hospital?: StringNullableWithAggregatesFilter<"User"> | string | null
-    address?: StringNullableWithAggregatesFilter<"User"> | string | null
-    dateOfBirth?: DateTimeNullableWithAggregatesFilter<"User"> | Date | string | null
-    gender?: StringNullableWithAggregatesFilter<"User"> | string | null
-    phone?: StringNullableWithAggregatesFilter<"User"> | string | null
-    city?: StringNullableWithAggregatesFilter<"User"> | string | null
-    pincode?: StringNullableWithAggregatesFilter<"User"> | string | null
-  }
-
-  export type VerificationTokenWhereInput = {
-    AND?: VerificationTokenWhereInput | VerificationTokenWhereInput[]
-    OR?: VerificationTokenWhereInput[]
-    NOT?: VerificationTokenWhereInput | VerificationTokenWhereInput[]
-    identifier?: StringFilter<"VerificationToken"> | string
-    token?: StringFilter<"VerificationToken"> | string
-    expires?: DateTimeFilter<"VerificationToken"> | Date | string
-  }
-
-  export type VerificationTokenOrderByWithRelationInput = {
-    identifier?: SortOrder
-    token?: SortOrder
-    expires?: SortOrder
-  }
-
-  export type VerificationTokenWhereUniqueInput = Prisma.AtLeast<{
-    token?: string
-    identifier_token?: VerificationTokenIdentifierTokenCompoundUniqueInput
-    AND?: VerificationTokenWhereInput | VerificationTokenWhereInput[]
-    OR?: VerificationTokenWhereInput[]
-    NOT?: VerificationTokenWhereInput | VerificationTokenWhereInput[]
-    identifier?: StringFilter<"VerificationToken"> | string
-    expires?: DateTimeFilter<"VerificationToken"> | Date | string
-  }, "token" | "identifier_token">
-
-  export type VerificationTokenOrderByWithAggregationInput = {
-    identifier?: SortOrder
-    token?: SortOrder
-    expires?: SortOrder
-    _count?: VerificationTokenCountOrderByAggregateInput
-    _max?: VerificationTokenMaxOrderByAggregateInput
-    _min?: VerificationTokenMinOrderByAggregateInput
-  }
-
-  export type VerificationTokenScalarWhereWithAggregatesInput = {
-    AND?: VerificationTokenScalarWhereWithAggregatesInput | VerificationTokenScalarWhereWithAggregatesInput[]
-    OR?: VerificationTokenScalarWhereWithAggregatesInput[]
-    NOT?: VerificationTokenScalarWhereWithAggregatesInput | VerificationTokenScalarWhereWithAggregatesInput[]
-    identifier?: StringWithAggregatesFilter<"VerificationToken"> | string
-    token?: StringWithAggregatesFilter<"VerificationToken"> | string
-    expires?: DateTimeWithAggregatesFilter<"VerificationToken"> | Date | string
-  }
-
-  export type ReceiptWhereInput = {
-    AND?: ReceiptWhereInput | ReceiptWhereInput[]
-    OR?: ReceiptWhereInput[]
-    NOT?: ReceiptWhereInput | ReceiptWhereInput[]
-    id?: StringFilter<"Receipt"> | string
-    userId?: StringFilter<"Receipt"> | string
-    imageUrl?: StringFilter<"Receipt"> | string
-    uploatedAt?: DateTimeFilter<"Receipt"> | Date | string
-    processedAt?: DateTimeNullableFilter<"Receipt"> | Date | string | null
-    condition?: StringNullableFilter<"Receipt"> | string | null
-    severity?: IntNullableFilter<"Receipt"> | number | null
-    hospitalId?: StringNullableFilter<"Receipt"> | string | null
-    status?: EnumReceiptStatusFilter<"Receipt"> | $Enums.ReceiptStatus
-    queuePosition?: IntNullableFilter<"Receipt"> | number | null
-    aiAnalysis?: StringNullableFilter<"Receipt"> | string | null
-    doctorId?: StringNullableFilter<"Receipt"> | string | null
-    doctor?: XOR<DoctorNullableScalarRelationFilter, DoctorWhereInput> | null
-    hospital?: XOR<HospitalNullableScalarRelationFilter, HospitalWhereInput> | null
-    user?: XOR<UserScalarRelationFilter, UserWhereInput>
-  }
-
-  export type ReceiptOrderByWithRelationInput = {
-    id?: SortOrder
-    userId?: SortOrder
-    imageUrl?: SortOrder
-    uploatedAt?: SortOrder
-    processedAt?: SortOrderInput | SortOrder
-    condition?: SortOrderInput | SortOrder
-    severity?: SortOrderInput | SortOrder
-    hospitalId?: SortOrderInput | SortOrder
-    status?: SortOrder
-    queuePosition?: SortOrderInput | SortOrder
-    aiAnalysis?: SortOrderInput | SortOrder
-    doctorId?: SortOrderInput | SortOrder
-    doctor?: DoctorOrderByWithRelationInput
-    hospital?: HospitalOrderByWithRelationInput
-    user?: UserOrderByWithRelationInput
-  }
-
-  export type ReceiptWhereUniqueInput = Prisma.AtLeast<{
-    id?: string
-    AND?: ReceiptWhereInput | ReceiptWhereInput[]
-    OR?: ReceiptWhereInput[]
-    NOT?: ReceiptWhereInput | ReceiptWhereInput[]
-    userId?: StringFilter<"Receipt"> | string
-    imageUrl?: StringFilter<"Receipt"> | string
-    uploatedAt?: DateTimeFilter<"Receipt"> | Date | string
-    processedAt?: DateTimeNullableFilter<"Receipt"> | Date | string | null
-    condition?: StringNullableFilter<"Receipt"> | string | null
-    severity?: IntNullableFilter<"Receipt"> | number | null
-    hospitalId?: StringNullableFilter<"Receipt"> | string | null
-    status?: EnumReceiptStatusFilter<"Receipt"> | $Enums.ReceiptStatus
-    queuePosition?: IntNullableFilter<"Receipt"> | number | null
-    aiAnalysis?: StringNullableFilter<"Receipt"> | string | null
-    doctorId?: StringNullableFilter<"Receipt"> | string | null
-    doctor?: XOR<DoctorNullableScalarRelationFilter, DoctorWhereInput> | null
-    hospital?: XOR<HospitalNullableScalarRelationFilter, HospitalWhereInput> | null
-    user?: XOR<UserScalarRelationFilter, UserWhereInput>
-  }, "id">
-
-  export type ReceiptOrderByWithAggregationInput = {
-    id?: SortOrder
-    userId?: SortOrder
-    imageUrl?: SortOrder
-    uploatedAt?: SortOrder
-    processedAt?: SortOrderInput | SortOrder
-    condition?: SortOrderInput | SortOrder
-    severity?: SortOrderInput | SortOrder
-    hospitalId?: SortOrderInput | SortOrder
-    status?: SortOrder
-    queuePosition?: SortOrderInput | SortOrder
-    aiAnalysis?: SortOrderInput | SortOrder
-    doctorId?: SortOrderInput | SortOrder
-    _count?: ReceiptCountOrderByAggregateInput
-    _avg?: ReceiptAvgOrderByAggregateInput
-    _max?: ReceiptMaxOrderByAggregateInput
-    _min?: ReceiptMinOrderByAggregateInput
-    _sum?: ReceiptSumOrderByAggregateInput
-  }
-
-  export type ReceiptScalarWhereWithAggregatesInput = {
-    AND?: ReceiptScalarWhereWithAggregatesInput | ReceiptScalarWhereWithAggregatesInput[]
-    OR?: ReceiptScalarWhereWithAggregatesInput[]
-    NOT?: ReceiptScalarWhereWithAggregatesInput | ReceiptScalarWhereWithAggregatesInput[]
-    id?: StringWithAggregatesFilter<"Receipt"> | string
-    userId?: StringWithAggregatesFilter<"Receipt"> | string
-    imageUrl?: StringWithAggregatesFilter<"Receipt"> | string
-    uploatedAt?: DateTimeWithAggregatesFilter<"Receipt"> | Date | string
-    processedAt?: DateTimeNullableWithAggregatesFilter<"Receipt"> | Date | string | null
-    condition?: StringNullableWithAggregatesFilter<"Receipt"> | string | null
-    severity?: IntNullableWithAggregatesFilter<"Receipt"> | number | null
-    hospitalId?: StringNullableWithAggregatesFilter<"Receipt"> | string | null
-    status?: EnumReceiptStatusWithAggregatesFilter<"Receipt"> | $Enums.ReceiptStatus
-    queuePosition?: IntNullableWithAggregatesFilter<"Receipt"> | number | null
-    aiAnalysis?: StringNullableWithAggregatesFilter<"Receipt"> | string | null
-    doctorId?: StringNullableWithAggregatesFilter<"Receipt"> | string | null
-  }
-
-  export type HospitalWhereInput = {
-    AND?: HospitalWhereInput | HospitalWhereInput[]
-    OR?: HospitalWhereInput[]
-    NOT?: HospitalWhereInput | HospitalWhereInput[]
-    id?: StringFilter<"Hospital"> | string
-    name?: StringFilter<"Hospital"> | string
-    state?: StringFilter<"Hospital"> | string
-    city?: StringNullableFilter<"Hospital"> | string | null
-    address?: StringNullableFilter<"Hospital"> | string | null
-    doctors?: DoctorListRelationFilter
-    receipts?: ReceiptListRelationFilter
-    appointments?: AppointmentListRelationFilter
-    emergencyAlerts?: EmergencyAlertListRelationFilter
-  }
-
-  export type HospitalOrderByWithRelationInput = {
-    id?: SortOrder
-    name?: SortOrder
-    state?: SortOrder
-    city?: SortOrderInput | SortOrder
-    address?: SortOrderInput | SortOrder
-    doctors?: DoctorOrderByRelationAggregateInput
-    receipts?: ReceiptOrderByRelationAggregateInput
-    appointments?: AppointmentOrderByRelationAggregateInput
-    emergencyAlerts?: EmergencyAlertOrderByRelationAggregateInput
-  }
-
-  export type HospitalWhereUniqueInput = Prisma.AtLeast<{
-    id?: string
-    AND?: HospitalWhereInput | HospitalWhereInput[]
-    OR?: HospitalWhereInput[]
-    NOT?: HospitalWhereInput | HospitalWhereInput[]
-    name?: StringFilter<"Hospital"> | string
-    state?: StringFilter<"Hospital"> | string
-    city?: StringNullableFilter<"Hospital"> | string | null
-    address?: StringNullableFilter<"Hospital"> | string | null
-    doctors?: DoctorListRelationFilter
-    receipts?: ReceiptListRelationFilter
-    appointments?: AppointmentListRelationFilter
-    emergencyAlerts?: EmergencyAlertListRelationFilter
-  }, "id">
-
-  export type HospitalOrderByWithAggregationInput = {
-    id?: SortOrder
-    name?: SortOrder
-    state?: SortOrder
-    city?: SortOrderInput | SortOrder
-    address?: SortOrderInput | SortOrder
-    _count?: HospitalCountOrderByAggregateInput
-    _max?: HospitalMaxOrderByAggregateInput
-    _min?: HospitalMinOrderByAggregateInput
-  }
-
-  export type HospitalScalarWhereWithAggregatesInput = {
-    AND?: HospitalScalarWhereWithAggregatesInput | HospitalScalarWhereWithAggregatesInput[]
-    OR?: HospitalScalarWhereWithAggregatesInput[]
-    NOT?: HospitalScalarWhereWithAggregatesInput | HospitalScalarWhereWithAggregatesInput[]
-    id?: StringWithAggregatesFilter<"Hospital"> | string
-    name?: StringWithAggregatesFilter<"Hospital"> | string
-    state?: StringWithAggregatesFilter<"Hospital"> | string
-    city?: StringNullableWithAggregatesFilter<"Hospital"> | string | null
-    address?: StringNullableWithAggregatesFilter<"Hospital"> | string | null
-  }
-
-  export type StateWhereInput = {
-    AND?: StateWhereInput | StateWhereInput[]
-    OR?: StateWhereInput[]
-    NOT?: StateWhereInput | StateWhereInput[]
-    id?: StringFilter<"State"> | string
-    name?: StringFilter<"State"> | string
-  }
-
-  export type StateOrderByWithRelationInput = {
-    id?: SortOrder
-    name?: SortOrder
-  }
-
-  export type StateWhereUniqueInput = Prisma.AtLeast<{
-    id?: string
-    name?: string
-    AND?: StateWhereInput | StateWhereInput[]
-    OR?: StateWhereInput[]
-    NOT?: StateWhereInput | StateWhereInput[]
-  }, "id" | "name">
-
-  export type StateOrderByWithAggregationInput = {
-    id?: SortOrder
-    name?: SortOrder
-    _count?: StateCountOrderByAggregateInput
-    _max?: StateMaxOrderByAggregateInput
-    _min?: StateMinOrderByAggregateInput
-  }
-
-  export type StateScalarWhereWithAggregatesInput = {
-    AND?: StateScalarWhereWithAggregatesInput | StateScalarWhereWithAggregatesInput[]
-    OR?: StateScalarWhereWithAggregatesInput[]
-    NOT?: StateScalarWhereWithAggregatesInput | StateScalarWhereWithAggregatesInput[]
-    id?: StringWithAggregatesFilter<"State"> | string
-    name?: StringWithAggregatesFilter<"State"> | string
-  }
-
-  export type DoctorWhereInput = {
-    AND?: DoctorWhereInput | DoctorWhereInput[]
-    OR?: DoctorWhereInput[]
-    NOT?: DoctorWhereInput | DoctorWhereInput[]
-    id?: StringFilter<"Doctor"> | string
-    name?: StringFilter<"Doctor"> | string
-    specialty?: StringFilter<"Doctor"> | string
-    hospitalId?: StringFilter<"Doctor"> | string
-    available?: BoolFilter<"Doctor"> | boolean
-    hospital?: XOR<HospitalScalarRelationFilter, HospitalWhereInput>
-    patients?: ReceiptListRelationFilter
-    appointments?: AppointmentListRelationFilter
-  }
-
-  export type DoctorOrderByWithRelationInput = {
-    id?: SortOrder
-    name?: SortOrder
-    specialty?: SortOrder
-    hospitalId?: SortOrder
-    available?: SortOrder
-    hospital?: HospitalOrderByWithRelationInput
-    patients?: ReceiptOrderByRelationAggregateInput
-    appointments?: AppointmentOrderByRelationAggregateInput
-  }
-
-  export type DoctorWhereUniqueInput = Prisma.AtLeast<{
-    id?: string
-    AND?: DoctorWhereInput | DoctorWhereInput[]
-    OR?: DoctorWhereInput[]
-    NOT?: DoctorWhereInput | DoctorWhereInput[]
-    name?: StringFilter<"Doctor"> | string
-    specialty?: StringFilter<"Doctor"> | string
-    hospitalId?: StringFilter<"Doctor"> | string
-    available?: BoolFilter<"Doctor"> | boolean
-    hospital?: XOR<HospitalScalarRelationFilter, HospitalWhereInput>
-    patients?: ReceiptListRelationFilter
-    appointments?: AppointmentListRelationFilter
-  }, "id">
-
-  export type DoctorOrderByWithAggregationInput = {
-    id?: SortOrder
-    name?: SortOrder
-    specialty?: SortOrder
-    hospitalId?: SortOrder
-    available?: SortOrder
-    _count?: DoctorCountOrderByAggregateInput
-    _max?: DoctorMaxOrderByAggregateInput
-    _min?: DoctorMinOrderByAggregateInput
-  }
-
-  export type DoctorScalarWhereWithAggregatesInput = {
-    AND?: DoctorScalarWhereWithAggregatesInput | DoctorScalarWhereWithAggregatesInput[]
-    OR?: DoctorScalarWhereWithAggregatesInput[]
-    NOT?: DoctorScalarWhereWithAggregatesInput | DoctorScalarWhereWithAggregatesInput[]
-    id?: StringWithAggregatesFilter<"Doctor"> | string
-    name?: StringWithAggregatesFilter<"Doctor"> | string
-    specialty?: StringWithAggregatesFilter<"Doctor"> | string
-    hospitalId?: StringWithAggregatesFilter<"Doctor"> | string
-    available?: BoolWithAggregatesFilter<"Doctor"> | boolean
-  }
-
-  export type AppointmentWhereInput = {
-    AND?: AppointmentWhereInput | AppointmentWhereInput[]
-    OR?: AppointmentWhereInput[]
-    NOT?: AppointmentWhereInput | AppointmentWhereInput[]
-    id?: StringFilter<"Appointment"> | string
-    userId?: StringFilter<"Appointment"> | string
-    hospitalId?: StringFilter<"Appointment"> | string
-    doctorId?: StringNullableFilter<"Appointment"> | string | null
-    symptoms?: StringFilter<"Appointment"> | string
-    aiAnalysis?: StringNullableFilter<"Appointment"> | string | null
-    severity?: IntNullableFilter<"Appointment"> | number | null
-    status?: EnumAppointmentStatusFilter<"Appointment"> | $Enums.AppointmentStatus
-    preferredDate?: DateTimeFilter<"Appointment"> | Date | string
-    scheduledDate?: DateTimeNullableFilter<"Appointment"> | Date | string | null
-    createdAt?: DateTimeFilter<"Appointment"> | Date | string
-    updatedAt?: DateTimeFilter<"Appointment"> | Date | string
-    user?: XOR<UserScalarRelationFilter, UserWhereInput>
-    hospital?: XOR<HospitalScalarRelationFilter, HospitalWhereInput>
-    doctor?: XOR<DoctorNullableScalarRelationFilter, DoctorWhereInput> | null
-  }
-
-  export type AppointmentOrderByWithRelationInput = {
-    id?: SortOrder
-    userId?: SortOrder
-    hospitalId?: SortOrder
-    doctorId?: SortOrderInput | SortOrder
-    symptoms?: SortOrder
-    aiAnalysis?: SortOrderInput | SortOrder
-    severity?: SortOrderInput | SortOrder
-    status?: SortOrder
-    preferredDate?: SortOrder
-    scheduledDate?: SortOrderInput | SortOrder
-    createdAt?: SortOrder
-    updatedAt?: SortOrder
-    user?: UserOrderByWithRelationInput
-    hospital?: HospitalOrderByWithRelationInput
-    doctor?: DoctorOrderByWithRelationInput
-  }
-
-  export type AppointmentWhereUniqueInput = Prisma.AtLeast<{
-    id?: string
-    AND?: AppointmentWhereInput | AppointmentWhereInput[]
-    OR?: AppointmentWhereInput[]
-    NOT?: AppointmentWhereInput | AppointmentWhereInput[]
-    userId?: StringFilter<"Appointment"> | string
-    hospitalId?: StringFilter<"Appointment"> | string
-    doctorId?: StringNullableFilter<"Appointment"> | string | null
-    symptoms?: StringFilter<"Appointment"> | string
-    aiAnalysis?: StringNullableFilter<"Appointment"> | string | null
-    severity?: IntNullableFilter<"Appointment"> | number | null
-    status?: EnumAppointmentStatusFilter<"Appointment"> | $Enums.AppointmentStatus
-    preferredDate?: DateTimeFilter<"Appointment"> | Date | string
-    scheduledDate?: DateTimeNullableFilter<"Appointment"> | Date | string | null
-    createdAt?: DateTimeFilter<"Appointment"> | Date | string
-    updatedAt?: DateTimeFilter<"Appointment"> | Date | string
-    user?: XOR<UserScalarRelationFilter, UserWhereInput>
-    hospital?: XOR<HospitalScalarRelationFilter, HospitalWhereInput>
-    doctor?: XOR<DoctorNullableScalarRelationFilter, DoctorWhereInput> | null
-  }, "id">
-
-  export type AppointmentOrderByWithAggregationInput = {
-    id?: SortOrder
-    userId?: SortOrder
-    hospitalId?: SortOrder
-    doctorId?: SortOrderInput | SortOrder
-    symptoms?: SortOrder
-    aiAnalysis?: SortOrderInput | SortOrder
-    severity?: SortOrderInput | SortOrder
-    status?: SortOrder
-    preferredDate?: SortOrder
-    scheduledDate?: SortOrderInput | SortOrder
-    createdAt?: SortOrder
-    updatedAt?: SortOrder
-    _count?: AppointmentCountOrderByAggregateInput
-    _avg?: AppointmentAvgOrderByAggregateInput
-    _max?: AppointmentMaxOrderByAggregateInput
-    _min?: AppointmentMinOrderByAggregateInput
-    _sum?: AppointmentSumOrderByAggregateInput
-  }
-
-  export type AppointmentScalarWhereWithAggregatesInput = {
-    AND?: AppointmentScalarWhereWithAggregatesInput | AppointmentScalarWhereWithAggregatesInput[]
-    OR?: AppointmentScalarWhereWithAggregatesInput[]
-    NOT?: AppointmentScalarWhereWithAggregatesInput | AppointmentScalarWhereWithAggregatesInput[]
-    id?: StringWithAggregatesFilter<"Appointment"> | string
-    userId?: StringWithAggregatesFilter<"Appointment"> | string
-    hospitalId?: StringWithAggregatesFilter<"Appointment"> | string
-    doctorId?: StringNullableWithAggregatesFilter<"Appointment"> | string | null
-    symptoms?: StringWithAggregatesFilter<"Appointment"> | string
-    aiAnalysis?: StringNullableWithAggregatesFilter<"Appointment"> | string | null
-    severity?: IntNullableWithAggregatesFilter<"Appointment"> | number | null
-    status?: EnumAppointmentStatusWithAggregatesFilter<"Appointment"> | $Enums.AppointmentStatus
-    preferredDate?: DateTimeWithAggregatesFilter<"Appointment"> | Date | string
-    scheduledDate?: DateTimeNullableWithAggregatesFilter<"Appointment"> | Date | string | null
-    createdAt?: DateTimeWithAggregatesFilter<"Appointment"> | Date | string
-    updatedAt?: DateTimeWithAggregatesFilter<"Appointment"> | Date | string
-  }
-
-  export type EmergencyAlertWhereInput = {
-    AND?: EmergencyAlertWhereInput | EmergencyAlertWhereInput[]
-    OR?: EmergencyAlertWhereInput[]
-    NOT?: EmergencyAlertWhereInput | EmergencyAlertWhereInput[]
-    id?: StringFilter<"EmergencyAlert"> | string
-    userId?: StringFilter<"EmergencyAlert"> | string
-    hospitalId?: StringFilter<"EmergencyAlert"> | string
-    status?: EnumEmergencyAlertStatusFilter<"EmergencyAlert"> | $Enums.EmergencyAlertStatus
-    patientInfo?: JsonFilter<"EmergencyAlert">
-    medicalHistory?: JsonFilter<"EmergencyAlert">
-    createdAt?: DateTimeFilter<"EmergencyAlert"> | Date | string
-    respondedAt?: DateTimeNullableFilter<"EmergencyAlert"> | Date | string | null
-    notes?: StringNullableFilter<"EmergencyAlert"> | string | null
-    user?: XOR<UserScalarRelationFilter, UserWhereInput>
-    hospital?: XOR<HospitalScalarRelationFilter, HospitalWhereInput>
-  }
-
-  export type EmergencyAlertOrderByWithRelationInput = {
-    id?: SortOrder
-    userId?: SortOrder
-    hospitalId?: SortOrder
-    status?: SortOrder
-    patientInfo?: SortOrder
-    medicalHistory?: SortOrder
-    createdAt?: SortOrder
-    respondedAt?: SortOrderInput | SortOrder
-    notes?: SortOrderInput | SortOrder
-    user?: UserOrderByWithRelationInput
-    hospital?: HospitalOrderByWithRelationInput
-  }
-
-  export type EmergencyAlertWhereUniqueInput = Prisma.AtLeast<{
-    id?: string
-    AND?: EmergencyAlertWhereInput | EmergencyAlertWhereInput[]
-    OR?: EmergencyAlertWhereInput[]
-    NOT?: EmergencyAlertWhereInput | EmergencyAlertWhereInput[]
-    userId?: StringFilter<"EmergencyAlert"> | string
-    hospitalId?: StringFilter<"EmergencyAlert"> | string
-    status?: EnumEmergencyAlertStatusFilter<"EmergencyAlert"> | $Enums.EmergencyAlertStatus
-    patientInfo?: JsonFilter<"EmergencyAlert">
-    medicalHistory?: JsonFilter<"EmergencyAlert">
-    createdAt?: DateTimeFilter<"EmergencyAlert"> | Date | string
-    respondedAt?: DateTimeNullableFilter<"EmergencyAlert"> | Date | string | null
-    notes?: StringNullableFilter<"EmergencyAlert"> | string | null
-    user?: XOR<UserScalarRelationFilter, UserWhereInput>
-    hospital?: XOR<HospitalScalarRelationFilter, HospitalWhereInput>
-  }, "id">
-
-  export type EmergencyAlertOrderByWithAggregationInput = {
-    id?: SortOrder
-    userId?: SortOrder
-    hospitalId?: SortOrder
-    status?: SortOrder
-    patientInfo?: SortOrder
-    medicalHistory?: SortOrder
-    createdAt?: SortOrder
-    respondedAt?: SortOrderInput | SortOrder
-    notes?: SortOrderInput | SortOrder
-    _count?: EmergencyAlertCountOrderByAggregateInput
-    _max?: EmergencyAlertMaxOrderByAggregateInput
-    _min?: EmergencyAlertMinOrderByAggregateInput
-  }
-
-  export type EmergencyAlertScalarWhereWithAggregatesInput = {
-    AND?: EmergencyAlertScalarWhereWithAggregatesInput | EmergencyAlertScalarWhereWithAggregatesInput[]
-    OR?: EmergencyAlertScalarWhereWithAggregatesInput[]
-    NOT?: EmergencyAlertScalarWhereWithAggregatesInput | EmergencyAlertScalarWhereWithAggregatesInput[]
-    id?: StringWithAggregatesFilter<"EmergencyAlert"> | string
-    userId?: StringWithAggregatesFilter<"EmergencyAlert"> | string
-    hospitalId?: StringWithAggregatesFilter<"EmergencyAlert"> | string
-    status?: EnumEmergencyAlertStatusWithAggregatesFilter<"EmergencyAlert"> | $Enums.EmergencyAlertStatus
-    patientInfo?: JsonWithAggregatesFilter<"EmergencyAlert">
-    medicalHistory?: JsonWithAggregatesFilter<"EmergencyAlert">
-    createdAt?: DateTimeWithAggregatesFilter<"EmergencyAlert"> | Date | string
-    respondedAt?: DateTimeNullableWithAggregatesFilter<"EmergencyAlert"> | Date | string | null
-    notes?: StringNullableWithAggregatesFilter<"EmergencyAlert"> | string | null
-  }
-
-  export type MedicineReminderWhereInput = {
-    AND?: MedicineReminderWhereInput | MedicineReminderWhereInput[]
-    OR?: MedicineReminderWhereInput[]
-    NOT?: MedicineReminderWhereInput | MedicineReminderWhereInput[]
-    id?: StringFilter<"MedicineReminder"> | string
-    userId?: StringFilter<"MedicineReminder"> | string
-    name?: StringFilter<"MedicineReminder"> | string
-    dosage?: StringFilter<"MedicineReminder"> | string
-    frequency?: StringFilter<"MedicineReminder"> | string
-    time?: StringFilter<"MedicineReminder"> | string
-    notes?: StringNullableFilter<"MedicineReminder"> | string | null
-    createdAt?: DateTimeFilter<"MedicineReminder"> | Date | string
-    isActive?: BoolFilter<"MedicineReminder"> | boolean
-    aiGenerated?: BoolFilter<"MedicineReminder"> | boolean
-    user?: XOR<UserScalarRelationFilter, UserWhereInput>
-  }
-
-  export type MedicineReminderOrderByWithRelationInput = {
-    id?: SortOrder
-    userId?: SortOrder
-    name?: SortOrder
-    dosage?: SortOrder
-    frequency?: SortOrder
-    time?: SortOrder
-    notes?: SortOrderInput | SortOrder
-    createdAt?: SortOrder
-    isActive?: SortOrder
-    aiGenerated?: SortOrder
-    user?: UserOrderByWithRelationInput
-  }
-
-  export type MedicineReminderWhereUniqueInput = Prisma.AtLeast<{
-    id?: string
-    AND?: MedicineReminderWhereInput | MedicineReminderWhereInput[]
-    OR?: MedicineReminderWhereInput[]
-    NOT?: MedicineReminderWhereInput | MedicineReminderWhereInput[]
-    userId?: StringFilter<"MedicineReminder"> | string
-    name?: StringFilter<"MedicineReminder"> | string
-    dosage?: StringFilter<"MedicineReminder"> | string
-    frequency?: StringFilter<"MedicineReminder"> | string
-    time?: StringFilter<"MedicineReminder"> | string
-    notes?: StringNullableFilter<"MedicineReminder"> | string | null
-    createdAt?: DateTimeFilter<"MedicineReminder"> | Date | string
-    isActive?: BoolFilter<"MedicineReminder"> | boolean
-    aiGenerated?: BoolFilter<"MedicineReminder"> | boolean
-    user?: XOR<UserScalarRelationFilter, UserWhereInput>
-  }, "id">
-
-  export type MedicineReminderOrderByWithAggregationInput = {
-    id?: SortOrder
-    userId?: SortOrder
-    name?: SortOrder
-    dosage?: SortOrder
-    frequency?: SortOrder
-    time?: SortOrder
-    notes?: SortOrderInput | SortOrder
-    createdAt?: SortOrder
-    isActive?: SortOrder
-    aiGenerated?: SortOrder
-    _count?: MedicineReminderCountOrderByAggregateInput
-    _max?: MedicineReminderMaxOrderByAggregateInput
-    _min?: MedicineReminderMinOrderByAggregateInput
-  }
-
-  export type MedicineReminderScalarWhereWithAggregatesInput = {
-    AND?: MedicineReminderScalarWhereWithAggregatesInput | MedicineReminderScalarWhereWithAggregatesInput[]
-    OR?: MedicineReminderScalarWhereWithAggregatesInput[]
-    NOT?: MedicineReminderScalarWhereWithAggregatesInput | MedicineReminderScalarWhereWithAggregatesInput[]
-    id?: StringWithAggregatesFilter<"MedicineReminder"> | string
-    userId?: StringWithAggregatesFilter<"MedicineReminder"> | string
-    name?: StringWithAggregatesFilter<"MedicineReminder"> | string
-    dosage?: StringWithAggregatesFilter<"MedicineReminder"> | string
-    frequency?: StringWithAggregatesFilter<"MedicineReminder"> | string
-    time?: StringWithAggregatesFilter<"MedicineReminder"> | string
-    notes?: StringNullableWithAggregatesFilter<"MedicineReminder"> | string | null
-    createdAt?: DateTimeWithAggregatesFilter<"MedicineReminder"> | Date | string
-    isActive?: BoolWithAggregatesFilter<"MedicineReminder"> | boolean
-    aiGenerated?: BoolWithAggregatesFilter<"MedicineReminder"> | boolean
-  }
-
-  export type AccountCreateInput = {
-    id?: string
-    type: string
-    provider: string
-    providerAccountId: string
-    refresh_token?: string | null
-    access_token?: string | null
-    expires_at?: number | null
-    token_type?: string | null
-    scope?: string | null
-    id_token?: string | null
-    session_state?: string | null
-    user: UserCreateNestedOneWithoutAccountsInput
-  }
-
-  export type AccountUncheckedCreateInput = {
-    id?: string
-    userId: string
-    type: string
-    provider: string
-    providerAccountId: string
-    refresh_token?: string | null
-    access_token?: string | null
-    expires_at?: number | null
-    token_type?: string | null
-    scope?: string | null
-    id_token?: string | null
-    session_state?: string | null
-  }
-
-  export type AccountUpdateInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    type?: StringFieldUpdateOperationsInput | string
-    provider?: StringFieldUpdateOperationsInput | string
-    providerAccountId?: StringFieldUpdateOperationsInput | string
-    refresh_token?: NullableStringFieldUpdateOperationsInput | string | null
-    access_token?: NullableStringFieldUpdateOperationsInput | string | null
-    expires_at?: NullableIntFieldUpdateOperationsInput | number | null
-    token_type?: NullableStringFieldUpdateOperationsInput | string | null
-    scope?: NullableStringFieldUpdateOperationsInput | string | null
-    id_token?: NullableStringFieldUpdateOperationsInput | string | null
-    session_state?: NullableStringFieldUpdateOperationsInput | string | null
-    user?: UserUpdateOneRequiredWithoutAccountsNestedInput
-  }
-
-  export type AccountUncheckedUpdateInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    userId?: StringFieldUpdateOperationsInput | string
-    type?: StringFieldUpdateOperationsInput | string
-    provider?: StringFieldUpdateOperationsInput | string
-    providerAccountId?: StringFieldUpdateOperationsInput | string
-    refresh_token?: NullableStringFieldUpdateOperationsInput | string | null
-    access_token?: NullableStringFieldUpdateOperationsInput | string | null
-    expires_at?: NullableIntFieldUpdateOperationsInput | number | null
-    token_type?: NullableStringFieldUpdateOperationsInput | string | null
-    scope?: NullableStringFieldUpdateOperationsInput | string | null
-    id_token?: NullableStringFieldUpdateOperationsInput | string | null
-    session_state?: NullableStringFieldUpdateOperationsInput | string | null
-  }
-
-  export type AccountCreateManyInput = {
-    id?: string
-    userId: string
-    type: string
-    provider: string
-    providerAccountId: string
-    refresh_token?: string | null
-    access_token?: string | null
-    expires_at?: number | null
-    token_type?: string | null
-    scope?: string | null
-    id_token?: string | null
-    session_state?: string | null
-  }
-
-  export type AccountUpdateManyMutationInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    type?: StringFieldUpdateOperationsInput | string
-    provider?: StringFieldUpdateOperationsInput | string
-    providerAccountId?: StringFieldUpdateOperationsInput | string
-    refresh_token?: NullableStringFieldUpdateOperationsInput | string | null
-    access_token?: NullableStringFieldUpdateOperationsInput | string | null
-    expires_at?: NullableIntFieldUpdateOperationsInput | number | null
-    token_type?: NullableStringFieldUpdateOperationsInput | string | null
-    scope?: NullableStringFieldUpdateOperationsInput | string | null
-    id_token?: NullableStringFieldUpdateOperationsInput | string | null
-    session_state?: NullableStringFieldUpdateOperationsInput | string | null
-  }
-
-  export type AccountUncheckedUpdateManyInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    userId?: StringFieldUpdateOperationsInput | string
-    type?: StringFieldUpdateOperationsInput | string
-    provider?: StringFieldUpdateOperationsInput | string
-    providerAccountId?: StringFieldUpdateOperationsInput | string
-    refresh_token?: NullableStringFieldUpdateOperationsInput | string | null
-    access_token?: NullableStringFieldUpdateOperationsInput | string | null
-    expires_at?: NullableIntFieldUpdateOperationsInput | number | null
-    token_type?: NullableStringFieldUpdateOperationsInput | string | null
-    scope?: NullableStringFieldUpdateOperationsInput | string | null
-    id_token?: NullableStringFieldUpdateOperationsInput | string | null
-    session_state?: NullableStringFieldUpdateOperationsInput | string | null
-  }
-
-  export type SessionCreateInput = {
-    id?: string
-    sessionToken: string
-    expires: Date | string
-    user: UserCreateNestedOneWithoutSessionsInput
-  }
-
-  export type SessionUncheckedCreateInput = {
-    id?: string
-    sessionToken: string
-    userId: string
-    expires: Date | string
-  }
-
-  export type SessionUpdateInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    sessionToken?: StringFieldUpdateOperationsInput | string
-    expires?: DateTimeFieldUpdateOperationsInput | Date | string
-    user?: UserUpdateOneRequiredWithoutSessionsNestedInput
-  }
-
-  export type SessionUncheckedUpdateInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    sessionToken?: StringFieldUpdateOperationsInput | string
-    userId?: StringFieldUpdateOperationsInput | string
-    expires?: DateTimeFieldUpdateOperationsInput | Date | string
-  }
-
-  export type SessionCreateManyInput = {
-    id?: string
-    sessionToken: string
-    userId: string
-    expires: Date | string
-  }
-
-  export type SessionUpdateManyMutationInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    sessionToken?: StringFieldUpdateOperationsInput | string
-    expires?: DateTimeFieldUpdateOperationsInput | Date | string
-  }
-
-  export type SessionUncheckedUpdateManyInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    sessionToken?: StringFieldUpdateOperationsInput | string
-    userId?: StringFieldUpdateOperationsInput | string
-    expires?: DateTimeFieldUpdateOperationsInput | Date | string
-  }
-
-  export type UserCreateInput = {
-    id?: string
-    name?: string | null
-    email?: string | null
-    emailVerified?: Date | string | null
-    image?: string | null
-    role?: $Enums.UserRole
-    state?: string | null
-    hospital?: string | null
-    address?: string | null
-    dateOfBirth?: Date | string | null
-    gender?: string | null
-    phone?: string | null
-    city?: string | null
-    pincode?: string | null
-    accounts?: AccountCreateNestedManyWithoutUserInput
-    sessions?: SessionCreateNestedManyWithoutUserInput
-    appointments?: AppointmentCreateNestedManyWithoutUserInput
-    receipts?: ReceiptCreateNestedManyWithoutUserInput
-    emergencyAlerts?: EmergencyAlertCreateNestedManyWithoutUserInput
-    medicineReminders?: MedicineReminderCreateNestedManyWithoutUserInput
-  }
-
-  export type UserUncheckedCreateInput = {
-    id?: string
-    name?: string | null
-    email?: string | null
-    emailVerified?: Date | string | null
-    image?: string | null
-    role?: $Enums.UserRole
-    state?: string | null
-    hospital?: string | null
-    address?: string | null
-    dateOfBirth?: Date | string | null
-    gender?: string | null
-    phone?: string | null
-    city?: string | null
-    pincode?: string | null
-    accounts?: AccountUncheckedCreateNestedManyWithoutUserInput
-    sessions?: SessionUncheckedCreateNestedManyWithoutUserInput
-    appointments?: AppointmentUncheckedCreateNestedManyWithoutUserInput
-    receipts?: ReceiptUncheckedCreateNestedManyWithoutUserInput
-    emergencyAlerts?: EmergencyAlertUncheckedCreateNestedManyWithoutUserInput
-    medicineReminders?: MedicineReminderUncheckedCreateNestedManyWithoutUserInput
-  }
-
-  export type UserUpdateInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    name?: NullableStringFieldUpdateOperationsInput | string | null
-    email?: NullableStringFieldUpdateOperationsInput | string | null
-    emailVerified?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    image?: NullableStringFieldUpdateOperationsInput | string | null
-    role?: EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
-    state?: NullableStringFieldUpdateOperationsInput | string | null
-    hospital?: NullableStringFieldUpdateOperationsInput | string | null
-    address?: NullableStringFieldUpdateOperationsInput | string | null
-    dateOfBirth?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    gender?: NullableStringFieldUpdateOperationsInput | string | null
-    phone?: NullableStringFieldUpdateOperationsInput | string | null
-    city?: NullableStringFieldUpdateOperationsInput | string | null
-    pincode?: NullableStringFieldUpdateOperationsInput | string | null
-    accounts?: AccountUpdateManyWithoutUserNestedInput
-    sessions?: SessionUpdateManyWithoutUserNestedInput
-    appointments?: AppointmentUpdateManyWithoutUserNestedInput
-    receipts?: ReceiptUpdateManyWithoutUserNestedInput
-    emergencyAlerts?: EmergencyAlertUpdateManyWithoutUserNestedInput
-    medicineReminders?: MedicineReminderUpdateManyWithoutUserNestedInput
-  }
-
-  export type UserUncheckedUpdateInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    name?: NullableStringFieldUpdateOperationsInput | string | null
-    email?: NullableStringFieldUpdateOperationsInput | string | null
-    emailVerified?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    image?: NullableStringFieldUpdateOperationsInput | string | null
-    role?: EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
-    state?: NullableStringFieldUpdateOperationsInput | string | null
-    hospital?: NullableStringFieldUpdateOperationsInput | string | null
-    address?: NullableStringFieldUpdateOperationsInput | string | null
-    dateOfBirth?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    gender?: NullableStringFieldUpdateOperationsInput | string | null
-    phone?: NullableStringFieldUpdateOperationsInput | string | null
-    city?: NullableStringFieldUpdateOperationsInput | string | null
-    pincode?: NullableStringFieldUpdateOperationsInput | string | null
-    accounts?: AccountUncheckedUpdateManyWithoutUserNestedInput
-    sessions?: SessionUncheckedUpdateManyWithoutUserNestedInput
-    appointments?: AppointmentUncheckedUpdateManyWithoutUserNestedInput
-    receipts?: ReceiptUncheckedUpdateManyWithoutUserNestedInput
-    emergencyAlerts?: EmergencyAlertUncheckedUpdateManyWithoutUserNestedInput
-    medicineReminders?: MedicineReminderUncheckedUpdateManyWithoutUserNestedInput
-  }
-
-  export type UserCreateManyInput = {
-    id?: string
-    name?: string | null
-    email?: string | null
-    emailVerified?: Date | string | null
-    image?: string | null
-    role?: $Enums.UserRole
-    state?: string | null
-    hospital?: string | null
-    address?: string | null
-    dateOfBirth?: Date | string | null
-    gender?: string | null
-    phone?: string | null
-    city?: string | null
-    pincode?: string | null
-  }
-
-  export type UserUpdateManyMutationInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    name?: NullableStringFieldUpdateOperationsInput | string | null
-    email?: NullableStringFieldUpdateOperationsInput | string | null
-    emailVerified?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    image?: NullableStringFieldUpdateOperationsInput | string | null
-    role?: EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
-    state?: NullableStringFieldUpdateOperationsInput | string | null
-    hospital?: NullableStringFieldUpdateOperationsInput | string | null
-    address?: NullableStringFieldUpdateOperationsInput | string | null
-    dateOfBirth?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    gender?: NullableStringFieldUpdateOperationsInput | string | null
-    phone?: NullableStringFieldUpdateOperationsInput | string | null
-    city?: NullableStringFieldUpdateOperationsInput | string | null
-    pincode?: NullableStringFieldUpdateOperationsInput | string | null
-  }
-
-  export type UserUncheckedUpdateManyInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    name?: NullableStringFieldUpdateOperationsInput | string | null
-    email?: NullableStringFieldUpdateOperationsInput | string | null
-    emailVerified?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    image?: NullableStringFieldUpdateOperationsInput | string | null
-    role?: EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
-    state?: NullableStringFieldUpdateOperationsInput | string | null
-    hospital?: NullableStringFieldUpdateOperationsInput | string | null
-    address?: NullableStringFieldUpdateOperationsInput | string | null
-    dateOfBirth?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    gender?: NullableStringFieldUpdateOperationsInput | string | null
-    phone?: NullableStringFieldUpdateOperationsInput | string | null
-    city?: NullableStringFieldUpdateOperationsInput | string | null
-    pincode?: NullableStringFieldUpdateOperationsInput | string | null
-  }
-
-  export type VerificationTokenCreateInput = {
-    identifier: string
-    token: string
-    expires: Date | string
-  }
-
-  export type VerificationTokenUncheckedCreateInput = {
-    identifier: string
-    token: string
-    expires: Date | string
-  }
-
-  export type VerificationTokenUpdateInput = {
-    identifier?: StringFieldUpdateOperationsInput | string
-    token?: StringFieldUpdateOperationsInput | string
-    expires?: DateTimeFieldUpdateOperationsInput | Date | string
-  }
-
-  export type VerificationTokenUncheckedUpdateInput = {
-    identifier?: StringFieldUpdateOperationsInput | string
-    token?: StringFieldUpdateOperationsInput | string
-    expires?: DateTimeFieldUpdateOperationsInput | Date | string
-  }
-
-  export type VerificationTokenCreateManyInput = {
-    identifier: string
-    token: string
-    expires: Date | string
-  }
-
-  export type VerificationTokenUpdateManyMutationInput = {
-    identifier?: StringFieldUpdateOperationsInput | string
-    token?: StringFieldUpdateOperationsInput | string
-    expires?: DateTimeFieldUpdateOperationsInput | Date | string
-  }
-
-  export type VerificationTokenUncheckedUpdateManyInput = {
-    identifier?: StringFieldUpdateOperationsInput | string
-    token?: StringFieldUpdateOperationsInput | string
-    expires?: DateTimeFieldUpdateOperationsInput | Date | string
-  }
-
-  export type ReceiptCreateInput = {
-    id?: string
-    imageUrl: string
-    uploatedAt?: Date | string
-    processedAt?: Date | string | null
-    condition?: string | null
-    severity?: number | null
-    status?: $Enums.ReceiptStatus
-    queuePosition?: number | null
-    aiAnalysis?: string | null
-    doctor?: DoctorCreateNestedOneWithoutPatientsInput
-    hospital?: HospitalCreateNestedOneWithoutReceiptsInput
-    user: UserCreateNestedOneWithoutReceiptsInput
-  }
-
-  export type ReceiptUncheckedCreateInput = {
-    id?: string
-    userId: string
-    imageUrl: string
-    uploatedAt?: Date | string
-    processedAt?: Date | string | null
-    condition?: string | null
-    severity?: number | null
-    hospitalId?: string | null
-    status?: $Enums.ReceiptStatus
-    queuePosition?: number | null
-    aiAnalysis?: string | null
-    doctorId?: string | null
-  }
-
-  export type ReceiptUpdateInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    imageUrl?: StringFieldUpdateOperationsInput | string
-    uploatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
-    processedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    condition?: NullableStringFieldUpdateOperationsInput | string | null
-    severity?: NullableIntFieldUpdateOperationsInput | number | null
-    status?: EnumReceiptStatusFieldUpdateOperationsInput | $Enums.ReceiptStatus
-    queuePosition?: NullableIntFieldUpdateOperationsInput | number | null
-    aiAnalysis?: NullableStringFieldUpdateOperationsInput | string | null
-    doctor?: DoctorUpdateOneWithoutPatientsNestedInput
-    hospital?: HospitalUpdateOneWithoutReceiptsNestedInput
-    user?: UserUpdateOneRequiredWithoutReceiptsNestedInput
-  }
-
-  export type ReceiptUncheckedUpdateInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    userId?: StringFieldUpdateOperationsInput | string
-    imageUrl?: StringFieldUpdateOperationsInput | string
-    uploatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
-    processedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    condition?: NullableStringFieldUpdateOperationsInput | string | null
-    severity?: NullableIntFieldUpdateOperationsInput | number | null
-    hospitalId?: NullableStringFieldUpdateOperationsInput | string | null
-    status?: EnumReceiptStatusFieldUpdateOperationsInput | $Enums.ReceiptStatus
-    queuePosition?: NullableIntFieldUpdateOperationsInput | number | null
-    aiAnalysis?: NullableStringFieldUpdateOperationsInput | string | null
-    doctorId?: NullableStringFieldUpdateOperationsInput | string | null
-  }
-
-  export type ReceiptCreateManyInput = {
-    id?: string
-    userId: string
-    imageUrl: string
-    uploatedAt?: Date | string
-    processedAt?: Date | string | null
-    condition?: string | null
-    severity?: number | null
-    hospitalId?: string | null
-    status?: $Enums.ReceiptStatus
-    queuePosition?: number | null
-    aiAnalysis?: string | null
-    doctorId?: string | null
-  }
-
-  export type ReceiptUpdateManyMutationInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    imageUrl?: StringFieldUpdateOperationsInput | string
-    uploatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
-    processedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    condition?: NullableStringFieldUpdateOperationsInput | string | null
-    severity?: NullableIntFieldUpdateOperationsInput | number | null
-    status?: EnumReceiptStatusFieldUpdateOperationsInput | $Enums.ReceiptStatus
-    queuePosition?: NullableIntFieldUpdateOperationsInput | number | null
-    aiAnalysis?: NullableStringFieldUpdateOperationsInput | string | null
-  }
-
-  export type ReceiptUncheckedUpdateManyInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    userId?: StringFieldUpdateOperationsInput | string
-    imageUrl?: StringFieldUpdateOperationsInput | string
-    uploatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
-    processedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    condition?: NullableStringFieldUpdateOperationsInput | string | null
-    severity?: NullableIntFieldUpdateOperationsInput | number | null
-    hospitalId?: NullableStringFieldUpdateOperationsInput | string | null
-    status?: EnumReceiptStatusFieldUpdateOperationsInput | $Enums.ReceiptStatus
-    queuePosition?: NullableIntFieldUpdateOperationsInput | number | null
-    aiAnalysis?: NullableStringFieldUpdateOperationsInput | string | null
-    doctorId?: NullableStringFieldUpdateOperationsInput | string | null
-  }
-
-  export type HospitalCreateInput = {
-    id?: string
-    name: string
-    state: string
-    city?: string | null
-    address?: string | null
-    doctors?: DoctorCreateNestedManyWithoutHospitalInput
-    receipts?: ReceiptCreateNestedManyWithoutHospitalInput
-    appointments?: AppointmentCreateNestedManyWithoutHospitalInput
-    emergencyAlerts?: EmergencyAlertCreateNestedManyWithoutHospitalInput
-  }
-
-  export type HospitalUncheckedCreateInput = {
-    id?: string
-    name: string
-    state: string
-    city?: string | null
-    address?: string | null
-    doctors?: DoctorUncheckedCreateNestedManyWithoutHospitalInput
-    receipts?: ReceiptUncheckedCreateNestedManyWithoutHospitalInput
-    appointments?: AppointmentUncheckedCreateNestedManyWithoutHospitalInput
-    emergencyAlerts?: EmergencyAlertUncheckedCreateNestedManyWithoutHospitalInput
-  }
-
-  export type HospitalUpdateInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    name?: StringFieldUpdateOperationsInput | string
-    state?: StringFieldUpdateOperationsInput | string
-    city?: NullableStringFieldUpdateOperationsInput | string | null
-    address?: NullableStringFieldUpdateOperationsInput | string | null
-    doctors?: DoctorUpdateManyWithoutHospitalNestedInput
-    receipts?: ReceiptUpdateManyWithoutHospitalNestedInput
-    appointments?: AppointmentUpdateManyWithoutHospitalNestedInput
-    emergencyAlerts?: EmergencyAlertUpdateManyWithoutHospitalNestedInput
-  }
-
-  export type HospitalUncheckedUpdateInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    name?: StringFieldUpdateOperationsInput | string
-    state?: StringFieldUpdateOperationsInput | string
-    city?: NullableStringFieldUpdateOperationsInput | string | null
-    address?: NullableStringFieldUpdateOperationsInput | string | null
-    doctors?: DoctorUncheckedUpdateManyWithoutHospitalNestedInput
-    receipts?: ReceiptUncheckedUpdateManyWithoutHospitalNestedInput
-    appointments?: AppointmentUncheckedUpdateManyWithoutHospitalNestedInput
-    emergencyAlerts?: EmergencyAlertUncheckedUpdateManyWithoutHospitalNestedInput
-  }
-
-  export type HospitalCreateManyInput = {
-    id?: string
-    name: string
-    state: string
-    city?: string | null
-    address?: string | null
-  }
-
-  export type HospitalUpdateManyMutationInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    name?: StringFieldUpdateOperationsInput | string
-    state?: StringFieldUpdateOperationsInput | string
-    city?: NullableStringFieldUpdateOperationsInput | string | null
-    address?: NullableStringFieldUpdateOperationsInput | string | null
-  }
-
-  export type HospitalUncheckedUpdateManyInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    name?: StringFieldUpdateOperationsInput | string
-    state?: StringFieldUpdateOperationsInput | string
-    city?: NullableStringFieldUpdateOperationsInput | string | null
-    address?: NullableStringFieldUpdateOperationsInput | string | null
-  }
-
-  export type StateCreateInput = {
-    id?: string
-    name: string
-  }
-
-  export type StateUncheckedCreateInput = {
-    id?: string
-    name: string
-  }
-
-  export type StateUpdateInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    name?: StringFieldUpdateOperationsInput | string
-  }
-
-  export type StateUncheckedUpdateInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    name?: StringFieldUpdateOperationsInput | string
-  }
-
-  export type StateCreateManyInput = {
-    id?: string
-    name: string
-  }
-
-  export type StateUpdateManyMutationInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    name?: StringFieldUpdateOperationsInput | string
-  }
-
-  export type StateUncheckedUpdateManyInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    name?: StringFieldUpdateOperationsInput | string
-  }
-
-  export type DoctorCreateInput = {
-    id?: string
-    name: string
-    specialty: string
-    available?: boolean
-    hospital: HospitalCreateNestedOneWithoutDoctorsInput
-    patients?: ReceiptCreateNestedManyWithoutDoctorInput
-    appointments?: AppointmentCreateNestedManyWithoutDoctorInput
-  }
-
-  export type DoctorUncheckedCreateInput = {
-    id?: string
-    name: string
-    specialty: string
-    hospitalId: string
-    available?: boolean
-    patients?: ReceiptUncheckedCreateNestedManyWithoutDoctorInput
-    appointments?: AppointmentUncheckedCreateNestedManyWithoutDoctorInput
-  }
-
-  export type DoctorUpdateInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    name?: StringFieldUpdateOperationsInput | string
-    specialty?: StringFieldUpdateOperationsInput | string
-    available?: BoolFieldUpdateOperationsInput | boolean
-    hospital?: HospitalUpdateOneRequiredWithoutDoctorsNestedInput
-    patients?: ReceiptUpdateManyWithoutDoctorNestedInput
-    appointments?: AppointmentUpdateManyWithoutDoctorNestedInput
-  }
-
-  export type DoctorUncheckedUpdateInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    name?: StringFieldUpdateOperationsInput | string
-    specialty?: StringFieldUpdateOperationsInput | string
-    hospitalId?: StringFieldUpdateOperationsInput | string
-    available?: BoolFieldUpdateOperationsInput | boolean
-    patients?: ReceiptUncheckedUpdateManyWithoutDoctorNestedInput
-    appointments?: AppointmentUncheckedUpdateManyWithoutDoctorNestedInput
-  }
-
-  export type DoctorCreateManyInput = {
-    id?: string
-    name: string
-    specialty: string
-    hospitalId: string
-    available?: boolean
-  }
-
-  export type DoctorUpdateManyMutationInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    name?: StringFieldUpdateOperationsInput | string
-    specialty?: StringFieldUpdateOperationsInput | string
-    available?: BoolFieldUpdateOperationsInput | boolean
-  }
-
-  export type DoctorUncheckedUpdateManyInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    name?: StringFieldUpdateOperationsInput | string
-    specialty?: StringFieldUpdateOperationsInput | string
-    hospitalId?: StringFieldUpdateOperationsInput | string
-    available?: BoolFieldUpdateOperationsInput | boolean
-  }
-
-  export type AppointmentCreateInput = {
-    id?: string
-    symptoms: string
-    aiAnalysis?: string | null
-    severity?: number | null
-    status?: $Enums.AppointmentStatus
-    preferredDate: Date | string
-    scheduledDate?: Date | string | null
-    createdAt?: Date | string
-    updatedAt?: Date | string
-    user: UserCreateNestedOneWithoutAppointmentsInput
-    hospital: HospitalCreateNestedOneWithoutAppointmentsInput
-    doctor?: DoctorCreateNestedOneWithoutAppointmentsInput
-  }
-
-  export type AppointmentUncheckedCreateInput = {
-    id?: string
-    userId: string
-    hospitalId: string
-    doctorId?: string | null
-    symptoms: string
-    aiAnalysis?: string | null
-    severity?: number | null
-    status?: $Enums.AppointmentStatus
-    preferredDate: Date | string
-    scheduledDate?: Date | string | null
-    createdAt?: Date | string
-    updatedAt?: Date | string
-  }
-
-  export type AppointmentUpdateInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    symptoms?: StringFieldUpdateOperationsInput | string
-    aiAnalysis?: NullableStringFieldUpdateOperationsInput | string | null
-    severity?: NullableIntFieldUpdateOperationsInput | number | null
-    status?: EnumAppointmentStatusFieldUpdateOperationsInput | $Enums.AppointmentStatus
-    preferredDate?: DateTimeFieldUpdateOperationsInput | Date | string
-    scheduledDate?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
-    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
-    user?: UserUpdateOneRequiredWithoutAppointmentsNestedInput
-    hospital?: HospitalUpdateOneRequiredWithoutAppointmentsNestedInput
-    doctor?: DoctorUpdateOneWithoutAppointmentsNestedInput
-  }
-
-  export type AppointmentUncheckedUpdateInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    userId?: StringFieldUpdateOperationsInput | string
-    hospitalId?: StringFieldUpdateOperationsInput | string
-    doctorId?: NullableStringFieldUpdateOperationsInput | string | null
-    symptoms?: StringFieldUpdateOperationsInput | string
-    aiAnalysis?: NullableStringFieldUpdateOperationsInput | string | null
-    severity?: NullableIntFieldUpdateOperationsInput | number | null
-    status?: EnumAppointmentStatusFieldUpdateOperationsInput | $Enums.AppointmentStatus
-    preferredDate?: DateTimeFieldUpdateOperationsInput | Date | string
-    scheduledDate?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
-    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
-  }
-
-  export type AppointmentCreateManyInput = {
-    id?: string
-    userId: string
-    hospitalId: string
-    doctorId?: string | null
-    symptoms: string
-    aiAnalysis?: string | null
-    severity?: number | null
-    status?: $Enums.AppointmentStatus
-    preferredDate: Date | string
-    scheduledDate?: Date | string | null
-    createdAt?: Date | string
-    updatedAt?: Date | string
-  }
-
-  export type AppointmentUpdateManyMutationInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    symptoms?: StringFieldUpdateOperationsInput | string
-    aiAnalysis?: NullableStringFieldUpdateOperationsInput | string | null
-    severity?: NullableIntFieldUpdateOperationsInput | number | null
-    status?: EnumAppointmentStatusFieldUpdateOperationsInput | $Enums.AppointmentStatus
-    preferredDate?: DateTimeFieldUpdateOperationsInput | Date | string
-    scheduledDate?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
-    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
-  }
-
-  export type AppointmentUncheckedUpdateManyInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    userId?: StringFieldUpdateOperationsInput | string
-    hospitalId?: StringFieldUpdateOperationsInput | string
-    doctorId?: NullableStringFieldUpdateOperationsInput | string | null
-    symptoms?: StringFieldUpdateOperationsInput | string
-    aiAnalysis?: NullableStringFieldUpdateOperationsInput | string | null
-    severity?: NullableIntFieldUpdateOperationsInput | number | null
-    status?: EnumAppointmentStatusFieldUpdateOperationsInput | $Enums.AppointmentStatus
-    preferredDate?: DateTimeFieldUpdateOperationsInput | Date | string
-    scheduledDate?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
-    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
-  }
-
-  export type EmergencyAlertCreateInput = {
-    id?: string
-    status?: $Enums.EmergencyAlertStatus
-    patientInfo: JsonNullValueInput | InputJsonValue
-    medicalHistory: JsonNullValueInput | InputJsonValue
-    createdAt?: Date | string
-    respondedAt?: Date | string | null
-    notes?: string | null
-    user: UserCreateNestedOneWithoutEmergencyAlertsInput
-    hospital: HospitalCreateNestedOneWithoutEmergencyAlertsInput
-  }
-
-  export type EmergencyAlertUncheckedCreateInput = {
-    id?: string
-    userId: string
-    hospitalId: string
-    status?: $Enums.EmergencyAlertStatus
-    patientInfo: JsonNullValueInput | InputJsonValue
-    medicalHistory: JsonNullValueInput | InputJsonValue
-    createdAt?: Date | string
-    respondedAt?: Date | string | null
-    notes?: string | null
-  }
-
-  export type EmergencyAlertUpdateInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    status?: EnumEmergencyAlertStatusFieldUpdateOperationsInput | $Enums.EmergencyAlertStatus
-    patientInfo?: JsonNullValueInput | InputJsonValue
-    medicalHistory?: JsonNullValueInput | InputJsonValue
-    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
-    respondedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    notes?: NullableStringFieldUpdateOperationsInput | string | null
-    user?: UserUpdateOneRequiredWithoutEmergencyAlertsNestedInput
-    hospital?: HospitalUpdateOneRequiredWithoutEmergencyAlertsNestedInput
-  }
-
-  export type EmergencyAlertUncheckedUpdateInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    userId?: StringFieldUpdateOperationsInput | string
-    hospitalId?: StringFieldUpdateOperationsInput | string
-    status?: EnumEmergencyAlertStatusFieldUpdateOperationsInput | $Enums.EmergencyAlertStatus
-    patientInfo?: JsonNullValueInput | InputJsonValue
-    medicalHistory?: JsonNullValueInput | InputJsonValue
-    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
-    respondedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    notes?: NullableStringFieldUpdateOperationsInput | string | null
-  }
-
-  export type EmergencyAlertCreateManyInput = {
-    id?: string
-    userId: string
-    hospitalId: string
-    status?: $Enums.EmergencyAlertStatus
-    patientInfo: JsonNullValueInput | InputJsonValue
-    medicalHistory: JsonNullValueInput | InputJsonValue
-    createdAt?: Date | string
-    respondedAt?: Date | string | null
-    notes?: string | null
-  }
-
-  export type EmergencyAlertUpdateManyMutationInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    status?: EnumEmergencyAlertStatusFieldUpdateOperationsInput | $Enums.EmergencyAlertStatus
-    patientInfo?: JsonNullValueInput | InputJsonValue
-    medicalHistory?: JsonNullValueInput | InputJsonValue
-    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
-    respondedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    notes?: NullableStringFieldUpdateOperationsInput | string | null
-  }
-
-  export type EmergencyAlertUncheckedUpdateManyInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    userId?: StringFieldUpdateOperationsInput | string
-    hospitalId?: StringFieldUpdateOperationsInput | string
-    status?: EnumEmergencyAlertStatusFieldUpdateOperationsInput | $Enums.EmergencyAlertStatus
-    patientInfo?: JsonNullValueInput | InputJsonValue
-    medicalHistory?: JsonNullValueInput | InputJsonValue
-    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
-    respondedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    notes?: NullableStringFieldUpdateOperationsInput | string | null
-  }
-
-  export type MedicineReminderCreateInput = {
-    id?: string
-    name: string
-    dosage: string
-    frequency: string
-    time: string
-    notes?: string | null
-    createdAt?: Date | string
-    isActive?: boolean
-    aiGenerated?: boolean
-    user: UserCreateNestedOneWithoutMedicineRemindersInput
-  }
-
-  export type MedicineReminderUncheckedCreateInput = {
-    id?: string
-    userId: string
-    name: string
-    dosage: string
-    frequency: string
-    time: string
-    notes?: string | null
-    createdAt?: Date | string
-    isActive?: boolean
-    aiGenerated?: boolean
-  }
-
-  export type MedicineReminderUpdateInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    name?: StringFieldUpdateOperationsInput | string
-    dosage?: StringFieldUpdateOperationsInput | string
-    frequency?: StringFieldUpdateOperationsInput | string
-    time?: StringFieldUpdateOperationsInput | string
-    notes?: NullableStringFieldUpdateOperationsInput | string | null
-    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
-    isActive?: BoolFieldUpdateOperationsInput | boolean
-    aiGenerated?: BoolFieldUpdateOperationsInput | boolean
-    user?: UserUpdateOneRequiredWithoutMedicineRemindersNestedInput
-  }
-
-  export type MedicineReminderUncheckedUpdateInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    userId?: StringFieldUpdateOperationsInput | string
-    name?: StringFieldUpdateOperationsInput | string
-    dosage?: StringFieldUpdateOperationsInput | string
-    frequency?: StringFieldUpdateOperationsInput | string
-    time?: StringFieldUpdateOperationsInput | string
-    notes?: NullableStringFieldUpdateOperationsInput | string | null
-    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
-    isActive?: BoolFieldUpdateOperationsInput | boolean
-    aiGenerated?: BoolFieldUpdateOperationsInput | boolean
-  }
-
-  export type MedicineReminderCreateManyInput = {
-    id?: string
-    userId: string
-    name: string
-    dosage: string
-    frequency: string
-    time: string
-    notes?: string | null
-    createdAt?: Date | string
-    isActive?: boolean
-    aiGenerated?: boolean
-  }
-
-  export type MedicineReminderUpdateManyMutationInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    name?: StringFieldUpdateOperationsInput | string
-    dosage?: StringFieldUpdateOperationsInput | string
-    frequency?: StringFieldUpdateOperationsInput | string
-    time?: StringFieldUpdateOperationsInput | string
-    notes?: NullableStringFieldUpdateOperationsInput | string | null
-    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
-    isActive?: BoolFieldUpdateOperationsInput | boolean
-    aiGenerated?: BoolFieldUpdateOperationsInput | boolean
-  }
-
-  export type MedicineReminderUncheckedUpdateManyInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    userId?: StringFieldUpdateOperationsInput | string
-    name?: StringFieldUpdateOperationsInput | string
-    dosage?: StringFieldUpdateOperationsInput | string
-    frequency?: StringFieldUpdateOperationsInput | string
-    time?: StringFieldUpdateOperationsInput | string
-    notes?: NullableStringFieldUpdateOperationsInput | string | null
-    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
-    isActive?: BoolFieldUpdateOperationsInput | boolean
-    aiGenerated?: BoolFieldUpdateOperationsInput | boolean
-  }
-
-  export type StringFilter<$PrismaModel = never> = {
-    equals?: string | StringFieldRefInput<$PrismaModel>
-    in?: string[] | ListStringFieldRefInput<$PrismaModel>
-    notIn?: string[] | ListStringFieldRefInput<$PrismaModel>
-    lt?: string | StringFieldRefInput<$PrismaModel>
-    lte?: string | StringFieldRefInput<$PrismaModel>
-    gt?: string | StringFieldRefInput<$PrismaModel>
-    gte?: string | StringFieldRefInput<$PrismaModel>
-    contains?: string | StringFieldRefInput<$PrismaModel>
-    startsWith?: string | StringFieldRefInput<$PrismaModel>
-    endsWith?: string | StringFieldRefInput<$PrismaModel>
-    mode?: QueryMode
-    not?: NestedStringFilter<$PrismaModel> | string
-  }
-
-  export type StringNullableFilter<$PrismaModel = never> = {
-    equals?: string | StringFieldRefInput<$PrismaModel> | null
-    in?: string[] | ListStringFieldRefInput<$PrismaModel> | null
-    notIn?: string[] | ListStringFieldRefInput<$PrismaModel> | null
-    lt?: string | StringFieldRefInput<$PrismaModel>
-    lte?: string | StringFieldRefInput<$PrismaModel>
-    gt?: string | StringFieldRefInput<$PrismaModel>
-    gte?: string | StringFieldRefInput<$PrismaModel>
-    contains?: string | StringFieldRefInput<$PrismaModel>
-    startsWith?: string | StringFieldRefInput<$PrismaModel>
-    endsWith?: string | StringFieldRefInput<$PrismaModel>
-    mode?: QueryMode
-    not?: NestedStringNullableFilter<$PrismaModel> | string | null
-  }
-
-  export type IntNullableFilter<$PrismaModel = never> = {
-    equals?: number | IntFieldRefInput<$PrismaModel> | null
-    in?: number[] | ListIntFieldRefInput<$PrismaModel> | null
-    notIn?: number[] | ListIntFieldRefInput<$PrismaModel> | null
-    lt?: number | IntFieldRefInput<$PrismaModel>
-    lte?: number | IntFieldRefInput<$PrismaModel>
-    gt?: number | IntFieldRefInput<$PrismaModel>
-    gte?: number | IntFieldRefInput<$PrismaModel>
-    not?: NestedIntNullableFilter<$PrismaModel> | number | null
-  }
-
-  export type UserScalarRelationFilter = {
-    is?: UserWhereInput
-    isNot?: UserWhereInput
-  }
-
-  export type SortOrderInput = {
-    sort: SortOrder
-    nulls?: NullsOrder
-  }
-
-  export type AccountProviderProviderAccountIdCompoundUniqueInput = {
-    provider: string
-    providerAccountId: string
-  }
-
-  export type AccountCountOrderByAggregateInput = {
-    id?: SortOrder
-    userId?: SortOrder
-    type?: SortOrder
-    provider?: SortOrder
-    providerAccountId?: SortOrder
-    refresh_token?: SortOrder
-    access_token?: SortOrder
-    expires_at?: SortOrder
-    token_type?: SortOrder
-    scope?: SortOrder
-    id_token?: SortOrder
-    session_state?: SortOrder
-  }
-
-  export type AccountAvgOrderByAggregateInput = {
-    expires_at?: SortOrder
-  }
-
-  export type AccountMaxOrderByAggregateInput = {
-    id?: SortOrder
-    userId?: SortOrder
-    type?: SortOrder
-    provider?: SortOrder
-    providerAccountId?: SortOrder
-    refresh_token?: SortOrder
-    access_token?: SortOrder
-    expires_at?: SortOrder
-    token_type?: SortOrder
-    scope?: SortOrder
-    id_token?: SortOrder
-    session_state?: SortOrder
-  }
-
-  export type AccountMinOrderByAggregateInput = {
-    id?: SortOrder
-    userId?: SortOrder
-    type?: SortOrder
-    provider?: SortOrder
-    providerAccountId?: SortOrder
-    refresh_token?: SortOrder
-    access_token?: SortOrder
-    expires_at?: SortOrder
-    token_type?: SortOrder
-    scope?: SortOrder
-    id_token?: SortOrder
-    session_state?: SortOrder
-  }
-
-  export type AccountSumOrderByAggregateInput = {
-    expires_at?: SortOrder
-  }
-
-  export type StringWithAggregatesFilter<$PrismaModel = never> = {
-    equals?: string | StringFieldRefInput<$PrismaModel>
-    in?: string[] | ListStringFieldRefInput<$PrismaModel>
-    notIn?: string[] | ListStringFieldRefInput<$PrismaModel>
-    lt?: string | StringFieldRefInput<$PrismaModel>
-    lte?: string | StringFieldRefInput<$PrismaModel>
-    gt?: string | StringFieldRefInput<$PrismaModel>
-    gte?: string | StringFieldRefInput<$PrismaModel>
-    contains?: string | StringFieldRefInput<$PrismaModel>
-    startsWith?: string | StringFieldRefInput<$PrismaModel>
-    endsWith?: string | StringFieldRefInput<$PrismaModel>
-    mode?: QueryMode
-    not?: NestedStringWithAggregatesFilter<$PrismaModel> | string
-    _count?: NestedIntFilter<$PrismaModel>
-    _min?: NestedStringFilter<$PrismaModel>
-    _max?: NestedStringFilter<$PrismaModel>
-  }
-
-  export type StringNullableWithAggregatesFilter<$PrismaModel = never> = {
-    equals?: string | StringFieldRefInput<$PrismaModel> | null
-    in?: string[] | ListStringFieldRefInput<$PrismaModel> | null
-    notIn?: string[] | ListStringFieldRefInput<$PrismaModel> | null
-    lt?: string | StringFieldRefInput<$PrismaModel>
-    lte?: string | StringFieldRefInput<$PrismaModel>
-    gt?: string | StringFieldRefInput<$PrismaModel>
-    gte?: string | StringFieldRefInput<$PrismaModel>
-    contains?: string | StringFieldRefInput<$PrismaModel>
-    startsWith?: string | StringFieldRefInput<$PrismaModel>
-    endsWith?: string | StringFieldRefInput<$PrismaModel>
-    mode?: QueryMode
-    not?: NestedStringNullableWithAggregatesFilter<$PrismaModel> | string | null
-    _count?: NestedIntNullableFilter<$PrismaModel>
-    _min?: NestedStringNullableFilter<$PrismaModel>
-    _max?: NestedStringNullableFilter<$PrismaModel>
-  }
-
-  export type IntNullableWithAggregatesFilter<$PrismaModel = never> = {
-    equals?: number | IntFieldRefInput<$PrismaModel> | null
-    in?: number[] | ListIntFieldRefInput<$PrismaModel> | null
-    notIn?: number[] | ListIntFieldRefInput<$PrismaModel> | null
-    lt?: number | IntFieldRefInput<$PrismaModel>
-    lte?: number | IntFieldRefInput<$PrismaModel>
-    gt?: number | IntFieldRefInput<$PrismaModel>
-    gte?: number | IntFieldRefInput<$PrismaModel>
-    not?: NestedIntNullableWithAggregatesFilter<$PrismaModel> | number | null
-    _count?: NestedIntNullableFilter<$PrismaModel>
-    _avg?: NestedFloatNullableFilter<$PrismaModel>
-    _sum?: NestedIntNullableFilter<$PrismaModel>
-    _min?: NestedIntNullableFilter<$PrismaModel>
-    _max?: NestedIntNullableFilter<$PrismaModel>
-  }
-
-  export type DateTimeFilter<$PrismaModel = never> = {
-    equals?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    in?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel>
-    notIn?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel>
-    lt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    lte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    gt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    gte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    not?: NestedDateTimeFilter<$PrismaModel> | Date | string
-  }
-
-  export type SessionCountOrderByAggregateInput = {
-    id?: SortOrder
-    sessionToken?: SortOrder
-    userId?: SortOrder
-    expires?: SortOrder
-  }
-
-  export type SessionMaxOrderByAggregateInput = {
-    id?: SortOrder
-    sessionToken?: SortOrder
-    userId?: SortOrder
-    expires?: SortOrder
-  }
-
-  export type SessionMinOrderByAggregateInput = {
-    id?: SortOrder
-    sessionToken?: SortOrder
-    userId?: SortOrder
-    expires?: SortOrder
-  }
-
-  export type DateTimeWithAggregatesFilter<$PrismaModel = never> = {
-    equals?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    in?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel>
-    notIn?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel>
-    lt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    lte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    gt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    gte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    not?: NestedDateTimeWithAggregatesFilter<$PrismaModel> | Date | string
-    _count?: NestedIntFilter<$PrismaModel>
-    _min?: NestedDateTimeFilter<$PrismaModel>
-    _max?: NestedDateTimeFilter<$PrismaModel>
-  }
-
-  export type DateTimeNullableFilter<$PrismaModel = never> = {
-    equals?: Date | string | DateTimeFieldRefInput<$PrismaModel> | null
-    in?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel> | null
-    notIn?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel> | null
-    lt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    lte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    gt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    gte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    not?: NestedDateTimeNullableFilter<$PrismaModel> | Date | string | null
-  }
-
-  export type EnumUserRoleFilter<$PrismaModel = never> = {
-    equals?: $Enums.UserRole | EnumUserRoleFieldRefInput<$PrismaModel>
-    in?: $Enums.UserRole[] | ListEnumUserRoleFieldRefInput<$PrismaModel>
-    notIn?: $Enums.UserRole[] | ListEnumUserRoleFieldRefInput<$PrismaModel>
-    not?: NestedEnumUserRoleFilter<$PrismaModel> | $Enums.UserRole
-  }
-
-  export type AccountListRelationFilter = {
-    every?: AccountWhereInput
-    some?: AccountWhereInput
-    none?: AccountWhereInput
-  }
-
-  export type SessionListRelationFilter = {
-    every?: SessionWhereInput
-    some?: SessionWhereInput
-    none?: SessionWhereInput
-  }
-
-  export type AppointmentListRelationFilter = {
-    every?: AppointmentWhereInput
-    some?: AppointmentWhereInput
-    none?: AppointmentWhereInput
-  }
-
-  export type ReceiptListRelationFilter = {
-    every?: ReceiptWhereInput
-    some?: ReceiptWhereInput
-    none?: ReceiptWhereInput
-  }
-
-  export type EmergencyAlertListRelationFilter = {
-    every?: EmergencyAlertWhereInput
-    some?: EmergencyAlertWhereInput
-    none?: EmergencyAlertWhereInput
-  }
-
-  export type MedicineReminderListRelationFilter = {
-    every?: MedicineReminderWhereInput
-    some?: MedicineReminderWhereInput
-    none?: MedicineReminderWhereInput
-  }
-
-  export type AccountOrderByRelationAggregateInput = {
-    _count?: SortOrder
-  }
-
-  export type SessionOrderByRelationAggregateInput = {
-    _count?: SortOrder
-  }
-
-  export type AppointmentOrderByRelationAggregateInput = {
-    _count?: SortOrder
-  }
-
-  export type ReceiptOrderByRelationAggregateInput = {
-    _count?: SortOrder
-  }
-
-  export type EmergencyAlertOrderByRelationAggregateInput = {
-    _count?: SortOrder
-  }
-
-  export type MedicineReminderOrderByRelationAggregateInput = {
-    _count?: SortOrder
-  }
-
-  export type UserCountOrderByAggregateInput = {
-    id?: SortOrder
-    name?: SortOrder
-    email?: SortOrder
-    emailVerified?: SortOrder
-    image?: SortOrder
-    role?: SortOrder
-    state?: SortOrder
-    hospital?: SortOrder
-    address?: SortOrder
-    dateOfBirth?: SortOrder
-    gender?: SortOrder
-    phone?: SortOrder
-    city?: SortOrder
-    pincode?: SortOrder
-  }
-
-  export type UserMaxOrderByAggregateInput = {
-    id?: SortOrder
-    name?: SortOrder
-    email?: SortOrder
-    emailVerified?: SortOrder
-    image?: SortOrder
-    role?: SortOrder
-    state?: SortOrder
-    hospital?: SortOrder
-    address?: SortOrder
-    dateOfBirth?: SortOrder
-    gender?: SortOrder
-    phone?: SortOrder
-    city?: SortOrder
-    pincode?: SortOrder
-  }
-
-  export type UserMinOrderByAggregateInput = {
-    id?: SortOrder
-    name?: SortOrder
-    email?: SortOrder
-    emailVerified?: SortOrder
-    image?: SortOrder
-    role?: SortOrder
-    state?: SortOrder
-    hospital?: SortOrder
-    address?: SortOrder
-    dateOfBirth?: SortOrder
-    gender?: SortOrder
-    phone?: SortOrder
-    city?: SortOrder
-    pincode?: SortOrder
-  }
-
-  export type DateTimeNullableWithAggregatesFilter<$PrismaModel = never> = {
-    equals?: Date | string | DateTimeFieldRefInput<$PrismaModel> | null
-    in?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel> | null
-    notIn?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel> | null
-    lt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    lte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    gt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    gte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    not?: NestedDateTimeNullableWithAggregatesFilter<$PrismaModel> | Date | string | null
-    _count?: NestedIntNullableFilter<$PrismaModel>
-    _min?: NestedDateTimeNullableFilter<$PrismaModel>
-    _max?: NestedDateTimeNullableFilter<$PrismaModel>
-  }
-
-  export type EnumUserRoleWithAggregatesFilter<$PrismaModel = never> = {
-    equals?: $Enums.UserRole | EnumUserRoleFieldRefInput<$PrismaModel>
-    in?: $Enums.UserRole[] | ListEnumUserRoleFieldRefInput<$PrismaModel>
-    notIn?: $Enums.UserRole[] | ListEnumUserRoleFieldRefInput<$PrismaModel>
-    not?: NestedEnumUserRoleWithAggregatesFilter<$PrismaModel> | $Enums.UserRole
-    _count?: NestedIntFilter<$PrismaModel>
-    _min?: NestedEnumUserRoleFilter<$PrismaModel>
-    _max?: NestedEnumUserRoleFilter<$PrismaModel>
-  }
-
-  export type VerificationTokenIdentifierTokenCompoundUniqueInput = {
-    identifier: string
-    token: string
-  }
-
-  export type VerificationTokenCountOrderByAggregateInput = {
-    identifier?: SortOrder
-    token?: SortOrder
-    expires?: SortOrder
-  }
-
-  export type VerificationTokenMaxOrderByAggregateInput = {
-    identifier?: SortOrder
-    token?: SortOrder
-    expires?: SortOrder
-  }
-
-  export type VerificationTokenMinOrderByAggregateInput = {
-    identifier?: SortOrder
-    token?: SortOrder
-    expires?: SortOrder
-  }
-
-  export type EnumReceiptStatusFilter<$PrismaModel = never> = {
-    equals?: $Enums.ReceiptStatus | EnumReceiptStatusFieldRefInput<$PrismaModel>
-    in?: $Enums.ReceiptStatus[] | ListEnumReceiptStatusFieldRefInput<$PrismaModel>
-    notIn?: $Enums.ReceiptStatus[] | ListEnumReceiptStatusFieldRefInput<$PrismaModel>
-    not?: NestedEnumReceiptStatusFilter<$PrismaModel> | $Enums.ReceiptStatus
-  }
-
-  export type DoctorNullableScalarRelationFilter = {
-    is?: DoctorWhereInput | null
-    isNot?: DoctorWhereInput | null
-  }
-
-  export type HospitalNullableScalarRelationFilter = {
-    is?: HospitalWhereInput | null
-    isNot?: HospitalWhereInput | null
-  }
-
-  export type ReceiptCountOrderByAggregateInput = {
-    id?: SortOrder
-    userId?: SortOrder
-    imageUrl?: SortOrder
-    uploatedAt?: SortOrder
-    processedAt?: SortOrder
-    condition?: SortOrder
-    severity?: SortOrder
-    hospitalId?: SortOrder
-    status?: SortOrder
-    queuePosition?: SortOrder
-    aiAnalysis?: SortOrder
-    doctorId?: SortOrder
-  }
-
-  export type ReceiptAvgOrderByAggregateInput = {
-    severity?: SortOrder
-    queuePosition?: SortOrder
-  }
-
-  export type ReceiptMaxOrderByAggregateInput = {
-    id?: SortOrder
-    userId?: SortOrder
-    imageUrl?: SortOrder
-    uploatedAt?: SortOrder
-    processedAt?: SortOrder
-    condition?: SortOrder
-    severity?: SortOrder
-    hospitalId?: SortOrder
-    status?: SortOrder
-    queuePosition?: SortOrder
-    aiAnalysis?: SortOrder
-    doctorId?: SortOrder
-  }
-
-  export type ReceiptMinOrderByAggregateInput = {
-    id?: SortOrder
-    userId?: SortOrder
-    imageUrl?: SortOrder
-    uploatedAt?: SortOrder
-    processedAt?: SortOrder
-    condition?: SortOrder
-    severity?: SortOrder
-    hospitalId?: SortOrder
-    status?: SortOrder
-    queuePosition?: SortOrder
-    aiAnalysis?: SortOrder
-    doctorId?: SortOrder
-  }
-
-  export type ReceiptSumOrderByAggregateInput = {
-    severity?: SortOrder
-    queuePosition?: SortOrder
-  }
-
-  export type EnumReceiptStatusWithAggregatesFilter<$PrismaModel = never> = {
-    equals?: $Enums.ReceiptStatus | EnumReceiptStatusFieldRefInput<$PrismaModel>
-    in?: $Enums.ReceiptStatus[] | ListEnumReceiptStatusFieldRefInput<$PrismaModel>
-    notIn?: $Enums.ReceiptStatus[] | ListEnumReceiptStatusFieldRefInput<$PrismaModel>
-    not?: NestedEnumReceiptStatusWithAggregatesFilter<$PrismaModel> | $Enums.ReceiptStatus
-    _count?: NestedIntFilter<$PrismaModel>
-    _min?: NestedEnumReceiptStatusFilter<$PrismaModel>
-    _max?: NestedEnumReceiptStatusFilter<$PrismaModel>
-  }
-
-  export type DoctorListRelationFilter = {
-    every?: DoctorWhereInput
-    some?: DoctorWhereInput
-    none?: DoctorWhereInput
-  }
-
-  export type DoctorOrderByRelationAggregateInput = {
-    _count?: SortOrder
-  }
-
-  export type HospitalCountOrderByAggregateInput = {
-    id?: SortOrder
-    name?: SortOrder
-    state?: SortOrder
-    city?: SortOrder
-    address?: SortOrder
-  }
-
-  export type HospitalMaxOrderByAggregateInput = {
-    id?: SortOrder
-    name?: SortOrder
-    state?: SortOrder
-    city?: SortOrder
-    address?: SortOrder
-  }
-
-  export type HospitalMinOrderByAggregateInput = {
-    id?: SortOrder
-    name?: SortOrder
-    state?: SortOrder
-    city?: SortOrder
-    address?: SortOrder
-  }
-
-  export type StateCountOrderByAggregateInput = {
-    id?: SortOrder
-    name?: SortOrder
-  }
-
-  export type StateMaxOrderByAggregateInput = {
-    id?: SortOrder
-    name?: SortOrder
-  }
-
-  export type StateMinOrderByAggregateInput = {
-    id?: SortOrder
-    name?: SortOrder
-  }
-
-  export type BoolFilter<$PrismaModel = never> = {
-    equals?: boolean | BooleanFieldRefInput<$PrismaModel>
-    not?: NestedBoolFilter<$PrismaModel> | boolean
-  }
-
-  export type HospitalScalarRelationFilter = {
-    is?: HospitalWhereInput
-    isNot?: HospitalWhereInput
-  }
-
-  export type DoctorCountOrderByAggregateInput = {
-    id?: SortOrder
-    name?: SortOrder
-    specialty?: SortOrder
-    hospitalId?: SortOrder
-    available?: SortOrder
-  }
-
-  export type DoctorMaxOrderByAggregateInput = {
-    id?: SortOrder
-    name?: SortOrder
-    specialty?: SortOrder
-    hospitalId?: SortOrder
-    available?: SortOrder
-  }
-
-  export type DoctorMinOrderByAggregateInput = {
-    id?: SortOrder
-    name?: SortOrder
-    specialty?: SortOrder
-    hospitalId?: SortOrder
-    available?: SortOrder
-  }
-
-  export type BoolWithAggregatesFilter<$PrismaModel = never> = {
-    equals?: boolean | BooleanFieldRefInput<$PrismaModel>
-    not?: NestedBoolWithAggregatesFilter<$PrismaModel> | boolean
-    _count?: NestedIntFilter<$PrismaModel>
-    _min?: NestedBoolFilter<$PrismaModel>
-    _max?: NestedBoolFilter<$PrismaModel>
-  }
-
-  export type EnumAppointmentStatusFilter<$PrismaModel = never> = {
-    equals?: $Enums.AppointmentStatus | EnumAppointmentStatusFieldRefInput<$PrismaModel>
-    in?: $Enums.AppointmentStatus[] | ListEnumAppointmentStatusFieldRefInput<$PrismaModel>
-    notIn?: $Enums.AppointmentStatus[] | ListEnumAppointmentStatusFieldRefInput<$PrismaModel>
-    not?: NestedEnumAppointmentStatusFilter<$PrismaModel> | $Enums.AppointmentStatus
-  }
-
-  export type AppointmentCountOrderByAggregateInput = {
-    id?: SortOrder
-    userId?: SortOrder
-    hospitalId?: SortOrder
-    doctorId?: SortOrder
-    symptoms?: SortOrder
-    aiAnalysis?: SortOrder
-    severity?: SortOrder
-    status?: SortOrder
-    preferredDate?: SortOrder
-    scheduledDate?: SortOrder
-    createdAt?: SortOrder
-    updatedAt?: SortOrder
-  }
-
-  export type AppointmentAvgOrderByAggregateInput = {
-    severity?: SortOrder
-  }
-
-  export type AppointmentMaxOrderByAggregateInput = {
-    id?: SortOrder
-    userId?: SortOrder
-    hospitalId?: SortOrder
-    doctorId?: SortOrder
-    symptoms?: SortOrder
-    aiAnalysis?: SortOrder
-    severity?: SortOrder
-    status?: SortOrder
-    preferredDate?: SortOrder
-    scheduledDate?: SortOrder
-    createdAt?: SortOrder
-    updatedAt?: SortOrder
-  }
-
-  export type AppointmentMinOrderByAggregateInput = {
-    id?: SortOrder
-    userId?: SortOrder
-    hospitalId?: SortOrder
-    doctorId?: SortOrder
-    symptoms?: SortOrder
-    aiAnalysis?: SortOrder
-    severity?: SortOrder
-    status?: SortOrder
-    preferredDate?: SortOrder
-    scheduledDate?: SortOrder
-    createdAt?: SortOrder
-    updatedAt?: SortOrder
-  }
-
-  export type AppointmentSumOrderByAggregateInput = {
-    severity?: SortOrder
-  }
-
-  export type EnumAppointmentStatusWithAggregatesFilter<$PrismaModel = never> = {
-    equals?: $Enums.AppointmentStatus | EnumAppointmentStatusFieldRefInput<$PrismaModel>
-    in?: $Enums.AppointmentStatus[] | ListEnumAppointmentStatusFieldRefInput<$PrismaModel>
-    notIn?: $Enums.AppointmentStatus[] | ListEnumAppointmentStatusFieldRefInput<$PrismaModel>
-    not?: NestedEnumAppointmentStatusWithAggregatesFilter<$PrismaModel> | $Enums.AppointmentStatus
-    _count?: NestedIntFilter<$PrismaModel>
-    _min?: NestedEnumAppointmentStatusFilter<$PrismaModel>
-    _max?: NestedEnumAppointmentStatusFilter<$PrismaModel>
-  }
-
-  export type EnumEmergencyAlertStatusFilter<$PrismaModel = never> = {
-    equals?: $Enums.EmergencyAlertStatus | EnumEmergencyAlertStatusFieldRefInput<$PrismaModel>
-    in?: $Enums.EmergencyAlertStatus[] | ListEnumEmergencyAlertStatusFieldRefInput<$PrismaModel>
-    notIn?: $Enums.EmergencyAlertStatus[] | ListEnumEmergencyAlertStatusFieldRefInput<$PrismaModel>
-    not?: NestedEnumEmergencyAlertStatusFilter<$PrismaModel> | $Enums.EmergencyAlertStatus
-  }
-  export type JsonFilter<$PrismaModel = never> =
-    | PatchUndefined<
-        Either<Required<JsonFilterBase<$PrismaModel>>, Exclude<keyof Required<JsonFilterBase<$PrismaModel>>, 'path'>>,
-        Required<JsonFilterBase<$PrismaModel>>
-      >
-    | OptionalFlat<Omit<Required<JsonFilterBase<$PrismaModel>>, 'path'>>
-
-  export type JsonFilterBase<$PrismaModel = never> = {
-    equals?: InputJsonValue | JsonFieldRefInput<$PrismaModel> | JsonNullValueFilter
-    path?: string[]
-    mode?: QueryMode | EnumQueryModeFieldRefInput<$PrismaModel>
-    string_contains?: string | StringFieldRefInput<$PrismaModel>
-    string_starts_with?: string | StringFieldRefInput<$PrismaModel>
-    string_ends_with?: string | StringFieldRefInput<$PrismaModel>
-    array_starts_with?: InputJsonValue | JsonFieldRefInput<$PrismaModel> | null
-    array_ends_with?: InputJsonValue | JsonFieldRefInput<$PrismaModel> | null
-    array_contains?: InputJsonValue | JsonFieldRefInput<$PrismaModel> | null
-    lt?: InputJsonValue | JsonFieldRefInput<$PrismaModel>
-    lte?: InputJsonValue | JsonFieldRefInput<$PrismaModel>
-    gt?: InputJsonValue | JsonFieldRefInput<$PrismaModel>
-    gte?: InputJsonValue | JsonFieldRefInput<$PrismaModel>
-    not?: InputJsonValue | JsonFieldRefInput<$PrismaModel> | JsonNullValueFilter
-  }
-
-  export type EmergencyAlertCountOrderByAggregateInput = {
-    id?: SortOrder
-    userId?: SortOrder
-    hospitalId?: SortOrder
-    status?: SortOrder
-    patientInfo?: SortOrder
-    medicalHistory?: SortOrder
-    createdAt?: SortOrder
-    respondedAt?: SortOrder
-    notes?: SortOrder
-  }
-
-  export type EmergencyAlertMaxOrderByAggregateInput = {
-    id?: SortOrder
-    userId?: SortOrder
-    hospitalId?: SortOrder
-    status?: SortOrder
-    createdAt?: SortOrder
-    respondedAt?: SortOrder
-    notes?: SortOrder
-  }
-
-  export type EmergencyAlertMinOrderByAggregateInput = {
-    id?: SortOrder
-    userId?: SortOrder
-    hospitalId?: SortOrder
-    status?: SortOrder
-    createdAt?: SortOrder
-    respondedAt?: SortOrder
-    notes?: SortOrder
-  }
-
-  export type EnumEmergencyAlertStatusWithAggregatesFilter<$PrismaModel = never> = {
-    equals?: $Enums.EmergencyAlertStatus | EnumEmergencyAlertStatusFieldRefInput<$PrismaModel>
-    in?: $Enums.EmergencyAlertStatus[] | ListEnumEmergencyAlertStatusFieldRefInput<$PrismaModel>
-    notIn?: $Enums.EmergencyAlertStatus[] | ListEnumEmergencyAlertStatusFieldRefInput<$PrismaModel>
-    not?: NestedEnumEmergencyAlertStatusWithAggregatesFilter<$PrismaModel> | $Enums.EmergencyAlertStatus
-    _count?: NestedIntFilter<$PrismaModel>
-    _min?: NestedEnumEmergencyAlertStatusFilter<$PrismaModel>
-    _max?: NestedEnumEmergencyAlertStatusFilter<$PrismaModel>
-  }
-  export type JsonWithAggregatesFilter<$PrismaModel = never> =
-    | PatchUndefined<
-        Either<Required<JsonWithAggregatesFilterBase<$PrismaModel>>, Exclude<keyof Required<JsonWithAggregatesFilterBase<$PrismaModel>>, 'path'>>,
-        Required<JsonWithAggregatesFilterBase<$PrismaModel>>
-      >
-    | OptionalFlat<Omit<Required<JsonWithAggregatesFilterBase<$PrismaModel>>, 'path'>>
-
-  export type JsonWithAggregatesFilterBase<$PrismaModel = never> = {
-    equals?: InputJsonValue | JsonFieldRefInput<$PrismaModel> | JsonNullValueFilter
-    path?: string[]
-    mode?: QueryMode | EnumQueryModeFieldRefInput<$PrismaModel>
-    string_contains?: string | StringFieldRefInput<$PrismaModel>
-    string_starts_with?: string | StringFieldRefInput<$PrismaModel>
-    string_ends_with?: string | StringFieldRefInput<$PrismaModel>
-    array_starts_with?: InputJsonValue | JsonFieldRefInput<$PrismaModel> | null
-    array_ends_with?: InputJsonValue | JsonFieldRefInput<$PrismaModel> | null
-    array_contains?: InputJsonValue | JsonFieldRefInput<$PrismaModel> | null
-    lt?: InputJsonValue | JsonFieldRefInput<$PrismaModel>
-    lte?: InputJsonValue | JsonFieldRefInput<$PrismaModel>
-    gt?: InputJsonValue | JsonFieldRefInput<$PrismaModel>
-    gte?: InputJsonValue | JsonFieldRefInput<$PrismaModel>
-    not?: InputJsonValue | JsonFieldRefInput<$PrismaModel> | JsonNullValueFilter
-    _count?: NestedIntFilter<$PrismaModel>
-    _min?: NestedJsonFilter<$PrismaModel>
-    _max?: NestedJsonFilter<$PrismaModel>
-  }
-
-  export type MedicineReminderCountOrderByAggregateInput = {
-    id?: SortOrder
-    userId?: SortOrder
-    name?: SortOrder
-    dosage?: SortOrder
-    frequency?: SortOrder
-    time?: SortOrder
-    notes?: SortOrder
-    createdAt?: SortOrder
-    isActive?: SortOrder
-    aiGenerated?: SortOrder
-  }
-
-  export type MedicineReminderMaxOrderByAggregateInput = {
-    id?: SortOrder
-    userId?: SortOrder
-    name?: SortOrder
-    dosage?: SortOrder
-    frequency?: SortOrder
-    time?: SortOrder
-    notes?: SortOrder
-    createdAt?: SortOrder
-    isActive?: SortOrder
-    aiGenerated?: SortOrder
-  }
-
-  export type MedicineReminderMinOrderByAggregateInput = {
-    id?: SortOrder
-    userId?: SortOrder
-    name?: SortOrder
-    dosage?: SortOrder
-    frequency?: SortOrder
-    time?: SortOrder
-    notes?: SortOrder
-    createdAt?: SortOrder
-    isActive?: SortOrder
-    aiGenerated?: SortOrder
-  }
-
-  export type UserCreateNestedOneWithoutAccountsInput = {
-    create?: XOR<UserCreateWithoutAccountsInput, UserUncheckedCreateWithoutAccountsInput>
-    connectOrCreate?: UserCreateOrConnectWithoutAccountsInput
-    connect?: UserWhereUniqueInput
-  }
-
-  export type StringFieldUpdateOperationsInput = {
-    set?: string
-  }
-
-  export type NullableStringFieldUpdateOperationsInput = {
-    set?: string | null
-  }
-
-  export type NullableIntFieldUpdateOperationsInput = {
-    set?: number | null
-    increment?: number
-    decrement?: number
-    multiply?: number
-    divide?: number
-  }
-
-  export type UserUpdateOneRequiredWithoutAccountsNestedInput = {
-    create?: XOR<UserCreateWithoutAccountsInput, UserUncheckedCreateWithoutAccountsInput>
-    connectOrCreate?: UserCreateOrConnectWithoutAccountsInput
-    upsert?: UserUpsertWithoutAccountsInput
-    connect?: UserWhereUniqueInput
-    update?: XOR<XOR<UserUpdateToOneWithWhereWithoutAccountsInput, UserUpdateWithoutAccountsInput>, UserUncheckedUpdateWithoutAccountsInput>
-  }
-
-  export type UserCreateNestedOneWithoutSessionsInput = {
-    create?: XOR<UserCreateWithoutSessionsInput, UserUncheckedCreateWithoutSessionsInput>
-    connectOrCreate?: UserCreateOrConnectWithoutSessionsInput
-    connect?: UserWhereUniqueInput
-  }
-
-  export type DateTimeFieldUpdateOperationsInput = {
-    set?: Date | string
-  }
-
-  export type UserUpdateOneRequiredWithoutSessionsNestedInput = {
-    create?: XOR<UserCreateWithoutSessionsInput, UserUncheckedCreateWithoutSessionsInput>
-    connectOrCreate?: UserCreateOrConnectWithoutSessionsInput
-    upsert?: UserUpsertWithoutSessionsInput
-    connect?: UserWhereUniqueInput
-    update?: XOR<XOR<UserUpdateToOneWithWhereWithoutSessionsInput, UserUpdateWithoutSessionsInput>, UserUncheckedUpdateWithoutSessionsInput>
-  }
-
-  export type AccountCreateNestedManyWithoutUserInput = {
-    create?: XOR<AccountCreateWithoutUserInput, AccountUncheckedCreateWithoutUserInput> | AccountCreateWithoutUserInput[] | AccountUncheckedCreateWithoutUserInput[]
-    connectOrCreate?: AccountCreateOrConnectWithoutUserInput | AccountCreateOrConnectWithoutUserInput[]
-    createMany?: AccountCreateManyUserInputEnvelope
-    connect?: AccountWhereUniqueInput | AccountWhereUniqueInput[]
-  }
-
-  export type SessionCreateNestedManyWithoutUserInput = {
-    create?: XOR<SessionCreateWithoutUserInput, SessionUncheckedCreateWithoutUserInput> | SessionCreateWithoutUserInput[] | SessionUncheckedCreateWithoutUserInput[]
-    connectOrCreate?: SessionCreateOrConnectWithoutUserInput | SessionCreateOrConnectWithoutUserInput[]
-    createMany?: SessionCreateManyUserInputEnvelope
-    connect?: SessionWhereUniqueInput | SessionWhereUniqueInput[]
-  }
-
-  export type AppointmentCreateNestedManyWithoutUserInput = {
-    create?: XOR<AppointmentCreateWithoutUserInput, AppointmentUncheckedCreateWithoutUserInput> | AppointmentCreateWithoutUserInput[] | AppointmentUncheckedCreateWithoutUserInput[]
-    connectOrCreate?: AppointmentCreateOrConnectWithoutUserInput | AppointmentCreateOrConnectWithoutUserInput[]
-    createMany?: AppointmentCreateManyUserInputEnvelope
-    connect?: AppointmentWhereUniqueInput | AppointmentWhereUniqueInput[]
-  }
-
-  export type ReceiptCreateNestedManyWithoutUserInput = {
-    create?: XOR<ReceiptCreateWithoutUserInput, ReceiptUncheckedCreateWithoutUserInput> | ReceiptCreateWithoutUserInput[] | ReceiptUncheckedCreateWithoutUserInput[]
-    connectOrCreate?: ReceiptCreateOrConnectWithoutUserInput | ReceiptCreateOrConnectWithoutUserInput[]
-    createMany?: ReceiptCreateManyUserInputEnvelope
-    connect?: ReceiptWhereUniqueInput | ReceiptWhereUniqueInput[]
-  }
-
-  export type EmergencyAlertCreateNestedManyWithoutUserInput = {
-    create?: XOR<EmergencyAlertCreateWithoutUserInput, EmergencyAlertUncheckedCreateWithoutUserInput> | EmergencyAlertCreateWithoutUserInput[] | EmergencyAlertUncheckedCreateWithoutUserInput[]
-    connectOrCreate?: EmergencyAlertCreateOrConnectWithoutUserInput | EmergencyAlertCreateOrConnectWithoutUserInput[]
-    createMany?: EmergencyAlertCreateManyUserInputEnvelope
-    connect?: EmergencyAlertWhereUniqueInput | EmergencyAlertWhereUniqueInput[]
-  }
-
-  export type MedicineReminderCreateNestedManyWithoutUserInput = {
-    create?: XOR<MedicineReminderCreateWithoutUserInput, MedicineReminderUncheckedCreateWithoutUserInput> | MedicineReminderCreateWithoutUserInput[] | MedicineReminderUncheckedCreateWithoutUserInput[]
-    connectOrCreate?: MedicineReminderCreateOrConnectWithoutUserInput | MedicineReminderCreateOrConnectWithoutUserInput[]
-    createMany?: MedicineReminderCreateManyUserInputEnvelope
-    connect?: MedicineReminderWhereUniqueInput | MedicineReminderWhereUniqueInput[]
-  }
-
-  export type AccountUncheckedCreateNestedManyWithoutUserInput = {
-    create?: XOR<AccountCreateWithoutUserInput, AccountUncheckedCreateWithoutUserInput> | AccountCreateWithoutUserInput[] | AccountUncheckedCreateWithoutUserInput[]
-    connectOrCreate?: AccountCreateOrConnectWithoutUserInput | AccountCreateOrConnectWithoutUserInput[]
-    createMany?: AccountCreateManyUserInputEnvelope
-    connect?: AccountWhereUniqueInput | AccountWhereUniqueInput[]
-  }
-
-  export type SessionUncheckedCreateNestedManyWithoutUserInput = {
-    create?: XOR<SessionCreateWithoutUserInput, SessionUncheckedCreateWithoutUserInput> | SessionCreateWithoutUserInput[] | SessionUncheckedCreateWithoutUserInput[]
-    connectOrCreate?: SessionCreateOrConnectWithoutUserInput | SessionCreateOrConnectWithoutUserInput[]
-    createMany?: SessionCreateManyUserInputEnvelope
-    connect?: SessionWhereUniqueInput | SessionWhereUniqueInput[]
-  }
-
-  export type AppointmentUncheckedCreateNestedManyWithoutUserInput = {
-    create?: XOR<AppointmentCreateWithoutUserInput, AppointmentUncheckedCreateWithoutUserInput> | AppointmentCreateWithoutUserInput[] | AppointmentUncheckedCreateWithoutUserInput[]
-    connectOrCreate?: AppointmentCreateOrConnectWithoutUserInput | AppointmentCreateOrConnectWithoutUserInput[]
-    createMany?: AppointmentCreateManyUserInputEnvelope
-    connect?: AppointmentWhereUniqueInput | AppointmentWhereUniqueInput[]
-  }
-
-  export type ReceiptUncheckedCreateNestedManyWithoutUserInput = {
-    create?: XOR<ReceiptCreateWithoutUserInput, ReceiptUncheckedCreateWithoutUserInput> | ReceiptCreateWithoutUserInput[] | ReceiptUncheckedCreateWithoutUserInput[]
-    connectOrCreate?: ReceiptCreateOrConnectWithoutUserInput | ReceiptCreateOrConnectWithoutUserInput[]
-    createMany?: ReceiptCreateManyUserInputEnvelope
-    connect?: ReceiptWhereUniqueInput | ReceiptWhereUniqueInput[]
-  }
-
-  export type EmergencyAlertUncheckedCreateNestedManyWithoutUserInput = {
-    create?: XOR<EmergencyAlertCreateWithoutUserInput, EmergencyAlertUncheckedCreateWithoutUserInput> | EmergencyAlertCreateWithoutUserInput[] | EmergencyAlertUncheckedCreateWithoutUserInput[]
-    connectOrCreate?: EmergencyAlertCreateOrConnectWithoutUserInput | EmergencyAlertCreateOrConnectWithoutUserInput[]
-    createMany?: EmergencyAlertCreateManyUserInputEnvelope
-    connect?: EmergencyAlertWhereUniqueInput | EmergencyAlertWhereUniqueInput[]
-  }
-
-  export type MedicineReminderUncheckedCreateNestedManyWithoutUserInput = {
-    create?: XOR<MedicineReminderCreateWithoutUserInput, MedicineReminderUncheckedCreateWithoutUserInput> | MedicineReminderCreateWithoutUserInput[] | MedicineReminderUncheckedCreateWithoutUserInput[]
-    connectOrCreate?: MedicineReminderCreateOrConnectWithoutUserInput | MedicineReminderCreateOrConnectWithoutUserInput[]
-    createMany?: MedicineReminderCreateManyUserInputEnvelope
-    connect?: MedicineReminderWhereUniqueInput | MedicineReminderWhereUniqueInput[]
-  }
-
-  export type NullableDateTimeFieldUpdateOperationsInput = {
-    set?: Date | string | null
-  }
-
-  export type EnumUserRoleFieldUpdateOperationsInput = {
-    set?: $Enums.UserRole
-  }
-
-  export type AccountUpdateManyWithoutUserNestedInput = {
-    create?: XOR<AccountCreateWithoutUserInput, AccountUncheckedCreateWithoutUserInput> | AccountCreateWithoutUserInput[] | AccountUncheckedCreateWithoutUserInput[]
-    connectOrCreate?: AccountCreateOrConnectWithoutUserInput | AccountCreateOrConnectWithoutUserInput[]
-    upsert?: AccountUpsertWithWhereUniqueWithoutUserInput | AccountUpsertWithWhereUniqueWithoutUserInput[]
-    createMany?: AccountCreateManyUserInputEnvelope
-    set?: AccountWhereUniqueInput | AccountWhereUniqueInput[]
-    disconnect?: AccountWhereUniqueInput | AccountWhereUniqueInput[]
-    delete?: AccountWhereUniqueInput | AccountWhereUniqueInput[]
-    connect?: AccountWhereUniqueInput | AccountWhereUniqueInput[]
-    update?: AccountUpdateWithWhereUniqueWithoutUserInput | AccountUpdateWithWhereUniqueWithoutUserInput[]
-    updateMany?: AccountUpdateManyWithWhereWithoutUserInput | AccountUpdateManyWithWhereWithoutUserInput[]
-    deleteMany?: AccountScalarWhereInput | AccountScalarWhereInput[]
-  }
-
-  export type SessionUpdateManyWithoutUserNestedInput = {
-    create?: XOR<SessionCreateWithoutUserInput, SessionUncheckedCreateWithoutUserInput> | SessionCreateWithoutUserInput[] | SessionUncheckedCreateWithoutUserInput[]
-    connectOrCreate?: SessionCreateOrConnectWithoutUserInput | SessionCreateOrConnectWithoutUserInput[]
-    upsert?: SessionUpsertWithWhereUniqueWithoutUserInput | SessionUpsertWithWhereUniqueWithoutUserInput[]
-    createMany?: SessionCreateManyUserInputEnvelope
-    set?: SessionWhereUniqueInput | SessionWhereUniqueInput[]
-    disconnect?: SessionWhereUniqueInput | SessionWhereUniqueInput[]
-    delete?: SessionWhereUniqueInput | SessionWhereUniqueInput[]
-    connect?: SessionWhereUniqueInput | SessionWhereUniqueInput[]
-    update?: SessionUpdateWithWhereUniqueWithoutUserInput | SessionUpdateWithWhereUniqueWithoutUserInput[]
-    updateMany?: SessionUpdateManyWithWhereWithoutUserInput | SessionUpdateManyWithWhereWithoutUserInput[]
-    deleteMany?: SessionScalarWhereInput | SessionScalarWhereInput[]
-  }
-
-  export type AppointmentUpdateManyWithoutUserNestedInput = {
-    create?: XOR<AppointmentCreateWithoutUserInput, AppointmentUncheckedCreateWithoutUserInput> | AppointmentCreateWithoutUserInput[] | AppointmentUncheckedCreateWithoutUserInput[]
-    connectOrCreate?: AppointmentCreateOrConnectWithoutUserInput | AppointmentCreateOrConnectWithoutUserInput[]
-    upsert?: AppointmentUpsertWithWhereUniqueWithoutUserInput | AppointmentUpsertWithWhereUniqueWithoutUserInput[]
-    createMany?: AppointmentCreateManyUserInputEnvelope
-    set?: AppointmentWhereUniqueInput | AppointmentWhereUniqueInput[]
-    disconnect?: AppointmentWhereUniqueInput | AppointmentWhereUniqueInput[]
-    delete?: AppointmentWhereUniqueInput | AppointmentWhereUniqueInput[]
-    connect?: AppointmentWhereUniqueInput | AppointmentWhereUniqueInput[]
-    update?: AppointmentUpdateWithWhereUniqueWithoutUserInput | AppointmentUpdateWithWhereUniqueWithoutUserInput[]
-    updateMany?: AppointmentUpdateManyWithWhereWithoutUserInput | AppointmentUpdateManyWithWhereWithoutUserInput[]
-    deleteMany?: AppointmentScalarWhereInput | AppointmentScalarWhereInput[]
-  }
-
-  export type ReceiptUpdateManyWithoutUserNestedInput = {
-    create?: XOR<ReceiptCreateWithoutUserInput, ReceiptUncheckedCreateWithoutUserInput> | ReceiptCreateWithoutUserInput[] | ReceiptUncheckedCreateWithoutUserInput[]
-    connectOrCreate?: ReceiptCreateOrConnectWithoutUserInput | ReceiptCreateOrConnectWithoutUserInput[]
-    upsert?: ReceiptUpsertWithWhereUniqueWithoutUserInput | ReceiptUpsertWithWhereUniqueWithoutUserInput[]
-    createMany?: ReceiptCreateManyUserInputEnvelope
-    set?: ReceiptWhereUniqueInput | ReceiptWhereUniqueInput[]
-    disconnect?: ReceiptWhereUniqueInput | ReceiptWhereUniqueInput[]
-    delete?: ReceiptWhereUniqueInput | ReceiptWhereUniqueInput[]
-    connect?: ReceiptWhereUniqueInput | ReceiptWhereUniqueInput[]
-    update?: ReceiptUpdateWithWhereUniqueWithoutUserInput | ReceiptUpdateWithWhereUniqueWithoutUserInput[]
-    updateMany?: ReceiptUpdateManyWithWhereWithoutUserInput | ReceiptUpdateManyWithWhereWithoutUserInput[]
-    deleteMany?: ReceiptScalarWhereInput | ReceiptScalarWhereInput[]
-  }
-
-  export type EmergencyAlertUpdateManyWithoutUserNestedInput = {
-    create?: XOR<EmergencyAlertCreateWithoutUserInput, EmergencyAlertUncheckedCreateWithoutUserInput> | EmergencyAlertCreateWithoutUserInput[] | EmergencyAlertUncheckedCreateWithoutUserInput[]
-    connectOrCreate?: EmergencyAlertCreateOrConnectWithoutUserInput | EmergencyAlertCreateOrConnectWithoutUserInput[]
-    upsert?: EmergencyAlertUpsertWithWhereUniqueWithoutUserInput | EmergencyAlertUpsertWithWhereUniqueWithoutUserInput[]
-    createMany?: EmergencyAlertCreateManyUserInputEnvelope
-    set?: EmergencyAlertWhereUniqueInput | EmergencyAlertWhereUniqueInput[]
-    disconnect?: EmergencyAlertWhereUniqueInput | EmergencyAlertWhereUniqueInput[]
-    delete?: EmergencyAlertWhereUniqueInput | EmergencyAlertWhereUniqueInput[]
-    connect?: EmergencyAlertWhereUniqueInput | EmergencyAlertWhereUniqueInput[]
-    update?: EmergencyAlertUpdateWithWhereUniqueWithoutUserInput | EmergencyAlertUpdateWithWhereUniqueWithoutUserInput[]
-    updateMany?: EmergencyAlertUpdateManyWithWhereWithoutUserInput | EmergencyAlertUpdateManyWithWhereWithoutUserInput[]
-    deleteMany?: EmergencyAlertScalarWhereInput | EmergencyAlertScalarWhereInput[]
-  }
-
-  export type MedicineReminderUpdateManyWithoutUserNestedInput = {
-    create?: XOR<MedicineReminderCreateWithoutUserInput, MedicineReminderUncheckedCreateWithoutUserInput> | MedicineReminderCreateWithoutUserInput[] | MedicineReminderUncheckedCreateWithoutUserInput[]
-    connectOrCreate?: MedicineReminderCreateOrConnectWithoutUserInput | MedicineReminderCreateOrConnectWithoutUserInput[]
-    upsert?: MedicineReminderUpsertWithWhereUniqueWithoutUserInput | MedicineReminderUpsertWithWhereUniqueWithoutUserInput[]
-    createMany?: MedicineReminderCreateManyUserInputEnvelope
-    set?: MedicineReminderWhereUniqueInput | MedicineReminderWhereUniqueInput[]
-    disconnect?: MedicineReminderWhereUniqueInput | MedicineReminderWhereUniqueInput[]
-    delete?: MedicineReminderWhereUniqueInput | MedicineReminderWhereUniqueInput[]
-    connect?: MedicineReminderWhereUniqueInput | MedicineReminderWhereUniqueInput[]
-    update?: MedicineReminderUpdateWithWhereUniqueWithoutUserInput | MedicineReminderUpdateWithWhereUniqueWithoutUserInput[]
-    updateMany?: MedicineReminderUpdateManyWithWhereWithoutUserInput | MedicineReminderUpdateManyWithWhereWithoutUserInput[]
-    deleteMany?: MedicineReminderScalarWhereInput | MedicineReminderScalarWhereInput[]
-  }
-
-  export type AccountUncheckedUpdateManyWithoutUserNestedInput = {
-    create?: XOR<AccountCreateWithoutUserInput, AccountUncheckedCreateWithoutUserInput> | AccountCreateWithoutUserInput[] | AccountUncheckedCreateWithoutUserInput[]
-    connectOrCreate?: AccountCreateOrConnectWithoutUserInput | AccountCreateOrConnectWithoutUserInput[]
-    upsert?: AccountUpsertWithWhereUniqueWithoutUserInput | AccountUpsertWithWhereUniqueWithoutUserInput[]
-    createMany?: AccountCreateManyUserInputEnvelope
-    set?: AccountWhereUniqueInput | AccountWhereUniqueInput[]
-    disconnect?: AccountWhereUniqueInput | AccountWhereUniqueInput[]
-    delete?: AccountWhereUniqueInput | AccountWhereUniqueInput[]
-    connect?: AccountWhereUniqueInput | AccountWhereUniqueInput[]
-    update?: AccountUpdateWithWhereUniqueWithoutUserInput | AccountUpdateWithWhereUniqueWithoutUserInput[]
-    updateMany?: AccountUpdateManyWithWhereWithoutUserInput | AccountUpdateManyWithWhereWithoutUserInput[]
-    deleteMany?: AccountScalarWhereInput | AccountScalarWhereInput[]
-  }
-
-  export type SessionUncheckedUpdateManyWithoutUserNestedInput = {
-    create?: XOR<SessionCreateWithoutUserInput, SessionUncheckedCreateWithoutUserInput> | SessionCreateWithoutUserInput[] | SessionUncheckedCreateWithoutUserInput[]
-    connectOrCreate?: SessionCreateOrConnectWithoutUserInput | SessionCreateOrConnectWithoutUserInput[]
-    upsert?: SessionUpsertWithWhereUniqueWithoutUserInput | SessionUpsertWithWhereUniqueWithoutUserInput[]
-    createMany?: SessionCreateManyUserInputEnvelope
-    set?: SessionWhereUniqueInput | SessionWhereUniqueInput[]
-    disconnect?: SessionWhereUniqueInput | SessionWhereUniqueInput[]
-    delete?: SessionWhereUniqueInput | SessionWhereUniqueInput[]
-    connect?: SessionWhereUniqueInput | SessionWhereUniqueInput[]
-    update?: SessionUpdateWithWhereUniqueWithoutUserInput | SessionUpdateWithWhereUniqueWithoutUserInput[]
-    updateMany?: SessionUpdateManyWithWhereWithoutUserInput | SessionUpdateManyWithWhereWithoutUserInput[]
-    deleteMany?: SessionScalarWhereInput | SessionScalarWhereInput[]
-  }
-
-  export type AppointmentUncheckedUpdateManyWithoutUserNestedInput = {
-    create?: XOR<AppointmentCreateWithoutUserInput, AppointmentUncheckedCreateWithoutUserInput> | AppointmentCreateWithoutUserInput[] | AppointmentUncheckedCreateWithoutUserInput[]
-    connectOrCreate?: AppointmentCreateOrConnectWithoutUserInput | AppointmentCreateOrConnectWithoutUserInput[]
-    upsert?: AppointmentUpsertWithWhereUniqueWithoutUserInput | AppointmentUpsertWithWhereUniqueWithoutUserInput[]
-    createMany?: AppointmentCreateManyUserInputEnvelope
-    set?: AppointmentWhereUniqueInput | AppointmentWhereUniqueInput[]
-    disconnect?: AppointmentWhereUniqueInput | AppointmentWhereUniqueInput[]
-    delete?: AppointmentWhereUniqueInput | AppointmentWhereUniqueInput[]
-    connect?: AppointmentWhereUniqueInput | AppointmentWhereUniqueInput[]
-    update?: AppointmentUpdateWithWhereUniqueWithoutUserInput | AppointmentUpdateWithWhereUniqueWithoutUserInput[]
-    updateMany?: AppointmentUpdateManyWithWhereWithoutUserInput | AppointmentUpdateManyWithWhereWithoutUserInput[]
-    deleteMany?: AppointmentScalarWhereInput | AppointmentScalarWhereInput[]
-  }
-
-  export type ReceiptUncheckedUpdateManyWithoutUserNestedInput = {
-    create?: XOR<ReceiptCreateWithoutUserInput, ReceiptUncheckedCreateWithoutUserInput> | ReceiptCreateWithoutUserInput[] | ReceiptUncheckedCreateWithoutUserInput[]
-    connectOrCreate?: ReceiptCreateOrConnectWithoutUserInput | ReceiptCreateOrConnectWithoutUserInput[]
-    upsert?: ReceiptUpsertWithWhereUniqueWithoutUserInput | ReceiptUpsertWithWhereUniqueWithoutUserInput[]
-    createMany?: ReceiptCreateManyUserInputEnvelope
-    set?: ReceiptWhereUniqueInput | ReceiptWhereUniqueInput[]
-    disconnect?: ReceiptWhereUniqueInput | ReceiptWhereUniqueInput[]
-    delete?: ReceiptWhereUniqueInput | ReceiptWhereUniqueInput[]
-    connect?: ReceiptWhereUniqueInput | ReceiptWhereUniqueInput[]
-    update?: ReceiptUpdateWithWhereUniqueWithoutUserInput | ReceiptUpdateWithWhereUniqueWithoutUserInput[]
-    updateMany?: ReceiptUpdateManyWithWhereWithoutUserInput | ReceiptUpdateManyWithWhereWithoutUserInput[]
-    deleteMany?: ReceiptScalarWhereInput | ReceiptScalarWhereInput[]
-  }
-
-  export type EmergencyAlertUncheckedUpdateManyWithoutUserNestedInput = {
-    create?: XOR<EmergencyAlertCreateWithoutUserInput, EmergencyAlertUncheckedCreateWithoutUserInput> | EmergencyAlertCreateWithoutUserInput[] | EmergencyAlertUncheckedCreateWithoutUserInput[]
-    connectOrCreate?: EmergencyAlertCreateOrConnectWithoutUserInput | EmergencyAlertCreateOrConnectWithoutUserInput[]
-    upsert?: EmergencyAlertUpsertWithWhereUniqueWithoutUserInput | EmergencyAlertUpsertWithWhereUniqueWithoutUserInput[]
-    createMany?: EmergencyAlertCreateManyUserInputEnvelope
-    set?: EmergencyAlertWhereUniqueInput | EmergencyAlertWhereUniqueInput[]
-    disconnect?: EmergencyAlertWhereUniqueInput | EmergencyAlertWhereUniqueInput[]
-    delete?: EmergencyAlertWhereUniqueInput | EmergencyAlertWhereUniqueInput[]
-    connect?: EmergencyAlertWhereUniqueInput | EmergencyAlertWhereUniqueInput[]
-    update?: EmergencyAlertUpdateWithWhereUniqueWithoutUserInput | EmergencyAlertUpdateWithWhereUniqueWithoutUserInput[]
-    updateMany?: EmergencyAlertUpdateManyWithWhereWithoutUserInput | EmergencyAlertUpdateManyWithWhereWithoutUserInput[]
-    deleteMany?: EmergencyAlertScalarWhereInput | EmergencyAlertScalarWhereInput[]
-  }
-
-  export type MedicineReminderUncheckedUpdateManyWithoutUserNestedInput = {
-    create?: XOR<MedicineReminderCreateWithoutUserInput, MedicineReminderUncheckedCreateWithoutUserInput> | MedicineReminderCreateWithoutUserInput[] | MedicineReminderUncheckedCreateWithoutUserInput[]
-    connectOrCreate?: MedicineReminderCreateOrConnectWithoutUserInput | MedicineReminderCreateOrConnectWithoutUserInput[]
-    upsert?: MedicineReminderUpsertWithWhereUniqueWithoutUserInput | MedicineReminderUpsertWithWhereUniqueWithoutUserInput[]
-    createMany?: MedicineReminderCreateManyUserInputEnvelope
-    set?: MedicineReminderWhereUniqueInput | MedicineReminderWhereUniqueInput[]
-    disconnect?: MedicineReminderWhereUniqueInput | MedicineReminderWhereUniqueInput[]
-    delete?: MedicineReminderWhereUniqueInput | MedicineReminderWhereUniqueInput[]
-    connect?: MedicineReminderWhereUniqueInput | MedicineReminderWhereUniqueInput[]
-    update?: MedicineReminderUpdateWithWhereUniqueWithoutUserInput | MedicineReminderUpdateWithWhereUniqueWithoutUserInput[]
-    updateMany?: MedicineReminderUpdateManyWithWhereWithoutUserInput | MedicineReminderUpdateManyWithWhereWithoutUserInput[]
-    deleteMany?: MedicineReminderScalarWhereInput | MedicineReminderScalarWhereInput[]
-  }
-
-  export type DoctorCreateNestedOneWithoutPatientsInput = {
-    create?: XOR<DoctorCreateWithoutPatientsInput, DoctorUncheckedCreateWithoutPatientsInput>
-    connectOrCreate?: DoctorCreateOrConnectWithoutPatientsInput
-    connect?: DoctorWhereUniqueInput
-  }
-
-  export type HospitalCreateNestedOneWithoutReceiptsInput = {
-    create?: XOR<HospitalCreateWithoutReceiptsInput, HospitalUncheckedCreateWithoutReceiptsInput>
-    connectOrCreate?: HospitalCreateOrConnectWithoutReceiptsInput
-    connect?: HospitalWhereUniqueInput
-  }
-
-  export type UserCreateNestedOneWithoutReceiptsInput = {
-    create?: XOR<UserCreateWithoutReceiptsInput, UserUncheckedCreateWithoutReceiptsInput>
-    connectOrCreate?: UserCreateOrConnectWithoutReceiptsInput
-    connect?: UserWhereUniqueInput
-  }
-
-  export type EnumReceiptStatusFieldUpdateOperationsInput = {
-    set?: $Enums.ReceiptStatus
-  }
-
-  export type DoctorUpdateOneWithoutPatientsNestedInput = {
-    create?: XOR<DoctorCreateWithoutPatientsInput, DoctorUncheckedCreateWithoutPatientsInput>
-    connectOrCreate?: DoctorCreateOrConnectWithoutPatientsInput
-    upsert?: DoctorUpsertWithoutPatientsInput
-    disconnect?: DoctorWhereInput | boolean
-    delete?: DoctorWhereInput | boolean
-    connect?: DoctorWhereUniqueInput
-    update?: XOR<XOR<DoctorUpdateToOneWithWhereWithoutPatientsInput, DoctorUpdateWithoutPatientsInput>, DoctorUncheckedUpdateWithoutPatientsInput>
-  }
-
-  export type HospitalUpdateOneWithoutReceiptsNestedInput = {
-    create?: XOR<HospitalCreateWithoutReceiptsInput, HospitalUncheckedCreateWithoutReceiptsInput>
-    connectOrCreate?: HospitalCreateOrConnectWithoutReceiptsInput
-    upsert?: HospitalUpsertWithoutReceiptsInput
-    disconnect?: HospitalWhereInput | boolean
-    delete?: HospitalWhereInput | boolean
-    connect?: HospitalWhereUniqueInput
-    update?: XOR<XOR<HospitalUpdateToOneWithWhereWithoutReceiptsInput, HospitalUpdateWithoutReceiptsInput>, HospitalUncheckedUpdateWithoutReceiptsInput>
-  }
-
-  export type UserUpdateOneRequiredWithoutReceiptsNestedInput = {
-    create?: XOR<UserCreateWithoutReceiptsInput, UserUncheckedCreateWithoutReceiptsInput>
-    connectOrCreate?: UserCreateOrConnectWithoutReceiptsInput
-    upsert?: UserUpsertWithoutReceiptsInput
-    connect?: UserWhereUniqueInput
-    update?: XOR<XOR<UserUpdateToOneWithWhereWithoutReceiptsInput, UserUpdateWithoutReceiptsInput>, UserUncheckedUpdateWithoutReceiptsInput>
-  }
-
-  export type DoctorCreateNestedManyWithoutHospitalInput = {
-    create?: XOR<DoctorCreateWithoutHospitalInput, DoctorUncheckedCreateWithoutHospitalInput> | DoctorCreateWithoutHospitalInput[] | DoctorUncheckedCreateWithoutHospitalInput[]
-    connectOrCreate?: DoctorCreateOrConnectWithoutHospitalInput | DoctorCreateOrConnectWithoutHospitalInput[]
-    createMany?: DoctorCreateManyHospitalInputEnvelope
-    connect?: DoctorWhereUniqueInput | DoctorWhereUniqueInput[]
-  }
-
-  export type ReceiptCreateNestedManyWithoutHospitalInput = {
-    create?: XOR<ReceiptCreateWithoutHospitalInput, ReceiptUncheckedCreateWithoutHospitalInput> | ReceiptCreateWithoutHospitalInput[] | ReceiptUncheckedCreateWithoutHospitalInput[]
-    connectOrCreate?: ReceiptCreateOrConnectWithoutHospitalInput | ReceiptCreateOrConnectWithoutHospitalInput[]
-    createMany?: ReceiptCreateManyHospitalInputEnvelope
-    connect?: ReceiptWhereUniqueInput | ReceiptWhereUniqueInput[]
-  }
-
-  export type AppointmentCreateNestedManyWithoutHospitalInput = {
-    create?: XOR<AppointmentCreateWithoutHospitalInput, AppointmentUncheckedCreateWithoutHospitalInput> | AppointmentCreateWithoutHospitalInput[] | AppointmentUncheckedCreateWithoutHospitalInput[]
-    connectOrCreate?: AppointmentCreateOrConnectWithoutHospitalInput | AppointmentCreateOrConnectWithoutHospitalInput[]
-    createMany?: AppointmentCreateManyHospitalInputEnvelope
-    connect?: AppointmentWhereUniqueInput | AppointmentWhereUniqueInput[]
-  }
-
-  export type EmergencyAlertCreateNestedManyWithoutHospitalInput = {
-    create?: XOR<EmergencyAlertCreateWithoutHospitalInput, EmergencyAlertUncheckedCreateWithoutHospitalInput> | EmergencyAlertCreateWithoutHospitalInput[] | EmergencyAlertUncheckedCreateWithoutHospitalInput[]
-    connectOrCreate?: EmergencyAlertCreateOrConnectWithoutHospitalInput | EmergencyAlertCreateOrConnectWithoutHospitalInput[]
-    createMany?: EmergencyAlertCreateManyHospitalInputEnvelope
-    connect?: EmergencyAlertWhereUniqueInput | EmergencyAlertWhereUniqueInput[]
-  }
-
-  export type DoctorUncheckedCreateNestedManyWithoutHospitalInput = {
-    create?: XOR<DoctorCreateWithoutHospitalInput, DoctorUncheckedCreateWithoutHospitalInput> | DoctorCreateWithoutHospitalInput[] | DoctorUncheckedCreateWithoutHospitalInput[]
-    connectOrCreate?: DoctorCreateOrConnectWithoutHospitalInput | DoctorCreateOrConnectWithoutHospitalInput[]
-    createMany?: DoctorCreateManyHospitalInputEnvelope
-    connect?: DoctorWhereUniqueInput | DoctorWhereUniqueInput[]
-  }
-
-  export type ReceiptUncheckedCreateNestedManyWithoutHospitalInput = {
-    create?: XOR<ReceiptCreateWithoutHospitalInput, ReceiptUncheckedCreateWithoutHospitalInput> | ReceiptCreateWithoutHospitalInput[] | ReceiptUncheckedCreateWithoutHospitalInput[]
-    connectOrCreate?: ReceiptCreateOrConnectWithoutHospitalInput | ReceiptCreateOrConnectWithoutHospitalInput[]
-    createMany?: ReceiptCreateManyHospitalInputEnvelope
-    connect?: ReceiptWhereUniqueInput | ReceiptWhereUniqueInput[]
-  }
-
-  export type AppointmentUncheckedCreateNestedManyWithoutHospitalInput = {
-    create?: XOR<AppointmentCreateWithoutHospitalInput, AppointmentUncheckedCreateWithoutHospitalInput> | AppointmentCreateWithoutHospitalInput[] | AppointmentUncheckedCreateWithoutHospitalInput[]
-    connectOrCreate?: AppointmentCreateOrConnectWithoutHospitalInput | AppointmentCreateOrConnectWithoutHospitalInput[]
-    createMany?: AppointmentCreateManyHospitalInputEnvelope
-    connect?: AppointmentWhereUniqueInput | AppointmentWhereUniqueInput[]
-  }
-
-  export type EmergencyAlertUncheckedCreateNestedManyWithoutHospitalInput = {
-    create?: XOR<EmergencyAlertCreateWithoutHospitalInput, EmergencyAlertUncheckedCreateWithoutHospitalInput> | EmergencyAlertCreateWithoutHospitalInput[] | EmergencyAlertUncheckedCreateWithoutHospitalInput[]
-    connectOrCreate?: EmergencyAlertCreateOrConnectWithoutHospitalInput | EmergencyAlertCreateOrConnectWithoutHospitalInput[]
-    createMany?: EmergencyAlertCreateManyHospitalInputEnvelope
-    connect?: EmergencyAlertWhereUniqueInput | EmergencyAlertWhereUniqueInput[]
-  }
-
-  export type DoctorUpdateManyWithoutHospitalNestedInput = {
-    create?: XOR<DoctorCreateWithoutHospitalInput, DoctorUncheckedCreateWithoutHospitalInput> | DoctorCreateWithoutHospitalInput[] | DoctorUncheckedCreateWithoutHospitalInput[]
-    connectOrCreate?: DoctorCreateOrConnectWithoutHospitalInput | DoctorCreateOrConnectWithoutHospitalInput[]
-    upsert?: DoctorUpsertWithWhereUniqueWithoutHospitalInput | DoctorUpsertWithWhereUniqueWithoutHospitalInput[]
-    createMany?: DoctorCreateManyHospitalInputEnvelope
-    set?: DoctorWhereUniqueInput | DoctorWhereUniqueInput[]
-    disconnect?: DoctorWhereUniqueInput | DoctorWhereUniqueInput[]
-    delete?: DoctorWhereUniqueInput | DoctorWhereUniqueInput[]
-    connect?: DoctorWhereUniqueInput | DoctorWhereUniqueInput[]
-    update?: DoctorUpdateWithWhereUniqueWithoutHospitalInput | DoctorUpdateWithWhereUniqueWithoutHospitalInput[]
-    updateMany?: DoctorUpdateManyWithWhereWithoutHospitalInput | DoctorUpdateManyWithWhereWithoutHospitalInput[]
-    deleteMany?: DoctorScalarWhereInput | DoctorScalarWhereInput[]
-  }
-
-  export type ReceiptUpdateManyWithoutHospitalNestedInput = {
-    create?: XOR<ReceiptCreateWithoutHospitalInput, ReceiptUncheckedCreateWithoutHospitalInput> | ReceiptCreateWithoutHospitalInput[] | ReceiptUncheckedCreateWithoutHospitalInput[]
-    connectOrCreate?: ReceiptCreateOrConnectWithoutHospitalInput | ReceiptCreateOrConnectWithoutHospitalInput[]
-    upsert?: ReceiptUpsertWithWhereUniqueWithoutHospitalInput | ReceiptUpsertWithWhereUniqueWithoutHospitalInput[]
-    createMany?: ReceiptCreateManyHospitalInputEnvelope
-    set?: ReceiptWhereUniqueInput | ReceiptWhereUniqueInput[]
-    disconnect?: ReceiptWhereUniqueInput | ReceiptWhereUniqueInput[]
-    delete?: ReceiptWhereUniqueInput | ReceiptWhereUniqueInput[]
-    connect?: ReceiptWhereUniqueInput | ReceiptWhereUniqueInput[]
-    update?: ReceiptUpdateWithWhereUniqueWithoutHospitalInput | ReceiptUpdateWithWhereUniqueWithoutHospitalInput[]
-    updateMany?: ReceiptUpdateManyWithWhereWithoutHospitalInput | ReceiptUpdateManyWithWhereWithoutHospitalInput[]
-    deleteMany?: ReceiptScalarWhereInput | ReceiptScalarWhereInput[]
-  }
-
-  export type AppointmentUpdateManyWithoutHospitalNestedInput = {
-    create?: XOR<AppointmentCreateWithoutHospitalInput, AppointmentUncheckedCreateWithoutHospitalInput> | AppointmentCreateWithoutHospitalInput[] | AppointmentUncheckedCreateWithoutHospitalInput[]
-    connectOrCreate?: AppointmentCreateOrConnectWithoutHospitalInput | AppointmentCreateOrConnectWithoutHospitalInput[]
-    upsert?: AppointmentUpsertWithWhereUniqueWithoutHospitalInput | AppointmentUpsertWithWhereUniqueWithoutHospitalInput[]
-    createMany?: AppointmentCreateManyHospitalInputEnvelope
-    set?: AppointmentWhereUniqueInput | AppointmentWhereUniqueInput[]
-    disconnect?: AppointmentWhereUniqueInput | AppointmentWhereUniqueInput[]
-    delete?: AppointmentWhereUniqueInput | AppointmentWhereUniqueInput[]
-    connect?: AppointmentWhereUniqueInput | AppointmentWhereUniqueInput[]
-    update?: AppointmentUpdateWithWhereUniqueWithoutHospitalInput | AppointmentUpdateWithWhereUniqueWithoutHospitalInput[]
-    updateMany?: AppointmentUpdateManyWithWhereWithoutHospitalInput | AppointmentUpdateManyWithWhereWithoutHospitalInput[]
-    deleteMany?: AppointmentScalarWhereInput | AppointmentScalarWhereInput[]
-  }
-
-  export type EmergencyAlertUpdateManyWithoutHospitalNestedInput = {
-    create?: XOR<EmergencyAlertCreateWithoutHospitalInput, EmergencyAlertUncheckedCreateWithoutHospitalInput> | EmergencyAlertCreateWithoutHospitalInput[] | EmergencyAlertUncheckedCreateWithoutHospitalInput[]
-    connectOrCreate?: EmergencyAlertCreateOrConnectWithoutHospitalInput | EmergencyAlertCreateOrConnectWithoutHospitalInput[]
-    upsert?: EmergencyAlertUpsertWithWhereUniqueWithoutHospitalInput | EmergencyAlertUpsertWithWhereUniqueWithoutHospitalInput[]
-    createMany?: EmergencyAlertCreateManyHospitalInputEnvelope
-    set?: EmergencyAlertWhereUniqueInput | EmergencyAlertWhereUniqueInput[]
-    disconnect?: EmergencyAlertWhereUniqueInput | EmergencyAlertWhereUniqueInput[]
-    delete?: EmergencyAlertWhereUniqueInput | EmergencyAlertWhereUniqueInput[]
-    connect?: EmergencyAlertWhereUniqueInput | EmergencyAlertWhereUniqueInput[]
-    update?: EmergencyAlertUpdateWithWhereUniqueWithoutHospitalInput | EmergencyAlertUpdateWithWhereUniqueWithoutHospitalInput[]
-    updateMany?: EmergencyAlertUpdateManyWithWhereWithoutHospitalInput | EmergencyAlertUpdateManyWithWhereWithoutHospitalInput[]
-    deleteMany?: EmergencyAlertScalarWhereInput | EmergencyAlertScalarWhereInput[]
-  }
-
-  export type DoctorUncheckedUpdateManyWithoutHospitalNestedInput = {
-    create?: XOR<DoctorCreateWithoutHospitalInput, DoctorUncheckedCreateWithoutHospitalInput> | DoctorCreateWithoutHospitalInput[] | DoctorUncheckedCreateWithoutHospitalInput[]
-    connectOrCreate?: DoctorCreateOrConnectWithoutHospitalInput | DoctorCreateOrConnectWithoutHospitalInput[]
-    upsert?: DoctorUpsertWithWhereUniqueWithoutHospitalInput | DoctorUpsertWithWhereUniqueWithoutHospitalInput[]
-    createMany?: DoctorCreateManyHospitalInputEnvelope
-    set?: DoctorWhereUniqueInput | DoctorWhereUniqueInput[]
-    disconnect?: DoctorWhereUniqueInput | DoctorWhereUniqueInput[]
-    delete?: DoctorWhereUniqueInput | DoctorWhereUniqueInput[]
-    connect?: DoctorWhereUniqueInput | DoctorWhereUniqueInput[]
-    update?: DoctorUpdateWithWhereUniqueWithoutHospitalInput | DoctorUpdateWithWhereUniqueWithoutHospitalInput[]
-    updateMany?: DoctorUpdateManyWithWhereWithoutHospitalInput | DoctorUpdateManyWithWhereWithoutHospitalInput[]
-    deleteMany?: DoctorScalarWhereInput | DoctorScalarWhereInput[]
-  }
-
-  export type ReceiptUncheckedUpdateManyWithoutHospitalNestedInput = {
-    create?: XOR<ReceiptCreateWithoutHospitalInput, ReceiptUncheckedCreateWithoutHospitalInput> | ReceiptCreateWithoutHospitalInput[] | ReceiptUncheckedCreateWithoutHospitalInput[]
-    connectOrCreate?: ReceiptCreateOrConnectWithoutHospitalInput | ReceiptCreateOrConnectWithoutHospitalInput[]
-    upsert?: ReceiptUpsertWithWhereUniqueWithoutHospitalInput | ReceiptUpsertWithWhereUniqueWithoutHospitalInput[]
-    createMany?: ReceiptCreateManyHospitalInputEnvelope
-    set?: ReceiptWhereUniqueInput | ReceiptWhereUniqueInput[]
-    disconnect?: ReceiptWhereUniqueInput | ReceiptWhereUniqueInput[]
-    delete?: ReceiptWhereUniqueInput | ReceiptWhereUniqueInput[]
-    connect?: ReceiptWhereUniqueInput | ReceiptWhereUniqueInput[]
-    update?: ReceiptUpdateWithWhereUniqueWithoutHospitalInput | ReceiptUpdateWithWhereUniqueWithoutHospitalInput[]
-    updateMany?: ReceiptUpdateManyWithWhereWithoutHospitalInput | ReceiptUpdateManyWithWhereWithoutHospitalInput[]
-    deleteMany?: ReceiptScalarWhereInput | ReceiptScalarWhereInput[]
-  }
-
-  export type AppointmentUncheckedUpdateManyWithoutHospitalNestedInput = {
-    create?: XOR<AppointmentCreateWithoutHospitalInput, AppointmentUncheckedCreateWithoutHospitalInput> | AppointmentCreateWithoutHospitalInput[] | AppointmentUncheckedCreateWithoutHospitalInput[]
-    connectOrCreate?: AppointmentCreateOrConnectWithoutHospitalInput | AppointmentCreateOrConnectWithoutHospitalInput[]
-    upsert?: AppointmentUpsertWithWhereUniqueWithoutHospitalInput | AppointmentUpsertWithWhereUniqueWithoutHospitalInput[]
-    createMany?: AppointmentCreateManyHospitalInputEnvelope
-    set?: AppointmentWhereUniqueInput | AppointmentWhereUniqueInput[]
-    disconnect?: AppointmentWhereUniqueInput | AppointmentWhereUniqueInput[]
-    delete?: AppointmentWhereUniqueInput | AppointmentWhereUniqueInput[]
-    connect?: AppointmentWhereUniqueInput | AppointmentWhereUniqueInput[]
-    update?: AppointmentUpdateWithWhereUniqueWithoutHospitalInput | AppointmentUpdateWithWhereUniqueWithoutHospitalInput[]
-    updateMany?: AppointmentUpdateManyWithWhereWithoutHospitalInput | AppointmentUpdateManyWithWhereWithoutHospitalInput[]
-    deleteMany?: AppointmentScalarWhereInput | AppointmentScalarWhereInput[]
-  }
-
-  export type EmergencyAlertUncheckedUpdateManyWithoutHospitalNestedInput = {
-    create?: XOR<EmergencyAlertCreateWithoutHospitalInput, EmergencyAlertUncheckedCreateWithoutHospitalInput> | EmergencyAlertCreateWithoutHospitalInput[] | EmergencyAlertUncheckedCreateWithoutHospitalInput[]
-    connectOrCreate?: EmergencyAlertCreateOrConnectWithoutHospitalInput | EmergencyAlertCreateOrConnectWithoutHospitalInput[]
-    upsert?: EmergencyAlertUpsertWithWhereUniqueWithoutHospitalInput | EmergencyAlertUpsertWithWhereUniqueWithoutHospitalInput[]
-    createMany?: EmergencyAlertCreateManyHospitalInputEnvelope
-    set?: EmergencyAlertWhereUniqueInput | EmergencyAlertWhereUniqueInput[]
-    disconnect?: EmergencyAlertWhereUniqueInput | EmergencyAlertWhereUniqueInput[]
-    delete?: EmergencyAlertWhereUniqueInput | EmergencyAlertWhereUniqueInput[]
-    connect?: EmergencyAlertWhereUniqueInput | EmergencyAlertWhereUniqueInput[]
-    update?: EmergencyAlertUpdateWithWhereUniqueWithoutHospitalInput | EmergencyAlertUpdateWithWhereUniqueWithoutHospitalInput[]
-    updateMany?: EmergencyAlertUpdateManyWithWhereWithoutHospitalInput | EmergencyAlertUpdateManyWithWhereWithoutHospitalInput[]
-    deleteMany?: EmergencyAlertScalarWhereInput | EmergencyAlertScalarWhereInput[]
-  }
-
-  export type HospitalCreateNestedOneWithoutDoctorsInput = {
-    create?: XOR<HospitalCreateWithoutDoctorsInput, HospitalUncheckedCreateWithoutDoctorsInput>
-    connectOrCreate?: HospitalCreateOrConnectWithoutDoctorsInput
-    connect?: HospitalWhereUniqueInput
-  }
-
-  export type ReceiptCreateNestedManyWithoutDoctorInput = {
-    create?: XOR<ReceiptCreateWithoutDoctorInput, ReceiptUncheckedCreateWithoutDoctorInput> | ReceiptCreateWithoutDoctorInput[] | ReceiptUncheckedCreateWithoutDoctorInput[]
-    connectOrCreate?: ReceiptCreateOrConnectWithoutDoctorInput | ReceiptCreateOrConnectWithoutDoctorInput[]
-    createMany?: ReceiptCreateManyDoctorInputEnvelope
-    connect?: ReceiptWhereUniqueInput | ReceiptWhereUniqueInput[]
-  }
-
-  export type AppointmentCreateNestedManyWithoutDoctorInput = {
-    create?: XOR<AppointmentCreateWithoutDoctorInput, AppointmentUncheckedCreateWithoutDoctorInput> | AppointmentCreateWithoutDoctorInput[] | AppointmentUncheckedCreateWithoutDoctorInput[]
-    connectOrCreate?: AppointmentCreateOrConnectWithoutDoctorInput | AppointmentCreateOrConnectWithoutDoctorInput[]
-    createMany?: AppointmentCreateManyDoctorInputEnvelope
-    connect?: AppointmentWhereUniqueInput | AppointmentWhereUniqueInput[]
-  }
-
-  export type ReceiptUncheckedCreateNestedManyWithoutDoctorInput = {
-    create?: XOR<ReceiptCreateWithoutDoctorInput, ReceiptUncheckedCreateWithoutDoctorInput> | ReceiptCreateWithoutDoctorInput[] | ReceiptUncheckedCreateWithoutDoctorInput[]
-    connectOrCreate?: ReceiptCreateOrConnectWithoutDoctorInput | ReceiptCreateOrConnectWithoutDoctorInput[]
-    createMany?: ReceiptCreateManyDoctorInputEnvelope
-    connect?: ReceiptWhereUniqueInput | ReceiptWhereUniqueInput[]
-  }
-
-  export type AppointmentUncheckedCreateNestedManyWithoutDoctorInput = {
-    create?: XOR<AppointmentCreateWithoutDoctorInput, AppointmentUncheckedCreateWithoutDoctorInput> | AppointmentCreateWithoutDoctorInput[] | AppointmentUncheckedCreateWithoutDoctorInput[]
-    connectOrCreate?: AppointmentCreateOrConnectWithoutDoctorInput | AppointmentCreateOrConnectWithoutDoctorInput[]
-    createMany?: AppointmentCreateManyDoctorInputEnvelope
-    connect?: AppointmentWhereUniqueInput | AppointmentWhereUniqueInput[]
-  }
-
-  export type BoolFieldUpdateOperationsInput = {
-    set?: boolean
-  }
-
-  export type HospitalUpdateOneRequiredWithoutDoctorsNestedInput = {
-    create?: XOR<HospitalCreateWithoutDoctorsInput, HospitalUncheckedCreateWithoutDoctorsInput>
-    connectOrCreate?: HospitalCreateOrConnectWithoutDoctorsInput
-    upsert?: HospitalUpsertWithoutDoctorsInput
-    connect?: HospitalWhereUniqueInput
-    update?: XOR<XOR<HospitalUpdateToOneWithWhereWithoutDoctorsInput, HospitalUpdateWithoutDoctorsInput>, HospitalUncheckedUpdateWithoutDoctorsInput>
-  }
-
-  export type ReceiptUpdateManyWithoutDoctorNestedInput = {
-    create?: XOR<ReceiptCreateWithoutDoctorInput, ReceiptUncheckedCreateWithoutDoctorInput> | ReceiptCreateWithoutDoctorInput[] | ReceiptUncheckedCreateWithoutDoctorInput[]
-    connectOrCreate?: ReceiptCreateOrConnectWithoutDoctorInput | ReceiptCreateOrConnectWithoutDoctorInput[]
-    upsert?: ReceiptUpsertWithWhereUniqueWithoutDoctorInput | ReceiptUpsertWithWhereUniqueWithoutDoctorInput[]
-    createMany?: ReceiptCreateManyDoctorInputEnvelope
-    set?: ReceiptWhereUniqueInput | ReceiptWhereUniqueInput[]
-    disconnect?: ReceiptWhereUniqueInput | ReceiptWhereUniqueInput[]
-    delete?: ReceiptWhereUniqueInput | ReceiptWhereUniqueInput[]
-    connect?: ReceiptWhereUniqueInput | ReceiptWhereUniqueInput[]
-    update?: ReceiptUpdateWithWhereUniqueWithoutDoctorInput | ReceiptUpdateWithWhereUniqueWithoutDoctorInput[]
-    updateMany?: ReceiptUpdateManyWithWhereWithoutDoctorInput | ReceiptUpdateManyWithWhereWithoutDoctorInput[]
-    deleteMany?: ReceiptScalarWhereInput | ReceiptScalarWhereInput[]
-  }
-
-  export type AppointmentUpdateManyWithoutDoctorNestedInput = {
-    create?: XOR<AppointmentCreateWithoutDoctorInput, AppointmentUncheckedCreateWithoutDoctorInput> | AppointmentCreateWithoutDoctorInput[] | AppointmentUncheckedCreateWithoutDoctorInput[]
-    connectOrCreate?: AppointmentCreateOrConnectWithoutDoctorInput | AppointmentCreateOrConnectWithoutDoctorInput[]
-    upsert?: AppointmentUpsertWithWhereUniqueWithoutDoctorInput | AppointmentUpsertWithWhereUniqueWithoutDoctorInput[]
-    createMany?: AppointmentCreateManyDoctorInputEnvelope
-    set?: AppointmentWhereUniqueInput | AppointmentWhereUniqueInput[]
-    disconnect?: AppointmentWhereUniqueInput | AppointmentWhereUniqueInput[]
-    delete?: AppointmentWhereUniqueInput | AppointmentWhereUniqueInput[]
-    connect?: AppointmentWhereUniqueInput | AppointmentWhereUniqueInput[]
-    update?: AppointmentUpdateWithWhereUniqueWithoutDoctorInput | AppointmentUpdateWithWhereUniqueWithoutDoctorInput[]
-    updateMany?: AppointmentUpdateManyWithWhereWithoutDoctorInput | AppointmentUpdateManyWithWhereWithoutDoctorInput[]
-    deleteMany?: AppointmentScalarWhereInput | AppointmentScalarWhereInput[]
-  }
-
-  export type ReceiptUncheckedUpdateManyWithoutDoctorNestedInput = {
-    create?: XOR<ReceiptCreateWithoutDoctorInput, ReceiptUncheckedCreateWithoutDoctorInput> | ReceiptCreateWithoutDoctorInput[] | ReceiptUncheckedCreateWithoutDoctorInput[]
-    connectOrCreate?: ReceiptCreateOrConnectWithoutDoctorInput | ReceiptCreateOrConnectWithoutDoctorInput[]
-    upsert?: ReceiptUpsertWithWhereUniqueWithoutDoctorInput | ReceiptUpsertWithWhereUniqueWithoutDoctorInput[]
-    createMany?: ReceiptCreateManyDoctorInputEnvelope
-    set?: ReceiptWhereUniqueInput | ReceiptWhereUniqueInput[]
-    disconnect?: ReceiptWhereUniqueInput | ReceiptWhereUniqueInput[]
-    delete?: ReceiptWhereUniqueInput | ReceiptWhereUniqueInput[]
-    connect?: ReceiptWhereUniqueInput | ReceiptWhereUniqueInput[]
-    update?: ReceiptUpdateWithWhereUniqueWithoutDoctorInput | ReceiptUpdateWithWhereUniqueWithoutDoctorInput[]
-    updateMany?: ReceiptUpdateManyWithWhereWithoutDoctorInput | ReceiptUpdateManyWithWhereWithoutDoctorInput[]
-    deleteMany?: ReceiptScalarWhereInput | ReceiptScalarWhereInput[]
-  }
-
-  export type AppointmentUncheckedUpdateManyWithoutDoctorNestedInput = {
-    create?: XOR<AppointmentCreateWithoutDoctorInput, AppointmentUncheckedCreateWithoutDoctorInput> | AppointmentCreateWithoutDoctorInput[] | AppointmentUncheckedCreateWithoutDoctorInput[]
-    connectOrCreate?: AppointmentCreateOrConnectWithoutDoctorInput | AppointmentCreateOrConnectWithoutDoctorInput[]
-    upsert?: AppointmentUpsertWithWhereUniqueWithoutDoctorInput | AppointmentUpsertWithWhereUniqueWithoutDoctorInput[]
-    createMany?: AppointmentCreateManyDoctorInputEnvelope
-    set?: AppointmentWhereUniqueInput | AppointmentWhereUniqueInput[]
-    disconnect?: AppointmentWhereUniqueInput | AppointmentWhereUniqueInput[]
-    delete?: AppointmentWhereUniqueInput | AppointmentWhereUniqueInput[]
-    connect?: AppointmentWhereUniqueInput | AppointmentWhereUniqueInput[]
-    update?: AppointmentUpdateWithWhereUniqueWithoutDoctorInput | AppointmentUpdateWithWhereUniqueWithoutDoctorInput[]
-    updateMany?: AppointmentUpdateManyWithWhereWithoutDoctorInput | AppointmentUpdateManyWithWhereWithoutDoctorInput[]
-    deleteMany?: AppointmentScalarWhereInput | AppointmentScalarWhereInput[]
-  }
-
-  export type UserCreateNestedOneWithoutAppointmentsInput = {
-    create?: XOR<UserCreateWithoutAppointmentsInput, UserUncheckedCreateWithoutAppointmentsInput>
-    connectOrCreate?: UserCreateOrConnectWithoutAppointmentsInput
-    connect?: UserWhereUniqueInput
-  }
-
-  export type HospitalCreateNestedOneWithoutAppointmentsInput = {
-    create?: XOR<HospitalCreateWithoutAppointmentsInput, HospitalUncheckedCreateWithoutAppointmentsInput>
-    connectOrCreate?: HospitalCreateOrConnectWithoutAppointmentsInput
-    connect?: HospitalWhereUniqueInput
-  }
-
-  export type DoctorCreateNestedOneWithoutAppointmentsInput = {
-    create?: XOR<DoctorCreateWithoutAppointmentsInput, DoctorUncheckedCreateWithoutAppointmentsInput>
-    connectOrCreate?: DoctorCreateOrConnectWithoutAppointmentsInput
-    connect?: DoctorWhereUniqueInput
-  }
-
-  export type EnumAppointmentStatusFieldUpdateOperationsInput = {
-    set?: $Enums.AppointmentStatus
-  }
-
-  export type UserUpdateOneRequiredWithoutAppointmentsNestedInput = {
-    create?: XOR<UserCreateWithoutAppointmentsInput, UserUncheckedCreateWithoutAppointmentsInput>
-    connectOrCreate?: UserCreateOrConnectWithoutAppointmentsInput
-    upsert?: UserUpsertWithoutAppointmentsInput
-    connect?: UserWhereUniqueInput
-    update?: XOR<XOR<UserUpdateToOneWithWhereWithoutAppointmentsInput, UserUpdateWithoutAppointmentsInput>, UserUncheckedUpdateWithoutAppointmentsInput>
-  }
-
-  export type HospitalUpdateOneRequiredWithoutAppointmentsNestedInput = {
-    create?: XOR<HospitalCreateWithoutAppointmentsInput, HospitalUncheckedCreateWithoutAppointmentsInput>
-    connectOrCreate?: HospitalCreateOrConnectWithoutAppointmentsInput
-    upsert?: HospitalUpsertWithoutAppointmentsInput
-    connect?: HospitalWhereUniqueInput
-    update?: XOR<XOR<HospitalUpdateToOneWithWhereWithoutAppointmentsInput, HospitalUpdateWithoutAppointmentsInput>, HospitalUncheckedUpdateWithoutAppointmentsInput>
-  }
-
-  export type DoctorUpdateOneWithoutAppointmentsNestedInput = {
-    create?: XOR<DoctorCreateWithoutAppointmentsInput, DoctorUncheckedCreateWithoutAppointmentsInput>
-    connectOrCreate?: DoctorCreateOrConnectWithoutAppointmentsInput
-    upsert?: DoctorUpsertWithoutAppointmentsInput
-    disconnect?: DoctorWhereInput | boolean
-    delete?: DoctorWhereInput | boolean
-    connect?: DoctorWhereUniqueInput
-    update?: XOR<XOR<DoctorUpdateToOneWithWhereWithoutAppointmentsInput, DoctorUpdateWithoutAppointmentsInput>, DoctorUncheckedUpdateWithoutAppointmentsInput>
-  }
-
-  export type UserCreateNestedOneWithoutEmergencyAlertsInput = {
-    create?: XOR<UserCreateWithoutEmergencyAlertsInput, UserUncheckedCreateWithoutEmergencyAlertsInput>
-    connectOrCreate?: UserCreateOrConnectWithoutEmergencyAlertsInput
-    connect?: UserWhereUniqueInput
-  }
-
-  export type HospitalCreateNestedOneWithoutEmergencyAlertsInput = {
-    create?: XOR<HospitalCreateWithoutEmergencyAlertsInput, HospitalUncheckedCreateWithoutEmergencyAlertsInput>
-    connectOrCreate?: HospitalCreateOrConnectWithoutEmergencyAlertsInput
-    connect?: HospitalWhereUniqueInput
-  }
-
-  export type EnumEmergencyAlertStatusFieldUpdateOperationsInput = {
-    set?: $Enums.EmergencyAlertStatus
-  }
-
-  export type UserUpdateOneRequiredWithoutEmergencyAlertsNestedInput = {
-    create?: XOR<UserCreateWithoutEmergencyAlertsInput, UserUncheckedCreateWithoutEmergencyAlertsInput>
-    connectOrCreate?: UserCreateOrConnectWithoutEmergencyAlertsInput
-    upsert?: UserUpsertWithoutEmergencyAlertsInput
-    connect?: UserWhereUniqueInput
-    update?: XOR<XOR<UserUpdateToOneWithWhereWithoutEmergencyAlertsInput, UserUpdateWithoutEmergencyAlertsInput>, UserUncheckedUpdateWithoutEmergencyAlertsInput>
-  }
-
-  export type HospitalUpdateOneRequiredWithoutEmergencyAlertsNestedInput = {
-    create?: XOR<HospitalCreateWithoutEmergencyAlertsInput, HospitalUncheckedCreateWithoutEmergencyAlertsInput>
-    connectOrCreate?: HospitalCreateOrConnectWithoutEmergencyAlertsInput
-    upsert?: HospitalUpsertWithoutEmergencyAlertsInput
-    connect?: HospitalWhereUniqueInput
-    update?: XOR<XOR<HospitalUpdateToOneWithWhereWithoutEmergencyAlertsInput, HospitalUpdateWithoutEmergencyAlertsInput>, HospitalUncheckedUpdateWithoutEmergencyAlertsInput>
-  }
-
-  export type UserCreateNestedOneWithoutMedicineRemindersInput = {
-    create?: XOR<UserCreateWithoutMedicineRemindersInput, UserUncheckedCreateWithoutMedicineRemindersInput>
-    connectOrCreate?: UserCreateOrConnectWithoutMedicineRemindersInput
-    connect?: UserWhereUniqueInput
-  }
-
-  export type UserUpdateOneRequiredWithoutMedicineRemindersNestedInput = {
-    create?: XOR<UserCreateWithoutMedicineRemindersInput, UserUncheckedCreateWithoutMedicineRemindersInput>
-    connectOrCreate?: UserCreateOrConnectWithoutMedicineRemindersInput
-    upsert?: UserUpsertWithoutMedicineRemindersInput
-    connect?: UserWhereUniqueInput
-    update?: XOR<XOR<UserUpdateToOneWithWhereWithoutMedicineRemindersInput, UserUpdateWithoutMedicineRemindersInput>, UserUncheckedUpdateWithoutMedicineRemindersInput>
-  }
-
-  export type NestedStringFilter<$PrismaModel = never> = {
-    equals?: string | StringFieldRefInput<$PrismaModel>
-    in?: string[] | ListStringFieldRefInput<$PrismaModel>
-    notIn?: string[] | ListStringFieldRefInput<$PrismaModel>
-    lt?: string | StringFieldRefInput<$PrismaModel>
-    lte?: string | StringFieldRefInput<$PrismaModel>
-    gt?: string | StringFieldRefInput<$PrismaModel>
-    gte?: string | StringFieldRefInput<$PrismaModel>
-    contains?: string | StringFieldRefInput<$PrismaModel>
-    startsWith?: string | StringFieldRefInput<$PrismaModel>
-    endsWith?: string | StringFieldRefInput<$PrismaModel>
-    not?: NestedStringFilter<$PrismaModel> | string
-  }
-
-  export type NestedStringNullableFilter<$PrismaModel = never> = {
-    equals?: string | StringFieldRefInput<$PrismaModel> | null
-    in?: string[] | ListStringFieldRefInput<$PrismaModel> | null
-    notIn?: string[] | ListStringFieldRefInput<$PrismaModel> | null
-    lt?: string | StringFieldRefInput<$PrismaModel>
-    lte?: string | StringFieldRefInput<$PrismaModel>
-    gt?: string | StringFieldRefInput<$PrismaModel>
-    gte?: string | StringFieldRefInput<$PrismaModel>
-    contains?: string | StringFieldRefInput<$PrismaModel>
-    startsWith?: string | StringFieldRefInput<$PrismaModel>
-    endsWith?: string | StringFieldRefInput<$PrismaModel>
-    not?: NestedStringNullableFilter<$PrismaModel> | string | null
-  }
-
-  export type NestedIntNullableFilter<$PrismaModel = never> = {
-    equals?: number | IntFieldRefInput<$PrismaModel> | null
-    in?: number[] | ListIntFieldRefInput<$PrismaModel> | null
-    notIn?: number[] | ListIntFieldRefInput<$PrismaModel> | null
-    lt?: number | IntFieldRefInput<$PrismaModel>
-    lte?: number | IntFieldRefInput<$PrismaModel>
-    gt?: number | IntFieldRefInput<$PrismaModel>
-    gte?: number | IntFieldRefInput<$PrismaModel>
-    not?: NestedIntNullableFilter<$PrismaModel> | number | null
-  }
-
-  export type NestedStringWithAggregatesFilter<$PrismaModel = never> = {
-    equals?: string | StringFieldRefInput<$PrismaModel>
-    in?: string[] | ListStringFieldRefInput<$PrismaModel>
-    notIn?: string[] | ListStringFieldRefInput<$PrismaModel>
-    lt?: string | StringFieldRefInput<$PrismaModel>
-    lte?: string | StringFieldRefInput<$PrismaModel>
-    gt?: string | StringFieldRefInput<$PrismaModel>
-    gte?: string | StringFieldRefInput<$PrismaModel>
-    contains?: string | StringFieldRefInput<$PrismaModel>
-    startsWith?: string | StringFieldRefInput<$PrismaModel>
-    endsWith?: string | StringFieldRefInput<$PrismaModel>
-    not?: NestedStringWithAggregatesFilter<$PrismaModel> | string
-    _count?: NestedIntFilter<$PrismaModel>
-    _min?: NestedStringFilter<$PrismaModel>
-    _max?: NestedStringFilter<$PrismaModel>
-  }
-
-  export type NestedIntFilter<$PrismaModel = never> = {
-    equals?: number | IntFieldRefInput<$PrismaModel>
-    in?: number[] | ListIntFieldRefInput<$PrismaModel>
-    notIn?: number[] | ListIntFieldRefInput<$PrismaModel>
-    lt?: number | IntFieldRefInput<$PrismaModel>
-    lte?: number | IntFieldRefInput<$PrismaModel>
-    gt?: number | IntFieldRefInput<$PrismaModel>
-    gte?: number | IntFieldRefInput<$PrismaModel>
-    not?: NestedIntFilter<$PrismaModel> | number
-  }
-
-  export type NestedStringNullableWithAggregatesFilter<$PrismaModel = never> = {
-    equals?: string | StringFieldRefInput<$PrismaModel> | null
-    in?: string[] | ListStringFieldRefInput<$PrismaModel> | null
-    notIn?: string[] | ListStringFieldRefInput<$PrismaModel> | null
-    lt?: string | StringFieldRefInput<$PrismaModel>
-    lte?: string | StringFieldRefInput<$PrismaModel>
-    gt?: string | StringFieldRefInput<$PrismaModel>
-    gte?: string | StringFieldRefInput<$PrismaModel>
-    contains?: string | StringFieldRefInput<$PrismaModel>
-    startsWith?: string | StringFieldRefInput<$PrismaModel>
-    endsWith?: string | StringFieldRefInput<$PrismaModel>
-    not?: NestedStringNullableWithAggregatesFilter<$PrismaModel> | string | null
-    _count?: NestedIntNullableFilter<$PrismaModel>
-    _min?: NestedStringNullableFilter<$PrismaModel>
-    _max?: NestedStringNullableFilter<$PrismaModel>
-  }
-
-  export type NestedIntNullableWithAggregatesFilter<$PrismaModel = never> = {
-    equals?: number | IntFieldRefInput<$PrismaModel> | null
-    in?: number[] | ListIntFieldRefInput<$PrismaModel> | null
-    notIn?: number[] | ListIntFieldRefInput<$PrismaModel> | null
-    lt?: number | IntFieldRefInput<$PrismaModel>
-    lte?: number | IntFieldRefInput<$PrismaModel>
-    gt?: number | IntFieldRefInput<$PrismaModel>
-    gte?: number | IntFieldRefInput<$PrismaModel>
-    not?: NestedIntNullableWithAggregatesFilter<$PrismaModel> | number | null
-    _count?: NestedIntNullableFilter<$PrismaModel>
-    _avg?: NestedFloatNullableFilter<$PrismaModel>
-    _sum?: NestedIntNullableFilter<$PrismaModel>
-    _min?: NestedIntNullableFilter<$PrismaModel>
-    _max?: NestedIntNullableFilter<$PrismaModel>
-  }
-
-  export type NestedFloatNullableFilter<$PrismaModel = never> = {
-    equals?: number | FloatFieldRefInput<$PrismaModel> | null
-    in?: number[] | ListFloatFieldRefInput<$PrismaModel> | null
-    notIn?: number[] | ListFloatFieldRefInput<$PrismaModel> | null
-    lt?: number | FloatFieldRefInput<$PrismaModel>
-    lte?: number | FloatFieldRefInput<$PrismaModel>
-    gt?: number | FloatFieldRefInput<$PrismaModel>
-    gte?: number | FloatFieldRefInput<$PrismaModel>
-    not?: NestedFloatNullableFilter<$PrismaModel> | number | null
-  }
-
-  export type NestedDateTimeFilter<$PrismaModel = never> = {
-    equals?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    in?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel>
-    notIn?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel>
-    lt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    lte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    gt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    gte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    not?: NestedDateTimeFilter<$PrismaModel> | Date | string
-  }
-
-  export type NestedDateTimeWithAggregatesFilter<$PrismaModel = never> = {
-    equals?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    in?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel>
-    notIn?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel>
-    lt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    lte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    gt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    gte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    not?: NestedDateTimeWithAggregatesFilter<$PrismaModel> | Date | string
-    _count?: NestedIntFilter<$PrismaModel>
-    _min?: NestedDateTimeFilter<$PrismaModel>
-    _max?: NestedDateTimeFilter<$PrismaModel>
-  }
-
-  export type NestedDateTimeNullableFilter<$PrismaModel = never> = {
-    equals?: Date | string | DateTimeFieldRefInput<$PrismaModel> | null
-    in?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel> | null
-    notIn?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel> | null
-    lt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    lte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    gt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    gte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    not?: NestedDateTimeNullableFilter<$PrismaModel> | Date | string | null
-  }
-
-  export type NestedEnumUserRoleFilter<$PrismaModel = never> = {
-    equals?: $Enums.UserRole | EnumUserRoleFieldRefInput<$PrismaModel>
-    in?: $Enums.UserRole[] | ListEnumUserRoleFieldRefInput<$PrismaModel>
-    notIn?: $Enums.UserRole[] | ListEnumUserRoleFieldRefInput<$PrismaModel>
-    not?: NestedEnumUserRoleFilter<$PrismaModel> | $Enums.UserRole
-  }
-
-  export type NestedDateTimeNullableWithAggregatesFilter<$PrismaModel = never> = {
-    equals?: Date | string | DateTimeFieldRefInput<$PrismaModel> | null
-    in?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel> | null
-    notIn?: Date[] | string[] | ListDateTimeFieldRefInput<$PrismaModel> | null
-    lt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    lte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    gt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    gte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    not?: NestedDateTimeNullableWithAggregatesFilter<$PrismaModel> | Date | string | null
-    _count?: NestedIntNullableFilter<$PrismaModel>
-    _min?: NestedDateTimeNullableFilter<$PrismaModel>
-    _max?: NestedDateTimeNullableFilter<$PrismaModel>
-  }
-
-  export type NestedEnumUserRoleWithAggregatesFilter<$PrismaModel = never> = {
-    equals?: $Enums.UserRole | EnumUserRoleFieldRefInput<$PrismaModel>
-    in?: $Enums.UserRole[] | ListEnumUserRoleFieldRefInput<$PrismaModel>
-    notIn?: $Enums.UserRole[] | ListEnumUserRoleFieldRefInput<$PrismaModel>
-    not?: NestedEnumUserRoleWithAggregatesFilter<$PrismaModel> | $Enums.UserRole
-    _count?: NestedIntFilter<$PrismaModel>
-    _min?: NestedEnumUserRoleFilter<$PrismaModel>
-    _max?: NestedEnumUserRoleFilter<$PrismaModel>
-  }
-
-  export type NestedEnumReceiptStatusFilter<$PrismaModel = never> = {
-    equals?: $Enums.ReceiptStatus | EnumReceiptStatusFieldRefInput<$PrismaModel>
-    in?: $Enums.ReceiptStatus[] | ListEnumReceiptStatusFieldRefInput<$PrismaModel>
-    notIn?: $Enums.ReceiptStatus[] | ListEnumReceiptStatusFieldRefInput<$PrismaModel>
-    not?: NestedEnumReceiptStatusFilter<$PrismaModel> | $Enums.ReceiptStatus
-  }
-
-  export type NestedEnumReceiptStatusWithAggregatesFilter<$PrismaModel = never> = {
-    equals?: $Enums.ReceiptStatus | EnumReceiptStatusFieldRefInput<$PrismaModel>
-    in?: $Enums.ReceiptStatus[] | ListEnumReceiptStatusFieldRefInput<$PrismaModel>
-    notIn?: $Enums.ReceiptStatus[] | ListEnumReceiptStatusFieldRefInput<$PrismaModel>
-    not?: NestedEnumReceiptStatusWithAggregatesFilter<$PrismaModel> | $Enums.ReceiptStatus
-    _count?: NestedIntFilter<$PrismaModel>
-    _min?: NestedEnumReceiptStatusFilter<$PrismaModel>
-    _max?: NestedEnumReceiptStatusFilter<$PrismaModel>
-  }
-
-  export type NestedBoolFilter<$PrismaModel = never> = {
-    equals?: boolean | BooleanFieldRefInput<$PrismaModel>
-    not?: NestedBoolFilter<$PrismaModel> | boolean
-  }
-
-  export type NestedBoolWithAggregatesFilter<$PrismaModel = never> = {
-    equals?: boolean | BooleanFieldRefInput<$PrismaModel>
-    not?: NestedBoolWithAggregatesFilter<$PrismaModel> | boolean
-    _count?: NestedIntFilter<$PrismaModel>
-    _min?: NestedBoolFilter<$PrismaModel>
-    _max?: NestedBoolFilter<$PrismaModel>
-  }
-
-  export type NestedEnumAppointmentStatusFilter<$PrismaModel = never> = {
-    equals?: $Enums.AppointmentStatus | EnumAppointmentStatusFieldRefInput<$PrismaModel>
-    in?: $Enums.AppointmentStatus[] | ListEnumAppointmentStatusFieldRefInput<$PrismaModel>
-    notIn?: $Enums.AppointmentStatus[] | ListEnumAppointmentStatusFieldRefInput<$PrismaModel>
-    not?: NestedEnumAppointmentStatusFilter<$PrismaModel> | $Enums.AppointmentStatus
-  }
-
-  export type NestedEnumAppointmentStatusWithAggregatesFilter<$PrismaModel = never> = {
-    equals?: $Enums.AppointmentStatus | EnumAppointmentStatusFieldRefInput<$PrismaModel>
-    in?: $Enums.AppointmentStatus[] | ListEnumAppointmentStatusFieldRefInput<$PrismaModel>
-    notIn?: $Enums.AppointmentStatus[] | ListEnumAppointmentStatusFieldRefInput<$PrismaModel>
-    not?: NestedEnumAppointmentStatusWithAggregatesFilter<$PrismaModel> | $Enums.AppointmentStatus
-    _count?: NestedIntFilter<$PrismaModel>
-    _min?: NestedEnumAppointmentStatusFilter<$PrismaModel>
-    _max?: NestedEnumAppointmentStatusFilter<$PrismaModel>
-  }
-
-  export type NestedEnumEmergencyAlertStatusFilter<$PrismaModel = never> = {
-    equals?: $Enums.EmergencyAlertStatus | EnumEmergencyAlertStatusFieldRefInput<$PrismaModel>
-    in?: $Enums.EmergencyAlertStatus[] | ListEnumEmergencyAlertStatusFieldRefInput<$PrismaModel>
-    notIn?: $Enums.EmergencyAlertStatus[] | ListEnumEmergencyAlertStatusFieldRefInput<$PrismaModel>
-    not?: NestedEnumEmergencyAlertStatusFilter<$PrismaModel> | $Enums.EmergencyAlertStatus
-  }
-
-  export type NestedEnumEmergencyAlertStatusWithAggregatesFilter<$PrismaModel = never> = {
-    equals?: $Enums.EmergencyAlertStatus | EnumEmergencyAlertStatusFieldRefInput<$PrismaModel>
-    in?: $Enums.EmergencyAlertStatus[] | ListEnumEmergencyAlertStatusFieldRefInput<$PrismaModel>
-    notIn?: $Enums.EmergencyAlertStatus[] | ListEnumEmergencyAlertStatusFieldRefInput<$PrismaModel>
-    not?: NestedEnumEmergencyAlertStatusWithAggregatesFilter<$PrismaModel> | $Enums.EmergencyAlertStatus
-    _count?: NestedIntFilter<$PrismaModel>
-    _min?: NestedEnumEmergencyAlertStatusFilter<$PrismaModel>
-    _max?: NestedEnumEmergencyAlertStatusFilter<$PrismaModel>
-  }
-  export type NestedJsonFilter<$PrismaModel = never> =
-    | PatchUndefined<
-        Either<Required<NestedJsonFilterBase<$PrismaModel>>, Exclude<keyof Required<NestedJsonFilterBase<$PrismaModel>>, 'path'>>,
-        Required<NestedJsonFilterBase<$PrismaModel>>
-      >
-    | OptionalFlat<Omit<Required<NestedJsonFilterBase<$PrismaModel>>, 'path'>>
-
-  export type NestedJsonFilterBase<$PrismaModel = never> = {
-    equals?: InputJsonValue | JsonFieldRefInput<$PrismaModel> | JsonNullValueFilter
-    path?: string[]
-    mode?: QueryMode | EnumQueryModeFieldRefInput<$PrismaModel>
-    string_contains?: string | StringFieldRefInput<$PrismaModel>
-    string_starts_with?: string | StringFieldRefInput<$PrismaModel>
-    string_ends_with?: string | StringFieldRefInput<$PrismaModel>
-    array_starts_with?: InputJsonValue | JsonFieldRefInput<$PrismaModel> | null
-    array_ends_with?: InputJsonValue | JsonFieldRefInput<$PrismaModel> | null
-    array_contains?: InputJsonValue | JsonFieldRefInput<$PrismaModel> | null
-    lt?: InputJsonValue | JsonFieldRefInput<$PrismaModel>
-    lte?: InputJsonValue | JsonFieldRefInput<$PrismaModel>
-    gt?: InputJsonValue | JsonFieldRefInput<$PrismaModel>
-    gte?: InputJsonValue | JsonFieldRefInput<$PrismaModel>
-    not?: InputJsonValue | JsonFieldRefInput<$PrismaModel> | JsonNullValueFilter
-  }
-
-  export type UserCreateWithoutAccountsInput = {
-    id?: string
-    name?: string | null
-    email?: string | null
-    emailVerified?: Date | string | null
-    image?: string | null
-    role?: $Enums.UserRole
-    state?: string | null
-    hospital?: string | null
-    address?: string | null
-    dateOfBirth?: Date | string | null
-    gender?: string | null
-    phone?: string | null
-    city?: string | null
-    pincode?: string | null
-    sessions?: SessionCreateNestedManyWithoutUserInput
-    appointments?: AppointmentCreateNestedManyWithoutUserInput
-    receipts?: ReceiptCreateNestedManyWithoutUserInput
-    emergencyAlerts?: EmergencyAlertCreateNestedManyWithoutUserInput
-    medicineReminders?: MedicineReminderCreateNestedManyWithoutUserInput
-  }
-
-  export type UserUncheckedCreateWithoutAccountsInput = {
-    id?: string
-    name?: string | null
-    email?: string | null
-    emailVerified?: Date | string | null
-    image?: string | null
-    role?: $Enums.UserRole
-    state?: string | null
-    hospital?: string | null
-    address?: string | null
-    dateOfBirth?: Date | string | null
-    gender?: string | null
-    phone?: string | null
-    city?: string | null
-    pincode?: string | null
-    sessions?: SessionUncheckedCreateNestedManyWithoutUserInput
-    appointments?: AppointmentUncheckedCreateNestedManyWithoutUserInput
-    receipts?: ReceiptUncheckedCreateNestedManyWithoutUserInput
-    emergencyAlerts?: EmergencyAlertUncheckedCreateNestedManyWithoutUserInput
-    medicineReminders?: MedicineReminderUncheckedCreateNestedManyWithoutUserInput
-  }
-
-  export type UserCreateOrConnectWithoutAccountsInput = {
-    where: UserWhereUniqueInput
-    create: XOR<UserCreateWithoutAccountsInput, UserUncheckedCreateWithoutAccountsInput>
-  }
-
-  export type UserUpsertWithoutAccountsInput = {
-    update: XOR<UserUpdateWithoutAccountsInput, UserUncheckedUpdateWithoutAccountsInput>
-    create: XOR<UserCreateWithoutAccountsInput, UserUncheckedCreateWithoutAccountsInput>
-    where?: UserWhereInput
-  }
-
-  export type UserUpdateToOneWithWhereWithoutAccountsInput = {
-    where?: UserWhereInput
-    data: XOR<UserUpdateWithoutAccountsInput, UserUncheckedUpdateWithoutAccountsInput>
-  }
-
-  export type UserUpdateWithoutAccountsInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    name?: NullableStringFieldUpdateOperationsInput | string | null
-    email?: NullableStringFieldUpdateOperationsInput | string | null
-    emailVerified?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    image?: NullableStringFieldUpdateOperationsInput | string | null
-    role?: EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
-    state?: NullableStringFieldUpdateOperationsInput | string | null
-    hospital?: NullableStringFieldUpdateOperationsInput | string | null
-    address?: NullableStringFieldUpdateOperationsInput | string | null
-    dateOfBirth?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    gender?: NullableStringFieldUpdateOperationsInput | string | null
-    phone?: NullableStringFieldUpdateOperationsInput | string | null
-    city?: NullableStringFieldUpdateOperationsInput | string | null
-    pincode?: NullableStringFieldUpdateOperationsInput | string | null
-    sessions?: SessionUpdateManyWithoutUserNestedInput
-    appointments?: AppointmentUpdateManyWithoutUserNestedInput
-    receipts?: ReceiptUpdateManyWithoutUserNestedInput
-    emergencyAlerts?: EmergencyAlertUpdateManyWithoutUserNestedInput
-    medicineReminders?: MedicineReminderUpdateManyWithoutUserNestedInput
-  }
-
-  export type UserUncheckedUpdateWithoutAccountsInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    name?: NullableStringFieldUpdateOperationsInput | string | null
-    email?: NullableStringFieldUpdateOperationsInput | string | null
-    emailVerified?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    image?: NullableStringFieldUpdateOperationsInput | string | null
-    role?: EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
-    state?: NullableStringFieldUpdateOperationsInput | string | null
-    hospital?: NullableStringFieldUpdateOperationsInput | string | null
-    address?: NullableStringFieldUpdateOperationsInput | string | null
-    dateOfBirth?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    gender?: NullableStringFieldUpdateOperationsInput | string | null
-    phone?: NullableStringFieldUpdateOperationsInput | string | null
-    city?: NullableStringFieldUpdateOperationsInput | string | null
-    pincode?: NullableStringFieldUpdateOperationsInput | string | null
-    sessions?: SessionUncheckedUpdateManyWithoutUserNestedInput
-    appointments?: AppointmentUncheckedUpdateManyWithoutUserNestedInput
-    receipts?: ReceiptUncheckedUpdateManyWithoutUserNestedInput
-    emergencyAlerts?: EmergencyAlertUncheckedUpdateManyWithoutUserNestedInput
-    medicineReminders?: MedicineReminderUncheckedUpdateManyWithoutUserNestedInput
-  }
-
-  export type UserCreateWithoutSessionsInput = {
-    id?: string
-    name?: string | null
-    email?: string | null
-    emailVerified?: Date | string | null
-    image?: string | null
-    role?: $Enums.UserRole
-    state?: string | null
-    hospital?: string | null
-    address?: string | null
-    dateOfBirth?: Date | string | null
-    gender?: string | null
-    phone?: string | null
-    city?: string | null
-    pincode?: string | null
-    accounts?: AccountCreateNestedManyWithoutUserInput
-    appointments?: AppointmentCreateNestedManyWithoutUserInput
-    receipts?: ReceiptCreateNestedManyWithoutUserInput
-    emergencyAlerts?: EmergencyAlertCreateNestedManyWithoutUserInput
-    medicineReminders?: MedicineReminderCreateNestedManyWithoutUserInput
-  }
-
-  export type UserUncheckedCreateWithoutSessionsInput = {
-    id?: string
-    name?: string | null
-    email?: string | null
-    emailVerified?: Date | string | null
-    image?: string | null
-    role?: $Enums.UserRole
-    state?: string | null
-    hospital?: string | null
-    address?: string | null
-    dateOfBirth?: Date | string | null
-    gender?: string | null
-    phone?: string | null
-    city?: string | null
-    pincode?: string | null
-    accounts?: AccountUncheckedCreateNestedManyWithoutUserInput
-    appointments?: AppointmentUncheckedCreateNestedManyWithoutUserInput
-    receipts?: ReceiptUncheckedCreateNestedManyWithoutUserInput
-    emergencyAlerts?: EmergencyAlertUncheckedCreateNestedManyWithoutUserInput
-    medicineReminders?: MedicineReminderUncheckedCreateNestedManyWithoutUserInput
-  }
-
-  export type UserCreateOrConnectWithoutSessionsInput = {
-    where: UserWhereUniqueInput
-    create: XOR<UserCreateWithoutSessionsInput, UserUncheckedCreateWithoutSessionsInput>
-  }
-
-  export type UserUpsertWithoutSessionsInput = {
-    update: XOR<UserUpdateWithoutSessionsInput, UserUncheckedUpdateWithoutSessionsInput>
-    create: XOR<UserCreateWithoutSessionsInput, UserUncheckedCreateWithoutSessionsInput>
-    where?: UserWhereInput
-  }
-
-  export type UserUpdateToOneWithWhereWithoutSessionsInput = {
-    where?: UserWhereInput
-    data: XOR<UserUpdateWithoutSessionsInput, UserUncheckedUpdateWithoutSessionsInput>
-  }
-
-  export type UserUpdateWithoutSessionsInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    name?: NullableStringFieldUpdateOperationsInput | string | null
-    email?: NullableStringFieldUpdateOperationsInput | string | null
-    emailVerified?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    image?: NullableStringFieldUpdateOperationsInput | string | null
-    role?: EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
-    state?: NullableStringFieldUpdateOperationsInput | string | null
-    hospital?: NullableStringFieldUpdateOperationsInput | string | null
-    address?: NullableStringFieldUpdateOperationsInput | string | null
-    dateOfBirth?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    gender?: NullableStringFieldUpdateOperationsInput | string | null
-    phone?: NullableStringFieldUpdateOperationsInput | string | null
-    city?: NullableStringFieldUpdateOperationsInput | string | null
-    pincode?: NullableStringFieldUpdateOperationsInput | string | null
-    accounts?: AccountUpdateManyWithoutUserNestedInput
-    appointments?: AppointmentUpdateManyWithoutUserNestedInput
-    receipts?: ReceiptUpdateManyWithoutUserNestedInput
-    emergencyAlerts?: EmergencyAlertUpdateManyWithoutUserNestedInput
-    medicineReminders?: MedicineReminderUpdateManyWithoutUserNestedInput
-  }
-
-  export type UserUncheckedUpdateWithoutSessionsInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    name?: NullableStringFieldUpdateOperationsInput | string | null
-    email?: NullableStringFieldUpdateOperationsInput | string | null
-    emailVerified?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    image?: NullableStringFieldUpdateOperationsInput | string | null
-    role?: EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
-    state?: NullableStringFieldUpdateOperationsInput | string | null
-    hospital?: NullableStringFieldUpdateOperationsInput | string | null
-    address?: NullableStringFieldUpdateOperationsInput | string | null
-    dateOfBirth?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    gender?: NullableStringFieldUpdateOperationsInput | string | null
-    phone?: NullableStringFieldUpdateOperationsInput | string | null
-    city?: NullableStringFieldUpdateOperationsInput | string | null
-    pincode?: NullableStringFieldUpdateOperationsInput | string | null
-    accounts?: AccountUncheckedUpdateManyWithoutUserNestedInput
-    appointments?: AppointmentUncheckedUpdateManyWithoutUserNestedInput
-    receipts?: ReceiptUncheckedUpdateManyWithoutUserNestedInput
-    emergencyAlerts?: EmergencyAlertUncheckedUpdateManyWithoutUserNestedInput
-    medicineReminders?: MedicineReminderUncheckedUpdateManyWithoutUserNestedInput
-  }
-
-  export type AccountCreateWithoutUserInput = {
-    id?: string
-    type: string
-    provider: string
-    providerAccountId: string
-    refresh_token?: string | null
-    access_token?: string | null
-    expires_at?: number | null
-    token_type?: string | null
-    scope?: string | null
-    id_token?: string | null
-    session_state?: string | null
-  }
-
-  export type AccountUncheckedCreateWithoutUserInput = {
-    id?: string
-    type: string
-    provider: string
-    providerAccountId: string
-    refresh_token?: string | null
-    access_token?: string | null
-    expires_at?: number | null
-    token_type?: string | null
-    scope?: string | null
-    id_token?: string | null
-    session_state?: string | null
-  }
-
-  export type AccountCreateOrConnectWithoutUserInput = {
-    where: AccountWhereUniqueInput
-    create: XOR<AccountCreateWithoutUserInput, AccountUncheckedCreateWithoutUserInput>
-  }
-
-  export type AccountCreateManyUserInputEnvelope = {
-    data: AccountCreateManyUserInput | AccountCreateManyUserInput[]
-    skipDuplicates?: boolean
-  }
-
-  export type SessionCreateWithoutUserInput = {
-    id?: string
-    sessionToken: string
-    expires: Date | string
-  }
-
-  export type SessionUncheckedCreateWithoutUserInput = {
-    id?: string
-    sessionToken: string
-    expires: Date | string
-  }
-
-  export type SessionCreateOrConnectWithoutUserInput = {
-    where: SessionWhereUniqueInput
-    create: XOR<SessionCreateWithoutUserInput, SessionUncheckedCreateWithoutUserInput>
-  }
-
-  export type SessionCreateManyUserInputEnvelope = {
-    data: SessionCreateManyUserInput | SessionCreateManyUserInput[]
-    skipDuplicates?: boolean
-  }
-
-  export type AppointmentCreateWithoutUserInput = {
-    id?: string
-    symptoms: string
-    aiAnalysis?: string | null
-    severity?: number | null
-    status?: $Enums.AppointmentStatus
-    preferredDate: Date | string
-    scheduledDate?: Date | string | null
-    createdAt?: Date | string
-    updatedAt?: Date | string
-    hospital: HospitalCreateNestedOneWithoutAppointmentsInput
-    doctor?: DoctorCreateNestedOneWithoutAppointmentsInput
-  }
-
-  export type AppointmentUncheckedCreateWithoutUserInput = {
-    id?: string
-    hospitalId: string
-    doctorId?: string | null
-    symptoms: string
-    aiAnalysis?: string | null
-    severity?: number | null
-    status?: $Enums.AppointmentStatus
-    preferredDate: Date | string
-    scheduledDate?: Date | string | null
-    createdAt?: Date | string
-    updatedAt?: Date | string
-  }
-
-  export type AppointmentCreateOrConnectWithoutUserInput = {
-    where: AppointmentWhereUniqueInput
-    create: XOR<AppointmentCreateWithoutUserInput, AppointmentUncheckedCreateWithoutUserInput>
-  }
-
-  export type AppointmentCreateManyUserInputEnvelope = {
-    data: AppointmentCreateManyUserInput | AppointmentCreateManyUserInput[]
-    skipDuplicates?: boolean
-  }
-
-  export type ReceiptCreateWithoutUserInput = {
-    id?: string
-    imageUrl: string
-    uploatedAt?: Date | string
-    processedAt?: Date | string | null
-    condition?: string | null
-    severity?: number | null
-    status?: $Enums.ReceiptStatus
-    queuePosition?: number | null
-    aiAnalysis?: string | null
-    doctor?: DoctorCreateNestedOneWithoutPatientsInput
-    hospital?: HospitalCreateNestedOneWithoutReceiptsInput
-  }
-
-  export type ReceiptUncheckedCreateWithoutUserInput = {
-    id?: string
-    imageUrl: string
-    uploatedAt?: Date | string
-    processedAt?: Date | string | null
-    condition?: string | null
-    severity?: number | null
-    hospitalId?: string | null
-    status?: $Enums.ReceiptStatus
-    queuePosition?: number | null
-    aiAnalysis?: string | null
-    doctorId?: string | null
-  }
-
-  export type ReceiptCreateOrConnectWithoutUserInput = {
-    where: ReceiptWhereUniqueInput
-    create: XOR<ReceiptCreateWithoutUserInput, ReceiptUncheckedCreateWithoutUserInput>
-  }
-
-  export type ReceiptCreateManyUserInputEnvelope = {
-    data: ReceiptCreateManyUserInput | ReceiptCreateManyUserInput[]
-    skipDuplicates?: boolean
-  }
-
-  export type EmergencyAlertCreateWithoutUserInput = {
-    id?: string
-    status?: $Enums.EmergencyAlertStatus
-    patientInfo: JsonNullValueInput | InputJsonValue
-    medicalHistory: JsonNullValueInput | InputJsonValue
-    createdAt?: Date | string
-    respondedAt?: Date | string | null
-    notes?: string | null
-    hospital: HospitalCreateNestedOneWithoutEmergencyAlertsInput
-  }
-
-  export type EmergencyAlertUncheckedCreateWithoutUserInput = {
-    id?: string
-    hospitalId: string
-    status?: $Enums.EmergencyAlertStatus
-    patientInfo: JsonNullValueInput | InputJsonValue
-    medicalHistory: JsonNullValueInput | InputJsonValue
-    createdAt?: Date | string
-    respondedAt?: Date | string | null
-    notes?: string | null
-  }
-
-  export type EmergencyAlertCreateOrConnectWithoutUserInput = {
-    where: EmergencyAlertWhereUniqueInput
-    create: XOR<EmergencyAlertCreateWithoutUserInput, EmergencyAlertUncheckedCreateWithoutUserInput>
-  }
-
-  export type EmergencyAlertCreateManyUserInputEnvelope = {
-    data: EmergencyAlertCreateManyUserInput | EmergencyAlertCreateManyUserInput[]
-    skipDuplicates?: boolean
-  }
-
-  export type MedicineReminderCreateWithoutUserInput = {
-    id?: string
-    name: string
-    dosage: string
-    frequency: string
-    time: string
-    notes?: string | null
-    createdAt?: Date | string
-    isActive?: boolean
-    aiGenerated?: boolean
-  }
-
-  export type MedicineReminderUncheckedCreateWithoutUserInput = {
-    id?: string
-    name: string
-    dosage: string
-    frequency: string
-    time: string
-    notes?: string | null
-    createdAt?: Date | string
-    isActive?: boolean
-    aiGenerated?: boolean
-  }
-
-  export type MedicineReminderCreateOrConnectWithoutUserInput = {
-    where: MedicineReminderWhereUniqueInput
-    create: XOR<MedicineReminderCreateWithoutUserInput, MedicineReminderUncheckedCreateWithoutUserInput>
-  }
-
-  export type MedicineReminderCreateManyUserInputEnvelope = {
-    data: MedicineReminderCreateManyUserInput | MedicineReminderCreateManyUserInput[]
-    skipDuplicates?: boolean
-  }
-
-  export type AccountUpsertWithWhereUniqueWithoutUserInput = {
-    where: AccountWhereUniqueInput
-    update: XOR<AccountUpdateWithoutUserInput, AccountUncheckedUpdateWithoutUserInput>
-    create: XOR<AccountCreateWithoutUserInput, AccountUncheckedCreateWithoutUserInput>
-  }
-
-  export type AccountUpdateWithWhereUniqueWithoutUserInput = {
-    where: AccountWhereUniqueInput
-    data: XOR<AccountUpdateWithoutUserInput, AccountUncheckedUpdateWithoutUserInput>
-  }
-
-  export type AccountUpdateManyWithWhereWithoutUserInput = {
-    where: AccountScalarWhereInput
-    data: XOR<AccountUpdateManyMutationInput, AccountUncheckedUpdateManyWithoutUserInput>
-  }
-
-  export type AccountScalarWhereInput = {
-    AND?: AccountScalarWhereInput | AccountScalarWhereInput[]
-    OR?: AccountScalarWhereInput[]
-    NOT?: AccountScalarWhereInput | AccountScalarWhereInput[]
-    id?: StringFilter<"Account"> | string
-    userId?: StringFilter<"Account"> | string
-    type?: StringFilter<"Account"> | string
-    provider?: StringFilter<"Account"> | string
-    providerAccountId?: StringFilter<"Account"> | string
-    refresh_token?: StringNullableFilter<"Account"> | string | null
-    access_token?: StringNullableFilter<"Account"> | string | null
-    expires_at?: IntNullableFilter<"Account"> | number | null
-    token_type?: StringNullableFilter<"Account"> | string | null
-    scope?: StringNullableFilter<"Account"> | string | null
-    id_token?: StringNullableFilter<"Account"> | string | null
-    session_state?: StringNullableFilter<"Account"> | string | null
-  }
-
-  export type SessionUpsertWithWhereUniqueWithoutUserInput = {
-    where: SessionWhereUniqueInput
-    update: XOR<SessionUpdateWithoutUserInput, SessionUncheckedUpdateWithoutUserInput>
-    create: XOR<SessionCreateWithoutUserInput, SessionUncheckedCreateWithoutUserInput>
-  }
-
-  export type SessionUpdateWithWhereUniqueWithoutUserInput = {
-    where: SessionWhereUniqueInput
-    data: XOR<SessionUpdateWithoutUserInput, SessionUncheckedUpdateWithoutUserInput>
-  }
-
-  export type SessionUpdateManyWithWhereWithoutUserInput = {
-    where: SessionScalarWhereInput
-    data: XOR<SessionUpdateManyMutationInput, SessionUncheckedUpdateManyWithoutUserInput>
-  }
-
-  export type SessionScalarWhereInput = {
-    AND?: SessionScalarWhereInput | SessionScalarWhereInput[]
-    OR?: SessionScalarWhereInput[]
-    NOT?: SessionScalarWhereInput | SessionScalarWhereInput[]
-    id?: StringFilter<"Session"> | string
-    sessionToken?: StringFilter<"Session"> | string
-    userId?: StringFilter<"Session"> | string
-    expires?: DateTimeFilter<"Session"> | Date | string
-  }
-
-  export type AppointmentUpsertWithWhereUniqueWithoutUserInput = {
-    where: AppointmentWhereUniqueInput
-    update: XOR<AppointmentUpdateWithoutUserInput, AppointmentUncheckedUpdateWithoutUserInput>
-    create: XOR<AppointmentCreateWithoutUserInput, AppointmentUncheckedCreateWithoutUserInput>
-  }
-
-  export type AppointmentUpdateWithWhereUniqueWithoutUserInput = {
-    where: AppointmentWhereUniqueInput
-    data: XOR<AppointmentUpdateWithoutUserInput, AppointmentUncheckedUpdateWithoutUserInput>
-  }
-
-  export type AppointmentUpdateManyWithWhereWithoutUserInput = {
-    where: AppointmentScalarWhereInput
-    data: XOR<AppointmentUpdateManyMutationInput, AppointmentUncheckedUpdateManyWithoutUserInput>
-  }
-
-  export type AppointmentScalarWhereInput = {
-    AND?: AppointmentScalarWhereInput | AppointmentScalarWhereInput[]
-    OR?: AppointmentScalarWhereInput[]
-    NOT?: AppointmentScalarWhereInput | AppointmentScalarWhereInput[]
-    id?: StringFilter<"Appointment"> | string
-    userId?: StringFilter<"Appointment"> | string
-    hospitalId?: StringFilter<"Appointment"> | string
-    doctorId?: StringNullableFilter<"Appointment"> | string | null
-    symptoms?: StringFilter<"Appointment"> | string
-    aiAnalysis?: StringNullableFilter<"Appointment"> | string | null
-    severity?: IntNullableFilter<"Appointment"> | number | null
-    status?: EnumAppointmentStatusFilter<"Appointment"> | $Enums.AppointmentStatus
-    preferredDate?: DateTimeFilter<"Appointment"> | Date | string
-    scheduledDate?: DateTimeNullableFilter<"Appointment"> | Date | string | null
-    createdAt?: DateTimeFilter<"Appointment"> | Date | string
-    updatedAt?: DateTimeFilter<"Appointment"> | Date | string
-  }
-
-  export type ReceiptUpsertWithWhereUniqueWithoutUserInput = {
-    where: ReceiptWhereUniqueInput
-    update: XOR<ReceiptUpdateWithoutUserInput, ReceiptUncheckedUpdateWithoutUserInput>
-    create: XOR<ReceiptCreateWithoutUserInput, ReceiptUncheckedCreateWithoutUserInput>
-  }
-
-  export type ReceiptUpdateWithWhereUniqueWithoutUserInput = {
-    where: ReceiptWhereUniqueInput
-    data: XOR<ReceiptUpdateWithoutUserInput, ReceiptUncheckedUpdateWithoutUserInput>
-  }
-
-  export type ReceiptUpdateManyWithWhereWithoutUserInput = {
-    where: ReceiptScalarWhereInput
-    data: XOR<ReceiptUpdateManyMutationInput, ReceiptUncheckedUpdateManyWithoutUserInput>
-  }
-
-  export type ReceiptScalarWhereInput = {
-    AND?: ReceiptScalarWhereInput | ReceiptScalarWhereInput[]
-    OR?: ReceiptScalarWhereInput[]
-    NOT?: ReceiptScalarWhereInput | ReceiptScalarWhereInput[]
-    id?: StringFilter<"Receipt"> | string
-    userId?: StringFilter<"Receipt"> | string
-    imageUrl?: StringFilter<"Receipt"> | string
-    uploatedAt?: DateTimeFilter<"Receipt"> | Date | string
-    processedAt?: DateTimeNullableFilter<"Receipt"> | Date | string | null
-    condition?: StringNullableFilter<"Receipt"> | string | null
-    severity?: IntNullableFilter<"Receipt"> | number | null
-    hospitalId?: StringNullableFilter<"Receipt"> | string | null
-    status?: EnumReceiptStatusFilter<"Receipt"> | $Enums.ReceiptStatus
-    queuePosition?: IntNullableFilter<"Receipt"> | number | null
-    aiAnalysis?: StringNullableFilter<"Receipt"> | string | null
-    doctorId?: StringNullableFilter<"Receipt"> | string | null
-  }
-
-  export type EmergencyAlertUpsertWithWhereUniqueWithoutUserInput = {
-    where: EmergencyAlertWhereUniqueInput
-    update: XOR<EmergencyAlertUpdateWithoutUserInput, EmergencyAlertUncheckedUpdateWithoutUserInput>
-    create: XOR<EmergencyAlertCreateWithoutUserInput, EmergencyAlertUncheckedCreateWithoutUserInput>
-  }
-
-  export type EmergencyAlertUpdateWithWhereUniqueWithoutUserInput = {
-    where: EmergencyAlertWhereUniqueInput
-    data: XOR<EmergencyAlertUpdateWithoutUserInput, EmergencyAlertUncheckedUpdateWithoutUserInput>
-  }
-
-  export type EmergencyAlertUpdateManyWithWhereWithoutUserInput = {
-    where: EmergencyAlertScalarWhereInput
-    data: XOR<EmergencyAlertUpdateManyMutationInput, EmergencyAlertUncheckedUpdateManyWithoutUserInput>
-  }
-
-  export type EmergencyAlertScalarWhereInput = {
-    AND?: EmergencyAlertScalarWhereInput | EmergencyAlertScalarWhereInput[]
-    OR?: EmergencyAlertScalarWhereInput[]
-    NOT?: EmergencyAlertScalarWhereInput | EmergencyAlertScalarWhereInput[]
-    id?: StringFilter<"EmergencyAlert"> | string
-    userId?: StringFilter<"EmergencyAlert"> | string
-    hospitalId?: StringFilter<"EmergencyAlert"> | string
-    status?: EnumEmergencyAlertStatusFilter<"EmergencyAlert"> | $Enums.EmergencyAlertStatus
-    patientInfo?: JsonFilter<"EmergencyAlert">
-    medicalHistory?: JsonFilter<"EmergencyAlert">
-    createdAt?: DateTimeFilter<"EmergencyAlert"> | Date | string
-    respondedAt?: DateTimeNullableFilter<"EmergencyAlert"> | Date | string | null
-    notes?: StringNullableFilter<"EmergencyAlert"> | string | null
-  }
-
-  export type MedicineReminderUpsertWithWhereUniqueWithoutUserInput = {
-    where: MedicineReminderWhereUniqueInput
-    update: XOR<MedicineReminderUpdateWithoutUserInput, MedicineReminderUncheckedUpdateWithoutUserInput>
-    create: XOR<MedicineReminderCreateWithoutUserInput, MedicineReminderUncheckedCreateWithoutUserInput>
-  }
-
-  export type MedicineReminderUpdateWithWhereUniqueWithoutUserInput = {
-    where: MedicineReminderWhereUniqueInput
-    data: XOR<MedicineReminderUpdateWithoutUserInput, MedicineReminderUncheckedUpdateWithoutUserInput>
-  }
-
-  export type MedicineReminderUpdateManyWithWhereWithoutUserInput = {
-    where: MedicineReminderScalarWhereInput
-    data: XOR<MedicineReminderUpdateManyMutationInput, MedicineReminderUncheckedUpdateManyWithoutUserInput>
-  }
-
-  export type MedicineReminderScalarWhereInput = {
-    AND?: MedicineReminderScalarWhereInput | MedicineReminderScalarWhereInput[]
-    OR?: MedicineReminderScalarWhereInput[]
-    NOT?: MedicineReminderScalarWhereInput | MedicineReminderScalarWhereInput[]
-    id?: StringFilter<"MedicineReminder"> | string
-    userId?: StringFilter<"MedicineReminder"> | string
-    name?: StringFilter<"MedicineReminder"> | string
-    dosage?: StringFilter<"MedicineReminder"> | string
-    frequency?: StringFilter<"MedicineReminder"> | string
-    time?: StringFilter<"MedicineReminder"> | string
-    notes?: StringNullableFilter<"MedicineReminder"> | string | null
-    createdAt?: DateTimeFilter<"MedicineReminder"> | Date | string
-    isActive?: BoolFilter<"MedicineReminder"> | boolean
-    aiGenerated?: BoolFilter<"MedicineReminder"> | boolean
-  }
-
-  export type DoctorCreateWithoutPatientsInput = {
-    id?: string
-    name: string
-    specialty: string
-    available?: boolean
-    hospital: HospitalCreateNestedOneWithoutDoctorsInput
-    appointments?: AppointmentCreateNestedManyWithoutDoctorInput
-  }
-
-  export type DoctorUncheckedCreateWithoutPatientsInput = {
-    id?: string
-    name: string
-    specialty: string
-    hospitalId: string
-    available?: boolean
-    appointments?: AppointmentUncheckedCreateNestedManyWithoutDoctorInput
-  }
-
-  export type DoctorCreateOrConnectWithoutPatientsInput = {
-    where: DoctorWhereUniqueInput
-    create: XOR<DoctorCreateWithoutPatientsInput, DoctorUncheckedCreateWithoutPatientsInput>
-  }
-
-  export type HospitalCreateWithoutReceiptsInput = {
-    id?: string
-    name: string
-    state: string
-    city?: string | null
-    address?: string | null
-    doctors?: DoctorCreateNestedManyWithoutHospitalInput
-    appointments?: AppointmentCreateNestedManyWithoutHospitalInput
-    emergencyAlerts?: EmergencyAlertCreateNestedManyWithoutHospitalInput
-  }
-
-  export type HospitalUncheckedCreateWithoutReceiptsInput = {
-    id?: string
-    name: string
-    state: string
-    city?: string | null
-    address?: string | null
-    doctors?: DoctorUncheckedCreateNestedManyWithoutHospitalInput
-    appointments?: AppointmentUncheckedCreateNestedManyWithoutHospitalInput
-    emergencyAlerts?: EmergencyAlertUncheckedCreateNestedManyWithoutHospitalInput
-  }
-
-  export type HospitalCreateOrConnectWithoutReceiptsInput = {
-    where: HospitalWhereUniqueInput
-    create: XOR<HospitalCreateWithoutReceiptsInput, HospitalUncheckedCreateWithoutReceiptsInput>
-  }
-
-  export type UserCreateWithoutReceiptsInput = {
-    id?: string
-    name?: string | null
-    email?: string | null
-    emailVerified?: Date | string | null
-    image?: string | null
-    role?: $Enums.UserRole
-    state?: string | null
-    hospital?: string | null
-    address?: string | null
-    dateOfBirth?: Date | string | null
-    gender?: string | null
-    phone?: string | null
-    city?: string | null
-    pincode?: string | null
-    accounts?: AccountCreateNestedManyWithoutUserInput
-    sessions?: SessionCreateNestedManyWithoutUserInput
-    appointments?: AppointmentCreateNestedManyWithoutUserInput
-    emergencyAlerts?: EmergencyAlertCreateNestedManyWithoutUserInput
-    medicineReminders?: MedicineReminderCreateNestedManyWithoutUserInput
-  }
-
-  export type UserUncheckedCreateWithoutReceiptsInput = {
-    id?: string
-    name?: string | null
-    email?: string | null
-    emailVerified?: Date | string | null
-    image?: string | null
-    role?: $Enums.UserRole
-    state?: string | null
-    hospital?: string | null
-    address?: string | null
-    dateOfBirth?: Date | string | null
-    gender?: string | null
-    phone?: string | null
-    city?: string | null
-    pincode?: string | null
-    accounts?: AccountUncheckedCreateNestedManyWithoutUserInput
-    sessions?: SessionUncheckedCreateNestedManyWithoutUserInput
-    appointments?: AppointmentUncheckedCreateNestedManyWithoutUserInput
-    emergencyAlerts?: EmergencyAlertUncheckedCreateNestedManyWithoutUserInput
-    medicineReminders?: MedicineReminderUncheckedCreateNestedManyWithoutUserInput
-  }
-
-  export type UserCreateOrConnectWithoutReceiptsInput = {
-    where: UserWhereUniqueInput
-    create: XOR<UserCreateWithoutReceiptsInput, UserUncheckedCreateWithoutReceiptsInput>
-  }
-
-  export type DoctorUpsertWithoutPatientsInput = {
-    update: XOR<DoctorUpdateWithoutPatientsInput, DoctorUncheckedUpdateWithoutPatientsInput>
-    create: XOR<DoctorCreateWithoutPatientsInput, DoctorUncheckedCreateWithoutPatientsInput>
-    where?: DoctorWhereInput
-  }
-
-  export type DoctorUpdateToOneWithWhereWithoutPatientsInput = {
-    where?: DoctorWhereInput
-    data: XOR<DoctorUpdateWithoutPatientsInput, DoctorUncheckedUpdateWithoutPatientsInput>
-  }
-
-  export type DoctorUpdateWithoutPatientsInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    name?: StringFieldUpdateOperationsInput | string
-    specialty?: StringFieldUpdateOperationsInput | string
-    available?: BoolFieldUpdateOperationsInput | boolean
-    hospital?: HospitalUpdateOneRequiredWithoutDoctorsNestedInput
-    appointments?: AppointmentUpdateManyWithoutDoctorNestedInput
-  }
-
-  export type DoctorUncheckedUpdateWithoutPatientsInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    name?: StringFieldUpdateOperationsInput | string
-    specialty?: StringFieldUpdateOperationsInput | string
-    hospitalId?: StringFieldUpdateOperationsInput | string
-    available?: BoolFieldUpdateOperationsInput | boolean
-    appointments?: AppointmentUncheckedUpdateManyWithoutDoctorNestedInput
-  }
-
-  export type HospitalUpsertWithoutReceiptsInput = {
-    update: XOR<HospitalUpdateWithoutReceiptsInput, HospitalUncheckedUpdateWithoutReceiptsInput>
-    create: XOR<HospitalCreateWithoutReceiptsInput, HospitalUncheckedCreateWithoutReceiptsInput>
-    where?: HospitalWhereInput
-  }
-
-  export type HospitalUpdateToOneWithWhereWithoutReceiptsInput = {
-    where?: HospitalWhereInput
-    data: XOR<HospitalUpdateWithoutReceiptsInput, HospitalUncheckedUpdateWithoutReceiptsInput>
-  }
-
-  export type HospitalUpdateWithoutReceiptsInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    name?: StringFieldUpdateOperationsInput | string
-    state?: StringFieldUpdateOperationsInput | string
-    city?: NullableStringFieldUpdateOperationsInput | string | null
-    address?: NullableStringFieldUpdateOperationsInput | string | null
-    doctors?: DoctorUpdateManyWithoutHospitalNestedInput
-    appointments?: AppointmentUpdateManyWithoutHospitalNestedInput
-    emergencyAlerts?: EmergencyAlertUpdateManyWithoutHospitalNestedInput
-  }
-
-  export type HospitalUncheckedUpdateWithoutReceiptsInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    name?: StringFieldUpdateOperationsInput | string
-    state?: StringFieldUpdateOperationsInput | string
-    city?: NullableStringFieldUpdateOperationsInput | string | null
-    address?: NullableStringFieldUpdateOperationsInput | string | null
-    doctors?: DoctorUncheckedUpdateManyWithoutHospitalNestedInput
-    appointments?: AppointmentUncheckedUpdateManyWithoutHospitalNestedInput
-    emergencyAlerts?: EmergencyAlertUncheckedUpdateManyWithoutHospitalNestedInput
-  }
-
-  export type UserUpsertWithoutReceiptsInput = {
-    update: XOR<UserUpdateWithoutReceiptsInput, UserUncheckedUpdateWithoutReceiptsInput>
-    create: XOR<UserCreateWithoutReceiptsInput, UserUncheckedCreateWithoutReceiptsInput>
-    where?: UserWhereInput
-  }
-
-  export type UserUpdateToOneWithWhereWithoutReceiptsInput = {
-    where?: UserWhereInput
-    data: XOR<UserUpdateWithoutReceiptsInput, UserUncheckedUpdateWithoutReceiptsInput>
-  }
-
-  export type UserUpdateWithoutReceiptsInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    name?: NullableStringFieldUpdateOperationsInput | string | null
-    email?: NullableStringFieldUpdateOperationsInput | string | null
-    emailVerified?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    image?: NullableStringFieldUpdateOperationsInput | string | null
-    role?: EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
-    state?: NullableStringFieldUpdateOperationsInput | string | null
-    hospital?: NullableStringFieldUpdateOperationsInput | string | null
-    address?: NullableStringFieldUpdateOperationsInput | string | null
-    dateOfBirth?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    gender?: NullableStringFieldUpdateOperationsInput | string | null
-    phone?: NullableStringFieldUpdateOperationsInput | string | null
-    city?: NullableStringFieldUpdateOperationsInput | string | null
-    pincode?: NullableStringFieldUpdateOperationsInput | string | null
-    accounts?: AccountUpdateManyWithoutUserNestedInput
-    sessions?: SessionUpdateManyWithoutUserNestedInput
-    appointments?: AppointmentUpdateManyWithoutUserNestedInput
-    emergencyAlerts?: EmergencyAlertUpdateManyWithoutUserNestedInput
-    medicineReminders?: MedicineReminderUpdateManyWithoutUserNestedInput
-  }
-
-  export type UserUncheckedUpdateWithoutReceiptsInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    name?: NullableStringFieldUpdateOperationsInput | string | null
-    email?: NullableStringFieldUpdateOperationsInput | string | null
-    emailVerified?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    image?: NullableStringFieldUpdateOperationsInput | string | null
-    role?: EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
-    state?: NullableStringFieldUpdateOperationsInput | string | null
-    hospital?: NullableStringFieldUpdateOperationsInput | string | null
-    address?: NullableStringFieldUpdateOperationsInput | string | null
-    dateOfBirth?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    gender?: NullableStringFieldUpdateOperationsInput | string | null
-    phone?: NullableStringFieldUpdateOperationsInput | string | null
-    city?: NullableStringFieldUpdateOperationsInput | string | null
-    pincode?: NullableStringFieldUpdateOperationsInput | string | null
-    accounts?: AccountUncheckedUpdateManyWithoutUserNestedInput
-    sessions?: SessionUncheckedUpdateManyWithoutUserNestedInput
-    appointments?: AppointmentUncheckedUpdateManyWithoutUserNestedInput
-    emergencyAlerts?: EmergencyAlertUncheckedUpdateManyWithoutUserNestedInput
-    medicineReminders?: MedicineReminderUncheckedUpdateManyWithoutUserNestedInput
-  }
-
-  export type DoctorCreateWithoutHospitalInput = {
-    id?: string
-    name: string
-    specialty: string
-    available?: boolean
-    patients?: ReceiptCreateNestedManyWithoutDoctorInput
-    appointments?: AppointmentCreateNestedManyWithoutDoctorInput
-  }
-
-  export type DoctorUncheckedCreateWithoutHospitalInput = {
-    id?: string
-    name: string
-    specialty: string
-    available?: boolean
-    patients?: ReceiptUncheckedCreateNestedManyWithoutDoctorInput
-    appointments?: AppointmentUncheckedCreateNestedManyWithoutDoctorInput
-  }
-
-  export type DoctorCreateOrConnectWithoutHospitalInput = {
-    where: DoctorWhereUniqueInput
-    create: XOR<DoctorCreateWithoutHospitalInput, DoctorUncheckedCreateWithoutHospitalInput>
-  }
-
-  export type DoctorCreateManyHospitalInputEnvelope = {
-    data: DoctorCreateManyHospitalInput | DoctorCreateManyHospitalInput[]
-    skipDuplicates?: boolean
-  }
-
-  export type ReceiptCreateWithoutHospitalInput = {
-    id?: string
-    imageUrl: string
-    uploatedAt?: Date | string
-    processedAt?: Date | string | null
-    condition?: string | null
-    severity?: number | null
-    status?: $Enums.ReceiptStatus
-    queuePosition?: number | null
-    aiAnalysis?: string | null
-    doctor?: DoctorCreateNestedOneWithoutPatientsInput
-    user: UserCreateNestedOneWithoutReceiptsInput
-  }
-
-  export type ReceiptUncheckedCreateWithoutHospitalInput = {
-    id?: string
-    userId: string
-    imageUrl: string
-    uploatedAt?: Date | string
-    processedAt?: Date | string | null
-    condition?: string | null
-    severity?: number | null
-    status?: $Enums.ReceiptStatus
-    queuePosition?: number | null
-    aiAnalysis?: string | null
-    doctorId?: string | null
-  }
-
-  export type ReceiptCreateOrConnectWithoutHospitalInput = {
-    where: ReceiptWhereUniqueInput
-    create: XOR<ReceiptCreateWithoutHospitalInput, ReceiptUncheckedCreateWithoutHospitalInput>
-  }
-
-  export type ReceiptCreateManyHospitalInputEnvelope = {
-    data: ReceiptCreateManyHospitalInput | ReceiptCreateManyHospitalInput[]
-    skipDuplicates?: boolean
-  }
-
-  export type AppointmentCreateWithoutHospitalInput = {
-    id?: string
-    symptoms: string
-    aiAnalysis?: string | null
-    severity?: number | null
-    status?: $Enums.AppointmentStatus
-    preferredDate: Date | string
-    scheduledDate?: Date | string | null
-    createdAt?: Date | string
-    updatedAt?: Date | string
-    user: UserCreateNestedOneWithoutAppointmentsInput
-    doctor?: DoctorCreateNestedOneWithoutAppointmentsInput
-  }
-
-  export type AppointmentUncheckedCreateWithoutHospitalInput = {
-    id?: string
-    userId: string
-    doctorId?: string | null
-    symptoms: string
-    aiAnalysis?: string | null
-    severity?: number | null
-    status?: $Enums.AppointmentStatus
-    preferredDate: Date | string
-    scheduledDate?: Date | string | null
-    createdAt?: Date | string
-    updatedAt?: Date | string
-  }
-
-  export type AppointmentCreateOrConnectWithoutHospitalInput = {
-    where: AppointmentWhereUniqueInput
-    create: XOR<AppointmentCreateWithoutHospitalInput, AppointmentUncheckedCreateWithoutHospitalInput>
-  }
-
-  export type AppointmentCreateManyHospitalInputEnvelope = {
-    data: AppointmentCreateManyHospitalInput | AppointmentCreateManyHospitalInput[]
-    skipDuplicates?: boolean
-  }
-
-  export type EmergencyAlertCreateWithoutHospitalInput = {
-    id?: string
-    status?: $Enums.EmergencyAlertStatus
-    patientInfo: JsonNullValueInput | InputJsonValue
-    medicalHistory: JsonNullValueInput | InputJsonValue
-    createdAt?: Date | string
-    respondedAt?: Date | string | null
-    notes?: string | null
-    user: UserCreateNestedOneWithoutEmergencyAlertsInput
-  }
-
-  export type EmergencyAlertUncheckedCreateWithoutHospitalInput = {
-    id?: string
-    userId: string
-    status?: $Enums.EmergencyAlertStatus
-    patientInfo: JsonNullValueInput | InputJsonValue
-    medicalHistory: JsonNullValueInput | InputJsonValue
-    createdAt?: Date | string
-    respondedAt?: Date | string | null
-    notes?: string | null
-  }
-
-  export type EmergencyAlertCreateOrConnectWithoutHospitalInput = {
-    where: EmergencyAlertWhereUniqueInput
-    create: XOR<EmergencyAlertCreateWithoutHospitalInput, EmergencyAlertUncheckedCreateWithoutHospitalInput>
-  }
-
-  export type EmergencyAlertCreateManyHospitalInputEnvelope = {
-    data: EmergencyAlertCreateManyHospitalInput | EmergencyAlertCreateManyHospitalInput[]
-    skipDuplicates?: boolean
-  }
-
-  export type DoctorUpsertWithWhereUniqueWithoutHospitalInput = {
-    where: DoctorWhereUniqueInput
-    update: XOR<DoctorUpdateWithoutHospitalInput, DoctorUncheckedUpdateWithoutHospitalInput>
-    create: XOR<DoctorCreateWithoutHospitalInput, DoctorUncheckedCreateWithoutHospitalInput>
-  }
-
-  export type DoctorUpdateWithWhereUniqueWithoutHospitalInput = {
-    where: DoctorWhereUniqueInput
-    data: XOR<DoctorUpdateWithoutHospitalInput, DoctorUncheckedUpdateWithoutHospitalInput>
-  }
-
-  export type DoctorUpdateManyWithWhereWithoutHospitalInput = {
-    where: DoctorScalarWhereInput
-    data: XOR<DoctorUpdateManyMutationInput, DoctorUncheckedUpdateManyWithoutHospitalInput>
-  }
-
-  export type DoctorScalarWhereInput = {
-    AND?: DoctorScalarWhereInput | DoctorScalarWhereInput[]
-    OR?: DoctorScalarWhereInput[]
-    NOT?: DoctorScalarWhereInput | DoctorScalarWhereInput[]
-    id?: StringFilter<"Doctor"> | string
-    name?: StringFilter<"Doctor"> | string
-    specialty?: StringFilter<"Doctor"> | string
-    hospitalId?: StringFilter<"Doctor"> | string
-    available?: BoolFilter<"Doctor"> | boolean
-  }
-
-  export type ReceiptUpsertWithWhereUniqueWithoutHospitalInput = {
-    where: ReceiptWhereUniqueInput
-    update: XOR<ReceiptUpdateWithoutHospitalInput, ReceiptUncheckedUpdateWithoutHospitalInput>
-    create: XOR<ReceiptCreateWithoutHospitalInput, ReceiptUncheckedCreateWithoutHospitalInput>
-  }
-
-  export type ReceiptUpdateWithWhereUniqueWithoutHospitalInput = {
-    where: ReceiptWhereUniqueInput
-    data: XOR<ReceiptUpdateWithoutHospitalInput, ReceiptUncheckedUpdateWithoutHospitalInput>
-  }
-
-  export type ReceiptUpdateManyWithWhereWithoutHospitalInput = {
-    where: ReceiptScalarWhereInput
-    data: XOR<ReceiptUpdateManyMutationInput, ReceiptUncheckedUpdateManyWithoutHospitalInput>
-  }
-
-  export type AppointmentUpsertWithWhereUniqueWithoutHospitalInput = {
-    where: AppointmentWhereUniqueInput
-    update: XOR<AppointmentUpdateWithoutHospitalInput, AppointmentUncheckedUpdateWithoutHospitalInput>
-    create: XOR<AppointmentCreateWithoutHospitalInput, AppointmentUncheckedCreateWithoutHospitalInput>
-  }
-
-  export type AppointmentUpdateWithWhereUniqueWithoutHospitalInput = {
-    where: AppointmentWhereUniqueInput
-    data: XOR<AppointmentUpdateWithoutHospitalInput, AppointmentUncheckedUpdateWithoutHospitalInput>
-  }
-
-  export type AppointmentUpdateManyWithWhereWithoutHospitalInput = {
-    where: AppointmentScalarWhereInput
-    data: XOR<AppointmentUpdateManyMutationInput, AppointmentUncheckedUpdateManyWithoutHospitalInput>
-  }
-
-  export type EmergencyAlertUpsertWithWhereUniqueWithoutHospitalInput = {
-    where: EmergencyAlertWhereUniqueInput
-    update: XOR<EmergencyAlertUpdateWithoutHospitalInput, EmergencyAlertUncheckedUpdateWithoutHospitalInput>
-    create: XOR<EmergencyAlertCreateWithoutHospitalInput, EmergencyAlertUncheckedCreateWithoutHospitalInput>
-  }
-
-  export type EmergencyAlertUpdateWithWhereUniqueWithoutHospitalInput = {
-    where: EmergencyAlertWhereUniqueInput
-    data: XOR<EmergencyAlertUpdateWithoutHospitalInput, EmergencyAlertUncheckedUpdateWithoutHospitalInput>
-  }
-
-  export type EmergencyAlertUpdateManyWithWhereWithoutHospitalInput = {
-    where: EmergencyAlertScalarWhereInput
-    data: XOR<EmergencyAlertUpdateManyMutationInput, EmergencyAlertUncheckedUpdateManyWithoutHospitalInput>
-  }
-
-  export type HospitalCreateWithoutDoctorsInput = {
-    id?: string
-    name: string
-    state: string
-    city?: string | null
-    address?: string | null
-    receipts?: ReceiptCreateNestedManyWithoutHospitalInput
-    appointments?: AppointmentCreateNestedManyWithoutHospitalInput
-    emergencyAlerts?: EmergencyAlertCreateNestedManyWithoutHospitalInput
-  }
-
-  export type HospitalUncheckedCreateWithoutDoctorsInput = {
-    id?: string
-    name: string
-    state: string
-    city?: string | null
-    address?: string | null
-    receipts?: ReceiptUncheckedCreateNestedManyWithoutHospitalInput
-    appointments?: AppointmentUncheckedCreateNestedManyWithoutHospitalInput
-    emergencyAlerts?: EmergencyAlertUncheckedCreateNestedManyWithoutHospitalInput
-  }
-
-  export type HospitalCreateOrConnectWithoutDoctorsInput = {
-    where: HospitalWhereUniqueInput
-    create: XOR<HospitalCreateWithoutDoctorsInput, HospitalUncheckedCreateWithoutDoctorsInput>
-  }
-
-  export type ReceiptCreateWithoutDoctorInput = {
-    id?: string
-    imageUrl: string
-    uploatedAt?: Date | string
-    processedAt?: Date | string | null
-    condition?: string | null
-    severity?: number | null
-    status?: $Enums.ReceiptStatus
-    queuePosition?: number | null
-    aiAnalysis?: string | null
-    hospital?: HospitalCreateNestedOneWithoutReceiptsInput
-    user: UserCreateNestedOneWithoutReceiptsInput
-  }
-
-  export type ReceiptUncheckedCreateWithoutDoctorInput = {
-    id?: string
-    userId: string
-    imageUrl: string
-    uploatedAt?: Date | string
-    processedAt?: Date | string | null
-    condition?: string | null
-    severity?: number | null
-    hospitalId?: string | null
-    status?: $Enums.ReceiptStatus
-    queuePosition?: number | null
-    aiAnalysis?: string | null
-  }
-
-  export type ReceiptCreateOrConnectWithoutDoctorInput = {
-    where: ReceiptWhereUniqueInput
-    create: XOR<ReceiptCreateWithoutDoctorInput, ReceiptUncheckedCreateWithoutDoctorInput>
-  }
-
-  export type ReceiptCreateManyDoctorInputEnvelope = {
-    data: ReceiptCreateManyDoctorInput | ReceiptCreateManyDoctorInput[]
-    skipDuplicates?: boolean
-  }
-
-  export type AppointmentCreateWithoutDoctorInput = {
-    id?: string
-    symptoms: string
-    aiAnalysis?: string | null
-    severity?: number | null
-    status?: $Enums.AppointmentStatus
-    preferredDate: Date | string
-    scheduledDate?: Date | string | null
-    createdAt?: Date | string
-    updatedAt?: Date | string
-    user: UserCreateNestedOneWithoutAppointmentsInput
-    hospital: HospitalCreateNestedOneWithoutAppointmentsInput
-  }
-
-  export type AppointmentUncheckedCreateWithoutDoctorInput = {
-    id?: string
-    userId: string
-    hospitalId: string
-    symptoms: string
-    aiAnalysis?: string | null
-    severity?: number | null
-    status?: $Enums.AppointmentStatus
-    preferredDate: Date | string
-    scheduledDate?: Date | string | null
-    createdAt?: Date | string
-    updatedAt?: Date | string
-  }
-
-  export type AppointmentCreateOrConnectWithoutDoctorInput = {
-    where: AppointmentWhereUniqueInput
-    create: XOR<AppointmentCreateWithoutDoctorInput, AppointmentUncheckedCreateWithoutDoctorInput>
-  }
-
-  export type AppointmentCreateManyDoctorInputEnvelope = {
-    data: AppointmentCreateManyDoctorInput | AppointmentCreateManyDoctorInput[]
-    skipDuplicates?: boolean
-  }
-
-  export type HospitalUpsertWithoutDoctorsInput = {
-    update: XOR<HospitalUpdateWithoutDoctorsInput, HospitalUncheckedUpdateWithoutDoctorsInput>
-    create: XOR<HospitalCreateWithoutDoctorsInput, HospitalUncheckedCreateWithoutDoctorsInput>
-    where?: HospitalWhereInput
-  }
-
-  export type HospitalUpdateToOneWithWhereWithoutDoctorsInput = {
-    where?: HospitalWhereInput
-    data: XOR<HospitalUpdateWithoutDoctorsInput, HospitalUncheckedUpdateWithoutDoctorsInput>
-  }
-
-  export type HospitalUpdateWithoutDoctorsInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    name?: StringFieldUpdateOperationsInput | string
-    state?: StringFieldUpdateOperationsInput | string
-    city?: NullableStringFieldUpdateOperationsInput | string | null
-    address?: NullableStringFieldUpdateOperationsInput | string | null
-    receipts?: ReceiptUpdateManyWithoutHospitalNestedInput
-    appointments?: AppointmentUpdateManyWithoutHospitalNestedInput
-    emergencyAlerts?: EmergencyAlertUpdateManyWithoutHospitalNestedInput
-  }
-
-  export type HospitalUncheckedUpdateWithoutDoctorsInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    name?: StringFieldUpdateOperationsInput | string
-    state?: StringFieldUpdateOperationsInput | string
-    city?: NullableStringFieldUpdateOperationsInput | string | null
-    address?: NullableStringFieldUpdateOperationsInput | string | null
-    receipts?: ReceiptUncheckedUpdateManyWithoutHospitalNestedInput
-    appointments?: AppointmentUncheckedUpdateManyWithoutHospitalNestedInput
-    emergencyAlerts?: EmergencyAlertUncheckedUpdateManyWithoutHospitalNestedInput
-  }
-
-  export type ReceiptUpsertWithWhereUniqueWithoutDoctorInput = {
-    where: ReceiptWhereUniqueInput
-    update: XOR<ReceiptUpdateWithoutDoctorInput, ReceiptUncheckedUpdateWithoutDoctorInput>
-    create: XOR<ReceiptCreateWithoutDoctorInput, ReceiptUncheckedCreateWithoutDoctorInput>
-  }
-
-  export type ReceiptUpdateWithWhereUniqueWithoutDoctorInput = {
-    where: ReceiptWhereUniqueInput
-    data: XOR<ReceiptUpdateWithoutDoctorInput, ReceiptUncheckedUpdateWithoutDoctorInput>
-  }
-
-  export type ReceiptUpdateManyWithWhereWithoutDoctorInput = {
-    where: ReceiptScalarWhereInput
-    data: XOR<ReceiptUpdateManyMutationInput, ReceiptUncheckedUpdateManyWithoutDoctorInput>
-  }
-
-  export type AppointmentUpsertWithWhereUniqueWithoutDoctorInput = {
-    where: AppointmentWhereUniqueInput
-    update: XOR<AppointmentUpdateWithoutDoctorInput, AppointmentUncheckedUpdateWithoutDoctorInput>
-    create: XOR<AppointmentCreateWithoutDoctorInput, AppointmentUncheckedCreateWithoutDoctorInput>
-  }
-
-  export type AppointmentUpdateWithWhereUniqueWithoutDoctorInput = {
-    where: AppointmentWhereUniqueInput
-    data: XOR<AppointmentUpdateWithoutDoctorInput, AppointmentUncheckedUpdateWithoutDoctorInput>
-  }
-
-  export type AppointmentUpdateManyWithWhereWithoutDoctorInput = {
-    where: AppointmentScalarWhereInput
-    data: XOR<AppointmentUpdateManyMutationInput, AppointmentUncheckedUpdateManyWithoutDoctorInput>
-  }
-
-  export type UserCreateWithoutAppointmentsInput = {
-    id?: string
-    name?: string | null
-    email?: string | null
-    emailVerified?: Date | string | null
-    image?: string | null
-    role?: $Enums.UserRole
-    state?: string | null
-    hospital?: string | null
-    address?: string | null
-    dateOfBirth?: Date | string | null
-    gender?: string | null
-    phone?: string | null
-    city?: string | null
-    pincode?: string | null
-    accounts?: AccountCreateNestedManyWithoutUserInput
-    sessions?: SessionCreateNestedManyWithoutUserInput
-    receipts?: ReceiptCreateNestedManyWithoutUserInput
-    emergencyAlerts?: EmergencyAlertCreateNestedManyWithoutUserInput
-    medicineReminders?: MedicineReminderCreateNestedManyWithoutUserInput
-  }
-
-  export type UserUncheckedCreateWithoutAppointmentsInput = {
-    id?: string
-    name?: string | null
-    email?: string | null
-    emailVerified?: Date | string | null
-    image?: string | null
-    role?: $Enums.UserRole
-    state?: string | null
-    hospital?: string | null
-    address?: string | null
-    dateOfBirth?: Date | string | null
-    gender?: string | null
-    phone?: string | null
-    city?: string | null
-    pincode?: string | null
-    accounts?: AccountUncheckedCreateNestedManyWithoutUserInput
-    sessions?: SessionUncheckedCreateNestedManyWithoutUserInput
-    receipts?: ReceiptUncheckedCreateNestedManyWithoutUserInput
-    emergencyAlerts?: EmergencyAlertUncheckedCreateNestedManyWithoutUserInput
-    medicineReminders?: MedicineReminderUncheckedCreateNestedManyWithoutUserInput
-  }
-
-  export type UserCreateOrConnectWithoutAppointmentsInput = {
-    where: UserWhereUniqueInput
-    create: XOR<UserCreateWithoutAppointmentsInput, UserUncheckedCreateWithoutAppointmentsInput>
-  }
-
-  export type HospitalCreateWithoutAppointmentsInput = {
-    id?: string
-    name: string
-    state: string
-    city?: string | null
-    address?: string | null
-    doctors?: DoctorCreateNestedManyWithoutHospitalInput
-    receipts?: ReceiptCreateNestedManyWithoutHospitalInput
-    emergencyAlerts?: EmergencyAlertCreateNestedManyWithoutHospitalInput
-  }
-
-  export type HospitalUncheckedCreateWithoutAppointmentsInput = {
-    id?: string
-    name: string
-    state: string
-    city?: string | null
-    address?: string | null
-    doctors?: DoctorUncheckedCreateNestedManyWithoutHospitalInput
-    receipts?: ReceiptUncheckedCreateNestedManyWithoutHospitalInput
-    emergencyAlerts?: EmergencyAlertUncheckedCreateNestedManyWithoutHospitalInput
-  }
-
-  export type HospitalCreateOrConnectWithoutAppointmentsInput = {
-    where: HospitalWhereUniqueInput
-    create: XOR<HospitalCreateWithoutAppointmentsInput, HospitalUncheckedCreateWithoutAppointmentsInput>
-  }
-
-  export type DoctorCreateWithoutAppointmentsInput = {
-    id?: string
-    name: string
-    specialty: string
-    available?: boolean
-    hospital: HospitalCreateNestedOneWithoutDoctorsInput
-    patients?: ReceiptCreateNestedManyWithoutDoctorInput
-  }
-
-  export type DoctorUncheckedCreateWithoutAppointmentsInput = {
-    id?: string
-    name: string
-    specialty: string
-    hospitalId: string
-    available?: boolean
-    patients?: ReceiptUncheckedCreateNestedManyWithoutDoctorInput
-  }
-
-  export type DoctorCreateOrConnectWithoutAppointmentsInput = {
-    where: DoctorWhereUniqueInput
-    create: XOR<DoctorCreateWithoutAppointmentsInput, DoctorUncheckedCreateWithoutAppointmentsInput>
-  }
-
-  export type UserUpsertWithoutAppointmentsInput = {
-    update: XOR<UserUpdateWithoutAppointmentsInput, UserUncheckedUpdateWithoutAppointmentsInput>
-    create: XOR<UserCreateWithoutAppointmentsInput, UserUncheckedCreateWithoutAppointmentsInput>
-    where?: UserWhereInput
-  }
-
-  export type UserUpdateToOneWithWhereWithoutAppointmentsInput = {
-    where?: UserWhereInput
-    data: XOR<UserUpdateWithoutAppointmentsInput, UserUncheckedUpdateWithoutAppointmentsInput>
-  }
-
-  export type UserUpdateWithoutAppointmentsInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    name?: NullableStringFieldUpdateOperationsInput | string | null
-    email?: NullableStringFieldUpdateOperationsInput | string | null
-    emailVerified?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    image?: NullableStringFieldUpdateOperationsInput | string | null
-    role?: EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
-    state?: NullableStringFieldUpdateOperationsInput | string | null
-    hospital?: NullableStringFieldUpdateOperationsInput | string | null
-    address?: NullableStringFieldUpdateOperationsInput | string | null
-    dateOfBirth?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    gender?: NullableStringFieldUpdateOperationsInput | string | null
-    phone?: NullableStringFieldUpdateOperationsInput | string | null
-    city?: NullableStringFieldUpdateOperationsInput | string | null
-    pincode?: NullableStringFieldUpdateOperationsInput | string | null
-    accounts?: AccountUpdateManyWithoutUserNestedInput
-    sessions?: SessionUpdateManyWithoutUserNestedInput
-    receipts?: ReceiptUpdateManyWithoutUserNestedInput
-    emergencyAlerts?: EmergencyAlertUpdateManyWithoutUserNestedInput
-    medicineReminders?: MedicineReminderUpdateManyWithoutUserNestedInput
-  }
-
-  export type UserUncheckedUpdateWithoutAppointmentsInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    name?: NullableStringFieldUpdateOperationsInput | string | null
-    email?: NullableStringFieldUpdateOperationsInput | string | null
-    emailVerified?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    image?: NullableStringFieldUpdateOperationsInput | string | null
-    role?: EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
-    state?: NullableStringFieldUpdateOperationsInput | string | null
-    hospital?: NullableStringFieldUpdateOperationsInput | string | null
-    address?: NullableStringFieldUpdateOperationsInput | string | null
-    dateOfBirth?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    gender?: NullableStringFieldUpdateOperationsInput | string | null
-    phone?: NullableStringFieldUpdateOperationsInput | string | null
-    city?: NullableStringFieldUpdateOperationsInput | string | null
-    pincode?: NullableStringFieldUpdateOperationsInput | string | null
-    accounts?: AccountUncheckedUpdateManyWithoutUserNestedInput
-    sessions?: SessionUncheckedUpdateManyWithoutUserNestedInput
-    receipts?: ReceiptUncheckedUpdateManyWithoutUserNestedInput
-    emergencyAlerts?: EmergencyAlertUncheckedUpdateManyWithoutUserNestedInput
-    medicineReminders?: MedicineReminderUncheckedUpdateManyWithoutUserNestedInput
-  }
-
-  export type HospitalUpsertWithoutAppointmentsInput = {
-    update: XOR<HospitalUpdateWithoutAppointmentsInput, HospitalUncheckedUpdateWithoutAppointmentsInput>
-    create: XOR<HospitalCreateWithoutAppointmentsInput, HospitalUncheckedCreateWithoutAppointmentsInput>
-    where?: HospitalWhereInput
-  }
-
-  export type HospitalUpdateToOneWithWhereWithoutAppointmentsInput = {
-    where?: HospitalWhereInput
-    data: XOR<HospitalUpdateWithoutAppointmentsInput, HospitalUncheckedUpdateWithoutAppointmentsInput>
-  }
-
-  export type HospitalUpdateWithoutAppointmentsInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    name?: StringFieldUpdateOperationsInput | string
-    state?: StringFieldUpdateOperationsInput | string
-    city?: NullableStringFieldUpdateOperationsInput | string | null
-    address?: NullableStringFieldUpdateOperationsInput | string | null
-    doctors?: DoctorUpdateManyWithoutHospitalNestedInput
-    receipts?: ReceiptUpdateManyWithoutHospitalNestedInput
-    emergencyAlerts?: EmergencyAlertUpdateManyWithoutHospitalNestedInput
-  }
-
-  export type HospitalUncheckedUpdateWithoutAppointmentsInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    name?: StringFieldUpdateOperationsInput | string
-    state?: StringFieldUpdateOperationsInput | string
-    city?: NullableStringFieldUpdateOperationsInput | string | null
-    address?: NullableStringFieldUpdateOperationsInput | string | null
-    doctors?: DoctorUncheckedUpdateManyWithoutHospitalNestedInput
-    receipts?: ReceiptUncheckedUpdateManyWithoutHospitalNestedInput
-    emergencyAlerts?: EmergencyAlertUncheckedUpdateManyWithoutHospitalNestedInput
-  }
-
-  export type DoctorUpsertWithoutAppointmentsInput = {
-    update: XOR<DoctorUpdateWithoutAppointmentsInput, DoctorUncheckedUpdateWithoutAppointmentsInput>
-    create: XOR<DoctorCreateWithoutAppointmentsInput, DoctorUncheckedCreateWithoutAppointmentsInput>
-    where?: DoctorWhereInput
-  }
-
-  export type DoctorUpdateToOneWithWhereWithoutAppointmentsInput = {
-    where?: DoctorWhereInput
-    data: XOR<DoctorUpdateWithoutAppointmentsInput, DoctorUncheckedUpdateWithoutAppointmentsInput>
-  }
-
-  export type DoctorUpdateWithoutAppointmentsInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    name?: StringFieldUpdateOperationsInput | string
-    specialty?: StringFieldUpdateOperationsInput | string
-    available?: BoolFieldUpdateOperationsInput | boolean
-    hospital?: HospitalUpdateOneRequiredWithoutDoctorsNestedInput
-    patients?: ReceiptUpdateManyWithoutDoctorNestedInput
-  }
-
-  export type DoctorUncheckedUpdateWithoutAppointmentsInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    name?: StringFieldUpdateOperationsInput | string
-    specialty?: StringFieldUpdateOperationsInput | string
-    hospitalId?: StringFieldUpdateOperationsInput | string
-    available?: BoolFieldUpdateOperationsInput | boolean
-    patients?: ReceiptUncheckedUpdateManyWithoutDoctorNestedInput
-  }
-
-  export type UserCreateWithoutEmergencyAlertsInput = {
-    id?: string
-    name?: string | null
-    email?: string | null
-    emailVerified?: Date | string | null
-    image?: string | null
-    role?: $Enums.UserRole
-    state?: string | null
-    hospital?: string | null
-    address?: string | null
-    dateOfBirth?: Date | string | null
-    gender?: string | null
-    phone?: string | null
-    city?: string | null
-    pincode?: string | null
-    accounts?: AccountCreateNestedManyWithoutUserInput
-    sessions?: SessionCreateNestedManyWithoutUserInput
-    appointments?: AppointmentCreateNestedManyWithoutUserInput
-    receipts?: ReceiptCreateNestedManyWithoutUserInput
-    medicineReminders?: MedicineReminderCreateNestedManyWithoutUserInput
-  }
-
-  export type UserUncheckedCreateWithoutEmergencyAlertsInput = {
-    id?: string
-    name?: string | null
-    email?: string | null
-    emailVerified?: Date | string | null
-    image?: string | null
-    role?: $Enums.UserRole
-    state?: string | null
-    hospital?: string | null
-    address?: string | null
-    dateOfBirth?: Date | string | null
-    gender?: string | null
-    phone?: string | null
-    city?: string | null
-    pincode?: string | null
-    accounts?: AccountUncheckedCreateNestedManyWithoutUserInput
-    sessions?: SessionUncheckedCreateNestedManyWithoutUserInput
-    appointments?: AppointmentUncheckedCreateNestedManyWithoutUserInput
-    receipts?: ReceiptUncheckedCreateNestedManyWithoutUserInput
-    medicineReminders?: MedicineReminderUncheckedCreateNestedManyWithoutUserInput
-  }
-
-  export type UserCreateOrConnectWithoutEmergencyAlertsInput = {
-    where: UserWhereUniqueInput
-    create: XOR<UserCreateWithoutEmergencyAlertsInput, UserUncheckedCreateWithoutEmergencyAlertsInput>
-  }
-
-  export type HospitalCreateWithoutEmergencyAlertsInput = {
-    id?: string
-    name: string
-    state: string
-    city?: string | null
-    address?: string | null
-    doctors?: DoctorCreateNestedManyWithoutHospitalInput
-    receipts?: ReceiptCreateNestedManyWithoutHospitalInput
-    appointments?: AppointmentCreateNestedManyWithoutHospitalInput
-  }
-
-  export type HospitalUncheckedCreateWithoutEmergencyAlertsInput = {
-    id?: string
-    name: string
-    state: string
-    city?: string | null
-    address?: string | null
-    doctors?: DoctorUncheckedCreateNestedManyWithoutHospitalInput
-    receipts?: ReceiptUncheckedCreateNestedManyWithoutHospitalInput
-    appointments?: AppointmentUncheckedCreateNestedManyWithoutHospitalInput
-  }
-
-  export type HospitalCreateOrConnectWithoutEmergencyAlertsInput = {
-    where: HospitalWhereUniqueInput
-    create: XOR<HospitalCreateWithoutEmergencyAlertsInput, HospitalUncheckedCreateWithoutEmergencyAlertsInput>
-  }
-
-  export type UserUpsertWithoutEmergencyAlertsInput = {
-    update: XOR<UserUpdateWithoutEmergencyAlertsInput, UserUncheckedUpdateWithoutEmergencyAlertsInput>
-    create: XOR<UserCreateWithoutEmergencyAlertsInput, UserUncheckedCreateWithoutEmergencyAlertsInput>
-    where?: UserWhereInput
-  }
-
-  export type UserUpdateToOneWithWhereWithoutEmergencyAlertsInput = {
-    where?: UserWhereInput
-    data: XOR<UserUpdateWithoutEmergencyAlertsInput, UserUncheckedUpdateWithoutEmergencyAlertsInput>
-  }
-
-  export type UserUpdateWithoutEmergencyAlertsInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    name?: NullableStringFieldUpdateOperationsInput | string | null
-    email?: NullableStringFieldUpdateOperationsInput | string | null
-    emailVerified?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    image?: NullableStringFieldUpdateOperationsInput | string | null
-    role?: EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
-    state?: NullableStringFieldUpdateOperationsInput | string | null
-    hospital?: NullableStringFieldUpdateOperationsInput | string | null
-    address?: NullableStringFieldUpdateOperationsInput | string | null
-    dateOfBirth?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    gender?: NullableStringFieldUpdateOperationsInput | string | null
-    phone?: NullableStringFieldUpdateOperationsInput | string | null
-    city?: NullableStringFieldUpdateOperationsInput | string | null
-    pincode?: NullableStringFieldUpdateOperationsInput | string | null
-    accounts?: AccountUpdateManyWithoutUserNestedInput
-    sessions?: SessionUpdateManyWithoutUserNestedInput
-    appointments?: AppointmentUpdateManyWithoutUserNestedInput
-    receipts?: ReceiptUpdateManyWithoutUserNestedInput
-    medicineReminders?: MedicineReminderUpdateManyWithoutUserNestedInput
-  }
-
-  export type UserUncheckedUpdateWithoutEmergencyAlertsInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    name?: NullableStringFieldUpdateOperationsInput | string | null
-    email?: NullableStringFieldUpdateOperationsInput | string | null
-    emailVerified?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    image?: NullableStringFieldUpdateOperationsInput | string | null
-    role?: EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
-    state?: NullableStringFieldUpdateOperationsInput | string | null
-    hospital?: NullableStringFieldUpdateOperationsInput | string | null
-    address?: NullableStringFieldUpdateOperationsInput | string | null
-    dateOfBirth?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    gender?: NullableStringFieldUpdateOperationsInput | string | null
-    phone?: NullableStringFieldUpdateOperationsInput | string | null
-    city?: NullableStringFieldUpdateOperationsInput | string | null
-    pincode?: NullableStringFieldUpdateOperationsInput | string | null
-    accounts?: AccountUncheckedUpdateManyWithoutUserNestedInput
-    sessions?: SessionUncheckedUpdateManyWithoutUserNestedInput
-    appointments?: AppointmentUncheckedUpdateManyWithoutUserNestedInput
-    receipts?: ReceiptUncheckedUpdateManyWithoutUserNestedInput
-    medicineReminders?: MedicineReminderUncheckedUpdateManyWithoutUserNestedInput
-  }
-
-  export type HospitalUpsertWithoutEmergencyAlertsInput = {
-    update: XOR<HospitalUpdateWithoutEmergencyAlertsInput, HospitalUncheckedUpdateWithoutEmergencyAlertsInput>
-    create: XOR<HospitalCreateWithoutEmergencyAlertsInput, HospitalUncheckedCreateWithoutEmergencyAlertsInput>
-    where?: HospitalWhereInput
-  }
-
-  export type HospitalUpdateToOneWithWhereWithoutEmergencyAlertsInput = {
-    where?: HospitalWhereInput
-    data: XOR<HospitalUpdateWithoutEmergencyAlertsInput, HospitalUncheckedUpdateWithoutEmergencyAlertsInput>
-  }
-
-  export type HospitalUpdateWithoutEmergencyAlertsInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    name?: StringFieldUpdateOperationsInput | string
-    state?: StringFieldUpdateOperationsInput | string
-    city?: NullableStringFieldUpdateOperationsInput | string | null
-    address?: NullableStringFieldUpdateOperationsInput | string | null
-    doctors?: DoctorUpdateManyWithoutHospitalNestedInput
-    receipts?: ReceiptUpdateManyWithoutHospitalNestedInput
-    appointments?: AppointmentUpdateManyWithoutHospitalNestedInput
-  }
-
-  export type HospitalUncheckedUpdateWithoutEmergencyAlertsInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    name?: StringFieldUpdateOperationsInput | string
-    state?: StringFieldUpdateOperationsInput | string
-    city?: NullableStringFieldUpdateOperationsInput | string | null
-    address?: NullableStringFieldUpdateOperationsInput | string | null
-    doctors?: DoctorUncheckedUpdateManyWithoutHospitalNestedInput
-    receipts?: ReceiptUncheckedUpdateManyWithoutHospitalNestedInput
-    appointments?: AppointmentUncheckedUpdateManyWithoutHospitalNestedInput
-  }
-
-  export type UserCreateWithoutMedicineRemindersInput = {
-    id?: string
-    name?: string | null
-    email?: string | null
-    emailVerified?: Date | string | null
-    image?: string | null
-    role?: $Enums.UserRole
-    state?: string | null
-    hospital?: string | null
-    address?: string | null
-    dateOfBirth?: Date | string | null
-    gender?: string | null
-    phone?: string | null
-    city?: string | null
-    pincode?: string | null
-    accounts?: AccountCreateNestedManyWithoutUserInput
-    sessions?: SessionCreateNestedManyWithoutUserInput
-    appointments?: AppointmentCreateNestedManyWithoutUserInput
-    receipts?: ReceiptCreateNestedManyWithoutUserInput
-    emergencyAlerts?: EmergencyAlertCreateNestedManyWithoutUserInput
-  }
-
-  export type UserUncheckedCreateWithoutMedicineRemindersInput = {
-    id?: string
-    name?: string | null
-    email?: string | null
-    emailVerified?: Date | string | null
-    image?: string | null
-    role?: $Enums.UserRole
-    state?: string | null
-    hospital?: string | null
-    address?: string | null
-    dateOfBirth?: Date | string | null
-    gender?: string | null
-    phone?: string | null
-    city?: string | null
-    pincode?: string | null
-    accounts?: AccountUncheckedCreateNestedManyWithoutUserInput
-    sessions?: SessionUncheckedCreateNestedManyWithoutUserInput
-    appointments?: AppointmentUncheckedCreateNestedManyWithoutUserInput
-    receipts?: ReceiptUncheckedCreateNestedManyWithoutUserInput
-    emergencyAlerts?: EmergencyAlertUncheckedCreateNestedManyWithoutUserInput
-  }
-
-  export type UserCreateOrConnectWithoutMedicineRemindersInput = {
-    where: UserWhereUniqueInput
-    create: XOR<UserCreateWithoutMedicineRemindersInput, UserUncheckedCreateWithoutMedicineRemindersInput>
-  }
-
-  export type UserUpsertWithoutMedicineRemindersInput = {
-    update: XOR<UserUpdateWithoutMedicineRemindersInput, UserUncheckedUpdateWithoutMedicineRemindersInput>
-    create: XOR<UserCreateWithoutMedicineRemindersInput, UserUncheckedCreateWithoutMedicineRemindersInput>
-    where?: UserWhereInput
-  }
-
-  export type UserUpdateToOneWithWhereWithoutMedicineRemindersInput = {
-    where?: UserWhereInput
-    data: XOR<UserUpdateWithoutMedicineRemindersInput, UserUncheckedUpdateWithoutMedicineRemindersInput>
-  }
-
-  export type UserUpdateWithoutMedicineRemindersInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    name?: NullableStringFieldUpdateOperationsInput | string | null
-    email?: NullableStringFieldUpdateOperationsInput | string | null
-    emailVerified?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    image?: NullableStringFieldUpdateOperationsInput | string | null
-    role?: EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
-    state?: NullableStringFieldUpdateOperationsInput | string | null
-    hospital?: NullableStringFieldUpdateOperationsInput | string | null
-    address?: NullableStringFieldUpdateOperationsInput | string | null
-    dateOfBirth?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    gender?: NullableStringFieldUpdateOperationsInput | string | null
-    phone?: NullableStringFieldUpdateOperationsInput | string | null
-    city?: NullableStringFieldUpdateOperationsInput | string | null
-    pincode?: NullableStringFieldUpdateOperationsInput | string | null
-    accounts?: AccountUpdateManyWithoutUserNestedInput
-    sessions?: SessionUpdateManyWithoutUserNestedInput
-    appointments?: AppointmentUpdateManyWithoutUserNestedInput
-    receipts?: ReceiptUpdateManyWithoutUserNestedInput
-    emergencyAlerts?: EmergencyAlertUpdateManyWithoutUserNestedInput
-  }
-
-  export type UserUncheckedUpdateWithoutMedicineRemindersInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    name?: NullableStringFieldUpdateOperationsInput | string | null
-    email?: NullableStringFieldUpdateOperationsInput | string | null
-    emailVerified?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    image?: NullableStringFieldUpdateOperationsInput | string | null
-    role?: EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
-    state?: NullableStringFieldUpdateOperationsInput | string | null
-    hospital?: NullableStringFieldUpdateOperationsInput | string | null
-    address?: NullableStringFieldUpdateOperationsInput | string | null
-    dateOfBirth?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    gender?: NullableStringFieldUpdateOperationsInput | string | null
-    phone?: NullableStringFieldUpdateOperationsInput | string | null
-    city?: NullableStringFieldUpdateOperationsInput | string | null
-    pincode?: NullableStringFieldUpdateOperationsInput | string | null
-    accounts?: AccountUncheckedUpdateManyWithoutUserNestedInput
-    sessions?: SessionUncheckedUpdateManyWithoutUserNestedInput
-    appointments?: AppointmentUncheckedUpdateManyWithoutUserNestedInput
-    receipts?: ReceiptUncheckedUpdateManyWithoutUserNestedInput
-    emergencyAlerts?: EmergencyAlertUncheckedUpdateManyWithoutUserNestedInput
-  }
-
-  export type AccountCreateManyUserInput = {
-    id?: string
-    type: string
-    provider: string
-    providerAccountId: string
-    refresh_token?: string | null
-    access_token?: string | null
-    expires_at?: number | null
-    token_type?: string | null
-    scope?: string | null
-    id_token?: string | null
-    session_state?: string | null
-  }
-
-  export type SessionCreateManyUserInput = {
-    id?: string
-    sessionToken: string
-    expires: Date | string
-  }
-
-  export type AppointmentCreateManyUserInput = {
-    id?: string
-    hospitalId: string
-    doctorId?: string | null
-    symptoms: string
-    aiAnalysis?: string | null
-    severity?: number | null
-    status?: $Enums.AppointmentStatus
-    preferredDate: Date | string
-    scheduledDate?: Date | string | null
-    createdAt?: Date | string
-    updatedAt?: Date | string
-  }
-
-  export type ReceiptCreateManyUserInput = {
-    id?: string
-    imageUrl: string
-    uploatedAt?: Date | string
-    processedAt?: Date | string | null
-    condition?: string | null
-    severity?: number | null
-    hospitalId?: string | null
-    status?: $Enums.ReceiptStatus
-    queuePosition?: number | null
-    aiAnalysis?: string | null
-    doctorId?: string | null
-  }
-
-  export type EmergencyAlertCreateManyUserInput = {
-    id?: string
-    hospitalId: string
-    status?: $Enums.EmergencyAlertStatus
-    patientInfo: JsonNullValueInput | InputJsonValue
-    medicalHistory: JsonNullValueInput | InputJsonValue
-    createdAt?: Date | string
-    respondedAt?: Date | string | null
-    notes?: string | null
-  }
-
-  export type MedicineReminderCreateManyUserInput = {
-    id?: string
-    name: string
-    dosage: string
-    frequency: string
-    time: string
-    notes?: string | null
-    createdAt?: Date | string
-    isActive?: boolean
-    aiGenerated?: boolean
-  }
-
-  export type AccountUpdateWithoutUserInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    type?: StringFieldUpdateOperationsInput | string
-    provider?: StringFieldUpdateOperationsInput | string
-    providerAccountId?: StringFieldUpdateOperationsInput | string
-    refresh_token?: NullableStringFieldUpdateOperationsInput | string | null
-    access_token?: NullableStringFieldUpdateOperationsInput | string | null
-    expires_at?: NullableIntFieldUpdateOperationsInput | number | null
-    token_type?: NullableStringFieldUpdateOperationsInput | string | null
-    scope?: NullableStringFieldUpdateOperationsInput | string | null
-    id_token?: NullableStringFieldUpdateOperationsInput | string | null
-    session_state?: NullableStringFieldUpdateOperationsInput | string | null
-  }
-
-  export type AccountUncheckedUpdateWithoutUserInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    type?: StringFieldUpdateOperationsInput | string
-    provider?: StringFieldUpdateOperationsInput | string
-    providerAccountId?: StringFieldUpdateOperationsInput | string
-    refresh_token?: NullableStringFieldUpdateOperationsInput | string | null
-    access_token?: NullableStringFieldUpdateOperationsInput | string | null
-    expires_at?: NullableIntFieldUpdateOperationsInput | number | null
-    token_type?: NullableStringFieldUpdateOperationsInput | string | null
-    scope?: NullableStringFieldUpdateOperationsInput | string | null
-    id_token?: NullableStringFieldUpdateOperationsInput | string | null
-    session_state?: NullableStringFieldUpdateOperationsInput | string | null
-  }
-
-  export type AccountUncheckedUpdateManyWithoutUserInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    type?: StringFieldUpdateOperationsInput | string
-    provider?: StringFieldUpdateOperationsInput | string
-    providerAccountId?: StringFieldUpdateOperationsInput | string
-    refresh_token?: NullableStringFieldUpdateOperationsInput | string | null
-    access_token?: NullableStringFieldUpdateOperationsInput | string | null
-    expires_at?: NullableIntFieldUpdateOperationsInput | number | null
-    token_type?: NullableStringFieldUpdateOperationsInput | string | null
-    scope?: NullableStringFieldUpdateOperationsInput | string | null
-    id_token?: NullableStringFieldUpdateOperationsInput | string | null
-    session_state?: NullableStringFieldUpdateOperationsInput | string | null
-  }
-
-  export type SessionUpdateWithoutUserInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    sessionToken?: StringFieldUpdateOperationsInput | string
-    expires?: DateTimeFieldUpdateOperationsInput | Date | string
-  }
-
-  export type SessionUncheckedUpdateWithoutUserInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    sessionToken?: StringFieldUpdateOperationsInput | string
-    expires?: DateTimeFieldUpdateOperationsInput | Date | string
-  }
-
-  export type SessionUncheckedUpdateManyWithoutUserInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    sessionToken?: StringFieldUpdateOperationsInput | string
-    expires?: DateTimeFieldUpdateOperationsInput | Date | string
-  }
-
-  export type AppointmentUpdateWithoutUserInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    symptoms?: StringFieldUpdateOperationsInput | string
-    aiAnalysis?: NullableStringFieldUpdateOperationsInput | string | null
-    severity?: NullableIntFieldUpdateOperationsInput | number | null
-    status?: EnumAppointmentStatusFieldUpdateOperationsInput | $Enums.AppointmentStatus
-    preferredDate?: DateTimeFieldUpdateOperationsInput | Date | string
-    scheduledDate?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
-    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
-    hospital?: HospitalUpdateOneRequiredWithoutAppointmentsNestedInput
-    doctor?: DoctorUpdateOneWithoutAppointmentsNestedInput
-  }
-
-  export type AppointmentUncheckedUpdateWithoutUserInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    hospitalId?: StringFieldUpdateOperationsInput | string
-    doctorId?: NullableStringFieldUpdateOperationsInput | string | null
-    symptoms?: StringFieldUpdateOperationsInput | string
-    aiAnalysis?: NullableStringFieldUpdateOperationsInput | string | null
-    severity?: NullableIntFieldUpdateOperationsInput | number | null
-    status?: EnumAppointmentStatusFieldUpdateOperationsInput | $Enums.AppointmentStatus
-    preferredDate?: DateTimeFieldUpdateOperationsInput | Date | string
-    scheduledDate?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
-    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
-  }
-
-  export type AppointmentUncheckedUpdateManyWithoutUserInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    hospitalId?: StringFieldUpdateOperationsInput | string
-    doctorId?: NullableStringFieldUpdateOperationsInput | string | null
-    symptoms?: StringFieldUpdateOperationsInput | string
-    aiAnalysis?: NullableStringFieldUpdateOperationsInput | string | null
-    severity?: NullableIntFieldUpdateOperationsInput | number | null
-    status?: EnumAppointmentStatusFieldUpdateOperationsInput | $Enums.AppointmentStatus
-    preferredDate?: DateTimeFieldUpdateOperationsInput | Date | string
-    scheduledDate?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
-    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
-  }
-
-  export type ReceiptUpdateWithoutUserInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    imageUrl?: StringFieldUpdateOperationsInput | string
-    uploatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
-    processedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    condition?: NullableStringFieldUpdateOperationsInput | string | null
-    severity?: NullableIntFieldUpdateOperationsInput | number | null
-    status?: EnumReceiptStatusFieldUpdateOperationsInput | $Enums.ReceiptStatus
-    queuePosition?: NullableIntFieldUpdateOperationsInput | number | null
-    aiAnalysis?: NullableStringFieldUpdateOperationsInput | string | null
-    doctor?: DoctorUpdateOneWithoutPatientsNestedInput
-    hospital?: HospitalUpdateOneWithoutReceiptsNestedInput
-  }
-
-  export type ReceiptUncheckedUpdateWithoutUserInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    imageUrl?: StringFieldUpdateOperationsInput | string
-    uploatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
-    processedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    condition?: NullableStringFieldUpdateOperationsInput | string | null
-    severity?: NullableIntFieldUpdateOperationsInput | number | null
-    hospitalId?: NullableStringFieldUpdateOperationsInput | string | null
-    status?: EnumReceiptStatusFieldUpdateOperationsInput | $Enums.ReceiptStatus
-    queuePosition?: NullableIntFieldUpdateOperationsInput | number | null
-    aiAnalysis?: NullableStringFieldUpdateOperationsInput | string | null
-    doctorId?: NullableStringFieldUpdateOperationsInput | string | null
-  }
-
-  export type ReceiptUncheckedUpdateManyWithoutUserInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    imageUrl?: StringFieldUpdateOperationsInput | string
-    uploatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
-    processedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    condition?: NullableStringFieldUpdateOperationsInput | string | null
-    severity?: NullableIntFieldUpdateOperationsInput | number | null
-    hospitalId?: NullableStringFieldUpdateOperationsInput | string | null
-    status?: EnumReceiptStatusFieldUpdateOperationsInput | $Enums.ReceiptStatus
-    queuePosition?: NullableIntFieldUpdateOperationsInput | number | null
-    aiAnalysis?: NullableStringFieldUpdateOperationsInput | string | null
-    doctorId?: NullableStringFieldUpdateOperationsInput | string | null
-  }
-
-  export type EmergencyAlertUpdateWithoutUserInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    status?: EnumEmergencyAlertStatusFieldUpdateOperationsInput | $Enums.EmergencyAlertStatus
-    patientInfo?: JsonNullValueInput | InputJsonValue
-    medicalHistory?: JsonNullValueInput | InputJsonValue
-    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
-    respondedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    notes?: NullableStringFieldUpdateOperationsInput | string | null
-    hospital?: HospitalUpdateOneRequiredWithoutEmergencyAlertsNestedInput
-  }
-
-  export type EmergencyAlertUncheckedUpdateWithoutUserInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    hospitalId?: StringFieldUpdateOperationsInput | string
-    status?: EnumEmergencyAlertStatusFieldUpdateOperationsInput | $Enums.EmergencyAlertStatus
-    patientInfo?: JsonNullValueInput | InputJsonValue
-    medicalHistory?: JsonNullValueInput | InputJsonValue
-    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
-    respondedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    notes?: NullableStringFieldUpdateOperationsInput | string | null
-  }
-
-  export type EmergencyAlertUncheckedUpdateManyWithoutUserInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    hospitalId?: StringFieldUpdateOperationsInput | string
-    status?: EnumEmergencyAlertStatusFieldUpdateOperationsInput | $Enums.EmergencyAlertStatus
-    patientInfo?: JsonNullValueInput | InputJsonValue
-    medicalHistory?: JsonNullValueInput | InputJsonValue
-    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
-    respondedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    notes?: NullableStringFieldUpdateOperationsInput | string | null
-  }
-
-  export type MedicineReminderUpdateWithoutUserInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    name?: StringFieldUpdateOperationsInput | string
-    dosage?: StringFieldUpdateOperationsInput | string
-    frequency?: StringFieldUpdateOperationsInput | string
-    time?: StringFieldUpdateOperationsInput | string
-    notes?: NullableStringFieldUpdateOperationsInput | string | null
-    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
-    isActive?: BoolFieldUpdateOperationsInput | boolean
-    aiGenerated?: BoolFieldUpdateOperationsInput | boolean
-  }
-
-  export type MedicineReminderUncheckedUpdateWithoutUserInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    name?: StringFieldUpdateOperationsInput | string
-    dosage?: StringFieldUpdateOperationsInput | string
-    frequency?: StringFieldUpdateOperationsInput | string
-    time?: StringFieldUpdateOperationsInput | string
-    notes?: NullableStringFieldUpdateOperationsInput | string | null
-    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
-    isActive?: BoolFieldUpdateOperationsInput | boolean
-    aiGenerated?: BoolFieldUpdateOperationsInput | boolean
-  }
-
-  export type MedicineReminderUncheckedUpdateManyWithoutUserInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    name?: StringFieldUpdateOperationsInput | string
-    dosage?: StringFieldUpdateOperationsInput | string
-    frequency?: StringFieldUpdateOperationsInput | string
-    time?: StringFieldUpdateOperationsInput | string
-    notes?: NullableStringFieldUpdateOperationsInput | string | null
-    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
-    isActive?: BoolFieldUpdateOperationsInput | boolean
-    aiGenerated?: BoolFieldUpdateOperationsInput | boolean
-  }
-
-  export type DoctorCreateManyHospitalInput = {
-    id?: string
-    name: string
-    specialty: string
-    available?: boolean
-  }
-
-  export type ReceiptCreateManyHospitalInput = {
-    id?: string
-    userId: string
-    imageUrl: string
-    uploatedAt?: Date | string
-    processedAt?: Date | string | null
-    condition?: string | null
-    severity?: number | null
-    status?: $Enums.ReceiptStatus
-    queuePosition?: number | null
-    aiAnalysis?: string | null
-    doctorId?: string | null
-  }
-
-  export type AppointmentCreateManyHospitalInput = {
-    id?: string
-    userId: string
-    doctorId?: string | null
-    symptoms: string
-    aiAnalysis?: string | null
-    severity?: number | null
-    status?: $Enums.AppointmentStatus
-    preferredDate: Date | string
-    scheduledDate?: Date | string | null
-    createdAt?: Date | string
-    updatedAt?: Date | string
-  }
-
-  export type EmergencyAlertCreateManyHospitalInput = {
-    id?: string
-    userId: string
-    status?: $Enums.EmergencyAlertStatus
-    patientInfo: JsonNullValueInput | InputJsonValue
-    medicalHistory: JsonNullValueInput | InputJsonValue
-    createdAt?: Date | string
-    respondedAt?: Date | string | null
-    notes?: string | null
-  }
-
-  export type DoctorUpdateWithoutHospitalInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    name?: StringFieldUpdateOperationsInput | string
-    specialty?: StringFieldUpdateOperationsInput | string
-    available?: BoolFieldUpdateOperationsInput | boolean
-    patients?: ReceiptUpdateManyWithoutDoctorNestedInput
-    appointments?: AppointmentUpdateManyWithoutDoctorNestedInput
-  }
-
-  export type DoctorUncheckedUpdateWithoutHospitalInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    name?: StringFieldUpdateOperationsInput | string
-    specialty?: StringFieldUpdateOperationsInput | string
-    available?: BoolFieldUpdateOperationsInput | boolean
-    patients?: ReceiptUncheckedUpdateManyWithoutDoctorNestedInput
-    appointments?: AppointmentUncheckedUpdateManyWithoutDoctorNestedInput
-  }
-
-  export type DoctorUncheckedUpdateManyWithoutHospitalInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    name?: StringFieldUpdateOperationsInput | string
-    specialty?: StringFieldUpdateOperationsInput | string
-    available?: BoolFieldUpdateOperationsInput | boolean
-  }
-
-  export type ReceiptUpdateWithoutHospitalInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    imageUrl?: StringFieldUpdateOperationsInput | string
-    uploatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
-    processedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    condition?: NullableStringFieldUpdateOperationsInput | string | null
-    severity?: NullableIntFieldUpdateOperationsInput | number | null
-    status?: EnumReceiptStatusFieldUpdateOperationsInput | $Enums.ReceiptStatus
-    queuePosition?: NullableIntFieldUpdateOperationsInput | number | null
-    aiAnalysis?: NullableStringFieldUpdateOperationsInput | string | null
-    doctor?: DoctorUpdateOneWithoutPatientsNestedInput
-    user?: UserUpdateOneRequiredWithoutReceiptsNestedInput
-  }
-
-  export type ReceiptUncheckedUpdateWithoutHospitalInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    userId?: StringFieldUpdateOperationsInput | string
-    imageUrl?: StringFieldUpdateOperationsInput | string
-    uploatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
-    processedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    condition?: NullableStringFieldUpdateOperationsInput | string | null
-    severity?: NullableIntFieldUpdateOperationsInput | number | null
-    status?: EnumReceiptStatusFieldUpdateOperationsInput | $Enums.ReceiptStatus
-    queuePosition?: NullableIntFieldUpdateOperationsInput | number | null
-    aiAnalysis?: NullableStringFieldUpdateOperationsInput | string | null
-    doctorId?: NullableStringFieldUpdateOperationsInput | string | null
-  }
-
-  export type ReceiptUncheckedUpdateManyWithoutHospitalInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    userId?: StringFieldUpdateOperationsInput | string
-    imageUrl?: StringFieldUpdateOperationsInput | string
-    uploatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
-    processedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    condition?: NullableStringFieldUpdateOperationsInput | string | null
-    severity?: NullableIntFieldUpdateOperationsInput | number | null
-    status?: EnumReceiptStatusFieldUpdateOperationsInput | $Enums.ReceiptStatus
-    queuePosition?: NullableIntFieldUpdateOperationsInput | number | null
-    aiAnalysis?: NullableStringFieldUpdateOperationsInput | string | null
-    doctorId?: NullableStringFieldUpdateOperationsInput | string | null
-  }
-
-  export type AppointmentUpdateWithoutHospitalInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    symptoms?: StringFieldUpdateOperationsInput | string
-    aiAnalysis?: NullableStringFieldUpdateOperationsInput | string | null
-    severity?: NullableIntFieldUpdateOperationsInput | number | null
-    status?: EnumAppointmentStatusFieldUpdateOperationsInput | $Enums.AppointmentStatus
-    preferredDate?: DateTimeFieldUpdateOperationsInput | Date | string
-    scheduledDate?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
-    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
-    user?: UserUpdateOneRequiredWithoutAppointmentsNestedInput
-    doctor?: DoctorUpdateOneWithoutAppointmentsNestedInput
-  }
-
-  export type AppointmentUncheckedUpdateWithoutHospitalInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    userId?: StringFieldUpdateOperationsInput | string
-    doctorId?: NullableStringFieldUpdateOperationsInput | string | null
-    symptoms?: StringFieldUpdateOperationsInput | string
-    aiAnalysis?: NullableStringFieldUpdateOperationsInput | string | null
-    severity?: NullableIntFieldUpdateOperationsInput | number | null
-    status?: EnumAppointmentStatusFieldUpdateOperationsInput | $Enums.AppointmentStatus
-    preferredDate?: DateTimeFieldUpdateOperationsInput | Date | string
-    scheduledDate?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
-    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
-  }
-
-  export type AppointmentUncheckedUpdateManyWithoutHospitalInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    userId?: StringFieldUpdateOperationsInput | string
-    doctorId?: NullableStringFieldUpdateOperationsInput | string | null
-    symptoms?: StringFieldUpdateOperationsInput | string
-    aiAnalysis?: NullableStringFieldUpdateOperationsInput | string | null
-    severity?: NullableIntFieldUpdateOperationsInput | number | null
-    status?: EnumAppointmentStatusFieldUpdateOperationsInput | $Enums.AppointmentStatus
-    preferredDate?: DateTimeFieldUpdateOperationsInput | Date | string
-    scheduledDate?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
-    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
-  }
-
-  export type EmergencyAlertUpdateWithoutHospitalInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    status?: EnumEmergencyAlertStatusFieldUpdateOperationsInput | $Enums.EmergencyAlertStatus
-    patientInfo?: JsonNullValueInput | InputJsonValue
-    medicalHistory?: JsonNullValueInput | InputJsonValue
-    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
-    respondedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    notes?: NullableStringFieldUpdateOperationsInput | string | null
-    user?: UserUpdateOneRequiredWithoutEmergencyAlertsNestedInput
-  }
-
-  export type EmergencyAlertUncheckedUpdateWithoutHospitalInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    userId?: StringFieldUpdateOperationsInput | string
-    status?: EnumEmergencyAlertStatusFieldUpdateOperationsInput | $Enums.EmergencyAlertStatus
-    patientInfo?: JsonNullValueInput | InputJsonValue
-    medicalHistory?: JsonNullValueInput | InputJsonValue
-    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
-    respondedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    notes?: NullableStringFieldUpdateOperationsInput | string | null
-  }
-
-  export type EmergencyAlertUncheckedUpdateManyWithoutHospitalInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    userId?: StringFieldUpdateOperationsInput | string
-    status?: EnumEmergencyAlertStatusFieldUpdateOperationsInput | $Enums.EmergencyAlertStatus
-    patientInfo?: JsonNullValueInput | InputJsonValue
-    medicalHistory?: JsonNullValueInput | InputJsonValue
-    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
-    respondedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    notes?: NullableStringFieldUpdateOperationsInput | string | null
-  }
-
-  export type ReceiptCreateManyDoctorInput = {
-    id?: string
-    userId: string
-    imageUrl: string
-    uploatedAt?: Date | string
-    processedAt?: Date | string | null
-    condition?: string | null
-    severity?: number | null
-    hospitalId?: string | null
-    status?: $Enums.ReceiptStatus
-    queuePosition?: number | null
-    aiAnalysis?: string | null
-  }
-
-  export type AppointmentCreateManyDoctorInput = {
-    id?: string
-    userId: string
-    hospitalId: string
-    symptoms: string
-    aiAnalysis?: string | null
-    severity?: number | null
-    status?: $Enums.AppointmentStatus
-    preferredDate: Date | string
-    scheduledDate?: Date | string | null
-    createdAt?: Date | string
-    updatedAt?: Date | string
-  }
-
-  export type ReceiptUpdateWithoutDoctorInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    imageUrl?: StringFieldUpdateOperationsInput | string
-    uploatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
-    processedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    condition?: NullableStringFieldUpdateOperationsInput | string | null
-    severity?: NullableIntFieldUpdateOperationsInput | number | null
-    status?: EnumReceiptStatusFieldUpdateOperationsInput | $Enums.ReceiptStatus
-    queuePosition?: NullableIntFieldUpdateOperationsInput | number | null
-    aiAnalysis?: NullableStringFieldUpdateOperationsInput | string | null
-    hospital?: HospitalUpdateOneWithoutReceiptsNestedInput
-    user?: UserUpdateOneRequiredWithoutReceiptsNestedInput
-  }
-
-  export type ReceiptUncheckedUpdateWithoutDoctorInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    userId?: StringFieldUpdateOperationsInput | string
-    imageUrl?: StringFieldUpdateOperationsInput | string
-    uploatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
-    processedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    condition?: NullableStringFieldUpdateOperationsInput | string | null
-    severity?: NullableIntFieldUpdateOperationsInput | number | null
-    hospitalId?: NullableStringFieldUpdateOperationsInput | string | null
-    status?: EnumReceiptStatusFieldUpdateOperationsInput | $Enums.ReceiptStatus
-    queuePosition?: NullableIntFieldUpdateOperationsInput | number | null
-    aiAnalysis?: NullableStringFieldUpdateOperationsInput | string | null
-  }
-
-  export type ReceiptUncheckedUpdateManyWithoutDoctorInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    userId?: StringFieldUpdateOperationsInput | string
-    imageUrl?: StringFieldUpdateOperationsInput | string
-    uploatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
-    processedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    condition?: NullableStringFieldUpdateOperationsInput | string | null
-    severity?: NullableIntFieldUpdateOperationsInput | number | null
-    hospitalId?: NullableStringFieldUpdateOperationsInput | string | null
-    status?: EnumReceiptStatusFieldUpdateOperationsInput | $Enums.ReceiptStatus
-    queuePosition?: NullableIntFieldUpdateOperationsInput | number | null
-    aiAnalysis?: NullableStringFieldUpdateOperationsInput | string | null
-  }
-
-  export type AppointmentUpdateWithoutDoctorInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    symptoms?: StringFieldUpdateOperationsInput | string
-    aiAnalysis?: NullableStringFieldUpdateOperationsInput | string | null
-    severity?: NullableIntFieldUpdateOperationsInput | number | null
-    status?: EnumAppointmentStatusFieldUpdateOperationsInput | $Enums.AppointmentStatus
-    preferredDate?: DateTimeFieldUpdateOperationsInput | Date | string
-    scheduledDate?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
-    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
-    user?: UserUpdateOneRequiredWithoutAppointmentsNestedInput
-    hospital?: HospitalUpdateOneRequiredWithoutAppointmentsNestedInput
-  }
-
-  export type AppointmentUncheckedUpdateWithoutDoctorInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    userId?: StringFieldUpdateOperationsInput | string
-    hospitalId?: StringFieldUpdateOperationsInput | string
-    symptoms?: StringFieldUpdateOperationsInput | string
-    aiAnalysis?: NullableStringFieldUpdateOperationsInput | string | null
-    severity?: NullableIntFieldUpdateOperationsInput | number | null
-    status?: EnumAppointmentStatusFieldUpdateOperationsInput | $Enums.AppointmentStatus
-    preferredDate?: DateTimeFieldUpdateOperationsInput | Date | string
-    scheduledDate?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
-    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
-  }
-
-  export type AppointmentUncheckedUpdateManyWithoutDoctorInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    userId?: StringFieldUpdateOperationsInput | string
-    hospitalId?: StringFieldUpdateOperationsInput | string
-    symptoms?: StringFieldUpdateOperationsInput | string
-    aiAnalysis?: NullableStringFieldUpdateOperationsInput | string | null
-    severity?: NullableIntFieldUpdateOperationsInput | number | null
-    status?: EnumAppointmentStatusFieldUpdateOperationsInput | $Enums.AppointmentStatus
-    preferredDate?: DateTimeFieldUpdateOperationsInput | Date | string
-    scheduledDate?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
-    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
-  }
-
-
-
-  /**
-   * Batch Payload for updateMany & deleteMany & createMany
-   */
-
-  export type BatchPayload = {
-    count: number
-  }
-
-  /**
-   * DMMF
-   */
-  export const dmmf: runtime.BaseDMMF
-}
\ No newline at end of file
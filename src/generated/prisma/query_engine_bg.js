@@ -1,2 +0,0 @@
-"use strict";var S=Object.defineProperty;var k=Object.getOwnPropertyDescriptor;var D=Object.getOwnPropertyNames;var R=Object.prototype.hasOwnProperty;var B=(e,t)=>{for(var n in t)S(e,n,{get:t[n],enumerable:!0})},U=(e,t,n,r)=>{if(t&&typeof t=="object"||typeof t=="function")for(let _ of D(t))!R.call(e,_)&&_!==n&&S(e,_,{get:()=>t[_],enumerable:!(r=k(t,_))||r.enumerable});return e};var L=e=>U(S({},"__esModule",{value:!0}),e);var Ft={};B(Ft,{QueryEngine:()=>Q,__wbg_String_8f0eb39a4a4c2f66:()=>H,__wbg_buffer_609cc3eee51ed158:()=>J,__wbg_call_672a4d21634d4a24:()=>K,__wbg_call_7cccdd69e0791ae2:()=>X,__wbg_crypto_805be4ce92f1e370:()=>Y,__wbg_done_769e5ede4b31c67b:()=>Z,__wbg_entries_3265d4158b33e5dc:()=>ee,__wbg_exec_3e2d2d0644c927df:()=>te,__wbg_getRandomValues_f6a868620c8bab49:()=>ne,__wbg_getTime_46267b1c24877e30:()=>re,__wbg_get_67b2ba62fc30de12:()=>oe,__wbg_get_b9b93047fe3cf45b:()=>_e,__wbg_get_ece95cf6585650d9:()=>ce,__wbg_getwithrefkey_1dc361bd10053bfe:()=>ie,__wbg_has_a5ea9117f258a0ec:()=>ue,__wbg_instanceof_ArrayBuffer_e14585432e3737fc:()=>se,__wbg_instanceof_Map_f3469ce2244d2430:()=>fe,__wbg_instanceof_Promise_935168b8f4b49db3:()=>ae,__wbg_instanceof_Uint8Array_17156bcf118086a9:()=>be,__wbg_isArray_a1eab7e0d067391b:()=>ge,__wbg_isSafeInteger_343e2beeeece1bb0:()=>le,__wbg_iterator_9a24c88df860dc65:()=>de,__wbg_keys_5c77a08ddc2fb8a6:()=>we,__wbg_length_a446193dc22c12f8:()=>pe,__wbg_length_e2d2a49132c1b256:()=>xe,__wbg_msCrypto_2ac4d17c4748234a:()=>ye,__wbg_new0_f788a2397c7ca929:()=>me,__wbg_new_23a2665fac83c611:()=>he,__wbg_new_405e22f390576ce2:()=>Te,__wbg_new_5e0be73521bc8c17:()=>qe,__wbg_new_63847613cde5d4bc:()=>Se,__wbg_new_78feb108b6472713:()=>Ae,__wbg_new_a12002a7f91c75be:()=>Ie,__wbg_newnoargs_105ed471475aaf50:()=>Ee,__wbg_newwithbyteoffsetandlength_d97e637ebe145a9a:()=>Oe,__wbg_newwithlength_a381634e90c276d4:()=>Fe,__wbg_next_25feadfc0913fea9:()=>Me,__wbg_next_6574e1a8a62d1055:()=>je,__wbg_node_ecc8306b9857f33d:()=>ke,__wbg_now_7fd00a794a07d388:()=>De,__wbg_now_807e54c39636c349:()=>Re,__wbg_now_b3f7572f6ef3d3a9:()=>Be,__wbg_process_5cff2739921be718:()=>Ue,__wbg_push_737cfc8c1432c2c6:()=>Le,__wbg_queueMicrotask_5a8a9131f3f0b37b:()=>ve,__wbg_queueMicrotask_6d79674585219521:()=>Ne,__wbg_randomFillSync_d3c85af7e31cf1f8:()=>$e,__wbg_require_0c566c6f2eef6c79:()=>Ce,__wbg_resolve_4851785c9c5f573d:()=>Ve,__wbg_setTimeout_5d6a1d4fc51ea450:()=>ze,__wbg_set_37837023f3d740e8:()=>We,__wbg_set_3f1d0b984ed272ed:()=>Pe,__wbg_set_65595bdd868b3009:()=>Ge,__wbg_set_8fc6bf8a5b1071d1:()=>Qe,__wbg_set_bb8cecf6a62b9f46:()=>He,__wbg_set_wasm:()=>v,__wbg_static_accessor_GLOBAL_88a902d13a557d07:()=>Je,__wbg_static_accessor_GLOBAL_THIS_56578be7e9f832b0:()=>Ke,__wbg_static_accessor_SELF_37c5d418e4bf5819:()=>Xe,__wbg_static_accessor_WINDOW_5de37043a91a9c40:()=>Ye,__wbg_subarray_aa9065fa9dc5df96:()=>Ze,__wbg_then_44b73946d2fb3e7d:()=>et,__wbg_then_48b406749878a531:()=>tt,__wbg_valueOf_7392193dd78c6b97:()=>nt,__wbg_value_cd1ffa7b1ab794f1:()=>rt,__wbg_versions_a8e5a362e1f16442:()=>ot,__wbindgen_as_number:()=>_t,__wbindgen_bigint_from_i64:()=>ct,__wbindgen_bigint_from_u64:()=>it,__wbindgen_bigint_get_as_i64:()=>ut,__wbindgen_boolean_get:()=>st,__wbindgen_cb_drop:()=>ft,__wbindgen_closure_wrapper7549:()=>at,__wbindgen_debug_string:()=>bt,__wbindgen_error_new:()=>gt,__wbindgen_in:()=>lt,__wbindgen_init_externref_table:()=>dt,__wbindgen_is_bigint:()=>wt,__wbindgen_is_function:()=>pt,__wbindgen_is_object:()=>xt,__wbindgen_is_string:()=>yt,__wbindgen_is_undefined:()=>mt,__wbindgen_jsval_eq:()=>ht,__wbindgen_jsval_loose_eq:()=>Tt,__wbindgen_memory:()=>qt,__wbindgen_number_get:()=>St,__wbindgen_number_new:()=>At,__wbindgen_string_get:()=>It,__wbindgen_string_new:()=>Et,__wbindgen_throw:()=>Ot,debug_panic:()=>W,getBuildTimeInfo:()=>z});module.exports=L(Ft);var m=()=>{};m.prototype=m;let o;function v(e){o=e}let s=0,h=null;function T(){return(h===null||h.byteLength===0)&&(h=new Uint8Array(o.memory.buffer)),h}const N=typeof TextEncoder>"u"?(0,module.require)("util").TextEncoder:TextEncoder;let q=new N("utf-8");const $=typeof q.encodeInto=="function"?function(e,t){return q.encodeInto(e,t)}:function(e,t){const n=q.encode(e);return t.set(n),{read:e.length,written:n.length}};function f(e,t,n){if(n===void 0){const u=q.encode(e),a=t(u.length,1)>>>0;return T().subarray(a,a+u.length).set(u),s=u.length,a}let r=e.length,_=t(r,1)>>>0;const i=T();let c=0;for(;c<r;c++){const u=e.charCodeAt(c);if(u>127)break;i[_+c]=u}if(c!==r){c!==0&&(e=e.slice(c)),_=n(_,r,r=c+e.length*3,1)>>>0;const u=T().subarray(_+c,_+r),a=$(e,u);c+=a.written,_=n(_,r,c,1)>>>0}return s=c,_}let p=null;function l(){return(p===null||p.buffer.detached===!0||p.buffer.detached===void 0&&p.buffer!==o.memory.buffer)&&(p=new DataView(o.memory.buffer)),p}function x(e){const t=o.__externref_table_alloc();return o.__wbindgen_export_4.set(t,e),t}function g(e,t){try{return e.apply(this,t)}catch(n){const r=x(n);o.__wbindgen_exn_store(r)}}const C=typeof TextDecoder>"u"?(0,module.require)("util").TextDecoder:TextDecoder;let I=new C("utf-8",{ignoreBOM:!0,fatal:!0});I.decode();function w(e,t){return e=e>>>0,I.decode(T().subarray(e,e+t))}function b(e){return e==null}const E=typeof FinalizationRegistry>"u"?{register:()=>{},unregister:()=>{}}:new FinalizationRegistry(e=>{o.__wbindgen_export_5.get(e.dtor)(e.a,e.b)});function V(e,t,n,r){const _={a:e,b:t,cnt:1,dtor:n},i=(...c)=>{_.cnt++;const u=_.a;_.a=0;try{return r(u,_.b,...c)}finally{--_.cnt===0?(o.__wbindgen_export_5.get(_.dtor)(u,_.b),E.unregister(_)):_.a=u}};return i.original=_,E.register(i,_,_),i}function A(e){const t=typeof e;if(t=="number"||t=="boolean"||e==null)return`${e}`;if(t=="string")return`"${e}"`;if(t=="symbol"){const _=e.description;return _==null?"Symbol":`Symbol(${_})`}if(t=="function"){const _=e.name;return typeof _=="string"&&_.length>0?`Function(${_})`:"Function"}if(Array.isArray(e)){const _=e.length;let i="[";_>0&&(i+=A(e[0]));for(let c=1;c<_;c++)i+=", "+A(e[c]);return i+="]",i}const n=/\[object ([^\]]+)\]/.exec(toString.call(e));let r;if(n&&n.length>1)r=n[1];else return toString.call(e);if(r=="Object")try{return"Object("+JSON.stringify(e)+")"}catch{return"Object"}return e instanceof Error?`${e.name}: ${e.message}
-${e.stack}`:r}function O(e){const t=o.__wbindgen_export_4.get(e);return o.__externref_table_dealloc(e),t}function z(){return o.getBuildTimeInfo()}function W(e){var t=b(e)?0:f(e,o.__wbindgen_malloc,o.__wbindgen_realloc),n=s;const r=o.debug_panic(t,n);if(r[1])throw O(r[0])}function P(e,t,n){o.closure562_externref_shim(e,t,n)}function G(e,t,n,r){o.closure132_externref_shim(e,t,n,r)}const F=typeof FinalizationRegistry>"u"?{register:()=>{},unregister:()=>{}}:new FinalizationRegistry(e=>o.__wbg_queryengine_free(e>>>0,1));class Q{__destroy_into_raw(){const t=this.__wbg_ptr;return this.__wbg_ptr=0,F.unregister(this),t}free(){const t=this.__destroy_into_raw();o.__wbg_queryengine_free(t,0)}constructor(t,n,r){const _=o.queryengine_new(t,n,r);if(_[2])throw O(_[1]);return this.__wbg_ptr=_[0]>>>0,F.register(this,this.__wbg_ptr,this),this}connect(t,n){const r=f(t,o.__wbindgen_malloc,o.__wbindgen_realloc),_=s,i=f(n,o.__wbindgen_malloc,o.__wbindgen_realloc),c=s;return o.queryengine_connect(this.__wbg_ptr,r,_,i,c)}disconnect(t,n){const r=f(t,o.__wbindgen_malloc,o.__wbindgen_realloc),_=s,i=f(n,o.__wbindgen_malloc,o.__wbindgen_realloc),c=s;return o.queryengine_disconnect(this.__wbg_ptr,r,_,i,c)}query(t,n,r,_){const i=f(t,o.__wbindgen_malloc,o.__wbindgen_realloc),c=s,u=f(n,o.__wbindgen_malloc,o.__wbindgen_realloc),a=s;var d=b(r)?0:f(r,o.__wbindgen_malloc,o.__wbindgen_realloc),y=s;const M=f(_,o.__wbindgen_malloc,o.__wbindgen_realloc),j=s;return o.queryengine_query(this.__wbg_ptr,i,c,u,a,d,y,M,j)}startTransaction(t,n,r){const _=f(t,o.__wbindgen_malloc,o.__wbindgen_realloc),i=s,c=f(n,o.__wbindgen_malloc,o.__wbindgen_realloc),u=s,a=f(r,o.__wbindgen_malloc,o.__wbindgen_realloc),d=s;return o.queryengine_startTransaction(this.__wbg_ptr,_,i,c,u,a,d)}commitTransaction(t,n,r){const _=f(t,o.__wbindgen_malloc,o.__wbindgen_realloc),i=s,c=f(n,o.__wbindgen_malloc,o.__wbindgen_realloc),u=s,a=f(r,o.__wbindgen_malloc,o.__wbindgen_realloc),d=s;return o.queryengine_commitTransaction(this.__wbg_ptr,_,i,c,u,a,d)}rollbackTransaction(t,n,r){const _=f(t,o.__wbindgen_malloc,o.__wbindgen_realloc),i=s,c=f(n,o.__wbindgen_malloc,o.__wbindgen_realloc),u=s,a=f(r,o.__wbindgen_malloc,o.__wbindgen_realloc),d=s;return o.queryengine_rollbackTransaction(this.__wbg_ptr,_,i,c,u,a,d)}metrics(t){const n=f(t,o.__wbindgen_malloc,o.__wbindgen_realloc),r=s;return o.queryengine_metrics(this.__wbg_ptr,n,r)}trace(t){const n=f(t,o.__wbindgen_malloc,o.__wbindgen_realloc),r=s;return o.queryengine_trace(this.__wbg_ptr,n,r)}}function H(e,t){const n=String(t),r=f(n,o.__wbindgen_malloc,o.__wbindgen_realloc),_=s;l().setInt32(e+4*1,_,!0),l().setInt32(e+4*0,r,!0)}function J(e){return e.buffer}function K(){return g(function(e,t){return e.call(t)},arguments)}function X(){return g(function(e,t,n){return e.call(t,n)},arguments)}function Y(e){return e.crypto}function Z(e){return e.done}function ee(e){return Object.entries(e)}function te(e,t,n){const r=e.exec(w(t,n));return b(r)?0:x(r)}function ne(){return g(function(e,t){e.getRandomValues(t)},arguments)}function re(e){return e.getTime()}function oe(){return g(function(e,t){return Reflect.get(e,t)},arguments)}function _e(e,t){return e[t>>>0]}function ce(){return g(function(e,t){return e[t]},arguments)}function ie(e,t){return e[t]}function ue(){return g(function(e,t){return Reflect.has(e,t)},arguments)}function se(e){let t;try{t=e instanceof ArrayBuffer}catch{t=!1}return t}function fe(e){let t;try{t=e instanceof Map}catch{t=!1}return t}function ae(e){let t;try{t=e instanceof Promise}catch{t=!1}return t}function be(e){let t;try{t=e instanceof Uint8Array}catch{t=!1}return t}function ge(e){return Array.isArray(e)}function le(e){return Number.isSafeInteger(e)}function de(){return Symbol.iterator}function we(e){return Object.keys(e)}function pe(e){return e.length}function xe(e){return e.length}function ye(e){return e.msCrypto}function me(){return new Date}function he(e,t){try{var n={a:e,b:t},r=(i,c)=>{const u=n.a;n.a=0;try{return G(u,n.b,i,c)}finally{n.a=u}};return new Promise(r)}finally{n.a=n.b=0}}function Te(){return new Object}function qe(){return new Map}function Se(e,t,n,r){return new RegExp(w(e,t),w(n,r))}function Ae(){return new Array}function Ie(e){return new Uint8Array(e)}function Ee(e,t){return new m(w(e,t))}function Oe(e,t,n){return new Uint8Array(e,t>>>0,n>>>0)}function Fe(e){return new Uint8Array(e>>>0)}function Me(e){return e.next}function je(){return g(function(e){return e.next()},arguments)}function ke(e){return e.node}function De(e){return e.now()}function Re(){return Date.now()}function Be(){return g(function(){return Date.now()},arguments)}function Ue(e){return e.process}function Le(e,t){return e.push(t)}function ve(e){return e.queueMicrotask}function Ne(e){queueMicrotask(e)}function $e(){return g(function(e,t){e.randomFillSync(t)},arguments)}function Ce(){return g(function(){return module.require},arguments)}function Ve(e){return Promise.resolve(e)}function ze(e,t){return setTimeout(e,t>>>0)}function We(e,t,n){e[t>>>0]=n}function Pe(e,t,n){e[t]=n}function Ge(e,t,n){e.set(t,n>>>0)}function Qe(e,t,n){return e.set(t,n)}function He(){return g(function(e,t,n){return Reflect.set(e,t,n)},arguments)}function Je(){const e=typeof global>"u"?null:global;return b(e)?0:x(e)}function Ke(){const e=typeof globalThis>"u"?null:globalThis;return b(e)?0:x(e)}function Xe(){const e=typeof self>"u"?null:self;return b(e)?0:x(e)}function Ye(){const e=typeof window>"u"?null:window;return b(e)?0:x(e)}function Ze(e,t,n){return e.subarray(t>>>0,n>>>0)}function et(e,t){return e.then(t)}function tt(e,t,n){return e.then(t,n)}function nt(e){return e.valueOf()}function rt(e){return e.value}function ot(e){return e.versions}function _t(e){return+e}function ct(e){return e}function it(e){return BigInt.asUintN(64,e)}function ut(e,t){const n=t,r=typeof n=="bigint"?n:void 0;l().setBigInt64(e+8*1,b(r)?BigInt(0):r,!0),l().setInt32(e+4*0,!b(r),!0)}function st(e){const t=e;return typeof t=="boolean"?t?1:0:2}function ft(e){const t=e.original;return t.cnt--==1?(t.a=0,!0):!1}function at(e,t,n){return V(e,t,563,P)}function bt(e,t){const n=A(t),r=f(n,o.__wbindgen_malloc,o.__wbindgen_realloc),_=s;l().setInt32(e+4*1,_,!0),l().setInt32(e+4*0,r,!0)}function gt(e,t){return new Error(w(e,t))}function lt(e,t){return e in t}function dt(){const e=o.__wbindgen_export_4,t=e.grow(4);e.set(0,void 0),e.set(t+0,void 0),e.set(t+1,null),e.set(t+2,!0),e.set(t+3,!1)}function wt(e){return typeof e=="bigint"}function pt(e){return typeof e=="function"}function xt(e){const t=e;return typeof t=="object"&&t!==null}function yt(e){return typeof e=="string"}function mt(e){return e===void 0}function ht(e,t){return e===t}function Tt(e,t){return e==t}function qt(){return o.memory}function St(e,t){const n=t,r=typeof n=="number"?n:void 0;l().setFloat64(e+8*1,b(r)?0:r,!0),l().setInt32(e+4*0,!b(r),!0)}function At(e){return e}function It(e,t){const n=t,r=typeof n=="string"?n:void 0;var _=b(r)?0:f(r,o.__wbindgen_malloc,o.__wbindgen_realloc),i=s;l().setInt32(e+4*1,i,!0),l().setInt32(e+4*0,_,!0)}function Et(e,t){return w(e,t)}function Ot(e,t){throw new Error(w(e,t))}0&&(module.exports={QueryEngine,__wbg_String_8f0eb39a4a4c2f66,__wbg_buffer_609cc3eee51ed158,__wbg_call_672a4d21634d4a24,__wbg_call_7cccdd69e0791ae2,__wbg_crypto_805be4ce92f1e370,__wbg_done_769e5ede4b31c67b,__wbg_entries_3265d4158b33e5dc,__wbg_exec_3e2d2d0644c927df,__wbg_getRandomValues_f6a868620c8bab49,__wbg_getTime_46267b1c24877e30,__wbg_get_67b2ba62fc30de12,__wbg_get_b9b93047fe3cf45b,__wbg_get_ece95cf6585650d9,__wbg_getwithrefkey_1dc361bd10053bfe,__wbg_has_a5ea9117f258a0ec,__wbg_instanceof_ArrayBuffer_e14585432e3737fc,__wbg_instanceof_Map_f3469ce2244d2430,__wbg_instanceof_Promise_935168b8f4b49db3,__wbg_instanceof_Uint8Array_17156bcf118086a9,__wbg_isArray_a1eab7e0d067391b,__wbg_isSafeInteger_343e2beeeece1bb0,__wbg_iterator_9a24c88df860dc65,__wbg_keys_5c77a08ddc2fb8a6,__wbg_length_a446193dc22c12f8,__wbg_length_e2d2a49132c1b256,__wbg_msCrypto_2ac4d17c4748234a,__wbg_new0_f788a2397c7ca929,__wbg_new_23a2665fac83c611,__wbg_new_405e22f390576ce2,__wbg_new_5e0be73521bc8c17,__wbg_new_63847613cde5d4bc,__wbg_new_78feb108b6472713,__wbg_new_a12002a7f91c75be,__wbg_newnoargs_105ed471475aaf50,__wbg_newwithbyteoffsetandlength_d97e637ebe145a9a,__wbg_newwithlength_a381634e90c276d4,__wbg_next_25feadfc0913fea9,__wbg_next_6574e1a8a62d1055,__wbg_node_ecc8306b9857f33d,__wbg_now_7fd00a794a07d388,__wbg_now_807e54c39636c349,__wbg_now_b3f7572f6ef3d3a9,__wbg_process_5cff2739921be718,__wbg_push_737cfc8c1432c2c6,__wbg_queueMicrotask_5a8a9131f3f0b37b,__wbg_queueMicrotask_6d79674585219521,__wbg_randomFillSync_d3c85af7e31cf1f8,__wbg_require_0c566c6f2eef6c79,__wbg_resolve_4851785c9c5f573d,__wbg_setTimeout_5d6a1d4fc51ea450,__wbg_set_37837023f3d740e8,__wbg_set_3f1d0b984ed272ed,__wbg_set_65595bdd868b3009,__wbg_set_8fc6bf8a5b1071d1,__wbg_set_bb8cecf6a62b9f46,__wbg_set_wasm,__wbg_static_accessor_GLOBAL_88a902d13a557d07,__wbg_static_accessor_GLOBAL_THIS_56578be7e9f832b0,__wbg_static_accessor_SELF_37c5d418e4bf5819,__wbg_static_accessor_WINDOW_5de37043a91a9c40,__wbg_subarray_aa9065fa9dc5df96,__wbg_then_44b73946d2fb3e7d,__wbg_then_48b406749878a531,__wbg_valueOf_7392193dd78c6b97,__wbg_value_cd1ffa7b1ab794f1,__wbg_versions_a8e5a362e1f16442,__wbindgen_as_number,__wbindgen_bigint_from_i64,__wbindgen_bigint_from_u64,__wbindgen_bigint_get_as_i64,__wbindgen_boolean_get,__wbindgen_cb_drop,__wbindgen_closure_wrapper7549,__wbindgen_debug_string,__wbindgen_error_new,__wbindgen_in,__wbindgen_init_externref_table,__wbindgen_is_bigint,__wbindgen_is_function,__wbindgen_is_object,__wbindgen_is_string,__wbindgen_is_undefined,__wbindgen_jsval_eq,__wbindgen_jsval_loose_eq,__wbindgen_memory,__wbindgen_number_get,__wbindgen_number_new,__wbindgen_string_get,__wbindgen_string_new,__wbindgen_throw,debug_panic,getBuildTimeInfo});
@@ -1,4 +0,0 @@
-
-/* !!! This is code generated by Prisma. Do not edit directly. !!!
-/* eslint-disable */
-export default import('./query_engine_bg.wasm?module')
\ No newline at end of file
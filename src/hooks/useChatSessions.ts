@@ -0,0 +1,375 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { ChatActionCard } from "@/lib/chatActions";
+import type { EmergencyCard } from "@/lib/redFlags";
+import { useTranslation } from "@/hooks/useTranslation";
+
+export type ChatMessage = {
+  role: "user" | "assistant";
+  content: string;
+  timestamp: string;
+  // Set on a reply the user stopped, or one that broke off with an error
+  stopped?: boolean;
+  error?: string;
+  // Set on the reply to a message that raised emergency red flags
+  emergency?: EmergencyCard;
+  // Set on a reply in which the assistant offers to act for the user
+  action?: ChatActionCard;
+  // Records of the patient's the reply cites as [ref]
+  sources?: RecordSource[];
+};
+
+export type RecordSource = {
+  ref: number;
+  kind: "report" | "appointment" | "reminder" | "emergencyAlert";
+  id: string;
+  label: string;
+  date: string;
+  href: string | null;
+};
+
+export type ChatSessionSummary = {
+  id: string;
+  title: string;
+  updatedAt: string;
+};
+
+// A conversation as the assistant kept it in localStorage
+type BrowserConversation = {
+  id: string;
+  title: string;
+  messages: ChatMessage[];
+  lastUpdated: string;
+};
+
+export const NEW_CHAT_TITLE = "New Conversation";
+
+function welcomeMessage(content: string): ChatMessage {
+  return { role: "assistant", content, timestamp: new Date().toISOString() };
+}
+
+type StreamEvent = {
+  type: string;
+  data: {
+    sessionId?: string;
+    title?: string;
+    text?: string;
+    error?: string;
+    card?: EmergencyCard;
+    action?: ChatActionCard;
+    sources?: RecordSource[];
+  };
+};
+
+/**
+ * The named events of a text/event-stream response body, as they arrive
+ */
+async function* readEventStream(body: ReadableStream<Uint8Array>): AsyncGenerator<StreamEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const events = buffer.split("\n\n");
+      buffer = events.pop() || "";
+
+      for (const event of events) {
+        const lines = event.split("\n");
+        const type = lines.find(line => line.startsWith("event:"))?.slice(6).trim();
+        const data = lines.filter(line => line.startsWith("data:")).map(line => line.slice(5).trim()).join("");
+        if (type && data) yield { type, data: JSON.parse(data) };
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+function readStorage<T>(key: string): T | null {
+  try {
+    const value = localStorage.getItem(key);
+    return value ? JSON.parse(value) as T : null;
+  } catch (error) {
+    console.error(`Error reading ${key}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Moves the conversations the assistant used to keep in localStorage to the
+ * user's account, then forgets them. The chat that was open is merged into
+ * the saved conversation it started as, or imported on its own.
+ */
+async function importBrowserConversations(userId: string) {
+  const historyKey = `chat_history_${userId}`;
+  const savedKey = `saved_conversations_${userId}`;
+
+  const saved = readStorage<BrowserConversation[]>(savedKey) || [];
+  const current = readStorage<ChatMessage[]>(historyKey) || [];
+  const conversations = saved.filter(conversation => Array.isArray(conversation.messages));
+
+  const firstQuestion = current.find(message => message.role === "user");
+  if (firstQuestion) {
+    const startedAs = conversations.find(conversation =>
+      conversation.messages.some(message => message.role === "user" && message.timestamp === firstQuestion.timestamp)
+    );
+    const lastUpdated = current[current.length - 1].timestamp;
+
+    if (startedAs) {
+      if (current.length > startedAs.messages.length) {
+        startedAs.messages = current;
+        startedAs.lastUpdated = lastUpdated;
+      }
+    } else {
+      conversations.push({ id: `current-${firstQuestion.timestamp}`, title: NEW_CHAT_TITLE, messages: current, lastUpdated });
+    }
+  }
+
+  if (conversations.length > 0) {
+    const response = await fetch("/api/chat/sessions/import", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ conversations: conversations.slice(0, 50) })
+    });
+
+    if (!response.ok) {
+      throw new Error("Failed to import conversations");
+    }
+  }
+
+  localStorage.removeItem(historyKey);
+  localStorage.removeItem(savedKey);
+}
+
+/**
+ * The signed-in user's conversations with the AI assistant, stored on the
+ * server: the open conversation, the list for the sidebar (filtered by
+ * `query`) and the actions on them. Conversations still in localStorage are
+ * imported the first time this runs for the user.
+ */
+export function useChatSessions(userId: string | undefined, { enabled = true } = {}) {
+  const { t } = useTranslation();
+  const [sessions, setSessions] = useState<ChatSessionSummary[]>([]);
+  const [query, setQuery] = useState("");
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  const [title, setTitle] = useState(() => t("chat.newConversation"));
+  const [messages, setMessages] = useState<ChatMessage[]>(() => [welcomeMessage(t("chat.welcome"))]);
+  const [isSending, setIsSending] = useState(false);
+  // The user whose browser conversations have been imported
+  const [importedFor, setImportedFor] = useState<string | null>(null);
+  const importStarted = useRef<string | null>(null);
+  // Aborts the reply being streamed
+  const replyController = useRef<AbortController | null>(null);
+
+  const loadSessions = useCallback(async (search = "") => {
+    try {
+      const params = search.trim() ? `?q=${encodeURIComponent(search.trim())}` : "";
+      const response = await fetch(`/api/chat/sessions${params}`, { cache: "no-store" });
+      if (!response.ok) {
+        throw new Error("Failed to fetch conversations");
+      }
+      const data = await response.json();
+      setSessions(data.sessions);
+    } catch (error) {
+      console.error("Error fetching conversations:", error);
+    }
+  }, []);
+
+  // Import what the browser kept before listing, once per user
+  useEffect(() => {
+    if (!enabled || !userId || importStarted.current === userId) return;
+    importStarted.current = userId;
+
+    importBrowserConversations(userId)
+      .catch(error => console.error("Error importing browser conversations:", error))
+      .finally(() => setImportedFor(userId));
+  }, [enabled, userId]);
+
+  // List, and search as the user types
+  useEffect(() => {
+    if (!enabled || !userId || importedFor !== userId) return;
+    const timeout = setTimeout(() => loadSessions(query), query ? 300 : 0);
+    return () => clearTimeout(timeout);
+  }, [enabled, userId, importedFor, query, loadSessions]);
+
+  const startNewSession = useCallback(() => {
+    replyController.current?.abort();
+    replyController.current = null;
+    setActiveSessionId(null);
+    setTitle(t("chat.newConversation"));
+    setMessages([welcomeMessage(t("chat.welcome"))]);
+  }, [t]);
+
+  const openSession = useCallback(async (sessionId: string) => {
+    replyController.current?.abort();
+    replyController.current = null;
+
+    try {
+      const response = await fetch(`/api/chat/sessions/${sessionId}`, { cache: "no-store" });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to fetch the conversation");
+      }
+      setActiveSessionId(data.id);
+      setTitle(data.title);
+      setMessages(data.messages.length > 0 ? data.messages : [welcomeMessage(t("chat.welcome"))]);
+    } catch (error) {
+      console.error("Error opening conversation:", error);
+    }
+  }, [t]);
+
+  /**
+   * Asks the assistant a question in the open conversation, starting a new
+   * conversation when none is open. The reply is shown as it streams in; the
+   * server keeps both messages.
+   */
+  const sendMessage = useCallback(async (content: string, userProfile?: unknown) => {
+    const controller = new AbortController();
+    replyController.current = controller;
+    setIsSending(true);
+    setMessages(prev => [...prev, { role: "user", content, timestamp: new Date().toISOString() }]);
+
+    // The reply grows in place as tokens arrive, until the user moves to
+    // another conversation
+    const replyAt = new Date().toISOString();
+    let reply = "";
+    let errorMessage = t("chat.error");
+    const showReply = (changes: Partial<ChatMessage>) => {
+      if (replyController.current !== controller) return;
+
+      setMessages(prev => {
+        const index = prev.findIndex(message => message.role === "assistant" && message.timestamp === replyAt);
+        if (index === -1) {
+          return [...prev, { role: "assistant", content: reply, timestamp: replyAt, ...changes }];
+        }
+        return prev.map((message, i) => i === index ? { ...message, content: reply, ...changes } : message);
+      });
+    };
+
+    try {
+      const response = await fetch("/api/chat", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ message: content, sessionId: activeSessionId, patientId: userId, userProfile, stream: true }),
+        signal: controller.signal
+      });
+
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => ({}));
+        errorMessage = data.error || errorMessage;
+        throw new Error(errorMessage);
+      }
+
+      for await (const event of readEventStream(response.body)) {
+        if (event.data.sessionId) setActiveSessionId(event.data.sessionId);
+        if (event.data.title) setTitle(event.data.title);
+
+        if (event.type === "emergency") {
+          showReply({ emergency: event.data.card });
+        } else if (event.type === "action") {
+          showReply({ action: event.data.action });
+        } else if (event.type === "sources") {
+          showReply({ sources: event.data.sources });
+        } else if (event.type === "token") {
+          reply += event.data.text || "";
+          showReply({});
+        } else if (event.type === "error") {
+          showReply({ error: event.data.error || t("chat.error") });
+        }
+      }
+    } catch (error) {
+      if (controller.signal.aborted) {
+        if (reply) showReply({ stopped: true });
+      } else {
+        console.error("Error sending message:", error);
+        showReply({ error: errorMessage });
+      }
+    } finally {
+      if (replyController.current === controller) replyController.current = null;
+      setIsSending(false);
+      loadSessions(query);
+    }
+  }, [activeSessionId, userId, query, loadSessions, t]);
+
+  /**
+   * Stops the reply being streamed. What arrived so far is kept.
+   */
+  const stopGenerating = useCallback(() => {
+    replyController.current?.abort();
+  }, []);
+
+  /**
+   * Shows an action card's new status on the message that carries it
+   */
+  const updateAction = useCallback((action: ChatActionCard) => {
+    setMessages(prev => prev.map(message => message.action?.id === action.id ? { ...message, action } : message));
+  }, []);
+
+  const renameSession = useCallback(async (sessionId: string, newTitle: string) => {
+    try {
+      const response = await fetch(`/api/chat/sessions/${sessionId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ title: newTitle })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to rename the conversation");
+      }
+      setSessions(prev => prev.map(session => session.id === sessionId ? { ...session, title: data.title } : session));
+      if (sessionId === activeSessionId) setTitle(data.title);
+    } catch (error) {
+      console.error("Error renaming conversation:", error);
+    }
+  }, [activeSessionId]);
+
+  const deleteSession = useCallback(async (sessionId: string) => {
+    try {
+      const response = await fetch(`/api/chat/sessions/${sessionId}`, { method: "DELETE" });
+      if (!response.ok) {
+        throw new Error("Failed to delete the conversation");
+      }
+      setSessions(prev => prev.filter(session => session.id !== sessionId));
+      if (sessionId === activeSessionId) startNewSession();
+    } catch (error) {
+      console.error("Error deleting conversation:", error);
+    }
+  }, [activeSessionId, startNewSession]);
+
+  const deleteAllSessions = useCallback(async () => {
+    try {
+      const response = await fetch("/api/chat/sessions", { method: "DELETE" });
+      if (!response.ok) {
+        throw new Error("Failed to delete conversations");
+      }
+      setSessions([]);
+      startNewSession();
+    } catch (error) {
+      console.error("Error deleting conversations:", error);
+    }
+  }, [startNewSession]);
+
+  return {
+    sessions,
+    query,
+    setQuery,
+    activeSessionId,
+    title,
+    messages,
+    isSending,
+    startNewSession,
+    openSession,
+    sendMessage,
+    stopGenerating,
+    updateAction,
+    renameSession,
+    deleteSession,
+    deleteAllSessions
+  };
+}
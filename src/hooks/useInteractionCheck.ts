@@ -0,0 +1,58 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { MedicationConflict } from "@/services/interactions";
+
+const CHECK_DELAY_MS = 400;
+
+/**
+ * Checks medicine names for interactions and duplicate therapy (including
+ * against the user's saved reminders) whenever the list changes
+ */
+export function useInteractionCheck(names: string[]) {
+  const [conflicts, setConflicts] = useState<MedicationConflict[]>([]);
+  const [checking, setChecking] = useState(false);
+
+  // Re-check only when the names themselves change, not the array identity
+  const key = names.filter(name => name.trim()).join("\n");
+
+  useEffect(() => {
+    if (!key) {
+      setConflicts([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setChecking(true);
+
+      try {
+        const response = await fetch("/api/user/medicine-reminder/check", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ medications: key.split("\n").map(name => ({ name })) })
+        });
+
+        if (!response.ok) {
+          throw new Error(`Error ${response.status}: Failed to check interactions`);
+        }
+
+        const data = await response.json();
+        if (!cancelled) setConflicts(data.conflicts || []);
+      } catch (error) {
+        // The check is advisory; saving still works without it
+        console.error("Error checking medicine interactions:", error);
+        if (!cancelled) setConflicts([]);
+      } finally {
+        if (!cancelled) setChecking(false);
+      }
+    }, CHECK_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [key]);
+
+  return { conflicts, checking };
+}
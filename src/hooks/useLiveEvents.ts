@@ -0,0 +1,89 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { LiveEvent } from "@/lib/events";
+
+// Named SSE events sent by /api/*/events
+const LIVE_EVENT_TYPES: LiveEvent["type"][] = [
+  "queue.updated",
+  "queue.position",
+  "doctor.assigned",
+  "receipt.completed",
+  "receipt.analysis",
+  "emergency.created",
+  "emergency.updated",
+  "emergency.escalated",
+  "emergency.withdrawn",
+  "notification.created"
+];
+
+type UseLiveEventsOptions = {
+  // Called on an interval: every `pollIntervalMs` while the stream is down and
+  // every `connectedPollIntervalMs` while it is up
+  onPoll?: () => void;
+  pollIntervalMs?: number;
+  connectedPollIntervalMs?: number;
+  enabled?: boolean;
+};
+
+/**
+ * Subscribes to a Server-Sent Events endpoint.
+ * Streams only carry events published by the server instance they are
+ * connected to, so `onPoll` keeps being called on a slow interval while
+ * connected to pick up changes made elsewhere (another instance, or a job
+ * worker in its own process), and on the faster `pollIntervalMs` while the
+ * stream is down (EventSource keeps reconnecting in the background).
+ */
+export function useLiveEvents(
+  url: string,
+  onEvent: (event: LiveEvent) => void,
+  { onPoll, pollIntervalMs = 15000, connectedPollIntervalMs = 60000, enabled = true }: UseLiveEventsOptions = {}
+) {
+  const [connected, setConnected] = useState(false);
+
+  // Keep the latest callbacks without reopening the stream on every render
+  const onEventRef = useRef(onEvent);
+  const onPollRef = useRef(onPoll);
+  useEffect(() => {
+    onEventRef.current = onEvent;
+    onPollRef.current = onPoll;
+  }, [onEvent, onPoll]);
+
+  useEffect(() => {
+    if (!enabled || typeof window === "undefined" || !("EventSource" in window)) {
+      setConnected(false);
+      return;
+    }
+
+    const source = new EventSource(url);
+
+    const handleMessage = (message: MessageEvent<string>) => {
+      try {
+        onEventRef.current(JSON.parse(message.data) as LiveEvent);
+      } catch (error) {
+        console.error("Error handling live event:", error);
+      }
+    };
+
+    source.addEventListener("ready", () => setConnected(true));
+    source.onerror = () => setConnected(false);
+    LIVE_EVENT_TYPES.forEach(type => source.addEventListener(type, handleMessage));
+
+    return () => {
+      source.close();
+      setConnected(false);
+    };
+  }, [url, enabled]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const intervalId = setInterval(
+      () => onPollRef.current?.(),
+      connected ? Math.max(connectedPollIntervalMs, pollIntervalMs) : pollIntervalMs
+    );
+    return () => clearInterval(intervalId);
+  }, [enabled, connected, pollIntervalMs, connectedPollIntervalMs]);
+
+  return { connected };
+}
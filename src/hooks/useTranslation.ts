@@ -0,0 +1,27 @@
+"use client";
+
+import { useCallback } from "react";
+import { useSession } from "next-auth/react";
+import { formatDate, toLocale, translate } from "@/lib/i18n";
+import type { MessageKey } from "@/lib/i18n";
+
+/**
+ * The signed-in user's language, with `t` for its messages and `formatDate`
+ * for its date format. English when signed out.
+ */
+export function useTranslation() {
+  const { data: session } = useSession();
+  const locale = toLocale(session?.user?.language);
+
+  const t = useCallback(
+    (key: MessageKey, values?: Record<string, string | number>) => translate(locale, key, values),
+    [locale]
+  );
+
+  const formatLocalDate = useCallback(
+    (date: Date | string, options?: Intl.DateTimeFormatOptions) => formatDate(date, locale, options),
+    [locale]
+  );
+
+  return { locale, t, formatDate: formatLocalDate };
+}
@@ -0,0 +1,9 @@
+// Runs once when the server starts
+export async function register() {
+  // The job worker needs the Node.js runtime; JOB_WORKER="false" leaves jobs
+  // to workers in other processes
+  if (process.env.NEXT_RUNTIME === 'nodejs' && process.env.JOB_WORKER !== 'false') {
+    const { startJobWorker } = await import('./services/jobs/worker');
+    startJobWorker();
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Emergency Alert Lifecycle
+ * The statuses an emergency alert moves through, which moves are allowed and
+ * who may make them, and the response times that follow from an alert's
+ * timeline. Shared by the API and the pages that show alerts.
+ */
+import type { Role } from "./permissions";
+
+export const ALERT_STATUSES = ["PENDING", "ACKNOWLEDGED", "RESPONDED", "CLOSED", "CANCELLED", "FALSE_ALARM"] as const;
+
+export type AlertStatus = typeof ALERT_STATUSES[number];
+
+// PENDING → ACKNOWLEDGED → RESPONDED → CLOSED, and an alert can be called off
+// (CANCELLED) or found to be a FALSE_ALARM until it is closed
+export const ALERT_TRANSITIONS: Record<AlertStatus, AlertStatus[]> = {
+  PENDING: ["ACKNOWLEDGED", "CANCELLED", "FALSE_ALARM"],
+  ACKNOWLEDGED: ["RESPONDED", "CANCELLED", "FALSE_ALARM"],
+  RESPONDED: ["CLOSED", "FALSE_ALARM"],
+  CLOSED: [],
+  CANCELLED: [],
+  FALSE_ALARM: []
+};
+
+// Patients may only call off their own alert; hospitals make every other move
+const ROLE_STATUSES: Record<Role, AlertStatus[]> = {
+  USER: ["CANCELLED"],
+  HOSPITAL: ["ACKNOWLEDGED", "RESPONDED", "CLOSED", "FALSE_ALARM"],
+  ADMIN: [...ALERT_STATUSES]
+};
+
+export const ALERT_STATUS_LABELS: Record<AlertStatus, string> = {
+  PENDING: "Pending",
+  ACKNOWLEDGED: "Acknowledged",
+  RESPONDED: "Responded",
+  CLOSED: "Closed",
+  CANCELLED: "Cancelled",
+  FALSE_ALARM: "False alarm"
+};
+
+/**
+ * Whether an alert has reached the end of its lifecycle
+ */
+export function isFinalStatus(status: AlertStatus) {
+  return ALERT_TRANSITIONS[status].length === 0;
+}
+
+/**
+ * The statuses someone in a role may move an alert to from its current one
+ */
+export function allowedTransitions(from: AlertStatus, role: Role) {
+  return ALERT_TRANSITIONS[from].filter(status => ROLE_STATUSES[role].includes(status));
+}
+
+export type AlertTimelineEntry = {
+  toStatus: AlertStatus;
+  createdAt: string | Date;
+};
+
+// Seconds from the alert being raised to each milestone, null until reached
+export type ResponseMetrics = {
+  acknowledgeSeconds: number | null;
+  respondSeconds: number | null;
+  resolveSeconds: number | null;
+};
+
+/**
+ * How long an alert took to be acknowledged, responded to and resolved,
+ * from its timeline
+ */
+export function responseMetrics(createdAt: string | Date, events: AlertTimelineEntry[]): ResponseMetrics {
+  const raisedAt = new Date(createdAt).getTime();
+  const secondsUntil = (reached: (status: AlertStatus) => boolean) => {
+    const event = events.find(entry => reached(entry.toStatus));
+    return event ? Math.round((new Date(event.createdAt).getTime() - raisedAt) / 1000) : null;
+  };
+
+  return {
+    acknowledgeSeconds: secondsUntil(status => status === "ACKNOWLEDGED"),
+    respondSeconds: secondsUntil(status => status === "RESPONDED"),
+    resolveSeconds: secondsUntil(isFinalStatus)
+  };
+}
+
+function median(values: number[]) {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : Math.round((sorted[middle - 1] + sorted[middle]) / 2);
+}
+
+/**
+ * Median response times over several alerts, counting only the alerts that
+ * reached each milestone
+ */
+export function summarizeResponseTimes(metrics: ResponseMetrics[]) {
+  const reached = (key: keyof ResponseMetrics) =>
+    metrics.map(entry => entry[key]).filter((seconds): seconds is number => seconds !== null);
+
+  return {
+    alerts: metrics.length,
+    acknowledged: reached("acknowledgeSeconds").length,
+    medianAcknowledgeSeconds: median(reached("acknowledgeSeconds")),
+    medianRespondSeconds: median(reached("respondSeconds"))
+  };
+}
+
+/**
+ * A duration for display, e.g. "45s", "3m 20s" or "1h 5m"
+ */
+export function formatDuration(seconds: number) {
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
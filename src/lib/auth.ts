@@ -130,6 +130,7 @@ export const authOptions: NextAuthOptions = {
           if (token.gender) session.user.gender = token.gender as string;
           if (token.phone) session.user.phone = token.phone as string;
           if (token.address) session.user.address = token.address as string;
+          if (token.language) session.user.language = token.language as string;
           
           // Add hospital info if applicable - IMPORTANT for hospital admins
           if (token.hospital) {
@@ -150,7 +151,8 @@ export const authOptions: NextAuthOptions = {
               dateOfBirth: true,
               gender: true,
               phone: true,
-              address: true
+              address: true,
+              language: true
             }
           });
           
@@ -163,6 +165,7 @@ export const authOptions: NextAuthOptions = {
             if (dbUser.gender) session.user.gender = dbUser.gender;
             if (dbUser.phone) session.user.phone = dbUser.phone;
             if (dbUser.address) session.user.address = dbUser.address;
+            if (dbUser.language) session.user.language = dbUser.language;
           }
         }
       }
@@ -186,7 +189,8 @@ export const authOptions: NextAuthOptions = {
             dateOfBirth: true,
             gender: true,
             phone: true,
-            address: true
+            address: true,
+            language: true
           }
         });
 
@@ -207,6 +211,7 @@ export const authOptions: NextAuthOptions = {
           if (dbUser.gender) token.gender = dbUser.gender;
           if (dbUser.phone) token.phone = dbUser.phone;
           if (dbUser.address) token.address = dbUser.address;
+          if (dbUser.language) token.language = dbUser.language;
         }
       }
       
@@ -222,6 +227,7 @@ export const authOptions: NextAuthOptions = {
           if (session.user.gender) token.gender = session.user.gender;
           if (session.user.phone) token.phone = session.user.phone;
           if (session.user.address) token.address = session.user.address;
+          if (session.user.language) token.language = session.user.language;
           if (session.user.hospital) token.hospital = session.user.hospital;
         }
       }
@@ -11,6 +11,7 @@ declare module "next-auth" {
     gender?: string | null;
     phone?: string | null;
     address?: string | null;
+    language?: string | null;
   }
 
   interface Session {
@@ -28,5 +29,6 @@ declare module "next-auth/jwt" {
     gender?: string | null;
     phone?: string | null;
     address?: string | null;
+    language?: string | null;
   }
 } 
\ No newline at end of file
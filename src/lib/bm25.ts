@@ -0,0 +1,97 @@
+/**
+ * BM25 Search
+ * Ranks short passages of text against a query with Okapi BM25, the
+ * classic keyword relevance score: terms that are rare across the passages
+ * count for more, and long passages do not win just by being long. Used to
+ * pick the parts of a patient's record that bear on a chat question.
+ */
+
+// Common words that say nothing about what a passage is about
+const STOPWORDS = new Set([
+  "a", "about", "after", "all", "am", "an", "and", "any", "are", "as", "at", "be", "been", "before", "but", "by",
+  "can", "could", "did", "do", "does", "for", "from", "had", "has", "have", "how", "i", "if", "in", "is", "it",
+  "its", "me", "my", "of", "on", "or", "our", "should", "so", "than", "that", "the", "their", "them", "then",
+  "there", "these", "they", "this", "to", "was", "we", "were", "what", "when", "which", "who", "why", "will",
+  "with", "would", "you", "your"
+]);
+
+// Term frequency saturation and length normalisation
+const K1 = 1.2;
+const B = 0.75;
+
+/**
+ * The searchable terms of a text: lower-cased words without stopwords, with
+ * plurals and common suffixes trimmed so "headaches" finds "headache"
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) || [])
+    .filter(word => !STOPWORDS.has(word))
+    .map(stem);
+}
+
+function stem(word: string) {
+  if (word.length <= 4) return word;
+  if (word.endsWith("ies")) return `${word.slice(0, -3)}y`;
+  if (word.endsWith("ing") && word.length > 6) return word.slice(0, -3);
+  if (word.endsWith("ed") && word.length > 5) return word.slice(0, -2);
+  if (word.endsWith("s") && !word.endsWith("ss")) return word.slice(0, -1);
+  return word;
+}
+
+export type Bm25Index = {
+  documents: Map<string, number>[];
+  lengths: number[];
+  averageLength: number;
+  // How many documents contain each term
+  documentFrequency: Map<string, number>;
+};
+
+export function createBm25Index(texts: string[]): Bm25Index {
+  const documentFrequency = new Map<string, number>();
+  const documents = texts.map(text => {
+    const counts = new Map<string, number>();
+    for (const term of tokenize(text)) {
+      counts.set(term, (counts.get(term) || 0) + 1);
+    }
+    for (const term of counts.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    }
+    return counts;
+  });
+  const lengths = documents.map(counts => [...counts.values()].reduce((sum, count) => sum + count, 0));
+
+  return {
+    documents,
+    lengths,
+    averageLength: lengths.length > 0 ? lengths.reduce((sum, length) => sum + length, 0) / lengths.length : 0,
+    documentFrequency
+  };
+}
+
+/**
+ * The documents that share a term with the query, best match first, as
+ * their positions in the indexed texts with their scores
+ */
+export function searchBm25(index: Bm25Index, query: string): { index: number; score: number }[] {
+  const terms = [...new Set(tokenize(query))];
+  const total = index.documents.length;
+
+  return index.documents
+    .map((counts, position) => {
+      let score = 0;
+
+      for (const term of terms) {
+        const frequency = counts.get(term);
+        if (!frequency) continue;
+
+        const containing = index.documentFrequency.get(term) || 0;
+        const idf = Math.log(1 + (total - containing + 0.5) / (containing + 0.5));
+        const lengthRatio = index.averageLength > 0 ? index.lengths[position] / index.averageLength : 1;
+        score += idf * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * lengthRatio));
+      }
+
+      return { index: position, score };
+    })
+    .filter(result => result.score > 0)
+    .sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,237 @@
+/**
+ * AI Chat Actions
+ * The whitelist of things the AI assistant may do on a patient's account.
+ * The assistant only proposes an action (as a tool call); it runs when the
+ * patient confirms it in the chat, through the same API route the rest of
+ * the app uses, so that route's validation and permissions apply. Shared by
+ * the chat API and the chat pages.
+ */
+import { INDIAN_STATES, REMINDER_FREQUENCIES } from "./constants";
+import type { Action, Resource } from "./permissions";
+
+export const CHAT_ACTION_NAMES = [
+  "find_hospitals",
+  "get_queue_status",
+  "list_reminders",
+  "create_reminder",
+  "book_appointment"
+] as const;
+
+export type ChatActionName = typeof CHAT_ACTION_NAMES[number];
+
+// PROPOSED → CONFIRMED (running) → DONE or FAILED, or PROPOSED → CANCELLED
+export type ChatActionStatus = "PROPOSED" | "CONFIRMED" | "DONE" | "FAILED" | "CANCELLED";
+
+export type ChatActionArgs = Record<string, string>;
+
+// What an action did, as the card shows it
+export type ChatActionResult = {
+  summary: string;
+  items?: string[];
+};
+
+export type ChatActionCard = {
+  id: string;
+  name: ChatActionName;
+  args: ChatActionArgs;
+  status: ChatActionStatus;
+  result: ChatActionResult | null;
+  error: string | null;
+};
+
+type Parameter = {
+  description: string;
+  required?: boolean;
+  enum?: readonly string[];
+  pattern?: RegExp;
+};
+
+type ActionRequest = {
+  method: "GET" | "POST";
+  url: string;
+  body?: unknown;
+};
+
+type ChatActionDefinition = {
+  label: string;
+  // Tells the model when to use the action
+  description: string;
+  parameters: Record<string, Parameter>;
+  // What the user must be allowed to do
+  permission: [Resource, Action];
+  // The question on the card, e.g. "Book an appointment at ..."
+  summarize: (args: ChatActionArgs) => string;
+  request: (args: ChatActionArgs) => ActionRequest;
+  // Turns the route's response into the card's result
+  describeResult: (data: unknown) => ChatActionResult;
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]?\d|2[0-3]):[0-5]\d$/;
+
+type HospitalRow = { name: string; city?: string | null };
+type ReportRow = { status: string; queuePosition: number | null; hospital?: { name: string } | null };
+type ReminderRow = { name: string; dosage: string; frequency: string; time: string };
+
+export const CHAT_ACTIONS: Record<ChatActionName, ChatActionDefinition> = {
+  find_hospitals: {
+    label: "Find hospitals",
+    description: "List the hospitals in an Indian state.",
+    parameters: {
+      state: { description: "The state's full name", required: true, enum: INDIAN_STATES.map(state => state.name) }
+    },
+    permission: ["hospital", "read"],
+    summarize: args => `Look up hospitals in ${args.state}`,
+    request: args => ({ method: "GET", url: `/api/hospitals?state=${encodeURIComponent(args.state)}` }),
+    describeResult: data => {
+      const hospitals = (data as { hospitals?: HospitalRow[] }).hospitals || [];
+      return {
+        summary: hospitals.length > 0 ? `${hospitals.length} hospital(s) found` : "No hospitals found",
+        items: hospitals.slice(0, 10).map(hospital => hospital.city ? `${hospital.name}, ${hospital.city}` : hospital.name)
+      };
+    }
+  },
+  get_queue_status: {
+    label: "Queue status",
+    description: "Get where the patient's submitted reports are in their hospitals' queues.",
+    parameters: {},
+    permission: ["receipt", "read"],
+    summarize: () => "Check where your reports are in the queue",
+    request: () => ({ method: "GET", url: "/api/user/reports" }),
+    describeResult: data => {
+      const reports = Array.isArray(data) ? data as ReportRow[] : [];
+      const queued = reports.filter(report => report.status === "QUEUED" && report.queuePosition !== null);
+      return {
+        summary: queued.length > 0 ? `${queued.length} report(s) waiting` : "None of your reports is waiting in a queue",
+        items: queued.map(report => `#${report.queuePosition} at ${report.hospital?.name || "your hospital"}`)
+      };
+    }
+  },
+  list_reminders: {
+    label: "Medicine reminders",
+    description: "List the patient's active medicine reminders.",
+    parameters: {},
+    permission: ["medicineReminder", "read"],
+    summarize: () => "Show your medicine reminders",
+    request: () => ({ method: "GET", url: "/api/user/medicine-reminder" }),
+    describeResult: data => {
+      const reminders = Array.isArray(data) ? data as ReminderRow[] : [];
+      return {
+        summary: reminders.length > 0 ? `${reminders.length} active reminder(s)` : "You have no active reminders",
+        items: reminders.map(reminder => `${reminder.name} ${reminder.dosage}, ${reminder.frequency} at ${reminder.time}`)
+      };
+    }
+  },
+  create_reminder: {
+    label: "New medicine reminder",
+    description: "Create a medicine reminder for the patient.",
+    parameters: {
+      name: { description: "Medicine name", required: true },
+      dosage: { description: "Dose, e.g. 500mg or 1 tablet", required: true },
+      frequency: { description: "How often", required: true, enum: REMINDER_FREQUENCIES },
+      time: { description: "Time of the first daily dose, HH:MM in 24-hour time", required: true, pattern: TIME_PATTERN },
+      startDate: { description: "First day, YYYY-MM-DD; today if left out", pattern: DATE_PATTERN },
+      notes: { description: "Instructions such as 'after food'" }
+    },
+    permission: ["medicineReminder", "create"],
+    summarize: args => `Remind you to take ${args.name} ${args.dosage}, ${args.frequency} at ${args.time}` +
+      (args.startDate ? ` from ${args.startDate}` : ""),
+    request: args => ({
+      method: "POST",
+      url: "/api/user/medicine-reminder",
+      body: [{
+        name: args.name,
+        dosage: args.dosage,
+        frequency: args.frequency,
+        time: args.time,
+        notes: args.notes || null,
+        ...(args.startDate && { startDate: args.startDate })
+      }]
+    }),
+    describeResult: data => {
+      // Interactions with the patient's other medicines
+      const { conflicts = [] } = data as { conflicts?: { message: string }[] };
+      return {
+        summary: "Reminder created",
+        items: conflicts.map(conflict => conflict.message)
+      };
+    }
+  },
+  book_appointment: {
+    label: "Book an appointment",
+    description: "Request an appointment for the patient at a hospital in their state. The hospital triages the symptoms and assigns a doctor.",
+    parameters: {
+      hospitalId: { description: "Id of a hospital from the list you were given", required: true },
+      preferredDate: { description: "Preferred day, YYYY-MM-DD, after today", required: true, pattern: DATE_PATTERN },
+      symptoms: { description: "The patient's symptoms in their own words", required: true }
+    },
+    permission: ["appointment", "create"],
+    summarize: args => `Request an appointment at ${args.hospitalName || "the hospital"} on ${args.preferredDate} for: ${args.symptoms}`,
+    request: args => ({
+      method: "POST",
+      url: "/api/appointments",
+      body: { hospitalId: args.hospitalId, preferredDate: args.preferredDate, symptoms: args.symptoms }
+    }),
+    describeResult: data => {
+      const appointment = data as { status?: string; priority?: string };
+      return {
+        summary: "Appointment requested",
+        items: [
+          appointment.status && `Status: ${appointment.status.toLowerCase()}`,
+          appointment.priority && `Priority: ${appointment.priority.toLowerCase()}`
+        ].filter((item): item is string => Boolean(item))
+      };
+    }
+  }
+};
+
+export function isChatActionName(name: string): name is ChatActionName {
+  return (CHAT_ACTION_NAMES as readonly string[]).includes(name);
+}
+
+/**
+ * An action's arguments with unknown ones dropped, or an error naming the
+ * first one that is missing or invalid
+ */
+export function validateChatActionArgs(name: ChatActionName, args: Record<string, unknown>): { args: ChatActionArgs } | { error: string } {
+  const cleaned: ChatActionArgs = {};
+
+  for (const [key, parameter] of Object.entries(CHAT_ACTIONS[name].parameters)) {
+    const value = typeof args[key] === "string" ? (args[key] as string).trim() : "";
+
+    if (!value) {
+      if (parameter.required) return { error: `${key} is required` };
+      continue;
+    }
+    if (parameter.enum && !parameter.enum.includes(value)) {
+      return { error: `${key} must be one of ${parameter.enum.join(", ")}` };
+    }
+    if (parameter.pattern && !parameter.pattern.test(value)) {
+      return { error: `${key} is not in the expected format` };
+    }
+
+    cleaned[key] = value;
+  }
+
+  return { args: cleaned };
+}
+
+/**
+ * The action as a tool declaration for the AI provider
+ */
+export function chatActionTool(name: ChatActionName) {
+  const { description, parameters } = CHAT_ACTIONS[name];
+
+  return {
+    name,
+    description,
+    parameters: {
+      type: "object" as const,
+      properties: Object.fromEntries(Object.entries(parameters).map(([key, parameter]) => [
+        key,
+        { type: "string" as const, description: parameter.description, ...(parameter.enum && { enum: [...parameter.enum] }) }
+      ])),
+      required: Object.entries(parameters).filter(([, parameter]) => parameter.required).map(([key]) => key)
+    }
+  };
+}
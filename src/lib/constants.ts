@@ -41,4 +41,14 @@ export const INDIAN_STATES = [
   { id: "LA", name: "Ladakh" },
   { id: "LD", name: "Lakshadweep" },
   { id: "PY", name: "Puducherry" }
-]; 
\ No newline at end of file
+]; 
+
+// Medicine reminder frequency codes ("biweekly" means twice a week)
+export const REMINDER_FREQUENCIES = [
+  "daily",
+  "twice-daily",
+  "thrice-daily",
+  "weekly",
+  "biweekly",
+  "monthly"
+] as const;
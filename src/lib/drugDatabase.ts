@@ -0,0 +1,266 @@
+/**
+ * Drug Database
+ * Local reference data for the medicine interaction checker: which active
+ * ingredients common products contain, which therapeutic class each
+ * ingredient belongs to, and known interactions between them.
+ * Not exhaustive; it covers medicines commonly seen on Indian prescriptions.
+ */
+
+export type InteractionSeverity = "minor" | "moderate" | "major";
+
+// Alternative names for the same ingredient, mapped to the name used below
+export const INGREDIENT_ALIASES: Record<string, string> = {
+  "acetaminophen": "paracetamol",
+  "apap": "paracetamol",
+  "acetylsalicylic acid": "aspirin",
+  "asa": "aspirin",
+  "clavulanic acid": "clavulanate",
+  "potassium clavulanate": "clavulanate",
+  "salbutamol": "albuterol",
+  "glyceryl trinitrate": "nitroglycerin",
+  "levothyroxine sodium": "levothyroxine",
+  "thyroxine": "levothyroxine",
+  "ferrous sulphate": "ferrous sulfate",
+  "calcium": "calcium carbonate",
+  "chlorphenamine": "chlorpheniramine"
+};
+
+// Active ingredients of branded and combination products
+export const PRODUCT_INGREDIENTS: Record<string, string[]> = {
+  "crocin": ["paracetamol"],
+  "dolo": ["paracetamol"],
+  "calpol": ["paracetamol"],
+  "tylenol": ["paracetamol"],
+  "panadol": ["paracetamol"],
+  "combiflam": ["ibuprofen", "paracetamol"],
+  "sinarest": ["paracetamol", "phenylephrine", "chlorpheniramine", "caffeine"],
+  "d cold": ["paracetamol", "phenylephrine", "chlorpheniramine"],
+  "vicks action": ["paracetamol", "phenylephrine", "caffeine"],
+  "coldact": ["paracetamol", "phenylephrine", "chlorpheniramine"],
+  "saridon": ["paracetamol", "propyphenazone", "caffeine"],
+  "zerodol p": ["aceclofenac", "paracetamol"],
+  "hifenac p": ["aceclofenac", "paracetamol"],
+  "brufen": ["ibuprofen"],
+  "advil": ["ibuprofen"],
+  "disprin": ["aspirin"],
+  "ecosprin": ["aspirin"],
+  "voveran": ["diclofenac"],
+  "volini": ["diclofenac"],
+  "naprosyn": ["naproxen"],
+  "ultracet": ["tramadol", "paracetamol"],
+  "augmentin": ["amoxicillin", "clavulanate"],
+  "moxikind cv": ["amoxicillin", "clavulanate"],
+  "azithral": ["azithromycin"],
+  "ciplox": ["ciprofloxacin"],
+  "claribid": ["clarithromycin"],
+  "bactrim": ["sulfamethoxazole", "trimethoprim"],
+  "septran": ["sulfamethoxazole", "trimethoprim"],
+  "glycomet": ["metformin"],
+  "amaryl": ["glimepiride"],
+  "janumet": ["sitagliptin", "metformin"],
+  "lipitor": ["atorvastatin"],
+  "atorva": ["atorvastatin"],
+  "zocor": ["simvastatin"],
+  "plavix": ["clopidogrel"],
+  "clopilet": ["clopidogrel"],
+  "warf": ["warfarin"],
+  "coumadin": ["warfarin"],
+  "omez": ["omeprazole"],
+  "pan": ["pantoprazole"],
+  "pan d": ["pantoprazole", "domperidone"],
+  "razo": ["rabeprazole"],
+  "gelusil": ["aluminium hydroxide", "magnesium hydroxide"],
+  "digene": ["aluminium hydroxide", "magnesium hydroxide"],
+  "telma": ["telmisartan"],
+  "losar": ["losartan"],
+  "envas": ["enalapril"],
+  "amlong": ["amlodipine"],
+  "aldactone": ["spironolactone"],
+  "lanoxin": ["digoxin"],
+  "cordarone": ["amiodarone"],
+  "thyronorm": ["levothyroxine"],
+  "eltroxin": ["levothyroxine"],
+  "shelcal": ["calcium carbonate", "cholecalciferol"],
+  "livogen": ["ferrous fumarate", "folic acid"],
+  "viagra": ["sildenafil"],
+  "sorbitrate": ["isosorbide dinitrate"],
+  "nitrocontin": ["nitroglycerin"],
+  "zoloft": ["sertraline"],
+  "prozac": ["fluoxetine"],
+  "nexito": ["escitalopram"],
+  "tramazac": ["tramadol"],
+  "cetzine": ["cetirizine"],
+  "allegra": ["fexofenadine"],
+  "avil": ["pheniramine"],
+  "montair lc": ["montelukast", "levocetirizine"],
+  "folitrax": ["methotrexate"]
+};
+
+// Therapeutic classes. Two different ingredients of the same class usually
+// mean duplicate therapy.
+export const INGREDIENT_CLASSES: Record<string, string[]> = {
+  "nsaid": ["ibuprofen", "diclofenac", "naproxen", "aceclofenac", "aspirin", "ketorolac", "mefenamic acid", "etoricoxib"],
+  "ppi": ["omeprazole", "pantoprazole", "rabeprazole", "esomeprazole", "lansoprazole"],
+  "statin": ["atorvastatin", "simvastatin", "rosuvastatin", "lovastatin"],
+  "ssri": ["sertraline", "fluoxetine", "escitalopram", "paroxetine", "citalopram"],
+  "ace inhibitor": ["enalapril", "lisinopril", "ramipril"],
+  "arb": ["losartan", "telmisartan", "olmesartan", "valsartan"],
+  "antihistamine": ["cetirizine", "levocetirizine", "fexofenadine", "chlorpheniramine", "pheniramine", "loratadine"],
+  "nitrate": ["nitroglycerin", "isosorbide dinitrate", "isosorbide mononitrate"],
+  "macrolide": ["clarithromycin", "erythromycin"],
+  "antacid": ["aluminium hydroxide", "magnesium hydroxide"],
+  "iron": ["ferrous sulfate", "ferrous fumarate"],
+  "sulfonylurea": ["glimepiride", "gliclazide", "glibenclamide"]
+};
+
+// Classes whose members are taken together on purpose, so they are not
+// reported as duplicate therapy
+export const COMBINABLE_CLASSES = ["antacid"];
+
+// Known interactions. Each side is an ingredient or a class name.
+export const DRUG_INTERACTIONS: {
+  between: [string, string];
+  severity: InteractionSeverity;
+  description: string;
+}[] = [
+  {
+    between: ["warfarin", "nsaid"],
+    severity: "major",
+    description: "Greatly increases the risk of serious bleeding."
+  },
+  {
+    between: ["clopidogrel", "nsaid"],
+    severity: "moderate",
+    description: "Increases the risk of stomach and intestinal bleeding."
+  },
+  {
+    between: ["warfarin", "clarithromycin"],
+    severity: "major",
+    description: "Raises warfarin levels and the risk of bleeding."
+  },
+  {
+    between: ["warfarin", "paracetamol"],
+    severity: "minor",
+    description: "Regular paracetamol use can raise INR; occasional doses are usually fine."
+  },
+  {
+    between: ["clopidogrel", "omeprazole"],
+    severity: "moderate",
+    description: "Omeprazole reduces how well clopidogrel protects against clots."
+  },
+  {
+    between: ["simvastatin", "macrolide"],
+    severity: "major",
+    description: "Raises statin levels and the risk of muscle damage (rhabdomyolysis)."
+  },
+  {
+    between: ["atorvastatin", "macrolide"],
+    severity: "moderate",
+    description: "Raises statin levels and the risk of muscle pain or damage."
+  },
+  {
+    between: ["sildenafil", "nitrate"],
+    severity: "major",
+    description: "Can cause a dangerous drop in blood pressure."
+  },
+  {
+    between: ["ssri", "tramadol"],
+    severity: "major",
+    description: "Risk of serotonin syndrome and seizures."
+  },
+  {
+    between: ["ssri", "nsaid"],
+    severity: "moderate",
+    description: "Increases the risk of stomach bleeding."
+  },
+  {
+    between: ["ace inhibitor", "spironolactone"],
+    severity: "moderate",
+    description: "Can raise potassium to dangerous levels."
+  },
+  {
+    between: ["arb", "spironolactone"],
+    severity: "moderate",
+    description: "Can raise potassium to dangerous levels."
+  },
+  {
+    between: ["ace inhibitor", "potassium chloride"],
+    severity: "moderate",
+    description: "Can raise potassium to dangerous levels."
+  },
+  {
+    between: ["arb", "potassium chloride"],
+    severity: "moderate",
+    description: "Can raise potassium to dangerous levels."
+  },
+  {
+    between: ["ace inhibitor", "nsaid"],
+    severity: "moderate",
+    description: "Reduces the blood pressure effect and can harm the kidneys."
+  },
+  {
+    between: ["arb", "nsaid"],
+    severity: "moderate",
+    description: "Reduces the blood pressure effect and can harm the kidneys."
+  },
+  {
+    between: ["methotrexate", "trimethoprim"],
+    severity: "major",
+    description: "Raises methotrexate toxicity, including bone marrow suppression."
+  },
+  {
+    between: ["methotrexate", "nsaid"],
+    severity: "major",
+    description: "Reduces methotrexate clearance and raises its toxicity."
+  },
+  {
+    between: ["digoxin", "amiodarone"],
+    severity: "major",
+    description: "Raises digoxin levels; the digoxin dose usually needs to be halved."
+  },
+  {
+    between: ["digoxin", "clarithromycin"],
+    severity: "moderate",
+    description: "Raises digoxin levels."
+  },
+  {
+    between: ["levothyroxine", "calcium carbonate"],
+    severity: "moderate",
+    description: "Reduces levothyroxine absorption. Take them at least 4 hours apart."
+  },
+  {
+    between: ["levothyroxine", "iron"],
+    severity: "moderate",
+    description: "Reduces levothyroxine absorption. Take them at least 4 hours apart."
+  },
+  {
+    between: ["levothyroxine", "antacid"],
+    severity: "moderate",
+    description: "Reduces levothyroxine absorption. Take them at least 4 hours apart."
+  },
+  {
+    between: ["ciprofloxacin", "calcium carbonate"],
+    severity: "moderate",
+    description: "Reduces ciprofloxacin absorption. Take it 2 hours before or 6 hours after."
+  },
+  {
+    between: ["ciprofloxacin", "iron"],
+    severity: "moderate",
+    description: "Reduces ciprofloxacin absorption. Take it 2 hours before or 6 hours after."
+  },
+  {
+    between: ["ciprofloxacin", "antacid"],
+    severity: "moderate",
+    description: "Reduces ciprofloxacin absorption. Take it 2 hours before or 6 hours after."
+  },
+  {
+    between: ["metformin", "sulfonylurea"],
+    severity: "minor",
+    description: "Commonly prescribed together, but watch for low blood sugar."
+  },
+  {
+    between: ["phenylephrine", "caffeine"],
+    severity: "minor",
+    description: "Both can raise heart rate and blood pressure."
+  }
+];
@@ -0,0 +1,65 @@
+/**
+ * Live Event Bus
+ * In-process publish/subscribe used to push queue and emergency updates to
+ * Server-Sent Event streams. Each hospital and each patient has its own channel.
+ *
+ * Events only reach subscribers connected to the same server instance, so
+ * events published by another instance or by a job worker running in its own
+ * process (JOB_WORKER="false" here) are not streamed. Clients keep polling on a
+ * slow interval even while connected (see useLiveEvents) to pick those up.
+ */
+import { EventEmitter } from 'events';
+
+export type QueuePositionChange = {
+  receiptId: string;
+  userId: string;
+  queuePosition: number;
+};
+
+export type LiveEvent =
+  | { type: 'queue.updated'; hospitalId: string; positions: QueuePositionChange[] }
+  | { type: 'queue.position'; receiptId: string; queuePosition: number }
+  | { type: 'doctor.assigned'; receiptId: string; doctor: { id: string; name: string; specialty: string } | null }
+  | { type: 'receipt.completed'; receiptId: string; hospitalId: string | null }
+  | { type: 'receipt.analysis'; receiptId: string; status: 'PENDING' | 'PROCESSING' | 'FAILED'; error: string | null }
+  | { type: 'emergency.created'; alertId: string; hospitalId: string; userId: string; status: string; createdAt: string }
+  | { type: 'emergency.updated'; alertId: string; hospitalId: string; userId: string; status: string }
+  | { type: 'emergency.escalated'; alertId: string; userId: string; level: number; mode: 'REROUTE' | 'BROADCAST'; hospitals: { id: string; name: string }[]; nextEscalationAt: string | null }
+  | { type: 'emergency.withdrawn'; alertId: string; hospitalId: string; reason: 'rerouted' | 'claimed' | 'closed' }
+  | { type: 'notification.created'; notificationId: string; title: string; body: string; link: string | null; createdAt: string };
+
+type LiveEventListener = (event: LiveEvent) => void;
+
+// Keep a single emitter per process: route handlers may be bundled separately
+// and development hot reloads re-evaluate this module
+const globalForEvents = global as unknown as { liveEventEmitter?: EventEmitter };
+
+const emitter = globalForEvents.liveEventEmitter || new EventEmitter();
+// Every open dashboard tab is a listener, so lift the default limit of 10
+emitter.setMaxListeners(0);
+globalForEvents.liveEventEmitter = emitter;
+
+export function hospitalChannel(hospitalId: string) {
+  return `hospital:${hospitalId}`;
+}
+
+export function patientChannel(userId: string) {
+  return `patient:${userId}`;
+}
+
+/**
+ * Publishes an event to every subscriber of a channel
+ */
+export function publishEvent(channel: string, event: LiveEvent) {
+  emitter.emit(channel, event);
+}
+
+/**
+ * Subscribes to a channel and returns a function that unsubscribes
+ */
+export function subscribe(channel: string, listener: LiveEventListener) {
+  emitter.on(channel, listener);
+  return () => {
+    emitter.off(channel, listener);
+  };
+}
@@ -0,0 +1,98 @@
+/**
+ * Geographic helpers for finding the hospitals nearest a patient
+ */
+import { pincodeCentroid, pincodeFromAddress } from "./pincodeCentroids";
+
+export type Coordinates = { latitude: number; longitude: number };
+
+// Anything that may carry a location: exact coordinates, or a PIN code (on
+// its own or at the end of an address) to fall back on
+export type Locatable = {
+  latitude?: number | null;
+  longitude?: number | null;
+  pincode?: string | null;
+  address?: string | null;
+};
+
+const EARTH_RADIUS_KM = 6371;
+
+function toRadians(degrees: number) {
+  return (degrees * Math.PI) / 180;
+}
+
+/**
+ * Whether a latitude and longitude are numbers within range
+ */
+export function isValidCoordinates(latitude: unknown, longitude: unknown) {
+  return typeof latitude === "number" && typeof longitude === "number" &&
+    Number.isFinite(latitude) && Number.isFinite(longitude) &&
+    Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180;
+}
+
+/**
+ * Great-circle distance between two points, in kilometres
+ */
+export function haversineKm(from: Coordinates, to: Coordinates) {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * Where something is: its own coordinates when it has them, otherwise the
+ * centre of its PIN code area, otherwise null
+ */
+export function locate(place: Locatable): Coordinates | null {
+  if (isValidCoordinates(place.latitude, place.longitude)) {
+    return { latitude: place.latitude as number, longitude: place.longitude as number };
+  }
+  return pincodeCentroid(place.pincode || pincodeFromAddress(place.address));
+}
+
+/**
+ * Places with their distance from an origin, nearest first. Places that
+ * cannot be located keep their order, after all the others, with a null
+ * distance.
+ */
+export function rankByDistance<T extends Locatable>(origin: Coordinates | null, places: T[]) {
+  const ranked = places.map(place => {
+    const location = origin ? locate(place) : null;
+    const distanceKm = origin && location ? Math.round(haversineKm(origin, location) * 10) / 10 : null;
+    return { ...place, distanceKm };
+  });
+
+  return ranked.sort((a, b) => {
+    if (a.distanceKm === null || b.distanceKm === null) {
+      return (a.distanceKm === null ? 1 : 0) - (b.distanceKm === null ? 1 : 0);
+    }
+    return a.distanceKm - b.distanceKm;
+  });
+}
+
+/**
+ * A distance for display, e.g. "850 m" or "12.4 km"
+ */
+export function formatDistance(distanceKm: number) {
+  return distanceKm < 1 ? `${Math.round(distanceKm * 1000)} m` : `${distanceKm.toFixed(1)} km`;
+}
+
+/**
+ * The browser's current position, or null when the user declines to share
+ * it, the browser cannot tell, or it takes longer than `timeoutMs`. Browser
+ * only.
+ */
+export function getBrowserLocation(timeoutMs = 5000): Promise<Coordinates | null> {
+  if (typeof navigator === "undefined" || !navigator.geolocation) {
+    return Promise.resolve(null);
+  }
+
+  return new Promise(resolve => {
+    navigator.geolocation.getCurrentPosition(
+      position => resolve({ latitude: position.coords.latitude, longitude: position.coords.longitude }),
+      () => resolve(null),
+      { timeout: timeoutMs, maximumAge: 5 * 60 * 1000 }
+    );
+  });
+}
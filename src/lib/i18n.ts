@@ -0,0 +1,96 @@
+/**
+ * Internationalisation
+ * The languages the app speaks, their message catalogs (src/locales) and
+ * locale-aware date formatting. Each user picks a language on their
+ * profile; the pages use it through useTranslation and the API writes the
+ * patient's AI output in it, while staff keep English. Shared by the API and
+ * the pages.
+ */
+import { INDIAN_STATES } from "./constants";
+import en from "@/locales/en";
+import hi from "@/locales/hi";
+import ta from "@/locales/ta";
+import te from "@/locales/te";
+import bn from "@/locales/bn";
+import mr from "@/locales/mr";
+
+export const LOCALES = ["en", "hi", "ta", "te", "bn", "mr"] as const;
+
+export type Locale = typeof LOCALES[number];
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+// `name` is what prompts ask the AI to write in; `nativeName` is what the
+// language picker shows
+export const LANGUAGES: Record<Locale, { name: string; nativeName: string }> = {
+  en: { name: "English", nativeName: "English" },
+  hi: { name: "Hindi", nativeName: "हिन्दी" },
+  ta: { name: "Tamil", nativeName: "தமிழ்" },
+  te: { name: "Telugu", nativeName: "తెలుగు" },
+  bn: { name: "Bengali", nativeName: "বাংলা" },
+  mr: { name: "Marathi", nativeName: "मराठी" }
+};
+
+export type MessageKey = keyof typeof en;
+
+export type Messages = Record<MessageKey, string>;
+
+const CATALOGS: Record<Locale, Messages> = { en, hi, ta, te, bn, mr };
+
+// The language most of a state's patients read, by state code
+const STATE_LOCALES: Record<string, Locale> = {
+  AP: "te",
+  TS: "te",
+  TN: "ta",
+  PY: "ta",
+  WB: "bn",
+  TR: "bn",
+  MH: "mr",
+  BR: "hi",
+  CG: "hi",
+  DL: "hi",
+  HR: "hi",
+  HP: "hi",
+  JH: "hi",
+  MP: "hi",
+  RJ: "hi",
+  UP: "hi",
+  UK: "hi"
+};
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === "string" && (LOCALES as readonly string[]).includes(value);
+}
+
+/**
+ * The locale a stored preference names, or English
+ */
+export function toLocale(value: unknown): Locale {
+  return isLocale(value) ? value : DEFAULT_LOCALE;
+}
+
+/**
+ * A message in `locale`, with `{name}` placeholders filled from `values`.
+ * Falls back to English for a message the catalog lacks.
+ */
+export function translate(locale: Locale, key: MessageKey, values: Record<string, string | number> = {}) {
+  const message = CATALOGS[locale][key] || CATALOGS[DEFAULT_LOCALE][key];
+  return message.replace(/\{(\w+)\}/g, (placeholder, name) => name in values ? String(values[name]) : placeholder);
+}
+
+/**
+ * Formats a date (and time, with the matching options) as readers of
+ * `locale` in India expect it, e.g. "12 मार्च 2025"
+ */
+export function formatDate(date: Date | string, locale: Locale, options: Intl.DateTimeFormatOptions = { dateStyle: "medium" }) {
+  return new Intl.DateTimeFormat(`${locale}-IN`, options).format(new Date(date));
+}
+
+/**
+ * The language to suggest to a patient from their state, given as its code
+ * or name; null where no single language of ours is the common one
+ */
+export function suggestedLocale(state: string | null | undefined): Locale | null {
+  const code = INDIAN_STATES.find(indianState => indianState.id === state || indianState.name === state)?.id;
+  return code ? STATE_LOCALES[code] || null : null;
+}
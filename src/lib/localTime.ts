@@ -0,0 +1,90 @@
+// Local wall-clock time
+// Shifts and medicine dose times are entered as wall-clock times in the
+// hospital's time zone; these helpers convert them to and from UTC instants.
+
+// Hospitals and their patients are configured in a single time zone
+export const HOSPITAL_TIMEZONE = process.env.HOSPITAL_TIMEZONE || 'Asia/Kolkata';
+
+export const MINUTE_MS = 60 * 1000;
+
+function zonedParts(date: Date) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: HOSPITAL_TIMEZONE,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(date);
+
+  const value = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  return {
+    year: value('year'),
+    month: value('month'),
+    day: value('day'),
+    hour: value('hour'),
+    minute: value('minute'),
+    second: value('second')
+  };
+}
+
+// Minutes the hospital's clock is ahead of UTC at the given instant
+function timezoneOffsetMinutes(date: Date) {
+  const p = zonedParts(date);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / MINUTE_MS);
+}
+
+/**
+ * Converts a hospital-local calendar date (YYYY-MM-DD) and minute of the day
+ * to the matching instant
+ */
+export function localTimeToDate(date: string, minuteOfDay: number) {
+  const [year, month, day] = date.split('-').map(Number);
+  const guess = Date.UTC(year, month - 1, day, 0, minuteOfDay);
+  return new Date(guess - timezoneOffsetMinutes(new Date(guess)) * MINUTE_MS);
+}
+
+/**
+ * Returns the hospital-local calendar date (YYYY-MM-DD) of an instant
+ */
+export function toLocalDate(date: Date) {
+  const p = zonedParts(date);
+  return `${p.year}-${String(p.month).padStart(2, '0')}-${String(p.day).padStart(2, '0')}`;
+}
+
+/**
+ * Day of the week (0 = Sunday) of a local calendar date
+ */
+export function localDayOfWeek(date: string) {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+/**
+ * Adds calendar days to a local date (YYYY-MM-DD)
+ */
+export function addDays(date: string, days: number) {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+/**
+ * Parses "HH:MM" into minutes after midnight, or null if malformed
+ */
+export function parseTimeOfDay(value: string) {
+  const match = value.match(/^([01]?\d|2[0-4]):([0-5]\d)$/);
+  if (!match) return null;
+
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  return minutes <= 24 * 60 ? minutes : null;
+}
+
+/**
+ * Formats minutes after midnight as "HH:MM"
+ */
+export function formatTimeOfDay(minutes: number) {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
@@ -0,0 +1,156 @@
+/**
+ * Permissions
+ * Central role-based access control: which role may perform which action on
+ * which resource, and how far that reaches (own records, their hospital's
+ * records, or everything).
+ */
+
+export const ROLES = ["USER", "HOSPITAL", "ADMIN"] as const;
+
+export type Role = typeof ROLES[number];
+
+export type Resource =
+  | "appointment"
+  // Receipts and medical reports (reports are stored as receipts)
+  | "receipt"
+  | "medicineReminder"
+  | "emergencyAlert"
+  | "queue"
+  | "doctor"
+  | "hospital"
+  // Which hospital a staff account belongs to
+  | "hospitalAssignment"
+  | "patient"
+  | "profile"
+  | "stats"
+  | "auditLog"
+  // The user's in-app notification inbox
+  | "notification"
+  // Browsers that receive the user's push reminders
+  | "pushSubscription"
+  // Conversations with the AI assistant
+  | "chatSession"
+  // Chat messages that raised emergency red flags, for clinical review
+  | "redFlagEvent"
+  // A patient's whole record as a FHIR bundle, for export and import
+  | "healthRecord"
+  | "debug";
+
+export type Action = "read" | "create" | "update" | "delete";
+
+// own: records of the user, hospital: records of the user's hospital, all: any record
+export type Scope = "own" | "hospital" | "all";
+
+type Grants = Partial<Record<Resource, Partial<Record<Action, Scope>>>>;
+
+const ALL: Record<Action, Scope> = { read: "all", create: "all", update: "all", delete: "all" };
+
+export const PERMISSIONS: Record<Role, Grants> = {
+  USER: {
+    appointment: { read: "own", create: "own", update: "own" },
+    receipt: { read: "own", create: "own", delete: "own" },
+    medicineReminder: { read: "own", create: "own", update: "own", delete: "own" },
+    emergencyAlert: { read: "own", create: "own", update: "own" },
+    hospital: { read: "all" },
+    profile: { read: "own", update: "own" },
+    // Who accessed their records
+    auditLog: { read: "own" },
+    notification: { read: "own", update: "own" },
+    pushSubscription: { read: "own", create: "own", delete: "own" },
+    chatSession: { read: "own", create: "own", update: "own", delete: "own" },
+    healthRecord: { read: "own", create: "own" }
+  },
+  HOSPITAL: {
+    appointment: { read: "hospital", update: "hospital" },
+    receipt: { read: "hospital", update: "hospital" },
+    emergencyAlert: { read: "hospital", update: "hospital" },
+    queue: { read: "hospital" },
+    doctor: { read: "hospital", update: "hospital" },
+    hospital: { read: "all", update: "hospital", delete: "hospital" },
+    hospitalAssignment: { update: "own" },
+    patient: { read: "hospital" },
+    profile: { read: "own", update: "own" },
+    notification: { read: "own", update: "own" },
+    chatSession: { read: "own", create: "own", update: "own", delete: "own" },
+    // The records a patient has with their hospital
+    healthRecord: { read: "hospital" }
+  },
+  ADMIN: {
+    appointment: { read: "all", update: "all" },
+    receipt: { read: "all", update: "all", delete: "all" },
+    medicineReminder: { read: "own", create: "own", update: "own", delete: "own" },
+    emergencyAlert: { read: "all", update: "all" },
+    queue: { read: "all" },
+    doctor: ALL,
+    hospital: ALL,
+    hospitalAssignment: { update: "all" },
+    patient: { read: "all" },
+    profile: { read: "own", update: "own" },
+    stats: { read: "all" },
+    auditLog: { read: "all" },
+    notification: { read: "own", update: "own" },
+    pushSubscription: { read: "own", create: "own", delete: "own" },
+    chatSession: { read: "own", create: "own", update: "own", delete: "own" },
+    redFlagEvent: { read: "all", update: "all" },
+    healthRecord: { read: "all" },
+    debug: ALL
+  }
+};
+
+export type PermissionUser = {
+  id: string;
+  role: Role;
+  hospital?: string | null;
+};
+
+// Who a record belongs to. Leave out fields the resource does not have.
+export type ResourceOwner = {
+  userId?: string | null;
+  hospitalId?: string | null;
+};
+
+export function isRole(value: unknown): value is Role {
+  return (ROLES as readonly unknown[]).includes(value);
+}
+
+/**
+ * How far a role's permission for an action on a resource reaches, or null
+ * when the role may not perform it at all
+ */
+export function permissionScope(role: Role, resource: Resource, action: Action): Scope | null {
+  return PERMISSIONS[role][resource]?.[action] ?? null;
+}
+
+/**
+ * Whether the user may perform an action on a resource. Without a target this
+ * only checks the role; with one it also checks the record is within scope.
+ */
+export function can(user: PermissionUser, resource: Resource, action: Action, target?: ResourceOwner) {
+  const scope = permissionScope(user.role, resource, action);
+
+  if (!scope) return false;
+  if (!target || scope === "all") return true;
+
+  if (scope === "own") {
+    return Boolean(target.userId) && target.userId === user.id;
+  }
+
+  return Boolean(user.hospital) && target.hospitalId === user.hospital;
+}
+
+/**
+ * Conditions that limit a list query to the records the user may access, or
+ * null when they may access none (e.g. a hospital account with no hospital)
+ */
+export function scopeWhere(
+  user: PermissionUser,
+  resource: Resource,
+  action: Action
+): { userId?: string; hospitalId?: string } | null {
+  const scope = permissionScope(user.role, resource, action);
+
+  if (scope === "all") return {};
+  if (scope === "own") return { userId: user.id };
+  if (scope === "hospital" && user.hospital) return { hospitalId: user.hospital };
+  return null;
+}
@@ -0,0 +1,139 @@
+/**
+ * PIN Code Centroids
+ * Approximate centres of Indian postal regions, used to place a patient or a
+ * hospital on the map when no coordinates are known. The first two digits of
+ * a PIN code narrow it to a region of a state; the first three pick out the
+ * major cities and the smaller states that share a region with their
+ * neighbours. Good to tens of kilometres, which is enough to rank hospitals.
+ */
+import type { Coordinates } from "./geo";
+
+// Postal regions by the first two digits of the PIN code
+export const REGION_CENTROIDS: Record<string, [number, number]> = {
+  "11": [28.61, 77.21], // Delhi
+  "12": [28.9, 76.6], // Haryana: Gurugram, Rohtak
+  "13": [29.7, 76.9], // Haryana: Ambala, Panipat
+  "14": [31.0, 75.6], // Punjab: Ludhiana, Jalandhar
+  "15": [30.4, 75.3], // Punjab: Patiala, Bathinda
+  "16": [30.73, 76.78], // Chandigarh
+  "17": [31.5, 77.2], // Himachal Pradesh
+  "18": [32.73, 74.86], // Jammu
+  "19": [34.08, 74.8], // Kashmir
+  "20": [27.3, 78.5], // Uttar Pradesh: Aligarh, Kanpur
+  "21": [25.5, 81.8], // Uttar Pradesh: Prayagraj, Banda
+  "22": [26.6, 81.5], // Uttar Pradesh: Lucknow, Ayodhya
+  "23": [25.5, 82.7], // Uttar Pradesh: Mirzapur, Ghazipur
+  "24": [28.6, 79.0], // Uttar Pradesh: Bareilly, Moradabad
+  "25": [29.0, 77.7], // Uttar Pradesh: Meerut, Muzaffarnagar
+  "26": [28.0, 80.5], // Uttar Pradesh: Sitapur, Lakhimpur
+  "27": [26.8, 83.0], // Uttar Pradesh: Gorakhpur, Basti
+  "28": [27.0, 78.5], // Uttar Pradesh: Agra, Jhansi
+  "30": [26.9, 75.8], // Rajasthan: Jaipur
+  "31": [26.2, 75.0], // Rajasthan: Ajmer, Tonk
+  "32": [25.2, 75.9], // Rajasthan: Kota
+  "33": [27.8, 74.0], // Rajasthan: Bikaner, Sikar
+  "34": [26.2, 73.0], // Rajasthan: Jodhpur
+  "36": [22.3, 70.8], // Gujarat: Saurashtra
+  "37": [23.0, 70.0], // Gujarat: Kutch, Jamnagar
+  "38": [23.0, 72.6], // Gujarat: Ahmedabad
+  "39": [21.9, 73.0], // Gujarat: Vadodara, Surat
+  "40": [19.0, 73.0], // Maharashtra: Mumbai, Konkan
+  "41": [18.8, 74.3], // Maharashtra: Pune, Ahmednagar
+  "42": [20.3, 74.5], // Maharashtra: Nashik, Jalgaon
+  "43": [19.5, 76.0], // Maharashtra: Marathwada
+  "44": [20.8, 78.5], // Maharashtra: Vidarbha
+  "45": [22.8, 76.0], // Madhya Pradesh: Indore, Ujjain
+  "46": [23.3, 77.6], // Madhya Pradesh: Bhopal
+  "47": [25.0, 78.5], // Madhya Pradesh: Gwalior, Sagar
+  "48": [23.3, 80.5], // Madhya Pradesh: Jabalpur, Rewa
+  "49": [21.5, 82.0], // Chhattisgarh
+  "50": [17.6, 79.0], // Telangana
+  "51": [15.0, 78.3], // Andhra Pradesh: Rayalaseema
+  "52": [16.0, 80.3], // Andhra Pradesh: Vijayawada, Guntur
+  "53": [17.3, 82.5], // Andhra Pradesh: Visakhapatnam
+  "56": [13.0, 77.5], // Karnataka: Bengaluru
+  "57": [12.8, 75.8], // Karnataka: Mysuru, Mangaluru
+  "58": [16.0, 76.0], // Karnataka: Hubballi, Kalaburagi
+  "59": [15.5, 74.8], // Karnataka: Belagavi
+  "60": [13.0, 80.0], // Tamil Nadu: Chennai
+  "61": [10.8, 79.5], // Tamil Nadu: Thanjavur
+  "62": [9.9, 78.3], // Tamil Nadu: Madurai, Tiruchirappalli
+  "63": [11.8, 78.5], // Tamil Nadu: Salem, Vellore
+  "64": [11.0, 77.0], // Tamil Nadu: Coimbatore
+  "67": [11.3, 75.9], // Kerala: Kozhikode
+  "68": [10.0, 76.4], // Kerala: Kochi
+  "69": [8.7, 76.8], // Kerala: Thiruvananthapuram
+  "70": [22.6, 88.4], // West Bengal: Kolkata
+  "71": [22.8, 88.0], // West Bengal: Howrah, Hooghly
+  "72": [23.0, 87.5], // West Bengal: Bardhaman, Medinipur
+  "73": [26.7, 88.4], // West Bengal: Siliguri
+  "74": [23.6, 88.3], // West Bengal: Nadia, Murshidabad
+  "75": [20.4, 85.8], // Odisha: Bhubaneswar, Cuttack
+  "76": [19.3, 84.8], // Odisha: Berhampur
+  "77": [21.5, 84.0], // Odisha: Sambalpur
+  "78": [26.2, 91.7], // Assam
+  "79": [25.5, 93.5], // North East
+  "80": [25.6, 85.1], // Bihar: Patna
+  "81": [25.0, 87.0], // Bihar: Bhagalpur; Jharkhand: Santhal Pargana
+  "82": [24.0, 85.5], // Bihar: Gaya; Jharkhand: Hazaribagh, Dhanbad
+  "83": [23.3, 85.5], // Jharkhand: Ranchi, Jamshedpur
+  "84": [26.1, 85.4], // Bihar: Muzaffarpur
+  "85": [26.0, 86.8] // Bihar: Darbhanga, Purnia
+};
+
+// Cities and small states, by the first three digits of the PIN code
+export const DISTRICT_CENTROIDS: Record<string, [number, number]> = {
+  "160": [30.73, 76.78], // Chandigarh
+  "194": [34.15, 77.58], // Leh
+  "226": [26.85, 80.95], // Lucknow
+  "248": [30.32, 78.03], // Dehradun
+  "302": [26.91, 75.79], // Jaipur
+  "380": [23.02, 72.57], // Ahmedabad
+  "400": [19.08, 72.88], // Mumbai
+  "403": [15.5, 73.9], // Goa
+  "411": [18.52, 73.86], // Pune
+  "462": [23.26, 77.41], // Bhopal
+  "492": [21.25, 81.63], // Raipur
+  "500": [17.39, 78.49], // Hyderabad
+  "560": [12.97, 77.59], // Bengaluru
+  "600": [13.08, 80.27], // Chennai
+  "605": [11.93, 79.83], // Puducherry
+  "682": [9.97, 76.28], // Kochi
+  "700": [22.57, 88.36], // Kolkata
+  "737": [27.33, 88.61], // Sikkim
+  "744": [11.62, 92.73], // Andaman and Nicobar Islands
+  "751": [20.3, 85.82], // Bhubaneswar
+  "781": [26.14, 91.74], // Guwahati
+  "790": [27.08, 93.61], // Arunachal Pradesh
+  "791": [27.08, 93.61], // Arunachal Pradesh
+  "792": [27.08, 93.61], // Arunachal Pradesh
+  "793": [25.58, 91.89], // Meghalaya
+  "794": [25.58, 91.89], // Meghalaya
+  "795": [24.82, 93.94], // Manipur
+  "796": [23.73, 92.72], // Mizoram
+  "797": [25.67, 94.11], // Nagaland
+  "798": [26.3, 94.5], // Nagaland
+  "799": [23.83, 91.28], // Tripura
+  "800": [25.59, 85.14], // Patna
+  "834": [23.34, 85.31] // Ranchi
+};
+
+/**
+ * The PIN code at the end of an address, e.g. "12 MG Road, 560001"
+ */
+export function pincodeFromAddress(address: string | null | undefined) {
+  const match = address?.match(/\b(\d{6})\s*$/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Approximate centre of the area a PIN code serves, or null when the code is
+ * not a known Indian PIN code
+ */
+export function pincodeCentroid(pincode: string | null | undefined): Coordinates | null {
+  const digits = pincode?.replace(/\s/g, "");
+  if (!digits || !/^[1-9]\d{5}$/.test(digits)) return null;
+
+  const centroid = DISTRICT_CENTROIDS[digits.slice(0, 3)] || REGION_CENTROIDS[digits.slice(0, 2)];
+  return centroid ? { latitude: centroid[0], longitude: centroid[1] } : null;
+}
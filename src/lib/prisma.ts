@@ -19,6 +19,75 @@ console.log('Database connection info:');
 console.log('- DATABASE_URL:', process.env.DATABASE_URL?.substring(0, 70) + '...');
 console.log('- DIRECT_URL:', process.env.DIRECT_URL?.substring(0, 70) + '...');
 
+// Runs a query, retrying with exponential backoff while the database cannot
+// be reached
+export async function retryOnConnectionError<T>(
+  run: () => Promise<T>,
+  context: { operation: string; model?: string }
+): Promise<T> {
+  let retries = 0;
+  let lastError = null;
+
+  while (retries < MAX_RETRIES) {
+    try {
+      // Attempt to execute the query
+      return await run();
+    } catch (error: any) {
+      lastError = error;
+      
+      // Enhanced error handling with more connection error codes
+      if (
+        error.code === 'P1001' || // Can't reach database server
+        error.code === 'P1002' || // Database connection timed out
+        error.code === 'P1017' || // Server closed the connection
+        error.code === 'P1008' || // Operations timed out
+        error.code === 'P1011' || // Error opening a transaction
+        error.code === 'P1012' || // Missing required field
+        error.code === 'P1013' || // The provided database string is invalid
+        error.code === 'P1014' || // Underlying resource error
+        error.code === 'P1015'    // Your Prisma schema is using features that are not supported by the version of the database
+      ) {
+        console.warn(`Database connection error (attempt ${retries + 1}/${MAX_RETRIES}):`, {
+          code: error.code,
+          message: error.message,
+          action: context.operation,
+          model: context.model
+        });
+        
+        retries++;
+        
+        // Exponential backoff for retry delays with some randomization
+        const jitter = Math.random() * 500; // Random jitter between 0-500ms
+        const backoffDelay = RETRY_DELAY_MS * Math.pow(1.5, retries - 1) + jitter;
+        console.log(`Retrying in ${Math.round(backoffDelay)}ms...`);
+        
+        // Wait before retrying with exponential backoff
+        await new Promise(resolve => setTimeout(resolve, backoffDelay));
+        continue;
+      }
+      
+      // For other errors, throw immediately
+      console.error(`Non-connection Prisma error:`, {
+        code: error.code,
+        message: error.message,
+        action: context.operation,
+        model: context.model
+      });
+      throw error;
+    }
+  }
+  
+  // All retries failed
+  console.error(`All database connection attempts failed after ${MAX_RETRIES} retries:`, {
+    error: lastError,
+    code: lastError?.code,
+    message: lastError?.message,
+    action: context.operation,
+    model: context.model
+  });
+  throw lastError;
+}
+
 // Function to create a new PrismaClient with enhanced retry logic
 function createPrismaClient() {
   const client = new PrismaClient({
@@ -34,72 +103,15 @@ function createPrismaClient() {
     }
   });
 
-  // Add middleware to handle connection errors with improved retry logic
-  client.$use(async (params, next) => {
-    let retries = 0;
-    let lastError = null;
-
-    while (retries < MAX_RETRIES) {
-      try {
-        // Attempt to execute the query
-        return await next(params);
-      } catch (error: any) {
-        lastError = error;
-        
-        // Enhanced error handling with more connection error codes
-        if (
-          error.code === 'P1001' || // Can't reach database server
-          error.code === 'P1002' || // Database connection timed out
-          error.code === 'P1017' || // Server closed the connection
-          error.code === 'P1008' || // Operations timed out
-          error.code === 'P1011' || // Error opening a transaction
-          error.code === 'P1012' || // Missing required field
-          error.code === 'P1013' || // The provided database string is invalid
-          error.code === 'P1014' || // Underlying resource error
-          error.code === 'P1015'    // Your Prisma schema is using features that are not supported by the version of the database
-        ) {
-          console.warn(`Database connection error (attempt ${retries + 1}/${MAX_RETRIES}):`, {
-            code: error.code,
-            message: error.message,
-            action: params.action,
-            model: params.model
-          });
-          
-          retries++;
-          
-          // Exponential backoff for retry delays with some randomization
-          const jitter = Math.random() * 500; // Random jitter between 0-500ms
-          const backoffDelay = RETRY_DELAY_MS * Math.pow(1.5, retries - 1) + jitter;
-          console.log(`Retrying in ${Math.round(backoffDelay)}ms...`);
-          
-          // Wait before retrying with exponential backoff
-          await new Promise(resolve => setTimeout(resolve, backoffDelay));
-          continue;
-        }
-        
-        // For other errors, throw immediately
-        console.error(`Non-connection Prisma error:`, {
-          code: error.code,
-          message: error.message,
-          action: params.action,
-          model: params.model
-        });
-        throw error;
+  // Retry every query (including raw queries and those in transactions) on
+  // connection errors
+  return client.$extends({
+    query: {
+      $allOperations({ model, operation, args, query }) {
+        return retryOnConnectionError(() => query(args), { operation, model });
       }
     }
-    
-    // All retries failed
-    console.error(`All database connection attempts failed after ${MAX_RETRIES} retries:`, {
-      error: lastError,
-      code: lastError?.code,
-      message: lastError?.message,
-      action: params.action,
-      model: params.model
-    });
-    throw lastError;
   });
-
-  return client;
 }
 
 // Ensure PrismaClient is only instantiated once per server
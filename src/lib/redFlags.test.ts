@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { detectRedFlags } from './redFlags';
+
+function flagIds(message: string) {
+  return detectRedFlags(message).map(flag => flag.id);
+}
+
+// Each language in its own script and in Latin letters
+const MESSAGES: [language: string, message: string, flag: string][] = [
+  ['en', 'I have crushing pain in my chest', 'cardiac'],
+  ['en', 'my lips are blue', 'breathing'],
+
+  ['hi', 'मेरे सीने में बहुत तेज दर्द हो रहा है', 'cardiac'],
+  ['hi', 'seene mein tez dard ho raha hai', 'cardiac'],
+  ['hi', 'पापा का मुँह टेढ़ा हो गया है', 'stroke'],
+  ['hi', 'mujhe saans nahi aa rahi', 'breathing'],
+  ['hi', 'खून बंद नहीं हो रहा', 'bleeding'],
+  ['hi', 'gale mein soojan aa gayi', 'anaphylaxis'],
+  ['hi', 'दादी बेहोश हो गई', 'unconscious'],
+  ['hi', 'bachche ko mirgi ka daura pada', 'seizure'],
+  ['hi', 'उसने ज़हर खा लिया', 'overdose'],
+  ['hi', 'main atmahatya karna chahta hoon', 'self-harm'],
+
+  ['mr', 'छातीत खूप दुखत आहे', 'cardiac'],
+  ['mr', 'shwas gheta yet nahi', 'breathing'],
+  ['mr', 'रक्त थांबत नाही', 'bleeding'],
+  ['mr', 'aai beshuddh padli', 'unconscious'],
+  ['mr', 'मला मरायचं आहे', 'self-harm'],
+
+  ['bn', 'বুকে প্রচণ্ড ব্যথা', 'cardiac'],
+  ['bn', 'shwas nite parchi na', 'breathing'],
+  ['bn', 'জিভ ফুলে গেছে', 'anaphylaxis'],
+  ['bn', 'baba ogyan hoye gechen', 'unconscious'],
+  ['bn', 'ছেলের খিঁচুনি হচ্ছে', 'seizure'],
+  ['bn', 'more jete chai', 'self-harm'],
+
+  ['ta', 'கடுமையான நெஞ்சு வலி', 'cardiac'],
+  ['ta', 'அப்பாவுக்கு பக்கவாதம்', 'stroke'],
+  ['ta', 'moochu vida mudiyala', 'breathing'],
+  ['ta', 'ரத்தம் நிற்கவில்லை', 'bleeding'],
+  ['ta', 'thambi visham kudichitan', 'overdose'],
+  ['ta', 'தற்கொலை செய்ய தோன்றுகிறது', 'self-harm'],
+
+  ['te', 'gunde potu vachindi', 'cardiac'],
+  ['te', 'ఊపిరి ఆడటం లేదు', 'breathing'],
+  ['te', 'నాలుక వాచిపోయింది', 'anaphylaxis'],
+  ['te', 'amma spruha kolpoyindi', 'unconscious'],
+  ['te', 'పురుగుల మందు తాగాడు', 'overdose'],
+  ['te', 'chanipovaalani undi', 'self-harm']
+];
+
+const DENIED = [
+  'no chest pain, just a cough',
+  'सीने में तेज दर्द नहीं है',
+  'seene mein tez dard nahi hai',
+  'বুকে প্রচণ্ড ব্যথা নেই',
+  'kadumaiyana nenju vali illai',
+  'రక్తం వాంతి లేదు',
+  'dadi behosh nahi hui'
+];
+
+describe('detectRedFlags', () => {
+  it.each(MESSAGES)('finds the red flag in a %s message: %s', (_language, message, flag) => {
+    expect(flagIds(message)).toEqual([flag]);
+  });
+
+  it.each(DENIED)('ignores a denied symptom: %s', message => {
+    expect(flagIds(message)).toEqual([]);
+  });
+
+  it('tells a heart attack apart from a seizure', () => {
+    expect(flagIds('पिछले साल दिल का दौरा पड़ा था')).toEqual(['cardiac']);
+    expect(flagIds('dil ka daura pada tha')).toEqual(['cardiac']);
+    expect(flagIds('उसे दौरा पड़ा है')).toEqual(['seizure']);
+  });
+
+  it('matches ड़ typed as one character or as ड plus a nukta', () => {
+    expect(flagIds('उसे दौरा प\u095Cा है')).toEqual(['seizure']);
+    expect(flagIds('उसे दौरा प\u0921\u093Cा है')).toEqual(['seizure']);
+  });
+});
@@ -0,0 +1,281 @@
+/**
+ * Emergency Red Flags
+ * Symptoms that need emergency care rather than a chat reply. The chat API
+ * checks every message against these before asking the assistant, and on a
+ * match answers with an emergency card instead. Shared by the API and the
+ * chat pages.
+ *
+ * Besides English, the patterns cover the chat's other languages (Hindi,
+ * Marathi, Bengali, Tamil and Telugu), written in their own script or in Latin
+ * letters. Indic scripts have no \b word boundaries, so those patterns match
+ * word stems instead.
+ */
+
+export type RedFlag = {
+  id: string;
+  label: string;
+  // What to do while help is on the way
+  advice: string;
+  patterns: RegExp[];
+};
+
+// The national ambulance number
+export const EMERGENCY_NUMBER = "108";
+
+export const RED_FLAGS: RedFlag[] = [
+  {
+    id: "cardiac",
+    label: "Possible heart attack",
+    advice: "Stop what you are doing and sit down. If you are not allergic to it, chew one aspirin.",
+    patterns: [
+      /\b(crushing|squeezing|severe|heavy|tight)\b[^.?!]{0,30}\bchest\b/i,
+      /\bchest (pain|pressure|tightness)\b[^.?!]{0,60}\b(arm|jaw|sweat\w*|breath\w*)\b/i,
+      /\bhaving a heart attack\b/i,
+      // Hindi and Marathi
+      /(सीन|छाती)[^.?!।]{0,12}(तेज|भारी|बहुत|तीव्र|खूप|असहनीय)\s*(दर्द|दुख|वेदना)|दिल का दौरा|हार्ट अटैक|हार्ट अटॅक|हृदयविकाराचा झटका/,
+      /\b(seene|sine|seena|chhati|chati|chhatit)\b[^.?!]{0,12}\b(tez|tej|bhari|bahut|tivra|khup)\s+(dard|dukh\w*|vedana)\b|\b(dil ka daura|hrudayvikaracha zatka)\b/i,
+      // Bengali
+      /বুক[^.?!।]{0,8}(প্রচণ্ড|তীব্র|ভীষণ|খুব)\s*ব্যথা|হার্ট অ্যাটাক/,
+      /\bbuke?\s+(prochondo|tibro|bhishon|khub)\s+byat?ha\b/i,
+      // Tamil
+      /(கடுமையான|பயங்கர)[^.?!]{0,8}நெஞ்ச|நெஞ்ச[^.?!]{0,8}(கடுமையான|பயங்கர)|மாரடைப்பு/,
+      /\b((kadumaiyana|bayangara) nenju ?vali|maa?radaippu)\b/i,
+      // Telugu
+      /(తీవ్రమైన|భరించలేని)[^.?!]{0,8}ఛాత|గుండె ?పోటు/,
+      /\b((teevramaina|tivramaina) (chaati|chati|chathi) noppi|gunde ?potu)\b/i
+    ]
+  },
+  {
+    id: "stroke",
+    label: "Possible stroke",
+    advice: "Note the time the symptoms started. Do not eat or drink anything.",
+    patterns: [
+      /\b(face|mouth)\b[^.?!]{0,20}\bdroop\w*/i,
+      /\bslurr\w* (speech|words)\b/i,
+      /\b(numb|weak)\w*\b[^.?!]{0,30}\bone side\b/i,
+      /\bhaving a stroke\b/i,
+      // Hindi and Marathi
+      /लकवा|ब्रेन स्ट्रोक|अर्धांगवायू|पक्षाघात|(मुँह|मुंह|चेहरा|तोंड)\s*(टेढ|वाकड)/,
+      /\b(lakwa|lakva|brain stroke|ardhangvayu|pakshaghat|(muh|munh|chehra) (tedha|terha))\b/i,
+      // Bengali
+      /স্ট্রোক|পক্ষাঘাত|মুখ\s*বেঁকে/,
+      /\b(pokkhaghat|mukh benke)\b/i,
+      // Tamil
+      /பக்கவாதம்|முகம்\s*கோணல்/,
+      /\bpakkava(a|d)?tham\b/i,
+      // Telugu
+      /పక్షవాతం|మూతి\s*వంకర/,
+      /\bpakshava(a)?th?am\b/i
+    ]
+  },
+  {
+    id: "breathing",
+    label: "Severe difficulty breathing",
+    advice: "Sit upright and loosen tight clothing. Use your reliever inhaler if you have one.",
+    patterns: [
+      /\b(can'?t|cannot|unable to|struggling to) breathe?\b/i,
+      /\bnot breathing\b/i,
+      /\bchoking\b/i,
+      /\blips? (are |turning )?(blue|grey|gray)\b/i,
+      // Hindi and Marathi
+      /(सांस|साँस|श्वास)\s*(नहीं|नही)\s*(ले|आ)|दम\s*घुट|श्वास\s*घेता\s*येत\s*नाही|श्वास\s*कोंड/,
+      /\b((saans|sans|saas|swas) (nahi|nahin|nhi) (le|aa)|dam ghut\w*|shwas gheta yet nahi)\b/i,
+      // Bengali
+      /শ্বাস\s*নিতে\s*পারছি\s*না|দম\s*বন্ধ/,
+      /\b(shwas nite parchi na|dom bondho)\b/i,
+      // Tamil
+      /மூச்சு\s*விட\s*(முடியவில்லை|முடியல)|மூச்சுத்?\s*திணற/,
+      /\b(moochu vida (mudiyavillai|mudiyala)|moochu ?thinar\w*)\b/i,
+      // Telugu
+      /ఊపిరి\s*ఆడ(టం|డం)?\s*లేదు|శ్వాస\s*తీసుకోలేక/,
+      /\b(oopiri aada(tam|dam)? ledu|swasa teesukoleka)\b/i
+    ]
+  },
+  {
+    id: "bleeding",
+    label: "Severe bleeding",
+    advice: "Press firmly on the wound with a clean cloth and keep pressing.",
+    patterns: [
+      /\b(severe|heavy|uncontrolled)\b[^.?!]{0,20}\bbleed\w*/i,
+      /\bbleed\w*\b[^.?!]{0,20}\b(won'?t|will not|doesn'?t|does not|not) stop/i,
+      /\b(vomit\w*|throwing up|coughing up) blood\b/i,
+      // Hindi and Marathi
+      /(खून|रक्त)[^.?!।]{0,8}(बंद|रुक|थांबत)\s*(नहीं|नही|नाही)|खून\s*की\s*उल्टी|रक्ताची\s*उलटी/,
+      /\b((khoon|khun|rakt) (band|ruk|thambat) (nahi|nahin|nhi)|(khoon|khun) ki ulti|raktachi ulti)\b/i,
+      // Bengali
+      /রক্ত[^.?!।]{0,8}বন্ধ\s*হচ্ছে\s*না|রক্ত\s*বমি|প্রচুর\s*রক্তপাত/,
+      /\b(rokto (pora )?bondho hochch?e na|rokto bomi)\b/i,
+      // Tamil
+      /ரத்தம்\s*நிற்க(வில்லை|ல)|ரத்த\s*வாந்தி/,
+      /\b(i?ratham nikka(villai|la)|i?ratha vaanthi)\b/i,
+      // Telugu
+      /రక్తం\s*ఆగ(డం|టం)?\s*లేదు|రక్తపు\s*వాంతి|రక్తం\s*వాంతి/,
+      /\b(rakth?am aaga(dam|tam)? ledu|rakth?(apu|am) vaanthi)\b/i
+    ]
+  },
+  {
+    id: "anaphylaxis",
+    label: "Possible severe allergic reaction",
+    advice: "Use an adrenaline auto-injector if you have one. Lie down with your legs raised unless it is hard to breathe.",
+    patterns: [
+      /\banaphyla\w*/i,
+      /\b(throat|tongue|lips?)\b[^.?!]{0,20}\bswell\w*/i,
+      /\bswell\w*\b[^.?!]{0,20}\b(throat|tongue)\b/i,
+      // Hindi and Marathi
+      /(गला|गले|जीभ|होंठ|घसा|ओठ)[^.?!।]{0,8}(सूज|सुज)/,
+      /\b(gala|gale|jeebh|jibh|honth|ghasa|oth)\b[^.?!]{0,8}\b(sooj|suj)\w*/i,
+      // Bengali
+      /(গলা|জিভ|ঠোঁট)[^.?!।]{0,8}ফুল/,
+      /\b(gola|jibh|thot)\b[^.?!]{0,8}\bphul\w*/i,
+      // Tamil
+      /(தொண்டை|நாக்கு|உதடு)[^.?!]{0,8}வீ(ங்க|க்க)/,
+      /\b(thondai|naakku|udhadu)\b[^.?!]{0,8}\bvee(ng|kk)\w*/i,
+      // Telugu
+      /(గొంతు|నాలుక|పెదవ)[^.?!]{0,8}(వాపు|వాచ)/,
+      /\b(gonthu|gontu|naaluka|naluka|pedavi)\w*\b[^.?!]{0,8}\b(vaapu|vaach\w*)/i
+    ]
+  },
+  {
+    id: "unconscious",
+    label: "Loss of consciousness",
+    advice: "If someone is unresponsive but breathing, turn them on their side. Do not leave them alone.",
+    patterns: [
+      /\b(unconscious|unresponsive|passed out|fainted|collapsed)\b/i,
+      /\bwon'?t wake up\b/i,
+      // Hindi and Marathi
+      /बेहोश|होश\s*(नहीं|नही)|बेशुद्ध|शुद्ध\s*हरपल/,
+      /\b(behosh\w*|hosh (nahi|nahin|nhi)|beshuddh?|shuddh harapal\w*)\b/i,
+      // Bengali
+      /অজ্ঞান|জ্ঞান\s*হারি/,
+      /\b(ogyan|ojnan|agyan|gyan hari\w*)\b/i,
+      // Tamil
+      /மயங்கி\s*விழு|சுயநினைவு\s*இல்ல/,
+      /\b(mayangi vizh?u\w*|suyaninaivu illa\w*)\b/i,
+      // Telugu
+      /స్పృహ\s*(కోల్పోయ|లేదు|తప్ప)/,
+      /\bsp?ruha (kolpoy\w*|ledu|tappi\w*)\b/i
+    ]
+  },
+  {
+    id: "seizure",
+    label: "Seizure",
+    advice: "Move hard objects away and do not put anything in the mouth. Time how long it lasts.",
+    patterns: [
+      /\b(seizure|convulsi\w*|fitting)\b/i,
+      // Hindi and Marathi ("दिल का दौरा" is a heart attack)
+      /मिर्गी|(?<!दिल\s*का\s*)दौर(ा|े)\s*पड़|झटके\s*(आ|येत)|आकडी|फिट\s*(आ|येत)/,
+      /\b(mirgi|jhatke aa\w*|a?akadi|fit aa\w*)\b|(?<!\bdil ka )\bdaur(a|e) pa(d|r)\w*/i,
+      // Bengali
+      /খিঁচুনি|মৃগী/,
+      /\b(khi(n)?chuni|mrigi)\b/i,
+      // Tamil
+      /வலிப்பு/,
+      /\bvalippu\b/i,
+      // Telugu
+      /ఫిట్స్|మూర్ఛ/,
+      /\b(moorc?cha|fits vach\w*)\b/i
+    ]
+  },
+  {
+    id: "overdose",
+    label: "Possible overdose or poisoning",
+    advice: "Do not try to make yourself sick. Keep the packet or bottle to show the medical team.",
+    patterns: [
+      /\boverdos\w*/i,
+      /\b(took|swallowed|taken|drank)\b[^.?!]{0,30}\b(too many|whole (bottle|strip|packet)|poison|bleach|pesticide)\b/i,
+      // Hindi and Marathi
+      /(ज़?हर|विष)\s*(खा|पी|प्या|घेत)|(बहुत|सारी|खूप)\s*(गोलियां|गोलियाँ|गोळ्या)\s*(खा|घेत)/,
+      /\b((zeher|zehar|zahar|jahar) (kha|pi)\w*|vish (pyayl|ghetl|khall)\w*|(bahut|saari|khup) (goliyan|golya) (kha|ghet)\w*)/i,
+      // Bengali
+      /বিষ\s*খে|অনেক\s*(ওষুধ|ট্যাবলেট)\s*খে/,
+      /\b(bish kh?e\w*|onek (oshudh|tablet) kh?e\w*)/i,
+      // Tamil
+      /விஷம்\s*குடி|பூச்சி\s*மருந்து\s*குடி|நிறைய\s*மாத்திரை/,
+      /\b(visham kudi\w*|poochi marunthu kudi\w*)/i,
+      // Telugu
+      /విషం\s*తాగ|పురుగుల\s*మందు\s*తాగ|చాలా\s*మాత్రలు\s*మింగ/,
+      /\b(visham th?aag\w*|purugula mandu th?aag\w*)/i
+    ]
+  },
+  {
+    id: "self-harm",
+    label: "Thoughts of suicide or self-harm",
+    advice: "You are not alone. Tele-MANAS (14416) is free and open all day and night, or stay with someone you trust.",
+    patterns: [
+      /\b(kill|hurt|harm) myself\b/i,
+      /\bsuicid\w*/i,
+      /\bend my life\b/i,
+      /\bwant to die\b/i,
+      // Hindi and Marathi
+      /आत्महत्या|मरना\s*चाहत|खुद\s*को\s*(मार|खत्म)|मरायच|जीव\s*द्याय/,
+      /\b(a?atmahatya|marna chaht[ai]|khud ko (maar|khatam)|marayach\w*|jeev dyaych\w*)\b/i,
+      // Bengali
+      /আত্মহত্যা|মরে\s*যেতে\s*চাই|নিজেকে\s*শেষ\s*করে/,
+      /\b(atmoh?otta|atmahotya|more jete chai|nijeke shesh kore)\b/i,
+      // Tamil
+      /தற்கொலை|சாக\s*வேண்டும்|சாகணும்/,
+      /\b(th?arkolai|saaga ?venum|saaganum)\b/i,
+      // Telugu
+      /ఆత్మహత్య|చనిపోవాల/,
+      /\b(aath?mahath?ya|chanipovaal\w*)\b/i
+    ]
+  }
+];
+
+// "no chest pain", "not choking", "without any bleeding"
+const NEGATION = /\b(no|not|never|without|denies|don'?t have)\s+(\w+\s+){0,2}$/i;
+
+// In the Indic languages the denial follows the symptom: "सीने में तेज दर्द
+// नहीं है", "nenju vali illai", "বুকে ব্যথা নেই"
+const NEGATION_AFTER = /^\s*(है\s*|hai\s+)?(नहीं|नही|नाही|না|নেই|নাই|இல்லை|இல்ல|లేదు|లేవు|nahi|nahin|nhi|nai|nei|illai|illa|ledu|levu)(?![\p{L}\p{M}])/iu;
+
+export type RedFlagMatch = Omit<RedFlag, "patterns">;
+
+/**
+ * The red flags a message raises, in the order of RED_FLAGS. Symptoms the
+ * message denies ("no chest pain") do not count.
+ */
+export function detectRedFlags(message: string): RedFlagMatch[] {
+  // Letters with a nukta (ड़, ज़) may be typed as one character or two
+  const text = message.normalize("NFC");
+
+  return RED_FLAGS
+    .filter(flag => flag.patterns.some(pattern => {
+      const match = pattern.exec(text);
+      if (match === null) return false;
+
+      const end = match.index + match[0].length;
+      return !NEGATION.test(text.slice(Math.max(0, match.index - 30), match.index)) &&
+        !NEGATION_AFTER.test(text.slice(end, end + 20));
+    }))
+    .map(({ id, label, advice }) => ({ id, label, advice }));
+}
+
+/**
+ * Labels of red flags by id, e.g. for an alert raised from the chat
+ */
+export function redFlagLabels(ids: string[]) {
+  return ids.map(id => RED_FLAGS.find(flag => flag.id === id)?.label || id);
+}
+
+// What the chat shows instead of an assistant reply
+export type EmergencyCard = {
+  // The logged case, so an alert raised from the card is linked to it
+  eventId: string | null;
+  flags: RedFlagMatch[];
+  // Where a one-tap alert goes; null sends it to the nearest hospital
+  hospital: { id: string; name: string } | null;
+  // Whether the user may raise an emergency alert
+  canRaiseAlert: boolean;
+};
+
+/**
+ * The chat reply stored with an emergency card
+ */
+export function emergencyReply(flags: RedFlagMatch[]) {
+  return [
+    `What you describe may be a medical emergency (${flags.map(flag => flag.label.toLowerCase()).join(", ")}).`,
+    `Call ${EMERGENCY_NUMBER} for an ambulance now, or send an emergency alert to your hospital.`,
+    ...flags.map(flag => flag.advice)
+  ].join(" ");
+}
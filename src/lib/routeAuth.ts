@@ -0,0 +1,183 @@
+/**
+ * Route authorization
+ * Wraps API route handlers so they only run for signed-in users whose role
+ * grants the route's permission (see permissions.ts), and lets them record
+ * access to patient data in the audit trail. Public routes that personalize
+ * their answer use withOptionalAuth, and requests that carry a signed token
+ * instead of a session use withSignedToken.
+ */
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import type { Session } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { can, isRole } from "@/lib/permissions";
+import type { Action, PermissionUser, Resource, ResourceOwner } from "@/lib/permissions";
+import { auditRequestInfo, recordAudit, toAuditAction } from "@/services/audit";
+import type { AuditTarget } from "@/services/audit";
+
+export type AuthContext<P> = {
+  params: P;
+  session: Session;
+  user: PermissionUser;
+};
+
+// The resource defaults to the route's resource
+type AuditInput = Omit<AuditTarget, "resource"> & { resource?: string };
+
+type Authorization = {
+  // Whether the user may perform the route's action (or another one) on a record
+  can: (target: ResourceOwner, action?: Action) => boolean;
+  // Records the route's action (or another one) on patients' records
+  audit: (targets: AuditInput | AuditInput[], action?: Action) => Promise<void>;
+};
+
+export type AuthorizedContext<P> = AuthContext<P> & Authorization;
+
+// Signed-out visitors get null session and user
+export type OptionalAuthContext<P> = {
+  params: P;
+  session: Session | null;
+  user: PermissionUser | null;
+};
+
+// A request authorized by a signed token instead of a session; `token` is
+// what the token resolved to
+export type SignedTokenContext<P, T> = {
+  params: P;
+  user: PermissionUser;
+  token: T;
+} & Authorization;
+
+export function unauthorized(message = "Unauthorized") {
+  return NextResponse.json({ error: message }, { status: 401 });
+}
+
+export function forbidden(message = "Forbidden") {
+  return NextResponse.json({ error: message }, { status: 403 });
+}
+
+// Resolves the signed-in user, or the response to send when there is none
+async function authenticate<P>(context: { params: P } | undefined): Promise<AuthContext<P> | Response> {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.id) {
+    return unauthorized();
+  }
+
+  const role = session.user.role;
+
+  if (!isRole(role)) {
+    console.error(`❌ Unknown role "${role}" for user ${session.user.id}`);
+    return forbidden();
+  }
+
+  return {
+    params: context?.params as P,
+    session,
+    user: { id: session.user.id, role, hospital: session.user.hospital ?? null }
+  };
+}
+
+// Checks the user's role against the route's permission and binds `can` and
+// `audit` to them, or returns the response to send when the role falls short
+function authorize(
+  request: Request,
+  user: PermissionUser,
+  resource: Resource,
+  action: Action
+): Authorization | Response {
+  if (!can(user, resource, action)) {
+    console.log(`❌ ${user.role} user ${user.id} may not ${action} ${resource}`);
+    return forbidden("Forbidden: your role does not allow this action");
+  }
+
+  return {
+    can: (target, otherAction) => can(user, resource, otherAction ?? action, target),
+    audit: (targets, otherAction) => recordAudit(
+      user,
+      toAuditAction(otherAction ?? action),
+      (Array.isArray(targets) ? targets : [targets]).map(target => ({ ...target, resource: target.resource ?? resource })),
+      auditRequestInfo(request)
+    )
+  };
+}
+
+/**
+ * Runs the handler only for users whose role may perform `action` on
+ * `resource`. Record-level checks are left to the handler through `can`.
+ */
+export function withPermission<P = Record<string, never>>(
+  resource: Resource,
+  action: Action,
+  handler: (request: Request, context: AuthorizedContext<P>) => Promise<Response>
+) {
+  return async (request: Request, context: { params: P }) => {
+    const auth = await authenticate(context);
+    if (auth instanceof Response) return auth;
+
+    const authorization = authorize(request, auth.user, resource, action);
+    if (authorization instanceof Response) return authorization;
+
+    return handler(request, { ...auth, ...authorization });
+  };
+}
+
+/**
+ * Runs the handler for any signed-in user
+ */
+export function withAuth<P = Record<string, never>>(
+  handler: (request: Request, context: AuthContext<P>) => Promise<Response>
+) {
+  return async (request: Request, context: { params: P }) => {
+    const auth = await authenticate(context);
+    if (auth instanceof Response) return auth;
+
+    return handler(request, auth);
+  };
+}
+
+/**
+ * Runs the handler for everyone, passing the signed-in user when there is
+ * one. For public routes that personalize their answer; the handler does its
+ * own permission checks with can().
+ */
+export function withOptionalAuth<P = Record<string, never>>(
+  handler: (request: Request, context: OptionalAuthContext<P>) => Promise<Response>
+) {
+  return async (request: Request, context: { params: P }) => {
+    const auth = await authenticate(context);
+
+    if (auth instanceof Response) {
+      return handler(request, { params: context?.params as P, session: null, user: null });
+    }
+
+    return handler(request, auth);
+  };
+}
+
+/**
+ * Runs the handler for requests that carry a signed token instead of a
+ * session, e.g. from a service worker. `verify` resolves the token to the
+ * user it acts for, or null when it is invalid or expired; that user's role
+ * must grant `action` on `resource` as with withPermission.
+ */
+export function withSignedToken<T, P = Record<string, never>>(
+  resource: Resource,
+  action: Action,
+  verify: (request: Request) => Promise<{ user: PermissionUser; token: T } | null>,
+  handler: (request: Request, context: SignedTokenContext<P, T>) => Promise<Response>
+) {
+  return async (request: Request, context: { params: P }) => {
+    // The handler may still read the body the token came in
+    const verified = await verify(request.clone());
+
+    if (!verified) {
+      return forbidden("Invalid or expired token");
+    }
+
+    const authorization = authorize(request, verified.user, resource, action);
+    if (authorization instanceof Response) return authorization;
+
+    return handler(request, { params: context?.params as P, ...verified, ...authorization });
+  };
+}
@@ -0,0 +1,76 @@
+/**
+ * Server-Sent Events helper
+ * Turns one or more live event channels into a text/event-stream response.
+ */
+import { subscribe } from '@/lib/events';
+import type { LiveEvent } from '@/lib/events';
+
+// Comment lines keep proxies from closing idle connections
+const HEARTBEAT_INTERVAL_MS = 25000;
+
+// Tells EventSource how long to wait before reconnecting
+const RETRY_MS = 5000;
+
+export const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache, no-transform',
+  'Connection': 'keep-alive',
+  'X-Accel-Buffering': 'no'
+};
+
+/**
+ * One named event in text/event-stream format
+ */
+export function formatEvent(type: string, data: unknown) {
+  return `event: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Streams events from the given channels until the client disconnects
+ */
+export function createEventStream(request: Request, channels: string[]): Response {
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // Stream already closed
+          cleanup();
+        }
+      };
+
+      const onEvent = (event: LiveEvent) => {
+        send(formatEvent(event.type, event));
+      };
+
+      const unsubscribers = channels.map(channel => subscribe(channel, onEvent));
+      const heartbeat = setInterval(() => send(`: heartbeat\n\n`), HEARTBEAT_INTERVAL_MS);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribers.forEach(unsubscribe => unsubscribe());
+        cleanup = () => {};
+      };
+
+      request.signal.addEventListener('abort', () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+
+      send(`retry: ${RETRY_MS}\nevent: ready\ndata: {}\n\n`);
+    },
+    cancel() {
+      cleanup();
+    }
+  });
+
+  return new Response(stream, { headers: SSE_HEADERS });
+}
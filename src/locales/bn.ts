@@ -0,0 +1,60 @@
+// Bengali messages
+import type { Messages } from "@/lib/i18n";
+
+const bn: Messages = {
+  "language.label": "ভাষা",
+  "language.hint": "অ্যাপ, সহকারীর উত্তর এবং আপনার রিপোর্টের বিশ্লেষণ এই ভাষায় হবে। হাসপাতালের কর্মীরা ইংরেজিতেই দেখবেন।",
+  "language.suggested": "{state}-এর জন্য প্রস্তাবিত",
+
+  "nav.dashboard": "ড্যাশবোর্ড",
+  "nav.uploadReport": "রিপোর্ট আপলোড করুন",
+  "nav.appointments": "অ্যাপয়েন্টমেন্ট",
+  "nav.medicineReminder": "ওষুধের রিমাইন্ডার",
+  "nav.aiAssistant": "এআই সহকারী",
+  "nav.profile": "আপনার প্রোফাইল",
+  "nav.accessLog": "আমার রেকর্ড কে দেখেছেন",
+  "nav.signOut": "সাইন আউট",
+  "nav.short.home": "হোম",
+  "nav.short.upload": "আপলোড",
+  "nav.short.appointments": "অ্যাপয়েন্টমেন্ট",
+  "nav.short.medicines": "ওষুধ",
+  "dashboard.loading": "আপনার ড্যাশবোর্ড লোড হচ্ছে...",
+
+  "chat.welcome": "নমস্কার! আমি আপনার এআই চিকিৎসা সহকারী। স্বাস্থ্য সম্পর্কিত আপনার প্রশ্নের উত্তর দিতে সাহায্য করতে পারি। আজ আমি আপনাকে কীভাবে সাহায্য করতে পারি?",
+  "chat.error": "দুঃখিত, একটি ত্রুটি হয়েছে। অনুগ্রহ করে পরে আবার চেষ্টা করুন।",
+  "chat.newConversation": "নতুন কথোপকথন",
+  "chat.myConversations": "আমার কথোপকথন",
+  "chat.searchConversations": "কথোপকথন খুঁজুন",
+  "chat.noMatches": "আপনার খোঁজের সঙ্গে মেলে এমন কোনো কথোপকথন নেই",
+  "chat.noConversations": "এখনও কোনো সংরক্ষিত কথোপকথন নেই",
+  "chat.conversationsAppearHere": "আপনার কথোপকথন এখানে দেখা যাবে",
+  "chat.rename": "কথোপকথনের নাম বদলান",
+  "chat.delete": "কথোপকথন মুছুন",
+  "chat.clearAll": "সব কথোপকথন মুছুন",
+  "chat.confirmDelete": "এই কথোপকথনটি মুছবেন?",
+  "chat.confirmClearAll": "আপনার সব কথোপকথন মুছবেন? এটি আর ফেরানো যাবে না।",
+  "chat.placeholder": "আপনার স্বাস্থ্য বিষয়ক প্রশ্ন লিখুন...",
+  "chat.stopGenerating": "উত্তর থামান",
+  "chat.stopped": "থামানো হয়েছে",
+  "chat.sources": "সূত্র",
+
+  "record.report": "রিপোর্ট",
+  "record.appointment": "অ্যাপয়েন্টমেন্ট",
+  "record.reminder": "ওষুধের রিমাইন্ডার",
+  "record.emergencyAlert": "জরুরি সতর্কতা",
+
+  "analysis.title": "চিকিৎসা বিশ্লেষণ",
+  "analysis.condition": "রোগীর অবস্থা",
+  "analysis.severity": "তীব্রতা",
+  "analysis.priority": "অগ্রাধিকার স্তর",
+  "analysis.specialty": "বিশেষজ্ঞের পরামর্শ",
+  "analysis.redFlags": "বিপদ সংকেত",
+  "analysis.noRedFlags": "কিছু পাওয়া যায়নি",
+  "analysis.actions": "প্রস্তাবিত পদক্ষেপ",
+  "priority.LOW": "কম",
+  "priority.MEDIUM": "মাঝারি",
+  "priority.HIGH": "বেশি",
+  "priority.URGENT": "জরুরি"
+};
+
+export default bn;
@@ -0,0 +1,58 @@
+// English messages. Every other catalog translates each of these keys.
+const en = {
+  "language.label": "Language",
+  "language.hint": "The app, the assistant's replies and the analyses of your reports use this language. Hospital staff still see English.",
+  "language.suggested": "Suggested for {state}",
+
+  "nav.dashboard": "Dashboard",
+  "nav.uploadReport": "Upload Report",
+  "nav.appointments": "Appointments",
+  "nav.medicineReminder": "Medicine Reminder",
+  "nav.aiAssistant": "AI Assistant",
+  "nav.profile": "Your Profile",
+  "nav.accessLog": "Who accessed my records",
+  "nav.signOut": "Sign out",
+  "nav.short.home": "Home",
+  "nav.short.upload": "Upload",
+  "nav.short.appointments": "Appts",
+  "nav.short.medicines": "Meds",
+  "dashboard.loading": "Loading your dashboard...",
+
+  "chat.welcome": "Hello! I'm your AI medical assistant. I can help answer your questions about health conditions. How can I assist you today?",
+  "chat.error": "I'm sorry, I encountered an error. Please try again later.",
+  "chat.newConversation": "New Conversation",
+  "chat.myConversations": "My Conversations",
+  "chat.searchConversations": "Search conversations",
+  "chat.noMatches": "No conversations match your search",
+  "chat.noConversations": "No saved conversations yet",
+  "chat.conversationsAppearHere": "Your conversations will appear here",
+  "chat.rename": "Rename conversation",
+  "chat.delete": "Delete conversation",
+  "chat.clearAll": "Clear all conversations",
+  "chat.confirmDelete": "Delete this conversation?",
+  "chat.confirmClearAll": "Delete all your conversations? This cannot be undone.",
+  "chat.placeholder": "Type your medical question...",
+  "chat.stopGenerating": "Stop generating",
+  "chat.stopped": "Stopped",
+  "chat.sources": "Sources",
+
+  "record.report": "Report",
+  "record.appointment": "Appointment",
+  "record.reminder": "Medicine reminder",
+  "record.emergencyAlert": "Emergency alert",
+
+  "analysis.title": "Medical Analysis",
+  "analysis.condition": "Patient Condition",
+  "analysis.severity": "Severity",
+  "analysis.priority": "Priority Level",
+  "analysis.specialty": "Specialist Recommendation",
+  "analysis.redFlags": "Red Flags",
+  "analysis.noRedFlags": "None identified",
+  "analysis.actions": "Recommended Actions",
+  "priority.LOW": "Low",
+  "priority.MEDIUM": "Medium",
+  "priority.HIGH": "High",
+  "priority.URGENT": "Urgent"
+};
+
+export default en;
@@ -0,0 +1,60 @@
+// Hindi messages
+import type { Messages } from "@/lib/i18n";
+
+const hi: Messages = {
+  "language.label": "भाषा",
+  "language.hint": "ऐप, सहायक के जवाब और आपकी रिपोर्टों का विश्लेषण इसी भाषा में होंगे। अस्पताल के कर्मचारी अंग्रेज़ी में ही देखेंगे।",
+  "language.suggested": "{state} के लिए सुझाई गई",
+
+  "nav.dashboard": "डैशबोर्ड",
+  "nav.uploadReport": "रिपोर्ट अपलोड करें",
+  "nav.appointments": "अपॉइंटमेंट",
+  "nav.medicineReminder": "दवा रिमाइंडर",
+  "nav.aiAssistant": "एआई सहायक",
+  "nav.profile": "आपकी प्रोफ़ाइल",
+  "nav.accessLog": "मेरे रिकॉर्ड किसने देखे",
+  "nav.signOut": "साइन आउट",
+  "nav.short.home": "होम",
+  "nav.short.upload": "अपलोड",
+  "nav.short.appointments": "अपॉइंटमेंट",
+  "nav.short.medicines": "दवाइयाँ",
+  "dashboard.loading": "आपका डैशबोर्ड लोड हो रहा है...",
+
+  "chat.welcome": "नमस्ते! मैं आपका एआई चिकित्सा सहायक हूँ। मैं स्वास्थ्य से जुड़े आपके सवालों के जवाब देने में मदद कर सकता हूँ। आज मैं आपकी क्या सहायता करूँ?",
+  "chat.error": "क्षमा करें, कोई त्रुटि हुई। कृपया बाद में फिर से प्रयास करें।",
+  "chat.newConversation": "नई बातचीत",
+  "chat.myConversations": "मेरी बातचीत",
+  "chat.searchConversations": "बातचीत खोजें",
+  "chat.noMatches": "आपकी खोज से कोई बातचीत नहीं मिली",
+  "chat.noConversations": "अभी कोई सहेजी गई बातचीत नहीं है",
+  "chat.conversationsAppearHere": "आपकी बातचीत यहाँ दिखेगी",
+  "chat.rename": "बातचीत का नाम बदलें",
+  "chat.delete": "बातचीत हटाएँ",
+  "chat.clearAll": "सारी बातचीत हटाएँ",
+  "chat.confirmDelete": "यह बातचीत हटाएँ?",
+  "chat.confirmClearAll": "आपकी सारी बातचीत हटाएँ? इसे वापस नहीं किया जा सकता।",
+  "chat.placeholder": "अपना स्वास्थ्य संबंधी सवाल लिखें...",
+  "chat.stopGenerating": "जवाब रोकें",
+  "chat.stopped": "रोका गया",
+  "chat.sources": "स्रोत",
+
+  "record.report": "रिपोर्ट",
+  "record.appointment": "अपॉइंटमेंट",
+  "record.reminder": "दवा रिमाइंडर",
+  "record.emergencyAlert": "आपातकालीन अलर्ट",
+
+  "analysis.title": "चिकित्सा विश्लेषण",
+  "analysis.condition": "रोगी की स्थिति",
+  "analysis.severity": "गंभीरता",
+  "analysis.priority": "प्राथमिकता",
+  "analysis.specialty": "विशेषज्ञ की सलाह",
+  "analysis.redFlags": "खतरे के संकेत",
+  "analysis.noRedFlags": "कोई नहीं मिला",
+  "analysis.actions": "सुझाए गए कदम",
+  "priority.LOW": "कम",
+  "priority.MEDIUM": "मध्यम",
+  "priority.HIGH": "अधिक",
+  "priority.URGENT": "अति आवश्यक"
+};
+
+export default hi;
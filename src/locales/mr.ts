@@ -0,0 +1,60 @@
+// Marathi messages
+import type { Messages } from "@/lib/i18n";
+
+const mr: Messages = {
+  "language.label": "भाषा",
+  "language.hint": "ॲप, सहाय्यकाची उत्तरे आणि तुमच्या अहवालांचे विश्लेषण या भाषेत असतील. रुग्णालयातील कर्मचारी इंग्रजीतच पाहतील.",
+  "language.suggested": "{state} साठी सुचवलेली",
+
+  "nav.dashboard": "डॅशबोर्ड",
+  "nav.uploadReport": "अहवाल अपलोड करा",
+  "nav.appointments": "अपॉइंटमेंट्स",
+  "nav.medicineReminder": "औषध स्मरणपत्र",
+  "nav.aiAssistant": "एआय सहाय्यक",
+  "nav.profile": "तुमची प्रोफाइल",
+  "nav.accessLog": "माझे रेकॉर्ड कोणी पाहिले",
+  "nav.signOut": "साइन आउट",
+  "nav.short.home": "होम",
+  "nav.short.upload": "अपलोड",
+  "nav.short.appointments": "अपॉइंटमेंट्स",
+  "nav.short.medicines": "औषधे",
+  "dashboard.loading": "तुमचा डॅशबोर्ड लोड होत आहे...",
+
+  "chat.welcome": "नमस्कार! मी तुमचा एआय वैद्यकीय सहाय्यक आहे. आरोग्याशी संबंधित तुमच्या प्रश्नांची उत्तरे देण्यात मी मदत करू शकतो. आज मी तुमची कशी मदत करू?",
+  "chat.error": "क्षमस्व, त्रुटी आली. कृपया नंतर पुन्हा प्रयत्न करा.",
+  "chat.newConversation": "नवीन संभाषण",
+  "chat.myConversations": "माझी संभाषणे",
+  "chat.searchConversations": "संभाषणे शोधा",
+  "chat.noMatches": "तुमच्या शोधाशी जुळणारे संभाषण नाही",
+  "chat.noConversations": "अजून कोणतेही जतन केलेले संभाषण नाही",
+  "chat.conversationsAppearHere": "तुमची संभाषणे इथे दिसतील",
+  "chat.rename": "संभाषणाचे नाव बदला",
+  "chat.delete": "संभाषण हटवा",
+  "chat.clearAll": "सर्व संभाषणे हटवा",
+  "chat.confirmDelete": "हे संभाषण हटवायचे?",
+  "chat.confirmClearAll": "तुमची सर्व संभाषणे हटवायची? हे परत आणता येणार नाही.",
+  "chat.placeholder": "तुमचा वैद्यकीय प्रश्न टाइप करा...",
+  "chat.stopGenerating": "उत्तर थांबवा",
+  "chat.stopped": "थांबवले",
+  "chat.sources": "स्रोत",
+
+  "record.report": "अहवाल",
+  "record.appointment": "अपॉइंटमेंट",
+  "record.reminder": "औषध स्मरणपत्र",
+  "record.emergencyAlert": "आपत्कालीन सूचना",
+
+  "analysis.title": "वैद्यकीय विश्लेषण",
+  "analysis.condition": "रुग्णाची स्थिती",
+  "analysis.severity": "तीव्रता",
+  "analysis.priority": "प्राधान्य पातळी",
+  "analysis.specialty": "तज्ज्ञांची शिफारस",
+  "analysis.redFlags": "धोक्याची लक्षणे",
+  "analysis.noRedFlags": "काहीही आढळले नाही",
+  "analysis.actions": "शिफारस केलेल्या कृती",
+  "priority.LOW": "कमी",
+  "priority.MEDIUM": "मध्यम",
+  "priority.HIGH": "जास्त",
+  "priority.URGENT": "तातडीचे"
+};
+
+export default mr;
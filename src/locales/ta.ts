@@ -0,0 +1,60 @@
+// Tamil messages
+import type { Messages } from "@/lib/i18n";
+
+const ta: Messages = {
+  "language.label": "மொழி",
+  "language.hint": "செயலி, உதவியாளரின் பதில்கள் மற்றும் உங்கள் அறிக்கைகளின் பகுப்பாய்வு இந்த மொழியில் இருக்கும். மருத்துவமனை ஊழியர்கள் ஆங்கிலத்திலேயே பார்ப்பார்கள்.",
+  "language.suggested": "{state} க்குப் பரிந்துரைக்கப்படுகிறது",
+
+  "nav.dashboard": "முகப்பு",
+  "nav.uploadReport": "அறிக்கையைப் பதிவேற்று",
+  "nav.appointments": "சந்திப்புகள்",
+  "nav.medicineReminder": "மருந்து நினைவூட்டல்",
+  "nav.aiAssistant": "AI உதவியாளர்",
+  "nav.profile": "உங்கள் சுயவிவரம்",
+  "nav.accessLog": "என் பதிவுகளை யார் பார்த்தார்கள்",
+  "nav.signOut": "வெளியேறு",
+  "nav.short.home": "முகப்பு",
+  "nav.short.upload": "பதிவேற்று",
+  "nav.short.appointments": "சந்திப்புகள்",
+  "nav.short.medicines": "மருந்துகள்",
+  "dashboard.loading": "உங்கள் முகப்புப் பக்கம் ஏற்றப்படுகிறது...",
+
+  "chat.welcome": "வணக்கம்! நான் உங்கள் AI மருத்துவ உதவியாளர். உடல்நலம் தொடர்பான உங்கள் கேள்விகளுக்குப் பதிலளிக்க உதவ முடியும். இன்று நான் உங்களுக்கு எப்படி உதவலாம்?",
+  "chat.error": "மன்னிக்கவும், பிழை ஏற்பட்டது. சிறிது நேரம் கழித்து மீண்டும் முயலவும்.",
+  "chat.newConversation": "புதிய உரையாடல்",
+  "chat.myConversations": "என் உரையாடல்கள்",
+  "chat.searchConversations": "உரையாடல்களைத் தேடு",
+  "chat.noMatches": "உங்கள் தேடலுக்குப் பொருந்தும் உரையாடல்கள் இல்லை",
+  "chat.noConversations": "சேமித்த உரையாடல்கள் இன்னும் இல்லை",
+  "chat.conversationsAppearHere": "உங்கள் உரையாடல்கள் இங்கே தோன்றும்",
+  "chat.rename": "உரையாடலின் பெயரை மாற்று",
+  "chat.delete": "உரையாடலை நீக்கு",
+  "chat.clearAll": "எல்லா உரையாடல்களையும் நீக்கு",
+  "chat.confirmDelete": "இந்த உரையாடலை நீக்கவா?",
+  "chat.confirmClearAll": "உங்கள் எல்லா உரையாடல்களையும் நீக்கவா? இதைத் திரும்பப் பெற முடியாது.",
+  "chat.placeholder": "உங்கள் மருத்துவக் கேள்வியைத் தட்டச்சு செய்யவும்...",
+  "chat.stopGenerating": "பதிலை நிறுத்து",
+  "chat.stopped": "நிறுத்தப்பட்டது",
+  "chat.sources": "ஆதாரங்கள்",
+
+  "record.report": "அறிக்கை",
+  "record.appointment": "சந்திப்பு",
+  "record.reminder": "மருந்து நினைவூட்டல்",
+  "record.emergencyAlert": "அவசர எச்சரிக்கை",
+
+  "analysis.title": "மருத்துவப் பகுப்பாய்வு",
+  "analysis.condition": "நோயாளியின் நிலை",
+  "analysis.severity": "தீவிரம்",
+  "analysis.priority": "முன்னுரிமை நிலை",
+  "analysis.specialty": "பரிந்துரைக்கப்படும் நிபுணர்",
+  "analysis.redFlags": "அபாய அறிகுறிகள்",
+  "analysis.noRedFlags": "எதுவும் இல்லை",
+  "analysis.actions": "பரிந்துரைக்கப்படும் நடவடிக்கைகள்",
+  "priority.LOW": "குறைவு",
+  "priority.MEDIUM": "நடுத்தரம்",
+  "priority.HIGH": "அதிகம்",
+  "priority.URGENT": "அவசரம்"
+};
+
+export default ta;
@@ -0,0 +1,60 @@
+// Telugu messages
+import type { Messages } from "@/lib/i18n";
+
+const te: Messages = {
+  "language.label": "భాష",
+  "language.hint": "యాప్, సహాయకుడి సమాధానాలు మరియు మీ నివేదికల విశ్లేషణ ఈ భాషలో ఉంటాయి. ఆసుపత్రి సిబ్బంది ఇంగ్లీషులోనే చూస్తారు.",
+  "language.suggested": "{state} కోసం సూచించబడింది",
+
+  "nav.dashboard": "డాష్‌బోర్డ్",
+  "nav.uploadReport": "నివేదికను అప్‌లోడ్ చేయండి",
+  "nav.appointments": "అపాయింట్‌మెంట్లు",
+  "nav.medicineReminder": "మందుల రిమైండర్",
+  "nav.aiAssistant": "AI సహాయకుడు",
+  "nav.profile": "మీ ప్రొఫైల్",
+  "nav.accessLog": "నా రికార్డులను ఎవరు చూశారు",
+  "nav.signOut": "సైన్ అవుట్",
+  "nav.short.home": "హోమ్",
+  "nav.short.upload": "అప్‌లోడ్",
+  "nav.short.appointments": "అపాయింట్‌మెంట్లు",
+  "nav.short.medicines": "మందులు",
+  "dashboard.loading": "మీ డాష్‌బోర్డ్ లోడ్ అవుతోంది...",
+
+  "chat.welcome": "నమస్కారం! నేను మీ AI వైద్య సహాయకుడిని. ఆరోగ్య సమస్యల గురించి మీ ప్రశ్నలకు సమాధానం ఇవ్వడంలో సహాయం చేయగలను. ఈ రోజు నేను మీకు ఎలా సహాయపడగలను?",
+  "chat.error": "క్షమించండి, లోపం జరిగింది. దయచేసి కొంతసేపటి తర్వాత మళ్లీ ప్రయత్నించండి.",
+  "chat.newConversation": "కొత్త సంభాషణ",
+  "chat.myConversations": "నా సంభాషణలు",
+  "chat.searchConversations": "సంభాషణలను వెతకండి",
+  "chat.noMatches": "మీ శోధనకు సరిపోయే సంభాషణలు లేవు",
+  "chat.noConversations": "ఇంకా సేవ్ చేసిన సంభాషణలు లేవు",
+  "chat.conversationsAppearHere": "మీ సంభాషణలు ఇక్కడ కనిపిస్తాయి",
+  "chat.rename": "సంభాషణ పేరు మార్చండి",
+  "chat.delete": "సంభాషణను తొలగించండి",
+  "chat.clearAll": "అన్ని సంభాషణలను తొలగించండి",
+  "chat.confirmDelete": "ఈ సంభాషణను తొలగించాలా?",
+  "chat.confirmClearAll": "మీ అన్ని సంభాషణలను తొలగించాలా? దీన్ని రద్దు చేయలేరు.",
+  "chat.placeholder": "మీ వైద్య ప్రశ్నను టైప్ చేయండి...",
+  "chat.stopGenerating": "సమాధానాన్ని ఆపండి",
+  "chat.stopped": "ఆపివేయబడింది",
+  "chat.sources": "ఆధారాలు",
+
+  "record.report": "నివేదిక",
+  "record.appointment": "అపాయింట్‌మెంట్",
+  "record.reminder": "మందుల రిమైండర్",
+  "record.emergencyAlert": "అత్యవసర హెచ్చరిక",
+
+  "analysis.title": "వైద్య విశ్లేషణ",
+  "analysis.condition": "రోగి పరిస్థితి",
+  "analysis.severity": "తీవ్రత",
+  "analysis.priority": "ప్రాధాన్యత స్థాయి",
+  "analysis.specialty": "సిఫార్సు చేసిన నిపుణులు",
+  "analysis.redFlags": "ప్రమాద సంకేతాలు",
+  "analysis.noRedFlags": "ఏవీ గుర్తించబడలేదు",
+  "analysis.actions": "సిఫార్సు చేసిన చర్యలు",
+  "priority.LOW": "తక్కువ",
+  "priority.MEDIUM": "మధ్యస్థం",
+  "priority.HIGH": "ఎక్కువ",
+  "priority.URGENT": "అత్యవసరం"
+};
+
+export default te;
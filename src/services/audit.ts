@@ -0,0 +1,196 @@
+// Audit trail
+// Records who read or changed a patient's medical data, and lists those
+// records for the admin audit viewer and the patient's access history.
+import prisma from '@/lib/prisma';
+import type { Action, PermissionUser } from '@/lib/permissions';
+
+export type AuditAction = 'READ' | 'CREATE' | 'UPDATE' | 'DELETE';
+
+export type AuditTarget = {
+  patientId: string;
+  // Audited resources: appointment, receipt, emergencyAlert, medicineReminder, profile
+  resource: string;
+  resourceId?: string | null;
+};
+
+export type AuditRequestInfo = {
+  ip: string | null;
+  userAgent: string | null;
+};
+
+export type AuditFilters = {
+  actorId?: string;
+  patientId?: string;
+  resource?: string;
+  action?: AuditAction;
+  from?: Date;
+  to?: Date;
+};
+
+type AuditLogRow = {
+  id: string;
+  actorId: string;
+  actorRole: string;
+  patientId: string;
+  resource: string;
+  resourceId: string | null;
+  action: AuditAction;
+  ip: string | null;
+  userAgent: string | null;
+  createdAt: Date;
+};
+
+export const AUDIT_PAGE_SIZE = 50;
+
+export function toAuditAction(action: Action): AuditAction {
+  return action.toUpperCase() as AuditAction;
+}
+
+/**
+ * Client address and browser of a request, as far as the proxy headers tell
+ */
+export function auditRequestInfo(request: Request): AuditRequestInfo {
+  const forwarded = request.headers.get('x-forwarded-for');
+
+  return {
+    ip: forwarded?.split(',')[0].trim() || request.headers.get('x-real-ip') || null,
+    userAgent: request.headers.get('user-agent')
+  };
+}
+
+/**
+ * Records access to patient data. Patients looking at their own records are
+ * not recorded. Failures are logged rather than thrown so auditing never
+ * breaks the request it describes.
+ */
+export async function recordAudit(
+  actor: PermissionUser,
+  action: AuditAction,
+  targets: AuditTarget[],
+  info: AuditRequestInfo
+) {
+  const seen = new Set<string>();
+  const rows = targets
+    .filter(target => target.patientId && target.patientId !== actor.id)
+    .filter(target => {
+      const key = `${target.patientId}:${target.resource}:${target.resourceId ?? ''}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .map(target => ({
+      actorId: actor.id,
+      actorRole: actor.role,
+      patientId: target.patientId,
+      resource: target.resource,
+      resourceId: target.resourceId ?? null,
+      action,
+      ip: info.ip,
+      userAgent: info.userAgent
+    }));
+
+  if (rows.length === 0) return;
+
+  try {
+    await prisma.auditLog.createMany({ data: rows });
+  } catch (error) {
+    console.error(`❌ Failed to record ${rows.length} audit entries:`, error);
+  }
+}
+
+function auditWhere(filters: AuditFilters) {
+  return {
+    ...(filters.actorId && { actorId: filters.actorId }),
+    ...(filters.patientId && { patientId: filters.patientId }),
+    ...(filters.resource && { resource: filters.resource }),
+    ...(filters.action && { action: filters.action }),
+    ...((filters.from || filters.to) && {
+      createdAt: {
+        ...(filters.from && { gte: filters.from }),
+        ...(filters.to && { lt: filters.to })
+      }
+    })
+  };
+}
+
+// Adds the names of actors and patients and the actor's hospital
+async function describeEntries(entries: AuditLogRow[]) {
+  const userIds = [...new Set(entries.flatMap(entry => [entry.actorId, entry.patientId]))];
+
+  const users: { id: string; name: string | null; email: string | null; hospital: string | null }[] =
+    userIds.length > 0
+      ? await prisma.user.findMany({
+        where: { id: { in: userIds } },
+        select: { id: true, name: true, email: true, hospital: true }
+      })
+      : [];
+  const usersById = new Map(users.map(user => [user.id, user]));
+
+  const hospitalIds = [...new Set(users.map(user => user.hospital).filter((id): id is string => Boolean(id)))];
+  const hospitals: { id: string; name: string }[] = hospitalIds.length > 0
+    ? await prisma.hospital.findMany({
+      where: { id: { in: hospitalIds } },
+      select: { id: true, name: true }
+    })
+    : [];
+  const hospitalNames = new Map(hospitals.map(hospital => [hospital.id, hospital.name]));
+
+  return entries.map(entry => {
+    const actor = usersById.get(entry.actorId);
+    const patient = usersById.get(entry.patientId);
+
+    return {
+      ...entry,
+      actorName: actor?.name || actor?.email || 'Deleted user',
+      actorHospital: actor?.hospital ? hospitalNames.get(actor.hospital) || null : null,
+      patientName: patient?.name || patient?.email || 'Deleted user'
+    };
+  });
+}
+
+/**
+ * Lists audit entries matching the filters, newest first
+ */
+export async function listAuditLogs(filters: AuditFilters, page = 1) {
+  const where = auditWhere(filters);
+
+  const [total, entries]: [number, AuditLogRow[]] = await Promise.all([
+    prisma.auditLog.count({ where }),
+    prisma.auditLog.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * AUDIT_PAGE_SIZE,
+      take: AUDIT_PAGE_SIZE
+    })
+  ]);
+
+  return {
+    entries: await describeEntries(entries),
+    pagination: {
+      total,
+      page,
+      limit: AUDIT_PAGE_SIZE,
+      pages: Math.ceil(total / AUDIT_PAGE_SIZE)
+    }
+  };
+}
+
+/**
+ * Lists who accessed a patient's records. The network details are left out.
+ */
+export async function listPatientAccess(patientId: string, page = 1) {
+  const { entries, pagination } = await listAuditLogs({ patientId }, page);
+
+  return {
+    entries: entries.map(entry => ({
+      id: entry.id,
+      actorName: entry.actorName,
+      actorRole: entry.actorRole,
+      actorHospital: entry.actorHospital,
+      resource: entry.resource,
+      action: entry.action,
+      createdAt: entry.createdAt
+    })),
+    pagination
+  };
+}
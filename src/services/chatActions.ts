@@ -0,0 +1,150 @@
+// AI chat actions
+// Records the actions the assistant proposes (src/lib/chatActions.ts) and
+// moves them through the user's confirmation. The actions themselves run in
+// the browser, through the regular API routes, once the user confirms them.
+import prisma from '@/lib/prisma';
+import { can } from '@/lib/permissions';
+import type { PermissionUser } from '@/lib/permissions';
+import { CHAT_ACTIONS, CHAT_ACTION_NAMES, chatActionTool, isChatActionName, validateChatActionArgs } from '@/lib/chatActions';
+import type { ChatActionCard, ChatActionName, ChatActionResult, ChatActionStatus } from '@/lib/chatActions';
+import type { ChatTool, ChatToolCall } from './providers';
+
+/**
+ * Thrown when an action cannot move to the requested status from its
+ * current one. Routes answer these with 409.
+ */
+export class InvalidChatActionTransitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidChatActionTransitionError';
+  }
+}
+
+export type ChatActionRow = {
+  id: string;
+  name: string;
+  args: Record<string, string>;
+  status: ChatActionStatus;
+  result: ChatActionResult | null;
+  error: string | null;
+};
+
+// What the user may report next: confirming starts the action, which then
+// finishes as done or failed
+const NEXT_STATUSES: Record<ChatActionStatus, ChatActionStatus[]> = {
+  PROPOSED: ['CONFIRMED', 'CANCELLED'],
+  CONFIRMED: ['DONE', 'FAILED'],
+  DONE: [],
+  FAILED: [],
+  CANCELLED: []
+};
+
+const CHAT_ACTION_SELECT = { id: true, name: true, args: true, status: true, result: true, error: true };
+
+export function toChatActionCard(action: ChatActionRow): ChatActionCard {
+  return {
+    id: action.id,
+    name: action.name as ChatActionName,
+    args: action.args,
+    status: action.status,
+    result: action.result,
+    error: action.error
+  };
+}
+
+/**
+ * The actions the assistant may offer this user, as tools for the AI
+ * provider: those whose API route the user may call
+ */
+export function chatActionTools(user: PermissionUser): ChatTool[] {
+  return CHAT_ACTION_NAMES
+    .filter(name => can(user, ...CHAT_ACTIONS[name].permission))
+    .map(chatActionTool);
+}
+
+/**
+ * Records an action the assistant wants to take for `user`, waiting for
+ * them to confirm it. Returns its card, or why it cannot be offered.
+ */
+export async function proposeChatAction(
+  user: PermissionUser,
+  call: ChatToolCall
+): Promise<{ card: ChatActionCard } | { error: string }> {
+  if (!isChatActionName(call.name)) {
+    return { error: `there is no ${call.name} action` };
+  }
+
+  if (!can(user, ...CHAT_ACTIONS[call.name].permission)) {
+    return { error: 'your account cannot do that' };
+  }
+
+  const validated = validateChatActionArgs(call.name, call.args);
+  if ('error' in validated) return validated;
+
+  const { args } = validated;
+
+  // The card names the hospital rather than showing its id
+  if (call.name === 'book_appointment') {
+    const hospital: { name: string } | null = await prisma.hospital.findUnique({
+      where: { id: args.hospitalId },
+      select: { name: true }
+    });
+    if (!hospital) return { error: 'that hospital was not found' };
+    args.hospitalName = hospital.name;
+  }
+
+  const action: ChatActionRow = await prisma.chatAction.create({
+    data: { userId: user.id, name: call.name, args },
+    select: CHAT_ACTION_SELECT
+  });
+
+  console.log(`🛠️ Proposed chat action ${call.name} (${action.id}) to user ${user.id}`);
+
+  return { card: toChatActionCard(action) };
+}
+
+export async function getChatAction(actionId: string) {
+  const action: (ChatActionRow & { userId: string }) | null = await prisma.chatAction.findUnique({
+    where: { id: actionId },
+    select: { ...CHAT_ACTION_SELECT, userId: true }
+  });
+
+  return action;
+}
+
+/**
+ * Moves an action to the status the user reports, with the outcome once it
+ * has run. Returns the updated card, or null when the action does not exist.
+ */
+export async function updateChatAction(
+  actionId: string,
+  toStatus: ChatActionStatus,
+  outcome: { result?: ChatActionResult; error?: string } = {}
+) {
+  const action = await getChatAction(actionId);
+  if (!action) return null;
+
+  if (!NEXT_STATUSES[action.status].includes(toStatus)) {
+    throw new InvalidChatActionTransitionError(`This action is already ${action.status.toLowerCase()}`);
+  }
+
+  // Only applies if another tab did not get there first
+  const { count } = await prisma.chatAction.updateMany({
+    where: { id: actionId, status: action.status },
+    data: {
+      status: toStatus,
+      ...(toStatus !== 'CONFIRMED' && { resolvedAt: new Date() }),
+      ...(outcome.result && { result: outcome.result }),
+      ...(outcome.error && { error: outcome.error })
+    }
+  });
+
+  if (count === 0) {
+    throw new InvalidChatActionTransitionError('This action was just updated elsewhere; reload the conversation');
+  }
+
+  console.log(`🛠️ Chat action ${actionId}: ${action.status} → ${toStatus}`);
+
+  const updated = await getChatAction(actionId);
+  return updated && toChatActionCard(updated);
+}
@@ -0,0 +1,296 @@
+// AI chat conversations
+// Keeps each user's conversations with the assistant, so they follow the user
+// between browsers, and assembles the history the assistant sees from the
+// stored messages rather than whatever the browser sends.
+import prisma from '@/lib/prisma';
+import { generateChatResponse } from './gemini';
+import { toChatActionCard } from './chatActions';
+import type { ChatActionRow } from './chatActions';
+import type { ChatActionCard } from '@/lib/chatActions';
+import type { RecordSource } from './patientRecord';
+
+// Messages of a conversation the assistant sees with each new question
+export const CHAT_HISTORY_LIMIT = 20;
+
+// Conversations listed in the sidebar
+export const CHAT_SESSION_LIST_LIMIT = 50;
+
+export const DEFAULT_CHAT_TITLE = 'New Conversation';
+
+export type ChatRole = 'user' | 'assistant';
+
+export type ChatTurn = {
+  role: ChatRole;
+  content: string;
+  timestamp: string;
+  // An action the assistant proposed with this reply
+  action?: ChatActionCard;
+  // Records of the patient's the reply cites
+  sources?: RecordSource[];
+};
+
+// A conversation kept in the browser before conversations were stored
+export type StoredConversation = {
+  id: string;
+  title: string;
+  messages: ChatTurn[];
+  lastUpdated: string;
+};
+
+type ChatMessageRow = {
+  role: 'USER' | 'ASSISTANT';
+  content: string;
+  createdAt: Date;
+  action?: ChatActionRow | null;
+  sources?: RecordSource[] | null;
+};
+
+const CHAT_MESSAGE_SELECT = {
+  role: true,
+  content: true,
+  sources: true,
+  createdAt: true,
+  action: { select: { id: true, name: true, args: true, status: true, result: true, error: true } }
+};
+
+function toChatTurn(message: ChatMessageRow): ChatTurn {
+  return {
+    role: message.role === 'USER' ? 'user' : 'assistant',
+    content: message.content,
+    timestamp: message.createdAt.toISOString(),
+    ...(message.action && { action: toChatActionCard(message.action) }),
+    ...(message.sources && { sources: message.sources })
+  };
+}
+
+function toMessageRow(turn: ChatTurn) {
+  return {
+    role: turn.role === 'user' ? 'USER' as const : 'ASSISTANT' as const,
+    content: turn.content,
+    createdAt: new Date(turn.timestamp)
+  };
+}
+
+/**
+ * The user's conversations, most recently active first. With a query, only
+ * those whose title or messages contain it.
+ */
+export async function listChatSessions(userId: string, query?: string) {
+  const search = query?.trim();
+
+  return prisma.chatSession.findMany({
+    where: {
+      userId,
+      ...(search && {
+        OR: [
+          { title: { contains: search, mode: 'insensitive' } },
+          { messages: { some: { content: { contains: search, mode: 'insensitive' } } } }
+        ]
+      })
+    },
+    orderBy: { updatedAt: 'desc' },
+    take: CHAT_SESSION_LIST_LIMIT,
+    select: { id: true, title: true, createdAt: true, updatedAt: true }
+  });
+}
+
+/**
+ * A conversation with all its messages, oldest first, or null when it does
+ * not exist
+ */
+export async function getChatSession(sessionId: string) {
+  const session = await prisma.chatSession.findUnique({
+    where: { id: sessionId },
+    include: { messages: { orderBy: { createdAt: 'asc' }, select: CHAT_MESSAGE_SELECT } }
+  });
+
+  if (!session) return null;
+
+  return { ...session, messages: session.messages.map(toChatTurn) };
+}
+
+export async function createChatSession(userId: string, title = DEFAULT_CHAT_TITLE) {
+  return prisma.chatSession.create({
+    data: { userId, title },
+    select: { id: true, title: true, createdAt: true, updatedAt: true }
+  });
+}
+
+export async function renameChatSession(sessionId: string, title: string) {
+  return prisma.chatSession.update({
+    where: { id: sessionId },
+    data: { title },
+    select: { id: true, title: true, createdAt: true, updatedAt: true }
+  });
+}
+
+export async function deleteChatSession(sessionId: string) {
+  await prisma.chatSession.delete({ where: { id: sessionId } });
+}
+
+/**
+ * Deletes all of the user's conversations. Returns how many there were.
+ */
+export async function deleteChatSessions(userId: string) {
+  const { count } = await prisma.chatSession.deleteMany({ where: { userId } });
+  return count;
+}
+
+/**
+ * The latest messages of a conversation, oldest first, for the assistant's
+ * prompt
+ */
+export async function chatHistory(sessionId: string, limit = CHAT_HISTORY_LIMIT): Promise<ChatTurn[]> {
+  const messages: ChatMessageRow[] = await prisma.chatMessage.findMany({
+    where: { sessionId },
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+    select: CHAT_MESSAGE_SELECT
+  });
+
+  return messages.reverse().map(toChatTurn);
+}
+
+/**
+ * Adds a question and the assistant's reply to a conversation, with any
+ * action the reply proposed and the records it cites, and marks it active
+ */
+export async function appendChatMessages(sessionId: string, turns: ChatTurn[]) {
+  await prisma.$transaction([
+    ...turns.map(turn => prisma.chatMessage.create({
+      data: {
+        sessionId,
+        ...toMessageRow(turn),
+        ...(turn.sources && turn.sources.length > 0 && { sources: turn.sources }),
+        ...(turn.action && { action: { connect: { id: turn.action.id } } })
+      },
+      select: { id: true }
+    })),
+    prisma.chatSession.update({ where: { id: sessionId }, data: { updatedAt: new Date() } })
+  ]);
+}
+
+/**
+ * Stores a question and the reply to it (if the assistant got as far as
+ * replying) with any action it proposed and the records it cites, starting
+ * the conversation when `sessionId` is null. The conversation is (re)named
+ * `title`, or with `titleFrom` titled after that question. Returns the
+ * conversation's id and any new title.
+ */
+export async function saveChatExchange(
+  userId: string,
+  sessionId: string | null,
+  exchange: {
+    question: string;
+    reply: string;
+    askedAt: string;
+    title?: string;
+    titleFrom?: string;
+    action?: ChatActionCard;
+    sources?: RecordSource[];
+  }
+) {
+  const title = exchange.title || (exchange.titleFrom ? await generateChatTitle(exchange.titleFrom) : undefined);
+  let id: string;
+
+  if (sessionId) {
+    id = sessionId;
+    if (title) await renameChatSession(id, title);
+  } else {
+    id = (await createChatSession(userId, title)).id;
+  }
+
+  const turns: ChatTurn[] = [{ role: 'user', content: exchange.question, timestamp: exchange.askedAt }];
+  if (exchange.reply) {
+    turns.push({
+      role: 'assistant',
+      content: exchange.reply,
+      timestamp: new Date().toISOString(),
+      action: exchange.action,
+      sources: exchange.sources
+    });
+  }
+  await appendChatMessages(id, turns);
+
+  return { sessionId: id, title };
+}
+
+/**
+ * Titles a conversation from its first question, e.g. "Managing Seasonal
+ * Allergies". Falls back to the question's first longer words when the
+ * assistant cannot be reached.
+ */
+export async function generateChatTitle(firstMessage: string) {
+  try {
+    const reply = await generateChatResponse({
+      prompt: `Generate a short, descriptive title (max 5 words) for this medical conversation.
+The title should be concise, clear, and medical-focused.
+Do not include any quotes, periods, or special characters.
+Just return the title text.
+Here's the conversation: "${firstMessage}"`,
+      message: firstMessage
+    });
+
+    const title = reply
+      .replace(/["']/g, '')
+      .replace(/\.$/, '')
+      .replace(/^[^a-zA-Z0-9]+/, '')
+      .replace(/[^a-zA-Z0-9\s]+$/, '')
+      .replace(/\s+/g, ' ')
+      .trim()
+      .split(' ')
+      .slice(0, 5)
+      .map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+      .join(' ');
+
+    if (title) return title;
+  } catch (error) {
+    console.error('Error generating chat title:', error);
+  }
+
+  const fallback = firstMessage
+    .split(' ')
+    .filter(word => word.length > 3)
+    .slice(0, 5)
+    .join(' ');
+  return fallback || DEFAULT_CHAT_TITLE;
+}
+
+/**
+ * Stores conversations a user kept in their browser. Conversations already
+ * imported (by their browser id) are skipped, so importing again is safe.
+ * Returns how many were added.
+ */
+export async function importChatSessions(userId: string, conversations: StoredConversation[]) {
+  const existing: { clientId: string | null }[] = await prisma.chatSession.findMany({
+    where: { userId, clientId: { in: conversations.map(conversation => conversation.id) } },
+    select: { clientId: true }
+  });
+  const imported = new Set(existing.map(session => session.clientId));
+
+  let added = 0;
+
+  for (const conversation of conversations) {
+    if (imported.has(conversation.id) || conversation.messages.length === 0) continue;
+
+    await prisma.chatSession.create({
+      data: {
+        userId,
+        clientId: conversation.id,
+        title: conversation.title || DEFAULT_CHAT_TITLE,
+        createdAt: new Date(conversation.messages[0].timestamp),
+        updatedAt: new Date(conversation.lastUpdated),
+        messages: { create: conversation.messages.map(toMessageRow) }
+      }
+    });
+
+    imported.add(conversation.id);
+    added++;
+  }
+
+  if (added > 0) {
+    console.log(`💬 Imported ${added} browser conversation(s) for user ${userId}`);
+  }
+
+  return added;
+}
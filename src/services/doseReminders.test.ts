@@ -0,0 +1,149 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { startTestDatabase } from '@/test/database';
+import type { TestDatabase } from '@/test/database';
+import { localTimeToDate, MINUTE_MS } from '@/lib/localTime';
+import { POST as respondToPush } from '@/app/api/user/medicine-reminder/push-response/route';
+import { scheduleDueDosePushes } from './doseReminders';
+import { toDateColumn } from './doseSchedule';
+import { runDueJobs } from './jobs/worker';
+import { clearLoggedPushes, getLoggedPushes, PushSubscriptionGoneError } from './push';
+import { logPushSender } from './push/log';
+
+vi.mock('@/lib/prisma', () => import('@/test/database'));
+
+const LIVE_ENDPOINT = 'https://push.example.com/live';
+const EXPIRED_ENDPOINT = 'https://push.example.com/expired';
+
+// The daily 08:00 dose the tests run five minutes after
+const DOSE_DAY = '2026-03-10';
+const DOSE_TIME = localTimeToDate(DOSE_DAY, 8 * 60);
+
+// Pushes go through the log sender (PUSH_DRIVER defaults to "log"); the
+// expired endpoint answers the way a push service does for a revoked browser
+describe('dose reminder pushes', () => {
+  let database: TestDatabase;
+
+  beforeAll(async () => {
+    database = await startTestDatabase();
+  });
+
+  afterAll(async () => {
+    await database.stop();
+  });
+
+  beforeEach(async () => {
+    await database.reset();
+    clearLoggedPushes();
+    vi.stubEnv('NEXTAUTH_SECRET', 'dose-reminder-test-secret');
+    vi.useFakeTimers({ toFake: ['Date'], now: DOSE_TIME.getTime() + 5 * MINUTE_MS });
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    const send = logPushSender.send;
+    vi.spyOn(logPushSender, 'send').mockImplementation(async (target, message) => {
+      if (target.endpoint === EXPIRED_ENDPOINT) throw new PushSubscriptionGoneError(target.endpoint);
+      return send(target, message);
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  async function createPatientWithReminder() {
+    const user = await database.prisma.user.create({
+      data: {
+        email: 'patient@example.com',
+        pushSubscriptions: {
+          create: [
+            { endpoint: LIVE_ENDPOINT, p256dh: 'live-key', auth: 'live-auth' },
+            { endpoint: EXPIRED_ENDPOINT, p256dh: 'expired-key', auth: 'expired-auth' }
+          ]
+        }
+      }
+    });
+    const reminder = await database.prisma.medicineReminder.create({
+      data: {
+        userId: user.id,
+        name: 'Metformin',
+        dosage: '500 mg',
+        frequency: 'daily',
+        time: '08:00',
+        startDate: toDateColumn('2026-03-01'),
+        createdAt: new Date('2026-03-01T00:00:00Z')
+      }
+    });
+    return { user: user as { id: string }, reminder: reminder as { id: string } };
+  }
+
+  async function pushDueDoses() {
+    await scheduleDueDosePushes();
+    await runDueJobs();
+  }
+
+  it('pushes a due dose to the patient’s browsers and drops an expired subscription', async () => {
+    const { user, reminder } = await createPatientWithReminder();
+
+    await pushDueDoses();
+
+    const pushes = getLoggedPushes();
+    expect(pushes).toHaveLength(1);
+    expect(pushes[0]).toMatchObject({
+      endpoint: LIVE_ENDPOINT,
+      title: 'Time to take Metformin',
+      tag: `dose:${reminder.id}:${DOSE_TIME.getTime()}`,
+      data: { token: expect.any(String) }
+    });
+
+    const subscriptions = await database.prisma.pushSubscription.findMany({ where: { userId: user.id } });
+    expect(subscriptions).toEqual([expect.objectContaining({ endpoint: LIVE_ENDPOINT, lastUsedAt: expect.any(Date) })]);
+
+    const job = await database.prisma.job.findFirst({ where: { type: 'dose.push' } });
+    expect(job.status).toBe('SUCCEEDED');
+
+    // The dose was pushed once; running again sends nothing new
+    await pushDueDoses();
+    expect(getLoggedPushes()).toHaveLength(1);
+  });
+
+  it('records the dose when the patient answers "Taken" on the notification', async () => {
+    const { reminder } = await createPatientWithReminder();
+    await pushDueDoses();
+    const [{ data }] = getLoggedPushes();
+
+    const response = await respondToPush(
+      new Request('http://localhost/api/user/medicine-reminder/push-response', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token: data?.token, action: 'taken' })
+      }),
+      { params: {} }
+    );
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toMatchObject({ success: true, status: 'TAKEN' });
+
+    const doses = await database.prisma.medicineDose.findMany({ where: { reminderId: reminder.id } });
+    expect(doses).toEqual([expect.objectContaining({ scheduledFor: DOSE_TIME, status: 'TAKEN' })]);
+  });
+
+  it('turns away an answer whose token was not signed for the dose', async () => {
+    const { reminder } = await createPatientWithReminder();
+    await pushDueDoses();
+    const [{ data }] = getLoggedPushes();
+    const forged = String(data?.token).replace(/\.[^.]+$/, '.forged-signature');
+
+    const response = await respondToPush(
+      new Request('http://localhost/api/user/medicine-reminder/push-response', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token: forged, action: 'taken' })
+      }),
+      { params: {} }
+    );
+
+    expect(response.status).toBe(403);
+    await expect(database.prisma.medicineDose.count({ where: { reminderId: reminder.id } })).resolves.toBe(0);
+  });
+});
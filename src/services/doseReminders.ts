@@ -0,0 +1,230 @@
+// Medicine dose push reminders
+// Every minute the job worker looks for doses that have just become due and
+// pushes a reminder to the patient's browsers, with "Taken" and "Snooze"
+// actions. The service worker answers those actions without a session, so
+// each push carries a token signed for that one dose.
+import { createHmac, timingSafeEqual } from 'crypto';
+import prisma from '@/lib/prisma';
+import { HOSPITAL_TIMEZONE, MINUTE_MS } from '@/lib/localTime';
+import { isRole } from '@/lib/permissions';
+import type { PermissionUser } from '@/lib/permissions';
+import { enqueueJob } from './jobs';
+import type { JobHandler } from './jobs';
+import { sendPushToUser } from './push';
+import { buildDoseEvents, DOSE_WINDOW_MINUTES, InvalidDoseError, logDose } from './doseSchedule';
+
+export const DOSE_PUSH_JOB = 'dose.push';
+
+export const SNOOZE_MINUTES = 10;
+
+const MAX_SNOOZES = 3;
+
+// Actions stay usable for a day after the dose was due
+const TOKEN_LIFETIME_MS = 24 * 60 * MINUTE_MS;
+
+export type DosePushAction = 'taken' | 'snooze';
+
+export type DoseRef = { reminderId: string; scheduledFor: Date };
+
+function signingSecret() {
+  const secret = process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    throw new Error('NEXTAUTH_SECRET must be set to sign dose reminder actions');
+  }
+  return secret;
+}
+
+function sign(payload: string) {
+  return createHmac('sha256', signingSecret()).update(`dose:${payload}`).digest('base64url');
+}
+
+/**
+ * Token that lets a push notification's actions log or snooze one dose
+ */
+export function signDoseToken({ reminderId, scheduledFor }: DoseRef) {
+  const payload = `${reminderId}.${scheduledFor.getTime()}`;
+  return `${payload}.${sign(payload)}`;
+}
+
+/**
+ * The dose a token was signed for, or null when it is invalid or expired
+ */
+export function verifyDoseToken(token: string): DoseRef | null {
+  const [reminderId, time, signature] = token.split('.');
+  if (!reminderId || !time || !signature) return null;
+
+  const scheduledFor = new Date(Number(time));
+  if (isNaN(scheduledFor.getTime()) || Date.now() - scheduledFor.getTime() > TOKEN_LIFETIME_MS) return null;
+
+  const expected = Buffer.from(sign(`${reminderId}.${time}`));
+  const given = Buffer.from(signature);
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) return null;
+
+  return { reminderId, scheduledFor };
+}
+
+/**
+ * The patient a dose belongs to, who a dose token acts for;
+ * null when the reminder no longer exists or its owner has an unknown role
+ */
+export async function doseOwner({ reminderId }: DoseRef): Promise<PermissionUser | null> {
+  const reminder = await prisma.medicineReminder.findUnique({
+    where: { id: reminderId },
+    select: { user: { select: { id: true, role: true, hospital: true } } }
+  });
+
+  if (!reminder || !isRole(reminder.user.role)) return null;
+
+  return { id: reminder.user.id, role: reminder.user.role, hospital: reminder.user.hospital };
+}
+
+/**
+ * Schedules a push for every dose that is due and not yet logged or pushed.
+ * Safe to run in several processes at once: the DosePush row for a dose can
+ * only be created once.
+ */
+export async function scheduleDueDosePushes(now = new Date()) {
+  const from = new Date(now.getTime() - DOSE_WINDOW_MINUTES * MINUTE_MS);
+  const to = new Date(now.getTime() + 1);
+
+  // Only patients with a subscribed browser can be reminded
+  const reminders = await prisma.medicineReminder.findMany({
+    where: { isActive: true, user: { pushSubscriptions: { some: {} } } },
+    select: {
+      id: true,
+      name: true,
+      dosage: true,
+      frequency: true,
+      time: true,
+      startDate: true,
+      endDate: true,
+      createdAt: true,
+      doses: {
+        where: { scheduledFor: { gte: from, lt: to } },
+        select: { reminderId: true, scheduledFor: true, status: true, takenAt: true }
+      },
+      pushes: {
+        where: { scheduledFor: { gte: from, lt: to } },
+        select: { scheduledFor: true }
+      }
+    }
+  });
+
+  let scheduled = 0;
+
+  for (const reminder of reminders) {
+    const pushed = new Set(reminder.pushes.map((push: { scheduledFor: Date }) => push.scheduledFor.getTime()));
+    const due = buildDoseEvents([reminder], reminder.doses, from, to, now)
+      .filter(dose => dose.status === 'DUE' && !pushed.has(new Date(dose.scheduledFor).getTime()));
+
+    for (const dose of due) {
+      try {
+        await prisma.dosePush.create({
+          data: { reminderId: reminder.id, scheduledFor: new Date(dose.scheduledFor) }
+        });
+      } catch (error) {
+        // Another worker got there first
+        if ((error as { code?: string }).code === 'P2002') continue;
+        throw error;
+      }
+
+      await enqueueJob(
+        DOSE_PUSH_JOB,
+        { reminderId: reminder.id, scheduledFor: dose.scheduledFor },
+        { key: `${reminder.id}:${dose.scheduledFor}`, maxAttempts: 3 }
+      );
+      scheduled++;
+    }
+  }
+
+  if (scheduled > 0) {
+    console.log(`⏰ Scheduled ${scheduled} dose reminder push(es)`);
+  }
+}
+
+// Pushes a dose reminder for the job worker
+export const dosePushJob: JobHandler = {
+  async run(job) {
+    const reminderId = String(job.payload.reminderId);
+    const scheduledFor = new Date(String(job.payload.scheduledFor));
+
+    const reminder = await prisma.medicineReminder.findUnique({
+      where: { id: reminderId },
+      select: {
+        userId: true,
+        name: true,
+        dosage: true,
+        isActive: true,
+        doses: { where: { scheduledFor }, select: { id: true } }
+      }
+    });
+
+    // Deleted, paused or already logged since the push was scheduled
+    if (!reminder || !reminder.isActive || reminder.doses.length > 0) return;
+
+    const dueAt = scheduledFor.toLocaleTimeString('en-IN', { timeZone: HOSPITAL_TIMEZONE, timeStyle: 'short' });
+
+    await sendPushToUser(reminder.userId, {
+      title: `Time to take ${reminder.name}`,
+      body: `${reminder.dosage}, due at ${dueAt}`,
+      tag: `dose:${reminderId}:${scheduledFor.getTime()}`,
+      url: '/user/medicine-reminder',
+      actions: [
+        { action: 'taken', title: 'Taken' },
+        { action: 'snooze', title: `Snooze ${SNOOZE_MINUTES} min` }
+      ],
+      data: { token: signDoseToken({ reminderId, scheduledFor }) }
+    });
+  }
+};
+
+/**
+ * Records the patient's answer to a dose reminder: logs the dose as taken, or
+ * pushes the reminder again in SNOOZE_MINUTES
+ */
+export async function respondToDosePush({ reminderId, scheduledFor }: DoseRef, action: DosePushAction) {
+  const reminder = await prisma.medicineReminder.findUnique({
+    where: { id: reminderId },
+    select: {
+      id: true,
+      name: true,
+      dosage: true,
+      frequency: true,
+      time: true,
+      startDate: true,
+      endDate: true,
+      pushes: { where: { scheduledFor }, select: { id: true, snoozeCount: true } }
+    }
+  });
+
+  if (!reminder) {
+    throw new InvalidDoseError('This medicine reminder no longer exists');
+  }
+
+  if (action === 'taken') {
+    const dose = await logDose(reminder, scheduledFor, 'TAKEN');
+    return { status: dose.status as string };
+  }
+
+  const push = reminder.pushes[0];
+  if (!push) {
+    throw new InvalidDoseError('No reminder was sent for this dose');
+  }
+  if (push.snoozeCount >= MAX_SNOOZES) {
+    throw new InvalidDoseError(`A dose can be snoozed at most ${MAX_SNOOZES} times`);
+  }
+
+  const snoozedUntil = new Date(Date.now() + SNOOZE_MINUTES * MINUTE_MS);
+
+  await prisma.dosePush.update({
+    where: { id: push.id },
+    data: { snoozeCount: { increment: 1 } }
+  });
+  await enqueueJob(
+    DOSE_PUSH_JOB,
+    { reminderId, scheduledFor: scheduledFor.toISOString() },
+    { key: `${reminderId}:${scheduledFor.toISOString()}`, maxAttempts: 3, runAt: snoozedUntil }
+  );
+
+  return { status: 'SNOOZED', snoozedUntil };
+}
@@ -0,0 +1,342 @@
+// Medicine dose schedule
+// Expands each medicine reminder into concrete dose times, merges in the doses
+// the patient logged, and summarises adherence.
+//
+// Only logged doses are stored (MedicineDose). Everything else is derived from
+// the reminder, so editing a schedule never leaves stale dose rows behind.
+import prisma from '@/lib/prisma';
+import { addDays, localTimeToDate, MINUTE_MS, parseTimeOfDay, toLocalDate } from '@/lib/localTime';
+import { REMINDER_FREQUENCIES } from '@/lib/constants';
+
+export type ReminderFrequency = typeof REMINDER_FREQUENCIES[number];
+
+// Minutes after the reminder's time at which each dose of a dose day is due.
+// Twice daily is 08:00/20:00 and thrice daily 08:00/14:00/20:00 for an 08:00 reminder.
+const DOSE_OFFSETS: Record<ReminderFrequency, number[]> = {
+  'daily': [0],
+  'twice-daily': [0, 12 * 60],
+  'thrice-daily': [0, 6 * 60, 12 * 60],
+  'weekly': [0],
+  'biweekly': [0],
+  'monthly': [0]
+};
+
+// How long after its time a dose still counts as on time
+export const DOSE_WINDOW_MINUTES = 120;
+
+// Doses can be logged this long before they are due
+const EARLY_LOG_MINUTES = 120;
+
+const DEFAULT_DOSE_MINUTE = 8 * 60;
+
+export const MAX_HISTORY_DAYS = 90;
+
+export type LoggedDoseStatus = 'TAKEN' | 'LATE' | 'SKIPPED';
+
+// Unlogged doses are UPCOMING before their time, DUE during their window and
+// MISSED afterwards
+export type DoseEventStatus = LoggedDoseStatus | 'MISSED' | 'DUE' | 'UPCOMING';
+
+export type DoseEvent = {
+  reminderId: string;
+  name: string;
+  dosage: string;
+  scheduledFor: string;
+  status: DoseEventStatus;
+  takenAt: string | null;
+};
+
+export type AdherenceStats = {
+  // Doses whose window has passed or that were logged
+  expected: number;
+  taken: number;
+  late: number;
+  skipped: number;
+  missed: number;
+  // Share of expected doses taken at all, and taken on time; null without data
+  adherencePercent: number | null;
+  onTimePercent: number | null;
+  // Consecutive days on which every dose was taken
+  currentStreak: number;
+  longestStreak: number;
+};
+
+type ScheduledReminder = {
+  id: string;
+  name: string;
+  dosage: string;
+  frequency: string;
+  time: string;
+  startDate: Date;
+  endDate: Date | null;
+  createdAt?: Date;
+};
+
+type DoseLog = {
+  reminderId: string;
+  scheduledFor: Date;
+  status: LoggedDoseStatus;
+  takenAt: Date | null;
+};
+
+/**
+ * Thrown when a dose cannot be logged (not on the schedule or not due yet).
+ * Routes answer these with 400.
+ */
+export class InvalidDoseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidDoseError';
+  }
+}
+
+export function isReminderFrequency(value: string): value is ReminderFrequency {
+  return (REMINDER_FREQUENCIES as readonly string[]).includes(value);
+}
+
+// Date columns come back as UTC midnight of the stored calendar date
+function calendarDate(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Converts a calendar date (YYYY-MM-DD) to the value stored in a date column
+ */
+export function toDateColumn(date: string) {
+  return new Date(`${date}T00:00:00.000Z`);
+}
+
+function daysBetween(from: string, to: string) {
+  return Math.round((Date.parse(to) - Date.parse(from)) / (24 * 60 * MINUTE_MS));
+}
+
+function isDoseDay(frequency: ReminderFrequency, startDate: string, date: string) {
+  const elapsed = daysBetween(startDate, date);
+
+  switch (frequency) {
+    case 'weekly':
+      return elapsed % 7 === 0;
+    case 'biweekly':
+      // Twice a week: the start weekday and three days later
+      return elapsed % 7 === 0 || elapsed % 7 === 3;
+    case 'monthly': {
+      // Same day of the month as the start, or the last day of shorter months
+      const [year, month, day] = date.split('-').map(Number);
+      const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+      return day === Math.min(Number(startDate.slice(8, 10)), lastDay);
+    }
+    default:
+      return true;
+  }
+}
+
+/**
+ * Lists the dose times of a reminder in [from, to).
+ * Reminders with an unknown frequency have no doses.
+ */
+export function expandDoseSchedule(reminder: ScheduledReminder, from: Date, to: Date): Date[] {
+  if (!isReminderFrequency(reminder.frequency)) return [];
+
+  const frequency = reminder.frequency;
+  const baseMinute = parseTimeOfDay(reminder.time) ?? DEFAULT_DOSE_MINUTE;
+  const startDate = calendarDate(reminder.startDate);
+  const endDate = reminder.endDate ? calendarDate(reminder.endDate) : null;
+
+  // Start a day early: a late evening dose plus an offset can fall after midnight
+  let date = addDays(toLocalDate(from), -1);
+  if (date < startDate) date = startDate;
+  const lastDate = endDate && endDate < toLocalDate(to) ? endDate : toLocalDate(to);
+
+  const doses: Date[] = [];
+
+  for (; date <= lastDate; date = addDays(date, 1)) {
+    if (!isDoseDay(frequency, startDate, date)) continue;
+
+    for (const offset of DOSE_OFFSETS[frequency]) {
+      const dose = localTimeToDate(date, baseMinute + offset);
+      if (dose >= from && dose < to) doses.push(dose);
+    }
+  }
+
+  return doses;
+}
+
+function eventStatus(scheduledFor: Date, log: DoseLog | undefined, now: Date): DoseEventStatus {
+  if (log) return log.status;
+  if (scheduledFor > now) return 'UPCOMING';
+  if (now.getTime() - scheduledFor.getTime() <= DOSE_WINDOW_MINUTES * MINUTE_MS) return 'DUE';
+  return 'MISSED';
+}
+
+/**
+ * Builds the dose events of the given reminders in [from, to), oldest first
+ */
+export function buildDoseEvents(
+  reminders: ScheduledReminder[],
+  logs: DoseLog[],
+  from: Date,
+  to: Date,
+  now = new Date()
+): DoseEvent[] {
+  const logsByDose = new Map(logs.map(log => [`${log.reminderId}:${log.scheduledFor.getTime()}`, log]));
+
+  return reminders
+    .flatMap(reminder => expandDoseSchedule(reminder, from, to).flatMap((scheduledFor): DoseEvent[] => {
+      const log = logsByDose.get(`${reminder.id}:${scheduledFor.getTime()}`);
+
+      // Doses due before the reminder existed were never asked of the patient
+      if (!log && reminder.createdAt && scheduledFor < reminder.createdAt) return [];
+
+      return [{
+        reminderId: reminder.id,
+        name: reminder.name,
+        dosage: reminder.dosage,
+        scheduledFor: scheduledFor.toISOString(),
+        status: eventStatus(scheduledFor, log, now),
+        takenAt: log?.takenAt ? log.takenAt.toISOString() : null
+      }];
+    }))
+    .sort((a, b) => a.scheduledFor.localeCompare(b.scheduledFor));
+}
+
+const percent = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 100) : null);
+
+/**
+ * Summarises adherence over a list of dose events
+ */
+export function computeAdherence(events: DoseEvent[]): AdherenceStats {
+  const count = (status: DoseEventStatus) => events.filter(event => event.status === status).length;
+  const taken = count('TAKEN');
+  const late = count('LATE');
+  const skipped = count('SKIPPED');
+  const missed = count('MISSED');
+  const expected = taken + late + skipped + missed;
+
+  // Streaks run over local days. A day with doses still to come neither
+  // extends nor breaks a streak.
+  const days = new Map<string, DoseEventStatus[]>();
+  events.forEach(event => {
+    const day = toLocalDate(new Date(event.scheduledFor));
+    days.set(day, [...(days.get(day) || []), event.status]);
+  });
+
+  let run = 0;
+  let longestStreak = 0;
+
+  [...days.keys()].sort().forEach(day => {
+    const statuses = days.get(day) || [];
+
+    if (statuses.some(status => status === 'SKIPPED' || status === 'MISSED')) {
+      run = 0;
+    } else if (statuses.every(status => status === 'TAKEN' || status === 'LATE')) {
+      run += 1;
+      longestStreak = Math.max(longestStreak, run);
+    }
+  });
+
+  return {
+    expected,
+    taken,
+    late,
+    skipped,
+    missed,
+    adherencePercent: percent(taken + late, expected),
+    onTimePercent: percent(taken, expected),
+    currentStreak: run,
+    longestStreak
+  };
+}
+
+/**
+ * Loads a patient's dose events from `days` days ago to the end of today,
+ * with adherence overall and per reminder
+ */
+export async function getDoseOverview(userId: string, days: number) {
+  const today = toLocalDate(new Date());
+  const from = localTimeToDate(addDays(today, -(days - 1)), 0);
+  const to = localTimeToDate(addDays(today, 1), 0);
+
+  const reminders: (ScheduledReminder & { doses: DoseLog[] })[] = await prisma.medicineReminder.findMany({
+    where: { userId, isActive: true },
+    select: {
+      id: true,
+      name: true,
+      dosage: true,
+      frequency: true,
+      time: true,
+      startDate: true,
+      endDate: true,
+      createdAt: true,
+      doses: {
+        where: { scheduledFor: { gte: from, lt: to } },
+        select: { reminderId: true, scheduledFor: true, status: true, takenAt: true }
+      }
+    }
+  });
+
+  const doses = buildDoseEvents(reminders, reminders.flatMap(reminder => reminder.doses), from, to);
+
+  const byReminder: Record<string, AdherenceStats> = {};
+  reminders.forEach(reminder => {
+    byReminder[reminder.id] = computeAdherence(doses.filter(dose => dose.reminderId === reminder.id));
+  });
+
+  return {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    doses,
+    adherence: {
+      overall: computeAdherence(doses),
+      byReminder
+    }
+  };
+}
+
+/**
+ * Records that a dose was taken, taken late or skipped. Logging a dose again
+ * replaces the earlier entry. A dose marked taken after its window is stored
+ * as late.
+ */
+export async function logDose(
+  reminder: ScheduledReminder,
+  scheduledFor: Date,
+  status: LoggedDoseStatus,
+  takenAt?: Date
+) {
+  const now = new Date();
+  const isScheduled = expandDoseSchedule(
+    reminder,
+    new Date(scheduledFor.getTime() - MINUTE_MS),
+    new Date(scheduledFor.getTime() + MINUTE_MS)
+  ).some(dose => dose.getTime() === scheduledFor.getTime());
+
+  if (!isScheduled) {
+    throw new InvalidDoseError('No dose of this medicine is scheduled at that time');
+  }
+
+  if (scheduledFor.getTime() - now.getTime() > EARLY_LOG_MINUTES * MINUTE_MS) {
+    throw new InvalidDoseError('This dose is not due yet');
+  }
+
+  const takenTime = status === 'SKIPPED' ? null : takenAt || now;
+  const finalStatus = status === 'TAKEN' && takenTime &&
+    takenTime.getTime() - scheduledFor.getTime() > DOSE_WINDOW_MINUTES * MINUTE_MS
+    ? 'LATE'
+    : status;
+
+  return prisma.medicineDose.upsert({
+    where: { reminderId_scheduledFor: { reminderId: reminder.id, scheduledFor } },
+    create: { reminderId: reminder.id, scheduledFor, status: finalStatus, takenAt: takenTime },
+    update: { status: finalStatus, takenAt: takenTime }
+  });
+}
+
+/**
+ * Removes a dose log so the dose counts as unlogged again
+ */
+export async function clearDoseLog(reminderId: string, scheduledFor: Date) {
+  const { count } = await prisma.medicineDose.deleteMany({
+    where: { reminderId, scheduledFor }
+  });
+  return count > 0;
+}
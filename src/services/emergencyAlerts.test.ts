@@ -0,0 +1,49 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { startTestDatabase } from '@/test/database';
+import type { TestDatabase } from '@/test/database';
+import { transitionAlert } from './emergencyAlerts';
+
+vi.mock('@/lib/prisma', () => import('@/test/database'));
+
+describe('emergency alert transitions', () => {
+  let database: TestDatabase;
+  let hospitalId: string;
+  let alertId: string;
+
+  beforeAll(async () => {
+    database = await startTestDatabase();
+  });
+
+  afterAll(async () => {
+    await database.stop();
+  });
+
+  beforeEach(async () => {
+    await database.reset();
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    const user = await database.prisma.user.create({ data: { email: 'patient@example.com' } });
+    hospitalId = (await database.prisma.hospital.create({ data: { name: 'City Hospital', state: 'Maharashtra' } })).id;
+    alertId = (await database.prisma.emergencyAlert.create({
+      data: { userId: user.id, hospitalId, status: 'ACKNOWLEDGED', patientInfo: {}, medicalHistory: {} }
+    })).id;
+  });
+
+  it('records the move as a timeline event', async () => {
+    const alert = await transitionAlert(alertId, 'RESPONDED', { id: 'staff-1', role: 'HOSPITAL', hospital: hospitalId });
+
+    expect(alert.status).toBe('RESPONDED');
+    await expect(database.prisma.emergencyAlertEvent.findMany({ where: { alertId }, select: { fromStatus: true, toStatus: true, actorId: true } }))
+      .resolves.toEqual([{ fromStatus: 'ACKNOWLEDGED', toStatus: 'RESPONDED', actorId: 'staff-1' }]);
+  });
+
+  it('leaves the status unchanged when its event cannot be recorded', async () => {
+    // Staff whose hospital has since been deleted: the event cannot refer to it
+    await expect(transitionAlert(alertId, 'RESPONDED', { id: 'staff-1', role: 'HOSPITAL', hospital: 'deleted-hospital' }))
+      .rejects.toThrow();
+
+    await expect(database.prisma.emergencyAlert.findUnique({ where: { id: alertId }, select: { status: true, respondedAt: true } }))
+      .resolves.toEqual({ status: 'ACKNOWLEDGED', respondedAt: null });
+    await expect(database.prisma.emergencyAlertEvent.count()).resolves.toBe(0);
+  });
+});
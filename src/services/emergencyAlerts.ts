@@ -0,0 +1,147 @@
+// Emergency alert lifecycle
+// Moves alerts between statuses as src/lib/alertLifecycle.ts allows, records
+// who made each move, when and why as an EmergencyAlertEvent, and tells the
+// hospital and the patient. The events make up the alert's timeline, from
+// which its response times are worked out.
+import prisma from '@/lib/prisma';
+import { hospitalChannel, patientChannel, publishEvent } from '@/lib/events';
+import type { PermissionUser } from '@/lib/permissions';
+import { ALERT_STATUS_LABELS, allowedTransitions, responseMetrics } from '@/lib/alertLifecycle';
+import type { AlertStatus } from '@/lib/alertLifecycle';
+import type { Prisma } from '@/generated/prisma/client';
+import { AlertAlreadyClaimedError, withdrawAlert } from './emergencyEscalation';
+
+/**
+ * Thrown when an alert cannot move to the requested status from its current
+ * one, or not by this user. Routes answer these with 409.
+ */
+export class InvalidAlertTransitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidAlertTransitionError';
+  }
+}
+
+// What a timeline shows of each event
+export const ALERT_EVENT_SELECT = {
+  id: true,
+  fromStatus: true,
+  toStatus: true,
+  actorRole: true,
+  note: true,
+  createdAt: true,
+  hospital: { select: { id: true, name: true } }
+};
+
+type AlertEvent = {
+  id: string;
+  fromStatus: AlertStatus | null;
+  toStatus: AlertStatus;
+  actorRole: PermissionUser['role'] | null;
+  note: string | null;
+  createdAt: Date;
+  hospital: { id: string; name: string } | null;
+};
+
+/**
+ * Moves an alert to a new status on behalf of `actor`. Acknowledging a
+ * PENDING alert claims it for the actor's hospital; any move out of PENDING
+ * stops its escalation. Returns null when the alert does not exist.
+ */
+export async function transitionAlert(alertId: string, toStatus: AlertStatus, actor: PermissionUser, note?: string) {
+  const alert: { id: string; status: AlertStatus; hospitalId: string } | null = await prisma.emergencyAlert.findUnique({
+    where: { id: alertId },
+    select: { id: true, status: true, hospitalId: true }
+  });
+
+  if (!alert) return null;
+
+  if (!allowedTransitions(alert.status, actor.role).includes(toStatus)) {
+    throw new InvalidAlertTransitionError(
+      `An alert that is ${ALERT_STATUS_LABELS[alert.status].toLowerCase()} cannot be marked ${ALERT_STATUS_LABELS[toStatus].toLowerCase()}`
+    );
+  }
+
+  const now = new Date();
+  const leavingPending = alert.status === 'PENDING';
+  const claiming = leavingPending && toStatus === 'ACKNOWLEDGED';
+  const hospitalId = claiming && actor.role === 'HOSPITAL' && actor.hospital ? actor.hospital : alert.hospitalId;
+
+  // The status change and its timeline event are written together
+  await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    // Only applies if nobody else moved the alert first
+    const { count } = await tx.emergencyAlert.updateMany({
+      where: { id: alertId, status: alert.status },
+      data: {
+        status: toStatus,
+        hospitalId,
+        ...(leavingPending && { nextEscalationAt: null }),
+        ...(toStatus === 'RESPONDED' && { respondedAt: now }),
+        ...(note && { notes: note })
+      }
+    });
+
+    if (count === 0) {
+      if (claiming) throw new AlertAlreadyClaimedError();
+      throw new InvalidAlertTransitionError('This alert was just updated by someone else; reload it and try again');
+    }
+
+    await tx.emergencyAlertEvent.create({
+      data: {
+        alertId,
+        fromStatus: alert.status,
+        toStatus,
+        actorId: actor.id,
+        actorRole: actor.role,
+        hospitalId: actor.role === 'HOSPITAL' ? actor.hospital || null : null,
+        note: note || null,
+        createdAt: now
+      }
+    });
+  });
+
+  // Other hospitals escalation reached stop seeing it
+  if (leavingPending) {
+    await withdrawAlert(alertId, hospitalId, claiming ? 'claimed' : 'closed', now);
+  }
+
+  const updatedAlert = await prisma.emergencyAlert.findUnique({ where: { id: alertId } });
+
+  console.log(`🚨 Alert ${alertId}: ${alert.status} → ${toStatus} by ${actor.role.toLowerCase()} ${actor.id}`);
+
+  // Notify the hospital's dashboards and the patient who raised the alert
+  const updatedEvent = {
+    type: 'emergency.updated' as const,
+    alertId,
+    hospitalId: updatedAlert.hospitalId,
+    userId: updatedAlert.userId,
+    status: updatedAlert.status
+  };
+  publishEvent(hospitalChannel(updatedAlert.hospitalId), updatedEvent);
+  publishEvent(patientChannel(updatedAlert.userId), updatedEvent);
+
+  return updatedAlert;
+}
+
+/**
+ * Every status change of an alert, oldest first, with its response times.
+ * Staff notes are left out unless `withStaffNotes`, so the patient only sees
+ * their own.
+ */
+export async function getAlertTimeline(alertId: string, { withStaffNotes = false } = {}) {
+  const alert: { createdAt: Date; events: AlertEvent[] } | null = await prisma.emergencyAlert.findUnique({
+    where: { id: alertId },
+    select: {
+      createdAt: true,
+      events: { orderBy: { createdAt: 'asc' }, select: ALERT_EVENT_SELECT }
+    }
+  });
+
+  if (!alert) return null;
+
+  const events = withStaffNotes
+    ? alert.events
+    : alert.events.map(event => ({ ...event, note: event.actorRole === 'USER' ? event.note : null }));
+
+  return { events, metrics: responseMetrics(alert.createdAt, events) };
+}
@@ -0,0 +1,289 @@
+// Emergency alert escalation
+// An alert nobody acknowledges within EMERGENCY_ESCALATION_MINUTES escalates:
+// it is re-routed to the next nearest hospital in the patient's state, or
+// broadcast to several more hospitals at once, the first of which to
+// acknowledge it claims it. Each step is a job in the job queue, and the
+// patient sees every step live.
+import prisma from '@/lib/prisma';
+import { hospitalChannel, patientChannel, publishEvent } from '@/lib/events';
+import { MINUTE_MS } from '@/lib/localTime';
+import { locate } from '@/lib/geo';
+import { enqueueJob } from './jobs';
+import type { JobHandler } from './jobs';
+import { findNearbyHospitals } from './hospital';
+import { notifyEmergencyAlert } from './notifications';
+
+export const EMERGENCY_ESCALATION_JOB = 'emergency.escalate';
+
+export type EscalationMode = 'REROUTE' | 'BROADCAST';
+
+export type EscalationPolicy = {
+  // null turns escalation off
+  mode: EscalationMode | null;
+  afterMinutes: number;
+  maxSteps: number;
+  // Hospitals added by each broadcast step
+  broadcastSize: number;
+};
+
+type OpenRecipient = { hospitalId: string; closedAt: Date | null };
+
+/**
+ * Thrown when a hospital acknowledges an alert another hospital has already
+ * claimed. Routes answer these with 409.
+ */
+export class AlertAlreadyClaimedError extends Error {
+  constructor() {
+    super('Another hospital has already acknowledged this alert');
+    this.name = 'AlertAlreadyClaimedError';
+  }
+}
+
+function positiveNumber(value: string | undefined, fallback: number) {
+  const number = Number(value);
+  return Number.isFinite(number) && number > 0 ? number : fallback;
+}
+
+/**
+ * The escalation policy from EMERGENCY_ESCALATION ("reroute" by default,
+ * "broadcast" or "off"), EMERGENCY_ESCALATION_MINUTES (5),
+ * EMERGENCY_ESCALATION_MAX_STEPS (3) and EMERGENCY_BROADCAST_SIZE (3)
+ */
+export function getEscalationPolicy(): EscalationPolicy {
+  const modeName = (process.env.EMERGENCY_ESCALATION || 'reroute').toLowerCase();
+  const modes: Record<string, EscalationMode | null> = { reroute: 'REROUTE', broadcast: 'BROADCAST', off: null };
+
+  if (!(modeName in modes)) {
+    console.warn(`⚠️ Unknown EMERGENCY_ESCALATION "${modeName}", falling back to reroute`);
+  }
+
+  return {
+    mode: modeName in modes ? modes[modeName] : 'REROUTE',
+    afterMinutes: positiveNumber(process.env.EMERGENCY_ESCALATION_MINUTES, 5),
+    maxSteps: Math.floor(positiveNumber(process.env.EMERGENCY_ESCALATION_MAX_STEPS, 3)),
+    broadcastSize: Math.floor(positiveNumber(process.env.EMERGENCY_BROADCAST_SIZE, 3))
+  };
+}
+
+/**
+ * When a new alert escalates unless acknowledged, or null when escalation is off
+ */
+export function firstEscalationAt(now = new Date()) {
+  const policy = getEscalationPolicy();
+  return policy.mode ? new Date(now.getTime() + policy.afterMinutes * MINUTE_MS) : null;
+}
+
+/**
+ * Schedules an alert's next escalation step
+ */
+export async function scheduleEscalation(alertId: string, at: Date | null) {
+  if (!at) return;
+  await enqueueJob(EMERGENCY_ESCALATION_JOB, { alertId }, { key: alertId, runAt: at });
+}
+
+/**
+ * Takes the next escalation step of an alert that is still PENDING. Returns
+ * false when there was nothing to do.
+ */
+export async function escalateAlert(alertId: string, now = new Date()) {
+  const policy = getEscalationPolicy();
+
+  const alert = await prisma.emergencyAlert.findUnique({
+    where: { id: alertId },
+    select: {
+      id: true,
+      userId: true,
+      status: true,
+      escalationLevel: true,
+      patientInfo: true,
+      user: { select: { state: true, city: true, pincode: true } },
+      recipients: { select: { hospitalId: true, closedAt: true } }
+    }
+  });
+
+  if (!alert || alert.status !== 'PENDING' || !policy.mode) return false;
+
+  const mode = policy.mode;
+  const level = alert.escalationLevel + 1;
+  const recipients: OpenRecipient[] = alert.recipients;
+  const state = alert.user?.state || alert.patientInfo?.state;
+  const city = alert.user?.city || alert.patientInfo?.city || null;
+  // Where the patient was when they raised the alert, or their PIN code area
+  const origin = locate({
+    ...alert.patientInfo?.location,
+    pincode: alert.user?.pincode || alert.patientInfo?.pincode
+  });
+
+  const candidates = state
+    ? await findNearbyHospitals(state, { origin, city }, recipients.map(recipient => recipient.hospitalId))
+    : [];
+  const added = candidates.slice(0, mode === 'REROUTE' ? 1 : policy.broadcastSize);
+  const hasMoreSteps = level < policy.maxSteps && candidates.length > added.length;
+  const nextEscalationAt = added.length > 0 && hasMoreSteps
+    ? new Date(now.getTime() + policy.afterMinutes * MINUTE_MS)
+    : null;
+
+  // Only one worker may take this step, and not once the alert is acknowledged
+  const { count } = await prisma.emergencyAlert.updateMany({
+    where: { id: alertId, status: 'PENDING', escalationLevel: alert.escalationLevel },
+    data: {
+      escalationLevel: added.length > 0 ? level : alert.escalationLevel,
+      nextEscalationAt,
+      ...(mode === 'REROUTE' && added.length > 0 && { hospitalId: added[0].id })
+    }
+  });
+
+  if (count === 0) return false;
+
+  if (added.length === 0) {
+    console.log(`🚨 Alert ${alertId} has no more hospitals to escalate to`);
+  } else {
+    // A re-routed alert leaves the hospitals that did not answer
+    const withdrawn = mode === 'REROUTE'
+      ? recipients.filter(recipient => !recipient.closedAt).map(recipient => recipient.hospitalId)
+      : [];
+
+    if (withdrawn.length > 0) {
+      await prisma.emergencyAlertRecipient.updateMany({
+        where: { alertId, hospitalId: { in: withdrawn }, closedAt: null },
+        data: { closedAt: now }
+      });
+    }
+
+    await prisma.emergencyAlertRecipient.createMany({
+      data: added.map(hospital => ({ alertId, hospitalId: hospital.id, level, mode })),
+      skipDuplicates: true
+    });
+
+    withdrawn.forEach(hospitalId => {
+      publishEvent(hospitalChannel(hospitalId), { type: 'emergency.withdrawn', alertId, hospitalId, reason: 'rerouted' });
+    });
+    added.forEach(hospital => {
+      publishEvent(hospitalChannel(hospital.id), {
+        type: 'emergency.created',
+        alertId,
+        hospitalId: hospital.id,
+        userId: alert.userId,
+        status: 'PENDING',
+        createdAt: now.toISOString()
+      });
+    });
+
+    console.log(`🚨 Escalated alert ${alertId} (step ${level}, ${mode}) to ${added.map(hospital => hospital.name).join(', ')}`);
+
+    await notifyEmergencyAlert(alertId, added.map(hospital => hospital.id)).catch(error => {
+      console.error(`❌ Failed to notify hospitals of escalated alert ${alertId}:`, error);
+    });
+  }
+
+  publishEvent(patientChannel(alert.userId), {
+    type: 'emergency.escalated',
+    alertId,
+    userId: alert.userId,
+    level: added.length > 0 ? level : alert.escalationLevel,
+    mode,
+    hospitals: added.map(hospital => ({ id: hospital.id, name: hospital.name })),
+    nextEscalationAt: nextEscalationAt ? nextEscalationAt.toISOString() : null
+  });
+
+  await scheduleEscalation(alertId, nextEscalationAt);
+  return true;
+}
+
+// Runs an escalation step for the job worker
+export const emergencyEscalationJob: JobHandler = {
+  async run(job) {
+    await escalateAlert(String(job.payload.alertId));
+  }
+};
+
+/**
+ * Whether a hospital is currently being asked to answer an alert
+ */
+export async function isOpenRecipient(alertId: string, hospitalId: string) {
+  const recipient = await prisma.emergencyAlertRecipient.findFirst({
+    where: { alertId, hospitalId, closedAt: null },
+    select: { id: true }
+  });
+  return Boolean(recipient);
+}
+
+/**
+ * Stops asking every hospital an alert reached except the one it now belongs
+ * to, once that hospital claims it or the alert ends without anyone claiming
+ * it. Those hospitals' dashboards drop the alert.
+ */
+export async function withdrawAlert(alertId: string, hospitalId: string, reason: 'claimed' | 'closed', now = new Date()) {
+  const others: { hospitalId: string }[] = await prisma.emergencyAlertRecipient.findMany({
+    where: { alertId, hospitalId: { not: hospitalId }, closedAt: null },
+    select: { hospitalId: true }
+  });
+
+  await prisma.emergencyAlertRecipient.updateMany({
+    where: { alertId, hospitalId: { not: hospitalId }, closedAt: null },
+    data: { closedAt: now }
+  });
+
+  others.forEach(other => {
+    publishEvent(hospitalChannel(other.hospitalId), {
+      type: 'emergency.withdrawn',
+      alertId,
+      hospitalId: other.hospitalId,
+      reason
+    });
+  });
+}
+
+/**
+ * An alert with its escalation history, for the patient who raised it
+ */
+export async function getAlertProgress(alertId: string) {
+  const alert = await prisma.emergencyAlert.findUnique({
+    where: { id: alertId },
+    select: {
+      id: true,
+      userId: true,
+      status: true,
+      createdAt: true,
+      respondedAt: true,
+      escalationLevel: true,
+      nextEscalationAt: true,
+      hospital: { select: { id: true, name: true, city: true, address: true } },
+      recipients: {
+        orderBy: [{ level: 'asc' }, { createdAt: 'asc' }],
+        select: {
+          level: true,
+          mode: true,
+          createdAt: true,
+          closedAt: true,
+          hospital: { select: { id: true, name: true, city: true } }
+        }
+      }
+    }
+  });
+
+  if (!alert) return null;
+
+  type Recipient = {
+    level: number;
+    mode: EscalationMode | null;
+    createdAt: Date;
+    closedAt: Date | null;
+    hospital: { id: string; name: string; city: string | null };
+  };
+
+  const { recipients, ...progress } = alert;
+
+  // One step per escalation level, with the hospitals it reached
+  const steps: { level: number; mode: EscalationMode | null; at: Date; hospitals: (Recipient['hospital'] & { closedAt: Date | null })[] }[] = [];
+  (recipients as Recipient[]).forEach(recipient => {
+    let step = steps.find(existing => existing.level === recipient.level);
+    if (!step) {
+      step = { level: recipient.level, mode: recipient.mode, at: recipient.createdAt, hospitals: [] };
+      steps.push(step);
+    }
+    step.hospitals.push({ ...recipient.hospital, closedAt: recipient.closedAt });
+  });
+
+  return { ...progress, steps };
+}
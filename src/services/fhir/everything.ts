@@ -0,0 +1,189 @@
+// Patient $everything
+// Gathers a patient's record into a FHIR searchset bundle: the Patient, their
+// reports with the conditions found in them, appointments, medicine
+// reminders and emergency alerts, and the hospitals and doctors these
+// reference.
+import prisma from '@/lib/prisma';
+import { toLocalDate } from '@/lib/localTime';
+import {
+  toFhirAppointment,
+  toFhirCondition,
+  toFhirDiagnosticReport,
+  toFhirFlag,
+  toFhirMedicationStatement,
+  toFhirOrganization,
+  toFhirPatient,
+  toFhirPractitioner
+} from './mappings';
+import type { AlertRow, AppointmentRow, DoctorRow, HospitalRow, PatientRow, ReminderRow, ReportRow } from './mappings';
+import type { FhirBundle, FhirResource } from './resources';
+
+const PATIENT_SELECT = {
+  id: true,
+  name: true,
+  email: true,
+  phone: true,
+  gender: true,
+  dateOfBirth: true,
+  address: true,
+  city: true,
+  state: true,
+  pincode: true,
+  language: true
+};
+
+const HOSPITAL_SELECT = { id: true, name: true, state: true, city: true, address: true, pincode: true };
+
+const DOCTOR_SELECT = { id: true, name: true, specialty: true, available: true };
+
+const TRIAGE_SELECT = {
+  id: true,
+  userId: true,
+  hospitalId: true,
+  doctorId: true,
+  status: true,
+  condition: true,
+  severity: true,
+  priority: true,
+  specialty: true,
+  redFlags: true,
+  recommendedActions: true,
+  aiAnalysis: true,
+  hospital: { select: HOSPITAL_SELECT },
+  doctor: { select: DOCTOR_SELECT }
+};
+
+type Related = { hospital: HospitalRow | null; doctor: DoctorRow | null };
+
+// Which of the patient's records to include. Hospital staff get only those
+// filed with their hospital.
+export type EverythingScope = { hospitalId?: string };
+
+export type PatientEverything = {
+  bundle: FhirBundle;
+  // The records included, for the audit trail
+  records: { resource: string; resourceId: string }[];
+};
+
+/**
+ * Whether the patient has a report or an appointment filed with the hospital,
+ * which is what lets the hospital's staff read their record
+ */
+export async function isHospitalPatient(hospitalId: string, patientId: string) {
+  const [receipt, appointment] = await Promise.all([
+    prisma.receipt.findFirst({ where: { userId: patientId, hospitalId }, select: { id: true } }),
+    prisma.appointment.findFirst({ where: { userId: patientId, hospitalId }, select: { id: true } })
+  ]);
+
+  return Boolean(receipt || appointment);
+}
+
+/**
+ * The patient's record as a searchset bundle whose entries' fullUrls start
+ * with `baseUrl`, the FHIR API's address. Null when the patient does not
+ * exist, or hospital staff have none of their records.
+ */
+export async function patientEverything(
+  patientId: string,
+  baseUrl: string,
+  scope: EverythingScope = {}
+): Promise<PatientEverything | null> {
+  const patient: PatientRow | null = await prisma.user.findUnique({
+    where: { id: patientId },
+    select: PATIENT_SELECT
+  });
+
+  if (!patient) return null;
+
+  const where = { userId: patientId, ...(scope.hospitalId && { hospitalId: scope.hospitalId }) };
+
+  const [reports, appointments, reminders, alerts] = await Promise.all([
+    prisma.receipt.findMany({
+      where,
+      select: { ...TRIAGE_SELECT, uploatedAt: true, processedAt: true },
+      orderBy: { uploatedAt: 'asc' }
+    }) as Promise<(ReportRow & Related)[]>,
+    prisma.appointment.findMany({
+      where,
+      select: {
+        ...TRIAGE_SELECT,
+        symptoms: true,
+        preferredDate: true,
+        scheduledDate: true,
+        slotEnd: true,
+        createdAt: true
+      },
+      orderBy: { createdAt: 'asc' }
+    }) as Promise<(AppointmentRow & Related)[]>,
+    // Reminders are the patient's own, not filed with a hospital
+    scope.hospitalId ? [] : prisma.medicineReminder.findMany({
+      where: { userId: patientId },
+      orderBy: { createdAt: 'asc' }
+    }) as Promise<ReminderRow[]>,
+    prisma.emergencyAlert.findMany({
+      where,
+      select: {
+        id: true,
+        userId: true,
+        hospitalId: true,
+        status: true,
+        createdAt: true,
+        hospital: { select: HOSPITAL_SELECT },
+        events: { select: { createdAt: true }, orderBy: { createdAt: 'desc' }, take: 1 }
+      },
+      orderBy: { createdAt: 'asc' }
+    }) as Promise<(Omit<AlertRow, 'lastEventAt'> & { hospital: HospitalRow; events: { createdAt: Date }[] })[]>
+  ]);
+
+  if (scope.hospitalId && reports.length + appointments.length + alerts.length === 0) {
+    return null;
+  }
+
+  // Each hospital and doctor once, however many records reference them
+  const hospitals = new Map<string, HospitalRow>();
+  const doctors = new Map<string, DoctorRow>();
+  for (const record of [...reports, ...appointments]) {
+    if (record.hospital) hospitals.set(record.hospital.id, record.hospital);
+    if (record.doctor) doctors.set(record.doctor.id, record.doctor);
+  }
+  for (const alert of alerts) {
+    hospitals.set(alert.hospital.id, alert.hospital);
+  }
+
+  const today = toLocalDate(new Date());
+  const resources: FhirResource[] = [
+    toFhirPatient(patient),
+    ...[...hospitals.values()].map(toFhirOrganization),
+    ...[...doctors.values()].map(toFhirPractitioner),
+    ...reports.flatMap(report => {
+      const condition = toFhirCondition(report);
+      return condition ? [toFhirDiagnosticReport(report), condition] : [toFhirDiagnosticReport(report)];
+    }),
+    ...appointments.map(toFhirAppointment),
+    ...reminders.map(reminder => toFhirMedicationStatement(reminder, today)),
+    ...alerts.map(alert => toFhirFlag({ ...alert, lastEventAt: alert.events[0]?.createdAt ?? null }))
+  ];
+
+  const bundle: FhirBundle = {
+    resourceType: 'Bundle',
+    type: 'searchset',
+    timestamp: new Date().toISOString(),
+    total: resources.length,
+    link: [{ relation: 'self', url: `${baseUrl}/Patient/${patientId}/$everything` }],
+    entry: resources.map(resource => ({
+      fullUrl: `${baseUrl}/${resource.resourceType}/${resource.id}`,
+      resource
+    }))
+  };
+
+  return {
+    bundle,
+    records: [
+      { resource: 'profile', resourceId: patientId },
+      ...reports.map(report => ({ resource: 'receipt', resourceId: report.id })),
+      ...appointments.map(appointment => ({ resource: 'appointment', resourceId: appointment.id })),
+      ...reminders.map(reminder => ({ resource: 'medicineReminder', resourceId: reminder.id })),
+      ...alerts.map(alert => ({ resource: 'emergencyAlert', resourceId: alert.id }))
+    ]
+  };
+}
@@ -0,0 +1,415 @@
+// FHIR bundle import
+// Adds records from another provider's FHIR bundle to a patient's own
+// record: DiagnosticReports and Conditions become completed reports,
+// MedicationStatements become medicine reminders, and the Patient fills the
+// profile fields the patient has left empty.
+//
+// Appointments and Flags are not imported: they would put records into a
+// hospital's schedule and alerts that the hospital never made. Each imported
+// resource is remembered (ImportedResource), so importing a bundle again
+// does not duplicate it, and resources we exported are matched back to the
+// records they came from.
+import prisma from '@/lib/prisma';
+import { INDIAN_STATES } from '@/lib/constants';
+import { toDateColumn } from '@/services/doseSchedule';
+import {
+  RECOMMENDED_ACTIONS_NOTE,
+  RED_FLAGS_NOTE,
+  dosageFromFhir,
+  frequencyFromTiming,
+  genderFromFhir,
+  nameFromFhir,
+  noteList,
+  ownIdentifier,
+  priorityFromFhir,
+  severityFromFhir,
+  timeFromFhir
+} from './mappings';
+import { operationOutcome } from './outcome';
+import type { OperationOutcome } from './outcome';
+import type {
+  FhirBundle,
+  FhirBundleEntry,
+  FhirCodeableConcept,
+  FhirCondition,
+  FhirDiagnosticReport,
+  FhirMedicationStatement,
+  FhirPatient,
+  FhirReference
+} from './resources';
+
+// Entries a bundle may hold to be imported in one request
+export const MAX_IMPORT_ENTRIES = 1000;
+
+const IMPORTABLE_BUNDLE_TYPES = ['collection', 'searchset', 'batch', 'transaction', 'document'];
+
+/**
+ * Thrown when a bundle cannot be imported at all, e.g. it has no Patient, or
+ * an entry of a transaction cannot be imported. Routes answer these with 400.
+ */
+export class InvalidImportError extends Error {
+  // FHIRPath of the element at fault
+  expression?: string;
+
+  constructor(message: string, expression?: string) {
+    super(message);
+    this.name = 'InvalidImportError';
+    this.expression = expression;
+  }
+}
+
+type EntryResponse = {
+  status: string;
+  location?: string;
+  outcome?: OperationOutcome;
+};
+
+type Tx = typeof prisma;
+
+// The records an import wrote, for the audit trail
+export type ImportedRecord = { resource: string; resourceId: string };
+
+export type ImportResult = {
+  // A batch-response (transaction-response for a transaction) with one
+  // entry for each entry of the bundle, in order
+  bundle: FhirBundle;
+  created: ImportedRecord[];
+};
+
+const created = (location: string): EntryResponse => ({ status: '201 Created', location });
+
+const ok = (location?: string, diagnostics?: string): EntryResponse => ({
+  status: '200 OK',
+  ...(location && { location }),
+  ...(diagnostics && { outcome: operationOutcome('information', 'informational', diagnostics) })
+});
+
+const skipped = (diagnostics: string): EntryResponse => ({
+  status: '422 Unprocessable Entity',
+  outcome: operationOutcome('error', 'not-supported', diagnostics)
+});
+
+// Whether a reference points at an entry's resource, by its fullUrl or
+// its type and id
+function refersTo(target: FhirReference | undefined, entry: FhirBundleEntry) {
+  const value = target?.reference;
+  const resource = entry.resource;
+  if (!value || !resource) return false;
+  if (value === entry.fullUrl) return true;
+
+  const relative = `${resource.resourceType}/${resource.id}`;
+  return Boolean(resource.id) && (value === relative || value.endsWith(`/${relative}`));
+}
+
+// How an entry is recognised when imported again: its first identifier, or
+// else its fullUrl when that is a real address rather than a urn:uuid
+function sourceId(entry: FhirBundleEntry) {
+  const resource = entry.resource as { identifier?: { system?: string; value?: string }[] } | undefined;
+  const first = resource?.identifier?.find(item => item.system && item.value);
+  if (first) return `${first.system}|${first.value}`;
+  return entry.fullUrl && /^https?:\/\//.test(entry.fullUrl) ? entry.fullUrl : null;
+}
+
+function conceptText(concept: FhirCodeableConcept | undefined) {
+  return concept?.text || concept?.coding?.find(coding => coding.display)?.display || null;
+}
+
+function toDate(value: string | undefined) {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function enteredInError(resource: FhirDiagnosticReport | FhirCondition | FhirMedicationStatement) {
+  return ('status' in resource && resource.status === 'entered-in-error') ||
+    ('verificationStatus' in resource && Boolean(resource.verificationStatus?.coding?.some(coding => coding.code === 'entered-in-error')));
+}
+
+function stateName(state: string | undefined) {
+  if (!state) return null;
+  const match = INDIAN_STATES.find(indianState =>
+    indianState.id === state.toUpperCase() || indianState.name.toLowerCase() === state.toLowerCase()
+  );
+  return match?.name ?? state;
+}
+
+/**
+ * Fills the profile fields the patient has left empty; what they entered
+ * themselves is never overwritten
+ */
+async function mergePatient(tx: Tx, userId: string, patient: FhirPatient) {
+  const user = await tx.user.findUnique({ where: { id: userId } });
+  const address = patient.address?.find(item => item.use === 'home') ?? patient.address?.[0];
+  const phone = patient.telecom?.find(contact => contact.system === 'phone' || contact.system === 'sms')?.value;
+
+  const imported: Record<string, string | Date | null | undefined> = {
+    name: nameFromFhir(patient.name),
+    gender: genderFromFhir(patient.gender),
+    dateOfBirth: toDate(patient.birthDate),
+    phone,
+    address: address?.text || address?.line?.join(', '),
+    city: address?.city,
+    state: stateName(address?.state),
+    pincode: address?.postalCode
+  };
+
+  const data = Object.fromEntries(
+    Object.entries(imported).filter(([field, value]) => value && !user[field])
+  );
+
+  if (Object.keys(data).length > 0) {
+    await tx.user.update({ where: { id: userId }, data });
+  }
+}
+
+/**
+ * Imports a bundle into the patient's record, all of it or (on error)
+ * none of it
+ */
+export async function importBundle(userId: string, bundle: FhirBundle): Promise<ImportResult> {
+  if (!IMPORTABLE_BUNDLE_TYPES.includes(bundle.type)) {
+    throw new InvalidImportError(`A ${bundle.type} bundle cannot be imported`, 'Bundle.type');
+  }
+
+  const entries = bundle.entry ?? [];
+  if (entries.length > MAX_IMPORT_ENTRIES) {
+    throw new InvalidImportError(`A bundle may hold at most ${MAX_IMPORT_ENTRIES} entries`, 'Bundle.entry');
+  }
+
+  const patientIndexes = entries.flatMap((entry, index) => entry.resource?.resourceType === 'Patient' ? [index] : []);
+  if (patientIndexes.length !== 1) {
+    throw new InvalidImportError('The bundle must hold exactly one Patient, whose record it is', 'Bundle.entry');
+  }
+  const patientEntry = entries[patientIndexes[0]];
+
+  const transaction = bundle.type === 'transaction';
+  const responses: (EntryResponse | null)[] = entries.map(() => null);
+  const createdRecords: ImportedRecord[] = [];
+
+  // A transaction is all or nothing, so an entry that cannot be imported
+  // fails the whole bundle
+  const skip = (index: number, diagnostics: string) => {
+    if (transaction) throw new InvalidImportError(diagnostics, `Bundle.entry[${index}]`);
+    responses[index] = skipped(diagnostics);
+  };
+
+  // Names of the organizations and practitioners a report references
+  const reportedBy = (references: FhirReference[]) => references.flatMap(target => {
+    const entry = entries.find(candidate => refersTo(target, candidate));
+    const resource = entry?.resource as { name?: string | FhirPatient['name'] } | undefined;
+    const name = typeof resource?.name === 'string' ? resource.name : nameFromFhir(resource?.name);
+    return name || target.display ? [name || target.display] : [];
+  });
+
+  // Conditions of the Patient whose evidence is a DiagnosticReport of the
+  // bundle are merged into its report
+  const conditionsOf = (reportEntry: FhirBundleEntry) => entries.flatMap((entry, index) => {
+    const resource = entry.resource;
+    if (resource?.resourceType !== 'Condition') return [];
+    const condition = resource as FhirCondition;
+    if (!refersTo(condition.subject, patientEntry) || enteredInError(condition)) return [];
+    const evidence = condition.evidence?.flatMap(item => item.detail ?? []) ?? [];
+    return evidence.some(target => refersTo(target, reportEntry)) ? [{ index, condition }] : [];
+  });
+
+  await prisma.$transaction(async (tx: Tx) => {
+    // The record a resource was imported as before, if it still exists
+    const previousImport = async (resourceType: string, entry: FhirBundleEntry, exists: (id: string) => Promise<unknown>) => {
+      const source = sourceId(entry);
+      if (!source) return null;
+      const imported = await tx.importedResource.findUnique({
+        where: { userId_resourceType_sourceId: { userId, resourceType, sourceId: source } }
+      });
+      return imported && await exists(imported.recordId) ? imported.recordId as string : null;
+    };
+
+    const remember = async (resourceType: string, entry: FhirBundleEntry, recordId: string) => {
+      const source = sourceId(entry);
+      if (!source) return;
+      await tx.importedResource.upsert({
+        where: { userId_resourceType_sourceId: { userId, resourceType, sourceId: source } },
+        create: { userId, resourceType, sourceId: source, recordId },
+        update: { recordId }
+      });
+    };
+
+    const ownReport = (id: string | null) => id
+      ? tx.receipt.findFirst({ where: { id, userId }, select: { id: true } })
+      : null;
+
+    const ownReminder = (id: string | null) => id
+      ? tx.medicineReminder.findFirst({ where: { id, userId }, select: { id: true } })
+      : null;
+
+    // Writes a report from a DiagnosticReport and the conditions merged
+    // into it, or from a Condition of its own
+    const importReport = async (
+      index: number,
+      report: FhirDiagnosticReport | null,
+      conditions: { index: number; condition: FhirCondition }[]
+    ) => {
+      const entry = entries[index];
+      const exported = report ? ownIdentifier(report, 'report') : ownIdentifier(conditions[0].condition, 'condition');
+      const existing = (await ownReport(exported))?.id
+        ?? await previousImport(report ? 'DiagnosticReport' : 'Condition', entry, id => ownReport(id));
+
+      if (existing) {
+        const location = `Receipt/${existing}`;
+        responses[index] = ok(location, 'Already in the record');
+        conditions.forEach(item => { responses[item.index] ??= ok(location, 'Already in the record'); });
+        return;
+      }
+
+      const severities = conditions.map(item => severityFromFhir(item.condition)).filter((score): score is number => score !== null);
+      const priority = conditions.map(item => priorityFromFhir(item.condition)).find(Boolean) ?? null;
+      const names = conditions.map(item => conceptText(item.condition.code)).filter(Boolean);
+      const performers = report ? reportedBy([...(report.performer ?? []), ...(report.resultsInterpreter ?? [])]) : [];
+      const analysis = [
+        ...(performers.length > 0 ? [`Reported by: ${performers.join(', ')}`] : []),
+        ...(report?.conclusion ? [report.conclusion] : [])
+      ].join('\n\n');
+
+      const uploatedAt = report
+        ? toDate(report.effectiveDateTime) ?? toDate(report.issued) ?? new Date()
+        : toDate(conditions[0].condition.recordedDate) ?? toDate(conditions[0].condition.onsetDateTime) ?? new Date();
+      const completedAt = (report ? toDate(report.issued) : null) ?? uploatedAt;
+
+      const receipt = await tx.receipt.create({
+        data: {
+          userId,
+          status: 'COMPLETED',
+          uploatedAt,
+          processedAt: completedAt,
+          completedAt,
+          condition: names.length > 0 ? names.join('; ') : null,
+          severity: severities.length > 0 ? Math.max(...severities) : null,
+          priority,
+          redFlags: conditions.flatMap(item => noteList(item.condition, RED_FLAGS_NOTE)),
+          recommendedActions: conditions.flatMap(item => noteList(item.condition, RECOMMENDED_ACTIONS_NOTE)),
+          aiAnalysis: analysis || null
+        }
+      });
+
+      const location = `Receipt/${receipt.id}`;
+      responses[index] = created(location);
+      createdRecords.push({ resource: 'receipt', resourceId: receipt.id });
+      await remember(report ? 'DiagnosticReport' : 'Condition', entry, receipt.id);
+
+      for (const item of conditions) {
+        responses[item.index] ??= ok(location, 'Merged into the report it is evidence of');
+        if (item.index !== index) await remember('Condition', entries[item.index], receipt.id);
+      }
+    };
+
+    const importMedication = async (index: number, statement: FhirMedicationStatement) => {
+      const entry = entries[index];
+      const existing = (await ownReminder(ownIdentifier(statement, 'medicine-reminder')))?.id
+        ?? await previousImport('MedicationStatement', entry, id => ownReminder(id));
+
+      if (existing) {
+        responses[index] = ok(`MedicineReminder/${existing}`, 'Already in the record');
+        return;
+      }
+
+      const name = conceptText(statement.medicationCodeableConcept);
+      if (!name) {
+        skip(index, 'Only medications named in medicationCodeableConcept can be imported');
+        return;
+      }
+
+      const start = statement.effectivePeriod?.start ?? statement.effectiveDateTime;
+      const end = statement.effectivePeriod?.end;
+
+      const reminder = await tx.medicineReminder.create({
+        data: {
+          userId,
+          name,
+          dosage: dosageFromFhir(statement),
+          frequency: frequencyFromTiming(statement),
+          time: timeFromFhir(statement),
+          notes: statement.note?.map(note => note.text).join('\n') || null,
+          isActive: statement.status === 'active',
+          aiGenerated: false,
+          ...(start && { startDate: toDateColumn(start.slice(0, 10)) }),
+          ...(end && { endDate: toDateColumn(end.slice(0, 10)) })
+        }
+      });
+
+      responses[index] = created(`MedicineReminder/${reminder.id}`);
+      createdRecords.push({ resource: 'medicineReminder', resourceId: reminder.id });
+      await remember('MedicationStatement', entry, reminder.id);
+    };
+
+    for (const [index, entry] of entries.entries()) {
+      if (responses[index]) continue;
+
+      const resource = entry.resource;
+      if (!resource) {
+        skip(index, 'Only entries that carry a resource can be imported');
+        continue;
+      }
+      if (entry.request && entry.request.method !== 'POST' && entry.request.method !== 'PUT') {
+        skip(index, `${entry.request.method} requests are not supported; only resources are imported`);
+        continue;
+      }
+
+      switch (resource.resourceType) {
+        case 'Patient':
+          await mergePatient(tx, userId, resource as FhirPatient);
+          responses[index] = ok(`Patient/${userId}`, 'Merged into the profile');
+          continue;
+        case 'Organization':
+        case 'Practitioner':
+          responses[index] = ok(undefined, 'Read for the records that reference it; not stored');
+          continue;
+        case 'Appointment':
+          skip(index, 'Appointments are booked with the hospital, not imported');
+          continue;
+        case 'Flag':
+          skip(index, 'Emergency alerts are raised with a hospital, not imported');
+          continue;
+      }
+
+      if (!['DiagnosticReport', 'Condition', 'MedicationStatement'].includes(resource.resourceType)) {
+        skip(index, `${resource.resourceType} resources are not supported`);
+        continue;
+      }
+
+      const clinical = resource as FhirDiagnosticReport | FhirCondition | FhirMedicationStatement;
+      if (!refersTo(clinical.subject, patientEntry)) {
+        skip(index, 'The subject is not the Patient of the bundle');
+        continue;
+      }
+      if (enteredInError(clinical)) {
+        responses[index] = ok(undefined, 'Entered in error; not imported');
+        continue;
+      }
+
+      if (resource.resourceType === 'DiagnosticReport') {
+        await importReport(index, resource as FhirDiagnosticReport, conditionsOf(entry));
+      } else if (resource.resourceType === 'Condition') {
+        // Conditions found in a report of the bundle are imported with it,
+        // whichever comes first
+        const report = entries.findIndex(candidate =>
+          candidate.resource?.resourceType === 'DiagnosticReport' &&
+          conditionsOf(candidate).some(item => item.index === index)
+        );
+        if (report === -1) {
+          await importReport(index, null, [{ index, condition: resource as FhirCondition }]);
+        }
+      } else {
+        await importMedication(index, resource as FhirMedicationStatement);
+      }
+    }
+  }, { timeout: 60_000 });
+
+  const responseBundle: FhirBundle = {
+    resourceType: 'Bundle',
+    type: transaction ? 'transaction-response' : 'batch-response',
+    timestamp: new Date().toISOString(),
+    // Only conditions of a report that was not imported are left
+    entry: responses.map(response => ({ response: response ?? ok(undefined, 'Its report was not imported') }))
+  };
+
+  return { bundle: responseBundle, created: createdRecords };
+}
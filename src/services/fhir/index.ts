@@ -0,0 +1,13 @@
+// FHIR R4 interoperability
+// Exports a patient's record as a FHIR bundle (Patient $everything) and
+// imports bundles from other providers into it.
+export const FHIR_JSON = 'application/fhir+json';
+
+export { BundleSchema } from './resources';
+export type { FhirBundle, FhirBundleEntry, FhirResource, FhirResourceType } from './resources';
+export { operationOutcome, validationOutcome } from './outcome';
+export type { OperationOutcome } from './outcome';
+export { isHospitalPatient, patientEverything } from './everything';
+export type { EverythingScope, PatientEverything } from './everything';
+export { importBundle, InvalidImportError, MAX_IMPORT_ENTRIES } from './import';
+export type { ImportedRecord, ImportResult } from './import';
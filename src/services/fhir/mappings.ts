@@ -0,0 +1,487 @@
+// FHIR R4 mappings
+// How the app's records are written as FHIR resources, and read back:
+// User → Patient, Hospital → Organization, Doctor → Practitioner,
+// Appointment → Appointment, a report's analysis → DiagnosticReport and
+// Condition, MedicineReminder → MedicationStatement, EmergencyAlert → Flag.
+import { REMINDER_FREQUENCIES } from '@/lib/constants';
+import { LANGUAGES, toLocale } from '@/lib/i18n';
+import type {
+  FhirAppointment,
+  FhirCodeableConcept,
+  FhirCondition,
+  FhirDiagnosticReport,
+  FhirFlag,
+  FhirMedicationStatement,
+  FhirOrganization,
+  FhirPatient,
+  FhirPractitioner,
+  FhirReference
+} from './resources';
+
+// Our records carry an identifier in this namespace, e.g.
+// urn:medical-queue-ai:appointment, so an export imported again is
+// recognised
+export const IDENTIFIER_SYSTEM = 'urn:medical-queue-ai';
+
+// The triage score (1-10) and priority, which FHIR has no element for
+export const SEVERITY_EXTENSION = `${IDENTIFIER_SYSTEM}:triage-severity`;
+export const PRIORITY_EXTENSION = `${IDENTIFIER_SYSTEM}:triage-priority`;
+
+// Condition notes that carry the triage's lists
+export const RED_FLAGS_NOTE = 'Red flags: ';
+export const RECOMMENDED_ACTIONS_NOTE = 'Recommended actions: ';
+
+const SNOMED = 'http://snomed.info/sct';
+const CONDITION_CLINICAL = 'http://terminology.hl7.org/CodeSystem/condition-clinical';
+const CONDITION_VERIFICATION = 'http://terminology.hl7.org/CodeSystem/condition-ver-status';
+const FLAG_CATEGORY = 'http://terminology.hl7.org/CodeSystem/flag-category';
+
+type Priority = 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT';
+
+type ReminderFrequency = typeof REMINDER_FREQUENCIES[number];
+
+export type PatientRow = {
+  id: string;
+  name: string | null;
+  email: string | null;
+  phone: string | null;
+  gender: string | null;
+  dateOfBirth: Date | null;
+  address: string | null;
+  city: string | null;
+  state: string | null;
+  pincode: string | null;
+  language: string;
+};
+
+export type HospitalRow = {
+  id: string;
+  name: string;
+  state: string;
+  city: string | null;
+  address: string | null;
+  pincode: string | null;
+};
+
+export type DoctorRow = {
+  id: string;
+  name: string;
+  specialty: string;
+  available: boolean;
+};
+
+type TriageRow = {
+  id: string;
+  userId: string;
+  hospitalId: string | null;
+  doctorId: string | null;
+  condition: string | null;
+  severity: number | null;
+  priority: Priority | null;
+  specialty: string | null;
+  redFlags: string[];
+  recommendedActions: string[];
+  aiAnalysis: string | null;
+};
+
+export type ReportRow = TriageRow & {
+  status: string;
+  uploatedAt: Date;
+  processedAt: Date | null;
+};
+
+export type AppointmentRow = TriageRow & {
+  hospitalId: string;
+  status: 'PENDING' | 'CONFIRMED' | 'COMPLETED' | 'CANCELLED';
+  symptoms: string;
+  preferredDate: Date;
+  scheduledDate: Date | null;
+  slotEnd: Date | null;
+  createdAt: Date;
+};
+
+export type ReminderRow = {
+  id: string;
+  userId: string;
+  name: string;
+  dosage: string;
+  frequency: string;
+  time: string;
+  notes: string | null;
+  isActive: boolean;
+  startDate: Date;
+  endDate: Date | null;
+  createdAt: Date;
+};
+
+export type AlertRow = {
+  id: string;
+  userId: string;
+  hospitalId: string;
+  status: string;
+  createdAt: Date;
+  // When the alert last changed status
+  lastEventAt: Date | null;
+};
+
+const APPOINTMENT_STATUS: Record<AppointmentRow['status'], FhirAppointment['status']> = {
+  PENDING: 'proposed',
+  CONFIRMED: 'booked',
+  COMPLETED: 'fulfilled',
+  CANCELLED: 'cancelled'
+};
+
+// Appointment.priority runs from 1 (highest) to 9 (lowest)
+const APPOINTMENT_PRIORITY: Record<Priority, number> = {
+  URGENT: 1,
+  HIGH: 3,
+  MEDIUM: 5,
+  LOW: 9
+};
+
+const FLAG_STATUS: Record<string, FhirFlag['status']> = {
+  PENDING: 'active',
+  ACKNOWLEDGED: 'active',
+  RESPONDED: 'active',
+  CLOSED: 'inactive',
+  CANCELLED: 'inactive',
+  FALSE_ALARM: 'entered-in-error'
+};
+
+// The condition-severity value set, by the lowest triage score it covers
+const SEVERITIES = [
+  { from: 7, score: 8, code: '24484000', display: 'Severe' },
+  { from: 4, score: 5, code: '6736007', display: 'Moderate' },
+  { from: 0, score: 2, code: '255604002', display: 'Mild' }
+];
+
+const GENDERS: Record<string, FhirPatient['gender']> = {
+  male: 'male',
+  female: 'female',
+  other: 'other',
+  'prefer not to say': 'unknown'
+};
+
+// Dose schedules as Timing.repeat
+const FREQUENCY_TIMING: Record<ReminderFrequency, { frequency: number; period: number; periodUnit: 'd' | 'wk' | 'mo' }> = {
+  daily: { frequency: 1, period: 1, periodUnit: 'd' },
+  'twice-daily': { frequency: 2, period: 1, periodUnit: 'd' },
+  'thrice-daily': { frequency: 3, period: 1, periodUnit: 'd' },
+  weekly: { frequency: 1, period: 1, periodUnit: 'wk' },
+  biweekly: { frequency: 1, period: 2, periodUnit: 'wk' },
+  monthly: { frequency: 1, period: 1, periodUnit: 'mo' }
+};
+
+function identifier(type: string, value: string) {
+  return [{ system: `${IDENTIFIER_SYSTEM}:${type}`, value }];
+}
+
+export function reference(resourceType: string, id: string, display?: string | null): FhirReference {
+  return { reference: `${resourceType}/${id}`, ...(display && { display }) };
+}
+
+function text(value: string): FhirCodeableConcept {
+  return { text: value };
+}
+
+function toFhirDate(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+function triageExtensions(row: Pick<TriageRow, 'severity' | 'priority'>) {
+  const extensions = [
+    ...(row.severity ? [{ url: SEVERITY_EXTENSION, valueInteger: row.severity }] : []),
+    ...(row.priority ? [{ url: PRIORITY_EXTENSION, valueCode: row.priority }] : [])
+  ];
+  return extensions.length > 0 ? extensions : undefined;
+}
+
+// Splits a full name into given names and a family name, e.g. "Asha Devi
+// Rao" → ["Asha", "Devi"] and "Rao"
+function humanName(name: string) {
+  const words = name.trim().split(/\s+/);
+  return {
+    text: name,
+    ...(words.length > 1 ? { family: words[words.length - 1], given: words.slice(0, -1) } : { given: words })
+  };
+}
+
+function address(row: { address: string | null; city: string | null; state: string | null; pincode: string | null }) {
+  if (!row.address && !row.city && !row.state && !row.pincode) return undefined;
+
+  return [{
+    ...(row.address && { text: row.address }),
+    ...(row.city && { city: row.city }),
+    ...(row.state && { state: row.state }),
+    ...(row.pincode && { postalCode: row.pincode }),
+    country: 'IN'
+  }];
+}
+
+export function toFhirPatient(user: PatientRow): FhirPatient {
+  const telecom = [
+    ...(user.email ? [{ system: 'email' as const, value: user.email }] : []),
+    ...(user.phone ? [{ system: 'phone' as const, value: user.phone, use: 'mobile' as const }] : [])
+  ];
+  const language = toLocale(user.language);
+
+  return {
+    resourceType: 'Patient',
+    id: user.id,
+    identifier: identifier('patient', user.id),
+    active: true,
+    ...(user.name && { name: [humanName(user.name)] }),
+    ...(telecom.length > 0 && { telecom }),
+    ...(user.gender && GENDERS[user.gender.toLowerCase()] && { gender: GENDERS[user.gender.toLowerCase()] }),
+    ...(user.dateOfBirth && { birthDate: toFhirDate(user.dateOfBirth) }),
+    address: address(user),
+    communication: [{
+      language: { coding: [{ system: 'urn:ietf:bcp:47', code: language }], text: LANGUAGES[language].name },
+      preferred: true
+    }]
+  };
+}
+
+export function toFhirOrganization(hospital: HospitalRow): FhirOrganization {
+  return {
+    resourceType: 'Organization',
+    id: hospital.id,
+    identifier: identifier('hospital', hospital.id),
+    active: true,
+    name: hospital.name,
+    address: address(hospital)
+  };
+}
+
+export function toFhirPractitioner(doctor: DoctorRow): FhirPractitioner {
+  return {
+    resourceType: 'Practitioner',
+    id: doctor.id,
+    identifier: identifier('doctor', doctor.id),
+    active: doctor.available,
+    name: [humanName(doctor.name)],
+    qualification: [{ code: text(doctor.specialty) }]
+  };
+}
+
+export function toFhirAppointment(appointment: AppointmentRow): FhirAppointment {
+  const status = APPOINTMENT_STATUS[appointment.status];
+  // Appointments confirmed before slots existed only have the preferred date
+  const start = appointment.scheduledDate
+    ?? (status === 'proposed' || status === 'cancelled' ? null : appointment.preferredDate);
+  const end = appointment.scheduledDate ? appointment.slotEnd ?? appointment.scheduledDate : start;
+
+  return {
+    resourceType: 'Appointment',
+    id: appointment.id,
+    identifier: identifier('appointment', appointment.id),
+    extension: triageExtensions(appointment),
+    status,
+    ...(appointment.specialty && { specialty: [text(appointment.specialty)] }),
+    ...(appointment.condition && { reasonCode: [text(appointment.condition)] }),
+    ...(appointment.priority && { priority: APPOINTMENT_PRIORITY[appointment.priority] }),
+    description: appointment.symptoms,
+    // Appointment has no element for the organization it is with
+    supportingInformation: [reference('Organization', appointment.hospitalId)],
+    ...(start && end && { start: start.toISOString(), end: end.toISOString() }),
+    created: appointment.createdAt.toISOString(),
+    ...(appointment.aiAnalysis && { comment: appointment.aiAnalysis }),
+    requestedPeriod: [{ start: appointment.preferredDate.toISOString() }],
+    participant: [
+      { actor: reference('Patient', appointment.userId), required: 'required', status: 'accepted' },
+      ...(appointment.doctorId ? [{
+        actor: reference('Practitioner', appointment.doctorId),
+        required: 'required' as const,
+        status: status === 'proposed' ? 'needs-action' as const : 'accepted' as const
+      }] : [])
+    ]
+  };
+}
+
+const ANALYZED_STATUSES = ['PROCESSED', 'QUEUED', 'COMPLETED'];
+
+export function toFhirDiagnosticReport(report: ReportRow): FhirDiagnosticReport {
+  return {
+    resourceType: 'DiagnosticReport',
+    id: report.id,
+    identifier: identifier('report', report.id),
+    status: ANALYZED_STATUSES.includes(report.status) ? 'final' : 'registered',
+    code: text('Medical report'),
+    subject: reference('Patient', report.userId),
+    effectiveDateTime: report.uploatedAt.toISOString(),
+    ...(report.processedAt && { issued: report.processedAt.toISOString() }),
+    ...(report.hospitalId && { performer: [reference('Organization', report.hospitalId)] }),
+    ...(report.doctorId && { resultsInterpreter: [reference('Practitioner', report.doctorId)] }),
+    ...(report.aiAnalysis && { conclusion: report.aiAnalysis })
+  };
+}
+
+function severityConcept(severity: number): FhirCodeableConcept {
+  const { code, display } = SEVERITIES.find(level => severity >= level.from)!;
+  return { coding: [{ system: SNOMED, code, display }], text: display };
+}
+
+/**
+ * The condition a report's analysis found, or null when it has none yet
+ */
+export function toFhirCondition(report: ReportRow): FhirCondition | null {
+  if (!report.condition) return null;
+
+  const notes = [
+    ...(report.redFlags.length > 0 ? [{ text: `${RED_FLAGS_NOTE}${report.redFlags.join('; ')}` }] : []),
+    ...(report.recommendedActions.length > 0 ? [{ text: `${RECOMMENDED_ACTIONS_NOTE}${report.recommendedActions.join('; ')}` }] : [])
+  ];
+
+  return {
+    resourceType: 'Condition',
+    id: report.id,
+    identifier: identifier('condition', report.id),
+    extension: triageExtensions(report),
+    clinicalStatus: { coding: [{ system: CONDITION_CLINICAL, code: 'active' }] },
+    // Found by the AI triage, not yet confirmed by a doctor
+    verificationStatus: { coding: [{ system: CONDITION_VERIFICATION, code: 'provisional' }] },
+    ...(report.severity && { severity: severityConcept(report.severity) }),
+    code: text(report.condition),
+    subject: reference('Patient', report.userId),
+    recordedDate: (report.processedAt ?? report.uploatedAt).toISOString(),
+    evidence: [{ detail: [reference('DiagnosticReport', report.id)] }],
+    ...(notes.length > 0 && { note: notes })
+  };
+}
+
+function medicationStatus(reminder: ReminderRow, today: string): FhirMedicationStatement['status'] {
+  if (!reminder.isActive) return 'stopped';
+  if (reminder.endDate && toFhirDate(reminder.endDate) < today) return 'completed';
+  return 'active';
+}
+
+export function toFhirMedicationStatement(reminder: ReminderRow, today: string): FhirMedicationStatement {
+  const timing = FREQUENCY_TIMING[reminder.frequency as ReminderFrequency];
+  // Prescriptions read by the AI may carry times such as "After dinner"
+  const timeOfDay = /^\d{1,2}:\d{2}$/.test(reminder.time) ? `${reminder.time.padStart(5, '0')}:00` : null;
+  const dose = reminder.dosage.match(/^(\d+(?:\.\d+)?)\s*([a-zA-Z]+)$/);
+
+  return {
+    resourceType: 'MedicationStatement',
+    id: reminder.id,
+    identifier: identifier('medicine-reminder', reminder.id),
+    status: medicationStatus(reminder, today),
+    medicationCodeableConcept: text(reminder.name),
+    subject: reference('Patient', reminder.userId),
+    effectivePeriod: {
+      start: toFhirDate(reminder.startDate),
+      ...(reminder.endDate && { end: toFhirDate(reminder.endDate) })
+    },
+    dateAsserted: reminder.createdAt.toISOString(),
+    informationSource: reference('Patient', reminder.userId),
+    ...(reminder.notes && { note: [{ text: reminder.notes }] }),
+    dosage: [{
+      text: `${reminder.dosage}, ${reminder.frequency.replace('-', ' ')} at ${reminder.time}`,
+      ...((timing || timeOfDay) && {
+        timing: { repeat: { ...timing, ...(timeOfDay && { timeOfDay: [timeOfDay] }) } }
+      }),
+      ...(dose && { doseAndRate: [{ doseQuantity: { value: Number(dose[1]), unit: dose[2] } }] })
+    }]
+  };
+}
+
+export function toFhirFlag(alert: AlertRow): FhirFlag {
+  const status = FLAG_STATUS[alert.status] ?? 'active';
+
+  return {
+    resourceType: 'Flag',
+    id: alert.id,
+    identifier: identifier('emergency-alert', alert.id),
+    status,
+    category: [{ coding: [{ system: FLAG_CATEGORY, code: 'clinical', display: 'Clinical' }] }],
+    code: text('Emergency alert'),
+    subject: reference('Patient', alert.userId),
+    period: {
+      start: alert.createdAt.toISOString(),
+      ...(status !== 'active' && alert.lastEventAt && { end: alert.lastEventAt.toISOString() })
+    },
+    author: reference('Organization', alert.hospitalId)
+  };
+}
+
+// Reading resources back
+
+/**
+ * Our record id in an identifier of ours of the given type, e.g. a
+ * report's id in a DiagnosticReport we exported
+ */
+export function ownIdentifier(resource: { identifier?: { system?: string; value?: string }[] }, type: string) {
+  return resource.identifier?.find(item => item.system === `${IDENTIFIER_SYSTEM}:${type}`)?.value ?? null;
+}
+
+export function nameFromFhir(names: FhirPatient['name']) {
+  const name = names?.find(item => item.use === 'official') ?? names?.[0];
+  if (!name) return null;
+  return name.text || [...(name.given ?? []), name.family].filter(Boolean).join(' ') || null;
+}
+
+export function genderFromFhir(gender: FhirPatient['gender']) {
+  switch (gender) {
+    case 'male': return 'Male';
+    case 'female': return 'Female';
+    case 'other': return 'Other';
+    case 'unknown': return 'Prefer not to say';
+    default: return null;
+  }
+}
+
+function extensionValue(resource: { extension?: { url: string; valueInteger?: number; valueCode?: string }[] }, url: string) {
+  const extension = resource.extension?.find(item => item.url === url);
+  return extension?.valueInteger ?? extension?.valueCode ?? null;
+}
+
+/**
+ * The triage score of a Condition: ours when it came from us, else the
+ * middle of its coded severity
+ */
+export function severityFromFhir(condition: FhirCondition) {
+  const score = extensionValue(condition, SEVERITY_EXTENSION);
+  if (typeof score === 'number' && score >= 1 && score <= 10) return score;
+
+  const codes = condition.severity?.coding?.map(coding => coding.code) ?? [];
+  return SEVERITIES.find(level => codes.includes(level.code))?.score ?? null;
+}
+
+export function priorityFromFhir(condition: FhirCondition): Priority | null {
+  const priority = extensionValue(condition, PRIORITY_EXTENSION);
+  return typeof priority === 'string' && priority in APPOINTMENT_PRIORITY ? priority as Priority : null;
+}
+
+// Splits a Condition note we wrote back into its list
+export function noteList(condition: FhirCondition, prefix: string) {
+  const note = condition.note?.find(item => item.text.startsWith(prefix));
+  return note ? note.text.slice(prefix.length).split('; ').filter(Boolean) : [];
+}
+
+/**
+ * The reminder frequency closest to a dose schedule; daily when it has none
+ */
+export function frequencyFromTiming(statement: FhirMedicationStatement): ReminderFrequency {
+  const repeat = statement.dosage?.[0]?.timing?.repeat;
+  if (!repeat) return 'daily';
+
+  const match = (Object.entries(FREQUENCY_TIMING) as [ReminderFrequency, typeof FREQUENCY_TIMING[ReminderFrequency]][])
+    .find(([, timing]) =>
+      timing.frequency === (repeat.frequency ?? 1) &&
+      timing.period === (repeat.period ?? 1) &&
+      timing.periodUnit === (repeat.periodUnit ?? 'd')
+    );
+  return match?.[0] ?? 'daily';
+}
+
+export function dosageFromFhir(statement: FhirMedicationStatement) {
+  const dosage = statement.dosage?.[0];
+  const quantity = dosage?.doseAndRate?.find(item => item.doseQuantity?.value !== undefined)?.doseQuantity;
+
+  if (quantity) return `${quantity.value}${quantity.unit ?? ''}`;
+  return dosage?.text || 'As directed';
+}
+
+export function timeFromFhir(statement: FhirMedicationStatement) {
+  return statement.dosage?.[0]?.timing?.repeat?.timeOfDay?.[0]?.slice(0, 5) ?? '09:00';
+}
@@ -0,0 +1,52 @@
+// FHIR OperationOutcome
+// How the FHIR API reports errors and per-entry results.
+import type { ZodError } from 'zod';
+
+export type OperationOutcomeIssue = {
+  severity: 'fatal' | 'error' | 'warning' | 'information';
+  code: string;
+  diagnostics: string;
+  // FHIRPath of the element at fault, e.g. Bundle.entry[2].resource.status
+  expression?: string[];
+};
+
+export type OperationOutcome = {
+  resourceType: 'OperationOutcome';
+  issue: OperationOutcomeIssue[];
+};
+
+export function operationOutcome(
+  severity: OperationOutcomeIssue['severity'],
+  code: string,
+  diagnostics: string,
+  expression?: string
+): OperationOutcome {
+  return {
+    resourceType: 'OperationOutcome',
+    issue: [{ severity, code, diagnostics, ...(expression && { expression: [expression] }) }]
+  };
+}
+
+// A zod path as FHIRPath, e.g. ['entry', 2, 'resource', 'status'] →
+// Bundle.entry[2].resource.status
+function fhirPath(path: (string | number)[]) {
+  return path.reduce<string>(
+    (expression, step) => typeof step === 'number' ? `${expression}[${step}]` : `${expression}.${step}`,
+    'Bundle'
+  );
+}
+
+/**
+ * One error issue for each problem zod found in a bundle
+ */
+export function validationOutcome(error: ZodError): OperationOutcome {
+  return {
+    resourceType: 'OperationOutcome',
+    issue: error.issues.map(issue => ({
+      severity: 'error',
+      code: issue.code === 'invalid_type' && issue.received === 'undefined' ? 'required' : 'structure',
+      diagnostics: issue.message,
+      expression: [fhirPath(issue.path)]
+    }))
+  };
+}
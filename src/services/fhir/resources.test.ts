@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import {
+  AppointmentSchema,
+  BundleSchema,
+  ConditionSchema,
+  DiagnosticReportSchema,
+  FlagSchema,
+  isSupportedResourceType,
+  MedicationStatementSchema,
+  OrganizationSchema,
+  PatientSchema,
+  PractitionerSchema
+} from './resources';
+
+// The elements checked for each resource type, as listed in the README
+// (FHIR Export and Import). Anything else is dropped on parsing.
+const COMMON_ELEMENTS = ['resourceType', 'id', 'meta', 'extension', 'identifier'];
+
+const ACCEPTED_ELEMENTS: [string, z.ZodTypeAny, string[]][] = [
+  ['Patient', PatientSchema, ['active', 'name', 'telecom', 'gender', 'birthDate', 'address', 'communication']],
+  ['Organization', OrganizationSchema, ['active', 'name', 'telecom', 'address']],
+  ['Practitioner', PractitionerSchema, ['active', 'name', 'telecom', 'qualification']],
+  ['Appointment', AppointmentSchema, [
+    'status', 'specialty', 'reasonCode', 'priority', 'description', 'supportingInformation',
+    'start', 'end', 'created', 'comment', 'requestedPeriod', 'participant'
+  ]],
+  ['DiagnosticReport', DiagnosticReportSchema, [
+    'status', 'category', 'code', 'subject', 'effectiveDateTime', 'issued', 'performer',
+    'resultsInterpreter', 'conclusion'
+  ]],
+  ['Condition', ConditionSchema, [
+    'clinicalStatus', 'verificationStatus', 'severity', 'code', 'subject', 'onsetDateTime',
+    'recordedDate', 'evidence', 'note'
+  ]],
+  ['MedicationStatement', MedicationStatementSchema, [
+    'status', 'medicationCodeableConcept', 'medicationReference', 'subject', 'effectiveDateTime',
+    'effectivePeriod', 'dateAsserted', 'informationSource', 'note', 'dosage'
+  ]],
+  ['Flag', FlagSchema, ['status', 'category', 'code', 'subject', 'period', 'author']]
+];
+
+// The object schema under a schema's invariants
+function elements(schema: z.ZodTypeAny): string[] {
+  if (schema instanceof z.ZodEffects) return elements(schema.innerType());
+  return Object.keys((schema as z.AnyZodObject).shape);
+}
+
+const PATIENT = { resourceType: 'Patient', id: 'patient-1' };
+const SUBJECT = { reference: 'Patient/patient-1' };
+
+function bundle(type: string, entries: Record<string, unknown>[], extra: Record<string, unknown> = {}) {
+  return { resourceType: 'Bundle', type, entry: entries, ...extra };
+}
+
+function issues(result: z.SafeParseReturnType<unknown, unknown>) {
+  return result.success ? [] : result.error.issues.map(issue => issue.message);
+}
+
+describe('FHIR resources', () => {
+  it.each(ACCEPTED_ELEMENTS)('checks exactly the documented elements of %s', (resourceType, schema, accepted) => {
+    expect(isSupportedResourceType(resourceType)).toBe(true);
+    expect(elements(schema).sort()).toEqual([...COMMON_ELEMENTS, ...accepted].sort());
+  });
+
+  it('drops elements it does not check', () => {
+    const patient = PatientSchema.parse({
+      ...PATIENT,
+      gender: 'female',
+      maritalStatus: { text: 'Married' },
+      contact: [{ name: { text: 'Ravi Rao' } }]
+    });
+
+    expect(patient).toEqual({ ...PATIENT, gender: 'female' });
+  });
+
+  it('checks primitive formats and required value sets', () => {
+    expect(issues(PatientSchema.safeParse({ ...PATIENT, birthDate: '10/03/1990' }))).toEqual(['Invalid date']);
+    expect(PatientSchema.safeParse({ ...PATIENT, gender: 'woman' }).success).toBe(false);
+    expect(issues(PatientSchema.safeParse({ ...PATIENT, id: 'not a valid id' }))).toEqual(['Invalid id']);
+    expect(DiagnosticReportSchema.safeParse({ resourceType: 'DiagnosticReport', status: 'final' }).success).toBe(false);
+  });
+
+  it('enforces the invariants of the elements it checks', () => {
+    expect(issues(OrganizationSchema.safeParse({ resourceType: 'Organization' })))
+      .toEqual(['org-1: The organization SHALL at least have a name or an identifier']);
+    expect(issues(PatientSchema.safeParse({ ...PATIENT, telecom: [{ value: '+919800000001' }] })))
+      .toEqual(['cpt-2: A system is required if a value is provided']);
+    expect(issues(FlagSchema.safeParse({
+      resourceType: 'Flag',
+      status: 'active',
+      code: { text: 'Emergency' },
+      subject: SUBJECT,
+      period: { start: '2025-05-02', end: '2025-05-01' }
+    }))).toEqual(['per-1: If present, start SHALL have a lower value than end']);
+    expect(issues(AppointmentSchema.safeParse({
+      resourceType: 'Appointment',
+      status: 'booked',
+      start: '2025-05-01T09:00:00Z',
+      participant: [{ status: 'accepted' }]
+    }))).toEqual([
+      'app-1: Either the type or actor on the participant SHALL be specified',
+      'app-2: Either start and end are specified, or neither',
+      'app-3: Only proposed or cancelled appointments can be missing start/end dates'
+    ]);
+    expect(issues(ConditionSchema.safeParse({
+      resourceType: 'Condition',
+      subject: SUBJECT,
+      clinicalStatus: { coding: [{ code: 'active' }] },
+      verificationStatus: { coding: [{ code: 'entered-in-error' }] }
+    }))).toEqual(['con-5: Condition.clinicalStatus SHALL NOT be present if verification Status is entered-in-error']);
+    expect(issues(MedicationStatementSchema.safeParse({ resourceType: 'MedicationStatement', status: 'active', subject: SUBJECT })))
+      .toEqual(['MedicationStatement.medication[x]: exactly one of medicationCodeableConcept and medicationReference is required']);
+  });
+});
+
+describe('FHIR bundles', () => {
+  it('checks the resources of the supported types in a bundle', () => {
+    const result = BundleSchema.safeParse(bundle('collection', [{ resource: { ...PATIENT, birthDate: 'yesterday' } }]));
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0]).toMatchObject({ path: ['entry', 0, 'resource', 'birthDate'], message: 'Invalid date' });
+  });
+
+  it('keeps resources of other types with only their type and id checked', () => {
+    const observation = { resourceType: 'Observation', id: 'bp-1', status: 'final', valueQuantity: { value: 120 } };
+
+    expect(BundleSchema.parse(bundle('collection', [{ resource: observation }])).entry).toEqual([{ resource: observation }]);
+    expect(BundleSchema.safeParse(bundle('collection', [{ resource: { resourceType: 'observation' } }])).success).toBe(false);
+  });
+
+  it('enforces the Bundle invariants', () => {
+    const entry = { fullUrl: 'urn:uuid:1', resource: PATIENT };
+
+    expect(issues(BundleSchema.safeParse(bundle('collection', [entry], { total: 1 }))))
+      .toEqual(['bdl-1: total only when a search or history']);
+    expect(issues(BundleSchema.safeParse(bundle('collection', [{ ...entry, search: { mode: 'match' } }]))))
+      .toEqual(['bdl-2: entry.search only when a search']);
+    expect(issues(BundleSchema.safeParse(bundle('transaction', [entry]))))
+      .toEqual(['bdl-3: entry.request mandatory for batch/transaction/history, otherwise prohibited']);
+    expect(issues(BundleSchema.safeParse(bundle('batch-response', [entry]))))
+      .toEqual(['bdl-4: entry.response mandatory for batch-response/transaction-response/history, otherwise prohibited']);
+    expect(issues(BundleSchema.safeParse(bundle('collection', [{ fullUrl: 'urn:uuid:2' }]))))
+      .toEqual(['bdl-5: must be a resource unless there\'s a request or response']);
+    expect(issues(BundleSchema.safeParse(bundle('collection', [entry, entry]))))
+      .toEqual(['bdl-7: FullUrl must be unique in a bundle']);
+  });
+});
@@ -0,0 +1,416 @@
+// FHIR R4 structure definitions
+// zod schemas for the resources the app exchanges, following the R4
+// StructureDefinitions: primitive formats, required elements, cardinalities,
+// required value sets and the invariants that apply to the elements we use.
+// Elements the app does not use are not checked and are dropped on parsing.
+// The README lists the elements checked; keep it and resources.test.ts in
+// step when adding one. See https://hl7.org/fhir/R4/
+import { z } from 'zod';
+
+// Primitive types
+
+const id = z.string().regex(/^[A-Za-z0-9\-.]{1,64}$/, 'Invalid id');
+
+const code = z.string().regex(/^[^\s]+( [^\s]+)*$/, 'Invalid code');
+
+const uri = z.string().regex(/^\S+$/, 'Invalid uri');
+
+const date = z.string().regex(/^\d{4}(-(0[1-9]|1[0-2])(-(0[1-9]|[12]\d|3[01]))?)?$/, 'Invalid date');
+
+const dateTime = z.string().regex(
+  /^\d{4}(-(0[1-9]|1[0-2])(-(0[1-9]|[12]\d|3[01])(T([01]\d|2[0-3]):[0-5]\d:([0-5]\d|60)(\.\d+)?(Z|[+-]((0\d|1[0-3]):[0-5]\d|14:00)))?)?)?$/,
+  'Invalid dateTime'
+);
+
+const instant = z.string().regex(
+  /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])T([01]\d|2[0-3]):[0-5]\d:([0-5]\d|60)(\.\d+)?(Z|[+-]((0\d|1[0-3]):[0-5]\d|14:00))$/,
+  'Invalid instant'
+);
+
+const time = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d:([0-5]\d|60)(\.\d+)?$/, 'Invalid time');
+
+const positiveInt = z.number().int().positive();
+
+const unsignedInt = z.number().int().nonnegative();
+
+// Data types
+
+const Coding = z.object({
+  system: uri.optional(),
+  version: z.string().optional(),
+  code: code.optional(),
+  display: z.string().optional()
+});
+
+const CodeableConcept = z.object({
+  coding: z.array(Coding).optional(),
+  text: z.string().optional()
+});
+
+const Identifier = z.object({
+  use: z.enum(['usual', 'official', 'temp', 'secondary', 'old']).optional(),
+  system: uri.optional(),
+  value: z.string().optional()
+});
+
+const Reference = z.object({
+  reference: z.string().optional(),
+  type: uri.optional(),
+  identifier: Identifier.optional(),
+  display: z.string().optional()
+});
+
+// per-1: a period's start is not after its end
+const Period = z.object({
+  start: dateTime.optional(),
+  end: dateTime.optional()
+}).refine(
+  period => !period.start || !period.end || Date.parse(period.start) <= Date.parse(period.end),
+  { message: 'per-1: If present, start SHALL have a lower value than end', path: ['end'] }
+);
+
+const Extension = z.object({
+  url: uri,
+  valueString: z.string().optional(),
+  valueInteger: z.number().int().optional(),
+  valueCode: code.optional(),
+  valueBoolean: z.boolean().optional()
+});
+
+const HumanName = z.object({
+  use: z.enum(['usual', 'official', 'temp', 'nickname', 'anonymous', 'old', 'maiden']).optional(),
+  text: z.string().optional(),
+  family: z.string().optional(),
+  given: z.array(z.string()).optional()
+});
+
+// cpt-2: a contact point with a value says what kind it is
+const ContactPoint = z.object({
+  system: z.enum(['phone', 'fax', 'email', 'pager', 'url', 'sms', 'other']).optional(),
+  value: z.string().optional(),
+  use: z.enum(['home', 'work', 'temp', 'old', 'mobile']).optional()
+}).refine(
+  contact => !contact.value || contact.system,
+  { message: 'cpt-2: A system is required if a value is provided', path: ['system'] }
+);
+
+const Address = z.object({
+  use: z.enum(['home', 'work', 'temp', 'old', 'billing']).optional(),
+  text: z.string().optional(),
+  line: z.array(z.string()).optional(),
+  city: z.string().optional(),
+  district: z.string().optional(),
+  state: z.string().optional(),
+  postalCode: z.string().optional(),
+  country: z.string().optional()
+});
+
+const Annotation = z.object({
+  text: z.string(),
+  time: dateTime.optional()
+});
+
+const Quantity = z.object({
+  value: z.number().optional(),
+  unit: z.string().optional(),
+  system: uri.optional(),
+  code: code.optional()
+});
+
+const Timing = z.object({
+  event: z.array(dateTime).optional(),
+  repeat: z.object({
+    frequency: positiveInt.optional(),
+    period: z.number().nonnegative().optional(),
+    periodUnit: z.enum(['s', 'min', 'h', 'd', 'wk', 'mo', 'a']).optional(),
+    timeOfDay: z.array(time).optional()
+  }).optional(),
+  code: CodeableConcept.optional()
+});
+
+const Dosage = z.object({
+  text: z.string().optional(),
+  timing: Timing.optional(),
+  doseAndRate: z.array(z.object({
+    type: CodeableConcept.optional(),
+    doseQuantity: Quantity.optional()
+  })).optional()
+});
+
+// Elements every resource we use has
+function resource<T extends string>(resourceType: T) {
+  return z.object({
+    resourceType: z.literal(resourceType),
+    id: id.optional(),
+    meta: z.object({ lastUpdated: instant.optional() }).optional(),
+    extension: z.array(Extension).optional(),
+    identifier: z.array(Identifier).optional()
+  });
+}
+
+// Resources
+
+export const PatientSchema = resource('Patient').extend({
+  active: z.boolean().optional(),
+  name: z.array(HumanName).optional(),
+  telecom: z.array(ContactPoint).optional(),
+  gender: z.enum(['male', 'female', 'other', 'unknown']).optional(),
+  birthDate: date.optional(),
+  address: z.array(Address).optional(),
+  communication: z.array(z.object({
+    language: CodeableConcept,
+    preferred: z.boolean().optional()
+  })).optional()
+});
+
+export const OrganizationSchema = resource('Organization').extend({
+  active: z.boolean().optional(),
+  name: z.string().optional(),
+  telecom: z.array(ContactPoint).optional(),
+  address: z.array(Address).optional()
+}).refine(
+  organization => organization.name || organization.identifier?.length,
+  { message: 'org-1: The organization SHALL at least have a name or an identifier' }
+);
+
+export const PractitionerSchema = resource('Practitioner').extend({
+  active: z.boolean().optional(),
+  name: z.array(HumanName).optional(),
+  telecom: z.array(ContactPoint).optional(),
+  qualification: z.array(z.object({
+    code: CodeableConcept
+  })).optional()
+});
+
+export const APPOINTMENT_STATUSES = [
+  'proposed', 'pending', 'booked', 'arrived', 'fulfilled', 'cancelled',
+  'noshow', 'entered-in-error', 'checked-in', 'waitlist'
+] as const;
+
+export const AppointmentSchema = resource('Appointment').extend({
+  status: z.enum(APPOINTMENT_STATUSES),
+  specialty: z.array(CodeableConcept).optional(),
+  reasonCode: z.array(CodeableConcept).optional(),
+  priority: unsignedInt.optional(),
+  description: z.string().optional(),
+  supportingInformation: z.array(Reference).optional(),
+  start: instant.optional(),
+  end: instant.optional(),
+  created: dateTime.optional(),
+  comment: z.string().optional(),
+  requestedPeriod: z.array(Period).optional(),
+  participant: z.array(z.object({
+    type: z.array(CodeableConcept).optional(),
+    actor: Reference.optional(),
+    required: z.enum(['required', 'optional', 'information-only']).optional(),
+    status: z.enum(['accepted', 'declined', 'tentative', 'needs-action'])
+  }).refine(
+    participant => participant.type?.length || participant.actor,
+    { message: 'app-1: Either the type or actor on the participant SHALL be specified' }
+  )).min(1)
+}).refine(
+  appointment => Boolean(appointment.start) === Boolean(appointment.end),
+  { message: 'app-2: Either start and end are specified, or neither', path: ['end'] }
+).refine(
+  appointment => (appointment.start && appointment.end) || ['proposed', 'cancelled', 'waitlist'].includes(appointment.status),
+  { message: 'app-3: Only proposed or cancelled appointments can be missing start/end dates', path: ['start'] }
+);
+
+export const DiagnosticReportSchema = resource('DiagnosticReport').extend({
+  status: z.enum([
+    'registered', 'partial', 'preliminary', 'final', 'amended', 'corrected',
+    'appended', 'cancelled', 'entered-in-error', 'unknown'
+  ]),
+  category: z.array(CodeableConcept).optional(),
+  code: CodeableConcept,
+  subject: Reference.optional(),
+  effectiveDateTime: dateTime.optional(),
+  issued: instant.optional(),
+  performer: z.array(Reference).optional(),
+  resultsInterpreter: z.array(Reference).optional(),
+  conclusion: z.string().optional()
+});
+
+export const ConditionSchema = resource('Condition').extend({
+  clinicalStatus: CodeableConcept.optional(),
+  verificationStatus: CodeableConcept.optional(),
+  severity: CodeableConcept.optional(),
+  code: CodeableConcept.optional(),
+  subject: Reference,
+  onsetDateTime: dateTime.optional(),
+  recordedDate: dateTime.optional(),
+  evidence: z.array(z.object({
+    code: z.array(CodeableConcept).optional(),
+    detail: z.array(Reference).optional()
+  })).optional(),
+  note: z.array(Annotation).optional()
+}).refine(
+  condition => !condition.clinicalStatus || !condition.verificationStatus?.coding?.some(coding => coding.code === 'entered-in-error'),
+  { message: 'con-5: Condition.clinicalStatus SHALL NOT be present if verification Status is entered-in-error', path: ['clinicalStatus'] }
+);
+
+export const MedicationStatementSchema = resource('MedicationStatement').extend({
+  status: z.enum(['active', 'completed', 'entered-in-error', 'intended', 'stopped', 'on-hold', 'unknown', 'not-taken']),
+  medicationCodeableConcept: CodeableConcept.optional(),
+  medicationReference: Reference.optional(),
+  subject: Reference,
+  effectiveDateTime: dateTime.optional(),
+  effectivePeriod: Period.optional(),
+  dateAsserted: dateTime.optional(),
+  informationSource: Reference.optional(),
+  note: z.array(Annotation).optional(),
+  dosage: z.array(Dosage).optional()
+}).refine(
+  statement => Boolean(statement.medicationCodeableConcept) !== Boolean(statement.medicationReference),
+  { message: 'MedicationStatement.medication[x]: exactly one of medicationCodeableConcept and medicationReference is required', path: ['medicationCodeableConcept'] }
+);
+
+export const FlagSchema = resource('Flag').extend({
+  status: z.enum(['active', 'inactive', 'entered-in-error']),
+  category: z.array(CodeableConcept).optional(),
+  code: CodeableConcept,
+  subject: Reference,
+  period: Period.optional(),
+  author: Reference.optional()
+});
+
+export type FhirPatient = z.infer<typeof PatientSchema>;
+export type FhirOrganization = z.infer<typeof OrganizationSchema>;
+export type FhirPractitioner = z.infer<typeof PractitionerSchema>;
+export type FhirAppointment = z.infer<typeof AppointmentSchema>;
+export type FhirDiagnosticReport = z.infer<typeof DiagnosticReportSchema>;
+export type FhirCondition = z.infer<typeof ConditionSchema>;
+export type FhirMedicationStatement = z.infer<typeof MedicationStatementSchema>;
+export type FhirFlag = z.infer<typeof FlagSchema>;
+export type FhirReference = z.infer<typeof Reference>;
+export type FhirCodeableConcept = z.infer<typeof CodeableConcept>;
+
+export type FhirResource =
+  | FhirPatient
+  | FhirOrganization
+  | FhirPractitioner
+  | FhirAppointment
+  | FhirDiagnosticReport
+  | FhirCondition
+  | FhirMedicationStatement
+  | FhirFlag;
+
+export type FhirResourceType = FhirResource['resourceType'];
+
+const RESOURCE_SCHEMAS: Record<FhirResourceType, z.ZodType<FhirResource, z.ZodTypeDef, unknown>> = {
+  Patient: PatientSchema,
+  Organization: OrganizationSchema,
+  Practitioner: PractitionerSchema,
+  Appointment: AppointmentSchema,
+  DiagnosticReport: DiagnosticReportSchema,
+  Condition: ConditionSchema,
+  MedicationStatement: MedicationStatementSchema,
+  Flag: FlagSchema
+};
+
+export function isSupportedResourceType(resourceType: string): resourceType is FhirResourceType {
+  return resourceType in RESOURCE_SCHEMAS;
+}
+
+// A resource of a type the app does not exchange, e.g. an Observation; only
+// its type and id are checked
+type OtherResource = { resourceType: string; id?: string };
+
+// Validates a resource against its type's schema, or only its type and id
+// for other types
+const AnyResource = z.object({
+  resourceType: z.string().regex(/^[A-Z][A-Za-z]+$/, 'Invalid resourceType'),
+  id: id.optional()
+}).passthrough().transform((value, ctx): FhirResource | OtherResource => {
+  if (!isSupportedResourceType(value.resourceType)) return value;
+
+  const result = RESOURCE_SCHEMAS[value.resourceType].safeParse(value);
+  if (result.success) return result.data;
+
+  result.error.issues.forEach(issue => ctx.addIssue(issue));
+  return z.NEVER;
+});
+
+export const BUNDLE_TYPES = [
+  'document', 'message', 'transaction', 'transaction-response', 'batch',
+  'batch-response', 'history', 'searchset', 'collection'
+] as const;
+
+export type BundleType = typeof BUNDLE_TYPES[number];
+
+const BundleEntry = z.object({
+  fullUrl: uri.optional(),
+  resource: AnyResource.optional(),
+  search: z.object({ mode: z.enum(['match', 'include', 'outcome']).optional() }).optional(),
+  request: z.object({
+    method: z.enum(['GET', 'HEAD', 'POST', 'PUT', 'DELETE', 'PATCH']),
+    url: uri
+  }).optional(),
+  response: z.object({
+    status: z.string(),
+    location: uri.optional(),
+    outcome: z.unknown().optional()
+  }).optional()
+});
+
+export const BundleSchema = z.object({
+  resourceType: z.literal('Bundle'),
+  id: id.optional(),
+  meta: z.object({ lastUpdated: instant.optional() }).optional(),
+  type: z.enum(BUNDLE_TYPES),
+  timestamp: instant.optional(),
+  total: unsignedInt.optional(),
+  link: z.array(z.object({ relation: z.string(), url: uri })).optional(),
+  entry: z.array(BundleEntry).optional()
+}).superRefine((bundle, ctx) => {
+  const entries = bundle.entry ?? [];
+  const requests = bundle.type === 'batch' || bundle.type === 'transaction' || bundle.type === 'history';
+  const responses = bundle.type === 'batch-response' || bundle.type === 'transaction-response' || bundle.type === 'history';
+
+  if (bundle.total !== undefined && bundle.type !== 'searchset' && bundle.type !== 'history') {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['total'], message: 'bdl-1: total only when a search or history' });
+  }
+
+  const fullUrls = new Set<string>();
+
+  entries.forEach((entry, index) => {
+    if (entry.search && bundle.type !== 'searchset') {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['entry', index, 'search'], message: 'bdl-2: entry.search only when a search' });
+    }
+    if (Boolean(entry.request) !== requests) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['entry', index, 'request'],
+        message: 'bdl-3: entry.request mandatory for batch/transaction/history, otherwise prohibited'
+      });
+    }
+    if (Boolean(entry.response) !== responses) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['entry', index, 'response'],
+        message: 'bdl-4: entry.response mandatory for batch-response/transaction-response/history, otherwise prohibited'
+      });
+    }
+    if (!entry.resource && !entry.request && !entry.response) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['entry', index],
+        message: 'bdl-5: must be a resource unless there\'s a request or response'
+      });
+    }
+    if (entry.fullUrl && bundle.type !== 'history') {
+      if (fullUrls.has(entry.fullUrl)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['entry', index, 'fullUrl'],
+          message: 'bdl-7: FullUrl must be unique in a bundle'
+        });
+      }
+      fullUrls.add(entry.fullUrl);
+    }
+  });
+});
+
+export type FhirBundle = z.infer<typeof BundleSchema>;
+
+export type FhirBundleEntry = NonNullable<FhirBundle['entry']>[number];
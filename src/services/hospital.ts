@@ -1,4 +1,16 @@
 import { prisma } from '@/lib/prisma';
+import { rankByDistance } from '@/lib/geo';
+import type { Coordinates } from '@/lib/geo';
+
+type NearbyHospital = {
+  id: string;
+  name: string;
+  city: string | null;
+  address: string | null;
+  pincode: string | null;
+  latitude: number | null;
+  longitude: number | null;
+};
 
 // List of Indian states
 export const indianStates = [
@@ -60,4 +72,34 @@ export async function getHospitalById(id: string) {
   return prisma.hospital.findUnique({
     where: { id }
   });
-} 
\ No newline at end of file
+} 
+// Whether a patient has booked an appointment or filed a receipt with a hospital
+export async function isPatientOfHospital(userId: string, hospitalId: string) {
+  const [appointments, receipts] = await Promise.all([
+    prisma.appointment.count({ where: { userId, hospitalId } }),
+    prisma.receipt.count({ where: { userId, hospitalId } })
+  ]);
+  return appointments + receipts > 0;
+}
+
+// Hospitals in a state, nearest first. With an origin they are ranked by
+// distance (from their coordinates, or their PIN code when they have none);
+// hospitals that cannot be located come last, those in the given city first.
+// `excludeIds` leaves out hospitals already tried.
+export async function findNearbyHospitals(
+  state: string,
+  near: { origin: Coordinates | null; city: string | null },
+  excludeIds: string[] = []
+) {
+  const hospitals: NearbyHospital[] = await prisma.hospital.findMany({
+    where: { state, id: { notIn: excludeIds } },
+    select: { id: true, name: true, city: true, address: true, pincode: true, latitude: true, longitude: true },
+    orderBy: { name: 'asc' }
+  });
+
+  const { city } = near;
+  const sameCity = (hospital: { city: string | null }) =>
+    Boolean(city && hospital.city && hospital.city.toLowerCase() === city.toLowerCase());
+
+  return rankByDistance(near.origin, [...hospitals.filter(sameCity), ...hospitals.filter(hospital => !sameCity(hospital))]);
+}
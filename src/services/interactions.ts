@@ -0,0 +1,208 @@
+// Medicine interaction checker
+// Resolves medicine names to active ingredients using the local drug database
+// and flags pairs of medicines that interact, contain the same ingredient, or
+// duplicate the same therapeutic class.
+import prisma from '@/lib/prisma';
+import {
+  COMBINABLE_CLASSES,
+  DRUG_INTERACTIONS,
+  INGREDIENT_ALIASES,
+  INGREDIENT_CLASSES,
+  PRODUCT_INGREDIENTS
+} from '@/lib/drugDatabase';
+import type { InteractionSeverity } from '@/lib/drugDatabase';
+
+export type { InteractionSeverity };
+
+export type ConflictType = 'interaction' | 'duplicate-ingredient' | 'duplicate-class';
+
+export type MedicationConflict = {
+  type: ConflictType;
+  severity: InteractionSeverity;
+  // Names as the patient entered them
+  medications: [string, string];
+  // Ingredients (or class) responsible for the conflict
+  ingredients: string[];
+  message: string;
+  // True when one side is a reminder the patient already has
+  withExistingReminder: boolean;
+};
+
+type CheckedMedication = {
+  name: string;
+  existing?: boolean;
+};
+
+const SEVERITY_ORDER: Record<InteractionSeverity, number> = { major: 0, moderate: 1, minor: 2 };
+
+// Dosage forms and units that are not part of the medicine's name
+const NOISE_WORDS = /\b(tab|tabs|tablet|tablets|cap|caps|capsule|capsules|syp|syrup|susp|suspension|inj|injection|drops?|gel|cream|oint|ointment|sr|er|xr|cr|ds|mr|forte|plus|mg|mcg|ml|g|iu)\b\.?/g;
+
+// Every ingredient name the database knows, longest first so "isosorbide
+// dinitrate" wins over shorter overlapping names
+const KNOWN_INGREDIENTS = [...new Set([
+  ...Object.values(PRODUCT_INGREDIENTS).flat(),
+  ...Object.values(INGREDIENT_CLASSES).flat(),
+  ...DRUG_INTERACTIONS.flatMap(({ between }) => between).filter(side => !(side in INGREDIENT_CLASSES))
+])].sort((a, b) => b.length - a.length);
+
+const PRODUCT_NAMES = Object.keys(PRODUCT_INGREDIENTS).sort((a, b) => b.length - a.length);
+const ALIAS_NAMES = Object.keys(INGREDIENT_ALIASES).sort((a, b) => b.length - a.length);
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function containsTerm(text: string, term: string) {
+  return new RegExp(`(^|[^a-z])${escapeRegExp(term)}([^a-z]|$)`).test(text);
+}
+
+function normalizeName(name: string) {
+  return name
+    .toLowerCase()
+    .replace(/[\d.,%()]+/g, ' ')
+    .replace(/[-_/+&'’]/g, ' ')
+    .replace(NOISE_WORDS, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Lists the active ingredients of a medicine name such as "Combiflam",
+ * "Paracetamol 500mg" or "Amoxicillin + Clavulanic acid".
+ * Returns an empty list for medicines the database does not know.
+ */
+export function resolveIngredients(name: string): string[] {
+  const text = normalizeName(name);
+  if (!text) return [];
+
+  const ingredients = new Set<string>();
+
+  // A brand name decides the whole product, e.g. "Pan D" over "Pan"
+  const product = PRODUCT_NAMES.find(candidate => containsTerm(text, candidate));
+  if (product) {
+    PRODUCT_INGREDIENTS[product].forEach(ingredient => ingredients.add(ingredient));
+  }
+
+  ALIAS_NAMES
+    .filter(alias => containsTerm(text, alias))
+    .forEach(alias => ingredients.add(INGREDIENT_ALIASES[alias]));
+
+  KNOWN_INGREDIENTS
+    .filter(ingredient => containsTerm(text, ingredient))
+    .forEach(ingredient => ingredients.add(ingredient));
+
+  return [...ingredients];
+}
+
+function classesOf(ingredient: string) {
+  return Object.keys(INGREDIENT_CLASSES).filter(name => INGREDIENT_CLASSES[name].includes(ingredient));
+}
+
+// Whether an ingredient matches one side of an interaction
+function matchesSide(ingredient: string, side: string) {
+  return ingredient === side || classesOf(ingredient).includes(side);
+}
+
+function conflictsBetween(
+  first: CheckedMedication & { ingredients: string[] },
+  second: CheckedMedication & { ingredients: string[] }
+): MedicationConflict[] {
+  const conflicts: MedicationConflict[] = [];
+  const base = {
+    medications: [first.name, second.name] as [string, string],
+    withExistingReminder: Boolean(first.existing || second.existing)
+  };
+
+  const shared = first.ingredients.filter(ingredient => second.ingredients.includes(ingredient));
+  if (shared.length > 0) {
+    conflicts.push({
+      ...base,
+      type: 'duplicate-ingredient',
+      severity: 'major',
+      ingredients: shared,
+      message: `Both contain ${shared.join(', ')}. Taking them together can exceed the safe dose.`
+    });
+  }
+
+  // Same class through different ingredients, e.g. ibuprofen and diclofenac
+  const firstClasses = new Map(first.ingredients.flatMap(ingredient =>
+    classesOf(ingredient).map(name => [name, ingredient] as const)
+  ));
+  second.ingredients.forEach(ingredient => {
+    classesOf(ingredient).forEach(name => {
+      const other = firstClasses.get(name);
+      if (!other || other === ingredient || COMBINABLE_CLASSES.includes(name)) return;
+      if (conflicts.some(conflict => conflict.type === 'duplicate-class' && conflict.ingredients.includes(name))) return;
+
+      conflicts.push({
+        ...base,
+        type: 'duplicate-class',
+        severity: 'moderate',
+        ingredients: [name, other, ingredient],
+        message: `${other} and ${ingredient} are in the same drug class (${name}). Taking both is usually duplicate therapy.`
+      });
+    });
+  });
+
+  DRUG_INTERACTIONS.forEach(({ between: [a, b], severity, description }) => {
+    const pairs = [[a, b], [b, a]] as const;
+
+    for (const [left, right] of pairs) {
+      const fromFirst = first.ingredients.find(ingredient => matchesSide(ingredient, left));
+      const fromSecond = second.ingredients.find(ingredient => matchesSide(ingredient, right));
+
+      if (fromFirst && fromSecond && fromFirst !== fromSecond) {
+        conflicts.push({
+          ...base,
+          type: 'interaction',
+          severity,
+          ingredients: [fromFirst, fromSecond],
+          message: description
+        });
+        break;
+      }
+    }
+  });
+
+  return conflicts;
+}
+
+/**
+ * Checks every pair of medicines for interactions and duplicate therapy.
+ * Conflicts between two existing reminders are not reported again.
+ * Results are ordered from most to least severe.
+ */
+export function checkMedications(medications: CheckedMedication[]): MedicationConflict[] {
+  const resolved = medications.map(medication => ({
+    ...medication,
+    ingredients: resolveIngredients(medication.name)
+  }));
+
+  const conflicts: MedicationConflict[] = [];
+
+  for (let i = 0; i < resolved.length; i++) {
+    for (let j = i + 1; j < resolved.length; j++) {
+      if (resolved[i].existing && resolved[j].existing) continue;
+      conflicts.push(...conflictsBetween(resolved[i], resolved[j]));
+    }
+  }
+
+  return conflicts.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+}
+
+/**
+ * Checks new medicines against each other and against the patient's active
+ * reminders
+ */
+export async function checkAgainstReminders(userId: string, medicationNames: string[]) {
+  const existing: { name: string }[] = await prisma.medicineReminder.findMany({
+    where: { userId, isActive: true },
+    select: { name: true }
+  });
+
+  return checkMedications([
+    ...medicationNames.map(name => ({ name })),
+    ...existing.map(reminder => ({ name: reminder.name, existing: true }))
+  ]);
+}
@@ -0,0 +1,76 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { startTestDatabase } from '@/test/database';
+import type { TestDatabase } from '@/test/database';
+import { ABANDONED_JOB_ERROR, claimNextJob, failAbandonedJobs } from '.';
+import { runDueJobs } from './worker';
+import { REPORT_ANALYSIS_JOB } from '../queue';
+
+vi.mock('@/lib/prisma', () => import('@/test/database'));
+
+describe('jobs', () => {
+  let database: TestDatabase;
+
+  beforeAll(async () => {
+    database = await startTestDatabase();
+  });
+
+  afterAll(async () => {
+    await database.stop();
+  });
+
+  beforeEach(async () => {
+    await database.reset();
+  });
+
+  // A job whose worker stopped answering ten minutes ago
+  async function createLostJob(attempts: number, data: Record<string, unknown> = {}) {
+    return database.prisma.job.create({
+      data: {
+        type: 'test.job',
+        status: 'RUNNING',
+        attempts,
+        maxAttempts: 3,
+        lockedAt: new Date(Date.now() - 10 * 60 * 1000),
+        ...data
+      }
+    }) as Promise<{ id: string }>;
+  }
+
+  it('picks a lost job up again while it has attempts left', async () => {
+    const job = await createLostJob(2);
+
+    const claimed = await claimNextJob();
+
+    expect(claimed).toMatchObject({ id: job.id, status: 'RUNNING', attempts: 3 });
+  });
+
+  it('fails a lost job that has used up its attempts instead of running it again', async () => {
+    const job = await createLostJob(3);
+
+    await expect(claimNextJob()).resolves.toBeNull();
+
+    const failed = await failAbandonedJobs();
+    expect(failed).toEqual([expect.objectContaining({ id: job.id, status: 'FAILED', lastError: ABANDONED_JOB_ERROR })]);
+    await expect(failAbandonedJobs()).resolves.toEqual([]);
+
+    const stored = await database.prisma.job.findUnique({ where: { id: job.id } });
+    expect(stored).toMatchObject({ status: 'FAILED', lockedAt: null, attempts: 3 });
+    expect(stored.completedAt).toBeInstanceOf(Date);
+  });
+
+  it('marks a report failed when its analysis job is given up', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const user = await database.prisma.user.create({ data: { email: 'patient@example.com' } });
+    const receipt = await database.prisma.receipt.create({ data: { userId: user.id, status: 'PROCESSING' } });
+    const job = await createLostJob(3, { type: REPORT_ANALYSIS_JOB, key: receipt.id, payload: { receiptId: receipt.id } });
+
+    await runDueJobs();
+
+    const [storedJob, storedReceipt] = await Promise.all([
+      database.prisma.job.findUnique({ where: { id: job.id } }),
+      database.prisma.receipt.findUnique({ where: { id: receipt.id } })
+    ]);
+    expect(storedJob.status).toBe('FAILED');
+    expect(storedReceipt).toMatchObject({ status: 'FAILED', analysisError: ABANDONED_JOB_ERROR });
+  });
+});
@@ -0,0 +1,168 @@
+// Background jobs
+// Work that should not hold up a request (e.g. AI analysis of uploaded
+// reports) is stored in the Job table and run by the worker in ./worker.
+// Failed attempts are retried with exponential backoff.
+import prisma from '@/lib/prisma';
+
+export type JobStatus = 'PENDING' | 'RUNNING' | 'SUCCEEDED' | 'FAILED';
+
+export type Job = {
+  id: string;
+  type: string;
+  key: string | null;
+  payload: Record<string, unknown>;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  runAt: Date;
+  lastError: string | null;
+};
+
+export type JobHandler = {
+  run(job: Job): Promise<void>;
+  // Called after a failed attempt; retryAt is null once the job has given up
+  onError?(job: Job, error: string, retryAt: Date | null): Promise<void>;
+};
+
+export const DEFAULT_MAX_ATTEMPTS = 5;
+
+// First retry after 30 seconds, doubling up to 15 minutes
+const BACKOFF_BASE_MS = 30 * 1000;
+const BACKOFF_MAX_MS = 15 * 60 * 1000;
+
+// A job still running after this long is assumed lost (e.g. the server
+// restarted mid-run) and is picked up again
+const LOCK_TIMEOUT_MS = 5 * 60 * 1000;
+
+const JOB_SELECT = {
+  id: true,
+  type: true,
+  key: true,
+  payload: true,
+  status: true,
+  attempts: true,
+  maxAttempts: true,
+  runAt: true,
+  lastError: true
+};
+
+// Set by the worker so new jobs start straight away instead of on the next poll
+const globalForJobs = global as unknown as { wakeJobWorker?: () => void };
+
+export function setJobWorkerWakeup(wake: () => void) {
+  globalForJobs.wakeJobWorker = wake;
+}
+
+/**
+ * Delay before the next attempt after `attempts` failed ones
+ */
+export function retryDelayMs(attempts: number) {
+  return Math.min(BACKOFF_BASE_MS * 2 ** Math.max(attempts - 1, 0), BACKOFF_MAX_MS);
+}
+
+/**
+ * Stores a job for the worker. `key` identifies what the job is for so its
+ * progress can be looked up with findLatestJob.
+ */
+export async function enqueueJob(
+  type: string,
+  payload: Record<string, unknown>,
+  options: { key?: string; maxAttempts?: number; runAt?: Date } = {}
+): Promise<Job> {
+  const job: Job = await prisma.job.create({
+    data: {
+      type,
+      key: options.key,
+      payload,
+      maxAttempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+      runAt: options.runAt ?? new Date()
+    },
+    select: JOB_SELECT
+  });
+
+  console.log(`📥 Enqueued job ${job.id} (${type})`);
+  globalForJobs.wakeJobWorker?.();
+
+  return job;
+}
+
+// Recorded on a job whose last attempt was lost
+export const ABANDONED_JOB_ERROR = 'The last attempt did not finish in time';
+
+/**
+ * Claims the next due job and marks it running. SKIP LOCKED lets several
+ * workers claim jobs at once without taking the same one. Lost jobs are only
+ * picked up again while they have attempts left; see failAbandonedJobs.
+ */
+export async function claimNextJob(): Promise<Job | null> {
+  const staleBefore = new Date(Date.now() - LOCK_TIMEOUT_MS);
+
+  const jobs: Job[] = await prisma.$queryRaw`
+    UPDATE "Job"
+    SET status = 'RUNNING', "lockedAt" = NOW(), attempts = attempts + 1, "updatedAt" = NOW()
+    WHERE id = (
+      SELECT id FROM "Job"
+      WHERE (status = 'PENDING' AND "runAt" <= NOW())
+         OR (status = 'RUNNING' AND "lockedAt" < ${staleBefore} AND attempts < "maxAttempts")
+      ORDER BY "runAt" ASC
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING id, type, key, payload, status, attempts, "maxAttempts", "runAt", "lastError"
+  `;
+
+  return jobs[0] || null;
+}
+
+/**
+ * Marks lost jobs that have used up their attempts as failed and returns
+ * them, so their handlers can clean up as after any last failed attempt
+ */
+export async function failAbandonedJobs(): Promise<Job[]> {
+  const staleBefore = new Date(Date.now() - LOCK_TIMEOUT_MS);
+
+  return prisma.$queryRaw`
+    UPDATE "Job"
+    SET status = 'FAILED', "lockedAt" = NULL, "lastError" = ${ABANDONED_JOB_ERROR}, "completedAt" = NOW(), "updatedAt" = NOW()
+    WHERE status = 'RUNNING' AND "lockedAt" < ${staleBefore} AND attempts >= "maxAttempts"
+    RETURNING id, type, key, payload, status, attempts, "maxAttempts", "runAt", "lastError"
+  `;
+}
+
+export async function completeJob(jobId: string) {
+  await prisma.job.update({
+    where: { id: jobId },
+    data: { status: 'SUCCEEDED', lockedAt: null, lastError: null, completedAt: new Date() }
+  });
+}
+
+/**
+ * Records a failed attempt and schedules the next one with backoff. Returns
+ * when the job will be retried, or null when it has used up its attempts (or
+ * `retry` is false) and is marked failed.
+ */
+export async function failJob(job: Job, error: string, retry = true): Promise<Date | null> {
+  const retryAt = retry && job.attempts < job.maxAttempts
+    ? new Date(Date.now() + retryDelayMs(job.attempts))
+    : null;
+
+  await prisma.job.update({
+    where: { id: job.id },
+    data: retryAt
+      ? { status: 'PENDING', runAt: retryAt, lockedAt: null, lastError: error }
+      : { status: 'FAILED', lockedAt: null, lastError: error, completedAt: new Date() }
+  });
+
+  return retryAt;
+}
+
+/**
+ * The most recent job of a type for a key, e.g. the latest analysis of a report
+ */
+export async function findLatestJob(type: string, key: string): Promise<Job | null> {
+  return prisma.job.findFirst({
+    where: { type, key },
+    orderBy: { createdAt: 'desc' },
+    select: JOB_SELECT
+  });
+}
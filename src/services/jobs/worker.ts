@@ -0,0 +1,115 @@
+// Job worker
+// Runs due jobs one at a time, polling the Job table between wake-ups.
+// Started once per server process (see instrumentation.ts); several processes
+// can run workers side by side because jobs are claimed with SKIP LOCKED.
+import { claimNextJob, completeJob, failAbandonedJobs, failJob, setJobWorkerWakeup } from '.';
+import type { Job, JobHandler } from '.';
+import { REPORT_ANALYSIS_JOB, reportAnalysisJob } from '../queue';
+import { NOTIFICATION_DELIVERY_JOB, notificationDeliveryJob } from '../notifications';
+import { DOSE_PUSH_JOB, dosePushJob, scheduleDueDosePushes } from '../doseReminders';
+import { EMERGENCY_ESCALATION_JOB, emergencyEscalationJob } from '../emergencyEscalation';
+
+const HANDLERS: Record<string, JobHandler> = {
+  [REPORT_ANALYSIS_JOB]: reportAnalysisJob,
+  [NOTIFICATION_DELIVERY_JOB]: notificationDeliveryJob,
+  [DOSE_PUSH_JOB]: dosePushJob,
+  [EMERGENCY_ESCALATION_JOB]: emergencyEscalationJob
+};
+
+// Work every worker runs on a timer. Tasks must be safe to run in several
+// processes at once.
+const RECURRING_TASKS: { name: string; intervalMs: number; run: () => Promise<void> }[] = [
+  { name: 'dose reminders', intervalMs: 60 * 1000, run: () => scheduleDueDosePushes() }
+];
+
+const DEFAULT_POLL_INTERVAL_MS = 5000;
+
+// One worker per process, including across development hot reloads
+const globalForWorker = global as unknown as { jobWorkerStarted?: boolean; jobWorkerBusy?: boolean };
+
+async function runJob(job: Job) {
+  const handler = HANDLERS[job.type];
+  console.log(`⚙️ Running job ${job.id} (${job.type}), attempt ${job.attempts} of ${job.maxAttempts}`);
+
+  try {
+    if (!handler) {
+      throw new Error(`No handler for job type ${job.type}`);
+    }
+
+    await handler.run(job);
+    await completeJob(job.id);
+    console.log(`✅ Job ${job.id} (${job.type}) succeeded`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const retryAt = await failJob(job, message, Boolean(handler));
+
+    console.error(`❌ Job ${job.id} (${job.type}) failed: ${message}.`, retryAt ? `Retrying at ${retryAt.toISOString()}` : 'Giving up');
+
+    await notifyFailure(handler, job, message, retryAt);
+  }
+}
+
+async function notifyFailure(handler: JobHandler | undefined, job: Job, error: string, retryAt: Date | null) {
+  await handler?.onError?.(job, error, retryAt).catch(handlerError => {
+    console.error(`❌ Error handler for job ${job.id} failed:`, handlerError);
+  });
+}
+
+// Gives up on lost jobs that have no attempts left
+async function failAbandoned() {
+  const jobs = await failAbandonedJobs();
+
+  for (const job of jobs) {
+    console.error(`❌ Job ${job.id} (${job.type}) was lost on its last attempt. Giving up`);
+    await notifyFailure(HANDLERS[job.type], job, job.lastError ?? 'Abandoned', null);
+  }
+}
+
+/**
+ * Runs every job that is due, one after another
+ */
+export async function runDueJobs() {
+  if (globalForWorker.jobWorkerBusy) return;
+  globalForWorker.jobWorkerBusy = true;
+
+  try {
+    await failAbandoned();
+
+    let job = await claimNextJob();
+    while (job) {
+      await runJob(job);
+      job = await claimNextJob();
+    }
+  } catch (error) {
+    console.error('❌ Job worker could not claim jobs:', error);
+  } finally {
+    globalForWorker.jobWorkerBusy = false;
+  }
+}
+
+/**
+ * Starts polling for jobs every JOB_POLL_INTERVAL_MS (default 5 seconds).
+ * Jobs enqueued in this process start immediately.
+ */
+export function startJobWorker() {
+  if (globalForWorker.jobWorkerStarted) return;
+  globalForWorker.jobWorkerStarted = true;
+
+  const interval = Number(process.env.JOB_POLL_INTERVAL_MS) || DEFAULT_POLL_INTERVAL_MS;
+
+  setJobWorkerWakeup(() => {
+    void runDueJobs();
+  });
+  setInterval(() => void runDueJobs(), interval);
+
+  RECURRING_TASKS.forEach(task => {
+    setInterval(() => {
+      task.run().catch(error => {
+        console.error(`❌ Recurring task "${task.name}" failed:`, error);
+      });
+    }, task.intervalMs);
+  });
+
+  console.log(`🧵 Job worker started, polling every ${interval}ms`);
+  void runDueJobs();
+}
@@ -0,0 +1,37 @@
+// Notification channel registry
+// EMAIL_DRIVER ("log" by default, or "smtp") and SMS_DRIVER ("log" by default,
+// or "twilio") pick how email and SMS notifications are sent. In-app
+// notifications need no adapter: the Notification row is the inbox entry.
+import { createLogChannel } from './log';
+import { smtpChannel } from './smtp';
+import { twilioChannel } from './twilio';
+import type { ChannelAdapter, NotificationChannel } from './types';
+
+const emailChannels: Record<string, ChannelAdapter> = {
+  log: createLogChannel('email'),
+  smtp: smtpChannel
+};
+
+const smsChannels: Record<string, ChannelAdapter> = {
+  log: createLogChannel('sms'),
+  twilio: twilioChannel
+};
+
+function pick(channels: Record<string, ChannelAdapter>, variable: string) {
+  const driverName = (process.env[variable] || 'log').toLowerCase();
+  const channel = channels[driverName];
+
+  if (!channel) {
+    console.warn(`⚠️ Unknown ${variable} "${driverName}", falling back to log`);
+    return channels.log;
+  }
+
+  return channel;
+}
+
+/**
+ * Returns the adapter that sends a channel's notifications
+ */
+export function getChannelAdapter(channel: Exclude<NotificationChannel, 'IN_APP'>): ChannelAdapter {
+  return channel === 'EMAIL' ? pick(emailChannels, 'EMAIL_DRIVER') : pick(smsChannels, 'SMS_DRIVER');
+}
@@ -0,0 +1,96 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { startTestDatabase } from '@/test/database';
+import type { TestDatabase } from '@/test/database';
+import { runDueJobs } from '../jobs/worker';
+import { getChannelAdapter } from './channels';
+import { clearLoggedMessages, getLoggedMessages, notify } from '.';
+
+vi.mock('@/lib/prisma', () => import('@/test/database'));
+
+// Email and SMS go through the log stand-ins (EMAIL_DRIVER and SMS_DRIVER
+// default to "log"), which keep what they "sent" in memory
+describe('notifications', () => {
+  let database: TestDatabase;
+
+  beforeAll(async () => {
+    database = await startTestDatabase();
+  });
+
+  afterAll(async () => {
+    await database.stop();
+  });
+
+  beforeEach(async () => {
+    await database.reset();
+    clearLoggedMessages();
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  async function createUser(data: { email?: string; phone?: string }) {
+    return database.prisma.user.create({ data }) as Promise<{ id: string }>;
+  }
+
+  async function notifications(userId: string) {
+    return database.prisma.notification.findMany({
+      where: { userId },
+      orderBy: { channel: 'asc' },
+      select: { channel: true, status: true, lastError: true }
+    });
+  }
+
+  it('sends a notification to the inbox and to each channel the user can be reached on', async () => {
+    const reachable = await createUser({ email: 'asha@example.com', phone: '+919800000001' });
+    const emailOnly = await createUser({ email: 'ravi@example.com' });
+
+    await notify([reachable.id, emailOnly.id], 'receiptCompleted', { receiptId: 'receipt-1', hospitalName: 'City Hospital' });
+    await runDueJobs();
+
+    expect(await notifications(reachable.id)).toEqual([
+      { channel: 'IN_APP', status: 'SENT', lastError: null },
+      { channel: 'EMAIL', status: 'SENT', lastError: null },
+      { channel: 'SMS', status: 'SENT', lastError: null }
+    ]);
+    expect(await notifications(emailOnly.id)).toEqual([
+      { channel: 'IN_APP', status: 'SENT', lastError: null },
+      { channel: 'EMAIL', status: 'SENT', lastError: null }
+    ]);
+
+    const sent = getLoggedMessages().map(({ channel, to, subject }) => ({ channel, to, subject }));
+    expect(sent).toHaveLength(3);
+    expect(sent).toEqual(expect.arrayContaining([
+      { channel: 'email', to: 'asha@example.com', subject: 'Visit completed' },
+      { channel: 'sms', to: '+919800000001', subject: 'Visit completed' },
+      { channel: 'email', to: 'ravi@example.com', subject: 'Visit completed' }
+    ]));
+  });
+
+  it('records a failing channel without holding up the others', async () => {
+    vi.spyOn(getChannelAdapter('SMS'), 'send').mockRejectedValue(new Error('SMS gateway unavailable'));
+    const user = await createUser({ email: 'asha@example.com', phone: '+919800000001' });
+
+    await notify([user.id], 'receiptCompleted', { receiptId: 'receipt-1', hospitalName: 'City Hospital' });
+    await runDueJobs();
+
+    // The SMS waits for its retry; the inbox entry and the email are delivered
+    expect(await notifications(user.id)).toEqual([
+      { channel: 'IN_APP', status: 'SENT', lastError: null },
+      { channel: 'EMAIL', status: 'SENT', lastError: null },
+      { channel: 'SMS', status: 'PENDING', lastError: 'SMS gateway unavailable' }
+    ]);
+    expect(getLoggedMessages().map(message => message.channel)).toEqual(['email']);
+
+    // Once the retries are used up the SMS is marked failed
+    await database.prisma.job.updateMany({
+      where: { status: 'PENDING' },
+      data: { runAt: new Date(), maxAttempts: 2 }
+    });
+    await runDueJobs();
+
+    expect(await notifications(user.id)).toContainEqual({ channel: 'SMS', status: 'FAILED', lastError: 'SMS gateway unavailable' });
+  });
+});
@@ -0,0 +1,253 @@
+// Notifications
+// Tells users about events that concern them. Every notification goes to the
+// user's in-app inbox, and by email and SMS when they have an address or
+// phone number. Email and SMS are sent by the job worker with retries.
+import prisma from '@/lib/prisma';
+import { patientChannel, publishEvent } from '@/lib/events';
+import { enqueueJob } from '../jobs';
+import type { JobHandler } from '../jobs';
+import { getChannelAdapter } from './channels';
+import { TEMPLATES } from './templates';
+import type { NotificationTemplate, TemplateData } from './templates';
+import type { NotificationChannel, NotificationStatus } from './types';
+
+export type { ChannelAdapter, NotificationChannel, NotificationStatus, OutgoingMessage } from './types';
+export type { NotificationTemplate } from './templates';
+export { getLoggedMessages, clearLoggedMessages } from './log';
+
+export const NOTIFICATION_DELIVERY_JOB = 'notification.deliver';
+
+export const INBOX_PAGE_SIZE = 20;
+
+type InboxNotification = {
+  id: string;
+  title: string;
+  body: string;
+  link: string | null;
+  readAt: Date | null;
+  createdAt: Date;
+};
+
+// Links in email and SMS need the site's address
+function absoluteLink(link: string | null) {
+  if (!link) return '';
+  const baseUrl = (process.env.NEXTAUTH_URL || '').replace(/\/+$/, '');
+  return baseUrl ? `\n\n${baseUrl}${link}` : '';
+}
+
+/**
+ * Notifies users about an event. Failures are logged rather than thrown so
+ * they never fail the change that triggered them.
+ */
+export async function notify<T extends NotificationTemplate>(userIds: string[], template: T, data: TemplateData<T>) {
+  try {
+    const render = TEMPLATES[template] as (data: TemplateData<T>) => ReturnType<typeof TEMPLATES[T]>;
+    const { title, body, link } = render(data);
+
+    const users: { id: string; email: string | null; phone: string | null }[] = await prisma.user.findMany({
+      where: { id: { in: [...new Set(userIds)] } },
+      select: { id: true, email: true, phone: true }
+    });
+
+    for (const user of users) {
+      const channels: NotificationChannel[] = ['IN_APP'];
+      if (user.email) channels.push('EMAIL');
+      if (user.phone) channels.push('SMS');
+
+      for (const channel of channels) {
+        const inApp = channel === 'IN_APP';
+        const notification: { id: string; createdAt: Date } = await prisma.notification.create({
+          data: {
+            userId: user.id,
+            channel,
+            template,
+            title,
+            body,
+            link: link || null,
+            // The inbox entry is delivered as soon as it exists
+            status: inApp ? 'SENT' : 'PENDING',
+            sentAt: inApp ? new Date() : null
+          },
+          select: { id: true, createdAt: true }
+        });
+
+        if (inApp) {
+          publishEvent(patientChannel(user.id), {
+            type: 'notification.created',
+            notificationId: notification.id,
+            title,
+            body,
+            link: link || null,
+            createdAt: notification.createdAt.toISOString()
+          });
+        } else {
+          await enqueueJob(NOTIFICATION_DELIVERY_JOB, { notificationId: notification.id }, { key: notification.id });
+        }
+      }
+    }
+
+    console.log(`🔔 Sent ${template} notification to ${users.length} user(s)`);
+  } catch (error) {
+    console.error(`❌ Failed to send ${template} notification:`, error);
+  }
+}
+
+// Sends email and SMS notifications for the job worker
+export const notificationDeliveryJob: JobHandler = {
+  async run(job) {
+    const notification = await prisma.notification.findUnique({
+      where: { id: String(job.payload.notificationId) },
+      include: { user: { select: { email: true, phone: true } } }
+    });
+
+    // Deleted with its user, or sent by an attempt that was thought lost
+    if (!notification || notification.status === 'SENT') return;
+
+    const to: string | null = notification.channel === 'EMAIL' ? notification.user.email : notification.user.phone;
+    if (!to) {
+      await prisma.notification.update({
+        where: { id: notification.id },
+        data: { status: 'FAILED', attempts: job.attempts, lastError: 'The user has no address for this channel' }
+      });
+      return;
+    }
+
+    await getChannelAdapter(notification.channel).send({
+      to,
+      subject: notification.title,
+      text: `${notification.body}${absoluteLink(notification.link)}`
+    });
+
+    await prisma.notification.update({
+      where: { id: notification.id },
+      data: { status: 'SENT', attempts: job.attempts, lastError: null, sentAt: new Date() }
+    });
+  },
+
+  async onError(job, error, retryAt) {
+    const status: NotificationStatus = retryAt ? 'PENDING' : 'FAILED';
+    await prisma.notification.updateMany({
+      where: { id: String(job.payload.notificationId) },
+      data: { status, attempts: job.attempts, lastError: error }
+    });
+  }
+};
+
+/**
+ * A page of the user's in-app notifications, newest first
+ */
+export async function listNotifications(userId: string, page = 1) {
+  const where = { userId, channel: 'IN_APP' };
+
+  const [notifications, total, unreadCount]: [InboxNotification[], number, number] = await Promise.all([
+    prisma.notification.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * INBOX_PAGE_SIZE,
+      take: INBOX_PAGE_SIZE,
+      select: { id: true, title: true, body: true, link: true, readAt: true, createdAt: true }
+    }),
+    prisma.notification.count({ where }),
+    prisma.notification.count({ where: { ...where, readAt: null } })
+  ]);
+
+  return {
+    notifications,
+    unreadCount,
+    pagination: {
+      total,
+      page,
+      limit: INBOX_PAGE_SIZE,
+      pages: Math.ceil(total / INBOX_PAGE_SIZE)
+    }
+  };
+}
+
+/**
+ * Marks the user's in-app notifications read: the given ones, or all of them
+ */
+export async function markNotificationsRead(userId: string, ids?: string[]) {
+  const { count } = await prisma.notification.updateMany({
+    where: {
+      userId,
+      channel: 'IN_APP',
+      readAt: null,
+      ...(ids && { id: { in: ids } })
+    },
+    data: { readAt: new Date() }
+  });
+
+  return count;
+}
+
+/**
+ * Tells a patient their appointment is confirmed
+ */
+export async function notifyAppointmentConfirmed(appointmentId: string) {
+  const appointment = await prisma.appointment.findUnique({
+    where: { id: appointmentId },
+    select: {
+      userId: true,
+      scheduledDate: true,
+      hospital: { select: { name: true } },
+      doctor: { select: { name: true } }
+    }
+  });
+  if (!appointment) return;
+
+  await notify([appointment.userId], 'appointmentConfirmed', {
+    appointmentId,
+    hospitalName: appointment.hospital?.name || 'the hospital',
+    doctorName: appointment.doctor?.name,
+    scheduledDate: appointment.scheduledDate
+  });
+}
+
+/**
+ * Tells hospital staff about a new emergency alert: the alert's hospital, or
+ * the given hospitals it was escalated to
+ */
+export async function notifyEmergencyAlert(alertId: string, hospitalIds?: string[]) {
+  const alert = await prisma.emergencyAlert.findUnique({
+    where: { id: alertId },
+    select: {
+      hospitalId: true,
+      user: { select: { name: true } }
+    }
+  });
+  if (!alert) return;
+
+  const hospitals: { id: string; name: string }[] = await prisma.hospital.findMany({
+    where: { id: { in: hospitalIds ?? [alert.hospitalId] } },
+    select: { id: true, name: true }
+  });
+
+  for (const hospital of hospitals) {
+    const staff: { id: string }[] = await prisma.user.findMany({
+      where: { role: 'HOSPITAL', hospital: hospital.id },
+      select: { id: true }
+    });
+
+    await notify(staff.map(member => member.id), 'emergencyAlertCreated', {
+      alertId,
+      patientName: alert.user?.name || 'A patient',
+      hospitalName: hospital.name
+    });
+  }
+}
+
+/**
+ * Tells a patient their visit has been completed
+ */
+export async function notifyReceiptCompleted(receiptId: string) {
+  const receipt = await prisma.receipt.findUnique({
+    where: { id: receiptId },
+    select: { userId: true, hospital: { select: { name: true } } }
+  });
+  if (!receipt) return;
+
+  await notify([receipt.userId], 'receiptCompleted', {
+    receiptId,
+    hospitalName: receipt.hospital?.name || 'the hospital'
+  });
+}
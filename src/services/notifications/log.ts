@@ -0,0 +1,32 @@
+// Log channel
+// Stand-in for email and SMS in development and tests: messages are written
+// to the console and kept in memory instead of being sent.
+import type { ChannelAdapter, OutgoingMessage } from './types';
+
+// Most recent messages first, capped so long-running servers don't grow it forever
+const MAX_KEPT_MESSAGES = 100;
+
+const sentMessages: (OutgoingMessage & { channel: string; sentAt: Date })[] = [];
+
+/**
+ * Messages "sent" through log channels, most recent first
+ */
+export function getLoggedMessages() {
+  return [...sentMessages];
+}
+
+export function clearLoggedMessages() {
+  sentMessages.length = 0;
+}
+
+export function createLogChannel(channel: string): ChannelAdapter {
+  return {
+    name: 'log',
+
+    async send(message) {
+      console.log(`📨 [${channel}] to ${message.to}: ${message.subject} - ${message.text}`);
+      sentMessages.unshift({ ...message, channel, sentAt: new Date() });
+      sentMessages.splice(MAX_KEPT_MESSAGES);
+    }
+  };
+}
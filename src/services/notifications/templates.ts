@@ -0,0 +1,52 @@
+// Notification templates
+// Each template renders the title, body and link of a notification from the
+// data the event provides. Email uses the title as its subject.
+import { HOSPITAL_TIMEZONE } from '@/lib/localTime';
+
+export type RenderedNotification = {
+  title: string;
+  body: string;
+  // Page in the app the notification is about
+  link?: string;
+};
+
+function formatDateTime(date: Date) {
+  return date.toLocaleString('en-IN', {
+    timeZone: HOSPITAL_TIMEZONE,
+    dateStyle: 'medium',
+    timeStyle: 'short'
+  });
+}
+
+export const TEMPLATES = {
+  appointmentConfirmed(data: { appointmentId: string; hospitalName: string; doctorName?: string | null; scheduledDate?: Date | null }): RenderedNotification {
+    const when = data.scheduledDate ? ` on ${formatDateTime(data.scheduledDate)}` : '';
+    const withDoctor = data.doctorName ? ` with ${data.doctorName}` : '';
+
+    return {
+      title: 'Appointment confirmed',
+      body: `Your appointment at ${data.hospitalName}${withDoctor} is confirmed${when}.`,
+      link: `/user/appointments/${data.appointmentId}`
+    };
+  },
+
+  emergencyAlertCreated(data: { alertId: string; patientName: string; hospitalName: string }): RenderedNotification {
+    return {
+      title: 'Emergency alert',
+      body: `${data.patientName} sent an emergency alert to ${data.hospitalName}. Respond as soon as possible.`,
+      link: '/hospital/emergency-alerts'
+    };
+  },
+
+  receiptCompleted(data: { receiptId: string; hospitalName: string }): RenderedNotification {
+    return {
+      title: 'Visit completed',
+      body: `Your visit at ${data.hospitalName} has been marked as completed. Thank you for visiting.`,
+      link: `/user/report/${data.receiptId}`
+    };
+  }
+};
+
+export type NotificationTemplate = keyof typeof TEMPLATES;
+
+export type TemplateData<T extends NotificationTemplate> = Parameters<typeof TEMPLATES[T]>[0];
@@ -0,0 +1,48 @@
+// Twilio SMS
+// Sends text messages through Twilio's REST API with TWILIO_ACCOUNT_SID,
+// TWILIO_AUTH_TOKEN and the sender number in TWILIO_FROM_NUMBER.
+import type { ChannelAdapter } from './types';
+
+const TWILIO_API_URL = 'https://api.twilio.com/2010-04-01';
+
+// SMS segments are 160 characters; keep messages to a few of them
+const MAX_SMS_LENGTH = 480;
+
+function readConfig() {
+  const accountSid = process.env.TWILIO_ACCOUNT_SID;
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+  const from = process.env.TWILIO_FROM_NUMBER;
+
+  if (!accountSid || !authToken || !from) {
+    throw new Error('TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_FROM_NUMBER must be set to send SMS');
+  }
+
+  return { accountSid, authToken, from };
+}
+
+export const twilioChannel: ChannelAdapter = {
+  name: 'twilio',
+
+  async send(message) {
+    const { accountSid, authToken, from } = readConfig();
+    const body = `${message.subject}: ${message.text}`;
+
+    const response = await fetch(`${TWILIO_API_URL}/Accounts/${accountSid}/Messages.json`, {
+      method: 'POST',
+      headers: {
+        authorization: `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString('base64')}`,
+        'content-type': 'application/x-www-form-urlencoded'
+      },
+      body: new URLSearchParams({
+        To: message.to,
+        From: from,
+        Body: body.length > MAX_SMS_LENGTH ? `${body.slice(0, MAX_SMS_LENGTH - 1)}…` : body
+      })
+    });
+
+    if (!response.ok) {
+      const details = await response.text().catch(() => '');
+      throw new Error(`Twilio request failed with ${response.status}: ${details.slice(0, 200)}`);
+    }
+  }
+};
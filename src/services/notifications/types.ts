@@ -0,0 +1,17 @@
+export type NotificationChannel = 'IN_APP' | 'EMAIL' | 'SMS';
+
+export type NotificationStatus = 'PENDING' | 'SENT' | 'FAILED';
+
+// A message to an email address or phone number
+export type OutgoingMessage = {
+  to: string;
+  subject: string;
+  text: string;
+};
+
+// Sends email or SMS messages. Throws when sending fails so the delivery job
+// can retry.
+export interface ChannelAdapter {
+  name: string;
+  send(message: OutgoingMessage): Promise<void>;
+}
@@ -0,0 +1,346 @@
+// Patient record retrieval
+// Finds the parts of a patient's record that bear on a chat question, so the
+// assistant sees the relevant reports, appointments, reminders and emergency
+// alerts however old they are, and can cite the record each answer came from.
+// The record is split into short passages and ranked with BM25
+// (src/lib/bm25.ts); the index is built afresh for each question, so it is
+// never out of date.
+import prisma from '@/lib/prisma';
+import { createBm25Index, searchBm25 } from '@/lib/bm25';
+import { toLocalDate } from '@/lib/localTime';
+
+// Records of each kind that are indexed, newest first
+const RECORD_LIMIT = 200;
+
+// Passages the assistant is shown for a question
+export const RETRIEVED_PASSAGE_LIMIT = 8;
+
+// Records shown when nothing matches the question, e.g. "how am I doing?"
+const RECENT_RECORD_LIMIT = 3;
+
+// Longer texts, such as a report's analysis, are split into passages of
+// about this many words
+const PASSAGE_WORDS = 120;
+
+export type RecordKind = 'report' | 'appointment' | 'reminder' | 'emergencyAlert';
+
+// A record an answer may cite as [ref]
+export type RecordSource = {
+  ref: number;
+  kind: RecordKind;
+  id: string;
+  label: string;
+  date: string;
+  // Where the patient can open the record
+  href: string | null;
+};
+
+export type RetrievedRecord = {
+  source: RecordSource;
+  passages: string[];
+};
+
+type PatientRecord = Omit<RecordSource, 'ref'> & {
+  sortDate: Date;
+  // Lines describing the record, before any long free text
+  facts: string[];
+  text: string | null;
+};
+
+type Passage = { record: number; text: string };
+
+const KIND_LABELS: Record<RecordKind, string> = {
+  report: 'Report',
+  appointment: 'Appointment',
+  reminder: 'Medicine reminder',
+  emergencyAlert: 'Emergency alert'
+};
+
+function line(label: string, value: string | number | null | undefined) {
+  return value === null || value === undefined || value === '' ? null : `${label}: ${value}`;
+}
+
+function compact(lines: (string | null)[]) {
+  return lines.filter((value): value is string => value !== null);
+}
+
+type ReportRow = {
+  id: string;
+  uploatedAt: Date;
+  status: string;
+  condition: string | null;
+  severity: number | null;
+  priority: string | null;
+  specialty: string | null;
+  redFlags: string[];
+  recommendedActions: string[];
+  aiAnalysis: string | null;
+  hospital: { name: string } | null;
+  doctor: { name: string } | null;
+};
+
+type AppointmentRow = Omit<ReportRow, 'uploatedAt'> & {
+  symptoms: string;
+  preferredDate: Date;
+  scheduledDate: Date | null;
+  createdAt: Date;
+};
+
+type ReminderRow = {
+  id: string;
+  name: string;
+  dosage: string;
+  frequency: string;
+  time: string;
+  notes: string | null;
+  isActive: boolean;
+  startDate: Date;
+  endDate: Date | null;
+  createdAt: Date;
+};
+
+type AlertRow = {
+  id: string;
+  status: string;
+  notes: string | null;
+  createdAt: Date;
+  respondedAt: Date | null;
+  hospital: { name: string };
+  events: { toStatus: string; note: string | null; createdAt: Date }[];
+};
+
+const TRIAGE_SELECT = {
+  id: true,
+  status: true,
+  condition: true,
+  severity: true,
+  priority: true,
+  specialty: true,
+  redFlags: true,
+  recommendedActions: true,
+  aiAnalysis: true,
+  hospital: { select: { name: true } },
+  doctor: { select: { name: true } }
+};
+
+function triageFacts(row: Omit<ReportRow, 'id' | 'uploatedAt'>) {
+  return compact([
+    line('Status', row.status.toLowerCase()),
+    line('Condition', row.condition),
+    line('Severity', row.severity ? `${row.severity}/10` : null),
+    line('Priority', row.priority?.toLowerCase()),
+    line('Specialty', row.specialty),
+    line('Red flags', row.redFlags.join(', ')),
+    line('Recommended actions', row.recommendedActions.join('; ')),
+    line('Hospital', row.hospital?.name),
+    line('Doctor', row.doctor?.name)
+  ]);
+}
+
+/**
+ * Everything on the patient's record the assistant may draw on, newest
+ * first within each kind
+ */
+async function patientRecords(userId: string): Promise<PatientRecord[]> {
+  const [reports, appointments, reminders, alerts]: [ReportRow[], AppointmentRow[], ReminderRow[], AlertRow[]] =
+    await Promise.all([
+      prisma.receipt.findMany({
+        where: { userId },
+        orderBy: { uploatedAt: 'desc' },
+        take: RECORD_LIMIT,
+        select: { ...TRIAGE_SELECT, uploatedAt: true }
+      }),
+      prisma.appointment.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+        take: RECORD_LIMIT,
+        select: { ...TRIAGE_SELECT, symptoms: true, preferredDate: true, scheduledDate: true, createdAt: true }
+      }),
+      prisma.medicineReminder.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+        take: RECORD_LIMIT,
+        select: {
+          id: true,
+          name: true,
+          dosage: true,
+          frequency: true,
+          time: true,
+          notes: true,
+          isActive: true,
+          startDate: true,
+          endDate: true,
+          createdAt: true
+        }
+      }),
+      prisma.emergencyAlert.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+        take: RECORD_LIMIT,
+        select: {
+          id: true,
+          status: true,
+          notes: true,
+          createdAt: true,
+          respondedAt: true,
+          hospital: { select: { name: true } },
+          events: { orderBy: { createdAt: 'asc' }, select: { toStatus: true, note: true, createdAt: true } }
+        }
+      })
+    ]);
+
+  return [
+    ...reports.map(report => ({
+      kind: 'report' as const,
+      id: report.id,
+      label: report.condition || 'Uploaded report',
+      date: toLocalDate(report.uploatedAt),
+      href: `/user/report/${report.id}`,
+      sortDate: report.uploatedAt,
+      facts: triageFacts(report),
+      text: report.aiAnalysis
+    })),
+    ...appointments.map(appointment => ({
+      kind: 'appointment' as const,
+      id: appointment.id,
+      label: appointment.condition || 'Appointment request',
+      date: toLocalDate(appointment.scheduledDate || appointment.preferredDate),
+      href: `/user/appointments/${appointment.id}`,
+      sortDate: appointment.createdAt,
+      facts: [
+        ...compact([
+          line('Symptoms', appointment.symptoms),
+          line('Booked for', appointment.scheduledDate ? toLocalDate(appointment.scheduledDate) : null),
+          line('Requested on', toLocalDate(appointment.createdAt))
+        ]),
+        ...triageFacts(appointment)
+      ],
+      text: appointment.aiAnalysis
+    })),
+    ...reminders.map(reminder => ({
+      kind: 'reminder' as const,
+      id: reminder.id,
+      label: `${reminder.name} ${reminder.dosage}`,
+      date: toLocalDate(reminder.startDate),
+      href: '/user/medicine-reminder',
+      sortDate: reminder.createdAt,
+      facts: compact([
+        line('Medicine', `${reminder.name} ${reminder.dosage}, ${reminder.frequency} at ${reminder.time}`),
+        line('Active', reminder.isActive ? 'yes' : 'no, stopped'),
+        line('From', toLocalDate(reminder.startDate)),
+        line('Until', reminder.endDate ? toLocalDate(reminder.endDate) : null)
+      ]),
+      text: reminder.notes
+    })),
+    ...alerts.map(alert => ({
+      kind: 'emergencyAlert' as const,
+      id: alert.id,
+      label: `Sent to ${alert.hospital.name}`,
+      date: toLocalDate(alert.createdAt),
+      href: null,
+      sortDate: alert.createdAt,
+      facts: compact([
+        line('Status', alert.status.toLowerCase()),
+        line('Hospital', alert.hospital.name),
+        line('Responded', alert.respondedAt ? toLocalDate(alert.respondedAt) : null),
+        ...alert.events.map(event => line(
+          `${toLocalDate(event.createdAt)} ${event.toStatus.toLowerCase()}`,
+          event.note
+        ))
+      ]),
+      text: alert.notes
+    }))
+  ];
+}
+
+/**
+ * The record's passages: its facts, then its free text in pieces of about
+ * PASSAGE_WORDS words. Each starts with what the record is, so it makes
+ * sense on its own.
+ */
+function toPassages(record: PatientRecord): string[] {
+  const heading = `${KIND_LABELS[record.kind]}, ${record.date}: ${record.label}`;
+  const passages = [[heading, ...record.facts].join('\n')];
+
+  let words: string[] = [];
+  for (const paragraph of (record.text || '').split(/\n\s*\n/)) {
+    const paragraphWords = paragraph.split(/\s+/).filter(Boolean);
+    if (words.length > 0 && words.length + paragraphWords.length > PASSAGE_WORDS) {
+      passages.push(`${heading}\n${words.join(' ')}`);
+      words = [];
+    }
+    words.push(...paragraphWords);
+    while (words.length > PASSAGE_WORDS) {
+      passages.push(`${heading}\n${words.slice(0, PASSAGE_WORDS).join(' ')}`);
+      words = words.slice(PASSAGE_WORDS);
+    }
+  }
+  if (words.length > 0) passages.push(`${heading}\n${words.join(' ')}`);
+
+  return passages;
+}
+
+/**
+ * The parts of the patient's record that best match `query`, grouped by
+ * record and numbered for citing, best match first. With no match, the
+ * newest records. Empty when the patient has no record yet.
+ */
+export async function retrievePatientRecords(
+  userId: string,
+  query: string,
+  limit = RETRIEVED_PASSAGE_LIMIT
+): Promise<RetrievedRecord[]> {
+  const records = await patientRecords(userId);
+  const passages: Passage[] = records.flatMap((record, index) => toPassages(record).map(text => ({ record: index, text })));
+
+  let selected = searchBm25(createBm25Index(passages.map(passage => passage.text)), query)
+    .slice(0, limit)
+    .map(result => passages[result.index]);
+
+  if (selected.length === 0) {
+    selected = records
+      .map((record, index) => ({ record, index }))
+      .sort((a, b) => b.record.sortDate.getTime() - a.record.sortDate.getTime())
+      .slice(0, RECENT_RECORD_LIMIT)
+      .map(({ index }) => passages.find(passage => passage.record === index))
+      .filter((passage): passage is Passage => passage !== undefined);
+  }
+
+  const retrieved = new Map<number, RetrievedRecord>();
+  for (const passage of selected) {
+    const existing = retrieved.get(passage.record);
+    if (existing) {
+      existing.passages.push(passage.text);
+      continue;
+    }
+
+    const { kind, id, label, date, href } = records[passage.record];
+    retrieved.set(passage.record, {
+      source: { ref: retrieved.size + 1, kind, id, label, date, href },
+      passages: [passage.text]
+    });
+  }
+
+  return [...retrieved.values()];
+}
+
+/**
+ * The retrieved records as the assistant's prompt shows them
+ */
+export function formatRetrievedRecords(records: RetrievedRecord[]) {
+  return records
+    .map(record => `[${record.source.ref}]\n${record.passages.join('\n...\n')}`)
+    .join('\n\n');
+}
+
+/**
+ * The sources a reply cites as [n], in the order of their numbers
+ */
+export function citedSources(reply: string, sources: RecordSource[]) {
+  // "[2]" or "[1, 3]"
+  const cited = new Set([...reply.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g)].flatMap(match =>
+    match[1].split(',').map(Number)
+  ));
+
+  return sources.filter(source => cited.has(source.ref));
+}
@@ -0,0 +1,474 @@
+import axios from 'axios';
+import { TRIAGE_JSON_INSTRUCTIONS, fallbackTriage, parseTriage, toTriageAnalysis, triageTranslationInstructions } from '../triage';
+import { REMINDER_FREQUENCIES } from '@/lib/constants';
+import { DEFAULT_LOCALE, LANGUAGES } from '@/lib/i18n';
+import type { Locale } from '@/lib/i18n';
+import type { AIProvider, ChatRequest, ChatToolCall, PrescriptionMedication, ReportPageData, TriageAnalysis } from './types';
+
+const GEMINI_MODEL_URL = 'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent';
+const GEMINI_STREAM_URL = 'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:streamGenerateContent';
+
+type GeminiResponse = {
+  candidates: {
+    content: {
+      parts: {
+        text: string;
+      }[];
+    };
+  }[];
+};
+
+// A streamed chunk, which may call a function instead of carrying text
+type GeminiStreamChunk = {
+  candidates?: {
+    content?: {
+      parts?: {
+        text?: string;
+        functionCall?: { name: string; args?: Record<string, unknown> };
+      }[];
+    };
+  }[];
+};
+
+// Helper to get the Gemini API key from environment variables
+function getGeminiApiKey(): string {
+  const apiKey = process.env.GEMINI_API_KEY || "";
+  
+  if (!apiKey) {
+    console.error("⛔ CRITICAL ERROR: GEMINI_API_KEY environment variable is not set");
+  } else {
+    console.log("✅ Gemini API key found");
+  }
+  
+  return apiKey;
+}
+
+async function analyzeReceipt(pages: ReportPageData[], language: Locale = DEFAULT_LOCALE): Promise<TriageAnalysis> {
+  // Get the API key from environment variable
+  const apiKey = getGeminiApiKey();
+  
+  if (!apiKey) {
+    console.error("⛔ Missing Gemini API key. Cannot process medical image.");
+    throw new Error("Missing Gemini API key");
+  }
+  
+  try {
+    console.log("🔄 Starting Gemini API medical analysis process...");
+    
+    // Basic validation of the pages
+    if (pages.length === 0 || pages.some(page => !page.base64)) {
+      console.error("⛔ Invalid report data. No pages, or a page is empty.");
+      throw new Error("Invalid image data");
+    }
+    
+    console.log(`✅ Report data validated (${pages.length} page${pages.length === 1 ? '' : 's'})`);
+    console.log("🔄 Preparing image data and generating prompt...");
+    
+    // Log the starting timestamp
+    const startTime = new Date();
+    console.log(`🕒 Analysis started at: ${startTime.toISOString()}`);
+    
+    console.log("🔄 Sending request to Gemini API...");
+    const response = await axios.post<GeminiResponse>(
+      `${GEMINI_MODEL_URL}?key=${apiKey}`,
+      {
+        contents: [
+          {
+            parts: [
+              {
+                text: `You are a medical AI assistant analyzing a medical receipt or report for hospital queue triage.
+
+The report has ${pages.length} page${pages.length === 1 ? '' : 's'}, attached in reading order as images or single-page PDFs. Read them together as one report.
+
+Assess the patient's condition, how severe it is, how urgently they need to be seen and which specialty should see them.
+
+${TRIAGE_JSON_INSTRUCTIONS}${triageTranslationInstructions(language)}
+
+If no medical information is visible in the report, respond with:
+{"condition": "No clear medical information detected", "severity": 1, "priority": "LOW", "specialty": "General Medicine", "redFlags": [], "recommendedActions": ["Please upload a clearer medical document or consult with the hospital directly."]}
+`
+              },
+              ...pages.map(page => ({
+                inline_data: {
+                  mime_type: page.mimeType,
+                  data: page.base64
+                }
+              }))
+            ]
+          }
+        ],
+        generationConfig: {
+          temperature: 0.2,
+          topP: 0.8,
+          topK: 40,
+          // The translation roughly doubles the reply
+          maxOutputTokens: language === DEFAULT_LOCALE ? 1024 : 2048,
+          responseMimeType: "application/json"
+        }
+      },
+      {
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        timeout: 30000 // 30 second timeout
+      }
+    );
+
+    // Calculate and log processing time
+    const endTime = new Date();
+    const processingTimeMs = endTime.getTime() - startTime.getTime();
+    console.log(`✅ Gemini API response received successfully in ${processingTimeMs}ms (${(processingTimeMs/1000).toFixed(2)}s)`);
+    
+    // Validate the response structure before accessing properties
+    if (!response.data || !response.data.candidates || !response.data.candidates[0] ||
+        !response.data.candidates[0].content || !response.data.candidates[0].content.parts ||
+        !response.data.candidates[0].content.parts[0] || !response.data.candidates[0].content.parts[0].text) {
+      console.error("⛔ Gemini API returned an unexpected response format:", JSON.stringify(response.data));
+      throw new Error("Invalid API response format");
+    }
+    
+    const analysisText = response.data.candidates[0].content.parts[0].text;
+    
+    // Log a snippet of the analysis for debugging
+    console.log("📋 Analysis snippet:", analysisText.substring(0, 100) + "...");
+    
+    // Validate the structured triage returned by the model
+    const triage = parseTriage(analysisText);
+    console.log(`🔍 Triage: severity ${triage.severity}/10, priority ${triage.priority}, specialty ${triage.specialty}`);
+    
+    return toTriageAnalysis(triage, language);
+  } catch (error) {
+    console.error("⛔ Error calling Gemini API:", error);
+    
+    if (axios.isAxiosError(error)) {
+      if (error.response) {
+        console.error("⛔ API response error data:", error.response.data);
+        console.error("⛔ API status code:", error.response.status);
+      } else if (error.request) {
+        console.error("⛔ No response received from Gemini API. Request timeout or network error");
+      } else {
+        console.error("⛔ Error setting up request:", error.message);
+      }
+    }
+    
+    // The analysis job retries, then marks the report failed for staff to re-run
+    throw error instanceof Error ? error : new Error("Gemini API request failed");
+  }
+}
+
+/**
+ * Analyzes patient symptoms using Gemini API and returns a validated triage
+ */
+async function analyzeSymptoms(symptoms: string, language: Locale = DEFAULT_LOCALE): Promise<TriageAnalysis> {
+  // Get the API key from environment variable
+  const apiKey = getGeminiApiKey();
+  
+  if (!apiKey) {
+    throw new Error("Missing Gemini API key");
+  }
+  
+  try {
+    console.log("Analyzing symptoms using Gemini API:", symptoms);
+    
+    // Log the starting timestamp
+    const startTime = new Date();
+    
+    const response = await axios.post<GeminiResponse>(
+      `${GEMINI_MODEL_URL}?key=${apiKey}`,
+      {
+        contents: [
+          {
+            parts: [
+              {
+                text: `You are a medical AI assistant analyzing patient symptoms for appointment triage.
+
+Please analyze these patient symptoms: "${symptoms}"
+
+Assess the most likely condition, how severe it is, how urgently the patient needs to be seen and which specialty should see them.
+
+${TRIAGE_JSON_INSTRUCTIONS}${triageTranslationInstructions(language)}`
+              }
+            ]
+          }
+        ],
+        generationConfig: {
+          temperature: 0.2,
+          topP: 0.8,
+          topK: 40,
+          maxOutputTokens: language === DEFAULT_LOCALE ? 1024 : 2048,
+          responseMimeType: "application/json"
+        }
+      },
+      {
+        headers: {
+          'Content-Type': 'application/json'
+        }
+      }
+    );
+
+    // Calculate and log processing time
+    const endTime = new Date();
+    const processingTimeMs = endTime.getTime() - startTime.getTime();
+    console.log(`Gemini API response received for symptoms in ${processingTimeMs}ms (${(processingTimeMs/1000).toFixed(2)}s)`);
+    
+    const analysisText = response.data.candidates[0].content.parts[0].text;
+    
+    // Validate the structured triage returned by the model
+    const triage = parseTriage(analysisText);
+    console.log(`Detected severity from Gemini: ${triage.severity}/10`);
+    
+    return toTriageAnalysis(triage, language);
+  } catch (error) {
+    console.error("Error calling Gemini API for symptom analysis:", error);
+    
+    if (axios.isAxiosError(error)) {
+      console.error("API response error:", error.response?.data);
+      console.error("API status code:", error.response?.status);
+    }
+    
+    // Provide a fallback triage if the API call or validation fails
+    return fallbackTriage("Patient symptoms require medical attention", 3);
+  }
+}
+
+/**
+ * Analyzes prescription images to extract medication information
+ */
+async function analyzePrescription(base64Image: string, language: Locale = DEFAULT_LOCALE): Promise<PrescriptionMedication[]> {
+  // Get the API key from environment variable
+  const apiKey = getGeminiApiKey();
+  
+  if (!apiKey) {
+    throw new Error("Missing Gemini API key");
+  }
+  
+  try {
+    console.log("Analyzing prescription using Gemini API");
+    
+    // Log the starting timestamp
+    const startTime = new Date();
+    
+    const response = await axios.post<GeminiResponse>(
+      `${GEMINI_MODEL_URL}?key=${apiKey}`,
+      {
+        contents: [
+          {
+            parts: [
+              {
+                text: `You are a medical AI assistant analyzing a prescription or medical document. 
+                
+Extract all the medications mentioned in this document with the following details for each medication:
+- Medication name
+- Dosage (e.g., 500mg, 10ml, etc.)
+- Frequency (daily, twice-daily, thrice-daily, weekly, biweekly, monthly)
+- Recommended time (in 24-hour format like "09:00")
+- Special instructions or notes (if any)
+
+Provide your response as a JSON array like this:
+[
+  {
+    "name": "Medication Name",
+    "dosage": "Dosage Amount",
+    "frequency": "Frequency Code",
+    "time": "Best time to take (HH:MM)",
+    "notes": "Any special instructions",
+    "aiConfidence": 95
+  }
+]
+
+For frequency, use ONLY one of these specific codes: "daily", "twice-daily", "thrice-daily", "weekly", "biweekly", "monthly" ("biweekly" means twice a week)
+
+For each medication, include an "aiConfidence" field (0-100) indicating your confidence level in the extracted information.
+${language === DEFAULT_LOCALE ? '' : `
+Write "notes" in ${LANGUAGES[language].name}, for the patient. Keep the name and dosage as they appear on the prescription.
+`}
+If no medications are found, return an empty array: []`
+              },
+              {
+                inline_data: {
+                  mime_type: "image/jpeg",
+                  data: base64Image
+                }
+              }
+            ]
+          }
+        ],
+        generationConfig: {
+          temperature: 0.1,
+          topP: 0.8,
+          topK: 40,
+          maxOutputTokens: 1024
+        }
+      },
+      {
+        headers: {
+          'Content-Type': 'application/json'
+        }
+      }
+    );
+
+    // Calculate and log processing time
+    const endTime = new Date();
+    const processingTimeMs = endTime.getTime() - startTime.getTime();
+    console.log(`Gemini API response received for prescription in ${processingTimeMs}ms (${(processingTimeMs/1000).toFixed(2)}s)`);
+    
+    const resultText = response.data.candidates[0].content.parts[0].text;
+    
+    // Find the JSON array in the response
+    const jsonMatch = resultText.match(/\[\s*\{[\s\S]*\}\s*\]/);
+    if (jsonMatch) {
+      try {
+        // Parse the JSON array
+        const medicationsData = JSON.parse(jsonMatch[0]);
+        console.log(`Extracted ${medicationsData.length} medications from prescription`);
+        
+        // Add unique IDs to each medication and ensure data formatting is correct
+        const medicationsWithIds = medicationsData.map((med: Record<string, unknown>, index: number): PrescriptionMedication => ({
+          id: `ai-med-${index + 1}`,
+          name: String(med.name || ""),
+          dosage: String(med.dosage || ""),
+          frequency: (REMINDER_FREQUENCIES as readonly string[]).includes(String(med.frequency))
+            ? String(med.frequency)
+            : "daily",
+          time: String(med.time || "08:00"),
+          notes: med.notes ? String(med.notes) : "",
+          aiConfidence: Number(med.aiConfidence) || 75
+        }));
+        
+        return medicationsWithIds;
+      } catch (parseError) {
+        console.error("Error parsing medication JSON:", parseError);
+        throw new Error("Failed to parse medication data from AI response");
+      }
+    } else {
+      console.error("No valid JSON found in the AI response");
+      return [];
+    }
+  } catch (error) {
+    console.error("Error calling Gemini API for prescription analysis:", error);
+    
+    if (axios.isAxiosError(error)) {
+      console.error("API response error:", error.response?.data);
+      console.error("API status code:", error.response?.status);
+    }
+    
+    // Return an empty array if API fails
+    return [];
+  }
+}
+
+/**
+ * Sends an assembled chat prompt to Gemini and returns the reply text
+ */
+async function chat({ prompt }: ChatRequest): Promise<string> {
+  const apiKey = getGeminiApiKey();
+
+  if (!apiKey) {
+    throw new Error("Missing Gemini API key");
+  }
+
+  const response = await axios.post<GeminiResponse>(
+    `${GEMINI_MODEL_URL}?key=${apiKey}`,
+    {
+      contents: [
+        {
+          parts: [
+            {
+              text: prompt
+            }
+          ]
+        }
+      ],
+      generationConfig: {
+        temperature: 0.2,
+        topP: 0.8,
+        topK: 40,
+        maxOutputTokens: 1024
+      }
+    },
+    {
+      headers: {
+        'Content-Type': 'application/json'
+      }
+    }
+  );
+
+  return response.data.candidates[0].content.parts[0].text;
+}
+
+/**
+ * Streams the reply to an assembled chat prompt from Gemini's server-sent
+ * events endpoint, one text chunk per event, offering `tools` as function
+ * declarations
+ */
+async function* streamChat({ prompt, tools }: ChatRequest, signal?: AbortSignal): AsyncIterable<string | ChatToolCall> {
+  const apiKey = getGeminiApiKey();
+
+  if (!apiKey) {
+    throw new Error("Missing Gemini API key");
+  }
+
+  const response = await fetch(`${GEMINI_STREAM_URL}?alt=sse&key=${apiKey}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      contents: [{ parts: [{ text: prompt }] }],
+      ...(tools?.length && { tools: [{ functionDeclarations: tools }] }),
+      generationConfig: {
+        temperature: 0.2,
+        topP: 0.8,
+        topK: 40,
+        maxOutputTokens: 1024
+      }
+    }),
+    signal
+  });
+
+  if (!response.ok || !response.body) {
+    throw new Error(`Gemini streaming request failed with status ${response.status}`);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const events = buffer.split(/\r?\n\r?\n/);
+      buffer = events.pop() || '';
+
+      for (const event of events) {
+        const data = event
+          .split(/\r?\n/)
+          .filter(line => line.startsWith('data:'))
+          .map(line => line.slice(5).trim())
+          .join('');
+        if (!data) continue;
+
+        const chunk: GeminiStreamChunk = JSON.parse(data);
+        for (const part of chunk.candidates?.[0]?.content?.parts || []) {
+          if (part.functionCall) {
+            yield { name: part.functionCall.name, args: part.functionCall.args || {} };
+          } else if (part.text) {
+            yield part.text;
+          }
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+export const geminiProvider: AIProvider = {
+  name: 'gemini',
+  analyzeReceipt,
+  analyzeSymptoms,
+  analyzePrescription,
+  chat,
+  streamChat
+};
@@ -0,0 +1,29 @@
+// AI provider registry
+// Selects the AI backend from the AI_PROVIDER environment variable
+// ("gemini" by default, "local" for the offline rule-based stand-in).
+import { geminiProvider } from './gemini';
+import { localProvider } from './local';
+import type { AIProvider } from './types';
+
+export type { AIProvider, ChatRequest, ChatTool, ChatToolCall, PrescriptionMedication, ReportPageData, TriageAnalysis } from './types';
+export { geminiProvider, localProvider };
+
+const providers: Record<string, AIProvider> = {
+  gemini: geminiProvider,
+  local: localProvider
+};
+
+/**
+ * Returns the AI provider configured for this environment
+ */
+export function getAIProvider(): AIProvider {
+  const providerName = (process.env.AI_PROVIDER || 'gemini').toLowerCase();
+  const provider = providers[providerName];
+
+  if (!provider) {
+    console.warn(`⚠️ Unknown AI_PROVIDER "${providerName}", falling back to Gemini`);
+    return geminiProvider;
+  }
+
+  return provider;
+}
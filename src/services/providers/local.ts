@@ -0,0 +1,299 @@
+// Local rule-based AI provider
+// Deterministic stand-in for Gemini so staging and tests can run the triage,
+// prescription and chat flows without network access or an API key.
+import { priorityFromSeverity, toTriageAnalysis } from '../triage';
+import type { Specialty } from '../triage';
+import type { AIProvider, ChatRequest, ChatTool, ChatToolCall, PrescriptionMedication, ReportPageData, TriageAnalysis } from './types';
+
+// High-priority symptoms (emergency)
+const EMERGENCY_TERMS = [
+  'chest pain', 'heart attack', 'stroke', 'breathing', 'unconscious',
+  'severe bleeding', 'head trauma', 'seizure', 'allergic reaction',
+  'anaphylaxis', 'vomiting blood', 'paralysis', 'suicide', 'overdose'
+];
+
+// Medium-priority symptoms
+const URGENT_TERMS = [
+  'fever', 'fracture', 'broken', 'infection', 'pain', 'vomiting',
+  'diarrhea', 'dehydration', 'dizziness', 'cut', 'wound', 'headache',
+  'migraine', 'burn'
+];
+
+// Low-priority symptoms
+const ROUTINE_TERMS = [
+  'cold', 'flu', 'cough', 'sore throat', 'rash', 'itch', 'stomach ache',
+  'routine', 'check-up', 'follow-up', 'prescription', 'refill'
+];
+
+// Frequency codes understood by the medicine reminder pages, most specific first
+const FREQUENCY_PATTERNS: { code: string; pattern: RegExp }[] = [
+  { code: 'biweekly', pattern: /biweekly|(?:twice|two times) a week/i },
+  { code: 'thrice-daily', pattern: /thrice|three times|\btds\b|\btid\b|1-1-1/i },
+  { code: 'twice-daily', pattern: /twice|two times|\bbd\b|\bbid\b|1-0-1/i },
+  { code: 'weekly', pattern: /weekly|once a week/i },
+  { code: 'monthly', pattern: /monthly|once a month/i },
+  { code: 'daily', pattern: /daily|once a day|\bod\b|\bqd\b/i }
+];
+
+// Default dose time for each frequency code
+const DEFAULT_TIMES: Record<string, string> = {
+  'daily': '08:00',
+  'twice-daily': '08:00',
+  'thrice-daily': '08:00',
+  'weekly': '09:00',
+  'biweekly': '09:00',
+  'monthly': '09:00'
+};
+
+const DOSAGE_PATTERN = /(\d+(?:\.\d+)?\s?(?:mg|mcg|g|ml|iu|units?))\b/i;
+
+// Words that negate a finding when they appear shortly before it ("no chest pain")
+const NEGATION_PATTERN = /\b(no|not|without|denies|denied|negative for)\b[^.;,\n]{0,20}$/;
+
+/**
+ * Returns the terms that occur in the text and are not negated
+ */
+function findTerms(symptomText: string, terms: string[]): string[] {
+  return terms.filter(term => {
+    let index = symptomText.indexOf(term);
+    while (index !== -1) {
+      if (!NEGATION_PATTERN.test(symptomText.slice(Math.max(0, index - 30), index))) {
+        return true;
+      }
+      index = symptomText.indexOf(term, index + term.length);
+    }
+    return false;
+  });
+}
+
+/**
+ * Checks whether a term occurs in the text without being negated
+ */
+function mentions(symptomText: string, term: string): boolean {
+  return findTerms(symptomText, [term]).length > 0;
+}
+
+/**
+ * Calculates a severity score (1-10) based on symptom keywords
+ * Always returns the same score for the same text
+ */
+export function calculateSeverity(symptoms: string): number {
+  const symptomText = symptoms.toLowerCase();
+
+  if (findTerms(symptomText, EMERGENCY_TERMS).length > 0) {
+    return 9;
+  }
+
+  if (findTerms(symptomText, URGENT_TERMS).length > 0) {
+    return 5;
+  }
+
+  if (findTerms(symptomText, ROUTINE_TERMS).length > 0) {
+    return 2;
+  }
+
+  return 3; // Default medium-low priority
+}
+
+/**
+ * Lists likely conditions for the most recognisable symptom in the text
+ */
+function getPossibleConditions(symptomText: string): string {
+  if (mentions(symptomText, 'headache')) {
+    return "Migraine, Tension headache, Sinusitis";
+  } else if (mentions(symptomText, 'chest pain')) {
+    return "Angina, Myocardial infarction, GERD, Costochondritis";
+  } else if (mentions(symptomText, 'cough')) {
+    return "Upper respiratory infection, Bronchitis, Pneumonia, Asthma";
+  } else if (mentions(symptomText, 'fever')) {
+    return "Viral infection, Bacterial infection, Inflammatory condition";
+  } else if (mentions(symptomText, 'rash')) {
+    return "Allergic reaction, Eczema, Contact dermatitis, Viral exanthem";
+  } else if (mentions(symptomText, 'stomach') || mentions(symptomText, 'abdominal')) {
+    return "Gastroenteritis, GERD, Peptic ulcer, IBS, Appendicitis";
+  }
+  return "Multiple conditions possible - further evaluation required";
+}
+
+/**
+ * Suggests a specialist for the most recognisable symptom in the text
+ */
+function getSpecialistRecommendation(symptomText: string, severity: number): Specialty {
+  if (mentions(symptomText, 'chest pain') || mentions(symptomText, 'heart attack')) {
+    return "Cardiology";
+  } else if (mentions(symptomText, 'stroke') || mentions(symptomText, 'seizure') || mentions(symptomText, 'headache')) {
+    return "Neurology";
+  } else if (mentions(symptomText, 'fracture') || mentions(symptomText, 'broken')) {
+    return "Orthopedics";
+  } else if (mentions(symptomText, 'rash') || mentions(symptomText, 'itch')) {
+    return "Dermatology";
+  } else if (severity >= 8) {
+    return "Emergency Medicine";
+  }
+  return "General Medicine";
+}
+
+/**
+ * Generates the recommendation line for a severity
+ */
+function getRecommendation(severity: number): string {
+  if (severity >= 8) {
+    return "Immediate medical attention recommended. Consider emergency services.";
+  } else if (severity >= 4) {
+    return "Prompt medical evaluation recommended within 24-48 hours.";
+  }
+  return "Schedule a routine appointment for proper evaluation.";
+}
+
+/**
+ * Builds a triage analysis from free text using keyword rules
+ */
+export function triageText(text: string): TriageAnalysis {
+  const symptomText = text.toLowerCase();
+  const severity = calculateSeverity(text);
+
+  return toTriageAnalysis({
+    condition: getPossibleConditions(symptomText),
+    severity,
+    priority: priorityFromSeverity(severity),
+    specialty: getSpecialistRecommendation(symptomText, severity),
+    redFlags: findTerms(symptomText, EMERGENCY_TERMS),
+    recommendedActions: [getRecommendation(severity)]
+  });
+}
+
+/**
+ * Decodes a base64 upload into text when the payload is readable text.
+ * Binary images cannot be read offline, so they yield an empty string.
+ */
+function decodeTextPayload(base64Data: string): string {
+  const payload = base64Data.replace(/^data:[^;]+;base64,/, '');
+
+  try {
+    const text = Buffer.from(payload, 'base64').toString('utf8');
+    const printable = text.replace(/[^\x20-\x7E\n\r\t]/g, '');
+    return printable.length > 0 && printable.length / text.length > 0.95 ? text : '';
+  } catch {
+    return '';
+  }
+}
+
+async function analyzeReceipt(pages: ReportPageData[]): Promise<TriageAnalysis> {
+  const reportText = pages.map(page => decodeTextPayload(page.base64)).join('\n');
+
+  if (!reportText.trim()) {
+    return toTriageAnalysis({
+      condition: "No clear medical information detected",
+      severity: 1,
+      priority: "LOW",
+      specialty: "General Medicine",
+      redFlags: [],
+      recommendedActions: ["Please upload a clearer medical document or consult with the hospital directly."]
+    });
+  }
+
+  return triageText(reportText);
+}
+
+async function analyzeSymptoms(symptoms: string): Promise<TriageAnalysis> {
+  return triageText(symptoms);
+}
+
+async function analyzePrescription(base64Image: string): Promise<PrescriptionMedication[]> {
+  const prescriptionText = decodeTextPayload(base64Image);
+  const medications: PrescriptionMedication[] = [];
+
+  for (const rawLine of prescriptionText.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    const dosageMatch = line.match(DOSAGE_PATTERN);
+    if (!dosageMatch || dosageMatch.index === undefined) continue;
+
+    const name = line.slice(0, dosageMatch.index).replace(/^[\d.)\-\s]+/, '').replace(/^(?:tab|cap|syp|inj)\.?\s+/i, '').trim();
+    if (!name) continue;
+
+    const frequency = FREQUENCY_PATTERNS.find(({ pattern }) => pattern.test(line))?.code || 'daily';
+    const timeMatch = line.match(/\b([01]\d|2[0-3]):([0-5]\d)\b/);
+    const notes = line.slice(dosageMatch.index + dosageMatch[0].length).trim();
+
+    medications.push({
+      id: `ai-med-${medications.length + 1}`,
+      name,
+      dosage: dosageMatch[1],
+      frequency,
+      time: timeMatch ? timeMatch[0] : DEFAULT_TIMES[frequency],
+      notes,
+      aiConfidence: 60
+    });
+  }
+
+  return medications;
+}
+
+async function chat({ message }: ChatRequest): Promise<string> {
+  const severity = calculateSeverity(message);
+  const symptomText = message.toLowerCase();
+
+  if (severity >= 8) {
+    return `What you describe may be serious. ${getRecommendation(severity)} If symptoms are severe or getting worse, please use the emergency button or call your local emergency number right away.`;
+  }
+
+  if (severity >= 4) {
+    return `Based on what you describe, possible causes include: ${getPossibleConditions(symptomText)}. ${getRecommendation(severity)} A ${getSpecialistRecommendation(symptomText, severity)} doctor would be a good first contact. This is general information, not medical advice.`;
+  }
+
+  return "I'm running in offline mode and can only give general guidance. Please describe your symptoms, or ask your hospital staff for advice specific to your medical history. This is general information, not medical advice.";
+}
+
+// Requests the offline provider answers with a tool call, when offered
+const TOOL_INTENTS: { tool: string; pattern: RegExp }[] = [
+  { tool: 'get_queue_status', pattern: /\b(queue|my turn|waiting list)\b/i },
+  { tool: 'list_reminders', pattern: /\b(my|list|show)\b[^.?!]{0,20}\breminders\b/i },
+  { tool: 'find_hospitals', pattern: /\bhospitals?\b[^.?!]{0,20}\bin\b/i }
+];
+
+/**
+ * A call of one of the offered tools the message plainly asks for. Only
+ * tools whose arguments can be read off the message are recognised.
+ */
+function localToolCall(message: string, tools: ChatTool[]): ChatToolCall | null {
+  for (const { tool, pattern } of TOOL_INTENTS) {
+    const offered = tools.find(candidate => candidate.name === tool);
+    if (!offered || !pattern.test(message)) continue;
+
+    const states = offered.parameters.properties.state?.enum;
+    if (!states) return { name: tool, args: {} };
+
+    const state = states.find(name => message.toLowerCase().includes(name.toLowerCase()));
+    if (state) return { name: tool, args: { state } };
+  }
+
+  return null;
+}
+
+/**
+ * The offline reply, word by word, so streaming clients behave as they do
+ * with a real model
+ */
+async function* streamChat(request: ChatRequest, signal?: AbortSignal): AsyncIterable<string | ChatToolCall> {
+  const toolCall = request.tools ? localToolCall(request.message, request.tools) : null;
+  if (toolCall) {
+    yield toolCall;
+    return;
+  }
+
+  const reply = await chat(request);
+
+  for (const word of reply.match(/\S+\s*/g) || []) {
+    signal?.throwIfAborted();
+    yield word;
+  }
+}
+
+export const localProvider: AIProvider = {
+  name: 'local',
+  analyzeReceipt,
+  analyzeSymptoms,
+  analyzePrescription,
+  chat,
+  streamChat
+};
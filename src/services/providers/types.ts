@@ -0,0 +1,70 @@
+/**
+ * AI Provider Types
+ * Contract shared by every AI backend (Gemini, local rule-based stand-in, ...)
+ */
+
+import type { TriageAnalysis } from '../triage';
+import type { Locale } from '@/lib/i18n';
+
+export type { TriageAnalysis };
+
+// A single medication extracted from a prescription
+export type PrescriptionMedication = {
+  id: string;
+  name: string;
+  dosage: string;
+  frequency: string;
+  time: string;
+  notes: string;
+  aiConfidence: number;
+};
+
+// One page of an uploaded report: an image or a single-page PDF
+export type ReportPageData = {
+  mimeType: string;
+  // Base64 without the data URL prefix
+  base64: string;
+};
+
+// A function the model may call instead of replying in text
+export type ChatTool = {
+  name: string;
+  description: string;
+  // JSON schema of the arguments
+  parameters: {
+    type: 'object';
+    properties: Record<string, { type: 'string'; description: string; enum?: string[] }>;
+    required: string[];
+  };
+};
+
+export type ChatToolCall = {
+  name: string;
+  args: Record<string, unknown>;
+};
+
+// Input for a chat completion. `prompt` is the fully assembled prompt
+// (profile, history, instructions); `message` is the raw user question.
+// `tools` are only offered to streamed replies.
+export type ChatRequest = {
+  prompt: string;
+  message: string;
+  tools?: ChatTool[];
+};
+
+// `language` is the patient's: analyses add a patientAnalysis in it and
+// prescription notes are written in it. Providers that cannot translate
+// answer in English.
+export interface AIProvider {
+  name: string;
+  // Pages are in reading order and analyzed together as one report. Throws on
+  // failure rather than guessing, so the analysis job can retry
+  analyzeReceipt(pages: ReportPageData[], language?: Locale): Promise<TriageAnalysis>;
+  analyzeSymptoms(symptoms: string, language?: Locale): Promise<TriageAnalysis>;
+  analyzePrescription(base64Image: string, language?: Locale): Promise<PrescriptionMedication[]>;
+  chat(request: ChatRequest): Promise<string>;
+  // Yields the reply in pieces as the model produces them, and a tool call
+  // when the model calls one of `request.tools`. Stops early, by throwing an
+  // AbortError, once `signal` aborts
+  streamChat(request: ChatRequest, signal?: AbortSignal): AsyncIterable<string | ChatToolCall>;
+}
@@ -0,0 +1,102 @@
+// Web Push
+// Browsers the user allowed to receive push messages are kept as
+// PushSubscription rows. PUSH_DRIVER ("log" by default, or "webpush") picks
+// how messages are delivered to them.
+import prisma from '@/lib/prisma';
+import { logPushSender } from './log';
+import { webPushSender } from './webpush';
+import { PushSubscriptionGoneError } from './types';
+import type { PushMessage, PushSender, PushTarget } from './types';
+
+export type { PushMessage, PushSender, PushTarget } from './types';
+export { PushSubscriptionGoneError } from './types';
+export { getLoggedPushes, clearLoggedPushes } from './log';
+
+const senders: Record<string, PushSender> = {
+  log: logPushSender,
+  webpush: webPushSender
+};
+
+/**
+ * Returns the push sender selected by PUSH_DRIVER
+ */
+export function getPushSender(): PushSender {
+  const driverName = (process.env.PUSH_DRIVER || 'log').toLowerCase();
+  const sender = senders[driverName];
+
+  if (!sender) {
+    console.warn(`⚠️ Unknown PUSH_DRIVER "${driverName}", falling back to log`);
+    return senders.log;
+  }
+
+  return sender;
+}
+
+/**
+ * The VAPID public key browsers subscribe with, or null when push is not set up
+ */
+export function getVapidPublicKey() {
+  return process.env.VAPID_PUBLIC_KEY || null;
+}
+
+/**
+ * Saves a browser's subscription for the user. A browser re-subscribing
+ * (or switching accounts) replaces its earlier subscription.
+ */
+export async function savePushSubscription(userId: string, target: PushTarget, userAgent?: string | null) {
+  return prisma.pushSubscription.upsert({
+    where: { endpoint: target.endpoint },
+    create: { userId, ...target, userAgent: userAgent || null },
+    update: { userId, p256dh: target.p256dh, auth: target.auth, userAgent: userAgent || null },
+    select: { id: true, endpoint: true, createdAt: true }
+  });
+}
+
+export async function removePushSubscription(userId: string, endpoint: string) {
+  const { count } = await prisma.pushSubscription.deleteMany({
+    where: { userId, endpoint }
+  });
+  return count > 0;
+}
+
+/**
+ * Sends a message to every browser the user subscribed. Expired subscriptions
+ * are deleted. Returns how many browsers it reached; throws when none could be
+ * reached because sending failed, so callers can retry.
+ */
+export async function sendPushToUser(userId: string, message: PushMessage) {
+  const subscriptions: (PushTarget & { id: string })[] = await prisma.pushSubscription.findMany({
+    where: { userId },
+    select: { id: true, endpoint: true, p256dh: true, auth: true }
+  });
+
+  const sender = getPushSender();
+  let delivered = 0;
+  let lastError: unknown = null;
+
+  for (const subscription of subscriptions) {
+    try {
+      await sender.send(subscription, message);
+      delivered++;
+      await prisma.pushSubscription.update({
+        where: { id: subscription.id },
+        data: { lastUsedAt: new Date() }
+      });
+    } catch (error) {
+      if (error instanceof PushSubscriptionGoneError) {
+        console.log(`🗑️ Removing expired push subscription ${subscription.id}`);
+        await prisma.pushSubscription.deleteMany({ where: { id: subscription.id } });
+        continue;
+      }
+
+      console.error(`❌ Push to subscription ${subscription.id} failed:`, error);
+      lastError = error;
+    }
+  }
+
+  if (delivered === 0 && lastError) {
+    throw lastError;
+  }
+
+  return delivered;
+}
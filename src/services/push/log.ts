@@ -0,0 +1,30 @@
+// Log push sender
+// Stand-in for a push service in development and tests: messages are written
+// to the console and kept in memory instead of being sent.
+import type { PushMessage, PushSender, PushTarget } from './types';
+
+// Most recent messages first, capped so long-running servers don't grow it forever
+const MAX_KEPT_MESSAGES = 100;
+
+const sentMessages: (PushMessage & { endpoint: string; sentAt: Date })[] = [];
+
+/**
+ * Push messages "sent" through the log sender, most recent first
+ */
+export function getLoggedPushes() {
+  return [...sentMessages];
+}
+
+export function clearLoggedPushes() {
+  sentMessages.length = 0;
+}
+
+export const logPushSender: PushSender = {
+  name: 'log',
+
+  async send(target: PushTarget, message: PushMessage) {
+    console.log(`📲 [push] to ${target.endpoint}: ${message.title} - ${message.body}`);
+    sentMessages.unshift({ ...message, endpoint: target.endpoint, sentAt: new Date() });
+    sentMessages.splice(MAX_KEPT_MESSAGES);
+  }
+};
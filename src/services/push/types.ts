@@ -0,0 +1,36 @@
+// A browser's push subscription, as returned by PushManager.subscribe()
+export type PushTarget = {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+};
+
+// What the service worker shows (see public/sw.js)
+export type PushMessage = {
+  title: string;
+  body: string;
+  // Replaces an earlier notification with the same tag instead of stacking
+  tag?: string;
+  // Page opened when the notification itself is clicked
+  url?: string;
+  actions?: { action: string; title: string }[];
+  data?: Record<string, unknown>;
+};
+
+// Delivers push messages to a push service. Throws PushSubscriptionGoneError
+// when the browser has unsubscribed, and other errors when sending failed.
+export interface PushSender {
+  name: string;
+  send(target: PushTarget, message: PushMessage): Promise<void>;
+}
+
+/**
+ * Thrown when the push service no longer knows a subscription (the user
+ * revoked permission or the browser dropped it). The subscription is deleted.
+ */
+export class PushSubscriptionGoneError extends Error {
+  constructor(endpoint: string) {
+    super(`Push subscription expired: ${endpoint}`);
+    this.name = 'PushSubscriptionGoneError';
+  }
+}
@@ -0,0 +1,42 @@
+// Web Push
+// Sends encrypted messages to the browser's push service, signed with the
+// VAPID key pair in VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY.
+import webpush, { WebPushError } from 'web-push';
+import { PushSubscriptionGoneError } from './types';
+import type { PushSender } from './types';
+
+// Drop messages the push service could not deliver within a day
+const TTL_SECONDS = 24 * 60 * 60;
+
+function readVapidDetails() {
+  const publicKey = process.env.VAPID_PUBLIC_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+
+  if (!publicKey || !privateKey) {
+    throw new Error('VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY must be set to send push messages');
+  }
+
+  // Push services contact this address about problems with our messages
+  const subject = process.env.VAPID_SUBJECT || 'mailto:no-reply@localhost';
+
+  return { subject, publicKey, privateKey };
+}
+
+export const webPushSender: PushSender = {
+  name: 'webpush',
+
+  async send(target, message) {
+    try {
+      await webpush.sendNotification(
+        { endpoint: target.endpoint, keys: { p256dh: target.p256dh, auth: target.auth } },
+        JSON.stringify(message),
+        { vapidDetails: readVapidDetails(), TTL: TTL_SECONDS }
+      );
+    } catch (error) {
+      if (error instanceof WebPushError && (error.statusCode === 404 || error.statusCode === 410)) {
+        throw new PushSubscriptionGoneError(target.endpoint);
+      }
+      throw error;
+    }
+  }
+};
@@ -1,292 +1,218 @@
 import prisma from '@/lib/prisma';
 import { analyzeReceipt } from './gemini';
+import { triageToColumns } from './triage';
+import { compactQueue, completeQueuedReceipt, enqueueReceipt } from './queueEngine';
+import { deleteUnreferencedImages, loadReportPageData, splitReportUploads, storeReportPage } from './reportImages';
+import { enqueueJob } from './jobs';
+import { notifyReceiptCompleted } from './notifications';
+import type { JobHandler } from './jobs';
+import { hospitalChannel, patientChannel, publishEvent } from '@/lib/events';
+import { toLocale } from '@/lib/i18n';
 import type { Receipt } from '@/generated/prisma/client';
 
-// Helper function to extract severity from AI analysis
-function extractSeverity(aiAnalysis: string): number {
-  // Try to find the explicit severity rating pattern (Severity: X/10)
-  const severityMatch = aiAnalysis.match(/Severity:?\s*(\d+)\/10/i) || 
-                       aiAnalysis.match(/Severity Rating:?\s*(\d+)\/10/i) ||
-                       aiAnalysis.match(/Severity:?\s*(\d+)/i);
-  
-  if (severityMatch && severityMatch[1]) {
-    return parseInt(severityMatch[1], 10);
-  }
-  
-  // Fallback: Look for priority levels
-  if (aiAnalysis.toLowerCase().includes('urgent') || 
-      aiAnalysis.toLowerCase().includes('emergency') ||
-      aiAnalysis.toLowerCase().includes('critical')) {
-    return 10;
-  } else if (aiAnalysis.toLowerCase().includes('high priority')) {
-    return 7;
-  } else if (aiAnalysis.toLowerCase().includes('medium priority')) {
-    return 5;
-  } else if (aiAnalysis.toLowerCase().includes('low priority')) {
-    return 2;
-  }
-  
-  // Default case
-  return 1;
-}
-
-// Helper function to determine the appropriate doctor specialty based on patient condition
-function determineSpecialty(aiAnalysis: string): string {
-  const analysis = aiAnalysis.toLowerCase();
-  
-  // Map common conditions to specialties
-  if (analysis.includes('heart') || analysis.includes('chest pain') || analysis.includes('cardiac')) {
-    return 'Cardiology';
-  } else if (analysis.includes('brain') || analysis.includes('headache') || analysis.includes('neural') || 
-             analysis.includes('seizure') || analysis.includes('stroke')) {
-    return 'Neurology';
-  } else if (analysis.includes('bone') || analysis.includes('fracture') || analysis.includes('joint') || 
-             analysis.includes('sprain')) {
-    return 'Orthopedics';
-  } else if (analysis.includes('child') || analysis.includes('infant') || analysis.includes('pediatric')) {
-    return 'Pediatrics';
-  } else if (analysis.includes('skin') || analysis.includes('rash') || analysis.includes('acne')) {
-    return 'Dermatology';
-  } else if (analysis.includes('eye') || analysis.includes('vision') || analysis.includes('sight')) {
-    return 'Ophthalmology';
-  } else if (analysis.includes('mental') || analysis.includes('anxiety') || analysis.includes('depression')) {
-    return 'Psychiatry';
-  } else if (analysis.includes('emergency') || analysis.includes('urgent') || analysis.includes('critical')) {
-    return 'Emergency Medicine';
-  }
-  
-  // Default to general medicine
-  return 'General Medicine';
-}
-
 // Cache to store hospital queue information to reduce database queries
 const queueCache = new Map<string, { count: number, items: any[], timestamp: number }>();
 // Cache TTL in milliseconds (30 seconds)
 const CACHE_TTL = 30000;
+// Cache for user reports
+const userReportsCache = new Map<string, { reports: any[], timestamp: number }>();
 
-// Optimized upload and process a receipt with parallelization and caching
+export const REPORT_ANALYSIS_JOB = 'report.analyze';
+
+// Store an uploaded receipt and schedule its analysis. The analysis job places
+// it in the hospital queue once the AI provider has triaged it.
+// `uploads` are data URLs of images and PDFs in the order the patient arranged them.
 export async function uploadReceipt(
   userId: string,
-  base64Image: string,
+  uploads: string[],
   hospitalId: string
 ) {
   try {
-    console.log(`=== Starting receipt processing workflow ===`);
     console.log(`Processing receipt upload for user ${userId} to hospital ${hospitalId}`);
     
-    const startTime = new Date();
-    console.log(`Process started at: ${startTime.toISOString()}`);
+    // Split the upload into pages, store them and create a pending receipt record
+    const pages = await splitReportUploads(uploads);
+    console.log(`Report has ${pages.length} page(s)`);
+    const storedPages = await Promise.all(pages.map(storeReportPage));
     
-    // STEP 1: Create a pending receipt record
-    console.log("STEP 1: Creating initial pending receipt record...");
-    const receiptPromise = prisma.receipt.create({
+    const receipt = await prisma.receipt.create({
       data: {
         userId,
-        imageUrl: base64Image.slice(0, 20) + '...', // Store truncated reference or URL
+        ...storedPages[0],
         hospitalId,
-        status: 'PENDING'
-      }
+        status: 'PENDING',
+        pages: {
+          create: storedPages.map((page, position) => ({ ...page, position }))
+        }
+      },
+      include: { hospital: true }
     });
-
-    // STEP 2: Analyze the receipt using Gemini API (run in parallel with creating receipt)
-    console.log("STEP 2: Sending to Gemini API for analysis...");
-    const analysisPromise = analyzeReceipt(base64Image)
-      .catch(analysisError => {
-        console.error("Error during receipt analysis:", analysisError);
-        // Set a fallback analysis if Gemini fails
-        console.log("Using fallback analysis due to AI service error");
-        return `
-Patient Condition: Unable to determine (analysis error)
-Severity: 5/10
-Priority Level: Medium
-Recommended Actions: Please consult with medical staff for proper assessment.
-Waiting Time Impact: Unknown, please seek medical attention if condition worsens.
-Specialist Recommendation: General Medicine doctor
-Queue Information: Your position in the queue will be determined based on your priority level and current hospital capacity.
-        `;
-      });
-    
-    // STEP 3: Fetch hospital queue data (in parallel)
-    console.log("STEP 3: Gathering queue information...");
-    let queuePromise;
-    
-    // Check cache first
-    const cacheKey = `hospital_queue_${hospitalId}`;
-    const cachedQueue = queueCache.get(cacheKey);
-    const now = Date.now();
-    
-    if (cachedQueue && (now - cachedQueue.timestamp) < CACHE_TTL) {
-      console.log(`Using cached queue data from ${Math.floor((now - cachedQueue.timestamp)/1000)}s ago`);
-      queuePromise = Promise.resolve(cachedQueue);
-    } else {
-      console.log(`Cache miss or expired, fetching fresh queue data`);
-      queuePromise = Promise.all([
-        prisma.receipt.count({
-          where: {
-            hospitalId,
-            status: 'QUEUED'
-          }
-        }),
-        prisma.receipt.findMany({
-          where: {
-            hospitalId,
-            status: 'QUEUED'
-          },
-          orderBy: [
-            { severity: 'desc' },
-            { uploatedAt: 'asc' }
-          ]
-        })
-      ]).then(([count, items]) => {
-        const queueData = { count, items, timestamp: Date.now() };
-        // Update cache
-        queueCache.set(cacheKey, queueData);
-        return queueData;
-      });
-    }
-    
-    // Wait for all parallel operations to complete
-    const [receipt, analysisResult, queueData] = await Promise.all([
-      receiptPromise, 
-      analysisPromise,
-      queuePromise
-    ]);
-    
     console.log(`Created pending receipt with ID: ${receipt.id}`);
-    console.log("Successfully received analysis from Gemini");
-    console.log(`Current queue size: ${queueData.count}`);
     
-    // STEP 4: Extract severity from analysis and determine specialty
-    console.log("STEP 4: Extracting severity and specialty from analysis...");
-    const severity = extractSeverity(analysisResult);
-    console.log(`Extracted severity: ${severity}/10`);
+    await enqueueJob(REPORT_ANALYSIS_JOB, { receiptId: receipt.id }, { key: receipt.id });
+    userReportsCache.delete(`user_reports_${userId}`);
     
-    const specialty = determineSpecialty(analysisResult);
-    console.log(`Determined specialty: ${specialty}`);
-    
-    // STEP 5: Find available doctor with matching specialty (now that we have the specialty)
-    console.log(`STEP 5: Finding available doctor with specialty: ${specialty}...`);
-    const doctor = await prisma.doctor.findFirst({
+    return receipt;
+  } catch (error) {
+    console.error("Error processing receipt:", error);
+    throw error;
+  }
+}
+
+type AnalysisStatus = 'PENDING' | 'PROCESSING' | 'FAILED';
+
+// Only receipts still waiting for their analysis change status; one that was
+// queued or completed meanwhile (e.g. by an attempt thought lost) is left as
+// it is. Returns whether the status was set.
+async function setAnalysisStatus(
+  receipt: { id: string; userId: string; hospitalId: string | null },
+  status: AnalysisStatus,
+  error: string | null
+) {
+  const { count } = await prisma.receipt.updateMany({
+    where: { id: receipt.id, status: { in: ['PENDING', 'PROCESSING'] } },
+    data: { status, analysisError: error }
+  });
+
+  if (count === 0) {
+    return false;
+  }
+
+  const event = { type: 'receipt.analysis' as const, receiptId: receipt.id, status, error };
+  publishEvent(patientChannel(receipt.userId), event);
+  if (receipt.hospitalId) {
+    publishEvent(hospitalChannel(receipt.hospitalId), event);
+  }
+
+  return true;
+}
+
+// Analyse a stored receipt and place it in its hospital's queue. Throws when
+// the AI provider fails so the job is retried.
+async function analyzeStoredReceipt(receiptId: string) {
+  const receipt = await prisma.receipt.findUnique({
+    where: { id: receiptId },
+    select: { id: true, userId: true, hospitalId: true, status: true, user: { select: { language: true } } }
+  });
+  
+  // Deleted, or already analysed by an attempt that was thought lost
+  if (!receipt || !['PENDING', 'PROCESSING'].includes(receipt.status)) {
+    console.log(`Skipping analysis of receipt ${receiptId}: ${receipt ? `status is ${receipt.status}` : 'not found'}`);
+    return;
+  }
+  
+  const hospitalId: string | null = receipt.hospitalId;
+  if (!hospitalId) {
+    throw new Error("Receipt has no hospital to queue at");
+  }
+  
+  const startTime = Date.now();
+  if (!await setAnalysisStatus(receipt, 'PROCESSING', null)) {
+    console.log(`Skipping analysis of receipt ${receiptId}: no longer waiting for analysis`);
+    return;
+  }
+  
+  // STEP 1: Analyze the stored pages, counting waiting patients in parallel (used for
+  // display only; positions are assigned under a lock by the queue engine)
+  console.log("STEP 1: Sending to the AI provider for analysis...");
+  const [analysisResult, queueCount] = await Promise.all([
+    loadReportPageData(receiptId).then(pages => analyzeReceipt(pages, toLocale(receipt.user.language))),
+    prisma.receipt.count({
       where: {
         hospitalId,
-        specialty,
-        available: true
+        status: 'QUEUED'
       }
-    });
-    
-    console.log(`Assigned doctor: ${doctor?.name || 'No matching specialist available'}`);
-
-    // STEP 6: Enhance analysis with doctor and queue information
-    console.log("STEP 6: Enhancing analysis with doctor and queue information...");
-    let enhancedAnalysis = analysisResult;
-    if (!enhancedAnalysis.includes("Doctor Assigned:")) {
-      enhancedAnalysis += `\n\nDoctor Assigned: ${doctor ? doctor.name : "To be determined at the hospital"}\nSpecialty: ${doctor ? doctor.specialty : specialty}\n`;
-    }
-    if (!enhancedAnalysis.includes("Current Queue:")) {
-      enhancedAnalysis += `\nCurrent Queue: There ${queueData.count === 1 ? 'is' : 'are'} currently ${queueData.count} patient${queueData.count === 1 ? '' : 's'} in the queue.\n`;
+    })
+  ]);
+  
+  // STEP 2: Read severity and specialty from the validated triage
+  const { triage } = analysisResult;
+  const { severity, specialty } = triage;
+  console.log(`Triage severity: ${severity}/10, priority: ${triage.priority}, specialty: ${specialty}`);
+  
+  // STEP 3: Find available doctor with matching specialty
+  console.log(`STEP 3: Finding available doctor with specialty: ${specialty}...`);
+  const doctor = await prisma.doctor.findFirst({
+    where: {
+      hospitalId,
+      specialty,
+      available: true
     }
+  });
+  
+  console.log(`Assigned doctor: ${doctor?.name || 'No matching specialist available'}`);
 
-    // STEP 7: Calculate queue position
-    console.log("STEP 7: Calculating queue position...");
-    let position = 1;
-    
-    if (queueData.items.length === 0) {
-      position = 1;
-      console.log(`First in queue`);
-    } else {
-      // Find the position where this receipt's severity is lower than existing items
-      let inserted = false;
-      
-      for (let i = 0; i < queueData.items.length; i++) {
-        if (severity > (queueData.items[i].severity || 0)) {
-          position = i + 1;
-          inserted = true;
-          console.log(`Inserting at position ${position} due to higher severity`);
-          break;
-        }
-      }
-      
-      if (!inserted) {
-        // If no position found (lower severity than all), put at the end
-        position = queueData.items.length + 1;
-        console.log(`Appending to end of queue at position ${position}`);
-      }
-    }
+  // STEP 4: Enhance analysis with doctor and queue information
+  let enhancedAnalysis = analysisResult.analysis;
+  if (!enhancedAnalysis.includes("Doctor Assigned:")) {
+    enhancedAnalysis += `\n\nDoctor Assigned: ${doctor ? doctor.name : "To be determined at the hospital"}\nSpecialty: ${doctor ? doctor.specialty : specialty}\n`;
+  }
+  if (!enhancedAnalysis.includes("Current Queue:")) {
+    enhancedAnalysis += `\nCurrent Queue: There ${queueCount === 1 ? 'is' : 'are'} currently ${queueCount} patient${queueCount === 1 ? '' : 's'} in the queue.\n`;
+  }
 
-    // STEP 8 & 9: Complete the update in a single transaction for better performance
-    console.log(`STEP 8 & 9: Updating receipt and adjusting queue positions in one transaction`);
-    
-    // Prepare transaction operations
-    const operations = [];
-    
-    // Add operation to update the existing receipt
-    operations.push(
-      prisma.receipt.update({
-        where: { id: receipt.id },
-        data: {
-          aiAnalysis: enhancedAnalysis,
-          severity,
-          doctorId: doctor?.id || null,
-          queuePosition: position,
-          status: 'QUEUED',
-          processedAt: new Date()
-        },
-        include: {
-          hospital: true,
-          doctor: true,
-          user: {
-            select: {
-              id: true,
-              name: true,
-              email: true
-            }
-          }
-        }
-      })
-    );
-    
-    // Add operations to adjust positions for other queue items if needed
-    if (position <= queueData.items.length) {
-      console.log(`Adjusting positions for ${queueData.items.length - position + 1} items`);
-      
-      queueData.items
-        .filter((_: any, index: number) => index >= position - 1)
-        .forEach((item: any) => {
-          operations.push(
-            prisma.receipt.update({
-              where: { id: item.id },
-              data: { 
-                queuePosition: Number(item.queuePosition || 0) + 1 
-              }
-            })
-          );
-        });
-    }
-    
-    // Execute all database operations in a single transaction
-    const results = await prisma.$transaction(operations);
-    
-    // Get the updated receipt from the first operation
-    const finalReceipt = results[0];
-    
-    // Invalidate the cache
-    queueCache.delete(cacheKey);
-    
-    // Log total processing time
-    const endTime = new Date();
-    const processingTimeMs = endTime.getTime() - startTime.getTime();
-    console.log(`Receipt processing completed successfully in ${processingTimeMs}ms (${(processingTimeMs/1000).toFixed(2)}s)`);
-    console.log(`=== End of receipt processing workflow ===`);
-    
-    return finalReceipt;
-  } catch (error) {
-    console.error("Error processing receipt:", error);
-    throw error;
+  // STEP 5: Store the analysis and place the receipt in the queue atomically.
+  // Staff read the English analysis; the patient's is only kept when it is
+  // in another language
+  console.log("STEP 5: Storing analysis and assigning queue position...");
+  const analyses = { aiAnalysis: enhancedAnalysis, patientAnalysis: analysisResult.patientAnalysis };
+  const finalReceipt = await enqueueReceipt(receiptId, hospitalId, {
+    ...triageToColumns(triage),
+    ...analyses,
+    doctorId: doctor?.id || null,
+    processedAt: new Date()
+  });
+
+  if (!finalReceipt) {
+    console.log(`Not queueing receipt ${receiptId}: its status changed during the analysis`);
+    return;
   }
+  console.log(`Assigned queue position ${finalReceipt.queuePosition}`);
+  
+  // Invalidate the caches
+  queueCache.delete(`hospital_queue_${hospitalId}`);
+  userReportsCache.delete(`user_reports_${receipt.userId}`);
+  
+  const processingTimeMs = Date.now() - startTime;
+  console.log(`Receipt analysis completed in ${processingTimeMs}ms (${(processingTimeMs/1000).toFixed(2)}s)`);
 }
 
-// Cache for user reports
-const userReportsCache = new Map<string, { reports: any[], timestamp: number }>();
+// Runs analyses for the job worker. Between attempts the receipt goes back to
+// PENDING; after the last one it is FAILED until staff re-run it.
+export const reportAnalysisJob: JobHandler = {
+  async run(job) {
+    await analyzeStoredReceipt(String(job.payload.receiptId));
+  },
+
+  async onError(job, error, retryAt) {
+    const receipt = await prisma.receipt.findUnique({
+      where: { id: String(job.payload.receiptId) },
+      select: { id: true, userId: true, hospitalId: true }
+    });
+    if (!receipt) return;
+
+    await setAnalysisStatus(receipt, retryAt ? 'PENDING' : 'FAILED', error);
+    userReportsCache.delete(`user_reports_${receipt.userId}`);
+  }
+};
+
+// Schedule a new analysis of a receipt whose analysis failed. Returns false
+// when the receipt's analysis has not failed.
+export async function retryReceiptAnalysis(receiptId: string) {
+  const { count } = await prisma.receipt.updateMany({
+    where: { id: receiptId, status: 'FAILED' },
+    data: { status: 'PENDING' }
+  });
+  
+  if (count === 0) {
+    return false;
+  }
+  
+  await enqueueJob(REPORT_ANALYSIS_JOB, { receiptId }, { key: receiptId });
+  console.log(`Re-running analysis of receipt ${receiptId}`);
+  
+  return true;
+}
 
 // Optimized function to get user receipts with caching
 export async function getUserReceipts(userId: string) {
@@ -349,10 +275,7 @@ export async function getHospitalQueue(hospitalId: string) {
         hospitalId,
         status: 'QUEUED'
       },
-      orderBy: [
-        { severity: 'desc' },
-        { uploatedAt: 'asc' }
-      ],
+      orderBy: { queuePosition: 'asc' },
       include: {
         user: {
           select: {
@@ -385,7 +308,8 @@ export async function getHospitalQueue(hospitalId: string) {
   }
 }
 
-// Invalidate appropriate caches when completing a receipt
+// Invalidate appropriate caches when completing a receipt.
+// Returns null when the receipt is not in the queue.
 export async function completeReceipt(receiptId: string) {
   try {
     // Get the receipt to find relevant cache keys to invalidate
@@ -398,30 +322,12 @@ export async function completeReceipt(receiptId: string) {
       throw new Error("Receipt not found");
     }
     
-    // Update the receipt status
-    const updatedReceipt = await prisma.receipt.update({
-      where: { id: receiptId },
-      data: { 
-        status: 'COMPLETED'
-      },
-      include: {
-        hospital: true,
-        doctor: {
-          select: {
-            id: true,
-            name: true,
-            specialty: true
-          }
-        },
-        user: {
-          select: {
-            id: true,
-            name: true,
-            email: true
-          }
-        }
-      }
-    });
+    // Mark the receipt completed and compact the remaining queue positions
+    const updatedReceipt = await completeQueuedReceipt(receiptId);
+
+    if (!updatedReceipt) {
+      return null;
+    }
     
     // Invalidate relevant caches
     const userCacheKey = `user_reports_${receipt.userId}`;
@@ -431,10 +337,50 @@ export async function completeReceipt(receiptId: string) {
     queueCache.delete(hospitalCacheKey);
     
     console.log(`Completed receipt ${receiptId} and invalidated caches`);
+
+    await notifyReceiptCompleted(receiptId).catch(error => {
+      console.error("Error notifying patient of completed receipt:", error);
+    });
     
     return updatedReceipt;
   } catch (error) {
     console.error("Error completing receipt:", error);
     throw error;
   }
-} 
\ No newline at end of file
+}
+
+// Delete all of a user's receipts and close the gaps they leave in hospital queues
+export async function clearUserReceipts(userId: string) {
+  try {
+    const queuedReceipts = await prisma.receipt.findMany({
+      where: { userId, status: 'QUEUED' },
+      select: { hospitalId: true },
+      distinct: ['hospitalId']
+    });
+    const storedImages: { imageKey: string | null; thumbnailKey: string | null }[] = await prisma.receiptPage.findMany({
+      where: { receipt: { userId } },
+      select: { imageKey: true, thumbnailKey: true }
+    });
+    
+    const { count } = await prisma.receipt.deleteMany({
+      where: { userId }
+    });
+    
+    const hospitalIds: string[] = queuedReceipts
+      .map((item: { hospitalId: string | null }) => item.hospitalId)
+      .filter(Boolean);
+    
+    await Promise.all(hospitalIds.map(hospitalId => compactQueue(hospitalId)));
+    await deleteUnreferencedImages(storedImages.flatMap(image => [image.imageKey, image.thumbnailKey]));
+    
+    userReportsCache.delete(`user_reports_${userId}`);
+    hospitalIds.forEach(hospitalId => queueCache.delete(`hospital_queue_${hospitalId}`));
+    
+    console.log(`Cleared ${count} receipts for user ${userId}, compacted ${hospitalIds.length} queues`);
+    
+    return count;
+  } catch (error) {
+    console.error("Error clearing user receipts:", error);
+    throw error;
+  }
+}
@@ -0,0 +1,176 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { startTestDatabase } from '@/test/database';
+import type { TestDatabase } from '@/test/database';
+import { completeQueuedReceipt, enqueueReceipt, reprioritizeReceipt } from './queueEngine';
+
+vi.mock('@/lib/prisma', () => import('@/test/database'));
+
+describe('queue engine', () => {
+  let database: TestDatabase;
+  let userId: string;
+
+  beforeAll(async () => {
+    database = await startTestDatabase();
+  });
+
+  afterAll(async () => {
+    await database.stop();
+  });
+
+  beforeEach(async () => {
+    await database.reset();
+    const user = await database.prisma.user.create({ data: { email: 'patient@example.com' } });
+    userId = user.id;
+  });
+
+  async function createHospital(name: string) {
+    const hospital = await database.prisma.hospital.create({ data: { name, state: 'Maharashtra' } });
+    return hospital.id as string;
+  }
+
+  // Receipts start out as they do after upload; uploatedAt is spaced so the
+  // expected queue order is unambiguous
+  async function createReceipts(count: number, status = 'PROCESSING') {
+    const ids: string[] = [];
+    for (let i = 0; i < count; i++) {
+      const receipt = await database.prisma.receipt.create({
+        data: { userId, status, uploatedAt: new Date(Date.UTC(2025, 4, 1, 9, i)) }
+      });
+      ids.push(receipt.id);
+    }
+    return ids;
+  }
+
+  async function queue(hospitalId: string) {
+    return database.prisma.receipt.findMany({
+      where: { hospitalId, status: 'QUEUED' },
+      orderBy: { queuePosition: 'asc' },
+      select: { id: true, queuePosition: true, severity: true, uploatedAt: true }
+    }) as Promise<{ id: string; queuePosition: number | null; severity: number | null; uploatedAt: Date }[]>;
+  }
+
+  function expectContiguous(positions: (number | null)[]) {
+    expect(positions).toEqual(positions.map((_, index) => index + 1));
+  }
+
+  it('gives simultaneous enqueues unique, gap-free positions in queue order', async () => {
+    const hospitalId = await createHospital('City Hospital');
+    const receiptIds = await createReceipts(12);
+    const severities = [3, 8, 5, 8, 1, 10, 3, 7, 5, 2, 9, 3];
+
+    await Promise.all(receiptIds.map((id, i) => enqueueReceipt(id, hospitalId, { severity: severities[i] })));
+
+    const queued = await queue(hospitalId);
+    expect(queued).toHaveLength(12);
+    expectContiguous(queued.map(receipt => receipt.queuePosition));
+
+    const expectedOrder = [...queued].sort((a, b) =>
+      (b.severity ?? 0) - (a.severity ?? 0) || a.uploatedAt.getTime() - b.uploatedAt.getTime()
+    );
+    expect(queued.map(receipt => receipt.id)).toEqual(expectedOrder.map(receipt => receipt.id));
+  });
+
+  it('keeps positions contiguous under simultaneous enqueues, completions and reprioritizations', async () => {
+    const hospitalId = await createHospital('City Hospital');
+    const initial = await createReceipts(10);
+    for (const [i, id] of initial.entries()) {
+      await enqueueReceipt(id, hospitalId, { severity: i % 4 });
+    }
+    const incoming = await createReceipts(6);
+
+    const results = await Promise.all([
+      ...incoming.map((id, i) => enqueueReceipt(id, hospitalId, { severity: 10 - i })),
+      ...initial.slice(0, 4).map(id => completeQueuedReceipt(id)),
+      reprioritizeReceipt(initial[6], 9),
+      reprioritizeReceipt(initial[7], 0)
+    ]);
+    expect(results.every(Boolean)).toBe(true);
+
+    const queued = await queue(hospitalId);
+    expect(queued).toHaveLength(12);
+    expectContiguous(queued.map(receipt => receipt.queuePosition));
+
+    const completed = await database.prisma.receipt.findMany({
+      where: { id: { in: initial.slice(0, 4) } },
+      select: { status: true, queuePosition: true }
+    });
+    expect(completed).toEqual(Array(4).fill({ status: 'COMPLETED', queuePosition: null }));
+  });
+
+  it('numbers each hospital\'s queue independently', async () => {
+    const first = await createHospital('City Hospital');
+    const second = await createHospital('District Hospital');
+    const receiptIds = await createReceipts(10);
+
+    await Promise.all(receiptIds.map((id, i) => enqueueReceipt(id, i % 2 === 0 ? first : second, { severity: i })));
+
+    for (const hospitalId of [first, second]) {
+      const queued = await queue(hospitalId);
+      expect(queued).toHaveLength(5);
+      expectContiguous(queued.map(receipt => receipt.queuePosition));
+    }
+  });
+
+  it('completes a receipt only once when completions race', async () => {
+    const hospitalId = await createHospital('City Hospital');
+    const [receiptId, otherId] = await createReceipts(2);
+    await enqueueReceipt(receiptId, hospitalId, { severity: 5 });
+    await enqueueReceipt(otherId, hospitalId, { severity: 1 });
+
+    const results = await Promise.all([
+      completeQueuedReceipt(receiptId),
+      completeQueuedReceipt(receiptId),
+      completeQueuedReceipt(receiptId)
+    ]);
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+    const queued = await queue(hospitalId);
+    expect(queued.map(receipt => [receipt.id, receipt.queuePosition])).toEqual([[otherId, 1]]);
+  });
+
+  it('only queues receipts whose analysis is running', async () => {
+    const hospitalId = await createHospital('City Hospital');
+    const [completedId, pendingId] = await createReceipts(2);
+    await database.prisma.receipt.update({ where: { id: completedId }, data: { status: 'COMPLETED' } });
+    await database.prisma.receipt.update({ where: { id: pendingId }, data: { status: 'PENDING' } });
+
+    await expect(enqueueReceipt(completedId, hospitalId, { severity: 9 })).resolves.toBeNull();
+    await expect(enqueueReceipt(pendingId, hospitalId, { severity: 9 })).resolves.toBeNull();
+
+    const receipts = await database.prisma.receipt.findMany({
+      where: { id: { in: [completedId, pendingId] } },
+      orderBy: { uploatedAt: 'asc' },
+      select: { status: true, queuePosition: true, severity: true }
+    });
+    expect(receipts).toEqual([
+      { status: 'COMPLETED', queuePosition: null, severity: 0 },
+      { status: 'PENDING', queuePosition: null, severity: 0 }
+    ]);
+  });
+
+  it('queues a receipt once when two analyses of it finish together', async () => {
+    const hospitalId = await createHospital('City Hospital');
+    const [receiptId] = await createReceipts(1);
+
+    const results = await Promise.all([
+      enqueueReceipt(receiptId, hospitalId, { severity: 4 }),
+      enqueueReceipt(receiptId, hospitalId, { severity: 7 })
+    ]);
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+    const queued = await queue(hospitalId);
+    expect(queued.map(receipt => receipt.queuePosition)).toEqual([1]);
+  });
+
+  it('does not complete a receipt that is not queued', async () => {
+    const hospitalId = await createHospital('City Hospital');
+    const [pendingId] = await createReceipts(1, 'PENDING');
+    await database.prisma.receipt.update({ where: { id: pendingId }, data: { hospitalId } });
+
+    await expect(completeQueuedReceipt(pendingId)).resolves.toBeNull();
+
+    const receipt = await database.prisma.receipt.findUnique({ where: { id: pendingId } });
+    expect(receipt.status).toBe('PENDING');
+    expect(receipt.completedAt).toBeNull();
+  });
+});
@@ -0,0 +1,255 @@
+// Queue position engine
+// Assigns, reorders and compacts receipt queue positions per hospital. Every
+// mutation runs in a transaction that first locks the hospital row, so
+// concurrent uploads and completions for the same hospital are serialized and
+// positions always form a gap-free 1..N sequence.
+import prisma from '@/lib/prisma';
+import { hospitalChannel, patientChannel, publishEvent } from '@/lib/events';
+import type { QueuePositionChange } from '@/lib/events';
+import type { Prisma } from '@/generated/prisma/client';
+
+// Relations returned with every receipt the engine writes
+const receiptInclude = {
+  hospital: true,
+  doctor: true,
+  user: {
+    select: {
+      id: true,
+      name: true,
+      email: true
+    }
+  }
+};
+
+// Interactive transaction options: uploads can queue behind each other on the lock
+const TRANSACTION_OPTIONS = {
+  maxWait: 10000, // 10 seconds to obtain a connection
+  timeout: 15000 // 15 seconds for the locked section
+};
+
+/**
+ * Locks the hospital row for the rest of the transaction.
+ * Every queue mutation for a hospital takes this lock first.
+ */
+async function lockHospitalQueue(tx: Prisma.TransactionClient, hospitalId: string) {
+  const locked = await tx.$queryRaw<{ id: string }[]>`
+    SELECT id FROM "Hospital" WHERE id = ${hospitalId} FOR UPDATE
+  `;
+
+  if (locked.length === 0) {
+    throw new Error(`Hospital not found: ${hospitalId}`);
+  }
+}
+
+/**
+ * Rewrites queue positions for a hospital so they follow the queue ordering
+ * (severity high to low, then upload time, then id as a stable tie-breaker).
+ * Only rows whose position actually changes are written; those are returned.
+ */
+async function renumberQueue(tx: Prisma.TransactionClient, hospitalId: string): Promise<QueuePositionChange[]> {
+  return tx.$queryRaw<QueuePositionChange[]>`
+    UPDATE "Receipt" AS r
+    SET "queuePosition" = ordered.position
+    FROM (
+      SELECT id, ROW_NUMBER() OVER (
+        ORDER BY COALESCE(severity, 0) DESC, "uploatedAt" ASC, id ASC
+      )::int AS position
+      FROM "Receipt"
+      WHERE "hospitalId" = ${hospitalId} AND status = 'QUEUED'
+    ) AS ordered
+    WHERE r.id = ordered.id AND r."queuePosition" IS DISTINCT FROM ordered.position
+    RETURNING r.id AS "receiptId", r."userId", r."queuePosition"
+  `;
+}
+
+/**
+ * Notifies the hospital and every affected patient about moved positions.
+ * Called only after the transaction has committed.
+ */
+function publishQueueChanges(hospitalId: string, positions: QueuePositionChange[]) {
+  if (positions.length === 0) return;
+
+  publishEvent(hospitalChannel(hospitalId), { type: 'queue.updated', hospitalId, positions });
+
+  positions.forEach(({ receiptId, userId, queuePosition }) => {
+    publishEvent(patientChannel(userId), { type: 'queue.position', receiptId, queuePosition });
+  });
+}
+
+/**
+ * Places a receipt whose analysis is running in its hospital's queue.
+ * `data` is applied to the receipt in the same transaction (analysis, doctor, ...).
+ * Returns null, changing nothing, when the receipt is no longer PROCESSING
+ * (deleted, completed, or queued by another attempt meanwhile).
+ */
+export async function enqueueReceipt(
+  receiptId: string,
+  hospitalId: string,
+  data: Prisma.ReceiptUncheckedUpdateManyInput
+) {
+  const result = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    await lockHospitalQueue(tx, hospitalId);
+
+    // The status check is part of the write, like in completeQueuedReceipt
+    const { count } = await tx.receipt.updateMany({
+      where: { id: receiptId, status: 'PROCESSING' },
+      data: {
+        ...data,
+        hospitalId,
+        status: 'QUEUED'
+      }
+    });
+
+    if (count === 0) {
+      return null;
+    }
+
+    const positions = await renumberQueue(tx, hospitalId);
+    console.log(`Queued receipt ${receiptId} at hospital ${hospitalId} (${positions.length} positions updated)`);
+
+    const receipt = await tx.receipt.findUniqueOrThrow({
+      where: { id: receiptId },
+      include: receiptInclude
+    });
+
+    return { receipt, positions };
+  }, TRANSACTION_OPTIONS);
+
+  if (!result) {
+    return null;
+  }
+
+  const { receipt, positions } = result;
+  publishQueueChanges(hospitalId, positions);
+  publishEvent(patientChannel(receipt.userId), {
+    type: 'doctor.assigned',
+    receiptId,
+    doctor: receipt.doctor
+      ? { id: receipt.doctor.id, name: receipt.doctor.name, specialty: receipt.doctor.specialty }
+      : null
+  });
+
+  return receipt;
+}
+
+/**
+ * Removes a receipt from its hospital's queue by marking it completed,
+ * then closes the gap it leaves behind.
+ * Returns null when the receipt is not queued (pending, processing or
+ * already completed); nothing is changed in that case.
+ */
+export async function completeQueuedReceipt(receiptId: string) {
+  const result = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const receipt = await tx.receipt.findUnique({
+      where: { id: receiptId },
+      select: { hospitalId: true }
+    });
+
+    if (!receipt) {
+      throw new Error("Receipt not found");
+    }
+
+    if (receipt.hospitalId) {
+      await lockHospitalQueue(tx, receipt.hospitalId);
+    }
+
+    // The status check is part of the write, so a receipt completed (or not
+    // yet queued) by the time we hold the lock is left untouched.
+    // completedAt feeds the wait time estimator (services/waitTime)
+    const updated = await tx.$executeRaw`
+      UPDATE "Receipt"
+      SET status = 'COMPLETED', "queuePosition" = NULL, "completedAt" = NOW(), "updatedAt" = NOW()
+      WHERE id = ${receiptId} AND status = 'QUEUED'
+    `;
+
+    if (updated === 0) {
+      return null;
+    }
+
+    const positions = receipt.hospitalId ? await renumberQueue(tx, receipt.hospitalId) : [];
+
+    const completed = await tx.receipt.findUniqueOrThrow({
+      where: { id: receiptId },
+      include: receiptInclude
+    });
+
+    return { receipt: completed, positions };
+  }, TRANSACTION_OPTIONS);
+
+  if (!result) {
+    return null;
+  }
+
+  const { receipt, positions } = result;
+  const completedEvent = { type: 'receipt.completed' as const, receiptId, hospitalId: receipt.hospitalId };
+  publishEvent(patientChannel(receipt.userId), completedEvent);
+
+  if (receipt.hospitalId) {
+    publishEvent(hospitalChannel(receipt.hospitalId), completedEvent);
+    publishQueueChanges(receipt.hospitalId, positions);
+  }
+
+  return receipt;
+}
+
+/**
+ * Changes a queued receipt's severity and moves it to its new position
+ */
+export async function reprioritizeReceipt(receiptId: string, severity: number) {
+  const { receipt, positions } = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const receipt = await tx.receipt.findUnique({
+      where: { id: receiptId },
+      select: { hospitalId: true }
+    });
+
+    if (!receipt || !receipt.hospitalId) {
+      throw new Error("Receipt not found");
+    }
+
+    await lockHospitalQueue(tx, receipt.hospitalId);
+
+    // Re-read the status under the lock; it may have been completed meanwhile
+    const current = await tx.receipt.findUniqueOrThrow({
+      where: { id: receiptId },
+      select: { status: true }
+    });
+
+    if (current.status !== 'QUEUED') {
+      throw new Error("Only queued receipts can be reprioritized");
+    }
+
+    await tx.receipt.update({
+      where: { id: receiptId },
+      data: { severity }
+    });
+
+    const positions = await renumberQueue(tx, receipt.hospitalId);
+
+    const updated = await tx.receipt.findUniqueOrThrow({
+      where: { id: receiptId },
+      include: receiptInclude
+    });
+
+    return { receipt: updated, positions };
+  }, TRANSACTION_OPTIONS);
+
+  if (receipt.hospitalId) {
+    publishQueueChanges(receipt.hospitalId, positions);
+  }
+
+  return receipt;
+}
+
+/**
+ * Closes any gaps in a hospital's queue, e.g. after receipts were deleted
+ */
+export async function compactQueue(hospitalId: string) {
+  const positions = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    await lockHospitalQueue(tx, hospitalId);
+    return renumberQueue(tx, hospitalId);
+  }, TRANSACTION_OPTIONS);
+
+  publishQueueChanges(hospitalId, positions);
+
+  return positions.length;
+}
@@ -0,0 +1,167 @@
+// Red-flag chat messages
+// Logs every chat message that raised emergency red flags, links the
+// emergency alert the patient sent from the chat to it, and lists the cases
+// for clinical review.
+import prisma from '@/lib/prisma';
+import type { PermissionUser } from '@/lib/permissions';
+import { redFlagLabels } from '@/lib/redFlags';
+
+export const RED_FLAG_PAGE_SIZE = 50;
+
+export type RedFlagFilters = {
+  // Only reviewed cases, or only those still waiting
+  reviewed?: boolean;
+};
+
+type RedFlagEventRow = {
+  id: string;
+  userId: string | null;
+  sessionId: string | null;
+  message: string;
+  flags: string[];
+  alertId: string | null;
+  reviewedAt: Date | null;
+  reviewedById: string | null;
+  reviewNote: string | null;
+  createdAt: Date;
+};
+
+/**
+ * Logs a message that raised red flags. Returns the case's id, or null when
+ * it could not be logged; a failed log never stops the emergency card.
+ */
+export async function recordRedFlagEvent(event: {
+  userId: string | null;
+  sessionId: string | null;
+  message: string;
+  flags: string[];
+}) {
+  try {
+    const { id } = await prisma.redFlagEvent.create({ data: event, select: { id: true } });
+    console.log(`🚩 Red flags ${event.flags.join(', ')} in a chat message from ${event.userId || 'an anonymous user'} (${id})`);
+    return id as string;
+  } catch (error) {
+    console.error('❌ Failed to log red-flag chat message:', error);
+    return null;
+  }
+}
+
+/**
+ * The hospital a one-tap alert from the chat goes to: the one of the
+ * patient's latest appointment, if it is in their state. Null leaves the
+ * choice to the alert, which picks the nearest hospital.
+ */
+export async function suggestedAlertHospital(userId: string, state: string | null | undefined) {
+  if (!state) return null;
+
+  const appointment: { hospital: { id: string; name: string } } | null = await prisma.appointment.findFirst({
+    where: { userId, hospital: { state } },
+    orderBy: { createdAt: 'desc' },
+    select: { hospital: { select: { id: true, name: true } } }
+  });
+
+  return appointment?.hospital || null;
+}
+
+/**
+ * A case the patient may still send an alert for, with the labels of its
+ * red flags, or null when it is not theirs or already has one
+ */
+export async function getOpenRedFlagEvent(eventId: string, userId: string) {
+  const event: { id: string; flags: string[] } | null = await prisma.redFlagEvent.findFirst({
+    where: { id: eventId, userId, alertId: null },
+    select: { id: true, flags: true }
+  });
+
+  return event && { id: event.id, labels: redFlagLabels(event.flags) };
+}
+
+export async function linkRedFlagAlert(eventId: string, alertId: string) {
+  await prisma.redFlagEvent.update({ where: { id: eventId }, data: { alertId } });
+}
+
+// Adds the names of patients and reviewers and the status of any alert
+async function describeEvents(events: RedFlagEventRow[]) {
+  const userIds = [...new Set(events.flatMap(event => [event.userId, event.reviewedById]).filter((id): id is string => Boolean(id)))];
+  const alertIds = events.map(event => event.alertId).filter((id): id is string => Boolean(id));
+
+  const [users, alerts]: [
+    { id: string; name: string | null; email: string | null }[],
+    { id: string; status: string; hospital: { name: string } }[]
+  ] = await Promise.all([
+    userIds.length > 0
+      ? prisma.user.findMany({ where: { id: { in: userIds } }, select: { id: true, name: true, email: true } })
+      : [],
+    alertIds.length > 0
+      ? prisma.emergencyAlert.findMany({
+        where: { id: { in: alertIds } },
+        select: { id: true, status: true, hospital: { select: { name: true } } }
+      })
+      : []
+  ]);
+  const usersById = new Map(users.map(user => [user.id, user]));
+  const alertsById = new Map(alerts.map(alert => [alert.id, alert]));
+
+  const userName = (id: string | null) => {
+    if (!id) return null;
+    const user = usersById.get(id);
+    return user?.name || user?.email || 'Deleted user';
+  };
+
+  return events.map(event => {
+    const alert = event.alertId ? alertsById.get(event.alertId) : undefined;
+
+    return {
+      ...event,
+      labels: redFlagLabels(event.flags),
+      userName: userName(event.userId),
+      reviewedByName: userName(event.reviewedById),
+      alert: alert ? { id: alert.id, status: alert.status, hospitalName: alert.hospital.name } : null
+    };
+  });
+}
+
+/**
+ * Lists red-flag cases matching the filters, newest first
+ */
+export async function listRedFlagEvents(filters: RedFlagFilters, page = 1) {
+  const where = filters.reviewed === undefined
+    ? {}
+    : { reviewedAt: filters.reviewed ? { not: null } : null };
+
+  const [total, events]: [number, RedFlagEventRow[]] = await Promise.all([
+    prisma.redFlagEvent.count({ where }),
+    prisma.redFlagEvent.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * RED_FLAG_PAGE_SIZE,
+      take: RED_FLAG_PAGE_SIZE
+    })
+  ]);
+
+  return {
+    events: await describeEvents(events),
+    pagination: {
+      total,
+      page,
+      limit: RED_FLAG_PAGE_SIZE,
+      pages: Math.ceil(total / RED_FLAG_PAGE_SIZE)
+    }
+  };
+}
+
+/**
+ * Marks a case reviewed by `reviewer`, with an optional note. Returns null
+ * when it does not exist.
+ */
+export async function reviewRedFlagEvent(eventId: string, reviewer: PermissionUser, note?: string) {
+  const { count } = await prisma.redFlagEvent.updateMany({
+    where: { id: eventId },
+    data: { reviewedAt: new Date(), reviewedById: reviewer.id, reviewNote: note || null }
+  });
+
+  if (count === 0) return null;
+
+  const [event] = await describeEvents([await prisma.redFlagEvent.findUnique({ where: { id: eventId } })]);
+  return event;
+}
@@ -0,0 +1,230 @@
+// Report images
+// Splits uploaded reports into pages and stores each page in blob storage
+// under a content-addressed key (the SHA-256 of the page), with a small WebP
+// thumbnail for image pages.
+import { createHash } from 'crypto';
+import sharp from 'sharp';
+import { PDFDocument } from 'pdf-lib';
+import prisma from '@/lib/prisma';
+import { getStorage } from './storage';
+import type { ReportPageData } from './providers';
+
+export type StoredReportImage = {
+  imageKey: string;
+  thumbnailKey: string | null;
+  imageType: string;
+};
+
+// One page of a report: an image or a single-page PDF
+export type ReportPage = {
+  data: Buffer;
+  contentType: string;
+};
+
+// How long a signed view URL stays valid
+export const VIEW_URL_TTL_SECONDS = 5 * 60;
+
+// Pages per report, after PDFs are split
+export const MAX_REPORT_PAGES = 20;
+
+const THUMBNAIL_SIZE = 320;
+
+const PDF_TYPE = 'application/pdf';
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/heic': 'heic',
+  [PDF_TYPE]: 'pdf'
+};
+
+/**
+ * Thrown when an upload is not a supported image or PDF, or has too many
+ * pages. Routes answer these with 400.
+ */
+export class InvalidReportUploadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidReportUploadError';
+  }
+}
+
+// Splits a data URL into its bytes and content type. Bare base64 is treated
+// as JPEG, as the AI providers do.
+function decodeUpload(upload: string): ReportPage {
+  const match = upload.match(/^data:([\w.+/-]+);base64,([\s\S]*)$/);
+  const contentType = (match?.[1] || 'image/jpeg').toLowerCase().replace('image/jpg', 'image/jpeg');
+  const data = Buffer.from(match ? match[2] : upload, 'base64');
+
+  return { data, contentType };
+}
+
+// One single-page PDF per page of the document, in order
+async function splitPdf(data: Buffer): Promise<ReportPage[]> {
+  let source: PDFDocument;
+  try {
+    source = await PDFDocument.load(data, { ignoreEncryption: true });
+  } catch {
+    throw new InvalidReportUploadError('A PDF could not be read. It may be damaged or password protected.');
+  }
+
+  const pageCount = source.getPageCount();
+  if (pageCount > MAX_REPORT_PAGES) {
+    throw new InvalidReportUploadError(`A report can have at most ${MAX_REPORT_PAGES} pages`);
+  }
+
+  const pages: ReportPage[] = [];
+  for (let index = 0; index < pageCount; index++) {
+    const single = await PDFDocument.create();
+    const [page] = await single.copyPages(source, [index]);
+    single.addPage(page);
+    pages.push({ data: Buffer.from(await single.save()), contentType: PDF_TYPE });
+  }
+
+  return pages;
+}
+
+/**
+ * Turns uploaded files (data URLs, in the order the patient arranged them)
+ * into the report's pages. PDFs are split into one page each.
+ */
+export async function splitReportUploads(uploads: string[]): Promise<ReportPage[]> {
+  const pages: ReportPage[] = [];
+
+  for (const upload of uploads) {
+    const file = decodeUpload(upload);
+
+    if (file.data.length === 0) {
+      throw new InvalidReportUploadError('One of the uploaded files is empty');
+    }
+    if (!EXTENSIONS[file.contentType]) {
+      throw new InvalidReportUploadError(`Unsupported file type ${file.contentType}. Upload JPG, PNG, WebP, HEIC or PDF files.`);
+    }
+
+    pages.push(...(file.contentType === PDF_TYPE ? await splitPdf(file.data) : [file]));
+
+    if (pages.length > MAX_REPORT_PAGES) {
+      throw new InvalidReportUploadError(`A report can have at most ${MAX_REPORT_PAGES} pages`);
+    }
+  }
+
+  if (pages.length === 0) {
+    throw new InvalidReportUploadError('Medical report image is required');
+  }
+
+  return pages;
+}
+
+async function createThumbnail(data: Buffer) {
+  return sharp(data)
+    .rotate()
+    .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+    .webp({ quality: 70 })
+    .toBuffer();
+}
+
+/**
+ * Stores a report page and, for images, its thumbnail. The same page
+ * uploaded twice is only stored once. Images sharp cannot read get no
+ * thumbnail.
+ */
+export async function storeReportPage(page: ReportPage): Promise<StoredReportImage> {
+  const storage = getStorage();
+  const { data, contentType } = page;
+
+  const hash = createHash('sha256').update(data).digest('hex');
+  const imageKey = `reports/${hash}.${EXTENSIONS[contentType] || 'bin'}`;
+  const thumbnailKey = `thumbnails/${hash}.webp`;
+
+  if (!(await storage.exists(imageKey))) {
+    await storage.put(imageKey, data, contentType);
+    console.log(`📦 Stored report page ${imageKey} (${data.length} bytes) with ${storage.name} storage`);
+  }
+
+  if (contentType === PDF_TYPE) {
+    return { imageKey, thumbnailKey: null, imageType: contentType };
+  }
+
+  if (await storage.exists(thumbnailKey)) {
+    return { imageKey, thumbnailKey, imageType: contentType };
+  }
+
+  try {
+    await storage.put(thumbnailKey, await createThumbnail(data), 'image/webp');
+    return { imageKey, thumbnailKey, imageType: contentType };
+  } catch (error) {
+    console.warn(`⚠️ Could not create a thumbnail for ${imageKey}:`, error);
+    return { imageKey, thumbnailKey: null, imageType: contentType };
+  }
+}
+
+/**
+ * Pages of a report in reading order, without their storage keys
+ */
+export async function listReportPages(receiptId: string) {
+  const pages: { position: number; imageType: string; thumbnailKey: string | null }[] = await prisma.receiptPage.findMany({
+    where: { receiptId },
+    orderBy: { position: 'asc' },
+    select: { position: true, imageType: true, thumbnailKey: true }
+  });
+
+  return pages.map(page => ({ position: page.position, imageType: page.imageType, hasPreview: Boolean(page.thumbnailKey) }));
+}
+
+/**
+ * Reads a report's pages back from storage, in reading order, for analysis
+ */
+export async function loadReportPageData(receiptId: string): Promise<ReportPageData[]> {
+  const storage = getStorage();
+  const pages: { position: number; imageKey: string; imageType: string }[] = await prisma.receiptPage.findMany({
+    where: { receiptId },
+    orderBy: { position: 'asc' },
+    select: { position: true, imageKey: true, imageType: true }
+  });
+
+  return Promise.all(pages.map(async page => {
+    const stored = await storage.get(page.imageKey);
+    if (!stored) {
+      throw new Error(`Page ${page.position + 1} of report ${receiptId} is missing from storage`);
+    }
+    return { mimeType: page.imageType, base64: stored.data.toString('base64') };
+  }));
+}
+
+/**
+ * Short-lived URL for viewing a stored image. Callers must check the viewer
+ * may see the report first.
+ */
+export function reportImageUrl(key: string) {
+  return getStorage().signedUrl(key, VIEW_URL_TTL_SECONDS);
+}
+
+/**
+ * Deletes images that no remaining report page refers to. Identical pages are
+ * shared between reports, so keys still in use are kept.
+ */
+export async function deleteUnreferencedImages(keys: (string | null)[]) {
+  const candidates = [...new Set(keys.filter((key): key is string => Boolean(key)))];
+  if (candidates.length === 0) return;
+
+  const where = {
+    OR: [{ imageKey: { in: candidates } }, { thumbnailKey: { in: candidates } }]
+  };
+  const select = { imageKey: true, thumbnailKey: true };
+
+  const [receipts, pages]: { imageKey: string | null; thumbnailKey: string | null }[][] = await Promise.all([
+    prisma.receipt.findMany({ where, select }),
+    prisma.receiptPage.findMany({ where, select })
+  ]);
+  const usedKeys = new Set([...receipts, ...pages].flatMap(item => [item.imageKey, item.thumbnailKey]));
+
+  const storage = getStorage();
+  const unused = candidates.filter(key => !usedKeys.has(key));
+
+  await Promise.all(unused.map(key => storage.delete(key).catch(error => {
+    console.error(`❌ Failed to delete stored image ${key}:`, error);
+  })));
+
+  console.log(`🗑️ Deleted ${unused.length} unreferenced report images`);
+}
@@ -0,0 +1,131 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { startTestDatabase } from '@/test/database';
+import type { TestDatabase } from '@/test/database';
+import { addDays, toLocalDate } from '@/lib/localTime';
+import {
+  createAppointmentInSlot,
+  findFirstOpenSlot,
+  getOpenSlots,
+  getScheduleBoard,
+  scheduleAppointment,
+  SlotUnavailableError,
+  updateDoctorSchedule
+} from './scheduling';
+
+vi.mock('@/lib/prisma', () => import('@/test/database'));
+
+describe('scheduling', () => {
+  let database: TestDatabase;
+  let userId: string;
+  let hospitalId: string;
+  let otherHospitalId: string;
+
+  beforeAll(async () => {
+    database = await startTestDatabase();
+  });
+
+  afterAll(async () => {
+    await database.stop();
+  });
+
+  beforeEach(async () => {
+    await database.reset();
+    userId = (await database.prisma.user.create({ data: { email: 'patient@example.com' } })).id;
+    hospitalId = (await database.prisma.hospital.create({ data: { name: 'City Hospital', state: 'Maharashtra' } })).id;
+    otherHospitalId = (await database.prisma.hospital.create({ data: { name: 'District Hospital', state: 'Kerala' } })).id;
+  });
+
+  // A doctor who works 9:00-17:00 every day
+  async function createDoctor(atHospitalId: string) {
+    return database.prisma.doctor.create({
+      data: {
+        name: 'Dr. Rao',
+        specialty: 'General Medicine',
+        hospitalId: atHospitalId,
+        shifts: {
+          create: [0, 1, 2, 3, 4, 5, 6].map(dayOfWeek => ({ dayOfWeek, startMinute: 9 * 60, endMinute: 17 * 60 }))
+        }
+      }
+    }) as Promise<{ id: string }>;
+  }
+
+  async function createAppointment() {
+    return database.prisma.appointment.create({
+      data: { userId, hospitalId, symptoms: 'Fever', preferredDate: new Date() }
+    }) as Promise<{ id: string }>;
+  }
+
+  async function nextSlot(doctor: { id: string }, atHospitalId: string) {
+    const slot = await findFirstOpenSlot(atHospitalId, doctor.id, new Date(Date.now() + 24 * 60 * 60 * 1000));
+    expect(slot).not.toBeNull();
+    return slot as Date;
+  }
+
+  it('moves an appointment to a doctor of its hospital', async () => {
+    const doctor = await createDoctor(hospitalId);
+    const appointment = await createAppointment();
+    const slot = await nextSlot(doctor, hospitalId);
+
+    const scheduled = await scheduleAppointment(appointment.id, doctor.id, slot);
+
+    expect(scheduled.doctorId).toBe(doctor.id);
+    expect(scheduled.scheduledDate).toEqual(slot);
+  });
+
+  it('refuses to move an appointment to another hospital\'s doctor', async () => {
+    const otherDoctor = await createDoctor(otherHospitalId);
+    const appointment = await createAppointment();
+    const slot = await nextSlot(otherDoctor, otherHospitalId);
+
+    await expect(scheduleAppointment(appointment.id, otherDoctor.id, slot)).rejects.toThrow(SlotUnavailableError);
+
+    const unchanged = await database.prisma.appointment.findUnique({ where: { id: appointment.id } });
+    expect(unchanged.doctorId).toBeNull();
+    expect(unchanged.scheduledDate).toBeNull();
+  });
+
+  it('refuses to book a new appointment with another hospital\'s doctor', async () => {
+    const otherDoctor = await createDoctor(otherHospitalId);
+    const slot = await nextSlot(otherDoctor, otherHospitalId);
+
+    await expect(createAppointmentInSlot(
+      { userId, hospitalId, symptoms: 'Fever', preferredDate: new Date() },
+      otherDoctor.id,
+      slot
+    )).rejects.toThrow('The selected doctor does not work at this hospital');
+
+    expect(await database.prisma.appointment.count()).toBe(0);
+  });
+
+  it('keeps counting a booking against the slots it overlaps after the slot length changes', async () => {
+    const doctor = await createDoctor(hospitalId);
+    const date = addDays(toLocalDate(new Date()), 2);
+    const [{ slots: quarterHours }] = await getOpenSlots(hospitalId, date, { doctorId: doctor.id });
+    const nineFifteen = new Date(quarterHours[1].start);
+    await createAppointmentInSlot(
+      { userId, hospitalId, symptoms: 'Fever', preferredDate: new Date() },
+      doctor.id,
+      nineFifteen
+    );
+
+    await updateDoctorSchedule(doctor.id, {
+      slotMinutes: 20,
+      slotCapacity: 1,
+      shifts: [0, 1, 2, 3, 4, 5, 6].map(dayOfWeek => ({ dayOfWeek, startMinute: 9 * 60, endMinute: 17 * 60 }))
+    });
+
+    // 9:15-9:30 overlaps both 9:00-9:20 and 9:20-9:40
+    const nine = new Date(quarterHours[0].start);
+    const [{ slots }] = await getOpenSlots(hospitalId, date, { doctorId: doctor.id });
+    expect(new Date(slots[0].start)).toEqual(new Date(nine.getTime() + 40 * 60 * 1000));
+    await expect(createAppointmentInSlot(
+      { userId, hospitalId, symptoms: 'Cough', preferredDate: new Date() },
+      doctor.id,
+      nine
+    )).rejects.toThrow('This slot is already fully booked');
+
+    const [{ slots: board }] = await getScheduleBoard(hospitalId, date);
+    expect(board.slice(0, 3).map(slot => [slot.booked, slot.appointments.length])).toEqual([[1, 1], [1, 0], [0, 0]]);
+    expect(board[0].appointments[0].scheduledDate).toEqual(nineFifteen);
+  });
+});
@@ -0,0 +1,469 @@
+// Doctor scheduling
+// Turns each doctor's weekly shifts, leave and slot settings into bookable
+// appointment slots, and books them without ever exceeding a slot's capacity.
+//
+// Shift times are wall-clock times in the hospital's time zone; slot starts are
+// stored as UTC instants in Appointment.scheduledDate.
+import prisma from '@/lib/prisma';
+import { addDays, localDayOfWeek, localTimeToDate, MINUTE_MS, toLocalDate } from '@/lib/localTime';
+import type { AppointmentStatus, Prisma } from '@/generated/prisma/client';
+
+// Appointments in these states hold their slot
+const ACTIVE_STATUSES: AppointmentStatus[] = ['PENDING', 'CONFIRMED'];
+
+// How far ahead to look when a slot has to be picked automatically
+const AUTO_SCHEDULE_DAYS = 14;
+
+// Interactive transaction options, matching the queue engine
+const TRANSACTION_OPTIONS = {
+  maxWait: 10000,
+  timeout: 15000
+};
+
+/**
+ * Thrown when a requested slot cannot be booked (outside working hours, on
+ * leave, in the past or already full). Routes answer these with 409.
+ */
+export class SlotUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SlotUnavailableError';
+  }
+}
+
+export type ShiftInput = {
+  dayOfWeek: number;
+  startMinute: number;
+  endMinute: number;
+};
+
+type ScheduledDoctor = {
+  id: string;
+  name: string;
+  specialty: string;
+  slotMinutes: number;
+  slotCapacity: number;
+  shifts: ShiftInput[];
+  leaves: { startsAt: Date; endsAt: Date }[];
+};
+
+type BookedAppointment = {
+  id: string;
+  doctorId: string | null;
+  scheduledDate: Date | null;
+  slotEnd: Date | null;
+  status: string;
+  severity: number | null;
+  user: { id: string; name: string | null } | null;
+};
+
+export type Slot = {
+  start: string;
+  end: string;
+  capacity: number;
+  booked: number;
+  remaining: number;
+};
+
+export type DoctorSlots = {
+  doctor: { id: string; name: string; specialty: string; slotMinutes: number; slotCapacity: number };
+  slots: Slot[];
+};
+
+export type BoardSlot = Slot & {
+  appointments: BookedAppointment[];
+};
+
+/**
+ * Lists the slot grid of a doctor for one local date, skipping leave.
+ * Capacity and bookings are filled in by the callers.
+ */
+function doctorSlotTimes(doctor: ScheduledDoctor, date: string) {
+  const dayOfWeek = localDayOfWeek(date);
+  const slotMs = doctor.slotMinutes * MINUTE_MS;
+
+  return doctor.shifts
+    .filter(shift => shift.dayOfWeek === dayOfWeek)
+    .sort((a, b) => a.startMinute - b.startMinute)
+    .flatMap(shift => {
+      const times: { start: Date; end: Date }[] = [];
+      for (let minute = shift.startMinute; minute + doctor.slotMinutes <= shift.endMinute; minute += doctor.slotMinutes) {
+        const start = localTimeToDate(date, minute);
+        times.push({ start, end: new Date(start.getTime() + slotMs) });
+      }
+      return times;
+    })
+    .filter(({ start, end }) =>
+      !doctor.leaves.some(leave => leave.startsAt < end && leave.endsAt > start)
+    );
+}
+
+function localDayBounds(date: string) {
+  return { dayStart: localTimeToDate(date, 0), dayEnd: localTimeToDate(addDays(date, 1), 0) };
+}
+
+/**
+ * Loads doctors with their shifts for the date's weekday and any leave
+ * overlapping the date, plus the appointments already holding slots that day
+ */
+async function loadDay(where: Record<string, unknown>, date: string) {
+  const { dayStart, dayEnd } = localDayBounds(date);
+
+  const doctors: ScheduledDoctor[] = await prisma.doctor.findMany({
+    where,
+    select: {
+      id: true,
+      name: true,
+      specialty: true,
+      slotMinutes: true,
+      slotCapacity: true,
+      shifts: {
+        where: { dayOfWeek: localDayOfWeek(date) },
+        select: { dayOfWeek: true, startMinute: true, endMinute: true }
+      },
+      leaves: {
+        where: { startsAt: { lt: dayEnd }, endsAt: { gt: dayStart } },
+        select: { startsAt: true, endsAt: true }
+      }
+    },
+    orderBy: [{ specialty: 'asc' }, { name: 'asc' }]
+  });
+
+  const appointments: BookedAppointment[] = doctors.length === 0 ? [] : await prisma.appointment.findMany({
+    where: {
+      doctorId: { in: doctors.map(doctor => doctor.id) },
+      status: { in: ACTIVE_STATUSES },
+      scheduledDate: { gte: dayStart, lt: dayEnd }
+    },
+    select: {
+      id: true,
+      doctorId: true,
+      scheduledDate: true,
+      slotEnd: true,
+      status: true,
+      severity: true,
+      user: { select: { id: true, name: true } }
+    }
+  });
+
+  return { doctors, appointments };
+}
+
+/**
+ * The appointments of a doctor that overlap a slot. Bookings made under an
+ * earlier slot length keep their own times, so they are matched by overlap
+ * rather than by start time. Bookings without an end last one slot.
+ */
+function overlappingBookings(
+  doctor: ScheduledDoctor,
+  appointments: BookedAppointment[],
+  start: Date,
+  end: Date
+) {
+  return appointments.filter(appointment => {
+    if (appointment.doctorId !== doctor.id || !appointment.scheduledDate) return false;
+    const bookedStart = new Date(appointment.scheduledDate);
+    const bookedEnd = appointment.slotEnd
+      ? new Date(appointment.slotEnd)
+      : new Date(bookedStart.getTime() + doctor.slotMinutes * MINUTE_MS);
+    return bookedStart < end && bookedEnd > start;
+  });
+}
+
+function toSlot(doctor: ScheduledDoctor, start: Date, end: Date, booked: number): Slot {
+  return {
+    start: start.toISOString(),
+    end: end.toISOString(),
+    capacity: doctor.slotCapacity,
+    booked,
+    remaining: Math.max(doctor.slotCapacity - booked, 0)
+  };
+}
+
+function doctorSummary(doctor: ScheduledDoctor) {
+  return {
+    id: doctor.id,
+    name: doctor.name,
+    specialty: doctor.specialty,
+    slotMinutes: doctor.slotMinutes,
+    slotCapacity: doctor.slotCapacity
+  };
+}
+
+/**
+ * Lists the slots patients can still book at a hospital on a local date
+ */
+export async function getOpenSlots(
+  hospitalId: string,
+  date: string,
+  filters: { doctorId?: string; specialty?: string } = {}
+): Promise<DoctorSlots[]> {
+  const { doctors, appointments } = await loadDay({
+    hospitalId,
+    ...(filters.doctorId && { id: filters.doctorId }),
+    ...(filters.specialty && { specialty: filters.specialty })
+  }, date);
+
+  const now = new Date();
+
+  return doctors
+    .map(doctor => ({
+      doctor: doctorSummary(doctor),
+      slots: doctorSlotTimes(doctor, date)
+        .filter(({ start }) => start > now)
+        .map(({ start, end }) => toSlot(doctor, start, end, overlappingBookings(doctor, appointments, start, end).length))
+        .filter(slot => slot.remaining > 0)
+    }))
+    .filter(entry => entry.slots.length > 0);
+}
+
+/**
+ * Lists every slot of every doctor at a hospital on a local date together
+ * with the appointments booked into it, for the hospital's scheduling board
+ */
+export async function getScheduleBoard(hospitalId: string, date: string) {
+  const { doctors, appointments } = await loadDay({ hospitalId }, date);
+
+  return doctors.map(doctor => {
+    // Each appointment is shown once, in the first slot it overlaps
+    const shown = new Set<string>();
+
+    return {
+      doctor: doctorSummary(doctor),
+      slots: doctorSlotTimes(doctor, date).map(({ start, end }): BoardSlot => {
+        const booked = overlappingBookings(doctor, appointments, start, end);
+        const listed = booked.filter(appointment => !shown.has(appointment.id));
+        listed.forEach(appointment => shown.add(appointment.id));
+        return { ...toSlot(doctor, start, end, booked.length), appointments: listed };
+      })
+    };
+  });
+}
+
+/**
+ * Finds the earliest open slot of a doctor at or after `from`
+ */
+export async function findFirstOpenSlot(hospitalId: string, doctorId: string, from: Date) {
+  const firstDate = toLocalDate(from > new Date() ? from : new Date());
+
+  for (let offset = 0; offset < AUTO_SCHEDULE_DAYS; offset++) {
+    const [entry] = await getOpenSlots(hospitalId, addDays(firstDate, offset), { doctorId });
+    const slot = entry?.slots.find(candidate => new Date(candidate.start) >= from);
+    if (slot) return new Date(slot.start);
+  }
+
+  return null;
+}
+
+/**
+ * Checks that `start` is a bookable slot of the doctor and that it has room.
+ * The doctor must work at `hospitalId`, the hospital the appointment is with.
+ * Must run inside a transaction: the doctor row stays locked until commit, so
+ * concurrent bookings for the same doctor are serialized.
+ */
+async function reserveSlot(
+  tx: Prisma.TransactionClient,
+  hospitalId: string,
+  doctorId: string,
+  start: Date,
+  appointmentId?: string
+) {
+  const locked = await tx.$queryRaw<{ id: string }[]>`
+    SELECT id FROM "Doctor" WHERE id = ${doctorId} AND "hospitalId" = ${hospitalId} FOR UPDATE
+  `;
+
+  if (locked.length === 0) {
+    throw new SlotUnavailableError("The selected doctor does not work at this hospital");
+  }
+
+  if (start <= new Date()) {
+    throw new SlotUnavailableError("This slot is in the past");
+  }
+
+  const date = toLocalDate(start);
+  const { dayStart, dayEnd } = localDayBounds(date);
+  const doctor: ScheduledDoctor = await tx.doctor.findUniqueOrThrow({
+    where: { id: doctorId },
+    select: {
+      id: true,
+      name: true,
+      specialty: true,
+      slotMinutes: true,
+      slotCapacity: true,
+      shifts: { select: { dayOfWeek: true, startMinute: true, endMinute: true } },
+      leaves: {
+        where: { startsAt: { lt: dayEnd }, endsAt: { gt: dayStart } },
+        select: { startsAt: true, endsAt: true }
+      }
+    }
+  });
+
+  const slot = doctorSlotTimes(doctor, date).find(candidate => candidate.start.getTime() === start.getTime());
+  if (!slot) {
+    throw new SlotUnavailableError(`${doctor.name} has no slot starting at this time`);
+  }
+
+  // Count every booking overlapping the slot, including ones made under an
+  // earlier slot length that no longer start on the grid
+  const booked: number = await tx.appointment.count({
+    where: {
+      doctorId,
+      status: { in: ACTIVE_STATUSES },
+      scheduledDate: { lt: slot.end },
+      OR: [
+        { slotEnd: { gt: slot.start } },
+        { slotEnd: null, scheduledDate: { gt: new Date(slot.start.getTime() - doctor.slotMinutes * MINUTE_MS) } }
+      ],
+      ...(appointmentId && { id: { not: appointmentId } })
+    }
+  });
+
+  if (booked >= doctor.slotCapacity) {
+    throw new SlotUnavailableError("This slot is already fully booked");
+  }
+
+  return { scheduledDate: slot.start, slotEnd: slot.end };
+}
+
+const appointmentInclude = {
+  hospital: true,
+  doctor: true,
+  user: {
+    select: {
+      id: true,
+      name: true,
+      email: true
+    }
+  }
+};
+
+/**
+ * Creates an appointment directly in a doctor's slot
+ */
+export async function createAppointmentInSlot(
+  data: Omit<Prisma.AppointmentUncheckedCreateInput, 'doctorId' | 'scheduledDate' | 'slotEnd'>,
+  doctorId: string,
+  start: Date
+) {
+  return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const slot = await reserveSlot(tx, data.hospitalId, doctorId, start);
+
+    return tx.appointment.create({
+      data: {
+        ...data,
+        doctorId,
+        ...slot
+      },
+      include: appointmentInclude
+    });
+  }, TRANSACTION_OPTIONS);
+}
+
+/**
+ * Moves an existing appointment into a doctor's slot (booking, rescheduling
+ * or dragging it to another doctor). `data` is applied in the same transaction.
+ */
+export async function scheduleAppointment(
+  appointmentId: string,
+  doctorId: string,
+  start: Date,
+  data: Record<string, unknown> = {}
+) {
+  return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const { hospitalId } = await tx.appointment.findUniqueOrThrow({
+      where: { id: appointmentId },
+      select: { hospitalId: true }
+    });
+    const slot = await reserveSlot(tx, hospitalId, doctorId, start, appointmentId);
+
+    return tx.appointment.update({
+      where: { id: appointmentId },
+      data: {
+        ...data,
+        doctorId,
+        ...slot
+      },
+      include: appointmentInclude
+    });
+  }, TRANSACTION_OPTIONS);
+}
+
+/**
+ * Loads a doctor's slot settings, weekly shifts and upcoming leave
+ */
+export async function getDoctorSchedule(doctorId: string) {
+  return prisma.doctor.findUnique({
+    where: { id: doctorId },
+    select: {
+      id: true,
+      name: true,
+      specialty: true,
+      hospitalId: true,
+      slotMinutes: true,
+      slotCapacity: true,
+      shifts: {
+        select: { id: true, dayOfWeek: true, startMinute: true, endMinute: true },
+        orderBy: [{ dayOfWeek: 'asc' }, { startMinute: 'asc' }]
+      },
+      leaves: {
+        where: { endsAt: { gt: new Date() } },
+        select: { id: true, startsAt: true, endsAt: true, reason: true },
+        orderBy: { startsAt: 'asc' }
+      }
+    }
+  });
+}
+
+/**
+ * Replaces a doctor's slot settings and weekly shifts.
+ * Existing bookings are kept even if they no longer fall on the new grid,
+ * and still take up the slots they overlap.
+ */
+export async function updateDoctorSchedule(
+  doctorId: string,
+  settings: { slotMinutes: number; slotCapacity: number; shifts: ShiftInput[] }
+) {
+  await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    await tx.doctor.update({
+      where: { id: doctorId },
+      data: {
+        slotMinutes: settings.slotMinutes,
+        slotCapacity: settings.slotCapacity
+      }
+    });
+
+    await tx.doctorShift.deleteMany({ where: { doctorId } });
+
+    if (settings.shifts.length > 0) {
+      await tx.doctorShift.createMany({
+        data: settings.shifts.map(shift => ({ ...shift, doctorId }))
+      });
+    }
+  }, TRANSACTION_OPTIONS);
+
+  return getDoctorSchedule(doctorId);
+}
+
+/**
+ * Records leave for a doctor; slots overlapping it stop being offered
+ */
+export async function addDoctorLeave(doctorId: string, leave: { startsAt: Date; endsAt: Date; reason?: string | null }) {
+  return prisma.doctorLeave.create({
+    data: {
+      doctorId,
+      startsAt: leave.startsAt,
+      endsAt: leave.endsAt,
+      reason: leave.reason || null
+    }
+  });
+}
+
+/**
+ * Removes a leave entry of a doctor
+ */
+export async function removeDoctorLeave(doctorId: string, leaveId: string) {
+  const { count } = await prisma.doctorLeave.deleteMany({
+    where: { id: leaveId, doctorId }
+  });
+  return count > 0;
+}
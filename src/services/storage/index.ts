@@ -0,0 +1,29 @@
+// Blob storage registry
+// Selects the storage backend from the STORAGE_DRIVER environment variable
+// ("local" by default, "s3" for S3-compatible object storage).
+import { localStorageDriver, verifyLocalSignature } from './local';
+import { s3StorageDriver } from './s3';
+import type { StorageDriver } from './types';
+
+export type { StorageDriver, StoredObject } from './types';
+export { localStorageDriver, s3StorageDriver, verifyLocalSignature };
+
+const drivers: Record<string, StorageDriver> = {
+  local: localStorageDriver,
+  s3: s3StorageDriver
+};
+
+/**
+ * Returns the storage driver configured for this environment
+ */
+export function getStorage(): StorageDriver {
+  const driverName = (process.env.STORAGE_DRIVER || 'local').toLowerCase();
+  const driver = drivers[driverName];
+
+  if (!driver) {
+    console.warn(`⚠️ Unknown STORAGE_DRIVER "${driverName}", falling back to local storage`);
+    return localStorageDriver;
+  }
+
+  return driver;
+}
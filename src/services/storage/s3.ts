@@ -0,0 +1,196 @@
+// S3-compatible storage
+// Talks to AWS S3, MinIO, Cloudflare R2 and similar services over their REST
+// API, signing requests with AWS Signature Version 4. View URLs are
+// presigned GET URLs.
+import { createHash, createHmac } from 'crypto';
+import type { StorageDriver } from './types';
+
+type S3Config = {
+  bucket: string;
+  region: string;
+  endpoint: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  forcePathStyle: boolean;
+};
+
+type SignedRequest = {
+  url: string;
+  headers: Record<string, string>;
+};
+
+const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD';
+
+function readConfig(): S3Config {
+  const bucket = process.env.S3_BUCKET;
+  const accessKeyId = process.env.S3_ACCESS_KEY_ID;
+  const secretAccessKey = process.env.S3_SECRET_ACCESS_KEY;
+
+  if (!bucket || !accessKeyId || !secretAccessKey) {
+    throw new Error('S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY must be set for S3 storage');
+  }
+
+  const region = process.env.S3_REGION || 'us-east-1';
+
+  return {
+    bucket,
+    region,
+    endpoint: (process.env.S3_ENDPOINT || `https://s3.${region}.amazonaws.com`).replace(/\/+$/, ''),
+    accessKeyId,
+    secretAccessKey,
+    // Most self-hosted services (e.g. MinIO) only support path-style URLs
+    forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true'
+  };
+}
+
+function sha256Hex(data: string | Buffer) {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string) {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+// RFC 3986 encoding as S3 expects it
+function encodeRfc3986(value: string) {
+  return encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function objectUrl(config: S3Config, key: string) {
+  const encodedKey = key.split('/').map(encodeRfc3986).join('/');
+  const endpoint = new URL(config.endpoint);
+
+  if (config.forcePathStyle) {
+    return new URL(`${endpoint.origin}/${config.bucket}/${encodedKey}`);
+  }
+
+  return new URL(`${endpoint.protocol}//${config.bucket}.${endpoint.host}/${encodedKey}`);
+}
+
+function signingKey(config: S3Config, date: string) {
+  const dateKey = hmac(`AWS4${config.secretAccessKey}`, date);
+  return hmac(hmac(hmac(dateKey, config.region), 's3'), 'aws4_request');
+}
+
+/**
+ * Signs a request with AWS Signature Version 4, either in headers or, for
+ * presigned URLs, in the query string
+ */
+function signRequest(
+  config: S3Config,
+  method: string,
+  key: string,
+  options: { headers?: Record<string, string>; payloadHash?: string; presignSeconds?: number } = {}
+): SignedRequest {
+  const url = objectUrl(config, key);
+  const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+  const date = amzDate.slice(0, 8);
+  const scope = `${date}/${config.region}/s3/aws4_request`;
+  const payloadHash = options.payloadHash || UNSIGNED_PAYLOAD;
+
+  const headers: Record<string, string> = { host: url.host };
+  if (!options.presignSeconds) {
+    headers['x-amz-content-sha256'] = payloadHash;
+    headers['x-amz-date'] = amzDate;
+  }
+  Object.entries(options.headers || {}).forEach(([name, value]) => {
+    headers[name.toLowerCase()] = value;
+  });
+
+  const headerNames = Object.keys(headers).sort();
+  const signedHeaders = headerNames.join(';');
+
+  if (options.presignSeconds) {
+    url.searchParams.set('X-Amz-Algorithm', 'AWS4-HMAC-SHA256');
+    url.searchParams.set('X-Amz-Credential', `${config.accessKeyId}/${scope}`);
+    url.searchParams.set('X-Amz-Date', amzDate);
+    url.searchParams.set('X-Amz-Expires', String(options.presignSeconds));
+    url.searchParams.set('X-Amz-SignedHeaders', signedHeaders);
+  }
+
+  const canonicalQuery = [...url.searchParams.entries()]
+    .map(([name, value]) => `${encodeRfc3986(name)}=${encodeRfc3986(value)}`)
+    .sort()
+    .join('&');
+
+  const canonicalRequest = [
+    method,
+    url.pathname,
+    canonicalQuery,
+    headerNames.map(name => `${name}:${headers[name].trim()}\n`).join(''),
+    signedHeaders,
+    payloadHash
+  ].join('\n');
+
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+  const signature = createHmac('sha256', signingKey(config, date)).update(stringToSign).digest('hex');
+
+  if (options.presignSeconds) {
+    url.searchParams.set('X-Amz-Signature', signature);
+    return { url: url.toString(), headers: {} };
+  }
+
+  // fetch sets the host header itself
+  delete headers.host;
+  return {
+    url: url.toString(),
+    headers: {
+      ...headers,
+      authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+    }
+  };
+}
+
+async function send(method: string, key: string, init: { body?: Buffer; headers?: Record<string, string> } = {}) {
+  const config = readConfig();
+  const { url, headers } = signRequest(config, method, key, {
+    headers: init.headers,
+    payloadHash: init.body ? sha256Hex(init.body) : undefined
+  });
+
+  return fetch(url, { method, headers, body: init.body ? new Uint8Array(init.body) : undefined });
+}
+
+async function expectOk(response: Response, description: string) {
+  if (!response.ok) {
+    const details = await response.text().catch(() => '');
+    throw new Error(`S3 ${description} failed with ${response.status}: ${details.slice(0, 200)}`);
+  }
+}
+
+export const s3StorageDriver: StorageDriver = {
+  name: 's3',
+
+  async put(key, data, contentType) {
+    const response = await send('PUT', key, { body: data, headers: { 'content-type': contentType } });
+    await expectOk(response, `upload of ${key}`);
+  },
+
+  async get(key) {
+    const response = await send('GET', key);
+    if (response.status === 404) return null;
+    await expectOk(response, `download of ${key}`);
+
+    return {
+      data: Buffer.from(await response.arrayBuffer()),
+      contentType: response.headers.get('content-type') || 'application/octet-stream'
+    };
+  },
+
+  async exists(key) {
+    const response = await send('HEAD', key);
+    if (response.status === 404) return false;
+    await expectOk(response, `lookup of ${key}`);
+    return true;
+  },
+
+  async delete(key) {
+    const response = await send('DELETE', key);
+    if (response.status === 404) return;
+    await expectOk(response, `deletion of ${key}`);
+  },
+
+  async signedUrl(key, expiresInSeconds) {
+    return signRequest(readConfig(), 'GET', key, { presignSeconds: expiresInSeconds }).url;
+  }
+};
@@ -0,0 +1,20 @@
+/**
+ * Storage Driver Types
+ * Contract shared by every blob storage backend (local filesystem, S3, ...)
+ */
+
+export type StoredObject = {
+  data: Buffer;
+  contentType: string;
+};
+
+export interface StorageDriver {
+  name: string;
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  // Null when nothing is stored under the key
+  get(key: string): Promise<StoredObject | null>;
+  exists(key: string): Promise<boolean>;
+  delete(key: string): Promise<void>;
+  // URL that shows the object to whoever holds it until it expires
+  signedUrl(key: string, expiresInSeconds: number): Promise<string>;
+}
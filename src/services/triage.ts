@@ -0,0 +1,227 @@
+// Structured triage output shared by every AI provider
+// The AI returns JSON which is validated here; the human-readable report shown
+// to patients and staff is rendered from the validated object. Patients who
+// read another language also get the report in it.
+import { z } from 'zod';
+import { DEFAULT_LOCALE, LANGUAGES, translate } from '@/lib/i18n';
+import type { Locale, MessageKey } from '@/lib/i18n';
+
+// Priority levels, ordered from least to most urgent
+export const TRIAGE_PRIORITIES = ['LOW', 'MEDIUM', 'HIGH', 'URGENT'] as const;
+
+// Specialties that doctors are registered under (see prisma/seed.ts)
+export const SPECIALTIES = [
+  'Cardiology',
+  'Neurology',
+  'Orthopedics',
+  'Pediatrics',
+  'Dermatology',
+  'Ophthalmology',
+  'Psychiatry',
+  'General Medicine',
+  'Emergency Medicine'
+] as const;
+
+export type TriagePriority = typeof TRIAGE_PRIORITIES[number];
+export type Specialty = typeof SPECIALTIES[number];
+
+// Common ways the model names a specialist, mapped to our specialty names
+const SPECIALTY_ALIASES: Record<string, Specialty> = {
+  'cardiologist': 'Cardiology',
+  'neurologist': 'Neurology',
+  'orthopedist': 'Orthopedics',
+  'orthopaedics': 'Orthopedics',
+  'orthopedic surgeon': 'Orthopedics',
+  'pediatrician': 'Pediatrics',
+  'paediatrics': 'Pediatrics',
+  'dermatologist': 'Dermatology',
+  'ophthalmologist': 'Ophthalmology',
+  'psychiatrist': 'Psychiatry',
+  'general practitioner': 'General Medicine',
+  'general physician': 'General Medicine',
+  'emergency': 'Emergency Medicine',
+  'emergency physician': 'Emergency Medicine'
+};
+
+/**
+ * Maps a free-form specialty name onto one of SPECIALTIES.
+ * Unknown values fall back to General Medicine so a doctor can still be assigned.
+ */
+export function normalizeSpecialty(value: unknown): Specialty {
+  if (typeof value !== 'string') return 'General Medicine';
+
+  const key = value.trim().toLowerCase();
+  const exact = SPECIALTIES.find(specialty => specialty.toLowerCase() === key);
+  return exact || SPECIALTY_ALIASES[key] || 'General Medicine';
+}
+
+// The patient-facing fields in the patient's language. Staff and the queue
+// work from the English ones.
+const TriageTranslationSchema = z.object({
+  condition: z.string().trim().min(1),
+  specialty: z.string().trim().min(1),
+  redFlags: z.array(z.string().trim().min(1)).default([]),
+  recommendedActions: z.array(z.string().trim().min(1)).default([])
+});
+
+export const TriageSchema = z.object({
+  condition: z.string().trim().min(1),
+  severity: z.coerce.number().min(1).max(10).transform(Math.round),
+  priority: z.preprocess(
+    value => (typeof value === 'string' ? value.trim().toUpperCase() : value),
+    z.enum(TRIAGE_PRIORITIES)
+  ),
+  specialty: z.preprocess(normalizeSpecialty, z.enum(SPECIALTIES)),
+  redFlags: z.array(z.string().trim().min(1)).default([]),
+  recommendedActions: z.array(z.string().trim().min(1)).default([]),
+  // A broken translation only costs the patient their language, not the triage
+  translation: TriageTranslationSchema.optional().catch(undefined)
+});
+
+export type Triage = z.infer<typeof TriageSchema>;
+
+// Validated triage plus the display text rendered from it, in English and,
+// for patients who read another language, in theirs
+export type TriageAnalysis = {
+  triage: Triage;
+  analysis: string;
+  patientAnalysis: string | null;
+};
+
+// Description of the JSON shape, embedded in AI prompts
+export const TRIAGE_JSON_INSTRUCTIONS = `Respond with a single JSON object and nothing else, using exactly these fields:
+{
+  "condition": "Clear summary of the medical condition or most likely diagnosis",
+  "severity": 1-10 integer, where 1 is minor and 10 is critical/life-threatening,
+  "priority": one of ${TRIAGE_PRIORITIES.map(p => `"${p}"`).join(', ')},
+  "specialty": one of ${SPECIALTIES.map(s => `"${s}"`).join(', ')},
+  "redFlags": ["Findings that need urgent attention; empty array if none"],
+  "recommendedActions": ["Immediate medical steps, one per entry"]
+}
+Only list something in "redFlags" if it is actually present. Negated findings (for example "no heart issues") are not red flags and must not influence the specialty.`;
+
+/**
+ * What to add to TRIAGE_JSON_INSTRUCTIONS for a patient who reads
+ * `language`: a translation of the fields they see. Empty for English.
+ */
+export function triageTranslationInstructions(language: Locale) {
+  if (language === DEFAULT_LOCALE) return '';
+
+  const { name } = LANGUAGES[language];
+  return `
+
+The patient reads ${name}. Also add a "translation" field for them: an object with "condition", "specialty", "redFlags" and "recommendedActions" holding the same content as those fields, written in ${name}. Keep every other field in English for hospital staff.`;
+}
+
+/**
+ * Parses and validates an AI response as a triage object.
+ * Throws if the response is not valid JSON or does not match TriageSchema.
+ */
+export function parseTriage(responseText: string): Triage {
+  const jsonText = responseText
+    .trim()
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/\s*```$/, '');
+
+  return TriageSchema.parse(JSON.parse(jsonText));
+}
+
+/**
+ * Derives a priority level from a severity score
+ */
+export function priorityFromSeverity(severity: number): TriagePriority {
+  if (severity >= 9) return 'URGENT';
+  if (severity >= 7) return 'HIGH';
+  if (severity >= 4) return 'MEDIUM';
+  return 'LOW';
+}
+
+/**
+ * Renders the human-readable report stored in aiAnalysis
+ */
+export function formatTriageReport(triage: Triage): string {
+  const priorityLabel = triage.priority.charAt(0) + triage.priority.slice(1).toLowerCase();
+  const redFlags = triage.redFlags.length > 0 ? triage.redFlags.join('; ') : 'None identified';
+  const actions = triage.recommendedActions.length > 0
+    ? triage.recommendedActions.map(action => `- ${action}`).join('\n')
+    : '- Please consult with medical staff for proper assessment.';
+
+  return `Patient Condition: ${triage.condition}
+
+Severity: ${triage.severity}/10
+
+Priority Level: ${priorityLabel}
+
+Specialist Recommendation: ${triage.specialty}
+
+Red Flags: ${redFlags}
+
+Recommended Actions:
+${actions}`;
+}
+
+/**
+ * Renders the report in the patient's language from the triage's
+ * translation. Null for English, or when the model left the translation out.
+ */
+export function formatPatientReport(triage: Triage, language: Locale): string | null {
+  if (language === DEFAULT_LOCALE || !triage.translation) return null;
+
+  const t = (key: MessageKey) => translate(language, key);
+  const { translation } = triage;
+  const redFlags = translation.redFlags.length > 0 ? translation.redFlags.join('; ') : t('analysis.noRedFlags');
+  const actions = translation.recommendedActions.map(action => `- ${action}`).join('\n');
+
+  return `${t('analysis.condition')}: ${translation.condition}
+
+${t('analysis.severity')}: ${triage.severity}/10
+
+${t('analysis.priority')}: ${t(`priority.${triage.priority}`)}
+
+${t('analysis.specialty')}: ${translation.specialty}
+
+${t('analysis.redFlags')}: ${redFlags}${actions ? `
+
+${t('analysis.actions')}:
+${actions}` : ''}`;
+}
+
+/**
+ * Wraps a triage object together with its rendered reports, the patient's
+ * in `language`
+ */
+export function toTriageAnalysis(triage: Triage, language: Locale = DEFAULT_LOCALE): TriageAnalysis {
+  return {
+    triage,
+    analysis: formatTriageReport(triage),
+    patientAnalysis: formatPatientReport(triage, language)
+  };
+}
+
+/**
+ * Builds the triage used when no AI analysis could be obtained
+ */
+export function fallbackTriage(condition: string, severity: number): TriageAnalysis {
+  return toTriageAnalysis({
+    condition,
+    severity,
+    priority: priorityFromSeverity(severity),
+    specialty: 'General Medicine',
+    redFlags: [],
+    recommendedActions: ['Please have hospital staff review your case directly.']
+  });
+}
+
+/**
+ * Maps a triage object onto the structured Receipt/Appointment columns
+ */
+export function triageToColumns(triage: Triage) {
+  return {
+    condition: triage.condition,
+    severity: triage.severity,
+    priority: triage.priority,
+    specialty: triage.specialty,
+    redFlags: triage.redFlags,
+    recommendedActions: triage.recommendedActions
+  };
+}
@@ -0,0 +1,266 @@
+// Wait time estimator
+// Predicts how long a queued patient will wait before being seen, from how
+// quickly the hospital actually worked through its queue recently.
+//
+// Each completed receipt gives one sample: the time from processedAt (when it
+// entered the queue) to completedAt, divided by the number of patients that
+// had to be seen up to and including it. That yields minutes per patient,
+// which is multiplied by the number of patients ahead of the receipt now.
+import prisma from '@/lib/prisma';
+
+export type WaitTimeConfidence = 'low' | 'medium' | 'high';
+
+// Which history the estimate was based on, from most to least specific
+export type WaitTimeBasis = 'doctor' | 'specialty' | 'hospital' | 'default';
+
+export type WaitTimeEstimate = {
+  estimatedMinutes: number;
+  lowMinutes: number;
+  highMinutes: number;
+  confidence: WaitTimeConfidence;
+  basis: WaitTimeBasis;
+  patientsAhead: number;
+  sampleSize: number;
+  estimatedAt: string;
+};
+
+type ServiceSample = {
+  doctorId: string | null;
+  specialty: string | null;
+  minutesPerPatient: { hospital: number; specialty: number; doctor: number };
+};
+
+type QueuedReceipt = {
+  id: string;
+  queuePosition: number | null;
+  doctorId: string | null;
+  specialty: string | null;
+};
+
+type DoctorAvailability = {
+  id: string;
+  specialty: string;
+  available: boolean;
+};
+
+type WaitTimeScope = {
+  basis: Exclude<WaitTimeBasis, 'default'>;
+  // Which history samples and which queued patients share this scope
+  matches: (sample: ServiceSample) => boolean;
+  sameQueue: (item: QueuedReceipt) => boolean;
+};
+
+export type WaitTimeContext = {
+  samples: ServiceSample[];
+  queue: QueuedReceipt[];
+  doctors: DoctorAvailability[];
+};
+
+// Only recent history reflects current staffing
+const HISTORY_DAYS = 30;
+const MAX_SAMPLES = 500;
+// Receipts left open overnight are not representative
+const MAX_SAMPLE_MINUTES = 12 * 60;
+
+// Samples needed before a scope is trusted over a broader one
+const MIN_SAMPLES = 5;
+const HIGH_CONFIDENCE_SAMPLES = 20;
+
+// Used when the hospital has no usable history yet
+const DEFAULT_MINUTES_PER_PATIENT = 15;
+
+type SampleRow = {
+  doctorId: string | null;
+  specialty: string | null;
+  durationMinutes: number;
+  aheadHospital: number;
+  aheadSpecialty: number;
+  aheadDoctor: number;
+};
+
+/**
+ * Loads recent completion samples for a hospital.
+ * Patients "ahead" of a sample are those queued before it that were still
+ * waiting when it entered the queue.
+ */
+async function loadServiceSamples(hospitalId: string): Promise<ServiceSample[]> {
+  const since = new Date(Date.now() - HISTORY_DAYS * 24 * 60 * 60 * 1000);
+
+  const rows: SampleRow[] = await prisma.$queryRaw`
+    SELECT
+      r."doctorId",
+      r.specialty,
+      EXTRACT(EPOCH FROM (r."completedAt" - r."processedAt"))::float / 60 AS "durationMinutes",
+      COUNT(o.id)::int AS "aheadHospital",
+      COUNT(o.id) FILTER (WHERE o.specialty IS NOT DISTINCT FROM r.specialty)::int AS "aheadSpecialty",
+      COUNT(o.id) FILTER (WHERE o."doctorId" IS NOT DISTINCT FROM r."doctorId")::int AS "aheadDoctor"
+    FROM "Receipt" r
+    LEFT JOIN "Receipt" o
+      ON o."hospitalId" = r."hospitalId"
+      AND o.id <> r.id
+      AND o."processedAt" < r."processedAt"
+      AND (o."completedAt" IS NULL OR o."completedAt" > r."processedAt")
+      AND o.status IN ('QUEUED', 'COMPLETED')
+    WHERE r."hospitalId" = ${hospitalId}
+      AND r.status = 'COMPLETED'
+      AND r."processedAt" IS NOT NULL
+      AND r."completedAt" > r."processedAt"
+      AND r."completedAt" >= ${since}
+    GROUP BY r.id
+    ORDER BY r."completedAt" DESC
+    LIMIT ${MAX_SAMPLES}
+  `;
+
+  return rows
+    .filter(row => row.durationMinutes <= MAX_SAMPLE_MINUTES)
+    .map(row => ({
+      doctorId: row.doctorId,
+      specialty: row.specialty,
+      minutesPerPatient: {
+        hospital: row.durationMinutes / (row.aheadHospital + 1),
+        specialty: row.durationMinutes / (row.aheadSpecialty + 1),
+        doctor: row.durationMinutes / (row.aheadDoctor + 1)
+      }
+    }));
+}
+
+/**
+ * Loads everything needed to estimate wait times for one hospital's queue
+ */
+export async function loadWaitTimeContext(hospitalId: string): Promise<WaitTimeContext> {
+  const [samples, queue, doctors] = await Promise.all([
+    loadServiceSamples(hospitalId),
+    prisma.receipt.findMany({
+      where: { hospitalId, status: 'QUEUED' },
+      orderBy: { queuePosition: 'asc' },
+      select: { id: true, queuePosition: true, doctorId: true, specialty: true }
+    }),
+    prisma.doctor.findMany({
+      where: { hospitalId },
+      select: { id: true, specialty: true, available: true }
+    })
+  ]);
+
+  return { samples, queue, doctors };
+}
+
+function percentile(sorted: number[], p: number) {
+  const index = (sorted.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+function confidenceFor(sampleSize: number): WaitTimeConfidence {
+  if (sampleSize >= HIGH_CONFIDENCE_SAMPLES) return 'high';
+  if (sampleSize >= MIN_SAMPLES) return 'medium';
+  return 'low';
+}
+
+/**
+ * Estimates the wait for one queued receipt.
+ * Returns null when the receipt is not in the queue.
+ */
+export function estimateWaitTime(context: WaitTimeContext, receiptId: string): WaitTimeEstimate | null {
+  const receipt = context.queue.find(item => item.id === receiptId);
+  if (!receipt || receipt.queuePosition === null) return null;
+
+  const assignedDoctor = context.doctors.find(doctor => doctor.id === receipt.doctorId);
+  const specialtyDoctors = context.doctors.filter(doctor => doctor.specialty === receipt.specialty);
+  const availableSpecialists = specialtyDoctors.filter(doctor => doctor.available).length;
+
+  // Pick the narrowest scope with enough history. An unavailable doctor's own
+  // pace says little about when the patient will be seen, so skip that scope.
+  const scopes: WaitTimeScope[] = [];
+
+  if (assignedDoctor?.available) {
+    scopes.push({
+      basis: 'doctor',
+      matches: sample => sample.doctorId === assignedDoctor.id,
+      sameQueue: item => item.doctorId === assignedDoctor.id
+    });
+  }
+  if (receipt.specialty && availableSpecialists > 0) {
+    scopes.push({
+      basis: 'specialty',
+      matches: sample => sample.specialty === receipt.specialty,
+      sameQueue: item => item.specialty === receipt.specialty
+    });
+  }
+  scopes.push({
+    basis: 'hospital',
+    matches: () => true,
+    sameQueue: () => true
+  });
+
+  const scope = scopes.find(candidate =>
+    context.samples.filter(candidate.matches).length >= MIN_SAMPLES
+  );
+
+  const position = receipt.queuePosition;
+  const patientsAhead = context.queue.filter(item =>
+    item.queuePosition !== null && item.queuePosition < position && (scope ? scope.sameQueue(item) : true)
+  ).length;
+
+  const perPatient = scope
+    ? context.samples
+        .filter(scope.matches)
+        .map(sample => sample.minutesPerPatient[scope.basis])
+        .sort((a, b) => a - b)
+    : [];
+
+  let estimate = DEFAULT_MINUTES_PER_PATIENT;
+  let low = DEFAULT_MINUTES_PER_PATIENT * 0.5;
+  let high = DEFAULT_MINUTES_PER_PATIENT * 2;
+
+  if (perPatient.length > 0) {
+    estimate = percentile(perPatient, 0.5);
+    low = percentile(perPatient, 0.25);
+    high = percentile(perPatient, 0.75);
+  }
+
+  // Nobody at the hospital is on duty right now: the wait is open-ended
+  const noDoctorOnDuty = context.doctors.length > 0 && !context.doctors.some(doctor => doctor.available);
+  if (noDoctorOnDuty) {
+    high *= 2;
+  }
+
+  const sampleSize = perPatient.length;
+  const confidence = noDoctorOnDuty ? 'low' : confidenceFor(sampleSize);
+
+  return {
+    estimatedMinutes: Math.round(estimate * patientsAhead),
+    lowMinutes: Math.round(low * patientsAhead),
+    highMinutes: Math.round(high * patientsAhead),
+    confidence,
+    basis: scope ? scope.basis : 'default',
+    patientsAhead,
+    sampleSize,
+    estimatedAt: new Date().toISOString()
+  };
+}
+
+/**
+ * Estimates the wait for every receipt in a hospital's queue, keyed by receipt id
+ */
+export async function estimateQueueWaitTimes(hospitalId: string) {
+  const context = await loadWaitTimeContext(hospitalId);
+  const estimates = new Map<string, WaitTimeEstimate>();
+
+  context.queue.forEach(item => {
+    const estimate = estimateWaitTime(context, item.id);
+    if (estimate) estimates.set(item.id, estimate);
+  });
+
+  return estimates;
+}
+
+/**
+ * Estimates the wait for a single receipt, or null if it is not queued
+ */
+export async function estimateReceiptWaitTime(receipt: { id: string; hospitalId: string | null; status: string }) {
+  if (receipt.status !== 'QUEUED' || !receipt.hospitalId) return null;
+
+  const context = await loadWaitTimeContext(receipt.hospitalId);
+  return estimateWaitTime(context, receipt.id);
+}
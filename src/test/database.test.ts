@@ -0,0 +1,55 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { startTestDatabase, testClientModule } from './database';
+import type { TestDatabase } from './database';
+
+// The tests trust the migrations to build the schema the services are written
+// against; catch drift between prisma/migrations and schema.prisma here.
+describe('test database', () => {
+  let database: TestDatabase;
+
+  beforeAll(async () => {
+    database = await startTestDatabase();
+  });
+
+  afterAll(async () => {
+    await database.stop();
+  });
+
+  it('has every model and column from schema.prisma', async () => {
+    const { Prisma } = testClientModule();
+    const columns = await database.prisma.$queryRaw`
+      SELECT table_name::text, column_name::text FROM information_schema.columns WHERE table_schema = 'public'
+    ` as { table_name: string; column_name: string }[];
+    const existing = new Set(columns.map(({ table_name, column_name }) => `${table_name}.${column_name}`));
+
+    const missing: string[] = [];
+    for (const model of Prisma.dmmf.datamodel.models) {
+      const table = model.dbName ?? model.name;
+      for (const field of model.fields) {
+        if (field.kind !== 'scalar' && field.kind !== 'enum') continue;
+        const column = `${table}.${field.dbName ?? field.name}`;
+        if (!existing.has(column)) missing.push(column);
+      }
+    }
+
+    expect(missing).toEqual([]);
+  });
+
+  it('has every enum value from schema.prisma', async () => {
+    const { Prisma } = testClientModule();
+    const labels = await database.prisma.$queryRaw`
+      SELECT t.typname::text, e.enumlabel::text FROM pg_enum e JOIN pg_type t ON t.oid = e.enumtypid
+    ` as { typname: string; enumlabel: string }[];
+    const existing = new Set(labels.map(({ typname, enumlabel }) => `${typname}.${enumlabel}`));
+
+    const missing: string[] = [];
+    for (const enumType of Prisma.dmmf.datamodel.enums) {
+      for (const value of enumType.values) {
+        const label = `${enumType.dbName ?? enumType.name}.${value.dbName ?? value.name}`;
+        if (!existing.has(label)) missing.push(label);
+      }
+    }
+
+    expect(missing).toEqual([]);
+  });
+});
@@ -0,0 +1,48 @@
+// Generates a Prisma client for the test database.
+// The app's client (src/generated/prisma) talks to Supabase through the query
+// engine; tests run against PGlite through the pg driver adapter instead, so
+// they need a client that runs queries through a driver adapter. The
+// client is regenerated only when prisma/schema.prisma changes.
+import { execFileSync } from 'node:child_process';
+import { createHash } from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import { TEST_CLIENT_DIR, TEST_PRISMA_DIR } from './database';
+
+const SCHEMA_PATH = path.resolve(__dirname, '../../prisma/schema.prisma');
+const STAMP_PATH = path.join(TEST_PRISMA_DIR, 'schema.sha256');
+
+function testSchema() {
+  const schema = fs.readFileSync(SCHEMA_PATH, 'utf8');
+
+  return schema.replace(/generator client \{[\s\S]*?\}/, [
+    'generator client {',
+    '  provider        = "prisma-client-js"',
+    `  output          = "${TEST_CLIENT_DIR}"`,
+    '  engineType      = "client"',
+    '}'
+  ].join('\n'));
+}
+
+export default function setup() {
+  const schema = testSchema();
+  const hash = createHash('sha256').update(schema).digest('hex');
+
+  const current = fs.existsSync(STAMP_PATH) ? fs.readFileSync(STAMP_PATH, 'utf8') : null;
+  if (current === hash && fs.existsSync(path.join(TEST_CLIENT_DIR, 'index.js'))) {
+    return;
+  }
+
+  fs.mkdirSync(TEST_PRISMA_DIR, { recursive: true });
+  const schemaPath = path.join(TEST_PRISMA_DIR, 'schema.prisma');
+  fs.writeFileSync(schemaPath, schema);
+
+  console.log('Generating the test Prisma client...');
+  execFileSync(
+    path.resolve(__dirname, '../../node_modules/.bin/prisma'),
+    ['generate', '--schema', schemaPath],
+    { stdio: 'inherit' }
+  );
+
+  fs.writeFileSync(STAMP_PATH, hash);
+}
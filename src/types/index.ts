@@ -25,7 +25,12 @@ export type Appointment = {
   doctorId?: string;
   symptoms: string;
   aiAnalysis?: string;
+  condition?: string;
   severity?: number;
+  priority?: TriagePriority;
+  specialty?: string;
+  redFlags?: string[];
+  recommendedActions?: string[];
   status: AppointmentStatus;
   preferredDate: string;
   scheduledDate?: string;
@@ -46,4 +51,6 @@ export type User = {
   dateOfBirth?: string;
 };
 
-export type AppointmentStatus = "PENDING" | "CONFIRMED" | "COMPLETED" | "CANCELLED"; 
\ No newline at end of file
+export type AppointmentStatus = "PENDING" | "CONFIRMED" | "COMPLETED" | "CANCELLED";
+
+export type TriagePriority = "LOW" | "MEDIUM" | "HIGH" | "URGENT";
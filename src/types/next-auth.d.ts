@@ -18,6 +18,7 @@ declare module "next-auth" {
       gender?: string | null;
       phone?: string | null;
       address?: string | null;
+      language?: string | null;
     };
   }
 
@@ -33,6 +34,7 @@ declare module "next-auth" {
     gender?: string | null;
     phone?: string | null;
     address?: string | null;
+    language?: string | null;
   }
 }
 
@@ -51,5 +53,6 @@ declare module "next-auth/jwt" {
     gender?: string | null;
     phone?: string | null;
     address?: string | null;
+    language?: string | null;
   }
 } 
\ No newline at end of file
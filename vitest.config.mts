@@ -0,0 +1,20 @@
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': fileURLToPath(new URL('./src', import.meta.url))
+    }
+  },
+  test: {
+    environment: 'node',
+    include: ['src/**/*.test.ts'],
+    // Generates the Prisma client the database tests run against
+    globalSetup: ['src/test/globalSetup.ts'],
+    // Each test file starts its own in-memory Postgres; one at a time keeps memory flat
+    fileParallelism: false,
+    testTimeout: 30000,
+    hookTimeout: 60000
+  }
+});